@@ -10,12 +10,12 @@ const pendingVerificationSchema = new mongoose.Schema({
     },
     userType: {
         type: String,
-        enum: ['admin', 'superadmin'],
+        enum: ['admin', 'superadmin', 'congregant'],
         required: true
     },
     name: {
         type: String,
-        required: true,
+        required: function () { return this.userType !== 'congregant'; },
         trim: true
     },
     phone: {
@@ -25,17 +25,17 @@ const pendingVerificationSchema = new mongoose.Schema({
     },
     password: {
         type: String,
-        required: true
-    },
+        required: function () { return this.userType !== 'congregant'; }
+    }, // Congregants sign in with the emailed code alone
     mosque_id: {
         type: mongoose.Schema.Types.ObjectId,
         ref: 'Mosque',
         required: function () { return this.userType === 'admin'; }
     },
-    mosque_verification_code: {
+    mosque_verification_code_hash: {
         type: String,
         required: function () { return this.userType === 'admin'; }
-    }, // The mosque verification code used during registration
+    }, // Keyed hash of the mosque verification code used during registration
     verification_code: {
         type: String,
         required: true
@@ -50,6 +50,17 @@ const pendingVerificationSchema = new mongoose.Schema({
         trim: true,
         maxlength: 500
     },
+    preferred_language: {
+        type: String,
+        default: 'en'
+    }, // Language for the admin's emails, copied to the account once the email is verified
+    documents: [{
+        kind: String,
+        original_name: String,
+        mime_type: String,
+        size: Number,
+        data: Buffer
+    }], // Supporting documents, moved to private storage once the email is verified
     createdAt: {
         type: Date,
         default: Date.now
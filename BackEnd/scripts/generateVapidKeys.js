@@ -0,0 +1,10 @@
+// Print a new VAPID key pair for Web Push prayer reminders. Add both to the API's environment:
+//   npm run push:keys
+// Changing the keys invalidates every existing browser subscription, so generate them once.
+import { generateVapidKeys } from '../src/utils/webPush.js';
+
+const { publicKey, privateKey } = generateVapidKeys();
+
+console.log(`VAPID_PUBLIC_KEY=${publicKey}`);
+console.log(`VAPID_PRIVATE_KEY=${privateKey}`);
+console.log('VAPID_SUBJECT=mailto:you@example.com');
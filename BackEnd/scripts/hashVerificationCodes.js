@@ -0,0 +1,171 @@
+// One-off migration: replace plaintext mosque verification codes with keyed hashes.
+// Run once after deploying, with the same VERIFICATION_CODE_SECRET (or JWT_SECRET) the server uses:
+//   npm run migrate:verification-codes
+// Safe to re-run - documents that are already migrated are skipped.
+import 'dotenv/config';
+import { pathToFileURL } from 'url';
+import mongoose from 'mongoose';
+import Mosque from '../src/models/Mosque.js';
+import Admin from '../src/models/Admin.js';
+import AuditLog from '../src/models/AuditLog.js';
+import PendingVerification from '../models/PendingVerification.js';
+import {
+    CODE_PREFIX_LENGTH,
+    getVerificationCodePrefix,
+    hashVerificationCode,
+    toStoredVerificationCode
+} from '../src/utils/verificationCode.js';
+
+// Audit log paths that used to hold full codes, mapped to the prefix field that replaces them
+const AUDIT_CODE_PATHS = {
+    'action_details.mosque_data.verification_code': 'action_details.mosque_data.verification_code_prefix',
+    'action_details.before_data.verification_code': 'action_details.before_data.verification_code_prefix',
+    'action_details.after_data.verification_code': 'action_details.after_data.verification_code_prefix',
+    'action_details.old_verification_code': 'action_details.old_verification_code_prefix',
+    'action_details.new_verification_code': 'action_details.new_verification_code_prefix',
+    'action_details.mosque_data.old_verification_code': 'action_details.mosque_data.old_verification_code_prefix',
+    'action_details.mosque_data.new_verification_code': 'action_details.mosque_data.new_verification_code_prefix',
+    'action_details.mosque_data.validated_code': 'action_details.mosque_data.validated_code_prefix'
+};
+
+// Admin fields that used to hold full codes and now keep only the prefix
+const ADMIN_CODE_FIELDS = ['verification_code_used', 'previous_mosque_code'];
+
+const readPath = (doc, path) => path.split('.').reduce((value, key) => value?.[key], doc);
+
+// Each step takes the collection so it can be run against a stand-in, and returns how many documents it changed
+const migrateMosques = async (collection = Mosque.collection) => {
+    const cursor = collection.find({ verification_code: { $exists: true } });
+    let count = 0;
+
+    for await (const mosque of cursor) {
+        const update = { $unset: { verification_code: '' } };
+        if (mosque.verification_code && !mosque.verification_code_hash) {
+            update.$set = toStoredVerificationCode(mosque.verification_code);
+        }
+        await collection.updateOne({ _id: mosque._id }, update);
+        count++;
+    }
+
+    // The old unique index would reject every mosque once the plaintext field is gone
+    const indexes = await collection.indexes();
+    if (indexes.some(index => index.name === 'verification_code_1')) {
+        await collection.dropIndex('verification_code_1');
+        console.log('Dropped index verification_code_1');
+    }
+    await Mosque.createIndexes();
+
+    console.log(`Mosques: ${count} codes hashed`);
+    return count;
+};
+
+const migrateAdmins = async (collection = Admin.collection) => {
+    const cursor = collection.find({
+        $or: ADMIN_CODE_FIELDS.map(field => ({
+            [field]: { $type: 'string', $regex: `^.{${CODE_PREFIX_LENGTH + 1},}$` }
+        }))
+    });
+    let count = 0;
+
+    for await (const admin of cursor) {
+        const $set = {};
+        for (const field of ADMIN_CODE_FIELDS) {
+            if (typeof admin[field] === 'string' && admin[field].length > CODE_PREFIX_LENGTH) {
+                $set[field] = getVerificationCodePrefix(admin[field]);
+            }
+        }
+        await collection.updateOne({ _id: admin._id }, { $set });
+        count++;
+    }
+
+    console.log(`Admins: ${count} stored codes reduced to prefixes`);
+    return count;
+};
+
+const migrateAuditLogs = async (collection = AuditLog.collection) => {
+    const adminCodePath = 'action_details.admin_data.verification_code_used';
+    const cursor = collection.find({
+        $or: [
+            ...Object.keys(AUDIT_CODE_PATHS).map(path => ({ [path]: { $exists: true } })),
+            { [adminCodePath]: { $type: 'string', $regex: `^.{${CODE_PREFIX_LENGTH + 1},}$` } }
+        ]
+    });
+    let count = 0;
+
+    for await (const log of cursor) {
+        const $set = {};
+        const $unset = {};
+        for (const [path, prefixPath] of Object.entries(AUDIT_CODE_PATHS)) {
+            const value = readPath(log, path);
+            if (value === undefined) continue;
+            $unset[path] = '';
+            if (typeof value === 'string' && value) {
+                $set[prefixPath] = getVerificationCodePrefix(value);
+            }
+        }
+        const adminCode = readPath(log, adminCodePath);
+        if (typeof adminCode === 'string' && adminCode.length > CODE_PREFIX_LENGTH) {
+            $set[adminCodePath] = getVerificationCodePrefix(adminCode);
+        }
+
+        const update = { $unset };
+        if (Object.keys($set).length > 0) update.$set = $set;
+        await collection.updateOne({ _id: log._id }, update);
+        count++;
+    }
+
+    console.log(`Audit logs: ${count} entries scrubbed`);
+    return count;
+};
+
+const migratePendingVerifications = async (collection = PendingVerification.collection) => {
+    const cursor = collection.find({ mosque_verification_code: { $exists: true } });
+    let count = 0;
+
+    for await (const record of cursor) {
+        const update = { $unset: { mosque_verification_code: '' } };
+        if (record.mosque_verification_code) {
+            update.$set = { mosque_verification_code_hash: hashVerificationCode(record.mosque_verification_code) };
+        }
+        await collection.updateOne({ _id: record._id }, update);
+        count++;
+    }
+
+    console.log(`Pending verifications: ${count} codes hashed`);
+    return count;
+};
+
+const run = async () => {
+    if (!process.env.MONGODB_URI) {
+        throw new Error('MONGODB_URI must be set');
+    }
+    // Fail before touching any data if no hashing key is configured
+    hashVerificationCode('check');
+
+    await mongoose.connect(process.env.MONGODB_URI, { serverSelectionTimeoutMS: 5000 });
+    console.log('✅ MongoDB connected');
+
+    await migrateMosques();
+    await migrateAdmins();
+    await migrateAuditLogs();
+    await migratePendingVerifications();
+
+    console.log('✅ Verification code migration complete');
+};
+
+// Only run when executed directly, not when imported by the tests
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+    run()
+        .catch((err) => {
+            console.error('❌ Verification code migration failed:', err);
+            process.exitCode = 1;
+        })
+        .finally(() => mongoose.disconnect());
+}
+
+export {
+    migrateMosques,
+    migrateAdmins,
+    migrateAuditLogs,
+    migratePendingVerifications
+};
@@ -0,0 +1,125 @@
+// Local SMTP stand-in for development and manual testing: accepts every message and saves it
+// as an .eml file instead of delivering it. Start it, then point the API at it:
+//   npm run mail:local
+//   SMTP_HOST=localhost SMTP_PORT=2525 npm run dev
+// Open the saved files with any mail client. Set LOCAL_SMTP_FAIL=true to reject every
+// message, which exercises the notification outbox's retries.
+import 'dotenv/config';
+import net from 'net';
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const PORT = Number(process.env.SMTP_PORT) || 2525;
+
+const MAIL_DIR = process.env.LOCAL_MAIL_DIR ||
+    path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../local_mail');
+
+const FAIL_ALL = process.env.LOCAL_SMTP_FAIL === 'true';
+
+let received = 0;
+
+const headerValue = (message, name) => {
+    const match = message.match(new RegExp(`^${name}:\\s*(.*)$`, 'mi'));
+    return match ? match[1].trim() : '';
+};
+
+const saveMessage = async (envelope, message) => {
+    received++;
+    const file = path.join(MAIL_DIR, `${Date.now()}-${received}.eml`);
+    await fs.mkdir(MAIL_DIR, { recursive: true });
+    await fs.writeFile(file, message);
+    console.log(`📨 ${envelope.to.join(', ')} - ${headerValue(message, 'Subject')} (${path.basename(file)})`);
+};
+
+const handleConnection = (socket) => {
+    const reply = (line) => socket.write(`${line}\r\n`);
+    let buffer = '';
+    let envelope = { from: null, to: [] };
+    let dataLines = null; // Lines of the message while a DATA command is open
+
+    const handleLine = async (line) => {
+        if (dataLines) {
+            if (line !== '.') {
+                // Undo SMTP dot-stuffing
+                dataLines.push(line.startsWith('..') ? line.slice(1) : line);
+                return;
+            }
+            const message = dataLines.join('\r\n');
+            dataLines = null;
+            if (FAIL_ALL) {
+                reply('451 4.3.0 Local stand-in is rejecting messages (LOCAL_SMTP_FAIL)');
+            } else {
+                await saveMessage(envelope, message);
+                reply('250 2.0.0 Saved');
+            }
+            envelope = { from: null, to: [] };
+            return;
+        }
+
+        const command = line.slice(0, 4).toUpperCase();
+        switch (command) {
+            case 'EHLO':
+                reply('250-localhost');
+                reply('250-8BITMIME');
+                reply('250-SMTPUTF8');
+                reply('250 SIZE 26214400');
+                break;
+            case 'HELO':
+                reply('250 localhost');
+                break;
+            case 'MAIL':
+                envelope = { from: line.slice(10).trim(), to: [] };
+                reply('250 2.1.0 OK');
+                break;
+            case 'RCPT':
+                envelope.to.push(line.slice(8).trim().replace(/^<|>$/g, ''));
+                reply('250 2.1.5 OK');
+                break;
+            case 'DATA':
+                if (envelope.to.length === 0) {
+                    reply('503 5.5.1 No recipients');
+                    break;
+                }
+                dataLines = [];
+                reply('354 End data with <CR><LF>.<CR><LF>');
+                break;
+            case 'RSET':
+                envelope = { from: null, to: [] };
+                reply('250 2.0.0 OK');
+                break;
+            case 'NOOP':
+                reply('250 2.0.0 OK');
+                break;
+            case 'QUIT':
+                reply('221 2.0.0 Bye');
+                socket.end();
+                break;
+            default:
+                reply('502 5.5.2 Command not implemented');
+        }
+    };
+
+    // Lines are handled strictly in order, even while a message is being written to disk
+    let queue = Promise.resolve();
+    socket.on('data', (chunk) => {
+        buffer += chunk.toString('utf8');
+        let index;
+        while ((index = buffer.indexOf('\r\n')) !== -1) {
+            const line = buffer.slice(0, index);
+            buffer = buffer.slice(index + 2);
+            queue = queue.then(() => handleLine(line)).catch((err) => {
+                console.error('❌ Local SMTP error:', err);
+                reply('451 4.3.0 Local error');
+            });
+        }
+    });
+    socket.on('error', () => socket.destroy());
+
+    reply('220 localhost Local SMTP stand-in');
+};
+
+net.createServer(handleConnection).listen(PORT, () => {
+    console.log(`✅ Local SMTP stand-in listening on port ${PORT}, saving mail to ${MAIL_DIR}`);
+    if (FAIL_ALL) console.log('⚠️  Rejecting every message (LOCAL_SMTP_FAIL=true)');
+});
@@ -1,8 +1,18 @@
 import nodemailer from 'nodemailer';
 import 'dotenv/config';
 
+// Any SMTP server named by SMTP_HOST - e.g. the local stand-in (npm run mail:local) during development
+const createSmtpTransporter = () => nodemailer.createTransport({
+  host: process.env.SMTP_HOST,
+  port: Number(process.env.SMTP_PORT) || 2525,
+  secure: process.env.SMTP_SECURE === 'true',
+  auth: process.env.SMTP_USER
+    ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+    : undefined,
+});
+
 // Gmail SMTP Transporter (Production-Level)
-const transporter = nodemailer.createTransport({
+const createGmailTransporter = () => nodemailer.createTransport({
   service: 'gmail',
   auth: {
     user: process.env.GMAIL_USER, // e.g., 'yourapp@gmail.com'
@@ -10,6 +20,9 @@ const transporter = nodemailer.createTransport({
   },
 });
 
+const transporter = process.env.SMTP_HOST ? createSmtpTransporter() : createGmailTransporter();
+const senderAddress = process.env.MAIL_FROM || process.env.GMAIL_USER;
+
 // Registration Verification Email Template
 const generateRegistrationEmailTemplate = (code, name, userType) => `
   <!DOCTYPE html>
@@ -107,6 +120,84 @@ const generateRegistrationEmailTemplate = (code, name, userType) => `
   </html>
 `;
 
+// Congregant Sign-in Code Email Template
+const generateSignInCodeEmailTemplate = (code, name) => `
+  <!DOCTYPE html>
+  <html>
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Sign-in Code - Mosque Management System</title>
+    <style>
+      @media only screen and (max-width: 600px) {
+        .container { width: 100% !important; padding: 10px !important; }
+        .header { padding: 20px !important; }
+        .content { padding: 20px !important; }
+        .code-box { font-size: 28px !important; padding: 12px !important; }
+        .footer { padding: 15px !important; }
+      }
+    </style>
+  </head>
+  <body style="margin: 0; padding: 0; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; background-color: #f8fafc;">
+    <div style="background: linear-gradient(135deg, #f0fdf4 0%, #ecfdf5 50%, #d1fae5 100%); padding: 20px; min-height: 100vh;">
+      <div class="container" style="max-width: 600px; margin: 0 auto; background: white; border-radius: 16px; box-shadow: 0 10px 25px rgba(0, 0, 0, 0.1); overflow: hidden;">
+
+        <!-- Header -->
+        <div class="header" style="background: linear-gradient(135deg, #059669 0%, #047857 50%, #065f46 100%); padding: 30px; text-align: center;">
+          <h1 style="color: white; margin: 0; font-size: 24px; font-weight: 700; letter-spacing: -0.5px;">
+            Mosque Management System
+          </h1>
+          <p style="color: rgba(255, 255, 255, 0.9); margin: 8px 0 0 0; font-size: 16px; font-weight: 400;">
+            Sign In
+          </p>
+        </div>
+
+        <!-- Content -->
+        <div class="content" style="padding: 40px 30px;">
+          <div style="text-align: center; margin-bottom: 30px;">
+            <h2 style="color: #065f46; margin: 0 0 12px 0; font-size: 22px; font-weight: 600;">
+              Assalamu Alaikum${name ? ` ${escapeHtml(name)}` : ''}
+            </h2>
+            <p style="color: #64748b; margin: 0; font-size: 16px; line-height: 1.5;">
+              Enter this code to sign in and keep your favorite mosques on all your devices
+            </p>
+          </div>
+
+          <!-- Sign-in Code Box -->
+          <div style="background: linear-gradient(135deg, #f0fdf4 0%, #ecfdf5 100%); border: 2px solid #059669; border-radius: 12px; padding: 30px; text-align: center; margin: 30px 0;">
+            <p style="color: #065f46; margin: 0 0 20px 0; font-size: 16px; font-weight: 600;">
+              Your Sign-in Code:
+            </p>
+            <div class="code-box" style="font-size: 36px; font-weight: 700; color: #059669; letter-spacing: 8px; font-family: 'Courier New', monospace; background: white; padding: 15px 20px; border-radius: 8px; display: inline-block; box-shadow: 0 4px 12px rgba(5, 150, 105, 0.15); border: 1px solid #d1fae5;">
+              ${code}
+            </div>
+          </div>
+
+          <!-- Security Notice -->
+          <div style="background: #fef2f2; border: 1px solid #ef4444; border-radius: 8px; padding: 16px; margin: 20px 0;">
+            <p style="color: #dc2626; margin: 0; font-size: 13px; line-height: 1.4;">
+              This code expires in 15 minutes. Never share it with anyone. If you did not try to sign in, you can ignore this email.
+            </p>
+          </div>
+        </div>
+
+        <!-- Footer -->
+        <div class="footer" style="background: #f8fafc; padding: 25px 30px; text-align: center; border-top: 1px solid #e2e8f0;">
+          <p style="color: #64748b; margin: 0; font-size: 14px;">
+            Mosque Management System Team
+          </p>
+          <div style="margin-top: 15px; padding-top: 15px; border-top: 1px solid #e2e8f0;">
+            <p style="color: #94a3b8; margin: 0; font-size: 12px;">
+              This is an automated message. Please do not reply to this email.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  </body>
+  </html>
+`;
+
 // Password Reset Email Template
 const generateResetEmailTemplate = (code, name, userType) => `
   <!DOCTYPE html>
@@ -204,14 +295,128 @@ const generateResetEmailTemplate = (code, name, userType) => `
   </html>
 `;
 
+// New Device Sign-in Email Template
+const generateNewDeviceEmailTemplate = (name, userType, details) => `
+  <!DOCTYPE html>
+  <html>
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>New Sign-in - Mosque Management System</title>
+    <style>
+      @media only screen and (max-width: 600px) {
+        .container { width: 100% !important; padding: 10px !important; }
+        .header { padding: 20px !important; }
+        .content { padding: 20px !important; }
+        .footer { padding: 15px !important; }
+      }
+    </style>
+  </head>
+  <body style="margin: 0; padding: 0; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; background-color: #f8fafc;">
+    <div style="background: linear-gradient(135deg, #f0fdf4 0%, #ecfdf5 50%, #d1fae5 100%); padding: 20px; min-height: 100vh;">
+      <div class="container" style="max-width: 600px; margin: 0 auto; background: white; border-radius: 16px; box-shadow: 0 10px 25px rgba(0, 0, 0, 0.1); overflow: hidden;">
+
+        <!-- Header -->
+        <div class="header" style="background: linear-gradient(135deg, #059669 0%, #047857 50%, #065f46 100%); padding: 30px; text-align: center;">
+          <h1 style="color: white; margin: 0; font-size: 24px; font-weight: 700; letter-spacing: -0.5px;">
+            Mosque Management System
+          </h1>
+          <p style="color: rgba(255, 255, 255, 0.9); margin: 8px 0 0 0; font-size: 16px; font-weight: 400;">
+            New Sign-in Detected
+          </p>
+        </div>
+
+        <!-- Content -->
+        <div class="content" style="padding: 40px 30px;">
+          <div style="text-align: center; margin-bottom: 30px;">
+            <h2 style="color: #065f46; margin: 0 0 12px 0; font-size: 22px; font-weight: 600;">
+              Hello ${name}
+            </h2>
+            <p style="color: #64748b; margin: 0; font-size: 16px; line-height: 1.5;">
+              Your ${userType} account was just signed in to from a device we haven't seen recently
+            </p>
+          </div>
+
+          <!-- Sign-in Details -->
+          <div style="background: linear-gradient(135deg, #f0fdf4 0%, #ecfdf5 100%); border: 2px solid #059669; border-radius: 12px; padding: 24px; margin: 30px 0;">
+            <table style="width: 100%; font-size: 15px; color: #065f46; border-collapse: collapse;">
+              <tr><td style="padding: 6px 0; font-weight: 600;">Device</td><td style="padding: 6px 0;">${details.device}</td></tr>
+              <tr><td style="padding: 6px 0; font-weight: 600;">Location</td><td style="padding: 6px 0;">${details.location || 'Unknown'}</td></tr>
+              <tr><td style="padding: 6px 0; font-weight: 600;">IP Address</td><td style="padding: 6px 0;">${details.ip_address || 'Unknown'}</td></tr>
+              <tr><td style="padding: 6px 0; font-weight: 600;">Time</td><td style="padding: 6px 0;">${new Date(details.signed_in_at).toUTCString()}</td></tr>
+            </table>
+          </div>
+
+          <!-- Security Notice -->
+          <div style="background: #fef2f2; border: 1px solid #ef4444; border-radius: 8px; padding: 16px; margin: 20px 0;">
+            <h4 style="color: #dc2626; margin: 0 0 8px 0; font-size: 14px; font-weight: 600;">
+              Wasn't you?
+            </h4>
+            <p style="color: #dc2626; margin: 0; font-size: 13px; line-height: 1.4;">
+              Open the Security tab of your dashboard to sign this device out, then reset your password.
+            </p>
+          </div>
+        </div>
+
+        <!-- Footer -->
+        <div class="footer" style="background: #f8fafc; padding: 25px 30px; text-align: center; border-top: 1px solid #e2e8f0;">
+          <p style="color: #64748b; margin: 0; font-size: 14px;">
+            Mosque Management System Team
+          </p>
+          <div style="margin-top: 15px; padding-top: 15px; border-top: 1px solid #e2e8f0;">
+            <p style="color: #94a3b8; margin: 0; font-size: 12px;">
+              This is an automated message. Please do not reply to this email.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  </body>
+  </html>
+`;
+
+// Free text such as reviewer questions must not be read as markup
+const escapeHtml = (text) => String(text)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// Registration verification message, also queued through the notification outbox
+const buildRegistrationEmail = (name, code, userType) => ({
+  subject: `Email Verification - ${userType === 'admin' ? 'Admin' : 'Super Admin'} Registration`,
+  html: generateRegistrationEmailTemplate(code, name, userType),
+  text: `Assalamu Alaikum, ${name}\n\nYour verification code is ${code}. It expires in 15 minutes.\n\nIf you did not request this, you can ignore this email.`,
+});
+
+// Password reset message, also queued through the notification outbox
+const buildPasswordResetEmail = (name, code, userType) => ({
+  subject: `Password Reset Code - ${userType === 'admin' ? 'Admin' : 'Super Admin'} Portal`,
+  html: generateResetEmailTemplate(code, name, userType),
+  text: `Assalamu Alaikum, ${name}\n\nYour password reset code is ${code}. It expires in 15 minutes.\n\nIf you did not request a reset, you can ignore this email.`,
+});
+
+// Congregant sign-in code, queued through the notification outbox
+const buildSignInCodeEmail = (name, code) => ({
+  subject: 'Your Sign-in Code - Mosque Management System',
+  html: generateSignInCodeEmailTemplate(code, name),
+  text: `Assalamu Alaikum${name ? `, ${name}` : ''}\n\nYour sign-in code is ${code}. It expires in 15 minutes.\n\nIf you did not try to sign in, you can ignore this email.`,
+});
+
+// New device sign-in alert, queued through the notification outbox
+const buildNewDeviceEmail = (name, userType, details) => ({
+  subject: `New Sign-in to your ${userType === 'admin' ? 'Admin' : 'Super Admin'} Account`,
+  html: generateNewDeviceEmailTemplate(name, userType === 'admin' ? 'admin' : 'super admin', details),
+  text: `Assalamu Alaikum, ${name}\n\nYour account was just signed in to from ${details.device} (${details.location || 'unknown location'}, IP ${details.ip_address || 'unknown'}) at ${new Date(details.signed_in_at).toUTCString()}.\n\nIf this wasn't you, open the Security tab of your dashboard to sign this device out, then reset your password.`,
+});
+
 // Send Registration Verification Email
 const sendRegistrationEmail = async (email, name, code, userType) => {
   try {
     const mailOptions = {
-      from: `"Mosque Management System" <${process.env.GMAIL_USER}>`,
+      from: `"Mosque Management System" <${senderAddress}>`,
       to: email,
-      subject: `Email Verification - ${userType === 'admin' ? 'Admin' : 'Super Admin'} Registration`,
-      html: generateRegistrationEmailTemplate(code, name, userType),
+      ...buildRegistrationEmail(name, code, userType),
     };
 
     const info = await transporter.sendMail(mailOptions);
@@ -227,10 +432,9 @@ const sendRegistrationEmail = async (email, name, code, userType) => {
 const sendPasswordResetEmail = async (email, name, code, userType) => {
   try {
     const mailOptions = {
-      from: `"Mosque Management System" <${process.env.GMAIL_USER}>`,
+      from: `"Mosque Management System" <${senderAddress}>`,
       to: email,
-      subject: `Password Reset Code - ${userType === 'admin' ? 'Admin' : 'Super Admin'} Portal`,
-      html: generateResetEmailTemplate(code, name, userType),
+      ...buildPasswordResetEmail(name, code, userType),
     };
 
     const info = await transporter.sendMail(mailOptions);
@@ -242,20 +446,60 @@ const sendPasswordResetEmail = async (email, name, code, userType) => {
   }
 };
 
-// Verify SMTP Connection (for testing)
+// Send an already rendered notification from the outbox. The SMTP error is passed on
+// unchanged so the outbox can record why the attempt failed.
+const sendNotificationEmail = async ({ to, subject, html, text }) => {
+  const info = await transporter.sendMail({
+    from: `"Mosque Management System" <${senderAddress}>`,
+    to,
+    subject,
+    html,
+    text,
+  });
+  console.log(`Notification email sent to ${to}. Message ID: ${info.messageId}`);
+  return { success: true, messageId: info.messageId };
+};
+
+// A health check should answer quickly even when the mail server does not
+const VERIFY_TIMEOUT_MS = 5000;
+
+// Check that the SMTP server accepts our connection and credentials (reported by /api/health)
 const verifyConnection = async () => {
+  const startedAt = Date.now();
+  const result = {
+    ok: false,
+    transport: process.env.SMTP_HOST ? 'smtp' : 'gmail',
+    checked_at: new Date(startedAt),
+    duration_ms: 0,
+    error: null,
+  };
+  let timer;
   try {
-    await transporter.verify();
-    console.log('SMTP Server connection verified successfully');
-    return true;
+    await Promise.race([
+      transporter.verify(),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`No answer from the mail server within ${VERIFY_TIMEOUT_MS / 1000}s`)), VERIFY_TIMEOUT_MS);
+      }),
+    ]);
+    result.ok = true;
   } catch (error) {
-    console.error('SMTP Server connection failed:', error);
-    return false;
+    console.error('SMTP Server connection failed:', error.message);
+    result.error = error.message;
+  } finally {
+    clearTimeout(timer);
+    result.duration_ms = Date.now() - startedAt;
   }
+  return result;
 };
 
 export {
   sendPasswordResetEmail,
   sendRegistrationEmail,
+  sendNotificationEmail,
+  buildRegistrationEmail,
+  buildPasswordResetEmail,
+  buildSignInCodeEmail,
+  buildNewDeviceEmail,
+  escapeHtml,
   verifyConnection
 };
\ No newline at end of file
@@ -0,0 +1,351 @@
+import { escapeHtml } from './mailService.js';
+
+// Template registry for admin lifecycle notifications and mosque invitations.
+// Every event has a template per locale; a locale that is missing falls back to English.
+// Templates return plain text pieces, and renderNotification() wraps them in the shared
+// email layout (HTML and plain text), so all notifications look alike.
+
+const NOTIFICATION_LOCALES = ['en', 'ur'];
+
+const DEFAULT_LOCALE = 'en';
+
+const RTL_LOCALES = ['ur'];
+
+// Labels for the language picker and the delivery list
+const LOCALE_LABELS = {
+    en: 'English',
+    ur: 'اردو'
+};
+
+const TEMPLATES = {
+    admin_approved: {
+        en: (data) => ({
+            subject: `Your application to manage ${data.mosque_name} is approved`,
+            heading: 'Application Approved',
+            greeting: `Assalamu Alaikum, ${data.name}`,
+            paragraphs: [
+                `Your application to manage ${data.mosque_name} has been approved.`,
+                'You can now sign in and keep the mosque\'s prayer times and details up to date.'
+            ],
+            note: data.notes || null,
+            action: { label: 'Open your dashboard', path: '/admin/dashboard' }
+        }),
+        ur: (data) => ({
+            subject: `${data.mosque_name} کے انتظام کی آپ کی درخواست منظور ہو گئی ہے`,
+            heading: 'درخواست منظور',
+            greeting: `السلام علیکم، ${data.name}`,
+            paragraphs: [
+                `${data.mosque_name} کے انتظام کے لیے آپ کی درخواست منظور کر لی گئی ہے۔`,
+                'اب آپ سائن اِن کر کے مسجد کے نماز کے اوقات اور تفصیلات اپ ڈیٹ کر سکتے ہیں۔'
+            ],
+            note: data.notes || null,
+            action: { label: 'ڈیش بورڈ کھولیں', path: '/admin/dashboard' }
+        })
+    },
+
+    admin_rejected: {
+        en: (data) => ({
+            subject: `Your application to manage ${data.mosque_name || 'a mosque'} was not approved`,
+            heading: 'Application Not Approved',
+            greeting: `Assalamu Alaikum, ${data.name}`,
+            paragraphs: [
+                `After reviewing your application to manage ${data.mosque_name || 'the mosque'}, we are unable to approve it.`,
+                data.can_reapply
+                    ? 'You may apply again once you have addressed the reason below.'
+                    : 'If you believe this is a mistake, you can ask for permission to apply again from your status page.'
+            ],
+            note: data.reason,
+            action: { label: 'View your application status', path: '/admin/status' }
+        }),
+        ur: (data) => ({
+            subject: `${data.mosque_name || 'مسجد'} کے انتظام کی آپ کی درخواست منظور نہیں ہوئی`,
+            heading: 'درخواست نامنظور',
+            greeting: `السلام علیکم، ${data.name}`,
+            paragraphs: [
+                `${data.mosque_name || 'مسجد'} کے انتظام کی آپ کی درخواست کا جائزہ لینے کے بعد ہم اسے منظور نہیں کر سکے۔`,
+                data.can_reapply
+                    ? 'نیچے دی گئی وجہ دور کرنے کے بعد آپ دوبارہ درخواست دے سکتے ہیں۔'
+                    : 'اگر آپ کے خیال میں یہ غلطی ہے تو اپنے اسٹیٹس پیج سے دوبارہ درخواست دینے کی اجازت مانگ سکتے ہیں۔'
+            ],
+            note: data.reason,
+            action: { label: 'درخواست کی صورتحال دیکھیں', path: '/admin/status' }
+        })
+    },
+
+    admin_removed: {
+        en: (data) => ({
+            subject: `You have been removed as an admin of ${data.mosque_name}`,
+            heading: 'Admin Access Removed',
+            greeting: `Assalamu Alaikum, ${data.name}`,
+            paragraphs: [
+                `You are no longer an admin of ${data.mosque_name} and have been signed out of your admin account.`,
+                'Your account is kept, and you can apply again to manage a mosque from your status page.'
+            ],
+            note: data.reason,
+            action: { label: 'View your account status', path: '/admin/status' }
+        }),
+        ur: (data) => ({
+            subject: `آپ کو ${data.mosque_name} کے ایڈمن سے ہٹا دیا گیا ہے`,
+            heading: 'ایڈمن رسائی ختم',
+            greeting: `السلام علیکم، ${data.name}`,
+            paragraphs: [
+                `اب آپ ${data.mosque_name} کے ایڈمن نہیں ہیں اور آپ کو ایڈمن اکاؤنٹ سے سائن آؤٹ کر دیا گیا ہے۔`,
+                'آپ کا اکاؤنٹ برقرار ہے، اور آپ اپنے اسٹیٹس پیج سے کسی مسجد کے انتظام کے لیے دوبارہ درخواست دے سکتے ہیں۔'
+            ],
+            note: data.reason,
+            action: { label: 'اکاؤنٹ کی صورتحال دیکھیں', path: '/admin/status' }
+        })
+    },
+
+    mosque_deleted: {
+        en: (data) => ({
+            subject: `${data.mosque_name} has been removed from Mosque Management System`,
+            heading: 'Mosque Removed',
+            greeting: `Assalamu Alaikum, ${data.name}`,
+            paragraphs: [
+                `${data.mosque_name}, which you managed, has been removed from the directory.`,
+                'Your account is kept, and you can apply to manage another mosque from your status page.'
+            ],
+            note: data.reason,
+            action: { label: 'View your account status', path: '/admin/status' }
+        }),
+        ur: (data) => ({
+            subject: `${data.mosque_name} کو مسجد مینجمنٹ سسٹم سے ہٹا دیا گیا ہے`,
+            heading: 'مسجد ہٹا دی گئی',
+            greeting: `السلام علیکم، ${data.name}`,
+            paragraphs: [
+                `${data.mosque_name}، جس کا انتظام آپ کے پاس تھا، ڈائریکٹری سے ہٹا دی گئی ہے۔`,
+                'آپ کا اکاؤنٹ برقرار ہے، اور آپ اپنے اسٹیٹس پیج سے کسی دوسری مسجد کے انتظام کے لیے درخواست دے سکتے ہیں۔'
+            ],
+            note: data.reason,
+            action: { label: 'اکاؤنٹ کی صورتحال دیکھیں', path: '/admin/status' }
+        })
+    },
+
+    code_regenerated: {
+        en: (data) => ({
+            subject: `The verification code for ${data.mosque_name} has changed`,
+            heading: 'Verification Code Changed',
+            greeting: `Assalamu Alaikum, ${data.name}`,
+            paragraphs: [
+                `The verification code for ${data.mosque_name} has been replaced.`,
+                'Ask the mosque committee or the Mosque Management System team for the new code, then enter it on your status page to get your access back.'
+            ],
+            note: null,
+            action: { label: 'Enter the new code', path: '/admin/status' }
+        }),
+        ur: (data) => ({
+            subject: `${data.mosque_name} کا تصدیقی کوڈ تبدیل ہو گیا ہے`,
+            heading: 'تصدیقی کوڈ تبدیل',
+            greeting: `السلام علیکم، ${data.name}`,
+            paragraphs: [
+                `${data.mosque_name} کا تصدیقی کوڈ بدل دیا گیا ہے۔`,
+                'نیا کوڈ مسجد کمیٹی یا مسجد مینجمنٹ سسٹم کی ٹیم سے حاصل کریں، پھر اپنی رسائی بحال کرنے کے لیے اسے اپنے اسٹیٹس پیج پر درج کریں۔'
+            ],
+            note: null,
+            action: { label: 'نیا کوڈ درج کریں', path: '/admin/status' }
+        })
+    },
+
+    reapply_allowed: {
+        en: (data) => ({
+            subject: 'You can apply again to manage a mosque',
+            heading: 'You Can Apply Again',
+            greeting: `Assalamu Alaikum, ${data.name}`,
+            paragraphs: [
+                'The review team has allowed you to submit a new application.',
+                'Sign in to choose a mosque and apply with its verification code.'
+            ],
+            note: data.notes || null,
+            action: { label: 'Apply again', path: '/admin/reapply' }
+        }),
+        ur: (data) => ({
+            subject: 'آپ مسجد کے انتظام کے لیے دوبارہ درخواست دے سکتے ہیں',
+            heading: 'دوبارہ درخواست کی اجازت',
+            greeting: `السلام علیکم، ${data.name}`,
+            paragraphs: [
+                'جائزہ ٹیم نے آپ کو نئی درخواست جمع کرانے کی اجازت دے دی ہے۔',
+                'سائن اِن کر کے مسجد منتخب کریں اور اس کے تصدیقی کوڈ کے ساتھ درخواست دیں۔'
+            ],
+            note: data.notes || null,
+            action: { label: 'دوبارہ درخواست دیں', path: '/admin/reapply' }
+        })
+    },
+
+    info_requested: {
+        en: (data) => ({
+            subject: `More information needed for your application to ${data.mosque_name}`,
+            heading: 'More Information Needed',
+            greeting: `Assalamu Alaikum, ${data.name}`,
+            paragraphs: [
+                `We are reviewing your application to manage ${data.mosque_name} and need a little more from you before we can decide.`,
+                'Sign in to your admin account to reply and attach documents. You don\'t need to apply again.'
+            ],
+            note: data.message,
+            action: { label: 'Respond to the request', path: '/admin/status' }
+        }),
+        ur: (data) => ({
+            subject: `${data.mosque_name} کے لیے آپ کی درخواست پر مزید معلومات درکار ہیں`,
+            heading: 'مزید معلومات درکار',
+            greeting: `السلام علیکم، ${data.name}`,
+            paragraphs: [
+                `ہم ${data.mosque_name} کے انتظام کے لیے آپ کی درخواست کا جائزہ لے رہے ہیں اور فیصلے سے پہلے آپ سے کچھ مزید معلومات درکار ہیں۔`,
+                'جواب دینے اور دستاویزات منسلک کرنے کے لیے اپنے ایڈمن اکاؤنٹ میں سائن اِن کریں۔ دوبارہ درخواست دینے کی ضرورت نہیں۔'
+            ],
+            note: data.message,
+            action: { label: 'درخواست کا جواب دیں', path: '/admin/status' }
+        })
+    },
+
+    // Sent to an email address rather than an account, so `name` is not known
+    mosque_invitation: {
+        en: (data) => ({
+            subject: data.purpose === 'application'
+                ? `Invitation to become the admin of ${data.mosque_name}`
+                : `Invitation to manage ${data.mosque_name}`,
+            heading: data.purpose === 'application' ? 'You\'re Invited to Become a Mosque Admin' : 'You\'re Invited to a Mosque Team',
+            greeting: 'Assalamu Alaikum',
+            paragraphs: data.purpose === 'application'
+                ? [
+                    `${data.inviter_name} has invited you to apply as the admin of ${data.mosque_name}.`,
+                    'Your application is already verified, so you won\'t need the mosque\'s verification code.'
+                ]
+                : [`${data.inviter_name} has invited you to help manage ${data.mosque_name} as ${data.role_label}.`],
+            note: `This invitation works once and expires on ${new Date(data.expires_at).toUTCString()}. If you weren't expecting it, you can ignore this email.`,
+            action: {
+                label: data.purpose === 'application' ? 'Start your application' : 'Accept invitation',
+                path: data.invitation_path
+            }
+        }),
+        ur: (data) => ({
+            subject: data.purpose === 'application'
+                ? `${data.mosque_name} کا ایڈمن بننے کی دعوت`
+                : `${data.mosque_name} کے انتظام کی دعوت`,
+            heading: data.purpose === 'application' ? 'مسجد ایڈمن بننے کی دعوت' : 'مسجد ٹیم میں شمولیت کی دعوت',
+            greeting: 'السلام علیکم',
+            paragraphs: data.purpose === 'application'
+                ? [
+                    `${data.inviter_name} نے آپ کو ${data.mosque_name} کے ایڈمن کے طور پر درخواست دینے کی دعوت دی ہے۔`,
+                    'آپ کی درخواست پہلے سے تصدیق شدہ ہے، اس لیے آپ کو مسجد کے تصدیقی کوڈ کی ضرورت نہیں ہوگی۔'
+                ]
+                : [`${data.inviter_name} نے آپ کو ${data.mosque_name} کے انتظام میں ${data.role_label} کے طور پر مدد کی دعوت دی ہے۔`],
+            note: `یہ دعوت صرف ایک بار استعمال ہو سکتی ہے اور ${new Date(data.expires_at).toUTCString()} کو ختم ہو جائے گی۔ اگر آپ کو اس کی توقع نہیں تھی تو اس ای میل کو نظر انداز کر دیں۔`,
+            action: {
+                label: data.purpose === 'application' ? 'درخواست شروع کریں' : 'دعوت قبول کریں',
+                path: data.invitation_path
+            }
+        })
+    }
+};
+
+const NOTIFICATION_EVENTS = Object.keys(TEMPLATES);
+
+// Footer lines of the shared layout
+const FOOTERS = {
+    en: {
+        team: 'Mosque Management System Team',
+        automated: 'This is an automated message. Please do not reply to this email.'
+    },
+    ur: {
+        team: 'مسجد مینجمنٹ سسٹم ٹیم',
+        automated: 'یہ خودکار پیغام ہے۔ براہ کرم اس ای میل کا جواب نہ دیں۔'
+    }
+};
+
+/**
+ * Supported locale for a stored or requested language, English otherwise
+ * @param {string} locale
+ * @returns {string}
+ */
+const resolveLocale = (locale) => NOTIFICATION_LOCALES.includes(locale) ? locale : DEFAULT_LOCALE;
+
+const renderHtml = (content, locale, link) => {
+    const direction = RTL_LOCALES.includes(locale) ? 'rtl' : 'ltr';
+    const align = direction === 'rtl' ? 'right' : 'left';
+    const footer = FOOTERS[locale] || FOOTERS[DEFAULT_LOCALE];
+
+    return `
+  <!DOCTYPE html>
+  <html lang="${locale}" dir="${direction}">
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${escapeHtml(content.heading)} - Mosque Management System</title>
+  </head>
+  <body style="margin: 0; padding: 0; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; background-color: #f8fafc;">
+    <div style="background: linear-gradient(135deg, #f0fdf4 0%, #ecfdf5 50%, #d1fae5 100%); padding: 20px;">
+      <div style="max-width: 600px; margin: 0 auto; background: white; border-radius: 16px; box-shadow: 0 10px 25px rgba(0, 0, 0, 0.1); overflow: hidden;" dir="${direction}">
+        <div style="background: linear-gradient(135deg, #059669 0%, #047857 50%, #065f46 100%); padding: 30px; text-align: center;">
+          <h1 style="color: white; margin: 0; font-size: 24px; font-weight: 700;">Mosque Management System</h1>
+          <p style="color: rgba(255, 255, 255, 0.9); margin: 8px 0 0 0; font-size: 16px;">${escapeHtml(content.heading)}</p>
+        </div>
+        <div style="padding: 40px 30px; text-align: ${align};">
+          <h2 style="color: #065f46; margin: 0 0 16px 0; font-size: 22px; font-weight: 600;">${escapeHtml(content.greeting)}</h2>
+          ${content.paragraphs.map(paragraph => `<p style="color: #475569; margin: 0 0 12px 0; font-size: 16px; line-height: 1.6;">${escapeHtml(paragraph)}</p>`).join('\n          ')}
+          ${content.note ? `<div style="background: #f0fdf4; border-${align}: 4px solid #059669; border-radius: 8px; padding: 16px 20px; margin: 20px 0;">
+            <p style="color: #065f46; margin: 0; font-size: 15px; line-height: 1.6; white-space: pre-line;">${escapeHtml(content.note)}</p>
+          </div>` : ''}
+          <div style="text-align: center; margin: 30px 0 0 0;">
+            <a href="${link}" style="display: inline-block; background: linear-gradient(135deg, #059669 0%, #047857 100%); color: white; text-decoration: none; font-size: 16px; font-weight: 600; padding: 14px 32px; border-radius: 10px;">${escapeHtml(content.action.label)}</a>
+          </div>
+        </div>
+        <div style="background: #f8fafc; padding: 25px 30px; text-align: center; border-top: 1px solid #e2e8f0;">
+          <p style="color: #64748b; margin: 0; font-size: 14px;">${footer.team}</p>
+          <p style="color: #94a3b8; margin: 12px 0 0 0; font-size: 12px;">${footer.automated}</p>
+        </div>
+      </div>
+    </div>
+  </body>
+  </html>
+`;
+};
+
+const renderText = (content, locale, link) => {
+    const footer = FOOTERS[locale] || FOOTERS[DEFAULT_LOCALE];
+    return [
+        content.greeting,
+        '',
+        ...content.paragraphs,
+        ...(content.note ? ['', content.note] : []),
+        '',
+        `${content.action.label}: ${link}`,
+        '',
+        footer.team,
+        footer.automated
+    ].join('\n');
+};
+
+/**
+ * Render a lifecycle notification in the recipient's language
+ * @param {string} event - One of NOTIFICATION_EVENTS
+ * @param {string} locale - Recipient's preferred language
+ * @param {Object} data - Template values: name, mosque_name, reason, ...
+ * @param {(path: string) => string} buildLink - Turns the template's app path into an absolute link
+ * @returns {{locale: string, subject: string, html: string, text: string}}
+ */
+const renderNotification = (event, locale, data, buildLink) => {
+    const templates = TEMPLATES[event];
+    if (!templates) {
+        throw new Error(`Unknown notification event: ${event}`);
+    }
+
+    const resolved = templates[resolveLocale(locale)] ? resolveLocale(locale) : DEFAULT_LOCALE;
+    const content = templates[resolved](data);
+    const link = buildLink(content.action.path);
+
+    return {
+        locale: resolved,
+        subject: content.subject,
+        html: renderHtml(content, resolved, link),
+        text: renderText(content, resolved, link)
+    };
+};
+
+export {
+    NOTIFICATION_EVENTS,
+    NOTIFICATION_LOCALES,
+    DEFAULT_LOCALE,
+    LOCALE_LABELS,
+    resolveLocale,
+    renderNotification
+};
@@ -0,0 +1,142 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import 'dotenv/config';
+
+// Photo storage adapters.
+// STORAGE_DRIVER=local (default) writes files to disk and the API serves them itself.
+// Serverless hosts such as Vercel have no persistent disk, so use STORAGE_DRIVER=s3 there;
+// it works with AWS S3 and any S3-compatible service (R2, MinIO, Spaces, ...).
+//
+// Only approved gallery photos are public. Photos awaiting moderation or hidden by a moderator, and
+// applicant documents, use the same driver but are private: locally they live outside the served
+// uploads directory, and on S3 they go to S3_PRIVATE_BUCKET, which must not allow public reads.
+// The API streams them itself to those allowed to see them.
+
+const LOCAL_UPLOAD_DIR = process.env.UPLOAD_DIR ||
+    path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../uploads');
+
+const LOCAL_PRIVATE_DIR = process.env.PRIVATE_UPLOAD_DIR ||
+    path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../private_uploads');
+
+// Path the local adapter's files are served from
+const LOCAL_UPLOAD_ROUTE = '/api/uploads';
+
+// A moderator can hide an approved photo again, so caches may only keep public files for an hour
+const CACHE_CONTROL = 'public, max-age=3600';
+const CACHE_MAX_AGE = '1h';
+
+// publicRoute is null for private storage, whose files have no URL
+const createLocalStorage = (rootDir = LOCAL_UPLOAD_DIR, publicRoute = LOCAL_UPLOAD_ROUTE) => ({
+    driver: 'local',
+
+    async save(key, buffer) {
+        const filePath = path.join(rootDir, key);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, buffer);
+        return publicRoute ? `${publicRoute}/${key}` : null;
+    },
+
+    async read(key) {
+        return fs.readFile(path.join(rootDir, key));
+    },
+
+    async remove(key) {
+        await fs.rm(path.join(rootDir, key), { force: true });
+    }
+});
+
+const createS3Storage = (bucketVariable = 'S3_BUCKET', isPrivate = false) => {
+    const bucket = process.env[bucketVariable];
+    if (!bucket) {
+        throw new Error(`${bucketVariable} is required when STORAGE_DRIVER=s3`);
+    }
+
+    const region = process.env.S3_REGION || 'us-east-1';
+    const publicUrl = (process.env.S3_PUBLIC_URL || `https://${bucket}.s3.${region}.amazonaws.com`).replace(/\/$/, '');
+
+    // The SDK is only loaded when S3 storage is actually used
+    let sdk = null;
+    let client = null;
+    const getClient = async () => {
+        if (!client) {
+            sdk = await import('@aws-sdk/client-s3');
+            client = new sdk.S3Client({
+                region,
+                endpoint: process.env.S3_ENDPOINT || undefined,
+                forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+                credentials: process.env.S3_ACCESS_KEY_ID
+                    ? {
+                        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+                        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY
+                    }
+                    : undefined
+            });
+        }
+        return client;
+    };
+
+    return {
+        driver: 's3',
+
+        async save(key, buffer, contentType) {
+            const s3 = await getClient();
+            await s3.send(new sdk.PutObjectCommand({
+                Bucket: bucket,
+                Key: key,
+                Body: buffer,
+                ContentType: contentType,
+                CacheControl: isPrivate ? 'private, no-store' : CACHE_CONTROL
+            }));
+            return isPrivate ? null : `${publicUrl}/${key}`;
+        },
+
+        async read(key) {
+            const s3 = await getClient();
+            const object = await s3.send(new sdk.GetObjectCommand({ Bucket: bucket, Key: key }));
+            return Buffer.from(await object.Body.transformToByteArray());
+        },
+
+        async remove(key) {
+            const s3 = await getClient();
+            await s3.send(new sdk.DeleteObjectCommand({ Bucket: bucket, Key: key }));
+        }
+    };
+};
+
+let storage = null;
+let privateStorage = null;
+
+/**
+ * Public storage adapter for approved photos, selected by STORAGE_DRIVER
+ * @returns {{driver: string, save: Function, read: Function, remove: Function}}
+ */
+const getPhotoStorage = () => {
+    if (!storage) {
+        storage = process.env.STORAGE_DRIVER === 's3' ? createS3Storage() : createLocalStorage();
+    }
+    return storage;
+};
+
+/**
+ * Private storage adapter for unpublished photos and applicant documents, selected by STORAGE_DRIVER
+ * @returns {{driver: string, save: Function, read: Function, remove: Function}}
+ */
+const getPrivateStorage = () => {
+    if (!privateStorage) {
+        privateStorage = process.env.STORAGE_DRIVER === 's3'
+            ? createS3Storage('S3_PRIVATE_BUCKET', true)
+            : createLocalStorage(LOCAL_PRIVATE_DIR, null);
+    }
+    return privateStorage;
+};
+
+export {
+    LOCAL_UPLOAD_DIR,
+    LOCAL_PRIVATE_DIR,
+    LOCAL_UPLOAD_ROUTE,
+    CACHE_CONTROL,
+    CACHE_MAX_AGE,
+    getPhotoStorage,
+    getPrivateStorage
+};
@@ -1,6 +1,10 @@
 import jwt from 'jsonwebtoken';
 import Admin from '../models/Admin.js';
 import SuperAdmin from '../models/SuperAdmin.js';
+import Congregant from '../models/Congregant.js';
+import { isSessionActive, hasRecentStepUp } from '../utils/sessions.js';
+import { getAccess } from '../utils/permissions.js';
+import { getMembership } from '../utils/mosqueRoles.js';
 
 const auth = async (req, res, next) => {
     // PRIORITY: Check Authorization header FIRST (for frontend localStorage tokens)
@@ -33,6 +37,15 @@ const auth = async (req, res, next) => {
         const decoded = jwt.verify(token, process.env.JWT_SECRET);
         console.log('AUTH MIDDLEWARE - Decoded token:', decoded);
 
+        // Access tokens are tied to a session so logging out or removing an admin takes effect at once
+        if (!(await isSessionActive(decoded.sid))) {
+            console.log('AUTH MIDDLEWARE - Session revoked or missing');
+            return res.status(401).json({
+                error: 'Your session has ended. Please log in again.',
+                code: 'SESSION_REVOKED'
+            });
+        }
+
         // Verify user still exists in database and has correct role
         let userExists = false;
 
@@ -42,6 +55,8 @@ const auth = async (req, res, next) => {
         } else if (decoded.role === 'admin') {
             const admin = await Admin.findById(decoded.userId);
             userExists = !!admin;
+        } else if (decoded.role === 'congregant') {
+            userExists = !!(await Congregant.exists({ _id: decoded.userId }));
         }
 
         if (!userExists) {
@@ -56,6 +71,10 @@ const auth = async (req, res, next) => {
         next();
     } catch (err) {
         console.log('AUTH MIDDLEWARE - Token verification failed:', err.message);
+        if (err.name === 'TokenExpiredError') {
+            // The client is expected to call /refresh and retry
+            return res.status(401).json({ error: 'Access token expired', code: 'TOKEN_EXPIRED' });
+        }
         res.status(401).json({ error: 'Token is not valid' });
     }
 };
@@ -71,6 +90,94 @@ const requireSuperAdmin = (req, res, next) => {
     next();
 };
 
+const requireCongregant = (req, res, next) => {
+    if (req.user.role !== 'congregant') return res.status(403).json({ error: 'Congregant account required' });
+    next();
+};
+
+// Per-route permission check for super admins; attaches req.access ({role, province, permissions})
+// so handlers can limit province-scoped roles to their own mosques
+const requirePermission = (permission) => async (req, res, next) => {
+    try {
+        if (req.user.role !== 'super_admin') {
+            return res.status(403).json({ error: 'Super admin access required' });
+        }
+
+        const superAdmin = await SuperAdmin.findById(req.user.userId).select('role province');
+        req.access = getAccess(superAdmin);
+        if (!req.access.permissions.includes(permission)) {
+            return res.status(403).json({
+                error: 'Your role does not allow this action',
+                code: 'PERMISSION_DENIED',
+                permission
+            });
+        }
+        next();
+    } catch (error) {
+        console.error('Error in requirePermission middleware:', error);
+        res.status(500).json({
+            error: 'Server error',
+            code: 'SERVER_ERROR'
+        });
+    }
+};
+
+// Per-route permission check for mosque admins against their membership of the mosque in :id;
+// attaches req.membership ({role, role_label, permissions})
+const requireMosquePermission = (permission) => async (req, res, next) => {
+    try {
+        if (req.user.role !== 'admin') {
+            return res.status(403).json({ error: 'Admin access required' });
+        }
+
+        const admin = await Admin.findById(req.user.userId).select('status mosque_id mosque_role');
+        if (!admin || admin.status !== 'approved' || admin.mosque_id?.toString() !== req.params.id) {
+            return res.status(403).json({
+                error: 'You are not an admin of this mosque',
+                code: 'NOT_MOSQUE_MEMBER'
+            });
+        }
+
+        req.membership = getMembership(admin);
+        if (!req.membership.permissions.includes(permission)) {
+            return res.status(403).json({
+                error: 'Your role on this mosque does not allow this action',
+                code: 'PERMISSION_DENIED',
+                permission
+            });
+        }
+        next();
+    } catch (error) {
+        console.error('Error in requireMosquePermission middleware:', error);
+        res.status(500).json({
+            error: 'Server error',
+            code: 'SERVER_ERROR'
+        });
+    }
+};
+
+// Destructive super admin actions need a re-authentication on this session within the last few minutes
+const requireStepUp = async (req, res, next) => {
+    try {
+        if (await hasRecentStepUp(req.user.sid)) {
+            return next();
+        }
+
+        const superAdmin = await SuperAdmin.findById(req.user.userId).select('two_factor.enabled');
+        res.status(403).json({
+            error: 'Please confirm your identity to continue',
+            code: 'STEP_UP_REQUIRED',
+            method: superAdmin?.two_factor?.enabled ? 'totp' : 'password'
+        });
+    } catch (error) {
+        console.error('Error in requireStepUp middleware:', error);
+        res.status(500).json({
+            error: 'Server error',
+            code: 'SERVER_ERROR'
+        });
+    }
+};
+
 // NEW: Middleware to block rejected admins from accessing admin features
 const requireNotRejected = async (req, res, next) => {
     try {
@@ -115,4 +222,4 @@ const requireNotRejected = async (req, res, next) => {
     }
 };
 
-export { auth, requireAdmin, requireSuperAdmin, requireNotRejected };
\ No newline at end of file
+export { auth, requireAdmin, requireSuperAdmin, requireCongregant, requirePermission, requireMosquePermission, requireStepUp, requireNotRejected };
\ No newline at end of file
@@ -0,0 +1,22 @@
+import crypto from 'crypto';
+
+const isProduction = process.env.NODE_ENV === 'production';
+
+// Scheduled jobs are called by Vercel Cron, which sends "Authorization: Bearer <CRON_SECRET>".
+// Without a CRON_SECRET the routes stay open in development and closed in production.
+const requireCronSecret = (req, res, next) => {
+    const secret = process.env.CRON_SECRET;
+    if (!secret) {
+        if (!isProduction) return next();
+        return res.status(503).json({ error: 'Scheduled jobs are not configured', code: 'CRON_NOT_CONFIGURED' });
+    }
+
+    const expected = Buffer.from(`Bearer ${secret}`);
+    const received = Buffer.from(req.get('authorization') || '');
+    if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+        return res.status(401).json({ error: 'Invalid cron secret', code: 'INVALID_CRON_SECRET' });
+    }
+    next();
+};
+
+export { requireCronSecret };
@@ -0,0 +1,36 @@
+import multer from 'multer';
+import { DOCUMENT_TYPES, MAX_DOCUMENT_BYTES, MAX_DOCUMENTS_PER_UPLOAD } from '../utils/applicationDocuments.js';
+
+// Applicant documents held in memory until the route decides where they go.
+// JSON requests pass straight through, so documents stay optional.
+const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_DOCUMENT_BYTES, files: MAX_DOCUMENTS_PER_UPLOAD },
+    fileFilter: (req, file, cb) => {
+        if (!DOCUMENT_TYPES[file.mimetype]) {
+            return cb(new Error('Documents must be PDF, JPEG, PNG or WebP files'));
+        }
+        cb(null, true);
+    }
+}).array('documents', MAX_DOCUMENTS_PER_UPLOAD);
+
+const documentUpload = (req, res, next) => {
+    upload(req, res, (err) => {
+        if (!err) return next();
+        if (err.code === 'LIMIT_FILE_SIZE') {
+            return res.status(400).json({
+                error: `Each document must be smaller than ${MAX_DOCUMENT_BYTES / (1024 * 1024)} MB`,
+                code: 'DOCUMENT_TOO_LARGE'
+            });
+        }
+        if (err.code === 'LIMIT_FILE_COUNT' || err.code === 'LIMIT_UNEXPECTED_FILE') {
+            return res.status(400).json({
+                error: `Attach at most ${MAX_DOCUMENTS_PER_UPLOAD} documents at a time`,
+                code: 'TOO_MANY_DOCUMENTS'
+            });
+        }
+        res.status(400).json({ error: err.message, code: 'INVALID_UPLOAD' });
+    });
+};
+
+export { documentUpload };
@@ -0,0 +1,273 @@
+import jwt from 'jsonwebtoken';
+import RateLimitBucket from '../models/RateLimitBucket.js';
+import AuditLogger from '../utils/auditLogger.js';
+import { hashInvitationToken } from '../utils/invitations.js';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// First lockout of a bucket; every further lockout doubles it, up to the cap
+const LOCKOUT_BASE_MS = 5 * MINUTE;
+const LOCKOUT_MAX_MS = 24 * HOUR;
+// Idle buckets, and with them their lockout history, are forgotten after this
+const BUCKET_IDLE_MS = 24 * HOUR;
+
+const normalizeEmail = (email) => (typeof email === 'string' ? email.trim().toLowerCase() : '');
+
+const emailAccount = (req) => normalizeEmail(req.body?.email);
+
+const userTypeAccount = (req) => {
+    const email = normalizeEmail(req.body?.email);
+    return email ? `${req.body?.userType || 'admin'}:${email}` : '';
+};
+
+// Only used to pick a bucket - the handler verifies the challenge token itself
+const challengeAccount = (req) => {
+    const payload = jwt.decode(String(req.body?.challenge_token || ''));
+    return payload?.userId ? `super_admin:${payload.userId}` : '';
+};
+
+// Accepting an invitation for an existing account checks its password, so guard each link like a login
+const invitationAccount = (req) => (req.params?.token ? `invitation:${hashInvitationToken(req.params.token)}` : '');
+
+const signedInAccount = (req) => (req.user?.userId ? `${req.user.role}:${req.user.userId}` : '');
+
+// IP limits are looser than account limits because a mosque's volunteers often share one network
+const LOGIN_LIMITS = {
+    ip: { requests: 60, failures: 20 },
+    account: { requests: 20, failures: 5 }
+};
+
+const POLICIES = {
+    admin_login: { windowMs: 15 * MINUTE, account: emailAccount, limits: LOGIN_LIMITS },
+    superadmin_login: { windowMs: 15 * MINUTE, account: emailAccount, limits: LOGIN_LIMITS },
+    forgot_password: {
+        windowMs: HOUR,
+        account: userTypeAccount,
+        limits: {
+            ip: { requests: 20, failures: 10 },
+            account: { requests: 5, failures: 5 }
+        }
+    },
+    verify_reset_code: { windowMs: 15 * MINUTE, account: userTypeAccount, limits: LOGIN_LIMITS },
+    verify_registration_code: { windowMs: 15 * MINUTE, account: userTypeAccount, limits: LOGIN_LIMITS },
+    superadmin_two_factor: { windowMs: 15 * MINUTE, account: challengeAccount, limits: LOGIN_LIMITS },
+    step_up: { windowMs: 15 * MINUTE, account: signedInAccount, limits: LOGIN_LIMITS },
+    accept_invitation: { windowMs: 15 * MINUTE, account: invitationAccount, limits: LOGIN_LIMITS },
+    // Congregant sign-in: every request emails a code, so requests are limited like password resets
+    congregant_request_code: {
+        windowMs: HOUR,
+        account: emailAccount,
+        limits: {
+            ip: { requests: 20, failures: 10 },
+            account: { requests: 5, failures: 5 }
+        }
+    },
+    congregant_verify_code: { windowMs: 15 * MINUTE, account: emailAccount, limits: LOGIN_LIMITS }
+};
+
+// Used when the store is unreachable so handlers can call fail()/succeed() unconditionally
+const NO_OP_LIMITER = {
+    fail: async () => ({}),
+    succeed: async () => { }
+};
+
+const secondsUntil = (date, now) => Math.max(1, Math.ceil((date.getTime() - now.getTime()) / 1000));
+
+const getTargets = (req, policyName, policy) => {
+    const targets = [{ scope: 'ip', identifier: req.ip || req.connection?.remoteAddress || 'unknown' }];
+    const account = policy.account(req);
+    if (account) {
+        targets.push({ scope: 'account', identifier: account });
+    }
+    return targets.map(target => ({
+        ...target,
+        key: `${policyName}:${target.scope}:${target.identifier}`,
+        limits: policy.limits[target.scope]
+    }));
+};
+
+// Count one request against a bucket, starting a fresh window when the previous one has passed
+const hitBucket = async (policyName, policy, target, now) => {
+    const windowEnd = new Date(now.getTime() + policy.windowMs);
+
+    await RateLimitBucket.updateOne(
+        { key: target.key, window_expires_at: { $lte: now } },
+        { $set: { requests: 0, failures: 0, window_expires_at: windowEnd } }
+    );
+
+    const update = {
+        $inc: { requests: 1 },
+        $max: { expires_at: new Date(now.getTime() + BUCKET_IDLE_MS) },
+        $setOnInsert: {
+            policy: policyName,
+            scope: target.scope,
+            identifier: target.identifier,
+            window_expires_at: windowEnd
+        }
+    };
+
+    try {
+        return await RateLimitBucket.findOneAndUpdate({ key: target.key }, update, { upsert: true, new: true });
+    } catch (err) {
+        // Two first requests raced to create the bucket - the loser updates the winner's
+        if (err.code !== 11000) throw err;
+        return await RateLimitBucket.findOneAndUpdate({ key: target.key }, update, { new: true });
+    }
+};
+
+const sendLimited = (res, until, now, code, error) => {
+    const retryAfter = secondsUntil(until, now);
+    res.set('Retry-After', String(retryAfter));
+    return res.status(429).json({
+        error,
+        code,
+        retry_after: retryAfter,
+        retry_at: until.toISOString()
+    });
+};
+
+/**
+ * Progressive lockout: 5 min, 10 min, 20 min ... capped at a day
+ * @param {number} lockouts - Earlier lockouts of the bucket
+ * @returns {number} - Milliseconds
+ */
+const getLockoutDuration = (lockouts) => Math.min(LOCKOUT_BASE_MS * 2 ** lockouts, LOCKOUT_MAX_MS);
+
+const latest = (dates) => new Date(Math.max(...dates.map(date => date.getTime())));
+
+/**
+ * Record a failed attempt (wrong password, wrong code, unknown account).
+ * Locks a bucket once it reaches its failure limit.
+ * @returns {Promise<Object>} - attempts_remaining, plus retry_after/retry_at when this failure caused a lockout
+ */
+const recordFailure = async (req, res, policyName, targets, clock) => {
+    try {
+        const now = clock();
+        let attemptsRemaining = null;
+        const lockedUntil = [];
+
+        for (const target of targets) {
+            const bucket = await RateLimitBucket.findOneAndUpdate(
+                { key: target.key },
+                { $inc: { failures: 1 } },
+                { new: true }
+            );
+            if (!bucket) continue;
+
+            const remaining = target.limits.failures - bucket.failures;
+            if (remaining > 0) {
+                attemptsRemaining = attemptsRemaining === null ? remaining : Math.min(attemptsRemaining, remaining);
+                continue;
+            }
+
+            const until = new Date(now.getTime() + getLockoutDuration(bucket.lockouts));
+            await RateLimitBucket.updateOne(
+                { _id: bucket._id },
+                {
+                    $set: { failures: 0, locked_until: until },
+                    $inc: { lockouts: 1 },
+                    $max: { expires_at: new Date(until.getTime() + BUCKET_IDLE_MS) }
+                }
+            );
+            lockedUntil.push(until);
+
+            const auditLogger = new AuditLogger(req);
+            await auditLogger.logLockout({
+                policy: policyName,
+                scope: target.scope,
+                identifier: target.identifier,
+                failures: bucket.failures,
+                lockouts: bucket.lockouts + 1,
+                locked_until: until
+            });
+        }
+
+        if (lockedUntil.length > 0) {
+            const until = latest(lockedUntil);
+            const retryAfter = secondsUntil(until, now);
+            res.set('Retry-After', String(retryAfter));
+            return { attempts_remaining: 0, retry_after: retryAfter, retry_at: until.toISOString() };
+        }
+        return { attempts_remaining: attemptsRemaining };
+    } catch (err) {
+        console.error('Failed to record rate limit failure:', err.message);
+        return {};
+    }
+};
+
+// A successful attempt clears the account's failure count; lockout history is kept
+const clearFailures = async (targets) => {
+    try {
+        const keys = targets.filter(target => target.scope === 'account').map(target => target.key);
+        if (keys.length > 0) {
+            await RateLimitBucket.updateMany({ key: { $in: keys } }, { $set: { failures: 0 } });
+        }
+    } catch (err) {
+        console.error('Failed to clear rate limit failures:', err.message);
+    }
+};
+
+/**
+ * Throttle an endpoint by client IP and by the account named in the request body.
+ * Attaches req.rateLimit with fail() and succeed() for the handler to report the outcome.
+ * @param {string} policyName - Key of POLICIES
+ * @param {Object} options
+ * @param {Function} options.now - Clock, replaced in tests
+ */
+const rateLimit = (policyName, { now: clock = () => new Date() } = {}) => {
+    const policy = POLICIES[policyName];
+    if (!policy) {
+        throw new Error(`Unknown rate limit policy "${policyName}"`);
+    }
+
+    return async (req, res, next) => {
+        let targets;
+        let buckets;
+        try {
+            targets = getTargets(req, policyName, policy);
+            buckets = await Promise.all(targets.map(target => hitBucket(policyName, policy, target, clock())));
+        } catch (err) {
+            // Fail open: an unreachable store must not lock everybody out
+            console.error('Rate limiter unavailable, allowing request:', err.message);
+            req.rateLimit = NO_OP_LIMITER;
+            return next();
+        }
+
+        const now = clock();
+        const locked = buckets.filter(bucket => bucket?.locked_until && bucket.locked_until > now);
+        if (locked.length > 0) {
+            return sendLimited(
+                res,
+                latest(locked.map(bucket => bucket.locked_until)),
+                now,
+                'TOO_MANY_ATTEMPTS',
+                'Too many failed attempts. Please wait before trying again.'
+            );
+        }
+
+        const overLimit = buckets.filter((bucket, i) => bucket && bucket.requests > targets[i].limits.requests);
+        if (overLimit.length > 0) {
+            return sendLimited(
+                res,
+                latest(overLimit.map(bucket => bucket.window_expires_at)),
+                now,
+                'TOO_MANY_REQUESTS',
+                'Too many requests. Please slow down and try again later.'
+            );
+        }
+
+        req.rateLimit = {
+            fail: () => recordFailure(req, res, policyName, targets, clock),
+            succeed: () => clearFailures(targets)
+        };
+        next();
+    };
+};
+
+export {
+    LOCKOUT_BASE_MS,
+    LOCKOUT_MAX_MS,
+    getLockoutDuration,
+    rateLimit
+};
@@ -1,4 +1,7 @@
 import mongoose from 'mongoose';
+import { MOSQUE_ROLE_NAMES } from '../utils/mosqueRoles.js';
+import { DOCUMENT_KIND_NAMES, DOCUMENT_REVIEW_STATUSES } from '../utils/applicationDocuments.js';
+import { NOTIFICATION_LOCALES } from '../../services/notificationTemplates.js';
 
 const adminSchema = new mongoose.Schema({
     name: { type: String, required: true },
@@ -7,8 +10,34 @@ const adminSchema = new mongoose.Schema({
     phone: { type: String, required: true, unique: true }, // Pakistani phone number format +923xxxxxxxxx
     mosque_id: { type: mongoose.Schema.Types.ObjectId, ref: 'Mosque', default: null }, // Nullable when rejected, mosque deleted, or admin removed
     status: { type: String, enum: ['pending', 'approved', 'rejected', 'mosque_deleted', 'admin_removed', 'code_regenerated'], default: 'pending' },
-    verification_code_used: { type: String, default: null }, // Track which verification code was used, null when rejected, mosque deleted, or admin removed
+    verification_code_used: { type: String, default: null }, // Prefix of the verification code used, null when rejected, mosque deleted, or admin removed
+    mosque_role: { type: String, enum: MOSQUE_ROLE_NAMES, default: 'owner' }, // Role on the mosque; applicants who used the mosque's code are owners
+    invited_by: { type: mongoose.Schema.Types.ObjectId, ref: 'Admin', default: null }, // Owner whose invitation this admin accepted
+    application_invitation_id: { type: mongoose.Schema.Types.ObjectId, ref: 'MosqueInvitation', default: null }, // Super admin invitation the application came through, instead of the mosque code
     application_notes: String, // Additional notes from applicant
+    preferred_language: { type: String, enum: NOTIFICATION_LOCALES, default: 'en' }, // Language of the emails this admin receives
+
+    // Supporting documents with the reviewer's checklist verdict on each; files are in private storage
+    application_documents: [{
+        kind: { type: String, enum: DOCUMENT_KIND_NAMES, default: 'other' },
+        original_name: String,
+        mime_type: String,
+        size: Number,
+        storage_key: String,
+        uploaded_at: { type: Date, default: Date.now },
+        review_status: { type: String, enum: DOCUMENT_REVIEW_STATUSES, default: 'unreviewed' },
+        review_note: { type: String, default: null },
+        reviewed_by: { type: mongoose.Schema.Types.ObjectId, ref: 'SuperAdmin', default: null },
+        reviewed_at: { type: Date, default: null }
+    }],
+    // Questions a reviewer sent back to a pending applicant; the newest one without a response is open
+    info_requests: [{
+        message: String,
+        requested_by: { type: mongoose.Schema.Types.ObjectId, ref: 'SuperAdmin' },
+        requested_at: { type: Date, default: Date.now },
+        response: { type: String, default: null },
+        responded_at: { type: Date, default: null }
+    }],
     super_admin_notes: String, // Notes from super admin during review
     approved_at: { type: Date }, // When the admin was approved
     rejected_at: { type: Date }, // When the admin was rejected
@@ -37,12 +66,13 @@ const adminSchema = new mongoose.Schema({
     removed_from_mosque_name: { type: String, default: null }, // Store mosque name admin was removed from
     removed_from_mosque_location: { type: String, default: null }, // Store mosque location for reference
     removed_by: { type: mongoose.Schema.Types.ObjectId, ref: 'SuperAdmin', default: null }, // Super admin who removed this admin
+    removed_by_owner: { type: mongoose.Schema.Types.ObjectId, ref: 'Admin', default: null }, // Mosque owner who removed this admin
 
     // Code regeneration handling fields
     code_regeneration_reason: { type: String, default: null }, // Reason why mosque code was regenerated
     code_regeneration_date: { type: Date, default: null }, // When the mosque code was regenerated
     code_regenerated_by: { type: mongoose.Schema.Types.ObjectId, ref: 'SuperAdmin', default: null }, // Super admin who regenerated the code
-    previous_mosque_code: { type: String, default: null }, // Store previous mosque code for reference
+    previous_mosque_code: { type: String, default: null }, // Prefix of the previous mosque code for reference
     code_regenerated_mosque_name: { type: String, default: null }, // Store mosque name where code was regenerated
     code_regenerated_mosque_location: { type: String, default: null }, // Store mosque location for reference
 
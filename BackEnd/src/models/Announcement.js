@@ -0,0 +1,24 @@
+import mongoose from 'mongoose';
+
+// A notice or event a mosque's admins post for the community. Expired announcements
+// drop off the public board and feed but stay in the dashboard until deleted.
+const announcementSchema = new mongoose.Schema({
+    mosque_id: { type: mongoose.Schema.Types.ObjectId, ref: 'Mosque', required: true },
+    title: { type: String, required: true, trim: true },
+    body: { type: String, required: true, trim: true },
+    category: {
+        type: String,
+        enum: ['general', 'lecture', 'janaza', 'eid', 'fundraiser', 'class'],
+        default: 'general'
+    },
+    starts_at: { type: Date, default: null }, // When the event takes place; none for plain notices
+    ends_at: { type: Date, default: null },
+    pinned: { type: Boolean, default: false }, // Shown above everything else
+    expires_at: { type: Date, default: null }, // Hidden from the public after this; none = stays up
+    created_by: { type: mongoose.Schema.Types.ObjectId, ref: 'Admin' },
+    updated_by: { type: mongoose.Schema.Types.ObjectId, ref: 'Admin' }
+}, { timestamps: true });
+
+announcementSchema.index({ mosque_id: 1, pinned: -1, createdAt: -1 });
+
+export default mongoose.model('Announcement', announcementSchema);
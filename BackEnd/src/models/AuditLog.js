@@ -1,4 +1,5 @@
 import mongoose from 'mongoose';
+import { maskVerificationCode } from '../utils/verificationCode.js';
 
 const auditLogSchema = new mongoose.Schema({
     // Action details
@@ -15,16 +16,39 @@ const auditLogSchema = new mongoose.Schema({
             'admin_removed',
             'admin_login',
             'superadmin_login',
+            'account_locked',
             'super_admin_created',
+            'super_admin_role_changed',
             'verification_code_generated',
             'verification_code_regenerated',
             'code_regenerated',
             'bulk_code_regeneration',
             'prayer_times_updated',
+            'prayer_calculation_updated',
+            'prayer_schedule_created',
+            'prayer_schedule_updated',
+            'prayer_schedule_deleted',
             'mosque_details_updated',
+            'photo_uploaded',
+            'photo_approved',
+            'photo_hidden',
+            'photo_deleted',
+            'announcement_created',
+            'announcement_updated',
+            'announcement_deleted',
             'admin_reapplication',
             'admin_allowed_reapply',
             'admin_assigned',
+            'mosque_member_invited',
+            'mosque_member_joined',
+            'mosque_member_role_changed',
+            'mosque_member_removed',
+            'admin_invitation_sent',
+            'admin_invitation_revoked',
+            'admin_info_requested',
+            'admin_info_provided',
+            'admin_document_reviewed',
+            'email_resent',
             'error',
             'audit_logs_cleaned',
             'audit_logs_bulk_deleted'
@@ -41,7 +65,7 @@ const auditLogSchema = new mongoose.Schema({
 
     // Target of the action (mosque, admin, etc.)
     target: {
-        target_type: { type: String, enum: ['mosque', 'admin', 'super_admin', 'verification_code', 'prayer_times', 'system'] },
+        target_type: { type: String, enum: ['mosque', 'admin', 'super_admin', 'verification_code', 'prayer_times', 'photo', 'announcement', 'system'] },
         target_id: mongoose.Schema.Types.ObjectId,
         target_name: String
     },
@@ -56,7 +80,7 @@ const auditLogSchema = new mongoose.Schema({
             contact_phone: String,
             contact_email: String,
             admin_instructions: String,
-            verification_code: String,
+            verification_code_prefix: String,
             verification_code_expires: Date
         },
 
@@ -170,26 +194,122 @@ auditLogSchema.methods.getActionDescription = function () {
 
         case 'verification_code_regenerated':
             const codeRegeneratedMosque = action_details?.mosque_data?.name || target.target_name || 'a mosque';
-            const oldCode = action_details?.before_data?.verification_code || 'old code';
-            const newCode = action_details?.after_data?.verification_code || action_details?.mosque_data?.verification_code || 'new code';
+            const oldCode = maskVerificationCode(action_details?.before_data?.verification_code_prefix) || 'old code';
+            const newCode = maskVerificationCode(action_details?.after_data?.verification_code_prefix) || 'new code';
             return `${userName} generated a new verification code for "${codeRegeneratedMosque}" (changed from ${oldCode} to ${newCode})`;
 
         case 'prayer_times_updated':
             const prayerMosqueName = action_details?.mosque_data?.name || target.target_name || 'a mosque';
             return `${userName} updated the prayer times for "${prayerMosqueName}"`;
 
+        case 'prayer_calculation_updated':
+            const calculationMosqueName = action_details?.mosque_data?.name || target.target_name || 'a mosque';
+            return `${userName} updated the prayer time calculation settings for "${calculationMosqueName}"`;
+
+        case 'prayer_schedule_created':
+        case 'prayer_schedule_updated':
+        case 'prayer_schedule_deleted':
+            const scheduleMosqueName = action_details?.mosque_data?.name || 'a mosque';
+            const scheduleName = target.target_name || 'a schedule';
+            const scheduleVerb = action_type.replace('prayer_schedule_', '');
+            return `${userName} ${scheduleVerb} the timetable schedule "${scheduleName}" for "${scheduleMosqueName}"`;
+
+        case 'photo_uploaded':
+        case 'photo_approved':
+        case 'photo_hidden':
+        case 'photo_deleted':
+            const photoMosqueName = action_details?.mosque_data?.name || 'a mosque';
+            const photoVerb = action_type.replace('photo_', '');
+            const photoNote = action_details?.notes ? `. Note: ${action_details.notes}` : '';
+            return `${userName} ${photoVerb} a gallery photo for "${photoMosqueName}"${photoNote}`;
+
+        case 'announcement_created':
+        case 'announcement_updated':
+        case 'announcement_deleted':
+            const announcementMosqueName = action_details?.mosque_data?.name || 'a mosque';
+            const announcementTitle = target.target_name || 'an announcement';
+            const announcementVerb = action_type.replace('announcement_', '');
+            return `${userName} ${announcementVerb} the announcement "${announcementTitle}" for "${announcementMosqueName}"`;
+
         case 'admin_login':
             return `${userName} successfully logged in as Admin`;
 
         case 'superadmin_login':
             return `${userName} successfully logged in as Super Admin`;
 
+        case 'account_locked':
+            const lockout = action_details?.after_data || {};
+            const lockedSubject = lockout.scope === 'ip' ? 'IP address' : 'Account';
+            const lockedIdentifier = lockout.identifier || target?.target_name || 'unknown';
+            const lockedEndpoint = (lockout.policy || 'login').replace(/_/g, ' ');
+            const lockedUntil = lockout.locked_until ? new Date(lockout.locked_until).toLocaleString() : 'later';
+            return `${lockedSubject} "${lockedIdentifier}" was locked out of ${lockedEndpoint} until ${lockedUntil} after repeated failed attempts`;
+
         case 'super_admin_created':
             const createdSuperAdminName = action_details?.super_admin_data?.name || target.target_name || 'a super admin';
             const createdSuperAdminEmail = action_details?.super_admin_data?.email || 'unknown email';
             const createdBy = action_details?.created_by || 'unknown';
             return `${userName} created a new super admin account for "${createdSuperAdminName}" (${createdSuperAdminEmail}) - ${createdBy}`;
 
+        case 'super_admin_role_changed':
+            const roleChangedName = target?.target_name || 'a super admin';
+            const newRoleLabel = action_details?.after_data?.role_label || action_details?.after_data?.role || 'a new role';
+            const newRoleProvince = action_details?.after_data?.province ? ` for ${action_details.after_data.province}` : '';
+            return `${userName} changed ${roleChangedName}'s role to ${newRoleLabel}${newRoleProvince}`;
+
+        case 'mosque_member_invited':
+            const invitedMosqueName = action_details?.mosque_data?.name || target?.target_name || 'a mosque';
+            const invitedEmail = action_details?.after_data?.email || 'someone';
+            const invitedRole = action_details?.after_data?.role_label || action_details?.after_data?.mosque_role || 'an admin';
+            return `${userName} invited ${invitedEmail} to the "${invitedMosqueName}" team as ${invitedRole}`;
+
+        case 'mosque_member_joined':
+            const joinedName = action_details?.admin_data?.name || target?.target_name || 'An admin';
+            const joinedMosqueName = action_details?.admin_data?.mosque_name || 'a mosque';
+            const joinedRole = action_details?.after_data?.role_label || action_details?.after_data?.mosque_role || 'an admin';
+            return `${joinedName} accepted an invitation and joined the "${joinedMosqueName}" team as ${joinedRole}`;
+
+        case 'mosque_member_role_changed':
+            const memberName = action_details?.admin_data?.name || target?.target_name || 'an admin';
+            const memberMosqueName = action_details?.admin_data?.mosque_name || 'a mosque';
+            const memberRole = action_details?.after_data?.role_label || action_details?.after_data?.mosque_role || 'a new role';
+            return `${userName} changed ${memberName}'s role on "${memberMosqueName}" to ${memberRole}`;
+
+        case 'mosque_member_removed':
+            const removedMemberName = action_details?.admin_data?.name || target?.target_name || 'an admin';
+            const removedMemberMosque = action_details?.admin_data?.mosque_name || 'a mosque';
+            const memberRemovalReason = action_details?.reason || 'no reason provided';
+            return `${userName} removed ${removedMemberName} from the "${removedMemberMosque}" team. Reason: ${memberRemovalReason}`;
+
+        case 'admin_invitation_sent':
+            const applyMosqueName = action_details?.mosque_data?.name || target?.target_name || 'a mosque';
+            const applyEmail = action_details?.after_data?.email || 'someone';
+            return `${userName} invited ${applyEmail} to apply as admin of "${applyMosqueName}"`;
+
+        case 'admin_invitation_revoked':
+            const revokedInviteMosque = action_details?.mosque_data?.name || target?.target_name || 'a mosque';
+            const revokedInviteEmail = action_details?.before_data?.email || 'someone';
+            return `${userName} revoked the invitation for ${revokedInviteEmail} to "${revokedInviteMosque}"`;
+
+        case 'admin_info_requested':
+            const infoApplicantName = action_details?.admin_data?.name || target?.target_name || 'an applicant';
+            return `${userName} asked ${infoApplicantName} for more information about their application`;
+
+        case 'admin_info_provided':
+            const infoMosqueName = action_details?.admin_data?.mosque_name || 'a mosque';
+            return `${userName} sent the requested information for their application to "${infoMosqueName}"`;
+
+        case 'admin_document_reviewed':
+            const reviewedDocument = action_details?.after_data?.original_name || 'a document';
+            const reviewedStatus = action_details?.after_data?.review_status || 'reviewed';
+            const reviewedApplicant = action_details?.admin_data?.name || target?.target_name || 'an applicant';
+            return `${userName} marked ${reviewedApplicant}'s ${reviewedDocument} as ${reviewedStatus}`;
+
+        case 'email_resent':
+            const resentSubject = action_details?.before_data?.subject || 'an email';
+            const resentTo = action_details?.before_data?.recipient_email || target?.target_name || 'a recipient';
+            return `${userName} resent "${resentSubject}" to ${resentTo}`;
+
         case 'admin_allowed_reapply':
             const reapplyAdminName = action_details?.admin_data?.name || target.target_name || 'an admin';
             const reapplyMosqueName = action_details?.admin_data?.mosque_name || 'a mosque';
@@ -0,0 +1,15 @@
+import mongoose from 'mongoose';
+
+// A member of the public who signs in with an emailed code to keep their favorite mosques across devices.
+// There is no password; each sign-in goes through a PendingVerification with userType 'congregant'.
+const congregantSchema = new mongoose.Schema({
+    email: { type: String, required: true, unique: true, lowercase: true, trim: true },
+    name: { type: String, trim: true, default: null },
+    favorite_mosques: [{ type: mongoose.Schema.Types.ObjectId, ref: 'Mosque' }], // Oldest first; also the mosques they follow
+    last_login_at: { type: Date, default: null }
+}, { timestamps: true });
+
+// Follower counts
+congregantSchema.index({ favorite_mosques: 1 });
+
+export default mongoose.model('Congregant', congregantSchema);
@@ -3,7 +3,35 @@ import mongoose from 'mongoose';
 const mosqueSchema = new mongoose.Schema({
     name: { type: String, required: true },
     location: { type: String, required: true },
+    // Structured address; location stays the single-line display form
+    address: {
+        street: { type: String },
+        area: { type: String },
+        city: { type: String },
+        district: { type: String },
+        province: { type: String },
+        postal_code: { type: String }
+    },
     description: { type: String },
+    // Amenities shown on the profile and used by the finder's facility filters
+    facilities: {
+        womens_prayer_area: { type: Boolean, default: false },
+        wudu: { type: Boolean, default: false },
+        wheelchair_access: { type: Boolean, default: false },
+        parking: { type: Boolean, default: false },
+        quran_classes: { type: Boolean, default: false },
+        janaza_services: { type: Boolean, default: false },
+        library: { type: Boolean, default: false },
+        khutbah_languages: [{
+            type: String,
+            enum: ['urdu', 'arabic', 'english', 'punjabi', 'pashto', 'sindhi', 'balochi', 'saraiki']
+        }]
+    },
+    // Map position as a GeoJSON point: [longitude, latitude]
+    coordinates: {
+        type: { type: String, enum: ['Point'] },
+        coordinates: { type: [Number], default: undefined }
+    },
     prayer_times: {
         fajr: { type: String },
         dhuhr: { type: String },
@@ -12,11 +40,57 @@ const mosqueSchema = new mongoose.Schema({
         isha: { type: String },
         jummah: { type: String }
     },
+    // Automatic prayer time calculation
+    prayer_calculation: {
+        enabled: { type: Boolean, default: false },
+        latitude: { type: Number, min: -90, max: 90 },
+        longitude: { type: Number, min: -180, max: 180 },
+        timezone: { type: String, default: 'Asia/Karachi' },
+        method: {
+            type: String,
+            enum: ['karachi', 'mwl', 'isna', 'umm_al_qura', 'egyptian'],
+            default: 'karachi'
+        },
+        asr_method: {
+            type: String,
+            enum: ['hanafi', 'shafii'],
+            default: 'hanafi'
+        },
+        high_latitude_rule: {
+            type: String,
+            enum: ['none', 'middle_of_night', 'one_seventh', 'angle_based'],
+            default: 'angle_based'
+        },
+        // Minutes after adhan when the congregation starts
+        jamaat_offsets: {
+            fajr: { type: Number, default: 0 },
+            dhuhr: { type: Number, default: 0 },
+            asr: { type: Number, default: 0 },
+            maghrib: { type: Number, default: 0 },
+            isha: { type: Number, default: 0 },
+            jummah: { type: Number, default: null } // Offset from Dhuhr adhan; null keeps the fixed Jummah time
+        }
+    },
+    // Newest approved gallery photo, copied here so mosque lists need no extra lookup
+    cover_photo: {
+        photo_id: { type: mongoose.Schema.Types.ObjectId, ref: 'MosquePhoto' },
+        thumbnail_url: { type: String },
+        hero_url: { type: String }
+    },
+    // Bumped on every timetable edit so calendar subscribers pick up changes
+    timetable_version: { type: Number, default: 0 },
+    timetable_updated_at: { type: Date },
     // Add verification system
-    verification_code: {
+    // Only a keyed hash of the code is stored (see utils/verificationCode.js), plus a short prefix for display
+    verification_code_hash: {
         type: String,
         required: true,
-        unique: true
+        unique: true,
+        select: false
+    },
+    verification_code_prefix: {
+        type: String,
+        required: true
     },
     verification_code_expires: {
         type: Date,
@@ -34,4 +108,11 @@ const mosqueSchema = new mongoose.Schema({
 // Add text index for fast searching on name and location
 mosqueSchema.index({ name: 'text', location: 'text' });
 
+// City/province filters on the mosque finder
+mosqueSchema.index({ 'address.province': 1, 'address.city': 1 });
+mosqueSchema.index({ 'address.city': 1 });
+
+// Geospatial index for "near me" search
+mosqueSchema.index({ coordinates: '2dsphere' });
+
 export default mongoose.model('Mosque', mosqueSchema);
\ No newline at end of file
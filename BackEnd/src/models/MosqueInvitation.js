@@ -0,0 +1,32 @@
+import mongoose from 'mongoose';
+import { MOSQUE_ROLE_NAMES } from '../utils/mosqueRoles.js';
+import { INVITATION_PURPOSES } from '../utils/invitations.js';
+
+// An email invitation bound to one address and one mosque. The link carries a random token; only its hash is stored.
+// - team: an owner invites someone straight onto their mosque's admin team
+// - application: a super admin invites someone to apply for a mosque without the verification code
+const mosqueInvitationSchema = new mongoose.Schema({
+    mosque_id: { type: mongoose.Schema.Types.ObjectId, ref: 'Mosque', required: true },
+    email: { type: String, required: true, lowercase: true, trim: true },
+    purpose: { type: String, enum: INVITATION_PURPOSES, default: 'team' },
+    mosque_role: { type: String, enum: MOSQUE_ROLE_NAMES, required: true },
+    token_hash: { type: String, required: true, unique: true },
+    invited_by: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Admin',
+        default: null,
+        required: function () { return this.purpose === 'team'; }
+    },
+    invited_by_super_admin: { type: mongoose.Schema.Types.ObjectId, ref: 'SuperAdmin', default: null },
+    expires_at: { type: Date, required: true },
+    opened_at: { type: Date, default: null }, // First time the link was opened
+    accepted_at: { type: Date, default: null },
+    accepted_admin_id: { type: mongoose.Schema.Types.ObjectId, ref: 'Admin', default: null },
+    revoked_at: { type: Date, default: null },
+    createdAt: { type: Date, default: Date.now }
+});
+
+mosqueInvitationSchema.index({ mosque_id: 1, email: 1 });
+mosqueInvitationSchema.index({ createdAt: -1 });
+
+export default mongoose.model('MosqueInvitation', mosqueInvitationSchema);
@@ -0,0 +1,37 @@
+import mongoose from 'mongoose';
+
+const photoVariantSchema = new mongoose.Schema({
+    key: { type: String, required: true }, // Same key in private storage and, while approved, public storage
+    url: { type: String, default: null }, // Public URL, only while the photo is approved
+    width: { type: Number },
+    height: { type: Number }
+}, { _id: false });
+
+// A gallery photo uploaded by a mosque admin. Photos stay pending until a super admin
+// approves them; hidden photos are kept so the decision can be reversed. The files are
+// always kept in private storage and copied to public storage only while approved.
+const mosquePhotoSchema = new mongoose.Schema({
+    mosque_id: { type: mongoose.Schema.Types.ObjectId, ref: 'Mosque', required: true },
+    caption: { type: String, trim: true },
+    status: {
+        type: String,
+        enum: ['pending', 'approved', 'hidden'],
+        default: 'pending'
+    },
+    variants: {
+        thumbnail: { type: photoVariantSchema, required: true },
+        hero: { type: photoVariantSchema, required: true }
+    },
+    original_name: { type: String },
+    original_size: { type: Number },
+    uploaded_by: { type: mongoose.Schema.Types.ObjectId, ref: 'Admin' },
+    moderated_by: { type: mongoose.Schema.Types.ObjectId, ref: 'SuperAdmin' },
+    moderated_at: { type: Date },
+    moderation_note: { type: String },
+    createdAt: { type: Date, default: Date.now }
+});
+
+mosquePhotoSchema.index({ mosque_id: 1, status: 1, createdAt: -1 });
+mosquePhotoSchema.index({ status: 1, createdAt: 1 });
+
+export default mongoose.model('MosquePhoto', mosquePhotoSchema);
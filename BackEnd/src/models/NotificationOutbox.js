@@ -0,0 +1,57 @@
+import mongoose from 'mongoose';
+import { NOTIFICATION_EVENTS, NOTIFICATION_LOCALES } from '../../services/notificationTemplates.js';
+
+// Emails sent outside the lifecycle template registry, rendered by mailService
+const MAIL_SERVICE_EVENTS = ['registration_code', 'password_reset', 'sign_in_code', 'new_device'];
+
+const OUTBOX_EVENTS = [...NOTIFICATION_EVENTS, ...MAIL_SERVICE_EVENTS];
+
+// pending -> sending -> sent, or back to pending for a retry; dead_letter once retries run out or the email expires
+const OUTBOX_STATUSES = ['pending', 'sending', 'sent', 'dead_letter'];
+
+// Emails are removed after this long; the delivery log goes with them
+const RETENTION_SECONDS = 90 * 24 * 60 * 60;
+
+// Emails waiting to be sent, and the record of those that were.
+// Each email is rendered once when queued, so a retry sends exactly the same message.
+const notificationOutboxSchema = new mongoose.Schema({
+    event: { type: String, enum: OUTBOX_EVENTS, required: true },
+    locale: { type: String, enum: NOTIFICATION_LOCALES, default: 'en' },
+    admin_id: { type: mongoose.Schema.Types.ObjectId, ref: 'Admin', default: null }, // Recipient's account, when there is one
+    recipient_email: { type: String, required: true },
+    recipient_name: { type: String, default: null },
+    subject: { type: String, required: true },
+    html: { type: String, default: null },
+    text: { type: String, default: null },
+    contains_secret: { type: Boolean, default: false }, // Verification and reset codes: the body is removed once it is no longer needed
+    body_removed_at: { type: Date, default: null },
+    status: { type: String, enum: OUTBOX_STATUSES, default: 'pending' },
+    attempts: { type: Number, default: 0 },
+    max_attempts: { type: Number, default: 8 },
+    next_attempt_at: { type: Date, default: Date.now }, // Earliest time the next attempt may run
+    last_attempt_at: { type: Date, default: null },
+    expires_at: { type: Date, default: null }, // Not worth sending after this, e.g. when the code in it has expired
+    last_error: { type: String, default: null },
+    message_id: { type: String, default: null }, // SMTP message id once sent
+    sent_at: { type: Date, default: null },
+    dead_lettered_at: { type: Date, default: null },
+
+    // One entry per delivery attempt, plus one whenever a super admin resends the email
+    delivery_log: [{
+        attempt: Number,
+        trigger: { type: String, enum: ['inline', 'worker', 'resend'] }, // Sent while handling the request, by the cron worker, or on a super admin's request
+        outcome: { type: String, enum: ['sent', 'failed', 'expired', 'requeued'] },
+        at: { type: Date, default: Date.now },
+        duration_ms: Number,
+        message_id: String,
+        error: String,
+        requested_by: { type: mongoose.Schema.Types.ObjectId, ref: 'SuperAdmin' }
+    }]
+}, { timestamps: true });
+
+// Finding due emails
+notificationOutboxSchema.index({ status: 1, next_attempt_at: 1 });
+notificationOutboxSchema.index({ admin_id: 1, createdAt: -1 });
+notificationOutboxSchema.index({ createdAt: 1 }, { expireAfterSeconds: RETENTION_SECONDS });
+
+export default mongoose.model('NotificationOutbox', notificationOutboxSchema);
@@ -0,0 +1,32 @@
+import mongoose from 'mongoose';
+
+// A set of prayer times that applies to a date range of a mosque's timetable.
+// Dates are stored as YYYY-MM-DD strings in the mosque's local calendar.
+const prayerScheduleSchema = new mongoose.Schema({
+    mosque_id: { type: mongoose.Schema.Types.ObjectId, ref: 'Mosque', required: true },
+    name: { type: String, required: true, trim: true },
+    schedule_type: {
+        type: String,
+        enum: ['seasonal', 'ramadan', 'override'], // override = single date
+        default: 'seasonal'
+    },
+    start_date: { type: String, required: true },
+    end_date: { type: String, required: true },
+    // Only the prayers that are set replace the underlying times
+    prayer_times: {
+        fajr: { type: String },
+        dhuhr: { type: String },
+        asr: { type: String },
+        maghrib: { type: String },
+        isha: { type: String },
+        jummah: { type: String }
+    },
+    notes: { type: String },
+    created_by: { type: mongoose.Schema.Types.ObjectId, ref: 'Admin' },
+    createdAt: { type: Date, default: Date.now },
+    updatedAt: { type: Date, default: Date.now }
+});
+
+prayerScheduleSchema.index({ mosque_id: 1, start_date: 1, end_date: 1 });
+
+export default mongoose.model('PrayerSchedule', prayerScheduleSchema);
@@ -0,0 +1,25 @@
+import mongoose from 'mongoose';
+
+// A browser's Web Push subscription for one favorited mosque. Reminders belong to a browser, even for
+// signed-in congregants, so the endpoint identifies it; one document per endpoint and mosque.
+const pushSubscriptionSchema = new mongoose.Schema({
+    endpoint: { type: String, required: true },
+    keys: {
+        p256dh: { type: String, required: true },
+        auth: { type: String, required: true }
+    },
+    mosque_id: { type: mongoose.Schema.Types.ObjectId, ref: 'Mosque', required: true },
+    jamaat_reminders: { type: Boolean, default: true },
+    reminder_minutes: { type: Number, default: 15, min: 1, max: 60 }, // Minutes before each jamaat
+    time_change_alerts: { type: Boolean, default: true }, // When the mosque's admins change its times
+    // Start of the last jamaat reminded about, so each congregation is announced once
+    last_reminded_for: { type: Date, default: null },
+    last_sent_at: { type: Date, default: null },
+    failure_count: { type: Number, default: 0 }, // Consecutive failed sends
+    user_agent: { type: String, default: null }
+}, { timestamps: true });
+
+pushSubscriptionSchema.index({ endpoint: 1, mosque_id: 1 }, { unique: true });
+pushSubscriptionSchema.index({ mosque_id: 1, jamaat_reminders: 1 });
+
+export default mongoose.model('PushSubscription', pushSubscriptionSchema);
@@ -0,0 +1,21 @@
+import mongoose from 'mongoose';
+
+// One counter per (policy, scope, identifier), e.g. admin_login + ip + 203.0.113.7.
+// Kept in Mongo rather than memory so limits hold across serverless instances.
+const rateLimitBucketSchema = new mongoose.Schema({
+    key: { type: String, required: true, unique: true },
+    policy: { type: String, required: true },
+    scope: { type: String, enum: ['ip', 'account'], required: true },
+    identifier: { type: String, required: true },
+    requests: { type: Number, default: 0 }, // Requests in the current window
+    failures: { type: Number, default: 0 }, // Failed attempts in the current window
+    window_expires_at: { type: Date, required: true },
+    lockouts: { type: Number, default: 0 }, // Lockouts so far - each one doubles the next lockout
+    locked_until: { type: Date, default: null },
+    expires_at: { type: Date, required: true } // Whole bucket (including lockout history) is forgotten after this
+}, { timestamps: true });
+
+// Let Mongo drop idle buckets
+rateLimitBucketSchema.index({ expires_at: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model('RateLimitBucket', rateLimitBucketSchema);
@@ -0,0 +1,25 @@
+import mongoose from 'mongoose';
+
+// One session per sign-in. The refresh token rotates on every use; superseded tokens are
+// remembered so a replayed one can be spotted and the whole session revoked.
+const sessionSchema = new mongoose.Schema({
+    user_id: { type: mongoose.Schema.Types.ObjectId, required: true },
+    user_type: { type: String, enum: ['admin', 'super_admin', 'congregant'], required: true },
+    refresh_token_hash: { type: String, required: true, unique: true },
+    previous_token_hashes: { type: [String], default: [] }, // Most recent superseded refresh tokens
+    user_agent: { type: String, default: null },
+    ip_address: { type: String, default: null },
+    location: { type: String, default: null }, // Approximate, from the hosting edge's geolocation headers
+    last_used_at: { type: Date, default: Date.now },
+    step_up_at: { type: Date, default: null }, // Last re-authentication, checked by destructive routes
+    expires_at: { type: Date, required: true }, // Refresh token expiry, pushed back on every rotation
+    revoked_at: { type: Date, default: null },
+    revoked_reason: { type: String, default: null } // logout, logout_all, revoked_by_user, reuse_detected, admin_removed, password_reset, user_deleted
+}, { timestamps: true });
+
+sessionSchema.index({ user_id: 1, user_type: 1, revoked_at: 1 });
+sessionSchema.index({ previous_token_hashes: 1 });
+// Expired sessions are removed by Mongo
+sessionSchema.index({ expires_at: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model('Session', sessionSchema);
@@ -1,10 +1,26 @@
 import mongoose from 'mongoose';
+import { ROLE_NAMES } from '../utils/permissions.js';
+import { PROVINCES } from '../utils/validators.js';
 
 const superAdminSchema = new mongoose.Schema({
     name: { type: String, required: true },
     email: { type: String, required: true, unique: true },
     password: { type: String, required: true },
+    role: { type: String, enum: ROLE_NAMES, default: 'super_admin' }, // See utils/permissions.js
+    province: { type: String, enum: [...PROVINCES, null], default: null }, // Only for regional managers
+    // TOTP two-factor authentication; secrets are encrypted, recovery codes hashed
+    two_factor: {
+        enabled: { type: Boolean, default: false },
+        secret: { type: String, default: null },
+        pending_secret: { type: String, default: null }, // Set during enrollment until the first code is confirmed
+        last_used_step: { type: Number, default: null }, // A code can't be replayed within its time window
+        recovery_codes: [{
+            hash: { type: String, required: true },
+            used_at: { type: Date, default: null }
+        }],
+        enabled_at: { type: Date, default: null }
+    },
     createdAt: { type: Date, default: Date.now }
 });
 
-export default mongoose.model('SuperAdmin', superAdminSchema);
\ No newline at end of file
+export default mongoose.model('SuperAdmin', superAdminSchema);
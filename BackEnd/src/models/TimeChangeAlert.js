@@ -0,0 +1,18 @@
+import mongoose from 'mongoose';
+
+// A time change alert waiting for the cron worker to push it to a mosque's followers; one per mosque.
+// Edits made before it goes out are folded into it, and it is removed once every follower has it.
+const timeChangeAlertSchema = new mongoose.Schema({
+    mosque_id: { type: mongoose.Schema.Types.ObjectId, ref: 'Mosque', required: true },
+    // Today's entry from before the first edit ({ date, prayer_times }), null when it could not be read
+    before: { type: mongoose.Schema.Types.Mixed, default: null },
+    queued_at: { type: Date, default: Date.now },
+    revision: { type: Number, default: 0 }, // Bumped by every edit, so the worker notices edits made while it sends
+    last_subscription_id: { type: mongoose.Schema.Types.ObjectId, default: null }, // Followers up to this one have the alert
+    locked_until: { type: Date, default: null } // Claimed by a worker run until then
+});
+
+timeChangeAlertSchema.index({ mosque_id: 1 }, { unique: true });
+timeChangeAlertSchema.index({ queued_at: 1 });
+
+export default mongoose.model('TimeChangeAlert', timeChangeAlertSchema);
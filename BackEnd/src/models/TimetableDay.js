@@ -0,0 +1,23 @@
+import mongoose from 'mongoose';
+
+// Prayer times for one specific date, created by importing a monthly timetable
+const timetableDaySchema = new mongoose.Schema({
+    mosque_id: { type: mongoose.Schema.Types.ObjectId, ref: 'Mosque', required: true },
+    date: { type: String, required: true }, // YYYY-MM-DD
+    prayer_times: {
+        fajr: { type: String },
+        dhuhr: { type: String },
+        asr: { type: String },
+        maghrib: { type: String },
+        isha: { type: String },
+        jummah: { type: String }
+    },
+    import_id: { type: String }, // Groups the days committed by a single import
+    imported_by: { type: mongoose.Schema.Types.ObjectId, ref: 'Admin' },
+    createdAt: { type: Date, default: Date.now },
+    updatedAt: { type: Date, default: Date.now }
+});
+
+timetableDaySchema.index({ mosque_id: 1, date: 1 }, { unique: true });
+
+export default mongoose.model('TimetableDay', timetableDaySchema);
@@ -3,7 +3,14 @@ import Admin from '../models/Admin.js';
 import Mosque from '../models/Mosque.js';
 import { auth } from '../middleware/auth.js';
 import AuditLogger from '../utils/auditLogger.js';
-import crypto from 'crypto';
+import {
+    generateVerificationCode,
+    normalizeVerificationCode,
+    hashVerificationCode,
+    getVerificationCodePrefix,
+    toStoredVerificationCode,
+    isVerificationCodeExpired
+} from '../utils/verificationCode.js';
 
 const router = express.Router();
 
@@ -139,26 +146,17 @@ router.post('/reapply', auth, async (req, res) => {
             });
         }
 
-        const normalizedCode = mosque_verification_code.trim().toUpperCase();
-        console.log('Searching for mosque with code:', normalizedCode);
+        const normalizedCode = normalizeVerificationCode(mosque_verification_code);
+        console.log('Searching for mosque with code prefix:', getVerificationCodePrefix(normalizedCode));
 
-        // Find mosque with matching verification code
+        // Find mosque with matching verification code (codes are stored as a keyed hash)
         const mosque = await Mosque.findOne({
-            verification_code: normalizedCode
+            verification_code_hash: hashVerificationCode(normalizedCode)
         });
 
         console.log('Mosque search result:', mosque ? `Found: ${mosque.name} (${mosque._id})` : 'NOT FOUND');
 
         if (!mosque) {
-            console.log('Invalid verification code attempted:', normalizedCode);
-
-            // Check if mosque exists at all for debugging
-            const allMosques = await Mosque.find({}, 'name verification_code').limit(5);
-            console.log('Sample mosques in database:', allMosques.map(m => ({
-                name: m.name,
-                code: m.verification_code
-            })));
-
             return res.status(404).json({
                 success: false,
                 error: 'Invalid verification code. Please verify the code with the mosque administration.',
@@ -166,10 +164,10 @@ router.post('/reapply', auth, async (req, res) => {
             });
         }
 
-        console.log('Mosque found:', { id: mosque._id, name: mosque.name, code: mosque.verification_code });
+        console.log('Mosque found:', { id: mosque._id, name: mosque.name, code_prefix: mosque.verification_code_prefix });
 
         // Check if verification code is expired
-        if (new Date() > mosque.verification_code_expires) {
+        if (isVerificationCodeExpired(mosque)) {
             console.log('Expired code:', { mosque: mosque.name, expired_on: mosque.verification_code_expires });
             return res.status(400).json({
                 success: false,
@@ -194,15 +192,15 @@ router.post('/reapply', auth, async (req, res) => {
             });
 
             // Security: Regenerate verification code since it was breached
-            const newCode = crypto.randomBytes(8).toString('hex').toUpperCase();
+            const newCode = generateVerificationCode();
             const expiryDate = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000); // 30 days
 
-            const oldCode = mosque.verification_code;
-            mosque.verification_code = newCode;
+            const oldCode = mosque.verification_code_prefix;
+            mosque.set(toStoredVerificationCode(newCode));
             mosque.verification_code_expires = expiryDate;
             await mosque.save();
 
-            console.log('Verification code regenerated for security:', { mosque: mosque.name, new_code: newCode });
+            console.log('Verification code regenerated for security:', { mosque: mosque.name, new_code_prefix: mosque.verification_code_prefix });
 
             // Log the verification code regeneration due to security breach
             try {
@@ -224,8 +222,8 @@ router.post('/reapply', auth, async (req, res) => {
                         admin_name: admin.name,
                         admin_email: admin.email,
                         mosque_name: mosque.name,
-                        old_code: oldCode,
-                        new_code: newCode,
+                        old_code_prefix: oldCode,
+                        new_code_prefix: mosque.verification_code_prefix,
                         reason: 'Mosque already has an admin - code regenerated for security'
                     }
                 });
@@ -260,7 +258,7 @@ router.post('/reapply', auth, async (req, res) => {
         }
 
         admin.mosque_id = mosque._id;
-        admin.verification_code_used = mosque_verification_code.trim().toUpperCase();
+        admin.verification_code_used = mosque.verification_code_prefix;
         admin.application_notes = application_notes || 'Reapplying for mosque admin position';
         admin.status = 'pending'; // Reset to pending
         admin.can_reapply = false; // Reset reapply flag
@@ -1,21 +1,112 @@
 import express from 'express';
+import mongoose from 'mongoose';
 import bcrypt from 'bcrypt';
 import jwt from 'jsonwebtoken';
 import Admin from '../models/Admin.js';
 import SuperAdmin from '../models/SuperAdmin.js';
+import Congregant from '../models/Congregant.js';
 import Mosque from '../models/Mosque.js';
-import { auth, requireSuperAdmin } from '../middleware/auth.js';
+import { auth, requireSuperAdmin, requireStepUp } from '../middleware/auth.js';
+import { rateLimit } from '../middleware/rateLimit.js';
+import {
+    REFRESH_COOKIE,
+    startSession,
+    rotateSession,
+    signAccessToken,
+    setSessionCookies,
+    clearSessionCookies,
+    revokeSession,
+    revokeSessionByRefreshToken,
+    revokeUserSessions,
+    listUserSessions,
+    revokeUserSession,
+    markStepUp,
+    hasRecentStepUp
+} from '../utils/sessions.js';
+import {
+    generateTotpSecret,
+    verifyTotp,
+    buildOtpauthUrl,
+    encryptSecret,
+    decryptSecret,
+    hashRecoveryCode,
+    generateRecoveryCodes
+} from '../utils/totp.js';
+import { getAccess } from '../utils/permissions.js';
+import { getMembership } from '../utils/mosqueRoles.js';
+import { hashInvitationToken, isInvitationOpen } from '../utils/invitations.js';
+import { validateName, validatePhone, validatePassword, validateApplicationNotes } from '../utils/validators.js';
+import MosqueInvitation from '../models/MosqueInvitation.js';
+import { documentUpload } from '../middleware/documentUpload.js';
+import {
+    MAX_DOCUMENTS_PER_APPLICATION,
+    MAX_INFO_MESSAGE_LENGTH,
+    readDocumentUploads,
+    storeApplicationDocuments,
+    toDocumentResponse,
+    getOpenInfoRequest,
+    toInfoRequestResponse
+} from '../utils/applicationDocuments.js';
+import QRCode from 'qrcode';
 import AuditLogger from '../utils/auditLogger.js';
+import {
+    hashVerificationCode,
+    getVerificationCodePrefix,
+    verificationHashesMatch,
+    verifyMosqueCode,
+    isVerificationCodeExpired
+} from '../utils/verificationCode.js';
 import crypto from 'crypto';
 import PasswordReset from '../../models/PasswordReset.js';
-import { sendPasswordResetEmail, sendRegistrationEmail } from '../../services/mailService.js';
+import { buildPasswordResetEmail, buildRegistrationEmail } from '../../services/mailService.js';
+import { queueEmail, deliverNotification } from '../utils/notifications.js';
 import PendingVerification from '../../models/PendingVerification.js';
+import { NOTIFICATION_LOCALES, resolveLocale } from '../../services/notificationTemplates.js';
 import fs from 'fs';
 
 const router = express.Router();
 
+// Session user_type of a signed-in user, from their access token's role
+const sessionUserType = (user) => (['super_admin', 'congregant'].includes(user.role) ? user.role : 'admin');
+
+// Time allowed between the password step and the authenticator code step of a super admin login
+const TWO_FACTOR_CHALLENGE_TTL = '5m';
+
+/**
+ * Check an authenticator code or an unused recovery code against a super admin with 2FA enabled.
+ * Accepted codes are burnt so they can't be replayed.
+ * @returns {Promise<{method: string, recoveryCodesRemaining: number}|null>}
+ */
+const checkSecondFactor = async (superAdmin, code) => {
+    const twoFactor = superAdmin.two_factor;
+    if (!twoFactor?.enabled || !code) return null;
+
+    const step = verifyTotp(decryptSecret(twoFactor.secret), code, twoFactor.last_used_step);
+    if (step !== null) {
+        twoFactor.last_used_step = step;
+        await superAdmin.save();
+        return { method: 'totp', recoveryCodesRemaining: twoFactor.recovery_codes.filter(c => !c.used_at).length };
+    }
+
+    const hash = hashRecoveryCode(code);
+    const recoveryCode = twoFactor.recovery_codes.find(c => !c.used_at && c.hash === hash);
+    if (recoveryCode) {
+        recoveryCode.used_at = new Date();
+        await superAdmin.save();
+        return { method: 'recovery_code', recoveryCodesRemaining: twoFactor.recovery_codes.filter(c => !c.used_at).length };
+    }
+
+    return null;
+};
+
+const twoFactorStatus = (superAdmin) => ({
+    enabled: !!superAdmin.two_factor?.enabled,
+    enabled_at: superAdmin.two_factor?.enabled_at || null,
+    recovery_codes_remaining: (superAdmin.two_factor?.recovery_codes || []).filter(c => !c.used_at).length
+});
+
 // Admin Login
-router.post('/admin/login', async (req, res) => {
+router.post('/admin/login', rateLimit('admin_login'), async (req, res) => {
     try {
         const { email, password } = req.body;
 
@@ -40,9 +131,11 @@ router.post('/admin/login', async (req, res) => {
 
         const admin = await Admin.findOne({ email: email.trim().toLowerCase() });
         if (!admin) {
+            const attempt = await req.rateLimit.fail();
             return res.status(401).json({
                 error: 'Invalid credentials',
-                code: 'INVALID_CREDENTIALS'
+                code: 'INVALID_CREDENTIALS',
+                ...attempt
             });
         }
 
@@ -55,20 +148,19 @@ router.post('/admin/login', async (req, res) => {
 
         const isMatch = await bcrypt.compare(password, admin.password);
         if (!isMatch) {
+            const attempt = await req.rateLimit.fail();
             return res.status(401).json({
                 error: 'Invalid credentials',
-                code: 'INVALID_CREDENTIALS'
+                code: 'INVALID_CREDENTIALS',
+                ...attempt
             });
         }
+        await req.rateLimit.succeed();
 
         // Check admin status - Issue LIMITED tokens for rejected/pending/mosque_deleted to allow status page access
         if (admin.status === 'rejected') {
-            // Issue a limited token for status page access only
-            const limitedToken = jwt.sign(
-                { userId: admin._id.toString(), role: 'admin', status: 'rejected', limited: true },
-                process.env.JWT_SECRET,
-                { expiresIn: '7d' } // 7 days to allow reapplication
-            );
+            // Issue a limited session for status page access only
+            const { token: limitedToken, refresh_token } = await startSession(req, res, admin, 'admin');
 
             console.log('REJECTED LOGIN - Admin ID:', admin._id.toString());
             console.log('REJECTED LOGIN - Token generated for userId:', admin._id.toString());
@@ -78,6 +170,7 @@ router.post('/admin/login', async (req, res) => {
                 code: 'ACCOUNT_REJECTED',
                 status: 'rejected',
                 token: limitedToken, // Provide token for status page access
+                refresh_token,
                 admin: {
                     _id: admin._id.toString(),
                     name: admin.name,
@@ -97,12 +190,8 @@ router.post('/admin/login', async (req, res) => {
         }
 
         if (admin.status === 'mosque_deleted') {
-            // Issue a limited token for status page access only
-            const limitedToken = jwt.sign(
-                { userId: admin._id.toString(), role: 'admin', status: 'mosque_deleted', limited: true },
-                process.env.JWT_SECRET,
-                { expiresIn: '30d' } // 30 days to allow reapplication
-            );
+            // Issue a limited session for status page access only
+            const { token: limitedToken, refresh_token } = await startSession(req, res, admin, 'admin');
 
             console.log('MOSQUE DELETED LOGIN - Admin ID:', admin._id.toString());
             console.log('MOSQUE DELETED LOGIN - Token generated for userId:', admin._id.toString());
@@ -112,6 +201,7 @@ router.post('/admin/login', async (req, res) => {
                 code: 'MOSQUE_DELETED',
                 status: 'mosque_deleted',
                 token: limitedToken, // Provide token for status page access
+                refresh_token,
                 admin: {
                     _id: admin._id.toString(),
                     name: admin.name,
@@ -132,12 +222,8 @@ router.post('/admin/login', async (req, res) => {
         }
 
         if (admin.status === 'admin_removed') {
-            // Issue a limited token for status page access only
-            const limitedToken = jwt.sign(
-                { userId: admin._id.toString(), role: 'admin', status: 'admin_removed', limited: true },
-                process.env.JWT_SECRET,
-                { expiresIn: '30d' } // 30 days to allow reapplication
-            );
+            // Issue a limited session for status page access only
+            const { token: limitedToken, refresh_token } = await startSession(req, res, admin, 'admin');
 
             console.log('ADMIN REMOVED LOGIN - Admin ID:', admin._id.toString());
             console.log('ADMIN REMOVED LOGIN - Token generated for userId:', admin._id.toString());
@@ -147,6 +233,7 @@ router.post('/admin/login', async (req, res) => {
                 code: 'ADMIN_REMOVED',
                 status: 'admin_removed',
                 token: limitedToken, // Provide token for status page access
+                refresh_token,
                 admin: {
                     _id: admin._id.toString(),
                     name: admin.name,
@@ -171,18 +258,15 @@ router.post('/admin/login', async (req, res) => {
 
             // For code_regenerated admins, mosque code is required
             if (!mosque_code) {
-                // Issue a limited token for status page access only
-                const limitedToken = jwt.sign(
-                    { userId: admin._id.toString(), role: 'admin', status: 'code_regenerated', limited: true },
-                    process.env.JWT_SECRET,
-                    { expiresIn: '30d' } // 30 days to allow access
-                );
+                // Issue a limited session for status page access only
+                const { token: limitedToken, refresh_token } = await startSession(req, res, admin, 'admin');
 
                 return res.status(403).json({
                     error: 'Mosque verification code is required',
                     code: 'CODE_REGENERATED_NEEDS_CODE',
                     status: 'code_regenerated',
                     token: limitedToken,
+                    refresh_token,
                     admin: {
                         _id: admin._id.toString(),
                         name: admin.name,
@@ -202,16 +286,18 @@ router.post('/admin/login', async (req, res) => {
             }
 
             // Validate the mosque code
-            const mosque = await Mosque.findById(admin.mosque_id);
-            if (!mosque || mosque.verification_code !== mosque_code.trim().toUpperCase()) {
+            const mosque = await Mosque.findById(admin.mosque_id).select('+verification_code_hash');
+            if (!mosque || !verifyMosqueCode(mosque, mosque_code)) {
+                const attempt = await req.rateLimit.fail();
                 return res.status(401).json({
                     error: 'Invalid mosque verification code',
-                    code: 'INVALID_MOSQUE_CODE'
+                    code: 'INVALID_MOSQUE_CODE',
+                    ...attempt
                 });
             }
 
             // Check if the mosque code has expired
-            if (mosque.verification_code_expires && new Date() > mosque.verification_code_expires) {
+            if (isVerificationCodeExpired(mosque)) {
                 return res.status(401).json({
                     error: 'Mosque verification code has expired',
                     code: 'EXPIRED_MOSQUE_CODE'
@@ -245,12 +331,8 @@ router.post('/admin/login', async (req, res) => {
         }
 
         if (admin.status === 'pending') {
-            // Issue a limited token for status page access only
-            const limitedToken = jwt.sign(
-                { userId: admin._id.toString(), role: 'admin', status: 'pending', limited: true },
-                process.env.JWT_SECRET,
-                { expiresIn: '7d' } // 7 days validity
-            );
+            // Issue a limited session for status page access only
+            const { token: limitedToken, refresh_token } = await startSession(req, res, admin, 'admin');
 
             console.log('PENDING LOGIN - Admin ID:', admin._id.toString());
             console.log('PENDING LOGIN - Token generated for userId:', admin._id.toString());
@@ -260,6 +342,7 @@ router.post('/admin/login', async (req, res) => {
                 code: 'PENDING_APPROVAL',
                 status: 'pending',
                 token: limitedToken, // Provide token for status page access
+                refresh_token,
                 admin: {
                     _id: admin._id.toString(),
                     name: admin.name,
@@ -279,19 +362,8 @@ router.post('/admin/login', async (req, res) => {
             });
         }
 
-        const token = jwt.sign(
-            { userId: admin._id, role: 'admin', mosque_id: admin.mosque_id, name: admin.name, email: admin.email },
-            process.env.JWT_SECRET,
-            { expiresIn: '24h' }
-        );
-
-        // Set cookie with token
-        res.cookie('token', token, {
-            httpOnly: true,
-            secure: process.env.NODE_ENV === 'production',
-            maxAge: 24 * 60 * 60 * 1000, // 24 hours
-            sameSite: 'strict'
-        });
+        // Short-lived access token plus a rotating refresh token, both also set as cookies
+        const { token, refresh_token } = await startSession(req, res, admin, 'admin');
 
         // Log the admin login
         const auditLogger = new AuditLogger(req);
@@ -300,12 +372,14 @@ router.post('/admin/login', async (req, res) => {
         res.json({
             message: 'Admin login successful',
             token,
+            refresh_token,
             admin: {
                 id: admin._id,
                 name: admin.name,
                 email: admin.email,
                 phone: admin.phone,
-                mosque_id: admin.mosque_id
+                mosque_id: admin.mosque_id,
+                mosque_role: getMembership(admin).role
             }
         });
     } catch (err) {
@@ -318,9 +392,9 @@ router.post('/admin/login', async (req, res) => {
 });
 
 // Admin Register with verification code
-router.post('/admin/register', async (req, res) => {
+router.post('/admin/register', documentUpload, async (req, res) => {
     try {
-        const { name, email, password, phone, mosque_id, verification_code, application_notes } = req.body;
+        const { name, email, password, phone, mosque_id, verification_code, application_notes, preferred_language } = req.body;
 
         // Validate required fields
         if (!name || !email || !password || !phone || !mosque_id || !verification_code) {
@@ -403,6 +477,15 @@ router.post('/admin/register', async (req, res) => {
             });
         }
 
+        // Supporting documents are optional but must be genuine PDFs or images
+        const { documents, error: documentError } = readDocumentUploads(req.files, req.body.document_kinds);
+        if (documentError) {
+            return res.status(400).json({
+                error: documentError,
+                code: 'INVALID_DOCUMENT'
+            });
+        }
+
         // Check if admin already exists with this email
         const existingAdmin = await Admin.findOne({ email: email.toLowerCase().trim() });
         if (existingAdmin) {
@@ -454,7 +537,7 @@ router.post('/admin/register', async (req, res) => {
         }
 
         // Check if mosque exists and verify code
-        const mosque = await Mosque.findById(mosque_id);
+        const mosque = await Mosque.findById(mosque_id).select('+verification_code_hash');
         if (!mosque) {
             return res.status(404).json({
                 error: 'Mosque not found',
@@ -463,7 +546,7 @@ router.post('/admin/register', async (req, res) => {
         }
 
         // Verify the mosque verification code
-        if (mosque.verification_code !== verification_code) {
+        if (!verifyMosqueCode(mosque, verification_code)) {
             return res.status(400).json({
                 error: 'Invalid verification code for this mosque',
                 message: 'Contact the mosque management to get the correct verification code',
@@ -472,7 +555,7 @@ router.post('/admin/register', async (req, res) => {
         }
 
         // Check if verification code is expired
-        if (new Date() > mosque.verification_code_expires) {
+        if (isVerificationCodeExpired(mosque)) {
             return res.status(400).json({
                 error: 'Verification code has expired',
                 message: 'The verification code for this mosque has expired. Please contact the mosque management for a new code.',
@@ -521,31 +604,26 @@ router.post('/admin/register', async (req, res) => {
             phone: phone.trim(),
             password: hashedPassword,
             mosque_id: mosque_id,
-            mosque_verification_code: verification_code,
+            mosque_verification_code_hash: hashVerificationCode(verification_code),
             verification_code: verificationCode,
             expiresAt: expiresAt,
-            application_notes: application_notes ? application_notes.trim() : ''
+            application_notes: application_notes ? application_notes.trim() : '',
+            preferred_language: resolveLocale(preferred_language),
+            documents
         });
 
         await pendingVerification.save();
 
-        // Send verification email
-        try {
-            await sendRegistrationEmail(
-                email.trim().toLowerCase(),
-                name.trim(),
-                verificationCode,
-                'admin'
-            );
-        } catch (emailError) {
-            console.error('Email sending failed:', emailError);
-            // Clean up the pending verification record if email fails
-            await PendingVerification.findByIdAndDelete(pendingVerification._id);
-            return res.status(500).json({
-                error: 'Failed to send verification email. Please try again.',
-                code: 'EMAIL_SEND_FAILED'
-            });
-        }
+        // Send verification email - a failed attempt stays in the outbox and is retried until the code expires
+        const verificationEmail = await queueEmail({
+            event: 'registration_code',
+            to: email.trim().toLowerCase(),
+            name: name.trim(),
+            ...buildRegistrationEmail(name.trim(), verificationCode, 'admin'),
+            expiresAt,
+            containsSecret: true
+        });
+        const emailDelayed = verificationEmail.status !== 'sent';
 
         // Log the registration attempt
         const auditLogger = new AuditLogger(req);
@@ -561,7 +639,10 @@ router.post('/admin/register', async (req, res) => {
         });
 
         res.status(200).json({
-            message: 'Verification code sent to your email. Please check your email and enter the code to complete registration.',
+            message: emailDelayed
+                ? 'Your details are saved, but the verification email is taking longer than usual. It will arrive within a few minutes - enter the code from it to complete registration.'
+                : 'Verification code sent to your email. Please check your email and enter the code to complete registration.',
+            email_delayed: emailDelayed,
             email: email.trim().toLowerCase(),
             userType: 'admin',
             expiresIn: 15, // minutes
@@ -613,8 +694,308 @@ router.get('/mosque/:id/verification-info', async (req, res) => {
     } catch (err) {
         res.status(500).json({ error: 'Server error' });
     }
-});// Super Admin Login
-router.post('/superadmin/login', async (req, res) => {
+});
+
+// Loads the invitation behind a link, answering with why it can no longer be used
+const findOpenInvitation = async (token, res) => {
+    const invitation = await MosqueInvitation.findOne({ token_hash: hashInvitationToken(token) })
+        .populate('mosque_id', 'name location')
+        .populate('invited_by', 'name')
+        .populate('invited_by_super_admin', 'name');
+
+    if (!invitation || !invitation.mosque_id) {
+        res.status(404).json({ error: 'This invitation link is not valid', code: 'INVITATION_NOT_FOUND' });
+        return null;
+    }
+    if (!isInvitationOpen(invitation)) {
+        const code = invitation.accepted_at ? 'INVITATION_USED' : invitation.revoked_at ? 'INVITATION_REVOKED' : 'INVITATION_EXPIRED';
+        const messages = {
+            INVITATION_USED: 'This invitation has already been accepted',
+            INVITATION_REVOKED: 'This invitation was withdrawn. Ask whoever invited you for a new one.',
+            INVITATION_EXPIRED: 'This invitation has expired. Ask whoever invited you for a new one.'
+        };
+        res.status(410).json({ error: messages[code], code });
+        return null;
+    }
+    return invitation;
+};
+
+// Answers for links used on the wrong endpoint, e.g. an application invitation posted to accept
+const wrongInvitationPurpose = (res) => res.status(400).json({
+    error: 'This invitation cannot be used here',
+    code: 'WRONG_INVITATION_TYPE'
+});
+
+// Invitation details for the accept page and the invited application form (public endpoint)
+// The first view marks the invitation as opened
+router.get('/admin/invitations/:token', async (req, res) => {
+    try {
+        const invitation = await findOpenInvitation(req.params.token, res);
+        if (!invitation) return;
+
+        if (!invitation.opened_at) {
+            await MosqueInvitation.updateOne(
+                { _id: invitation._id, opened_at: null },
+                { $set: { opened_at: new Date() } }
+            );
+        }
+
+        const existingAdmin = await Admin.exists({ email: invitation.email });
+        const membership = getMembership(invitation);
+
+        res.json({
+            invitation: {
+                email: invitation.email,
+                purpose: invitation.purpose,
+                mosque: {
+                    id: invitation.mosque_id._id,
+                    name: invitation.mosque_id.name,
+                    location: invitation.mosque_id.location
+                },
+                mosque_role: membership.role,
+                role_label: membership.role_label,
+                invited_by: invitation.invited_by?.name || invitation.invited_by_super_admin?.name || null,
+                expires_at: invitation.expires_at,
+                // Existing accounts sign in with their password instead of creating a new one
+                has_account: !!existingAdmin
+            }
+        });
+    } catch (err) {
+        console.error('Error fetching invitation:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
+// Accept a mosque team invitation
+// New admins give a name, phone and password; an admin whose account is no longer attached to a mosque
+// confirms their password instead. Either way they are approved straight away and signed in.
+router.post('/admin/invitations/:token/accept', rateLimit('accept_invitation'), async (req, res) => {
+    try {
+        const invitation = await findOpenInvitation(req.params.token, res);
+        if (!invitation) return;
+        if (invitation.purpose === 'application') return wrongInvitationPurpose(res);
+
+        const { name, phone, password } = req.body;
+        let admin = await Admin.findOne({ email: invitation.email });
+
+        if (admin) {
+            if (!password || !(await bcrypt.compare(password, admin.password))) {
+                const attempt = await req.rateLimit.fail();
+                return res.status(401).json({ error: 'Incorrect password', code: 'INVALID_CREDENTIALS', ...attempt });
+            }
+            if (['approved', 'pending'].includes(admin.status)) {
+                return res.status(409).json({
+                    error: 'Your account already manages or has applied for a mosque',
+                    code: 'ACCOUNT_IN_USE'
+                });
+            }
+        } else {
+            const nameValidation = validateName(name);
+            if (!nameValidation.valid) {
+                return res.status(400).json({ error: nameValidation.error, code: 'INVALID_NAME' });
+            }
+            const phoneValidation = validatePhone(phone, true);
+            if (!phoneValidation.valid) {
+                return res.status(400).json({ error: phoneValidation.error, code: 'INVALID_PHONE' });
+            }
+            const passwordValidation = validatePassword(password);
+            if (!passwordValidation.valid) {
+                return res.status(400).json({ error: passwordValidation.error, code: 'INVALID_PASSWORD' });
+            }
+            if (await Admin.exists({ phone: phone.trim() })) {
+                return res.status(409).json({
+                    error: 'An admin with this phone number already exists',
+                    code: 'DUPLICATE_PHONE'
+                });
+            }
+        }
+        await req.rateLimit.succeed();
+
+        // Claim the invitation before touching the account so a link can only be used once
+        const claimed = await MosqueInvitation.findOneAndUpdate(
+            { _id: invitation._id, accepted_at: null, revoked_at: null },
+            { $set: { accepted_at: new Date() } }
+        );
+        if (!claimed) {
+            return res.status(410).json({ error: 'This invitation has already been accepted', code: 'INVITATION_USED' });
+        }
+
+        const membership = {
+            status: 'approved',
+            mosque_id: invitation.mosque_id._id,
+            mosque_role: invitation.mosque_role,
+            invited_by: invitation.invited_by?._id || null,
+            verification_code_used: null,
+            approved_at: new Date()
+        };
+
+        try {
+            if (admin) {
+                admin.set(membership);
+                await admin.save();
+            } else {
+                admin = await Admin.create({
+                    name: name.trim(),
+                    email: invitation.email,
+                    phone: phone.trim(),
+                    password: await bcrypt.hash(password, 10),
+                    ...membership
+                });
+            }
+        } catch (saveError) {
+            await MosqueInvitation.findByIdAndUpdate(invitation._id, { $set: { accepted_at: null } });
+            throw saveError;
+        }
+
+        await MosqueInvitation.findByIdAndUpdate(invitation._id, { $set: { accepted_admin_id: admin._id } });
+
+        const { token, refresh_token } = await startSession(req, res, admin, 'admin');
+
+        const auditLogger = new AuditLogger(req);
+        await auditLogger.logMosqueMemberJoined(admin, invitation.mosque_id, getMembership(admin).role_label);
+
+        res.status(201).json({
+            message: `Welcome to the ${invitation.mosque_id.name} team`,
+            token,
+            refresh_token,
+            admin: {
+                id: admin._id,
+                name: admin.name,
+                email: admin.email,
+                phone: admin.phone,
+                mosque_id: admin.mosque_id,
+                mosque_role: getMembership(admin).role
+            }
+        });
+    } catch (err) {
+        console.error('Error accepting invitation:', err);
+        if (err.code === 11000) {
+            return res.status(409).json({
+                error: 'An admin with this information already exists',
+                code: 'DUPLICATE_ENTRY'
+            });
+        }
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
+// Apply for a mosque through a super admin's invitation
+// The link stands in for the mosque verification code and proves the email address, so the application
+// goes straight to review without the code or the email verification step.
+router.post('/admin/invitations/:token/apply', rateLimit('accept_invitation'), documentUpload, async (req, res) => {
+    try {
+        const invitation = await findOpenInvitation(req.params.token, res);
+        if (!invitation) return;
+        if (invitation.purpose !== 'application') return wrongInvitationPurpose(res);
+
+        const { name, phone, password, application_notes, preferred_language } = req.body;
+
+        const nameValidation = validateName(name);
+        if (!nameValidation.valid) {
+            return res.status(400).json({ error: nameValidation.error, code: 'INVALID_NAME' });
+        }
+        const phoneValidation = validatePhone(phone, true);
+        if (!phoneValidation.valid) {
+            return res.status(400).json({ error: phoneValidation.error, code: 'INVALID_PHONE' });
+        }
+        const passwordValidation = validatePassword(password);
+        if (!passwordValidation.valid) {
+            return res.status(400).json({ error: passwordValidation.error, code: 'INVALID_PASSWORD' });
+        }
+        const notesValidation = validateApplicationNotes(application_notes);
+        if (!notesValidation.valid) {
+            return res.status(400).json({ error: notesValidation.error, code: 'INVALID_NOTES_LENGTH' });
+        }
+        const { documents, error: documentError } = readDocumentUploads(req.files, req.body.document_kinds);
+        if (documentError) {
+            return res.status(400).json({ error: documentError, code: 'INVALID_DOCUMENT' });
+        }
+
+        if (await Admin.exists({ email: invitation.email })) {
+            return res.status(409).json({
+                error: 'An admin account with this email already exists. Sign in to reapply instead.',
+                code: 'DUPLICATE_EMAIL'
+            });
+        }
+        if (await Admin.exists({ phone: phone.trim() })) {
+            return res.status(409).json({
+                error: 'An admin with this phone number already exists',
+                code: 'DUPLICATE_PHONE'
+            });
+        }
+
+        const existingMosqueAdmin = await Admin.findOne({
+            mosque_id: invitation.mosque_id._id,
+            status: { $in: ['approved', 'pending'] }
+        });
+        if (existingMosqueAdmin) {
+            return res.status(400).json({
+                error: 'This mosque already has an admin or a pending admin request',
+                mosque_admin_status: existingMosqueAdmin.status,
+                code: 'ADMIN_ALREADY_EXISTS'
+            });
+        }
+
+        const claimed = await MosqueInvitation.findOneAndUpdate(
+            { _id: invitation._id, accepted_at: null, revoked_at: null },
+            { $set: { accepted_at: new Date() } }
+        );
+        if (!claimed) {
+            return res.status(410).json({ error: 'This invitation has already been accepted', code: 'INVITATION_USED' });
+        }
+
+        let admin;
+        try {
+            admin = new Admin({
+                name: name.trim(),
+                email: invitation.email,
+                phone: phone.trim(),
+                password: await bcrypt.hash(password, 10),
+                mosque_id: invitation.mosque_id._id,
+                status: 'pending',
+                mosque_role: invitation.mosque_role,
+                application_invitation_id: invitation._id,
+                application_notes: application_notes ? application_notes.trim() : '',
+                preferred_language: resolveLocale(preferred_language)
+            });
+            admin.application_documents = await storeApplicationDocuments(admin._id, documents);
+            await admin.save();
+        } catch (saveError) {
+            await MosqueInvitation.findByIdAndUpdate(invitation._id, { $set: { accepted_at: null } });
+            throw saveError;
+        }
+
+        await MosqueInvitation.findByIdAndUpdate(invitation._id, { $set: { accepted_admin_id: admin._id } });
+
+        const auditLogger = new AuditLogger(req);
+        await auditLogger.logAdminRegistered(admin, invitation.mosque_id);
+
+        res.status(201).json({
+            message: 'Application submitted. Waiting for super admin approval.',
+            userType: 'admin',
+            admin: {
+                id: admin._id,
+                name: admin.name,
+                email: admin.email,
+                phone: admin.phone,
+                status: admin.status,
+                mosque: invitation.mosque_id
+            }
+        });
+    } catch (err) {
+        console.error('Error applying with invitation:', err);
+        if (err.code === 11000) {
+            return res.status(409).json({
+                error: 'An admin with this information already exists',
+                code: 'DUPLICATE_ENTRY'
+            });
+        }
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
+// Super Admin Login
+router.post('/superadmin/login', rateLimit('superadmin_login'), async (req, res) => {
     try {
         const { email, password } = req.body;
         const allowedDomainsRegex = /^[a-zA-Z0-9._%+-]+@(gmail\.com|outlook\.com|yahoo\.com|hotmail\.com)$/i;
@@ -624,19 +1005,28 @@ router.post('/superadmin/login', async (req, res) => {
             return res.status(400).json({ error: 'Incorrect email format' });
         }
         const superAdmin = await SuperAdmin.findOne({ email });
-        if (!superAdmin) return res.status(401).json({ error: 'Invalid credentials' });
-        const isMatch = await bcrypt.compare(password, superAdmin.password);
-        if (!isMatch) return res.status(401).json({ error: 'Invalid credentials' });
-
-        const token = jwt.sign({ userId: superAdmin._id, role: 'super_admin', name: superAdmin.name, email: superAdmin.email }, process.env.JWT_SECRET, { expiresIn: '24h' });
-
-        // Set cookie with token
-        res.cookie('token', token, {
-            httpOnly: true,
-            secure: process.env.NODE_ENV === 'production',
-            maxAge: 24 * 60 * 60 * 1000, // 24 hours
-            sameSite: 'strict'
-        });
+        const isMatch = superAdmin ? await bcrypt.compare(password, superAdmin.password) : false;
+        if (!isMatch) {
+            const attempt = await req.rateLimit.fail();
+            return res.status(401).json({ error: 'Invalid credentials', code: 'INVALID_CREDENTIALS', ...attempt });
+        }
+        await req.rateLimit.succeed();
+
+        // Password is right, but the session only starts once the authenticator code is checked
+        if (superAdmin.two_factor?.enabled) {
+            const challengeToken = jwt.sign(
+                { userId: superAdmin._id, purpose: 'two_factor_login' },
+                process.env.JWT_SECRET,
+                { expiresIn: TWO_FACTOR_CHALLENGE_TTL }
+            );
+            return res.json({
+                message: 'Enter the code from your authenticator app',
+                two_factor_required: true,
+                challenge_token: challengeToken
+            });
+        }
+
+        const { token, refresh_token } = await startSession(req, res, superAdmin, 'super_admin');
 
         // Log the super admin login
         const auditLogger = new AuditLogger(req);
@@ -645,6 +1035,7 @@ router.post('/superadmin/login', async (req, res) => {
         res.json({
             message: 'Super admin login successful',
             token,
+            refresh_token,
             super_admin: { id: superAdmin._id, email }
         });
     } catch (err) {
@@ -652,6 +1043,228 @@ router.post('/superadmin/login', async (req, res) => {
     }
 });
 
+// Super Admin Login - second step for accounts with two-factor authentication
+router.post('/superadmin/login/2fa', rateLimit('superadmin_two_factor'), async (req, res) => {
+    try {
+        const { challenge_token, code } = req.body;
+
+        let challenge;
+        try {
+            challenge = jwt.verify(String(challenge_token || ''), process.env.JWT_SECRET);
+        } catch {
+            challenge = null;
+        }
+        if (!challenge || challenge.purpose !== 'two_factor_login') {
+            return res.status(401).json({
+                error: 'Your sign-in attempt has expired. Please enter your email and password again.',
+                code: 'TWO_FACTOR_CHALLENGE_EXPIRED'
+            });
+        }
+
+        const superAdmin = await SuperAdmin.findById(challenge.userId);
+        const result = superAdmin ? await checkSecondFactor(superAdmin, code) : null;
+        if (!result) {
+            const attempt = await req.rateLimit.fail();
+            return res.status(401).json({ error: 'Invalid authentication code', code: 'INVALID_TWO_FACTOR_CODE', ...attempt });
+        }
+        await req.rateLimit.succeed();
+
+        const { token, refresh_token } = await startSession(req, res, superAdmin, 'super_admin');
+
+        const auditLogger = new AuditLogger(req);
+        await auditLogger.logLogin({ id: superAdmin._id, email: superAdmin.email, name: superAdmin.name }, 'super_admin');
+
+        res.json({
+            message: 'Super admin login successful',
+            token,
+            refresh_token,
+            super_admin: { id: superAdmin._id, email: superAdmin.email },
+            ...(result.method === 'recovery_code' && { recovery_codes_remaining: result.recoveryCodesRemaining })
+        });
+    } catch (err) {
+        console.error('Super admin 2FA login error:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
+// Re-authenticate before a destructive action - authenticator/recovery code, or password without 2FA
+router.post('/superadmin/step-up', auth, requireSuperAdmin, rateLimit('step_up'), async (req, res) => {
+    try {
+        const superAdmin = await SuperAdmin.findById(req.user.userId);
+        if (!superAdmin) {
+            return res.status(404).json({ error: 'Super admin not found', code: 'SUPER_ADMIN_NOT_FOUND' });
+        }
+
+        const verified = superAdmin.two_factor?.enabled
+            ? !!(await checkSecondFactor(superAdmin, req.body.code))
+            : !!req.body.password && await bcrypt.compare(req.body.password, superAdmin.password);
+        if (!verified) {
+            const attempt = await req.rateLimit.fail();
+            // 400 rather than 401 - the session itself is fine
+            return res.status(400).json({
+                error: superAdmin.two_factor?.enabled ? 'Invalid authentication code' : 'Incorrect password',
+                code: 'STEP_UP_FAILED',
+                ...attempt
+            });
+        }
+        await req.rateLimit.succeed();
+
+        const expiresAt = await markStepUp(req.user.sid);
+        res.json({ success: true, step_up_expires_at: expiresAt });
+    } catch (err) {
+        console.error('Step-up error:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
+// Two-factor authentication status of the signed-in super admin
+router.get('/superadmin/2fa', auth, requireSuperAdmin, async (req, res) => {
+    try {
+        const superAdmin = await SuperAdmin.findById(req.user.userId);
+        if (!superAdmin) {
+            return res.status(404).json({ error: 'Super admin not found', code: 'SUPER_ADMIN_NOT_FOUND' });
+        }
+        res.json(twoFactorStatus(superAdmin));
+    } catch (err) {
+        console.error('2FA status error:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
+// Start enrollment - a new secret and its QR code; not active until confirmed with a code
+router.post('/superadmin/2fa/setup', auth, requireSuperAdmin, async (req, res) => {
+    try {
+        const superAdmin = await SuperAdmin.findById(req.user.userId);
+        if (!superAdmin) {
+            return res.status(404).json({ error: 'Super admin not found', code: 'SUPER_ADMIN_NOT_FOUND' });
+        }
+        if (superAdmin.two_factor?.enabled) {
+            return res.status(400).json({
+                error: 'Two-factor authentication is already enabled',
+                code: 'TWO_FACTOR_ALREADY_ENABLED'
+            });
+        }
+
+        const secret = generateTotpSecret();
+        superAdmin.two_factor.pending_secret = encryptSecret(secret);
+        await superAdmin.save();
+
+        const otpauthUrl = buildOtpauthUrl(secret, superAdmin.email);
+        res.json({
+            secret,
+            otpauth_url: otpauthUrl,
+            qr_code: await QRCode.toDataURL(otpauthUrl)
+        });
+    } catch (err) {
+        console.error('2FA setup error:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
+// Finish enrollment with the first code from the app; recovery codes are shown only in this response
+router.post('/superadmin/2fa/enable', auth, requireSuperAdmin, async (req, res) => {
+    try {
+        const superAdmin = await SuperAdmin.findById(req.user.userId);
+        if (!superAdmin) {
+            return res.status(404).json({ error: 'Super admin not found', code: 'SUPER_ADMIN_NOT_FOUND' });
+        }
+        if (superAdmin.two_factor?.enabled) {
+            return res.status(400).json({
+                error: 'Two-factor authentication is already enabled',
+                code: 'TWO_FACTOR_ALREADY_ENABLED'
+            });
+        }
+        if (!superAdmin.two_factor?.pending_secret) {
+            return res.status(400).json({
+                error: 'Start two-factor setup first',
+                code: 'TWO_FACTOR_SETUP_REQUIRED'
+            });
+        }
+
+        const step = verifyTotp(decryptSecret(superAdmin.two_factor.pending_secret), req.body.code);
+        if (step === null) {
+            return res.status(400).json({
+                error: 'Invalid authentication code. Check the time on your phone and try again.',
+                code: 'INVALID_TWO_FACTOR_CODE'
+            });
+        }
+
+        const recoveryCodes = generateRecoveryCodes();
+        superAdmin.two_factor = {
+            enabled: true,
+            secret: superAdmin.two_factor.pending_secret,
+            pending_secret: null,
+            last_used_step: step,
+            recovery_codes: recoveryCodes.map(code => ({ hash: hashRecoveryCode(code) })),
+            enabled_at: new Date()
+        };
+        await superAdmin.save();
+
+        // The code just entered counts as a re-authentication
+        await markStepUp(req.user.sid);
+
+        res.json({
+            message: 'Two-factor authentication enabled',
+            recovery_codes: recoveryCodes,
+            ...twoFactorStatus(superAdmin)
+        });
+    } catch (err) {
+        console.error('2FA enable error:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
+// Replace all recovery codes; the old ones stop working
+router.post('/superadmin/2fa/recovery-codes', auth, requireSuperAdmin, requireStepUp, async (req, res) => {
+    try {
+        const superAdmin = await SuperAdmin.findById(req.user.userId);
+        if (!superAdmin?.two_factor?.enabled) {
+            return res.status(400).json({
+                error: 'Two-factor authentication is not enabled',
+                code: 'TWO_FACTOR_NOT_ENABLED'
+            });
+        }
+
+        const recoveryCodes = generateRecoveryCodes();
+        superAdmin.two_factor.recovery_codes = recoveryCodes.map(code => ({ hash: hashRecoveryCode(code) }));
+        await superAdmin.save();
+
+        res.json({
+            message: 'New recovery codes generated',
+            recovery_codes: recoveryCodes,
+            ...twoFactorStatus(superAdmin)
+        });
+    } catch (err) {
+        console.error('2FA recovery codes error:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
+// Turn two-factor authentication off
+router.post('/superadmin/2fa/disable', auth, requireSuperAdmin, requireStepUp, async (req, res) => {
+    try {
+        const superAdmin = await SuperAdmin.findById(req.user.userId);
+        if (!superAdmin) {
+            return res.status(404).json({ error: 'Super admin not found', code: 'SUPER_ADMIN_NOT_FOUND' });
+        }
+
+        superAdmin.two_factor = {
+            enabled: false,
+            secret: null,
+            pending_secret: null,
+            last_used_step: null,
+            recovery_codes: [],
+            enabled_at: null
+        };
+        await superAdmin.save();
+
+        res.json({ message: 'Two-factor authentication disabled', ...twoFactorStatus(superAdmin) });
+    } catch (err) {
+        console.error('2FA disable error:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
 // Super Admin Register (for initial setup or existing super admin creating new ones)
 router.post('/superadmin/register', async (req, res) => {
     try {
@@ -693,6 +1306,22 @@ router.post('/superadmin/register', async (req, res) => {
                         code: 'UNAUTHORIZED_SUPER_ADMIN_CREATION'
                     });
                 }
+                if (!getAccess(superAdmin).permissions.includes('superadmins.manage')) {
+                    return res.status(403).json({
+                        error: 'Your role does not allow this action',
+                        code: 'PERMISSION_DENIED',
+                        permission: 'superadmins.manage'
+                    });
+                }
+
+                // Same re-authentication as /superadmin/create-superadmin
+                if (!(await hasRecentStepUp(decoded.sid))) {
+                    return res.status(403).json({
+                        error: 'Please confirm your identity to continue',
+                        code: 'STEP_UP_REQUIRED',
+                        method: superAdmin.two_factor?.enabled ? 'totp' : 'password'
+                    });
+                }
 
                 req.user = decoded; // Set user for audit logging
             } catch (tokenError) {
@@ -745,23 +1374,16 @@ router.post('/superadmin/register', async (req, res) => {
 
         await pendingVerification.save();
 
-        // Send verification email
-        try {
-            await sendRegistrationEmail(
-                email.trim().toLowerCase(),
-                name.trim(),
-                verificationCode,
-                'superadmin'
-            );
-        } catch (emailError) {
-            console.error('Email sending failed:', emailError);
-            // Clean up the pending verification record if email fails
-            await PendingVerification.findByIdAndDelete(pendingVerification._id);
-            return res.status(500).json({
-                error: 'Failed to send verification email. Please try again.',
-                code: 'EMAIL_SEND_FAILED'
-            });
-        }
+        // Send verification email - a failed attempt stays in the outbox and is retried until the code expires
+        const verificationEmail = await queueEmail({
+            event: 'registration_code',
+            to: email.trim().toLowerCase(),
+            name: name.trim(),
+            ...buildRegistrationEmail(name.trim(), verificationCode, 'superadmin'),
+            expiresAt,
+            containsSecret: true
+        });
+        const emailDelayed = verificationEmail.status !== 'sent';
 
         // Log the registration attempt
         try {
@@ -780,7 +1402,10 @@ router.post('/superadmin/register', async (req, res) => {
         }
 
         res.status(200).json({
-            message: 'Verification code sent to your email. Please check your email and enter the code to complete registration.',
+            message: emailDelayed
+                ? 'Your details are saved, but the verification email is taking longer than usual. It will arrive within a few minutes - enter the code from it to complete registration.'
+                : 'Verification code sent to your email. Please check your email and enter the code to complete registration.',
+            email_delayed: emailDelayed,
             email: email.trim().toLowerCase(),
             userType: 'superadmin',
             expiresIn: 15, // minutes
@@ -791,12 +1416,103 @@ router.post('/superadmin/register', async (req, res) => {
     }
 });
 
-// Logout endpoint - clear cookie
-router.post('/logout', (req, res) => {
-    res.clearCookie('token');
+// Exchange a refresh token for a new access token and refresh token
+router.post('/refresh', async (req, res) => {
+    try {
+        const result = await rotateSession(req, req.body?.refresh_token || req.cookies[REFRESH_COOKIE]);
+        if (result.error) {
+            clearSessionCookies(res);
+            return res.status(401).json({ error: result.error, code: result.code });
+        }
+
+        const { session, refreshToken } = result;
+        const UserModel = { admin: Admin, super_admin: SuperAdmin, congregant: Congregant }[session.user_type];
+        const user = await UserModel.findById(session.user_id);
+        if (!user) {
+            await revokeSession(session._id, 'user_deleted');
+            clearSessionCookies(res);
+            return res.status(401).json({
+                error: 'User account no longer exists',
+                code: 'USER_DELETED'
+            });
+        }
+
+        // Claims are rebuilt from the account's current state, so status changes apply on refresh
+        const token = signAccessToken(user, session.user_type, session);
+        setSessionCookies(res, token, refreshToken);
+
+        res.json({
+            token,
+            refresh_token: refreshToken,
+            user_type: session.user_type,
+            status: session.user_type === 'admin' ? user.status : undefined
+        });
+    } catch (err) {
+        console.error('Refresh token error:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
+// Logout endpoint - revoke the current session and clear cookies
+router.post('/logout', async (req, res) => {
+    try {
+        await revokeSessionByRefreshToken(req.body?.refresh_token || req.cookies[REFRESH_COOKIE], 'logout');
+    } catch (err) {
+        console.error('Logout session revoke error:', err);
+    }
+    clearSessionCookies(res);
     res.json({ message: 'Logout successful' });
 });
 
+// Log out everywhere - revoke every session of the signed-in user
+router.post('/logout-all', auth, async (req, res) => {
+    try {
+        const userType = sessionUserType(req.user);
+        const revoked = await revokeUserSessions(req.user.userId, userType, 'logout_all');
+        clearSessionCookies(res);
+        res.json({ message: 'Logged out of all devices', sessions_revoked: revoked });
+    } catch (err) {
+        console.error('Logout all error:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
+// Active sessions of the signed-in user
+router.get('/sessions', auth, async (req, res) => {
+    try {
+        const userType = sessionUserType(req.user);
+        const sessions = await listUserSessions(req.user.userId, userType, req.user.sid);
+        res.json({ sessions });
+    } catch (err) {
+        console.error('List sessions error:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
+// Revoke one of the signed-in user's sessions
+router.delete('/sessions/:id', auth, async (req, res) => {
+    try {
+        if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+            return res.status(400).json({ error: 'Invalid session ID', code: 'INVALID_SESSION_ID' });
+        }
+
+        const userType = sessionUserType(req.user);
+        const revoked = await revokeUserSession(req.user.userId, userType, req.params.id, 'revoked_by_user');
+        if (!revoked) {
+            return res.status(404).json({ error: 'Session not found', code: 'SESSION_NOT_FOUND' });
+        }
+
+        const current = req.params.id === req.user.sid;
+        if (current) {
+            clearSessionCookies(res);
+        }
+        res.json({ message: 'Session revoked', current });
+    } catch (err) {
+        console.error('Revoke session error:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
 // Request Reapplication - NEW (For rejected admins who are allowed to reapply)
 router.post('/admin/request-reapplication', auth, async (req, res) => {
     try {
@@ -846,7 +1562,7 @@ router.post('/admin/request-reapplication', auth, async (req, res) => {
         }
 
         // Verify mosque exists
-        const mosque = await Mosque.findById(mosque_id);
+        const mosque = await Mosque.findById(mosque_id).select('+verification_code_hash');
         if (!mosque) {
             return res.status(404).json({
                 error: 'Mosque not found',
@@ -855,7 +1571,7 @@ router.post('/admin/request-reapplication', auth, async (req, res) => {
         }
 
         // Verify the mosque verification code
-        if (mosque.verification_code !== new_verification_code) {
+        if (!verifyMosqueCode(mosque, new_verification_code)) {
             return res.status(400).json({
                 error: 'Invalid verification code for this mosque',
                 code: 'INVALID_VERIFICATION_CODE'
@@ -863,7 +1579,7 @@ router.post('/admin/request-reapplication', auth, async (req, res) => {
         }
 
         // Check if verification code is expired
-        if (new Date() > mosque.verification_code_expires) {
+        if (isVerificationCodeExpired(mosque)) {
             return res.status(400).json({
                 error: 'Verification code has expired',
                 code: 'EXPIRED_VERIFICATION_CODE'
@@ -923,7 +1639,7 @@ router.post('/admin/request-reapplication', auth, async (req, res) => {
         // Update admin to pending status with new mosque
         admin.status = 'pending';
         admin.mosque_id = mosque_id;
-        admin.verification_code_used = new_verification_code;
+        admin.verification_code_used = getVerificationCodePrefix(new_verification_code);
         admin.can_reapply = false; // Reset until next rejection
         admin.application_notes = `REAPPLICATION: ${reason_for_reapplication.trim()}`;
 
@@ -1013,6 +1729,8 @@ router.get('/admin/me', auth, async (req, res) => {
                 phone: admin.phone,
                 status: admin.status,
                 mosque: admin.mosque_id,
+                mosque_role: getMembership(admin).role,
+                preferred_language: admin.preferred_language,
                 rejection_info: admin.status === 'rejected' ? {
                     rejection_reason: admin.rejection_reason,
                     rejection_date: admin.rejection_date,
@@ -1040,6 +1758,11 @@ router.get('/admin/me', auth, async (req, res) => {
                     code_regenerated_mosque_location: admin.code_regenerated_mosque_location,
                     can_reapply: admin.can_reapply
                 } : null,
+                application_info: admin.status === 'pending' ? {
+                    documents: admin.application_documents.map(toDocumentResponse),
+                    info_requests: admin.info_requests.map(toInfoRequestResponse),
+                    awaiting_response: !!getOpenInfoRequest(admin)
+                } : null,
                 created_at: admin.createdAt
             }
         };
@@ -1057,8 +1780,97 @@ router.get('/admin/me', auth, async (req, res) => {
     }
 });
 
+// Answer a reviewer's request for more information, optionally with more documents
+router.post('/admin/application/respond', auth, documentUpload, async (req, res) => {
+    try {
+        const response = typeof req.body.response === 'string' ? req.body.response.trim() : '';
+
+        if (response.length < 2 || response.length > MAX_INFO_MESSAGE_LENGTH) {
+            return res.status(400).json({
+                error: `Response must be between 2 and ${MAX_INFO_MESSAGE_LENGTH} characters`,
+                code: 'INVALID_RESPONSE'
+            });
+        }
+
+        const { documents, error: documentError } = readDocumentUploads(req.files, req.body.document_kinds);
+        if (documentError) {
+            return res.status(400).json({ error: documentError, code: 'INVALID_DOCUMENT' });
+        }
+
+        const admin = await Admin.findById(req.user.userId).populate('mosque_id', 'name location');
+        if (!admin) {
+            return res.status(404).json({ error: 'Admin not found', code: 'ADMIN_NOT_FOUND' });
+        }
+
+        const infoRequest = admin.status === 'pending' ? getOpenInfoRequest(admin) : null;
+        if (!infoRequest) {
+            return res.status(400).json({
+                error: 'There is no open request for information on your application',
+                code: 'NO_INFO_REQUEST'
+            });
+        }
+        if (admin.application_documents.length + documents.length > MAX_DOCUMENTS_PER_APPLICATION) {
+            return res.status(400).json({
+                error: `An application can have at most ${MAX_DOCUMENTS_PER_APPLICATION} documents`,
+                code: 'TOO_MANY_DOCUMENTS'
+            });
+        }
+
+        admin.application_documents.push(...await storeApplicationDocuments(admin._id, documents));
+        infoRequest.response = response;
+        infoRequest.responded_at = new Date();
+        await admin.save();
+
+        const auditLogger = new AuditLogger(req);
+        await auditLogger.logAdminInfoProvided(admin, admin.mosque_id, response, documents.length);
+
+        res.json({
+            message: 'Thank you. Your application is back with the review team.',
+            application_info: {
+                documents: admin.application_documents.map(toDocumentResponse),
+                info_requests: admin.info_requests.map(toInfoRequestResponse),
+                awaiting_response: false
+            }
+        });
+    } catch (error) {
+        console.error('Error responding to information request:', error);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
+// Choose the language of the emails the admin receives
+router.put('/admin/preferences', auth, async (req, res) => {
+    try {
+        const { preferred_language } = req.body;
+
+        if (!NOTIFICATION_LOCALES.includes(preferred_language)) {
+            return res.status(400).json({
+                error: `Language must be one of: ${NOTIFICATION_LOCALES.join(', ')}`,
+                code: 'INVALID_LANGUAGE'
+            });
+        }
+
+        const admin = await Admin.findByIdAndUpdate(
+            req.user.userId,
+            { preferred_language },
+            { new: true }
+        ).select('preferred_language');
+        if (!admin) {
+            return res.status(404).json({ error: 'Admin not found', code: 'ADMIN_NOT_FOUND' });
+        }
+
+        res.json({
+            message: 'Email language updated',
+            preferred_language: admin.preferred_language
+        });
+    } catch (error) {
+        console.error('Error updating admin preferences:', error);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
 // Forgot Password Endpoint
-router.post('/forgot-password', async (req, res) => {
+router.post('/forgot-password', rateLimit('forgot_password'), async (req, res) => {
     try {
         const { email, userType } = req.body;
 
@@ -1110,9 +1922,11 @@ router.post('/forgot-password', async (req, res) => {
         if (!user) {
             // Security: Don't reveal if email exists or not
             console.log('DEBUG: Returning INVALID_CREDENTIALS - no user found');
+            const attempt = await req.rateLimit.fail();
             return res.status(400).json({
                 error: 'Invalid credentials',
-                code: 'INVALID_CREDENTIALS'
+                code: 'INVALID_CREDENTIALS',
+                ...attempt
             });
         }
 
@@ -1173,6 +1987,17 @@ router.post('/forgot-password', async (req, res) => {
         fs.writeFileSync('./last-reset-code.txt', code);
         console.log('📄 Code written to last-reset-code.txt:', code);
 
+        // Queue the email now so it survives this request; it is sent once the response is out
+        const resetEmail = await queueEmail({
+            event: 'password_reset',
+            to: email.toLowerCase().trim(),
+            name: user.name,
+            ...buildPasswordResetEmail(user.name, code, userType),
+            expiresAt,
+            containsSecret: true,
+            sendNow: false
+        });
+
         // Send response immediately to user
         res.json({
             message: 'If your email exists in our system, you will receive a password reset code within a few minutes. The code expires in 15 minutes.',
@@ -1185,8 +2010,8 @@ router.post('/forgot-password', async (req, res) => {
             }
         });
 
-        // Send email asynchronously (fire-and-forget)
-        sendPasswordResetEmail(email, user.name, code, userType)
+        // Send email asynchronously (fire-and-forget); a failed attempt is retried by the outbox worker
+        deliverNotification(resetEmail._id)
             .catch(err => {
                 console.error(`Failed to send password reset email to ${email}:`, err);
             });
@@ -1214,7 +2039,7 @@ router.post('/forgot-password', async (req, res) => {
 });
 
 // Verify Reset Code Endpoint
-router.post('/verify-reset-code', async (req, res) => {
+router.post('/verify-reset-code', rateLimit('verify_reset_code'), async (req, res) => {
     try {
         const { email, code, userType } = req.body;
 
@@ -1252,9 +2077,11 @@ router.post('/verify-reset-code', async (req, res) => {
         });
 
         if (!resetDoc) {
+            const attempt = await req.rateLimit.fail();
             return res.status(400).json({
                 error: 'Invalid or expired reset code',
-                code: 'INVALID_CODE'
+                code: 'INVALID_CODE',
+                ...attempt
             });
         }
 
@@ -1273,13 +2100,16 @@ router.post('/verify-reset-code', async (req, res) => {
             // Increment attempts
             resetDoc.attempts += 1;
             await resetDoc.save();
+            const attempt = await req.rateLimit.fail();
 
             return res.status(400).json({
                 error: 'Invalid reset code',
                 code: 'INVALID_CODE',
-                attemptsRemaining: 5 - resetDoc.attempts
+                attemptsRemaining: 5 - resetDoc.attempts,
+                ...attempt
             });
         }
+        await req.rateLimit.succeed();
 
         // Code is valid - generate temporary token for password reset
         const resetToken = jwt.sign(
@@ -1396,6 +2226,9 @@ router.post('/reset-password', async (req, res) => {
         resetDoc.used = true;
         await resetDoc.save();
 
+        // A reset password should end every existing sign-in
+        await revokeUserSessions(user._id, userType === 'admin' ? 'admin' : 'super_admin', 'password_reset');
+
         // Clean up other reset codes for this user
         await PasswordReset.deleteMany({
             email: email,
@@ -1431,7 +2264,7 @@ router.post('/reset-password', async (req, res) => {
 });
 
 // Email Verification for Registration
-router.post('/verify-registration-code', async (req, res) => {
+router.post('/verify-registration-code', rateLimit('verify_registration_code'), async (req, res) => {
     try {
         const { email, code, userType } = req.body;
 
@@ -1466,9 +2299,11 @@ router.post('/verify-registration-code', async (req, res) => {
         }).sort({ createdAt: -1 }); // Get the most recent record
 
         if (!pendingRecord) {
+            const attempt = await req.rateLimit.fail();
             return res.status(400).json({
                 error: 'Invalid or expired verification code',
-                code: 'INVALID_CODE'
+                code: 'INVALID_CODE',
+                ...attempt
             });
         }
 
@@ -1476,16 +2311,19 @@ router.post('/verify-registration-code', async (req, res) => {
         const isValidCode = await pendingRecord.verifyCode(code);
 
         if (!isValidCode) {
+            const attempt = await req.rateLimit.fail();
             return res.status(400).json({
                 error: 'Invalid verification code',
-                code: 'INVALID_CODE'
+                code: 'INVALID_CODE',
+                ...attempt
             });
         }
+        await req.rateLimit.succeed();
 
         // Code is valid - create the actual user account
         if (userType === 'admin') {
             // Double-check mosque code and email uniqueness before creating admin
-            const mosque = await Mosque.findById(pendingRecord.mosque_id);
+            const mosque = await Mosque.findById(pendingRecord.mosque_id).select('+verification_code_hash');
             if (!mosque) {
                 return res.status(404).json({
                     error: 'Mosque not found',
@@ -1493,6 +2331,21 @@ router.post('/verify-registration-code', async (req, res) => {
                 });
             }
 
+            // The mosque code may have been regenerated or expired since registration started
+            if (!verificationHashesMatch(pendingRecord.mosque_verification_code_hash, mosque.verification_code_hash)) {
+                return res.status(400).json({
+                    error: 'The mosque verification code has changed. Please register again with the new code.',
+                    code: 'INVALID_VERIFICATION_CODE'
+                });
+            }
+
+            if (isVerificationCodeExpired(mosque)) {
+                return res.status(400).json({
+                    error: 'Verification code has expired',
+                    code: 'VERIFICATION_CODE_EXPIRED'
+                });
+            }
+
             // Final check for existing admin
             const existingAdmin = await Admin.findOne({
                 $or: [
@@ -1529,9 +2382,12 @@ router.post('/verify-registration-code', async (req, res) => {
                 phone: pendingRecord.phone,
                 mosque_id: pendingRecord.mosque_id,
                 status: 'pending',
-                verification_code_used: pendingRecord.mosque_verification_code,
-                application_notes: pendingRecord.application_notes
+                verification_code_used: mosque.verification_code_prefix,
+                application_notes: pendingRecord.application_notes,
+                preferred_language: resolveLocale(pendingRecord.preferred_language)
             });
+            // Documents wait in the pending record until now so abandoned registrations leave no files behind
+            admin.application_documents = await storeApplicationDocuments(admin._id, pendingRecord.documents);
 
             await admin.save();
             await admin.populate('mosque_id', 'name location');
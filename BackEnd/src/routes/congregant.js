@@ -0,0 +1,260 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import crypto from 'crypto';
+import Congregant from '../models/Congregant.js';
+import Mosque from '../models/Mosque.js';
+import PendingVerification from '../../models/PendingVerification.js';
+import { auth, requireCongregant } from '../middleware/auth.js';
+import { rateLimit } from '../middleware/rateLimit.js';
+import { startSession } from '../utils/sessions.js';
+import { validateName } from '../utils/validators.js';
+import { queueEmail } from '../utils/notifications.js';
+import { MAX_SUBSCRIBED_MOSQUES } from '../utils/prayerReminders.js';
+import { buildSignInCodeEmail } from '../../services/mailService.js';
+
+const router = express.Router();
+
+// Every favorite must fit in one prayer reminders sync
+const MAX_FAVORITES = MAX_SUBSCRIBED_MOSQUES;
+
+const SIGN_IN_CODE_TTL_MS = 15 * 60 * 1000;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const normalizeEmail = (email) => (typeof email === 'string' ? email.trim().toLowerCase() : '');
+
+const toCongregantResponse = (congregant) => ({
+    id: congregant._id,
+    email: congregant.email,
+    name: congregant.name,
+    created_at: congregant.createdAt
+});
+
+/**
+ * The given ids that belong to an existing mosque, in their original order
+ * @param {Array} ids
+ * @returns {Promise<Array<string>>}
+ */
+const existingMosqueIds = async (ids) => {
+    const validIds = [...new Set(ids.map(String))].filter(id => mongoose.Types.ObjectId.isValid(id));
+    if (validIds.length === 0) return [];
+    const mosques = await Mosque.find({ _id: { $in: validIds } }).select('_id');
+    const existing = new Set(mosques.map(mosque => mosque._id.toString()));
+    return validIds.filter(id => existing.has(id));
+};
+
+// Favorites can outlive a mosque; those are left out of every response
+const toFavoritesResponse = async (congregant) => ({
+    favorites: await existingMosqueIds(congregant.favorite_mosques)
+});
+
+// Email a Sign-in Code (Public)
+// The first sign-in creates the account, so there is no separate registration step
+router.post('/request-code', rateLimit('congregant_request_code'), async (req, res) => {
+    try {
+        const email = normalizeEmail(req.body.email);
+        if (!EMAIL_PATTERN.test(email)) {
+            return res.status(400).json({ error: 'Please enter a valid email address', code: 'INVALID_EMAIL' });
+        }
+
+        const name = typeof req.body.name === 'string' && req.body.name.trim() ? req.body.name.trim() : null;
+        if (name) {
+            const nameValidation = validateName(name);
+            if (!nameValidation.valid) {
+                return res.status(400).json({ error: nameValidation.error, code: 'INVALID_NAME' });
+            }
+        }
+
+        const code = crypto.randomInt(100000, 999999).toString();
+        const expiresAt = new Date(Date.now() + SIGN_IN_CODE_TTL_MS);
+
+        // Only the latest code works
+        await PendingVerification.deleteMany({ email, userType: 'congregant' });
+        await new PendingVerification({
+            email,
+            userType: 'congregant',
+            name,
+            verification_code: code,
+            expiresAt
+        }).save();
+
+        const existing = await Congregant.findOne({ email }).select('name');
+        const signInEmail = await queueEmail({
+            event: 'sign_in_code',
+            to: email,
+            name: existing?.name || name,
+            ...buildSignInCodeEmail(existing?.name || name, code),
+            expiresAt,
+            containsSecret: true
+        });
+        const emailDelayed = signInEmail.status !== 'sent';
+
+        res.json({
+            message: emailDelayed
+                ? 'The sign-in email is taking longer than usual. It will arrive within a few minutes.'
+                : 'We emailed you a 6-digit sign-in code.',
+            email_delayed: emailDelayed,
+            email,
+            expiresIn: 15 // minutes
+        });
+    } catch (err) {
+        console.error('Error sending congregant sign-in code:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
+// Sign In With the Emailed Code (Public)
+// The browser's favorites from before signing in are added to the account's
+router.post('/verify-code', rateLimit('congregant_verify_code'), async (req, res) => {
+    try {
+        const email = normalizeEmail(req.body.email);
+        const { code, favorites = [] } = req.body;
+
+        if (!email || !code) {
+            return res.status(400).json({ error: 'Email and code are required', code: 'MISSING_FIELDS' });
+        }
+        if (!/^\d{6}$/.test(String(code))) {
+            return res.status(400).json({
+                error: 'Invalid code format. Code must be 6 digits.',
+                code: 'INVALID_CODE_FORMAT'
+            });
+        }
+        if (!Array.isArray(favorites)) {
+            return res.status(400).json({ error: 'Favorites must be a list of mosque IDs', code: 'INVALID_FAVORITES' });
+        }
+
+        const pendingRecord = await PendingVerification.findOne({
+            email,
+            userType: 'congregant',
+            expiresAt: { $gt: new Date() }
+        }).sort({ createdAt: -1 });
+
+        if (!pendingRecord || !(await pendingRecord.verifyCode(code))) {
+            const attempt = await req.rateLimit.fail();
+            return res.status(400).json({
+                error: 'Invalid or expired sign-in code',
+                code: 'INVALID_CODE',
+                ...attempt
+            });
+        }
+        await req.rateLimit.succeed();
+        await PendingVerification.findByIdAndDelete(pendingRecord._id);
+
+        const congregant = await Congregant.findOneAndUpdate(
+            { email },
+            {
+                $set: { last_login_at: new Date() },
+                $setOnInsert: { email, name: pendingRecord.name || null }
+            },
+            { upsert: true, new: true }
+        );
+        const isNew = congregant.createdAt.getTime() === congregant.updatedAt.getTime();
+
+        // Merge the anonymous list: the account's favorites first, then the ones only this browser had
+        const saved = congregant.favorite_mosques.map(String);
+        const local = await existingMosqueIds(favorites.slice(0, MAX_FAVORITES));
+        const added = local.filter(id => !saved.includes(id)).slice(0, Math.max(0, MAX_FAVORITES - saved.length));
+        if (added.length > 0) {
+            congregant.favorite_mosques.push(...added);
+            await congregant.save();
+        }
+
+        const tokens = await startSession(req, res, congregant, 'congregant');
+
+        res.json({
+            message: isNew ? 'Welcome! Your favorites are now saved to your account.' : 'Signed in successfully',
+            ...tokens,
+            user_type: 'congregant',
+            congregant: toCongregantResponse(congregant),
+            ...(await toFavoritesResponse(congregant)),
+            favorites_merged: added.length
+        });
+    } catch (err) {
+        console.error('Error verifying congregant sign-in code:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
+// Get the Signed-in Congregant (Congregant)
+router.get('/me', auth, requireCongregant, async (req, res) => {
+    try {
+        const congregant = await Congregant.findById(req.user.userId);
+        if (!congregant) return res.status(404).json({ error: 'Account not found', code: 'CONGREGANT_NOT_FOUND' });
+
+        res.json({
+            congregant: toCongregantResponse(congregant),
+            ...(await toFavoritesResponse(congregant))
+        });
+    } catch (err) {
+        console.error('Error loading congregant:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
+// List Favorite Mosques (Congregant)
+router.get('/favorites', auth, requireCongregant, async (req, res) => {
+    try {
+        const congregant = await Congregant.findById(req.user.userId).select('favorite_mosques');
+        if (!congregant) return res.status(404).json({ error: 'Account not found', code: 'CONGREGANT_NOT_FOUND' });
+
+        res.json(await toFavoritesResponse(congregant));
+    } catch (err) {
+        console.error('Error listing congregant favorites:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
+// Add a Favorite Mosque (Congregant)
+router.put('/favorites/:mosqueId', auth, requireCongregant, async (req, res) => {
+    try {
+        if (!mongoose.Types.ObjectId.isValid(req.params.mosqueId)) {
+            return res.status(400).json({ error: 'Invalid mosque ID', code: 'INVALID_MOSQUE_ID' });
+        }
+        if (!(await Mosque.exists({ _id: req.params.mosqueId }))) {
+            return res.status(404).json({ error: 'Mosque not found', code: 'MOSQUE_NOT_FOUND' });
+        }
+
+        // The size check is part of the filter so two devices adding at once can't pass the limit
+        const congregant = await Congregant.findOneAndUpdate(
+            { _id: req.user.userId, [`favorite_mosques.${MAX_FAVORITES - 1}`]: { $exists: false } },
+            { $addToSet: { favorite_mosques: req.params.mosqueId } },
+            { new: true }
+        );
+        if (!congregant) {
+            const exists = await Congregant.exists({ _id: req.user.userId });
+            if (!exists) return res.status(404).json({ error: 'Account not found', code: 'CONGREGANT_NOT_FOUND' });
+            return res.status(400).json({
+                error: `You can follow up to ${MAX_FAVORITES} mosques`,
+                code: 'TOO_MANY_FAVORITES'
+            });
+        }
+
+        res.json({ message: 'Added to favorites', ...(await toFavoritesResponse(congregant)) });
+    } catch (err) {
+        console.error('Error adding congregant favorite:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
+// Remove a Favorite Mosque (Congregant)
+router.delete('/favorites/:mosqueId', auth, requireCongregant, async (req, res) => {
+    try {
+        if (!mongoose.Types.ObjectId.isValid(req.params.mosqueId)) {
+            return res.status(400).json({ error: 'Invalid mosque ID', code: 'INVALID_MOSQUE_ID' });
+        }
+
+        const congregant = await Congregant.findByIdAndUpdate(
+            req.user.userId,
+            { $pull: { favorite_mosques: req.params.mosqueId } },
+            { new: true }
+        );
+        if (!congregant) return res.status(404).json({ error: 'Account not found', code: 'CONGREGANT_NOT_FOUND' });
+
+        res.json({ message: 'Removed from favorites', ...(await toFavoritesResponse(congregant)) });
+    } catch (err) {
+        console.error('Error removing congregant favorite:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
+export default router;
@@ -0,0 +1,70 @@
+import express from 'express';
+import { requireCronSecret } from '../middleware/cronAuth.js';
+import { processDueNotifications, getEmailHealth } from '../utils/notifications.js';
+import { processPrayerReminders, processTimeChangeAlerts } from '../utils/prayerReminders.js';
+
+const router = express.Router();
+
+// Stay well inside the serverless function time limit; whatever is left waits for the next run
+const NOTIFICATION_BATCH_SIZE = 25;
+const NOTIFICATION_TIME_BUDGET_MS = 8000;
+const REMINDER_TIME_BUDGET_MS = 8000;
+
+const isProduction = process.env.NODE_ENV === 'production';
+
+// Outbox worker: retry emails whose backoff has elapsed
+router.get('/notifications', requireCronSecret, async (req, res) => {
+    try {
+        const result = await processDueNotifications({
+            limit: NOTIFICATION_BATCH_SIZE,
+            timeBudgetMs: NOTIFICATION_TIME_BUDGET_MS,
+            trigger: 'worker'
+        });
+
+        res.json({ ...result, timestamp: new Date().toISOString() });
+    } catch (err) {
+        console.error('Notification worker failed:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
+// Mail server reachability and outbox backlog; /api/health only reports whether it is degraded
+router.get('/health', requireCronSecret, async (req, res) => {
+    try {
+        const email = await getEmailHealth();
+
+        res.json({ status: email.smtp?.ok ? 'OK' : 'DEGRADED', email, timestamp: new Date().toISOString() });
+    } catch (err) {
+        console.error('Email health check failed:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
+// Prayer reminder worker: push jamaat reminders to browsers that favorited a mosque, then the
+// queued time change alerts. Outside production ?now=<ISO date> runs the schedule as if it were that time.
+router.get('/push-reminders', requireCronSecret, async (req, res) => {
+    try {
+        let now = new Date();
+        if (req.query.now && !isProduction) {
+            now = new Date(req.query.now);
+            if (Number.isNaN(now.getTime())) {
+                return res.status(400).json({ error: 'now must be an ISO date', code: 'INVALID_DATE' });
+            }
+        }
+
+        // Reminders go first since they are due at a set time; alerts share what is left of the budget
+        const startedAt = Date.now();
+        const result = await processPrayerReminders({ now, timeBudgetMs: REMINDER_TIME_BUDGET_MS });
+        const alerts = await processTimeChangeAlerts({
+            now,
+            timeBudgetMs: Math.max(0, REMINDER_TIME_BUDGET_MS - (Date.now() - startedAt))
+        });
+
+        res.json({ ...result, time_change_alerts: alerts, now: now.toISOString(), timestamp: new Date().toISOString() });
+    } catch (err) {
+        console.error('Prayer reminder worker failed:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
+export default router;
@@ -1,47 +1,1108 @@
 import express from 'express';
+import mongoose from 'mongoose';
+import multer from 'multer';
 import Mosque from '../models/Mosque.js';
 import Admin from '../models/Admin.js';
-import { auth, requireAdmin, requireSuperAdmin } from '../middleware/auth.js';
+import PrayerSchedule from '../models/PrayerSchedule.js';
+import TimetableDay from '../models/TimetableDay.js';
+import MosquePhoto from '../models/MosquePhoto.js';
+import Congregant from '../models/Congregant.js';
+import Announcement from '../models/Announcement.js';
+import { auth, requirePermission, requireMosquePermission } from '../middleware/auth.js';
 import crypto from 'crypto';
 import AuditLogger from '../utils/auditLogger.js';
+import { validatePrayerCalculation, validatePrayerSchedule, validateFacilities, parsePrayerTime, validateEmail } from '../utils/validators.js';
+import { DEFAULT_TIMEZONE, parseDateString, isCalculationEnabled } from '../utils/prayerCalculator.js';
+import {
+    PRAYERS,
+    MAX_TIMETABLE_DAYS,
+    addDays,
+    countDays,
+    getMosqueToday,
+    resolveTimetable,
+    resolveDay
+} from '../utils/timetable.js';
+import {
+    DEFAULT_RADIUS_KM,
+    MAX_RADIUS_KM,
+    toGeoPoint,
+    fromGeoPoint,
+    parseLatLng,
+    readCoordinatesInput
+} from '../utils/geo.js';
+import {
+    readAddressInput,
+    formatAddress,
+    toAddressResponse,
+    buildAddressFilters,
+    addressFacetStages
+} from '../utils/address.js';
+import { parseFacilitiesFilter, normalizeFacilities, toFacilitiesResponse } from '../utils/facilities.js';
+import {
+    MAX_PHOTO_BYTES,
+    MAX_PHOTOS_PER_MOSQUE,
+    MAX_CAPTION_LENGTH,
+    ALLOWED_PHOTO_TYPES,
+    storePhotoVariants,
+    removePhotoVariants,
+    readPhotoVariant,
+    isPhotoPreviewValid,
+    refreshCoverPhoto,
+    toCoverPhotoResponse,
+    toPhotoResponse
+} from '../utils/photos.js';
+import { serializeMosque } from '../utils/mosqueSerializer.js';
+import { generateVerificationCode, toStoredVerificationCode } from '../utils/verificationCode.js';
+import { renderTimetablePdf } from '../utils/timetablePdf.js';
+import { FEED_PAST_DAYS, FEED_FUTURE_DAYS, buildCalendarFeed } from '../utils/calendarFeed.js';
+import MosqueInvitation from '../models/MosqueInvitation.js';
+import { MOSQUE_ROLES, getMembership, listMosqueRoles } from '../utils/mosqueRoles.js';
+import { createInvitationToken, buildInvitationPath, getInvitationStatus } from '../utils/invitations.js';
+import { revokeUserSessions } from '../utils/sessions.js';
+import { notifyAdmin, queueTemplatedEmail } from '../utils/notifications.js';
+import { getTimetableSnapshot, queueTimeChangeAlert } from '../utils/prayerReminders.js';
+import {
+    ANNOUNCEMENT_SORT,
+    DEFAULT_PAGE_SIZE,
+    MAX_PAGE_SIZE,
+    FEED_ENTRY_LIMIT,
+    buildAnnouncementData,
+    visibleAnnouncementFilter,
+    toAnnouncementResponse,
+    toAnnouncementSnapshot,
+    buildAnnouncementFeed
+} from '../utils/announcements.js';
 
 const router = express.Router();
 
+// Public-safe fields of a mosque in list results
+const toMosqueListItem = (mosque) => ({
+    id: mosque._id,
+    name: mosque.name,
+    location: mosque.location,
+    address: toAddressResponse(mosque.address),
+    description: mosque.description || '',
+    contact_email: mosque.contact_email || '',
+    contact_phone: mosque.contact_phone || '',
+    coordinates: fromGeoPoint(mosque.coordinates),
+    facilities: toFacilitiesResponse(mosque.facilities),
+    cover_photo: toCoverPhotoResponse(mosque.cover_photo)
+});
+
 // List All Mosques (Public)
+// ?near=lat,lng&radius=km switches to distance search, nearest first
+// ?city= and ?province= filter by address; facets count mosques per city and province
+// ?facilities=parking,wudu only lists mosques offering every listed facility
 router.get('/', async (req, res) => {
     try {
-        const { search, page = 1, limit = 9 } = req.query;
-        const query = {};
+        const { search, near, radius, facilities, page = 1, limit = 9 } = req.query;
+        const pageNumber = parseInt(page);
+        const limitNumber = parseInt(limit);
+
+        const facilitiesFilter = parseFacilitiesFilter(facilities);
+        if (facilitiesFilter.error) {
+            return res.status(400).json({ error: facilitiesFilter.error, code: 'INVALID_FACILITIES' });
+        }
+
+        const addressFilters = buildAddressFilters(req.query);
+        const addressMatch = { ...addressFilters.city, ...addressFilters.province };
+
+        if (near !== undefined) {
+            const origin = parseLatLng(near);
+            if (!origin) {
+                return res.status(400).json({ error: 'near must be "latitude,longitude"', code: 'INVALID_NEAR' });
+            }
+
+            const radiusKm = radius === undefined ? DEFAULT_RADIUS_KM : Number(radius);
+            if (!Number.isFinite(radiusKm) || radiusKm <= 0 || radiusKm > MAX_RADIUS_KM) {
+                return res.status(400).json({
+                    error: `radius must be a number of kilometres between 0 and ${MAX_RADIUS_KM}`,
+                    code: 'INVALID_RADIUS'
+                });
+            }
+
+            // $geoNear must be the first stage and cannot be combined with $text,
+            // so a search term is matched against name and location instead
+            const match = { ...facilitiesFilter.filter };
+            if (search) {
+                const pattern = new RegExp(search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+                match.$or = [{ name: pattern }, { location: pattern }];
+            }
+
+            const [result] = await Mosque.aggregate([
+                {
+                    $geoNear: {
+                        near: toGeoPoint(origin.latitude, origin.longitude),
+                        distanceField: 'distance',
+                        maxDistance: radiusKm * 1000,
+                        spherical: true,
+                        query: match
+                    }
+                },
+                {
+                    $facet: {
+                        mosques: [
+                            { $match: addressMatch },
+                            { $skip: (pageNumber - 1) * limitNumber },
+                            { $limit: limitNumber }
+                        ],
+                        total: [{ $match: addressMatch }, { $count: 'count' }],
+                        ...addressFacetStages(addressFilters)
+                    }
+                }
+            ]);
+
+            const transformedMosques = result.mosques.map(mosque => ({
+                ...toMosqueListItem(mosque),
+                distance_km: Math.round(mosque.distance / 10) / 100
+            }));
+
+            return res.json({
+                mosques: transformedMosques,
+                pagination: {
+                    page: pageNumber,
+                    limit: limitNumber,
+                    total: result.total[0]?.count || 0
+                },
+                facets: { provinces: result.provinces, cities: result.cities },
+                near: { ...origin, radius_km: radiusKm }
+            });
+        }
+
+        const searchQuery = { ...facilitiesFilter.filter };
+
+        if (search) {
+            searchQuery.$text = { $search: search };
+        }
+
+        const query = { ...searchQuery, ...addressMatch };
+
+        const mosques = await Mosque.find(query)
+            .select('name location address description contact_email contact_phone coordinates facilities cover_photo')
+            .limit(limit * 1)
+            .skip((page - 1) * limit);
+
+        const total = await Mosque.countDocuments(query);
+
+        // Facets start from the search results; each applies only the other facet's filter
+        const [facets] = await Mosque.aggregate([
+            { $match: searchQuery },
+            { $facet: addressFacetStages(addressFilters) }
+        ]);
+
+        // Transform the response to match API spec - return only public-safe fields
+        const transformedMosques = mosques.map(toMosqueListItem);
+
+        // Cache for 5 minutes on edge, revalidate in background for 10 minutes
+        res.setHeader('Cache-Control', 'public, s-maxage=300, stale-while-revalidate=600');
+
+        res.json({
+            mosques: transformedMosques,
+            pagination: {
+                page: pageNumber,
+                limit: limitNumber,
+                total
+            },
+            facets
+        });
+    } catch (err) {
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+// Get Single Mosque Details (Public)
+// Always the public view - the verification code is only returned by /:id/manage
+router.get('/:id', async (req, res) => {
+    try {
+        const mosque = await Mosque.findById(req.params.id);
+        if (!mosque) return res.status(404).json({ error: 'Mosque not found', code: 'MOSQUE_NOT_FOUND' });
+
+        res.json({ mosque: serializeMosque(mosque, 'public') });
+    } catch (err) {
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+// Get Mosque Details Including Verification Code (Admin)
+router.get('/:id/manage', auth, requireMosquePermission('mosque.view'), async (req, res) => {
+    try {
+        const mosque = await Mosque.findById(req.params.id);
+        if (!mosque) return res.status(404).json({ error: 'Mosque not found', code: 'MOSQUE_NOT_FOUND' });
+
+        res.json({ mosque: serializeMosque(mosque, 'admin') });
+    } catch (err) {
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+// Count the Mosque's Followers (Admin)
+// Congregants who saved it as a favorite; visitors without an account only keep favorites in their browser
+router.get('/:id/followers', auth, requireMosquePermission('mosque.view'), async (req, res) => {
+    try {
+        const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+        const [followers, activeThisWeek] = await Promise.all([
+            Congregant.countDocuments({ favorite_mosques: req.params.id }),
+            Congregant.countDocuments({ favorite_mosques: req.params.id, last_login_at: { $gte: weekAgo } })
+        ]);
+
+        res.json({ followers, active_this_week: activeThisWeek });
+    } catch (err) {
+        console.error('Error counting mosque followers:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
+// Get Mosque Prayer Times (Public)
+// Optional ?date=YYYY-MM-DD, defaults to today in the mosque's timezone
+router.get('/:id/prayer-times', async (req, res) => {
+    try {
+        const mosque = await Mosque.findById(req.params.id);
+        if (!mosque) return res.status(404).json({ error: 'Mosque not found', code: 'MOSQUE_NOT_FOUND' });
+
+        const date = req.query.date || getMosqueToday(mosque);
+        if (!parseDateString(date)) {
+            return res.status(400).json({ error: 'Date must be in YYYY-MM-DD format', code: 'INVALID_DATE' });
+        }
+
+        const entry = await resolveDay(mosque, date);
+
+        res.json({
+            mosque: {
+                id: mosque._id,
+                name: mosque.name,
+                location: mosque.location
+            },
+            date,
+            source: entry.source,
+            prayer_times: entry.prayer_times,
+            adhan_times: entry.adhan_times,
+            schedules: entry.schedules,
+            calculation: isCalculationEnabled(mosque) ? {
+                method: mosque.prayer_calculation.method,
+                asr_method: mosque.prayer_calculation.asr_method,
+                high_latitude_rule: mosque.prayer_calculation.high_latitude_rule,
+                timezone: mosque.prayer_calculation.timezone || DEFAULT_TIMEZONE
+            } : null
+        });
+    } catch (err) {
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+// Get Mosque Timetable for a Date Range (Public)
+// ?from=YYYY-MM-DD&to=YYYY-MM-DD, defaults to the next 7 days
+router.get('/:id/timetable', async (req, res) => {
+    try {
+        const mosque = await Mosque.findById(req.params.id);
+        if (!mosque) return res.status(404).json({ error: 'Mosque not found', code: 'MOSQUE_NOT_FOUND' });
+
+        const from = req.query.from || getMosqueToday(mosque);
+        const to = req.query.to || addDays(from, 6);
+
+        if (!parseDateString(from) || !parseDateString(to)) {
+            return res.status(400).json({ error: 'Dates must be in YYYY-MM-DD format', code: 'INVALID_DATE' });
+        }
+
+        if (from > to) {
+            return res.status(400).json({ error: '"from" must be on or before "to"', code: 'INVALID_DATE_RANGE' });
+        }
+
+        if (countDays(from, to) > MAX_TIMETABLE_DAYS) {
+            return res.status(400).json({
+                error: `Timetable range cannot exceed ${MAX_TIMETABLE_DAYS} days`,
+                code: 'DATE_RANGE_TOO_LARGE'
+            });
+        }
+
+        const entries = await resolveTimetable(mosque, from, to);
+
+        res.json({
+            mosque: {
+                id: mosque._id,
+                name: mosque.name,
+                location: mosque.location
+            },
+            from,
+            to,
+            entries
+        });
+    } catch (err) {
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+// Download Printable Monthly Timetable (Public)
+// ?month=YYYY-MM, defaults to the current month in the mosque's timezone
+router.get('/:id/timetable/pdf', async (req, res) => {
+    try {
+        const mosque = await Mosque.findById(req.params.id);
+        if (!mosque) return res.status(404).json({ error: 'Mosque not found', code: 'MOSQUE_NOT_FOUND' });
+
+        const month = req.query.month || getMosqueToday(mosque).slice(0, 7);
+        if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+            return res.status(400).json({ error: 'Month must be in YYYY-MM format', code: 'INVALID_MONTH' });
+        }
+
+        const from = `${month}-01`;
+        const [year, monthNumber] = month.split('-').map(Number);
+        const daysInMonth = new Date(Date.UTC(year, monthNumber, 0)).getUTCDate();
+        const to = addDays(from, daysInMonth - 1);
+
+        const entries = await resolveTimetable(mosque, from, to);
+        const pdf = await renderTimetablePdf(mosque, month, entries);
+
+        const slug = mosque.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'mosque';
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename="${slug}-timetable-${month}.pdf"`);
+        res.send(pdf);
+    } catch (err) {
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+// Prayer Times Calendar Feed (Public)
+// iCalendar feed for Google Calendar, Apple Calendar and other subscribers
+router.get('/:id/calendar.ics', async (req, res) => {
+    try {
+        const mosque = await Mosque.findById(req.params.id);
+        if (!mosque) return res.status(404).json({ error: 'Mosque not found', code: 'MOSQUE_NOT_FOUND' });
+
+        // Always built from live data so edits show up on the next refresh
+        const today = getMosqueToday(mosque);
+        const entries = await resolveTimetable(mosque, addDays(today, -FEED_PAST_DAYS), addDays(today, FEED_FUTURE_DAYS));
+        const feed = buildCalendarFeed(mosque, entries, { host: req.hostname });
+
+        res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+        res.setHeader('Content-Disposition', 'inline; filename="prayer-times.ics"');
+        res.setHeader('Cache-Control', 'no-cache');
+        res.send(feed);
+    } catch (err) {
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+// Record a timetable edit on the mosque so calendar feeds can version their events
+const markTimetableChanged = (mosqueId) => {
+    return Mosque.updateOne(
+        { _id: mosqueId },
+        { $inc: { timetable_version: 1 }, $set: { timetable_updated_at: new Date() } }
+    );
+};
+
+// Queue an alert for browsers following the mosque's times; the cron worker pushes it.
+// `before` is getTimetableSnapshot() from before the edit.
+const alertTimetableChanged = async (mosque, before) => {
+    try {
+        await queueTimeChangeAlert(mosque, before);
+    } catch (error) {
+        console.error('Failed to queue timetable change alert (non-critical):', error);
+    }
+};
+
+// Build the stored shape of a schedule from the request body
+const buildScheduleData = (body) => {
+    const prayerTimes = {};
+    PRAYERS.forEach((prayer) => {
+        const time = body.prayer_times?.[prayer];
+        prayerTimes[prayer] = time && String(time).trim() ? String(time).trim() : undefined;
+    });
+
+    const scheduleType = body.schedule_type || 'seasonal';
+    return {
+        name: body.name ? String(body.name).trim() : '',
+        schedule_type: scheduleType,
+        start_date: body.start_date,
+        // Overrides only need a single date
+        end_date: scheduleType === 'override' ? (body.end_date || body.start_date) : body.end_date,
+        prayer_times: prayerTimes,
+        notes: body.notes ? String(body.notes).trim() : ''
+    };
+};
+
+const toScheduleSnapshot = (schedule) => ({
+    name: schedule.name,
+    schedule_type: schedule.schedule_type,
+    start_date: schedule.start_date,
+    end_date: schedule.end_date,
+    prayer_times: schedule.prayer_times
+});
+
+// List Timetable Schedules (Admin)
+router.get('/:id/schedules', auth, requireMosquePermission('mosque.view'), async (req, res) => {
+    try {
+        const schedules = await PrayerSchedule.find({ mosque_id: req.params.id })
+            .sort({ start_date: -1 });
+
+        res.json({ schedules });
+    } catch (err) {
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+// Create Timetable Schedule or Single-Date Override (Admin)
+router.post('/:id/schedules', auth, requireMosquePermission('prayer_times.edit'), async (req, res) => {
+    try {
+        const mosque = await Mosque.findById(req.params.id);
+        if (!mosque) return res.status(404).json({ error: 'Mosque not found' });
+
+        const scheduleData = buildScheduleData(req.body);
+        const validation = validatePrayerSchedule(scheduleData);
+        if (!validation.valid) {
+            return res.status(400).json({ error: validation.error, code: 'INVALID_SCHEDULE' });
+        }
+
+        const before = await getTimetableSnapshot(mosque);
+        const schedule = await PrayerSchedule.create({
+            ...scheduleData,
+            mosque_id: mosque._id,
+            created_by: req.user.userId
+        });
+        await markTimetableChanged(mosque._id);
+
+        const auditLogger = new AuditLogger(req);
+        await auditLogger.logPrayerScheduleChanged(mosque, 'created', schedule, null, toScheduleSnapshot(schedule));
+
+        await alertTimetableChanged(mosque, before);
+
+        res.status(201).json({ message: 'Schedule created', schedule });
+    } catch (err) {
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+// Update Timetable Schedule (Admin)
+router.put('/:id/schedules/:scheduleId', auth, requireMosquePermission('prayer_times.edit'), async (req, res) => {
+    try {
+        const mosque = await Mosque.findById(req.params.id);
+        if (!mosque) return res.status(404).json({ error: 'Mosque not found' });
+
+        const schedule = await PrayerSchedule.findOne({ _id: req.params.scheduleId, mosque_id: req.params.id });
+        if (!schedule) return res.status(404).json({ error: 'Schedule not found', code: 'SCHEDULE_NOT_FOUND' });
+
+        const beforeData = toScheduleSnapshot(schedule);
+        const scheduleData = buildScheduleData({ ...beforeData, ...req.body });
+        const validation = validatePrayerSchedule(scheduleData);
+        if (!validation.valid) {
+            return res.status(400).json({ error: validation.error, code: 'INVALID_SCHEDULE' });
+        }
+
+        const before = await getTimetableSnapshot(mosque);
+        schedule.set({ ...scheduleData, updatedAt: new Date() });
+        await schedule.save();
+        await markTimetableChanged(mosque._id);
+
+        const auditLogger = new AuditLogger(req);
+        await auditLogger.logPrayerScheduleChanged(mosque, 'updated', schedule, beforeData, toScheduleSnapshot(schedule));
+
+        await alertTimetableChanged(mosque, before);
+
+        res.json({ message: 'Schedule updated', schedule });
+    } catch (err) {
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+// Delete Timetable Schedule (Admin)
+router.delete('/:id/schedules/:scheduleId', auth, requireMosquePermission('prayer_times.edit'), async (req, res) => {
+    try {
+        const mosque = await Mosque.findById(req.params.id);
+        if (!mosque) return res.status(404).json({ error: 'Mosque not found' });
+
+        const before = await getTimetableSnapshot(mosque);
+        const schedule = await PrayerSchedule.findOneAndDelete({ _id: req.params.scheduleId, mosque_id: req.params.id });
+        if (!schedule) return res.status(404).json({ error: 'Schedule not found', code: 'SCHEDULE_NOT_FOUND' });
+        await markTimetableChanged(mosque._id);
+
+        const auditLogger = new AuditLogger(req);
+        await auditLogger.logPrayerScheduleChanged(mosque, 'deleted', schedule, toScheduleSnapshot(schedule), null);
+
+        await alertTimetableChanged(mosque, before);
+
+        res.json({ message: 'Schedule deleted' });
+    } catch (err) {
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+// Validate uploaded timetable rows - one row per date, empty cells keep the existing time
+const validateImportRows = (rows) => {
+    const seenDates = new Set();
+
+    return rows.map((row, index) => {
+        const errors = [];
+        const rowNumber = row.row || index + 1;
+        const date = row.date ? String(row.date).trim() : '';
+
+        if (!parseDateString(date)) {
+            errors.push('Date must be in YYYY-MM-DD format');
+        } else if (seenDates.has(date)) {
+            errors.push(`Duplicate date ${date}`);
+        } else {
+            seenDates.add(date);
+        }
+
+        const prayerTimes = {};
+        PRAYERS.forEach((prayer) => {
+            const raw = row[prayer];
+            if (raw === undefined || raw === null || String(raw).trim() === '') return;
+            const parsed = parsePrayerTime(raw);
+            if (parsed) {
+                prayerTimes[prayer] = parsed;
+            } else {
+                errors.push(`${prayer}: "${raw}" is not a valid time (use HH:MM or HH:MM AM/PM)`);
+            }
+        });
+
+        if (Object.keys(prayerTimes).length === 0 && errors.length === 0) {
+            errors.push('Row has no prayer times');
+        }
+
+        return { row: rowNumber, date, prayer_times: prayerTimes, errors };
+    });
+};
+
+// Parse and validate the import request body shared by preview and commit
+const readImportRequest = (req, res) => {
+    const { rows } = req.body;
+    if (!Array.isArray(rows) || rows.length === 0) {
+        res.status(400).json({ error: 'At least one timetable row is required', code: 'MISSING_ROWS' });
+        return null;
+    }
+
+    if (rows.length > MAX_TIMETABLE_DAYS) {
+        res.status(400).json({
+            error: `An import can contain at most ${MAX_TIMETABLE_DAYS} rows`,
+            code: 'TOO_MANY_ROWS'
+        });
+        return null;
+    }
+
+    if (rows.some(row => !row || typeof row !== 'object' || Array.isArray(row))) {
+        res.status(400).json({ error: 'Each timetable row must be an object', code: 'INVALID_ROW_FORMAT' });
+        return null;
+    }
+
+    const validated = validateImportRows(rows);
+    const validDates = validated.filter(row => row.errors.length === 0).map(row => row.date).sort();
+    return { validated, validDates };
+};
+
+// Compare validated rows with the timetable currently in effect
+const buildImportDiff = async (mosque, validated, validDates) => {
+    if (validDates.length === 0) return [];
+
+    const current = await resolveTimetable(mosque, validDates[0], validDates[validDates.length - 1]);
+    const currentByDate = new Map(current.map(entry => [entry.date, entry]));
+
+    return validated
+        .filter(row => row.errors.length === 0)
+        .map((row) => {
+            const entry = currentByDate.get(row.date);
+            const changes = Object.entries(row.prayer_times)
+                .filter(([prayer, time]) => entry.prayer_times[prayer] !== time)
+                .map(([prayer, time]) => ({ prayer, from: entry.prayer_times[prayer] || null, to: time }));
+
+            return {
+                date: row.date,
+                day: entry.day,
+                changes,
+                current_times: entry.prayer_times,
+                // A single-date override will keep winning over imported times
+                overridden: entry.source === 'override'
+            };
+        });
+};
+
+// Preview Timetable Import (Admin)
+router.post('/:id/timetable/import/preview', auth, requireMosquePermission('prayer_times.edit'), async (req, res) => {
+    try {
+        const mosque = await Mosque.findById(req.params.id);
+        if (!mosque) return res.status(404).json({ error: 'Mosque not found' });
+
+        const request = readImportRequest(req, res);
+        if (!request) return;
+
+        const { validated, validDates } = request;
+        const diff = await buildImportDiff(mosque, validated, validDates);
+
+        res.json({
+            rows: validated,
+            diff,
+            summary: {
+                total: validated.length,
+                valid: validDates.length,
+                invalid: validated.length - validDates.length,
+                changed: diff.filter(day => day.changes.length > 0).length,
+                unchanged: diff.filter(day => day.changes.length === 0).length,
+                from: validDates[0] || null,
+                to: validDates[validDates.length - 1] || null
+            }
+        });
+    } catch (err) {
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+// Commit Timetable Import (Admin)
+router.post('/:id/timetable/import/commit', auth, requireMosquePermission('prayer_times.edit'), async (req, res) => {
+    try {
+        const mosque = await Mosque.findById(req.params.id);
+        if (!mosque) return res.status(404).json({ error: 'Mosque not found' });
+
+        const request = readImportRequest(req, res);
+        if (!request) return;
+
+        const { validated, validDates } = request;
+        const invalidRows = validated.filter(row => row.errors.length > 0);
+        if (invalidRows.length > 0) {
+            return res.status(400).json({
+                error: `${invalidRows.length} row(s) have errors. Fix them and preview again before importing.`,
+                code: 'INVALID_ROWS',
+                rows: invalidRows
+            });
+        }
+
+        const diff = await buildImportDiff(mosque, validated, validDates);
+        const before = await getTimetableSnapshot(mosque);
+        const importId = crypto.randomUUID();
+        const now = new Date();
+
+        await TimetableDay.bulkWrite(validated.map(row => ({
+            updateOne: {
+                filter: { mosque_id: mosque._id, date: row.date },
+                update: {
+                    $set: {
+                        prayer_times: row.prayer_times,
+                        import_id: importId,
+                        imported_by: req.user.userId,
+                        updatedAt: now
+                    },
+                    $setOnInsert: { createdAt: now }
+                },
+                upsert: true
+            }
+        })));
+        await markTimetableChanged(mosque._id);
+
+        // Record the import with the times in effect before and after, keyed by date
+        const oldTimes = {};
+        const newTimes = {};
+        diff.forEach((day) => {
+            oldTimes[day.date] = day.current_times;
+            newTimes[day.date] = { ...day.current_times, ...validated.find(row => row.date === day.date).prayer_times };
+        });
+
+        const auditLogger = new AuditLogger(req);
+        await auditLogger.logPrayerTimesUpdated(
+            mosque,
+            oldTimes,
+            newTimes,
+            `Imported monthly timetable: ${validated.length} day(s) from ${validDates[0]} to ${validDates[validDates.length - 1]}`
+        );
+
+        await alertTimetableChanged(mosque, before);
+
+        res.json({
+            message: 'Timetable imported',
+            import_id: importId,
+            imported: validated.length,
+            changed: diff.filter(day => day.changes.length > 0).length,
+            from: validDates[0],
+            to: validDates[validDates.length - 1]
+        });
+    } catch (err) {
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+// Remove Imported Timetable Days (Admin)
+// ?import_id=<id> undoes one import, ?from=YYYY-MM-DD&to=YYYY-MM-DD removes every imported day in the range.
+// Schedules, overrides and calculated times take over again on those dates.
+router.delete('/:id/timetable/days', auth, requireMosquePermission('prayer_times.edit'), async (req, res) => {
+    try {
+        const mosque = await Mosque.findById(req.params.id);
+        if (!mosque) return res.status(404).json({ error: 'Mosque not found' });
+
+        const { import_id: importId, from, to } = req.query;
+        const filter = { mosque_id: mosque._id };
+
+        if (typeof importId === 'string' && importId) {
+            filter.import_id = importId;
+        } else if (from || to) {
+            if (!parseDateString(from) || !parseDateString(to)) {
+                return res.status(400).json({ error: 'Dates must be in YYYY-MM-DD format', code: 'INVALID_DATE' });
+            }
+            if (from > to) {
+                return res.status(400).json({ error: '"from" must be on or before "to"', code: 'INVALID_DATE_RANGE' });
+            }
+            if (countDays(from, to) > MAX_TIMETABLE_DAYS) {
+                return res.status(400).json({
+                    error: `Timetable range cannot exceed ${MAX_TIMETABLE_DAYS} days`,
+                    code: 'DATE_RANGE_TOO_LARGE'
+                });
+            }
+            filter.date = { $gte: from, $lte: to };
+        } else {
+            return res.status(400).json({
+                error: 'Give an import_id, or a from and to date',
+                code: 'MISSING_IMPORT_OR_RANGE'
+            });
+        }
+
+        const days = await TimetableDay.find(filter).sort({ date: 1 }).lean();
+        if (days.length === 0) {
+            return res.status(404).json({ error: 'No imported days match', code: 'TIMETABLE_DAYS_NOT_FOUND' });
+        }
+
+        const firstDate = days[0].date;
+        const lastDate = days[days.length - 1].date;
+        const before = await getTimetableSnapshot(mosque);
+        const current = await resolveTimetable(mosque, firstDate, lastDate);
+
+        await TimetableDay.deleteMany({ _id: { $in: days.map(day => day._id) } });
+        await markTimetableChanged(mosque._id);
+
+        // Record the times in effect before and after, keyed by date, as the import did
+        const removedDates = new Set(days.map(day => day.date));
+        const after = await resolveTimetable(mosque, firstDate, lastDate);
+        const oldTimes = {};
+        const newTimes = {};
+        current.filter(entry => removedDates.has(entry.date)).forEach((entry) => {
+            oldTimes[entry.date] = entry.prayer_times;
+        });
+        after.filter(entry => removedDates.has(entry.date)).forEach((entry) => {
+            newTimes[entry.date] = entry.prayer_times;
+        });
+
+        const auditLogger = new AuditLogger(req);
+        await auditLogger.logPrayerTimesUpdated(
+            mosque,
+            oldTimes,
+            newTimes,
+            `Removed imported timetable: ${days.length} day(s) from ${firstDate} to ${lastDate}`
+        );
+
+        await alertTimetableChanged(mosque, before);
+
+        res.json({
+            message: 'Imported timetable days removed',
+            removed: days.length,
+            from: firstDate,
+            to: lastDate
+        });
+    } catch (err) {
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+// Update Prayer Times (Admin)
+router.put('/:id/prayer-times', auth, requireMosquePermission('prayer_times.edit'), async (req, res) => {
+    try {
+        // Get current mosque data for audit logging
+        const currentMosque = await Mosque.findById(req.params.id);
+        if (!currentMosque) return res.status(404).json({ error: 'Mosque not found' });
+
+        const oldPrayerTimes = currentMosque.prayer_times;
+        const before = await getTimetableSnapshot(currentMosque);
+        const { fajr, dhuhr, asr, maghrib, isha, jummah } = req.body;
+        const newPrayerTimes = { fajr, dhuhr, asr, maghrib, isha, jummah };
+
+        const mosque = await Mosque.findByIdAndUpdate(
+            req.params.id,
+            {
+                $set: { prayer_times: newPrayerTimes, timetable_updated_at: new Date() },
+                $inc: { timetable_version: 1 }
+            },
+            { new: true }
+        );
+
+        // Log the prayer times update
+        const auditLogger = new AuditLogger(req);
+        await auditLogger.logPrayerTimesUpdated(mosque, oldPrayerTimes, newPrayerTimes);
+
+        await alertTimetableChanged(mosque, before);
+
+        res.json({ message: 'Prayer times updated', prayer_times: mosque.prayer_times });
+    } catch (err) {
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+// Update Prayer Calculation Settings (Admin)
+router.put('/:id/prayer-calculation', auth, requireMosquePermission('prayer_times.edit'), async (req, res) => {
+    try {
+        const currentMosque = await Mosque.findById(req.params.id);
+        if (!currentMosque) return res.status(404).json({ error: 'Mosque not found' });
+
+        const oldSettings = currentMosque.prayer_calculation ? currentMosque.prayer_calculation.toObject() : null;
+        const before = await getTimetableSnapshot(currentMosque);
+
+        const allowedFields = ['enabled', 'latitude', 'longitude', 'timezone', 'method', 'asr_method', 'high_latitude_rule', 'jamaat_offsets'];
+        const newSettings = { ...(oldSettings || {}) };
+        allowedFields.forEach((field) => {
+            if (req.body[field] !== undefined) newSettings[field] = req.body[field];
+        });
+        if (req.body.jamaat_offsets) {
+            newSettings.jamaat_offsets = { ...(oldSettings?.jamaat_offsets || {}), ...req.body.jamaat_offsets };
+        }
+
+        // Fall back to the mosque's map position when no calculation coordinates are set
+        const mosquePosition = fromGeoPoint(currentMosque.coordinates);
+        if (mosquePosition && (newSettings.latitude === undefined || newSettings.latitude === null) &&
+            (newSettings.longitude === undefined || newSettings.longitude === null)) {
+            newSettings.latitude = mosquePosition.latitude;
+            newSettings.longitude = mosquePosition.longitude;
+        }
+
+        const validation = validatePrayerCalculation(newSettings);
+        if (!validation.valid) {
+            return res.status(400).json({ error: validation.error, code: 'INVALID_CALCULATION_SETTINGS' });
+        }
+
+        const mosque = await Mosque.findByIdAndUpdate(
+            req.params.id,
+            {
+                $set: {
+                    prayer_calculation: newSettings,
+                    timetable_updated_at: new Date(),
+                    // Pin mosques without a map position at the calculation coordinates
+                    ...(!mosquePosition && typeof newSettings.latitude === 'number' && typeof newSettings.longitude === 'number'
+                        ? { coordinates: toGeoPoint(newSettings.latitude, newSettings.longitude) }
+                        : {})
+                },
+                $inc: { timetable_version: 1 }
+            },
+            { new: true, runValidators: true }
+        );
+
+        // Log the calculation settings update
+        const auditLogger = new AuditLogger(req);
+        await auditLogger.logPrayerCalculationUpdated(mosque, oldSettings, mosque.prayer_calculation);
+
+        await alertTimetableChanged(mosque, before);
+
+        res.json({ message: 'Prayer calculation settings updated', prayer_calculation: mosque.prayer_calculation });
+    } catch (err) {
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+// Update Mosque Facilities (Admin)
+// Amenities left out of the body keep their current value
+router.put('/:id/facilities', auth, requireMosquePermission('mosque.edit'), async (req, res) => {
+    try {
+        const currentMosque = await Mosque.findById(req.params.id);
+        if (!currentMosque) return res.status(404).json({ error: 'Mosque not found' });
 
-        if (search) {
-            query.$text = { $search: search };
+        const oldFacilities = toFacilitiesResponse(currentMosque.facilities);
+        const input = { ...oldFacilities, ...req.body };
+
+        const validation = validateFacilities(input);
+        if (!validation.valid) {
+            return res.status(400).json({ error: validation.error, code: 'INVALID_FACILITIES' });
         }
 
-        const mosques = await Mosque.find(query)
-            .select('name location description contact_email contact_phone')
-            .limit(limit * 1)
-            .skip((page - 1) * limit);
+        const mosque = await Mosque.findByIdAndUpdate(
+            req.params.id,
+            { facilities: normalizeFacilities(input) },
+            { new: true, runValidators: true }
+        );
+        const facilities = toFacilitiesResponse(mosque.facilities);
 
-        const total = await Mosque.countDocuments(query);
+        // Log the facilities update as a details change
+        const auditLogger = new AuditLogger(req);
+        await auditLogger.logMosqueDetailsUpdated(mosque, { facilities: oldFacilities }, { facilities });
 
-        // Transform the response to match API spec - return only public-safe fields
-        const transformedMosques = mosques.map(mosque => ({
-            id: mosque._id,
-            name: mosque.name,
-            location: mosque.location,
-            description: mosque.description || '',
-            contact_email: mosque.contact_email || '',
-            contact_phone: mosque.contact_phone || ''
-        }));
+        res.json({ message: 'Mosque facilities updated', facilities });
+    } catch (err) {
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+// Single image upload held in memory; it is resized before anything is stored
+const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_PHOTO_BYTES, files: 1 },
+    fileFilter: (req, file, cb) => {
+        if (!ALLOWED_PHOTO_TYPES.includes(file.mimetype)) {
+            return cb(new Error('Only JPEG, PNG and WebP images are allowed'));
+        }
+        cb(null, true);
+    }
+}).single('photo');
+
+const photoUpload = (req, res, next) => {
+    upload(req, res, (err) => {
+        if (!err) return next();
+        if (err.code === 'LIMIT_FILE_SIZE') {
+            return res.status(400).json({
+                error: `Photo must be smaller than ${MAX_PHOTO_BYTES / (1024 * 1024)} MB`,
+                code: 'PHOTO_TOO_LARGE'
+            });
+        }
+        res.status(400).json({ error: err.message, code: 'INVALID_UPLOAD' });
+    });
+};
+
+// Get Approved Gallery Photos (Public)
+router.get('/:id/photos', async (req, res) => {
+    try {
+        const photos = await MosquePhoto.find({ mosque_id: req.params.id, status: 'approved' })
+            .sort({ createdAt: -1 });
 
-        // Cache for 5 minutes on edge, revalidate in background for 10 minutes
         res.setHeader('Cache-Control', 'public, s-maxage=300, stale-while-revalidate=600');
+        res.json({ photos: photos.map(photo => toPhotoResponse(photo)) });
+    } catch (err) {
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+// Get All Gallery Photos with Moderation Status (Admin)
+router.get('/:id/photos/manage', auth, requireMosquePermission('photos.manage'), async (req, res) => {
+    try {
+        const photos = await MosquePhoto.find({ mosque_id: req.params.id }).sort({ createdAt: -1 });
 
         res.json({
-            mosques: transformedMosques,
+            photos: photos.map(photo => toPhotoResponse(photo, { includeModeration: true })),
+            limit: MAX_PHOTOS_PER_MOSQUE
+        });
+    } catch (err) {
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+// Preview a Gallery Photo in Any Moderation State (Admin)
+// Signed links come from the admin and moderation listings, so an <img> tag can load them without the access token
+router.get('/:id/photos/:photoId/preview/:variant', async (req, res) => {
+    try {
+        const { photoId, variant } = req.params;
+        if (!mongoose.Types.ObjectId.isValid(req.params.id) || !mongoose.Types.ObjectId.isValid(photoId) ||
+            !isPhotoPreviewValid(photoId, variant, req.query.expires, req.query.signature)) {
+            return res.status(403).json({ error: 'This preview link is invalid or has expired', code: 'INVALID_PREVIEW_LINK' });
+        }
+
+        const photo = await MosquePhoto.findOne({ _id: photoId, mosque_id: req.params.id });
+        if (!photo) return res.status(404).json({ error: 'Photo not found', code: 'PHOTO_NOT_FOUND' });
+
+        const contents = await readPhotoVariant(photo, variant);
+
+        res.set({
+            'Content-Type': 'image/webp',
+            'Content-Length': contents.length,
+            'Cache-Control': 'private, no-store',
+            'X-Content-Type-Options': 'nosniff'
+        });
+        res.send(contents);
+    } catch (err) {
+        console.error('Error streaming photo preview:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
+// Upload Gallery Photo (Admin)
+// multipart/form-data with a "photo" file and optional "caption"; photos stay hidden until a super admin approves them
+router.post('/:id/photos', auth, requireMosquePermission('photos.manage'), photoUpload, async (req, res) => {
+    try {
+        if (!req.file) {
+            return res.status(400).json({ error: 'A photo file is required', code: 'PHOTO_REQUIRED' });
+        }
+
+        const caption = (req.body.caption || '').trim();
+        if (caption.length > MAX_CAPTION_LENGTH) {
+            return res.status(400).json({
+                error: `Caption cannot exceed ${MAX_CAPTION_LENGTH} characters`,
+                code: 'INVALID_CAPTION'
+            });
+        }
+
+        const mosque = await Mosque.findById(req.params.id);
+        if (!mosque) return res.status(404).json({ error: 'Mosque not found' });
+
+        const photoCount = await MosquePhoto.countDocuments({ mosque_id: mosque._id });
+        if (photoCount >= MAX_PHOTOS_PER_MOSQUE) {
+            return res.status(400).json({
+                error: `A mosque can have at most ${MAX_PHOTOS_PER_MOSQUE} photos. Delete one before uploading another.`,
+                code: 'PHOTO_LIMIT_REACHED'
+            });
+        }
+
+        // The id is needed up front because it is part of the stored file names
+        const photoId = new mongoose.Types.ObjectId();
+        let variants;
+        try {
+            variants = await storePhotoVariants(mosque._id.toString(), photoId.toString(), req.file.buffer);
+        } catch (err) {
+            return res.status(400).json({ error: 'The uploaded file is not a readable image', code: 'INVALID_IMAGE' });
+        }
+
+        const photo = await MosquePhoto.create({
+            _id: photoId,
+            mosque_id: mosque._id,
+            caption,
+            variants,
+            original_name: req.file.originalname,
+            original_size: req.file.size,
+            uploaded_by: req.user.userId
+        });
+
+        // Log the upload
+        const auditLogger = new AuditLogger(req);
+        await auditLogger.logPhotoChanged(mosque, 'uploaded', photo, 'Awaiting moderation', null, toPhotoResponse(photo));
+
+        res.status(201).json({
+            message: 'Photo uploaded and awaiting approval',
+            photo: toPhotoResponse(photo, { includeModeration: true })
+        });
+    } catch (err) {
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+// Delete Gallery Photo (Admin)
+router.delete('/:id/photos/:photoId', auth, requireMosquePermission('photos.manage'), async (req, res) => {
+    try {
+        const photo = await MosquePhoto.findOne({ _id: req.params.photoId, mosque_id: req.params.id });
+        if (!photo) return res.status(404).json({ error: 'Photo not found', code: 'PHOTO_NOT_FOUND' });
+
+        const mosque = await Mosque.findById(req.params.id);
+        if (!mosque) return res.status(404).json({ error: 'Mosque not found' });
+
+        await removePhotoVariants(photo);
+        await photo.deleteOne();
+        await refreshCoverPhoto(mosque._id);
+
+        // Log the deletion
+        const auditLogger = new AuditLogger(req);
+        await auditLogger.logPhotoChanged(mosque, 'deleted', photo, '', toPhotoResponse(photo, { includeModeration: true }), null);
+
+        res.json({ message: 'Photo deleted' });
+    } catch (err) {
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+// Get Announcements and Events (Public)
+// ?page=&limit= - pinned announcements come first, expired ones are left out
+router.get('/:id/announcements', async (req, res) => {
+    try {
+        const pageNumber = Math.max(parseInt(req.query.page) || 1, 1);
+        const limitNumber = Math.min(Math.max(parseInt(req.query.limit) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+        const filter = visibleAnnouncementFilter(req.params.id);
+        const [announcements, total] = await Promise.all([
+            Announcement.find(filter)
+                .sort(ANNOUNCEMENT_SORT)
+                .skip((pageNumber - 1) * limitNumber)
+                .limit(limitNumber),
+            Announcement.countDocuments(filter)
+        ]);
+
+        res.setHeader('Cache-Control', 'public, s-maxage=300, stale-while-revalidate=600');
+        res.json({
+            announcements: announcements.map(announcement => toAnnouncementResponse(announcement)),
             pagination: {
-                page: parseInt(page),
-                limit: parseInt(limit),
+                page: pageNumber,
+                limit: limitNumber,
                 total
             }
         });
@@ -50,111 +1111,422 @@ router.get('/', async (req, res) => {
     }
 });
 
-// Get Single Mosque Details (Public)
-router.get('/:id', async (req, res) => {
+// Announcements Atom Feed (Public)
+// For feed readers; carries the latest announcements that have not expired
+router.get('/:id/announcements.atom', async (req, res) => {
     try {
         const mosque = await Mosque.findById(req.params.id);
         if (!mosque) return res.status(404).json({ error: 'Mosque not found', code: 'MOSQUE_NOT_FOUND' });
 
+        const announcements = await Announcement.find(visibleAnnouncementFilter(mosque._id))
+            .sort(ANNOUNCEMENT_SORT)
+            .limit(FEED_ENTRY_LIMIT);
+        const feed = buildAnnouncementFeed(mosque, announcements, {
+            selfUrl: `${req.protocol}://${req.get('host')}${req.originalUrl}`,
+            host: req.hostname
+        });
+
+        res.setHeader('Content-Type', 'application/atom+xml; charset=utf-8');
+        res.setHeader('Cache-Control', 'no-cache');
+        res.send(feed);
+    } catch (err) {
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+// Get All Announcements Including Expired Ones (Admin)
+router.get('/:id/announcements/manage', auth, requireMosquePermission('announcements.manage'), async (req, res) => {
+    try {
+        const announcements = await Announcement.find({ mosque_id: req.params.id }).sort(ANNOUNCEMENT_SORT);
+
         res.json({
-            mosque: {
-                id: mosque._id,
-                name: mosque.name,
-                location: mosque.location,
-                description: mosque.description || '',
-                verification_code: mosque.verification_code || '',
-                verification_code_expires: mosque.verification_code_expires || null,
-                contact_email: mosque.contact_email || '',
-                contact_phone: mosque.contact_phone || '',
-                admin_instructions: mosque.admin_instructions || '',
-                createdAt: mosque.createdAt,
-                updatedAt: mosque.updatedAt,
-                prayer_times: mosque.prayer_times || {
-                    fajr: null,
-                    dhuhr: null,
-                    asr: null,
-                    maghrib: null,
-                    isha: null,
-                    jummah: null
-                }
-            }
+            announcements: announcements.map(announcement => toAnnouncementResponse(announcement, { includeExpiry: true }))
         });
     } catch (err) {
         res.status(500).json({ error: 'Server error' });
     }
 });
 
-// Get Mosque Prayer Times (Public)
-router.get('/:id/prayer-times', async (req, res) => {
+// Post Announcement or Event (Admin)
+router.post('/:id/announcements', auth, requireMosquePermission('announcements.manage'), async (req, res) => {
     try {
         const mosque = await Mosque.findById(req.params.id);
-        if (!mosque) return res.status(404).json({ error: 'Mosque not found', code: 'MOSQUE_NOT_FOUND' });
+        if (!mosque) return res.status(404).json({ error: 'Mosque not found' });
+
+        const { data, error } = buildAnnouncementData(req.body);
+        if (error) return res.status(400).json({ error, code: 'INVALID_ANNOUNCEMENT' });
+
+        const announcement = await Announcement.create({
+            ...data,
+            mosque_id: mosque._id,
+            created_by: req.user.userId,
+            updated_by: req.user.userId
+        });
+
+        const auditLogger = new AuditLogger(req);
+        await auditLogger.logAnnouncementChanged(mosque, 'created', announcement, null, toAnnouncementSnapshot(announcement));
+
+        res.status(201).json({
+            message: 'Announcement posted',
+            announcement: toAnnouncementResponse(announcement, { includeExpiry: true })
+        });
+    } catch (err) {
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+// Update Announcement or Event (Admin)
+// Fields left out of the body keep their current value
+router.put('/:id/announcements/:announcementId', auth, requireMosquePermission('announcements.manage'), async (req, res) => {
+    try {
+        const mosque = await Mosque.findById(req.params.id);
+        if (!mosque) return res.status(404).json({ error: 'Mosque not found' });
+
+        const announcement = await Announcement.findOne({ _id: req.params.announcementId, mosque_id: req.params.id });
+        if (!announcement) return res.status(404).json({ error: 'Announcement not found', code: 'ANNOUNCEMENT_NOT_FOUND' });
+
+        const beforeData = toAnnouncementSnapshot(announcement);
+        const { data, error } = buildAnnouncementData({ ...announcement.toObject(), ...req.body });
+        if (error) return res.status(400).json({ error, code: 'INVALID_ANNOUNCEMENT' });
+
+        announcement.set({ ...data, updated_by: req.user.userId });
+        await announcement.save();
+
+        const auditLogger = new AuditLogger(req);
+        await auditLogger.logAnnouncementChanged(mosque, 'updated', announcement, beforeData, toAnnouncementSnapshot(announcement));
 
         res.json({
-            mosque: {
-                id: mosque._id,
-                name: mosque.name,
-                location: mosque.location
-            },
-            prayer_times: mosque.prayer_times || {
-                fajr: null,
-                dhuhr: null,
-                asr: null,
-                maghrib: null,
-                isha: null,
-                jummah: null
-            }
+            message: 'Announcement updated',
+            announcement: toAnnouncementResponse(announcement, { includeExpiry: true })
         });
     } catch (err) {
         res.status(500).json({ error: 'Server error' });
     }
 });
 
+// Delete Announcement or Event (Admin)
+router.delete('/:id/announcements/:announcementId', auth, requireMosquePermission('announcements.manage'), async (req, res) => {
+    try {
+        const mosque = await Mosque.findById(req.params.id);
+        if (!mosque) return res.status(404).json({ error: 'Mosque not found' });
+
+        const announcement = await Announcement.findOneAndDelete({ _id: req.params.announcementId, mosque_id: req.params.id });
+        if (!announcement) return res.status(404).json({ error: 'Announcement not found', code: 'ANNOUNCEMENT_NOT_FOUND' });
 
-// Update Prayer Times (Admin)
-router.put('/:id/prayer-times', auth, requireAdmin, async (req, res) => {
+        const auditLogger = new AuditLogger(req);
+        await auditLogger.logAnnouncementChanged(mosque, 'deleted', announcement, toAnnouncementSnapshot(announcement), null);
+
+        res.json({ message: 'Announcement deleted' });
+    } catch (err) {
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+const toMemberResponse = (admin, currentAdminId) => {
+    const membership = getMembership(admin);
+    return {
+        id: admin._id,
+        name: admin.name,
+        email: admin.email,
+        phone: admin.phone,
+        mosque_role: membership.role,
+        role_label: membership.role_label,
+        joined_at: admin.approved_at || admin.createdAt,
+        invited: !!admin.invited_by,
+        is_you: admin._id.toString() === currentAdminId
+    };
+};
+
+const toInvitationResponse = (invitation) => ({
+    id: invitation._id,
+    email: invitation.email,
+    mosque_role: invitation.mosque_role,
+    role_label: MOSQUE_ROLES[invitation.mosque_role].label,
+    status: getInvitationStatus(invitation),
+    expires_at: invitation.expires_at,
+    opened_at: invitation.opened_at,
+    created_at: invitation.createdAt
+});
+
+// Super admins' application invitations are not the team's to manage
+const openInvitationFilter = (mosqueId) => ({
+    mosque_id: mosqueId,
+    purpose: { $ne: 'application' },
+    accepted_at: null,
+    revoked_at: null,
+    expires_at: { $gt: new Date() }
+});
+
+// List the Mosque's Admin Team (Admin)
+// Open invitations are only included for admins who can manage the team
+router.get('/:id/members', auth, requireMosquePermission('mosque.view'), async (req, res) => {
     try {
-        if (req.user.mosque_id.toString() !== req.params.id) return res.status(403).json({ error: 'Not authorized to update this mosque' });
+        const members = await Admin.find({ mosque_id: req.params.id, status: 'approved' })
+            .select('name email phone mosque_role invited_by approved_at createdAt')
+            .sort({ approved_at: 1, createdAt: 1 });
 
-        // Get current mosque data for audit logging
-        const currentMosque = await Mosque.findById(req.params.id);
-        if (!currentMosque) return res.status(404).json({ error: 'Mosque not found' });
+        const canManage = req.membership.permissions.includes('members.manage');
+        const invitations = canManage
+            ? await MosqueInvitation.find(openInvitationFilter(req.params.id)).sort({ createdAt: -1 })
+            : [];
 
-        const oldPrayerTimes = currentMosque.prayer_times;
-        const { fajr, dhuhr, asr, maghrib, isha, jummah } = req.body;
-        const newPrayerTimes = { fajr, dhuhr, asr, maghrib, isha, jummah };
+        res.json({
+            membership: req.membership,
+            roles: listMosqueRoles(),
+            members: members.map(member => toMemberResponse(member, req.user.userId)),
+            invitations: invitations.map(toInvitationResponse)
+        });
+    } catch (err) {
+        console.error('Error listing mosque members:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
 
-        const mosque = await Mosque.findByIdAndUpdate(req.params.id, { prayer_times: newPrayerTimes }, { new: true });
+// Invite Someone to the Mosque's Admin Team by Email (Owner)
+// The link replaces sharing the mosque verification code; a newer invitation to the same email replaces older ones
+router.post('/:id/invitations', auth, requireMosquePermission('members.manage'), async (req, res) => {
+    try {
+        const { email, mosque_role } = req.body;
+
+        const emailValidation = validateEmail(email);
+        if (!emailValidation.valid) {
+            return res.status(400).json({ error: emailValidation.error, code: 'INVALID_EMAIL' });
+        }
+        if (!MOSQUE_ROLES[mosque_role]) {
+            return res.status(400).json({
+                error: `Role must be one of: ${Object.keys(MOSQUE_ROLES).join(', ')}`,
+                code: 'INVALID_ROLE'
+            });
+        }
+
+        const normalizedEmail = email.trim().toLowerCase();
+        const existingAdmin = await Admin.findOne({ email: normalizedEmail }).select('status mosque_id');
+        if (existingAdmin && ['approved', 'pending'].includes(existingAdmin.status)) {
+            const sameMosque = existingAdmin.mosque_id?.toString() === req.params.id;
+            return res.status(409).json({
+                error: sameMosque && existingAdmin.status === 'approved'
+                    ? 'This person is already on your mosque\'s team'
+                    : 'This email already manages or has applied for a mosque',
+                code: sameMosque && existingAdmin.status === 'approved' ? 'ALREADY_MEMBER' : 'EMAIL_IN_USE'
+            });
+        }
+
+        const mosque = await Mosque.findById(req.params.id);
+        if (!mosque) return res.status(404).json({ error: 'Mosque not found', code: 'MOSQUE_NOT_FOUND' });
+        const inviter = await Admin.findById(req.user.userId).select('name');
+
+        await MosqueInvitation.updateMany(
+            { ...openInvitationFilter(mosque._id), email: normalizedEmail },
+            { $set: { revoked_at: new Date() } }
+        );
+
+        const { token, token_hash, expires_at } = createInvitationToken();
+        const invitation = await MosqueInvitation.create({
+            mosque_id: mosque._id,
+            email: normalizedEmail,
+            mosque_role,
+            token_hash,
+            invited_by: req.user.userId,
+            expires_at
+        });
+
+        // A failed attempt stays in the outbox and is retried until the invitation expires
+        const invitationEmail = await queueTemplatedEmail('mosque_invitation', { email: normalizedEmail }, {
+            purpose: 'team',
+            inviter_name: inviter?.name || 'A mosque admin',
+            mosque_name: mosque.name,
+            role_label: MOSQUE_ROLES[mosque_role].label,
+            invitation_path: buildInvitationPath(token, invitation),
+            expires_at
+        }, { expiresAt: expires_at, containsSecret: true });
+        const emailDelayed = invitationEmail.status !== 'sent';
 
-        // Log the prayer times update
         const auditLogger = new AuditLogger(req);
-        await auditLogger.logPrayerTimesUpdated(mosque, oldPrayerTimes, newPrayerTimes);
+        await auditLogger.logMosqueMemberInvited(mosque, invitation, MOSQUE_ROLES[mosque_role].label);
 
-        res.json({ message: 'Prayer times updated', prayer_times: mosque.prayer_times });
+        res.status(201).json({
+            message: emailDelayed
+                ? `Invitation created for ${normalizedEmail}. The email is taking longer than usual and will arrive within a few minutes.`
+                : `Invitation sent to ${normalizedEmail}`,
+            email_delayed: emailDelayed,
+            invitation: toInvitationResponse(invitation)
+        });
     } catch (err) {
-        res.status(500).json({ error: 'Server error' });
+        console.error('Error inviting mosque member:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
     }
 });
 
-// Update Mosque Details (Admin)
-router.put('/:id', auth, requireAdmin, async (req, res) => {
+// Revoke an Open Invitation (Owner)
+router.delete('/:id/invitations/:invitationId', auth, requireMosquePermission('members.manage'), async (req, res) => {
+    try {
+        if (!mongoose.Types.ObjectId.isValid(req.params.invitationId)) {
+            return res.status(404).json({ error: 'Invitation not found', code: 'INVITATION_NOT_FOUND' });
+        }
+
+        const invitation = await MosqueInvitation.findOneAndUpdate(
+            { _id: req.params.invitationId, ...openInvitationFilter(req.params.id) },
+            { $set: { revoked_at: new Date() } },
+            { new: true }
+        );
+        if (!invitation) {
+            return res.status(404).json({ error: 'Invitation not found', code: 'INVITATION_NOT_FOUND' });
+        }
+
+        res.json({ message: `Invitation to ${invitation.email} revoked` });
+    } catch (err) {
+        console.error('Error revoking invitation:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
+// Loads another approved admin of the mosque for the owner-only member routes
+const findOtherMember = async (req, res) => {
+    if (req.params.adminId === req.user.userId) {
+        res.status(400).json({
+            error: 'You cannot change your own membership. Ask another owner.',
+            code: 'CANNOT_CHANGE_OWN_MEMBERSHIP'
+        });
+        return null;
+    }
+    const member = mongoose.Types.ObjectId.isValid(req.params.adminId)
+        ? await Admin.findOne({ _id: req.params.adminId, mosque_id: req.params.id, status: 'approved' })
+        : null;
+    if (!member) {
+        res.status(404).json({ error: 'Team member not found', code: 'MEMBER_NOT_FOUND' });
+        return null;
+    }
+    return member;
+};
+
+// Change a Team Member's Role (Owner)
+// Permissions are read on every request, so the change applies to their open sessions straight away
+router.put('/:id/members/:adminId', auth, requireMosquePermission('members.manage'), async (req, res) => {
+    try {
+        const { mosque_role } = req.body;
+        if (!MOSQUE_ROLES[mosque_role]) {
+            return res.status(400).json({
+                error: `Role must be one of: ${Object.keys(MOSQUE_ROLES).join(', ')}`,
+                code: 'INVALID_ROLE'
+            });
+        }
+
+        const member = await findOtherMember(req, res);
+        if (!member) return;
+
+        const mosque = await Mosque.findById(req.params.id);
+        if (!mosque) return res.status(404).json({ error: 'Mosque not found', code: 'MOSQUE_NOT_FOUND' });
+
+        const previous = getMembership(member);
+        member.mosque_role = mosque_role;
+        await member.save();
+        const updated = getMembership(member);
+
+        const auditLogger = new AuditLogger(req);
+        await auditLogger.logMosqueMemberRoleChanged(
+            member,
+            mosque,
+            { mosque_role: previous.role, role_label: previous.role_label },
+            { mosque_role: updated.role, role_label: updated.role_label }
+        );
+
+        res.json({
+            message: `${member.name} is now ${updated.role_label}`,
+            member: toMemberResponse(member, req.user.userId)
+        });
+    } catch (err) {
+        console.error('Error changing mosque member role:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
+// Remove a Team Member (Owner)
+// Unlike a super admin removal, the mosque verification code stays the same
+router.delete('/:id/members/:adminId', auth, requireMosquePermission('members.manage'), async (req, res) => {
     try {
-        if (req.user.mosque_id.toString() !== req.params.id) return res.status(403).json({ error: 'Not authorized to update this mosque' });
+        const reason = (req.body?.reason || '').trim() || 'Removed by the mosque owner';
+
+        const member = await findOtherMember(req, res);
+        if (!member) return;
+
+        const mosque = await Mosque.findById(req.params.id);
+        if (!mosque) return res.status(404).json({ error: 'Mosque not found', code: 'MOSQUE_NOT_FOUND' });
+
+        member.status = 'admin_removed';
+        member.admin_removal_reason = reason;
+        member.admin_removal_date = new Date();
+        member.removed_from_mosque_name = mosque.name;
+        member.removed_from_mosque_location = mosque.location;
+        member.removed_by_owner = req.user.userId;
+        member.mosque_id = null;
+        member.can_reapply = true;
+        await member.save();
+
+        await revokeUserSessions(member._id, 'admin', 'admin_removed');
+
+        const auditLogger = new AuditLogger(req);
+        await auditLogger.logMosqueMemberRemoved(member, mosque, reason);
 
+        await notifyAdmin('admin_removed', member, { mosque_name: mosque.name, reason });
+
+        res.json({ message: `${member.name} has been removed from the team` });
+    } catch (err) {
+        console.error('Error removing mosque member:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
+// Update Mosque Details (Admin)
+router.put('/:id', auth, requireMosquePermission('mosque.edit'), async (req, res) => {
+    try {
         // Get current mosque data for audit logging
         const currentMosque = await Mosque.findById(req.params.id);
         if (!currentMosque) return res.status(404).json({ error: 'Mosque not found' });
 
+        const coordinatesInput = readCoordinatesInput(req.body);
+        if (coordinatesInput.error) {
+            return res.status(400).json({ error: coordinatesInput.error, code: 'INVALID_COORDINATES' });
+        }
+
+        const addressInput = readAddressInput(req.body);
+        if (addressInput.error) {
+            return res.status(400).json({ error: addressInput.error, code: 'INVALID_ADDRESS' });
+        }
+
         const beforeData = {
             name: currentMosque.name,
             location: currentMosque.location,
-            description: currentMosque.description
+            address: toAddressResponse(currentMosque.address),
+            description: currentMosque.description,
+            coordinates: fromGeoPoint(currentMosque.coordinates)
         };
 
         const { name, location, description } = req.body;
         const afterData = { name, location, description };
+        const update = { ...afterData };
+        const unset = {};
+
+        if (coordinatesInput.provided) {
+            afterData.coordinates = fromGeoPoint(coordinatesInput.point);
+            if (coordinatesInput.point) {
+                update.coordinates = coordinatesInput.point;
+            } else {
+                unset.coordinates = 1;
+            }
+        }
+
+        if (addressInput.provided) {
+            afterData.address = toAddressResponse(addressInput.address);
+            if (addressInput.address) {
+                update.address = addressInput.address;
+            } else {
+                unset.address = 1;
+            }
+        }
+
+        if (Object.keys(unset).length > 0) update.$unset = unset;
 
-        const mosque = await Mosque.findByIdAndUpdate(req.params.id, afterData, { new: true });
+        const mosque = await Mosque.findByIdAndUpdate(req.params.id, update, { new: true });
 
         // Log the mosque details update
         const auditLogger = new AuditLogger(req);
@@ -167,17 +1539,39 @@ router.put('/:id', auth, requireAdmin, async (req, res) => {
 });
 
 // Create New Mosque (Super Admin)
-router.post('/', auth, requireSuperAdmin, async (req, res) => {
+router.post('/', auth, requirePermission('mosques.create'), async (req, res) => {
     try {
         const {
             name,
-            location,
             description,
             contact_phone,
             contact_email,
             admin_instructions
         } = req.body;
 
+        // Validate structured address if provided
+        const addressInput = readAddressInput(req.body);
+        if (addressInput.error) {
+            return res.status(400).json({
+                error: addressInput.error,
+                code: 'INVALID_ADDRESS'
+            });
+        }
+
+        // Regional managers add mosques in their own province only
+        if (req.access.province) {
+            if (addressInput.address?.province && addressInput.address.province !== req.access.province) {
+                return res.status(400).json({
+                    error: `Mosque address must be in ${req.access.province}`,
+                    code: 'PROVINCE_OUT_OF_SCOPE'
+                });
+            }
+            addressInput.address = { ...addressInput.address, province: req.access.province };
+        }
+
+        // A structured address stands in for a missing location line
+        const location = req.body.location || formatAddress(addressInput.address);
+
         // Comprehensive validation for required fields
         if (!name || !location) {
             return res.status(400).json({
@@ -278,8 +1672,17 @@ router.post('/', auth, requireSuperAdmin, async (req, res) => {
             }
         }
 
-        // Generate unique verification code
-        const verification_code = crypto.randomBytes(8).toString('hex').toUpperCase();
+        // Validate map coordinates if provided
+        const coordinatesInput = readCoordinatesInput(req.body);
+        if (coordinatesInput.error) {
+            return res.status(400).json({
+                error: coordinatesInput.error,
+                code: 'INVALID_COORDINATES'
+            });
+        }
+
+        // Generate unique verification code; only its hash is stored, so it is revealed once below
+        const verification_code = generateVerificationCode();
 
         // Set verification code expiry (30 days from now)
         const verification_code_expires = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
@@ -293,11 +1696,13 @@ router.post('/', auth, requireSuperAdmin, async (req, res) => {
             name: name.trim(),
             location: location.trim(),
             description: description ? description.trim() : '',
-            verification_code,
+            ...toStoredVerificationCode(verification_code),
             verification_code_expires,
             contact_phone: contact_phone ? contact_phone.trim() : '',
             contact_email: contact_email ? contact_email.trim().toLowerCase() : '',
             admin_instructions: admin_instructions ? admin_instructions.trim() : defaultInstructions,
+            coordinates: coordinatesInput.point || undefined,
+            address: addressInput.address || undefined,
             prayer_times: {
                 fajr: '',
                 dhuhr: '',
@@ -321,17 +1726,19 @@ router.post('/', auth, requireSuperAdmin, async (req, res) => {
                 id: mosque._id,
                 name: mosque.name,
                 location: mosque.location,
+                address: toAddressResponse(mosque.address),
                 description: mosque.description,
                 contact_phone: mosque.contact_phone,
                 contact_email: mosque.contact_email,
                 admin_instructions: mosque.admin_instructions,
-                verification_code: mosque.verification_code,
+                coordinates: fromGeoPoint(mosque.coordinates),
+                verification_code,
                 verification_code_expires: mosque.verification_code_expires,
                 created_at: mosque.createdAt
             },
             instructions: {
                 message: "Share the verification code with the trusted mosque management member",
-                verification_code: mosque.verification_code,
+                verification_code,
                 expires_in: "30 days",
                 contact_info: {
                     phone: mosque.contact_phone || "Not provided",
@@ -0,0 +1,114 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import Mosque from '../models/Mosque.js';
+import PushSubscription from '../models/PushSubscription.js';
+import { isPushConfigured, getVapidPublicKey, validateSubscription } from '../utils/webPush.js';
+import {
+    REMINDER_MINUTE_OPTIONS,
+    DEFAULT_REMINDER_MINUTES,
+    MAX_SUBSCRIBED_MOSQUES
+} from '../utils/prayerReminders.js';
+
+const router = express.Router();
+
+const toSettingsResponse = (mosqueIds, settings) => ({
+    mosque_ids: mosqueIds.map(String),
+    jamaat_reminders: settings.jamaat_reminders,
+    reminder_minutes: settings.reminder_minutes,
+    time_change_alerts: settings.time_change_alerts
+});
+
+// Web Push Configuration (Public)
+router.get('/config', (req, res) => {
+    res.json({
+        enabled: isPushConfigured(),
+        public_key: getVapidPublicKey(),
+        reminder_minute_options: REMINDER_MINUTE_OPTIONS,
+        default_reminder_minutes: DEFAULT_REMINDER_MINUTES
+    });
+});
+
+// Save a Browser's Prayer Reminders (Public)
+// Replaces the mosques this browser is subscribed to with its current favorites
+router.put('/subscription', async (req, res) => {
+    try {
+        if (!isPushConfigured()) {
+            return res.status(503).json({ error: 'Prayer reminders are not available', code: 'PUSH_NOT_CONFIGURED' });
+        }
+
+        const { subscription, mosque_ids: mosqueIds = [] } = req.body;
+        const validation = validateSubscription(subscription);
+        if (!validation.valid) {
+            return res.status(400).json({ error: validation.error, code: 'INVALID_SUBSCRIPTION' });
+        }
+        if (!Array.isArray(mosqueIds) || mosqueIds.length > MAX_SUBSCRIBED_MOSQUES) {
+            return res.status(400).json({
+                error: `Reminders can be set for up to ${MAX_SUBSCRIBED_MOSQUES} mosques`,
+                code: 'TOO_MANY_MOSQUES'
+            });
+        }
+
+        const settings = {
+            jamaat_reminders: req.body.jamaat_reminders !== false,
+            reminder_minutes: req.body.reminder_minutes === undefined ? DEFAULT_REMINDER_MINUTES : Number(req.body.reminder_minutes),
+            time_change_alerts: req.body.time_change_alerts !== false
+        };
+        if (!REMINDER_MINUTE_OPTIONS.includes(settings.reminder_minutes)) {
+            return res.status(400).json({
+                error: `Reminder time must be one of: ${REMINDER_MINUTE_OPTIONS.join(', ')} minutes`,
+                code: 'INVALID_REMINDER_MINUTES'
+            });
+        }
+
+        // Favorites can outlive a mosque; unknown ids are left out rather than rejected
+        const validIds = [...new Set(mosqueIds.map(String))].filter(id => mongoose.Types.ObjectId.isValid(id));
+        const mosques = await Mosque.find({ _id: { $in: validIds } }).select('_id');
+        const subscribedIds = mosques.map(mosque => mosque._id);
+
+        const { endpoint, keys } = subscription;
+        await PushSubscription.deleteMany({ endpoint, mosque_id: { $nin: subscribedIds } });
+        if (subscribedIds.length > 0) {
+            await PushSubscription.bulkWrite(subscribedIds.map(mosqueId => ({
+                updateOne: {
+                    filter: { endpoint, mosque_id: mosqueId },
+                    update: {
+                        $set: {
+                            keys: { p256dh: keys.p256dh, auth: keys.auth },
+                            ...settings,
+                            user_agent: req.get('user-agent') || null
+                        }
+                    },
+                    upsert: true
+                }
+            })));
+        }
+
+        res.json({
+            message: subscribedIds.length > 0
+                ? `Prayer reminders on for ${subscribedIds.length} mosque${subscribedIds.length === 1 ? '' : 's'}`
+                : 'No favorite mosques to remind you about yet',
+            ...toSettingsResponse(subscribedIds, settings)
+        });
+    } catch (err) {
+        console.error('Error saving push subscription:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
+// Turn Off a Browser's Prayer Reminders (Public)
+router.delete('/subscription', async (req, res) => {
+    try {
+        const { endpoint } = req.body;
+        if (!endpoint || typeof endpoint !== 'string') {
+            return res.status(400).json({ error: 'Subscription endpoint is required', code: 'INVALID_SUBSCRIPTION' });
+        }
+
+        await PushSubscription.deleteMany({ endpoint });
+        res.json({ message: 'Prayer reminders turned off' });
+    } catch (err) {
+        console.error('Error deleting push subscription:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
+export default router;
@@ -1,10 +1,12 @@
 import express from 'express';
+import mongoose from 'mongoose';
 import Admin from '../models/Admin.js';
 import SuperAdmin from '../models/SuperAdmin.js';
 import Mosque from '../models/Mosque.js';
 import AuditLog from '../models/AuditLog.js';
-import { auth, requireSuperAdmin } from '../middleware/auth.js';
-import crypto from 'crypto';
+import MosquePhoto from '../models/MosquePhoto.js';
+import Congregant from '../models/Congregant.js';
+import { auth, requireSuperAdmin, requirePermission, requireStepUp } from '../middleware/auth.js';
 import bcrypt from 'bcrypt';
 import AuditLogger from '../utils/auditLogger.js';
 import {
@@ -16,23 +18,107 @@ import {
     sanitizeEmail,
     sanitizeString
 } from '../utils/validators.js';
+import { fromGeoPoint, readCoordinatesInput } from '../utils/geo.js';
+import { readAddressInput, toAddressResponse } from '../utils/address.js';
+import { publishPhotoVariants, unpublishPhotoVariants, refreshCoverPhoto, toPhotoResponse } from '../utils/photos.js';
+import { serializeMosque } from '../utils/mosqueSerializer.js';
+import { deleteMosqueData } from '../utils/mosqueData.js';
+import { generateVerificationCode, hashVerificationCode, toStoredVerificationCode } from '../utils/verificationCode.js';
+import { revokeUserSessions } from '../utils/sessions.js';
+import { getMembership } from '../utils/mosqueRoles.js';
+import {
+    INVITATION_STATUSES,
+    createInvitationToken,
+    buildInvitationPath,
+    isInvitationOpen,
+    getInvitationStatus,
+    invitationStatusFilter
+} from '../utils/invitations.js';
+import MosqueInvitation from '../models/MosqueInvitation.js';
+import { notifyAdmin, notifyAdmins, queueTemplatedEmail, resendNotification } from '../utils/notifications.js';
+import NotificationOutbox from '../models/NotificationOutbox.js';
+import {
+    DOCUMENT_REVIEW_STATUSES,
+    MAX_INFO_MESSAGE_LENGTH,
+    readApplicationDocument,
+    toDocumentResponse,
+    getOpenInfoRequest,
+    toInfoRequestResponse
+} from '../utils/applicationDocuments.js';
+import {
+    ROLES,
+    ROLE_NAMES,
+    getAccess,
+    readRoleInput,
+    mosqueScope,
+    scopedMosqueIds,
+    adminScope,
+    canAccessMosque,
+    canAccessAdmin
+} from '../utils/permissions.js';
 
 const router = express.Router();
 
+// Regional managers asking for an admin or mosque outside their province
+const outOfScope = (res) => res.status(403).json({
+    error: 'This record is outside your region',
+    code: 'OUT_OF_SCOPE'
+});
+
+// After a code regeneration, admins who joined with the old code must enter the new one at their next login.
+// Admins who joined through an owner's or a super admin's invitation never had the code and keep their access.
+const suspendCodeMembers = async (mosque, oldCodePrefix, superAdminId) => {
+    const members = await Admin.find({
+        mosque_id: mosque._id,
+        status: 'approved',
+        invited_by: null,
+        application_invitation_id: null
+    })
+        .select('name email phone preferred_language');
+
+    if (members.length > 0) {
+        await Admin.updateMany(
+            { _id: { $in: members.map(member => member._id) } },
+            {
+                $set: {
+                    status: 'code_regenerated',
+                    code_regeneration_reason: 'Mosque verification code was regenerated by super admin',
+                    code_regeneration_date: new Date(),
+                    code_regenerated_by: superAdminId,
+                    previous_mosque_code: oldCodePrefix,
+                    code_regenerated_mosque_name: mosque.name,
+                    code_regenerated_mosque_location: mosque.location,
+                    can_reapply: true
+                }
+            }
+        );
+        await notifyAdmins('code_regenerated', members, { mosque_name: mosque.name });
+    }
+
+    return members.map(member => ({ admin_id: member._id, name: member.name, email: member.email, phone: member.phone }));
+};
+
 // Dashboard Stats
-router.get('/dashboard/stats', auth, requireSuperAdmin, async (req, res) => {
+router.get('/dashboard/stats', auth, requirePermission('dashboard.view'), async (req, res) => {
     try {
-        const totalMosques = await Mosque.countDocuments();
+        // Regional managers see the numbers for their province only; rejected admins
+        // are counted through the mosques they were rejected from
+        const mosqueIds = await scopedMosqueIds(req);
+        const scopedAdmins = mosqueIds
+            ? { $or: [{ mosque_id: { $in: mosqueIds } }, { 'previous_mosque_ids.mosque_id': { $in: mosqueIds } }] }
+            : {};
+        const totalMosques = await Mosque.countDocuments(mosqueScope(req));
 
         // Optimized: Count approved admins with existing mosques in one query
         const approvedMosques = await Admin.countDocuments({
             status: 'approved',
-            mosque_id: { $ne: null }
+            mosque_id: { $ne: null },
+            ...scopedAdmins
         });
 
         // Optimized: Get all other admin status counts in one aggregation query
         const adminStats = await Admin.aggregate([
-            { $match: { status: { $ne: 'approved' } } },
+            { $match: { status: { $ne: 'approved' }, ...scopedAdmins } },
             { $group: { _id: "$status", count: { $sum: 1 } } }
         ]);
 
@@ -48,8 +134,25 @@ router.get('/dashboard/stats', auth, requireSuperAdmin, async (req, res) => {
         const adminRemovedAdmins = statusCounts.admin_removed || 0;
         const codeRegeneratedAdmins = statusCounts.code_regenerated || 0;
 
-        const totalSuperAdmins = await SuperAdmin.countDocuments();
-        const totalAuditLogs = await AuditLog.countDocuments();
+        // Only counted for roles that can open those tabs
+        const totalSuperAdmins = req.access.permissions.includes('superadmins.manage')
+            ? await SuperAdmin.countDocuments()
+            : null;
+        const totalAuditLogs = req.access.permissions.includes('audit.view')
+            ? await AuditLog.countDocuments()
+            : null;
+
+        // Congregant accounts following a mosque in scope, and the mosques with the most followers
+        const totalCongregants = await Congregant.countDocuments(mosqueIds ? { favorite_mosques: { $in: mosqueIds } } : {});
+        const mostFollowed = await Congregant.aggregate([
+            { $unwind: '$favorite_mosques' },
+            ...(mosqueIds ? [{ $match: { favorite_mosques: { $in: mosqueIds } } }] : []),
+            { $group: { _id: '$favorite_mosques', followers: { $sum: 1 } } },
+            { $sort: { followers: -1 } },
+            { $lookup: { from: 'mosques', localField: '_id', foreignField: '_id', as: 'mosque' } },
+            { $unwind: '$mosque' }, // Drops mosques deleted since they were followed
+            { $limit: 5 }
+        ]);
 
         res.json({
             stats: {
@@ -61,7 +164,14 @@ router.get('/dashboard/stats', auth, requireSuperAdmin, async (req, res) => {
                 admin_removed_admins: adminRemovedAdmins,
                 code_regenerated_admins: codeRegeneratedAdmins,
                 total_super_admins: totalSuperAdmins,
-                total_audit_logs: totalAuditLogs
+                total_audit_logs: totalAuditLogs,
+                total_congregants: totalCongregants,
+                most_followed_mosques: mostFollowed.map(entry => ({
+                    mosque_id: entry._id,
+                    name: entry.mosque.name,
+                    location: entry.mosque.location,
+                    followers: entry.followers
+                }))
             }
         });
     } catch (err) {
@@ -70,10 +180,14 @@ router.get('/dashboard/stats', auth, requireSuperAdmin, async (req, res) => {
 });
 
 // Approve Mosque Admin with notes
-router.put('/:id/approve', auth, requireSuperAdmin, async (req, res) => {
+router.put('/:id/approve', auth, requirePermission('requests.review'), async (req, res) => {
     try {
         const { super_admin_notes } = req.body;
 
+        if (!(await canAccessAdmin(req, req.params.id))) {
+            return outOfScope(res);
+        }
+
         const admin = await Admin.findByIdAndUpdate(
             req.params.id,
             {
@@ -90,6 +204,11 @@ router.put('/:id/approve', auth, requireSuperAdmin, async (req, res) => {
         const auditLogger = new AuditLogger(req);
         await auditLogger.logAdminApproved(admin, admin.mosque_id, super_admin_notes);
 
+        await notifyAdmin('admin_approved', admin, {
+            mosque_name: admin.mosque_id?.name,
+            notes: super_admin_notes
+        });
+
         res.json({
             message: 'Super admin approve mosque request by admin and assigned a mosque to admin successfully',
 
@@ -122,7 +241,7 @@ router.put('/:id/approve', auth, requireSuperAdmin, async (req, res) => {
 });
 
 // Reject Mosque Admin - UPDATED (Don't delete, just update status)
-router.put('/:id/reject', auth, requireSuperAdmin, async (req, res) => {
+router.put('/:id/reject', auth, requirePermission('requests.review'), async (req, res) => {
     try {
         const { reason } = req.body;
 
@@ -134,6 +253,10 @@ router.put('/:id/reject', auth, requireSuperAdmin, async (req, res) => {
             });
         }
 
+        if (!(await canAccessAdmin(req, req.params.id))) {
+            return outOfScope(res);
+        }
+
         // Find admin with populated mosque data
         const admin = await Admin.findById(req.params.id).populate('mosque_id');
 
@@ -156,7 +279,8 @@ router.put('/:id/reject', auth, requireSuperAdmin, async (req, res) => {
         const mosqueDetails = admin.mosque_id ? {
             id: admin.mosque_id._id,
             name: admin.mosque_id.name,
-            location: admin.mosque_id.location
+            location: admin.mosque_id.location,
+            verification_code_prefix: admin.mosque_id.verification_code_prefix
         } : null;
 
         // Add current mosque to previous_mosque_ids array (if exists)
@@ -189,14 +313,14 @@ router.put('/:id/reject', auth, requireSuperAdmin, async (req, res) => {
         // If there was a mosque, regenerate its verification code
         let newVerificationCode = null;
         if (mosqueDetails) {
-            const oldCode = mosqueDetails.verification_code || 'unknown';
-            newVerificationCode = crypto.randomBytes(8).toString('hex').toUpperCase();
+            const oldCode = mosqueDetails.verification_code_prefix || 'unknown';
+            newVerificationCode = generateVerificationCode();
             const expiryDate = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
 
             await Mosque.findByIdAndUpdate(
                 mosqueDetails.id,
                 {
-                    verification_code: newVerificationCode,
+                    ...toStoredVerificationCode(newVerificationCode),
                     verification_code_expires: expiryDate
                 }
             );
@@ -215,6 +339,12 @@ router.put('/:id/reject', auth, requireSuperAdmin, async (req, res) => {
         const auditLogger = new AuditLogger(req);
         await auditLogger.logAdminRejected(admin, mosqueDetails, reason.trim());
 
+        await notifyAdmin('admin_rejected', admin, {
+            mosque_name: mosqueDetails?.name,
+            reason: reason.trim(),
+            can_reapply: admin.can_reapply
+        });
+
         res.json({
             success: true,
             message: 'Admin application rejected successfully. Admin account retained with rejected status.',
@@ -262,7 +392,7 @@ router.put('/:id/reject', auth, requireSuperAdmin, async (req, res) => {
 });
 
 // Remove Admin from Mosque - UPDATED (Don't delete, just update status to admin_removed)
-router.put('/admin/:id/remove', auth, requireSuperAdmin, async (req, res) => {
+router.put('/admin/:id/remove', auth, requirePermission('admins.manage'), async (req, res) => {
     try {
         const { removal_reason } = req.body;
 
@@ -274,6 +404,10 @@ router.put('/admin/:id/remove', auth, requireSuperAdmin, async (req, res) => {
             });
         }
 
+        if (!(await canAccessAdmin(req, req.params.id))) {
+            return outOfScope(res);
+        }
+
         // Find admin with populated mosque data
         const admin = await Admin.findById(req.params.id).populate('mosque_id');
 
@@ -296,7 +430,8 @@ router.put('/admin/:id/remove', auth, requireSuperAdmin, async (req, res) => {
         const mosqueDetails = admin.mosque_id ? {
             id: admin.mosque_id._id,
             name: admin.mosque_id.name,
-            location: admin.mosque_id.location
+            location: admin.mosque_id.location,
+            verification_code_prefix: admin.mosque_id.verification_code_prefix
         } : null;
 
         if (!mosqueDetails) {
@@ -318,15 +453,18 @@ router.put('/admin/:id/remove', auth, requireSuperAdmin, async (req, res) => {
 
         await admin.save();
 
+        // Sign the admin out everywhere now rather than when their access token expires
+        const sessionsRevoked = await revokeUserSessions(admin._id, 'admin', 'admin_removed');
+
         // Regenerate mosque verification code so someone else can apply
-        const oldCode = mosqueDetails.verification_code || 'unknown';
-        const newVerificationCode = crypto.randomBytes(8).toString('hex').toUpperCase();
+        const oldCode = mosqueDetails.verification_code_prefix || 'unknown';
+        const newVerificationCode = generateVerificationCode();
         const expiryDate = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
 
         await Mosque.findByIdAndUpdate(
             mosqueDetails.id,
             {
-                verification_code: newVerificationCode,
+                ...toStoredVerificationCode(newVerificationCode),
                 verification_code_expires: expiryDate
             }
         );
@@ -344,6 +482,11 @@ router.put('/admin/:id/remove', auth, requireSuperAdmin, async (req, res) => {
         const auditLogger = new AuditLogger(req);
         await auditLogger.logAdminRemoved(admin, mosqueDetails, removal_reason.trim());
 
+        await notifyAdmin('admin_removed', admin, {
+            mosque_name: mosqueDetails.name,
+            reason: removal_reason.trim()
+        });
+
         res.json({
             success: true,
             message: 'Admin removed from mosque successfully. Admin account retained with admin_removed status.',
@@ -359,6 +502,7 @@ router.put('/admin/:id/remove', auth, requireSuperAdmin, async (req, res) => {
                 removed_from_mosque_location: admin.removed_from_mosque_location,
                 can_reapply: admin.can_reapply
             },
+            sessions_revoked: sessionsRevoked,
             mosque: {
                 ...mosqueDetails,
                 new_verification_code: newVerificationCode,
@@ -393,66 +537,49 @@ router.put('/admin/:id/remove', auth, requireSuperAdmin, async (req, res) => {
 
 
 // Generate new verification code for mosque
-router.put('/mosque/:id/regenerate-code', auth, requireSuperAdmin, async (req, res) => {
+router.put('/mosque/:id/regenerate-code', auth, requirePermission('codes.manage'), async (req, res) => {
     try {
         const { expiry_days = 30 } = req.body;
 
-        const newCode = crypto.randomBytes(8).toString('hex').toUpperCase();
+        if (!(await canAccessMosque(req, req.params.id))) {
+            return outOfScope(res);
+        }
+
+        const newCode = generateVerificationCode();
         const expiryDate = new Date(Date.now() + expiry_days * 24 * 60 * 60 * 1000);
 
+        const previous = await Mosque.findById(req.params.id).select('verification_code_prefix');
+        if (!previous) {
+            return res.status(404).json({ error: 'Mosque not found' });
+        }
+
         const mosque = await Mosque.findByIdAndUpdate(
             req.params.id,
             {
-                verification_code: newCode,
+                ...toStoredVerificationCode(newCode),
                 verification_code_expires: expiryDate
             },
             { new: true }
         );
 
-        if (!mosque) {
-            return res.status(404).json({ error: 'Mosque not found' });
-        }
-
-        const mosque_admin = await Admin.findOneAndDelete({ mosque_id: req.params.id });
+        const adminsSuspended = await suspendCodeMembers(mosque, previous.verification_code_prefix, req.user.userId);
 
         // Log the verification code regeneration (single mosque)
         const auditLogger = new AuditLogger(req);
-        await auditLogger.logCodeRegenerated(mosque, 'old_code', newCode, new Date(Date.now() + expiry_days * 24 * 60 * 60 * 1000));
-
-        if (mosque_admin) {
-            return res.json({
-                message: 'Verification code regenerated successfully and Mosque admin removed register again for mosque managment ',
-                mosque: {
-                    id: mosque._id,
-                    name: mosque.name,
-                    verification_code: newCode,
-                    expires_at: expiryDate
-                },
-                adminRemove: {
-                    name: mosque_admin.name,
-                    email: mosque_admin.email,
-                    phone: mosque_admin.phone,
-                    verification_code_used: mosque_admin.verification_code_used
-
-                }
-            });
-        }
-
+        await auditLogger.logCodeRegenerated(mosque, previous.verification_code_prefix, newCode, expiryDate);
 
-        return res.json({
-            message: 'Verification code regenerated successfully  ',
+        res.json({
+            message: adminsSuspended.length > 0
+                ? 'Verification code regenerated. Admins who joined with the old code need the new code to sign in again.'
+                : 'Verification code regenerated successfully',
             mosque: {
                 id: mosque._id,
                 name: mosque.name,
                 verification_code: newCode,
                 expires_at: expiryDate
-            }
-
+            },
+            admins_suspended: adminsSuspended
         });
-
-
-
-
     } catch (err) {
         // Log the error
         try {
@@ -474,15 +601,22 @@ router.put('/mosque/:id/regenerate-code', auth, requireSuperAdmin, async (req, r
 
 
 // List Pending Admins with verification details
-router.get('/pending', auth, requireSuperAdmin, async (req, res) => {
+router.get('/pending', auth, requirePermission('requests.view'), async (req, res) => {
     try {
-        const pendingAdmins = await Admin.find({ status: 'pending' })
-            .populate('mosque_id', 'name location verification_code')
+        const pendingAdmins = await Admin.find({ status: 'pending', ...(await adminScope(req)) })
+            .populate('mosque_id', 'name location verification_code_prefix')
             .sort({ createdAt: -1 });
 
         const adminDetails = pendingAdmins.map(admin => ({
             ...admin.toObject(),
-            verification_status: admin.verification_code_used === admin.mosque_id?.verification_code ? 'valid' : 'invalid'
+            // Admins keep the prefix of the code they used; a regenerated code has a different prefix
+            // Applications through a super admin's invitation were verified by the link instead of a code
+            verification_status: admin.application_invitation_id
+                ? 'invited'
+                : admin.verification_code_used === admin.mosque_id?.verification_code_prefix ? 'valid' : 'invalid',
+            application_documents: admin.application_documents.map(toDocumentResponse),
+            info_requests: admin.info_requests.map(toInfoRequestResponse),
+            awaiting_applicant: !!getOpenInfoRequest(admin)
         }));
 
         res.json({ pending_admins: adminDetails });
@@ -491,11 +625,147 @@ router.get('/pending', auth, requireSuperAdmin, async (req, res) => {
     }
 });
 
+// Stream an application document to a reviewer; documents are never publicly reachable
+router.get('/:id/documents/:documentId', auth, requirePermission('requests.view'), async (req, res) => {
+    try {
+        if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+            return res.status(404).json({ error: 'Admin not found', code: 'ADMIN_NOT_FOUND' });
+        }
+        if (!(await canAccessAdmin(req, req.params.id))) {
+            return outOfScope(res);
+        }
+
+        const admin = await Admin.findById(req.params.id).select('application_documents');
+        const document = admin?.application_documents.id(req.params.documentId);
+        if (!document) {
+            return res.status(404).json({ error: 'Document not found', code: 'DOCUMENT_NOT_FOUND' });
+        }
+
+        const contents = await readApplicationDocument(document);
+
+        res.set({
+            'Content-Type': document.mime_type,
+            'Content-Length': contents.length,
+            'Content-Disposition': `inline; filename*=UTF-8''${encodeURIComponent(document.original_name)}`,
+            'Cache-Control': 'private, no-store',
+            'X-Content-Type-Options': 'nosniff'
+        });
+        res.send(contents);
+    } catch (err) {
+        console.error('Error streaming application document:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
+// Tick a document off the review checklist, or flag it
+router.put('/:id/documents/:documentId/review', auth, requirePermission('requests.review'), async (req, res) => {
+    try {
+        const { review_status, note = '' } = req.body;
+
+        if (!DOCUMENT_REVIEW_STATUSES.includes(review_status)) {
+            return res.status(400).json({
+                error: `Review status must be one of: ${DOCUMENT_REVIEW_STATUSES.join(', ')}`,
+                code: 'INVALID_REVIEW_STATUS'
+            });
+        }
+        if (typeof note !== 'string' || note.length > 500) {
+            return res.status(400).json({ error: 'Note cannot exceed 500 characters', code: 'INVALID_NOTE' });
+        }
+        if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+            return res.status(404).json({ error: 'Admin not found', code: 'ADMIN_NOT_FOUND' });
+        }
+        if (!(await canAccessAdmin(req, req.params.id))) {
+            return outOfScope(res);
+        }
+
+        const admin = await Admin.findById(req.params.id);
+        const document = admin?.application_documents.id(req.params.documentId);
+        if (!document) {
+            return res.status(404).json({ error: 'Document not found', code: 'DOCUMENT_NOT_FOUND' });
+        }
+
+        const previousStatus = document.review_status;
+        document.review_status = review_status;
+        document.review_note = note.trim() || null;
+        document.reviewed_by = review_status === 'unreviewed' ? null : req.user.userId;
+        document.reviewed_at = review_status === 'unreviewed' ? null : new Date();
+        await admin.save();
+
+        const auditLogger = new AuditLogger(req);
+        await auditLogger.logAdminDocumentReviewed(admin, document, previousStatus);
+
+        res.json({
+            message: 'Document review saved',
+            document: toDocumentResponse(document)
+        });
+    } catch (err) {
+        console.error('Error reviewing application document:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
+// Ask a pending applicant for more information; the application waits on them until they respond
+router.post('/:id/request-info', auth, requirePermission('requests.review'), async (req, res) => {
+    try {
+        const message = typeof req.body.message === 'string' ? req.body.message.trim() : '';
+
+        if (message.length < 10 || message.length > MAX_INFO_MESSAGE_LENGTH) {
+            return res.status(400).json({
+                error: `Message must be between 10 and ${MAX_INFO_MESSAGE_LENGTH} characters`,
+                code: 'INVALID_MESSAGE'
+            });
+        }
+        if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+            return res.status(404).json({ error: 'Admin not found', code: 'ADMIN_NOT_FOUND' });
+        }
+        if (!(await canAccessAdmin(req, req.params.id))) {
+            return outOfScope(res);
+        }
+
+        const admin = await Admin.findById(req.params.id).populate('mosque_id', 'name location');
+        if (!admin) {
+            return res.status(404).json({ error: 'Admin not found', code: 'ADMIN_NOT_FOUND' });
+        }
+        if (admin.status !== 'pending') {
+            return res.status(400).json({
+                error: 'Only pending applications can be asked for more information',
+                code: 'NOT_PENDING'
+            });
+        }
+        if (getOpenInfoRequest(admin)) {
+            return res.status(409).json({
+                error: 'The applicant has not answered the previous request yet',
+                code: 'INFO_REQUEST_OPEN'
+            });
+        }
+
+        admin.info_requests.push({ message, requested_by: req.user.userId });
+        await admin.save();
+
+        // The request stays on the status page even if the email does not arrive
+        await notifyAdmin('info_requested', admin, {
+            mosque_name: admin.mosque_id?.name || 'the mosque',
+            message
+        });
+
+        const auditLogger = new AuditLogger(req);
+        await auditLogger.logAdminInfoRequested(admin, admin.mosque_id, message);
+
+        res.json({
+            message: `Asked ${admin.name} for more information`,
+            info_request: toInfoRequestResponse(getOpenInfoRequest(admin))
+        });
+    } catch (err) {
+        console.error('Error requesting applicant information:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
 //list approved admins with verified details
-router.get('/approved', auth, requireSuperAdmin, async (req, res) => {
+router.get('/approved', auth, requirePermission('mosques.view'), async (req, res) => {
     try {
-        const approvedAdmins = await Admin.find({ status: 'approved' })
-            .populate('mosque_id', 'name location verification_code')
+        const approvedAdmins = await Admin.find({ status: 'approved', ...(await adminScope(req)) })
+            .populate('mosque_id', 'name location verification_code_prefix')
             .sort({ approved_at: -1, createdAt: -1 }); // Sort by approved_at first, then createdAt as fallback
 
         // Filter out admins whose mosques have been deleted
@@ -514,7 +784,11 @@ router.get('/approved', auth, requireSuperAdmin, async (req, res) => {
 
         const adminDetails = validApprovedAdmins.map(admin => ({
             ...admin.toObject(),
-            verification_status: admin.verification_code_used === admin.mosque_id?.verification_code ? 'valid' : 'invalid'
+            // Admins keep the prefix of the code they used; a regenerated code has a different prefix
+            // Applications through a super admin's invitation were verified by the link instead of a code
+            verification_status: admin.application_invitation_id
+                ? 'invited'
+                : admin.verification_code_used === admin.mosque_id?.verification_code_prefix ? 'valid' : 'invalid'
         }));
 
         res.json({ approved_admins: adminDetails });
@@ -525,9 +799,9 @@ router.get('/approved', auth, requireSuperAdmin, async (req, res) => {
 });
 
 // List All Admins (for mosque assignment)
-router.get('/', auth, requireSuperAdmin, async (req, res) => {
+router.get('/', auth, requirePermission('admins.manage'), async (req, res) => {
     try {
-        const admins = await Admin.find().populate('mosque_id', 'name location');
+        const admins = await Admin.find(await adminScope(req)).populate('mosque_id', 'name location');
         res.json({ admins });
     } catch (err) {
         res.status(500).json({ error: 'Server error' });
@@ -537,8 +811,12 @@ router.get('/', auth, requireSuperAdmin, async (req, res) => {
 
 
 // View mosque verification details
-router.get('/mosque/:id/verification', auth, requireSuperAdmin, async (req, res) => {
+router.get('/mosque/:id/verification', auth, requirePermission('mosques.view'), async (req, res) => {
     try {
+        if (!(await canAccessMosque(req, req.params.id))) {
+            return outOfScope(res);
+        }
+
         const mosque = await Mosque.findById(req.params.id);
         if (!mosque) {
             return res.status(404).json({ error: 'Mosque not found' });
@@ -549,26 +827,14 @@ router.get('/mosque/:id/verification', auth, requireSuperAdmin, async (req, res)
             mosque_id: req.params.id
         }).select('name email phone verification_code_used status createdAt');
 
+        const details = serializeMosque(mosque, 'super_admin');
+
         res.json({
             mosque: {
-                id: mosque._id,
-                name: mosque.name,
-                location: mosque.location,
-                description: mosque.description,
-                contact_phone: mosque.contact_phone,
-                contact_email: mosque.contact_email,
-                admin_instructions: mosque.admin_instructions,
-                verification_code: mosque.verification_code,
-                code_expires: mosque.verification_code_expires,
-                code_expired: new Date() > mosque.verification_code_expires,
-                prayer_times: mosque.prayer_times || {
-                    fajr: '',
-                    dhuhr: '',
-                    asr: '',
-                    maghrib: '',
-                    isha: '',
-                    jummah: ''
-                }
+                ...details,
+                // Older names of the expiry fields, still read by the dashboard
+                code_expires: details.verification_code_expires,
+                code_expired: details.verification_code_expired
             },
             admin_applications: adminsWithCodes
         });
@@ -580,7 +846,7 @@ router.get('/mosque/:id/verification', auth, requireSuperAdmin, async (req, res)
 
 // updating mosque detail 
 
-router.put('/mosque/:id', auth, requireSuperAdmin, async (req, res) => {
+router.put('/mosque/:id', auth, requirePermission('mosques.edit'), async (req, res) => {
     try {
         // Super admin can update any mosque, so remove the authorization check
         const {
@@ -676,6 +942,35 @@ router.put('/mosque/:id', auth, requireSuperAdmin, async (req, res) => {
             }
         }
 
+        // Validate map coordinates if provided
+        const coordinatesInput = readCoordinatesInput(req.body);
+        if (coordinatesInput.error) {
+            return res.status(400).json({
+                error: coordinatesInput.error,
+                code: 'INVALID_COORDINATES'
+            });
+        }
+
+        // Validate structured address if provided
+        const addressInput = readAddressInput(req.body);
+        if (addressInput.error) {
+            return res.status(400).json({
+                error: addressInput.error,
+                code: 'INVALID_ADDRESS'
+            });
+        }
+
+        if (!(await canAccessMosque(req, req.params.id))) {
+            return outOfScope(res);
+        }
+        // A regional manager can't move a mosque out of their province
+        if (req.access.province && addressInput.provided && addressInput.address?.province !== req.access.province) {
+            return res.status(400).json({
+                error: `Mosque address must stay in ${req.access.province}`,
+                code: 'PROVINCE_OUT_OF_SCOPE'
+            });
+        }
+
         // Build update object only with provided fields (with trimming)
         const updateData = {};
         if (name !== undefined) updateData.name = name.trim();
@@ -684,6 +979,22 @@ router.put('/mosque/:id', auth, requireSuperAdmin, async (req, res) => {
         if (contact_phone !== undefined) updateData.contact_phone = contact_phone.trim();
         if (contact_email !== undefined) updateData.contact_email = contact_email.trim().toLowerCase();
         if (admin_instructions !== undefined) updateData.admin_instructions = admin_instructions.trim();
+        const unsetFields = {};
+        if (coordinatesInput.provided) {
+            if (coordinatesInput.point) {
+                updateData.coordinates = coordinatesInput.point;
+            } else {
+                unsetFields.coordinates = 1;
+            }
+        }
+        if (addressInput.provided) {
+            if (addressInput.address) {
+                updateData.address = addressInput.address;
+            } else {
+                unsetFields.address = 1;
+            }
+        }
+        if (Object.keys(unsetFields).length > 0) updateData.$unset = unsetFields;
 
         // Handle prayer times update
         if (prayer_times !== undefined) {
@@ -713,6 +1024,8 @@ router.put('/mosque/:id', auth, requireSuperAdmin, async (req, res) => {
             contact_phone: currentMosque.contact_phone,
             contact_email: currentMosque.contact_email,
             admin_instructions: currentMosque.admin_instructions,
+            address: toAddressResponse(currentMosque.address),
+            coordinates: fromGeoPoint(currentMosque.coordinates),
             prayer_times: currentMosque.prayer_times
         };
 
@@ -745,7 +1058,8 @@ router.put('/mosque/:id', auth, requireSuperAdmin, async (req, res) => {
             // If other details were updated, log them
             const detailsUpdated = name !== undefined || location !== undefined ||
                 description !== undefined || contact_phone !== undefined ||
-                contact_email !== undefined || admin_instructions !== undefined;
+                contact_email !== undefined || admin_instructions !== undefined ||
+                coordinatesInput.provided || addressInput.provided;
 
             if (detailsUpdated) {
                 const afterData = {
@@ -754,7 +1068,9 @@ router.put('/mosque/:id', auth, requireSuperAdmin, async (req, res) => {
                     description: mosque.description,
                     contact_phone: mosque.contact_phone,
                     contact_email: mosque.contact_email,
-                    admin_instructions: mosque.admin_instructions
+                    admin_instructions: mosque.admin_instructions,
+                    address: toAddressResponse(mosque.address),
+                    coordinates: fromGeoPoint(mosque.coordinates)
                 };
                 await auditLogger.logMosqueDetailsUpdated(mosque, beforeData, afterData);
             }
@@ -765,7 +1081,10 @@ router.put('/mosque/:id', auth, requireSuperAdmin, async (req, res) => {
         res.json({
             message: 'Mosque details updated successfully',
             mosque,
-            updated_fields: Object.keys(updateData)
+            updated_fields: [
+                ...Object.keys(updateData).filter(field => field !== '$unset'),
+                ...Object.keys(unsetFields)
+            ]
         });
     } catch (error) {
         console.error('Error updating mosque:', error);
@@ -811,14 +1130,15 @@ router.put('/mosque/:id', auth, requireSuperAdmin, async (req, res) => {
 
 
 // Check expiring verification codes
-router.get('/mosque/expiring-codes', auth, requireSuperAdmin, async (req, res) => {
+router.get('/mosque/expiring-codes', auth, requirePermission('codes.manage'), async (req, res) => {
     try {
         const { days_ahead = 7 } = req.query; // Check codes expiring in next 7 days
         const checkDate = new Date(Date.now() + days_ahead * 24 * 60 * 60 * 1000);
 
         const expiringMosques = await Mosque.find({
-            verification_code_expires: { $lte: checkDate }
-        }).select('name location verification_code verification_code_expires contact_phone contact_email');
+            verification_code_expires: { $lte: checkDate },
+            ...mosqueScope(req)
+        }).select('name location verification_code_prefix verification_code_expires contact_phone contact_email');
 
         const expiredMosques = expiringMosques.filter(mosque =>
             new Date() > mosque.verification_code_expires
@@ -855,22 +1175,23 @@ router.get('/mosque/expiring-codes', auth, requireSuperAdmin, async (req, res) =
 });
 
 // Bulk regenerate expired codes
-router.put('/mosque/regenerate-expired-codes', auth, requireSuperAdmin, async (req, res) => {
+router.put('/mosque/regenerate-expired-codes', auth, requirePermission('codes.manage'), async (req, res) => {
     try {
         const expiredMosques = await Mosque.find({
-            verification_code_expires: { $lt: new Date() }
+            verification_code_expires: { $lt: new Date() },
+            ...mosqueScope(req)
         });
 
         const updates = [];
         const auditLogger = new AuditLogger(req);
 
         for (let mosque of expiredMosques) {
-            const oldCode = mosque.verification_code;
-            const newCode = crypto.randomBytes(8).toString('hex').toUpperCase();
+            const oldCode = mosque.verification_code_prefix;
+            const newCode = generateVerificationCode();
             const newExpiryDate = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
 
             await Mosque.findByIdAndUpdate(mosque._id, {
-                verification_code: newCode,
+                ...toStoredVerificationCode(newCode),
                 verification_code_expires: newExpiryDate
             });
 
@@ -885,7 +1206,8 @@ router.put('/mosque/regenerate-expired-codes', auth, requireSuperAdmin, async (r
             updates.push({
                 mosque_id: mosque._id,
                 mosque_name: mosque.name,
-                old_code: oldCode,
+                old_code_prefix: oldCode,
+                // Shown once here; only the hash is kept
                 new_code: newCode,
                 new_expiry: newExpiryDate
             });
@@ -901,10 +1223,10 @@ router.put('/mosque/regenerate-expired-codes', auth, requireSuperAdmin, async (r
 });
 
 // Get all mosques with registration details
-router.get('/mosques/registration', auth, requireSuperAdmin, async (req, res) => {
+router.get('/mosques/registration', auth, requirePermission('mosques.view'), async (req, res) => {
     try {
         const { search, sort = 'name', page = 1, limit = 10 } = req.query;
-        const query = {};
+        const query = { ...mosqueScope(req) };
 
         if (search) {
             query.$or = [
@@ -939,7 +1261,7 @@ router.get('/mosques/registration', auth, requireSuperAdmin, async (req, res) =>
                     contact_phone: mosque.contact_phone,
                     contact_email: mosque.contact_email,
                     admin_instructions: mosque.admin_instructions,
-                    verification_code: mosque.verification_code,
+                    verification_code_prefix: mosque.verification_code_prefix,
                     verification_code_expires: mosque.verification_code_expires,
                     admin: admin ? {
                         name: admin.name,
@@ -966,10 +1288,10 @@ router.get('/mosques/registration', auth, requireSuperAdmin, async (req, res) =>
 });
 
 // Get approved and rejected requests with filtering
-router.get('/requests/history', auth, requireSuperAdmin, async (req, res) => {
+router.get('/requests/history', auth, requirePermission('requests.view'), async (req, res) => {
     try {
         const { status, search, sort = 'createdAt', page = 1, limit = 10 } = req.query;
-        const query = {};
+        const query = { ...(await adminScope(req)) };
 
         if (status && ['approved', 'rejected'].includes(status)) {
             query.status = status;
@@ -1025,8 +1347,103 @@ router.get('/requests/history', auth, requireSuperAdmin, async (req, res) => {
     }
 });
 
+// Get gallery photos for moderation
+// ?status=pending (default), approved or hidden
+router.get('/photos/moderation', auth, requirePermission('photos.moderate'), async (req, res) => {
+    try {
+        const { status = 'pending', page = 1, limit = 12 } = req.query;
+
+        if (!['pending', 'approved', 'hidden'].includes(status)) {
+            return res.status(400).json({ error: 'Invalid status filter', code: 'INVALID_STATUS' });
+        }
+
+        const scope = await adminScope(req);
+        const photos = await MosquePhoto.find({ status, ...scope })
+            .populate('mosque_id', 'name location')
+            .sort({ createdAt: status === 'pending' ? 1 : -1 })
+            .limit(limit * 1)
+            .skip((page - 1) * limit);
+
+        const total = await MosquePhoto.countDocuments({ status, ...scope });
+        const pendingCount = status === 'pending' ? total : await MosquePhoto.countDocuments({ status: 'pending', ...scope });
+
+        res.json({
+            photos: photos.map(photo => ({
+                ...toPhotoResponse(photo, { includeModeration: true }),
+                original_name: photo.original_name || '',
+                mosque: photo.mosque_id
+                    ? { id: photo.mosque_id._id, name: photo.mosque_id.name, location: photo.mosque_id.location }
+                    : null
+            })),
+            pagination: {
+                page: parseInt(page),
+                limit: parseInt(limit),
+                total,
+                pages: Math.ceil(total / limit)
+            },
+            pending_count: pendingCount
+        });
+    } catch (err) {
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
+// Approve or hide a gallery photo
+router.put('/photos/:photoId/moderate', auth, requirePermission('photos.moderate'), async (req, res) => {
+    try {
+        const { action, note = '' } = req.body;
+
+        if (!['approve', 'hide'].includes(action)) {
+            return res.status(400).json({ error: 'Action must be "approve" or "hide"', code: 'INVALID_ACTION' });
+        }
+        if (typeof note !== 'string' || note.length > 500) {
+            return res.status(400).json({ error: 'Note cannot exceed 500 characters', code: 'INVALID_NOTE' });
+        }
+
+        const photo = await MosquePhoto.findById(req.params.photoId);
+        if (!photo) return res.status(404).json({ error: 'Photo not found', code: 'PHOTO_NOT_FOUND' });
+
+        const mosque = await Mosque.findById(photo.mosque_id);
+        if (!mosque) return res.status(404).json({ error: 'Mosque not found' });
+        if (!(await canAccessMosque(req, mosque._id))) return outOfScope(res);
+
+        const previousStatus = photo.status;
+        photo.status = action === 'approve' ? 'approved' : 'hidden';
+        photo.moderated_by = req.user.userId;
+        photo.moderated_at = new Date();
+        photo.moderation_note = note.trim();
+        // Only approved photos have public copies
+        if (photo.status === 'approved') {
+            await publishPhotoVariants(photo);
+        } else {
+            await unpublishPhotoVariants(photo);
+        }
+        await photo.save();
+
+        await refreshCoverPhoto(mosque._id);
+
+        // Log the moderation decision
+        const auditLogger = new AuditLogger(req);
+        await auditLogger.logPhotoChanged(
+            mosque,
+            action === 'approve' ? 'approved' : 'hidden',
+            photo,
+            photo.moderation_note,
+            { status: previousStatus },
+            { status: photo.status }
+        );
+
+        res.json({
+            message: action === 'approve' ? 'Photo approved' : 'Photo hidden',
+            photo: toPhotoResponse(photo, { includeModeration: true })
+        });
+    } catch (err) {
+        res.status(500).json({ error: 'Server error' });
+    }
+});
+
 // Get audit logs for dashboard
-router.get('/audit-logs', auth, requireSuperAdmin, async (req, res) => {
+router.get('/audit-logs', auth, requirePermission('audit.view'), async (req, res) => {
     try {
         const {
             action_type,
@@ -1130,7 +1547,7 @@ router.get('/audit-logs', auth, requireSuperAdmin, async (req, res) => {
 });
 
 // Get audit log statistics
-router.get('/audit-stats', auth, requireSuperAdmin, async (req, res) => {
+router.get('/audit-stats', auth, requirePermission('audit.view'), async (req, res) => {
     try {
         // Get total actions count
         const totalActions = await AuditLog.countDocuments();
@@ -1207,7 +1624,7 @@ router.get('/audit-stats', auth, requireSuperAdmin, async (req, res) => {
 });
 
 // Get action types summary for dashboard cards
-router.get('/action-types-summary', auth, requireSuperAdmin, async (req, res) => {
+router.get('/action-types-summary', auth, requirePermission('audit.view'), async (req, res) => {
     try {
         // Define action type metadata with colors and icons
         const actionTypeMetadata = {
@@ -1289,12 +1706,84 @@ router.get('/action-types-summary', auth, requireSuperAdmin, async (req, res) =>
                 icon: 'clock',
                 category: 'prayer'
             },
+            'prayer_calculation_updated': {
+                label: 'Prayer Calculation Updated',
+                color: 'teal',
+                icon: 'clock',
+                category: 'prayer'
+            },
+            'prayer_schedule_created': {
+                label: 'Timetable Schedules Created',
+                color: 'teal',
+                icon: 'calendar',
+                category: 'prayer'
+            },
+            'prayer_schedule_updated': {
+                label: 'Timetable Schedules Updated',
+                color: 'teal',
+                icon: 'calendar',
+                category: 'prayer'
+            },
+            'prayer_schedule_deleted': {
+                label: 'Timetable Schedules Deleted',
+                color: 'teal',
+                icon: 'calendar',
+                category: 'prayer'
+            },
             'mosque_details_updated': {
                 label: 'Mosque Details Updated',
                 color: 'cyan',
                 icon: 'info',
                 category: 'mosque'
             },
+            'photo_uploaded': {
+                label: 'Photos Uploaded',
+                color: 'cyan',
+                icon: 'image',
+                category: 'mosque'
+            },
+            'photo_approved': {
+                label: 'Photos Approved',
+                color: 'green',
+                icon: 'image',
+                category: 'mosque'
+            },
+            'photo_hidden': {
+                label: 'Photos Hidden',
+                color: 'orange',
+                icon: 'image',
+                category: 'mosque'
+            },
+            'photo_deleted': {
+                label: 'Photos Deleted',
+                color: 'red',
+                icon: 'image',
+                category: 'mosque'
+            },
+            'announcement_created': {
+                label: 'Announcements Posted',
+                color: 'indigo',
+                icon: 'bell',
+                category: 'mosque'
+            },
+            'announcement_updated': {
+                label: 'Announcements Updated',
+                color: 'indigo',
+                icon: 'bell',
+                category: 'mosque'
+            },
+            'announcement_deleted': {
+                label: 'Announcements Deleted',
+                color: 'red',
+                icon: 'bell',
+                category: 'mosque'
+            },
+            'account_locked': {
+                label: 'Lockouts',
+                color: 'red',
+                icon: 'lock',
+                category: 'system'
+            },
             'error': {
                 label: 'System Errors',
                 color: 'red',
@@ -1318,6 +1807,72 @@ router.get('/action-types-summary', auth, requireSuperAdmin, async (req, res) =>
                 color: 'red',
                 icon: 'user-shield',
                 category: 'admin'
+            },
+            'super_admin_role_changed': {
+                label: 'Super Admin Roles Changed',
+                color: 'violet',
+                icon: 'user-shield',
+                category: 'admin'
+            },
+            'mosque_member_invited': {
+                label: 'Mosque Team Invitations',
+                color: 'teal',
+                icon: 'user-plus',
+                category: 'admin'
+            },
+            'mosque_member_joined': {
+                label: 'Mosque Team Joins',
+                color: 'green',
+                icon: 'user-check',
+                category: 'admin'
+            },
+            'mosque_member_role_changed': {
+                label: 'Mosque Team Roles Changed',
+                color: 'indigo',
+                icon: 'user-cog',
+                category: 'admin'
+            },
+            'mosque_member_removed': {
+                label: 'Mosque Team Removals',
+                color: 'orange',
+                icon: 'user-minus',
+                category: 'admin'
+            },
+            'admin_invitation_sent': {
+                label: 'Admin Invitations Sent',
+                color: 'teal',
+                icon: 'mail',
+                category: 'admin'
+            },
+            'admin_invitation_revoked': {
+                label: 'Admin Invitations Revoked',
+                color: 'red',
+                icon: 'mail',
+                category: 'admin'
+            },
+            'admin_info_requested': {
+                label: 'Information Requested',
+                color: 'amber',
+                icon: 'help-circle',
+                category: 'admin'
+            },
+            'admin_info_provided': {
+                label: 'Information Provided',
+                color: 'blue',
+                icon: 'message-circle',
+                category: 'admin'
+            },
+            'admin_document_reviewed': {
+                label: 'Documents Reviewed',
+                color: 'indigo',
+                icon: 'file-text',
+                category: 'admin'
+            },
+            'email_resent': {
+                label: 'Emails Resent',
+                color: 'sky',
+                icon: 'mail',
+                category: 'system'
             }
         };
 
@@ -1474,7 +2029,7 @@ router.get('/action-types-summary', auth, requireSuperAdmin, async (req, res) =>
 });
 
 // Get specific audit log details
-router.get('/audit-logs/:id', auth, requireSuperAdmin, async (req, res) => {
+router.get('/audit-logs/:id', auth, requirePermission('audit.view'), async (req, res) => {
     try {
         const log = await AuditLog.findById(req.params.id);
 
@@ -1495,7 +2050,7 @@ router.get('/audit-logs/:id', auth, requireSuperAdmin, async (req, res) => {
 });
 
 // Export audit logs (CSV format)
-router.get('/audit-logs/export/csv', auth, requireSuperAdmin, async (req, res) => {
+router.get('/audit-logs/export/csv', auth, requirePermission('audit.export'), async (req, res) => {
     try {
         const {
             action_type,
@@ -1554,7 +2109,7 @@ router.get('/audit-logs/export/csv', auth, requireSuperAdmin, async (req, res) =
 });
 
 // Delete old audit logs (cleanup)
-router.delete('/audit-logs/cleanup', auth, requireSuperAdmin, async (req, res) => {
+router.delete('/audit-logs/cleanup', auth, requirePermission('audit.delete'), requireStepUp, async (req, res) => {
     try {
         const { days_old = 90, reason } = req.query;
 
@@ -1609,7 +2164,7 @@ router.delete('/audit-logs/cleanup', auth, requireSuperAdmin, async (req, res) =
 });
 
 // Delete specific audit logs by IDs
-router.delete('/audit-logs/bulk-delete', auth, requireSuperAdmin, async (req, res) => {
+router.delete('/audit-logs/bulk-delete', auth, requirePermission('audit.delete'), requireStepUp, async (req, res) => {
     try {
         const { log_ids, reason } = req.body;
 
@@ -1671,7 +2226,7 @@ router.delete('/audit-logs/bulk-delete', auth, requireSuperAdmin, async (req, re
 
 // Complete Mosque Registration with Admin (New Method)
 // This route creates both mosque and admin in one step with approved status
-router.post('/mosque-registration', auth, requireSuperAdmin, async (req, res) => {
+router.post('/mosque-registration', auth, requirePermission('mosques.create'), async (req, res) => {
     try {
         const {
             // Mosque details
@@ -1870,8 +2425,21 @@ router.post('/mosque-registration', auth, requireSuperAdmin, async (req, res) =>
             }
         }
 
+        // Validate map coordinates if provided
+        const coordinatesInput = readCoordinatesInput(req.body);
+        if (coordinatesInput.error) {
+            return res.status(400).json({
+                error: coordinatesInput.error,
+                code: 'INVALID_COORDINATES'
+            });
+        }
+
+        // Mosques added by a regional manager belong to their province
+        const address = req.access.province ? { province: req.access.province } : undefined;
+
         // Generate unique verification code for the mosque
-        const verification_code = crypto.randomBytes(8).toString('hex').toUpperCase();
+        // Only its hash is stored, so the response below is the one chance to see it
+        const verification_code = generateVerificationCode();
         const verification_code_expires = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
 
         // Create custom admin instructions if not provided
@@ -1884,11 +2452,13 @@ router.post('/mosque-registration', auth, requireSuperAdmin, async (req, res) =>
             name: mosque_name.trim(),
             location: location.trim(),
             description: description ? description.trim() : '',
-            verification_code,
+            ...toStoredVerificationCode(verification_code),
             verification_code_expires,
             contact_phone: contact_phone ? contact_phone.trim() : '',
             contact_email: contact_email ? contact_email.trim().toLowerCase() : '',
             admin_instructions: admin_instructions ? admin_instructions.trim() : defaultInstructions,
+            coordinates: coordinatesInput.point || undefined,
+            address,
             prayer_times: {
                 fajr: '',
                 dhuhr: '',
@@ -1911,7 +2481,7 @@ router.post('/mosque-registration', auth, requireSuperAdmin, async (req, res) =>
             password: hashedPassword,
             phone: admin_phone.trim(),
             mosque_id: mosque._id,
-            verification_code_used: verification_code,
+            verification_code_used: mosque.verification_code_prefix,
             status: 'approved',
             super_admin_notes: 'Directly registered by super admin',
             approved_at: new Date(),
@@ -1937,7 +2507,8 @@ router.post('/mosque-registration', auth, requireSuperAdmin, async (req, res) =>
                 contact_phone: mosque.contact_phone,
                 contact_email: mosque.contact_email,
                 admin_instructions: mosque.admin_instructions,
-                verification_code: mosque.verification_code,
+                coordinates: fromGeoPoint(mosque.coordinates),
+                verification_code,
                 verification_code_expires: mosque.verification_code_expires,
                 created_at: mosque.createdAt
             },
@@ -1951,7 +2522,7 @@ router.post('/mosque-registration', auth, requireSuperAdmin, async (req, res) =>
             },
             instructions: {
                 message: "Mosque and admin have been successfully registered and approved",
-                verification_code: mosque.verification_code,
+                verification_code,
                 admin_status: "Approved and ready to manage mosque",
                 expires_in: "30 days"
             }
@@ -1983,17 +2554,19 @@ router.post('/mosque-registration', auth, requireSuperAdmin, async (req, res) =>
 });
 
 // Get all mosques with their admin details (for deletion management)
-router.get('/mosques/all', auth, requireSuperAdmin, async (req, res) => {
+router.get('/mosques/all', auth, requirePermission('mosques.view'), async (req, res) => {
     try {
         const { search, status, sort = 'createdAt', order = 'desc' } = req.query;
 
         // Build mosque query
-        const mosqueQuery = {};
+        const mosqueQuery = { ...mosqueScope(req) };
         if (search) {
             mosqueQuery.$or = [
                 { name: new RegExp(search, 'i') },
                 { location: new RegExp(search, 'i') },
-                { verification_code: new RegExp(search, 'i') }
+                { verification_code_prefix: new RegExp(search, 'i') },
+                // A full code pasted into the search box matches through its hash
+                { verification_code_hash: hashVerificationCode(search) }
             ];
         }
 
@@ -2009,8 +2582,9 @@ router.get('/mosques/all', auth, requireSuperAdmin, async (req, res) => {
                 // Find all admins for this mosque (could be multiple if pending/rejected)
                 const admins = await Admin.find({ mosque_id: mosque._id });
 
-                // Find the approved admin if exists
-                const approvedAdmin = admins.find(a => a.status === 'approved');
+                // Mosques can have several approved admins; show an owner as the main contact
+                const approvedAdmins = admins.filter(a => a.status === 'approved');
+                const approvedAdmin = approvedAdmins.find(a => getMembership(a).role === 'owner') || approvedAdmins[0];
 
                 // Filter admins by status if requested
                 let filteredAdmins = admins;
@@ -2027,7 +2601,7 @@ router.get('/mosques/all', auth, requireSuperAdmin, async (req, res) => {
                     contact_phone: mosque.contact_phone,
                     contact_email: mosque.contact_email,
                     admin_instructions: mosque.admin_instructions,
-                    verification_code: mosque.verification_code,
+                    verification_code_prefix: mosque.verification_code_prefix,
                     verification_code_expires: mosque.verification_code_expires,
                     created_at: mosque.createdAt,
 
@@ -2038,6 +2612,7 @@ router.get('/mosques/all', auth, requireSuperAdmin, async (req, res) => {
                     admin_phone: approvedAdmin ? approvedAdmin.phone : null,
                     admin_status: approvedAdmin ? approvedAdmin.status : 'no_admin',
                     admin_id: approvedAdmin ? approvedAdmin._id : null,
+                    team_size: approvedAdmins.length,
 
                     // All admin requests for this mosque
                     all_admins: admins.map(admin => ({
@@ -2046,6 +2621,7 @@ router.get('/mosques/all', auth, requireSuperAdmin, async (req, res) => {
                         email: admin.email,
                         phone: admin.phone,
                         status: admin.status,
+                        mosque_role: getMembership(admin).role,
                         created_at: admin.createdAt,
                         approved_at: admin.approved_at,
                         rejected_at: admin.rejected_at
@@ -2103,7 +2679,7 @@ router.get('/mosques/all', auth, requireSuperAdmin, async (req, res) => {
 });
 
 // Delete a single mosque
-router.delete('/mosque/:id', auth, requireSuperAdmin, async (req, res) => {
+router.delete('/mosque/:id', auth, requirePermission('mosques.delete'), async (req, res) => {
     try {
         const { reason } = req.body;
 
@@ -2124,7 +2700,7 @@ router.delete('/mosque/:id', auth, requireSuperAdmin, async (req, res) => {
 
         // Log the mosque deletion with admin details
         const auditLogger = new AuditLogger(req);
-        await auditLogger.logMosqueDeleted(mosque, admins[0], reason);
+        await auditLogger.logMosqueDeleted(mosque, admins, reason);
 
         // Update admins to mosque_deleted status instead of deleting them
         const updatedAdmins = [];
@@ -2146,17 +2722,20 @@ router.delete('/mosque/:id', auth, requireSuperAdmin, async (req, res) => {
             });
         }
 
-        // Delete the mosque
-        await Mosque.findByIdAndDelete(req.params.id);
+        // Delete the mosque with its timetable, photos, announcements and pending invitations
+        const removed = await deleteMosqueData(mosque._id);
+
+        await notifyAdmins('mosque_deleted', admins, { mosque_name: mosque.name, reason: reason.trim() });
 
         res.json({
             message: 'Mosque deleted successfully. Associated admins have been notified and can reapply.',
             deleted_mosque: {
                 name: mosque.name,
                 location: mosque.location,
-                verification_code: mosque.verification_code
+                verification_code_prefix: mosque.verification_code_prefix
             },
             updated_admins: updatedAdmins,
+            removed,
             reason: reason
         });
     } catch (err) {
@@ -2166,7 +2745,7 @@ router.delete('/mosque/:id', auth, requireSuperAdmin, async (req, res) => {
 });
 
 // Bulk delete mosques
-router.post('/mosques/bulk-delete', auth, requireSuperAdmin, async (req, res) => {
+router.post('/mosques/bulk-delete', auth, requirePermission('mosques.delete'), requireStepUp, async (req, res) => {
     try {
         const { mosque_ids, reason } = req.body;
 
@@ -2200,7 +2779,7 @@ router.post('/mosques/bulk-delete', auth, requireSuperAdmin, async (req, res) =>
 
                 // Log the deletion
                 const auditLogger = new AuditLogger(req);
-                await auditLogger.logMosqueDeleted(mosque, admins[0], reason);
+                await auditLogger.logMosqueDeleted(mosque, admins, reason);
 
                 // Update admins to mosque_deleted status instead of deleting them
                 for (const admin of admins) {
@@ -2215,14 +2794,17 @@ router.post('/mosques/bulk-delete', auth, requireSuperAdmin, async (req, res) =>
                     await admin.save();
                 }
 
-                // Delete mosque only
-                await Mosque.findByIdAndDelete(mosqueId);
+                // Delete the mosque with its timetable, photos, announcements and pending invitations
+                const removed = await deleteMosqueData(mosque._id);
+
+                await notifyAdmins('mosque_deleted', admins, { mosque_name: mosque.name, reason: reason.trim() });
 
                 deletedMosques.push({
                     mosque_id: mosqueId,
                     name: mosque.name,
                     location: mosque.location,
-                    updated_admins: admins.length
+                    updated_admins: admins.length,
+                    removed
                 });
             } catch (err) {
                 errors.push({ mosque_id: mosqueId, error: err.message });
@@ -2243,7 +2825,7 @@ router.post('/mosques/bulk-delete', auth, requireSuperAdmin, async (req, res) =>
 });
 
 // Allow Rejected Admin to Reapply - NEW
-router.put('/:id/allow-reapplication', auth, requireSuperAdmin, async (req, res) => {
+router.put('/:id/allow-reapplication', auth, requirePermission('requests.review'), async (req, res) => {
     try {
         const { notes } = req.body;
 
@@ -2256,6 +2838,9 @@ router.put('/:id/allow-reapplication', auth, requireSuperAdmin, async (req, res)
                 code: 'ADMIN_NOT_FOUND'
             });
         }
+        if (!(await canAccessAdmin(req, admin._id, 'previous_mosque_ids.mosque_id'))) {
+            return outOfScope(res);
+        }
 
         // Verify admin is rejected
         if (admin.status !== 'rejected') {
@@ -2288,6 +2873,8 @@ router.put('/:id/allow-reapplication', auth, requireSuperAdmin, async (req, res)
             console.error('Failed to log admin allowed to reapply (non-critical):', auditError);
         }
 
+        await notifyAdmin('reapply_allowed', admin, { notes });
+
         res.json({
             success: true,
             message: 'Admin is now allowed to reapply',
@@ -2327,12 +2914,12 @@ router.put('/:id/allow-reapplication', auth, requireSuperAdmin, async (req, res)
 });
 
 // Get All Rejected Admins - NEW
-router.get('/rejected-admins', auth, requireSuperAdmin, async (req, res) => {
+router.get('/rejected-admins', auth, requirePermission('requests.view'), async (req, res) => {
     try {
         const { search = '', page = 1, limit = 20, sort_by = 'rejection_date' } = req.query;
 
         // Build query
-        let query = { status: 'rejected' };
+        let query = { status: 'rejected', ...(await adminScope(req, 'previous_mosque_ids.mosque_id')) };
 
         // Add search filter
         if (search) {
@@ -2426,7 +3013,7 @@ router.get('/rejected-admins', auth, requireSuperAdmin, async (req, res) => {
 });
 
 // Assign Admin to Existing Mosque
-router.post('/assign-admin/:mosqueId', auth, requireSuperAdmin, async (req, res) => {
+router.post('/assign-admin/:mosqueId', auth, requirePermission('admins.manage'), async (req, res) => {
     try {
         const { mosqueId } = req.params;
         const {
@@ -2479,6 +3066,9 @@ router.post('/assign-admin/:mosqueId', auth, requireSuperAdmin, async (req, res)
                 code: 'MOSQUE_NOT_FOUND'
             });
         }
+        if (!(await canAccessMosque(req, mosque._id))) {
+            return outOfScope(res);
+        }
 
         // Check if mosque already has an approved admin
         const existingApprovedAdmin = await Admin.findOne({
@@ -2519,7 +3109,7 @@ router.post('/assign-admin/:mosqueId', auth, requireSuperAdmin, async (req, res)
             status: 'approved',
             super_admin_notes: super_admin_notes || 'Admin assigned by super admin',
             approved_at: new Date(),
-            registration_code_used: mosque.verification_code
+            registration_code_used: mosque.verification_code_prefix
         });
 
         await newAdmin.save();
@@ -2540,7 +3130,7 @@ router.post('/assign-admin/:mosqueId', auth, requireSuperAdmin, async (req, res)
                     id: mosque._id,
                     name: mosque.name,
                     location: mosque.location,
-                    verification_code: mosque.verification_code
+                    verification_code_prefix: mosque.verification_code_prefix
                 },
                 approved_at: newAdmin.approved_at
             }
@@ -2556,7 +3146,7 @@ router.post('/assign-admin/:mosqueId', auth, requireSuperAdmin, async (req, res)
 });
 
 // Assign Admin to Existing Mosque
-router.post('/mosques/:mosqueId/assign-admin', auth, requireSuperAdmin, async (req, res) => {
+router.post('/mosques/:mosqueId/assign-admin', auth, requirePermission('admins.manage'), async (req, res) => {
     try {
         const { mosqueId } = req.params;
         const {
@@ -2636,6 +3226,9 @@ router.post('/mosques/:mosqueId/assign-admin', auth, requireSuperAdmin, async (r
                 code: 'MOSQUE_NOT_FOUND'
             });
         }
+        if (!(await canAccessMosque(req, mosque._id))) {
+            return outOfScope(res);
+        }
 
         // Check if mosque already has an approved admin
         const existingApprovedAdmin = await Admin.findOne({
@@ -2695,7 +3288,7 @@ router.post('/mosques/:mosqueId/assign-admin', auth, requireSuperAdmin, async (r
             status: 'approved',
             approved_at: new Date(),
             super_admin_notes: sanitizedNotes || 'Admin assigned by super admin',
-            verification_code_used: mosque.verification_code
+            verification_code_used: mosque.verification_code_prefix
         });
 
         await newAdmin.save();
@@ -2719,7 +3312,7 @@ router.post('/mosques/:mosqueId/assign-admin', auth, requireSuperAdmin, async (r
                     id: mosque._id,
                     name: mosque.name,
                     location: mosque.location,
-                    verification_code: mosque.verification_code
+                    verification_code_prefix: mosque.verification_code_prefix
                 },
                 approved_at: newAdmin.approved_at,
                 super_admin_notes: newAdmin.super_admin_notes
@@ -2735,8 +3328,340 @@ router.post('/mosques/:mosqueId/assign-admin', auth, requireSuperAdmin, async (r
     }
 });
 
+// Invitation as shown in the super admin invitations tab
+const toInvitationSummary = (invitation) => ({
+    id: invitation._id,
+    email: invitation.email,
+    purpose: invitation.purpose || 'team',
+    status: getInvitationStatus(invitation),
+    mosque: invitation.mosque_id ? {
+        id: invitation.mosque_id._id,
+        name: invitation.mosque_id.name,
+        location: invitation.mosque_id.location
+    } : null,
+    mosque_role: invitation.mosque_role,
+    role_label: getMembership(invitation).role_label,
+    invited_by: invitation.invited_by_super_admin
+        ? { name: invitation.invited_by_super_admin.name, type: 'super_admin' }
+        : { name: invitation.invited_by?.name || 'Mosque owner', type: 'owner' },
+    accepted_admin: invitation.accepted_admin_id ? {
+        id: invitation.accepted_admin_id._id,
+        name: invitation.accepted_admin_id.name,
+        status: invitation.accepted_admin_id.status
+    } : null,
+    created_at: invitation.createdAt,
+    opened_at: invitation.opened_at,
+    accepted_at: invitation.accepted_at,
+    revoked_at: invitation.revoked_at,
+    expires_at: invitation.expires_at
+});
+
+// List Invitations (owners' team invitations and super admins' invitations to apply)
+router.get('/invitations', auth, requirePermission('admins.manage'), async (req, res) => {
+    try {
+        const { status, purpose, search, page = 1, limit = 20 } = req.query;
+
+        const scopeIds = await scopedMosqueIds(req);
+        const baseQuery = scopeIds ? { mosque_id: { $in: scopeIds } } : {};
+        if (purpose === 'application') baseQuery.purpose = 'application';
+        if (purpose === 'team') baseQuery.purpose = { $ne: 'application' };
+        if (search) baseQuery.email = new RegExp(search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+
+        const query = INVITATION_STATUSES.includes(status)
+            ? { ...baseQuery, ...invitationStatusFilter(status) }
+            : baseQuery;
+
+        const [invitations, total, statusCounts] = await Promise.all([
+            MosqueInvitation.find(query)
+                .sort({ createdAt: -1 })
+                .limit(limit * 1)
+                .skip((page - 1) * limit)
+                .populate('mosque_id', 'name location')
+                .populate('invited_by', 'name')
+                .populate('invited_by_super_admin', 'name')
+                .populate('accepted_admin_id', 'name status'),
+            MosqueInvitation.countDocuments(query),
+            Promise.all(INVITATION_STATUSES.map(name =>
+                MosqueInvitation.countDocuments({ ...baseQuery, ...invitationStatusFilter(name) })))
+        ]);
+
+        res.json({
+            invitations: invitations.map(toInvitationSummary),
+            counts: Object.fromEntries(INVITATION_STATUSES.map((name, index) => [name, statusCounts[index]])),
+            pagination: {
+                page: parseInt(page),
+                limit: parseInt(limit),
+                total,
+                pages: Math.ceil(total / limit)
+            }
+        });
+    } catch (err) {
+        console.error('Error fetching invitations:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
+// Invite Someone to Apply as a Mosque's Admin
+// The single-use link pre-verifies their application, so they don't need the mosque verification code
+router.post('/mosques/:mosqueId/invitations', auth, requirePermission('admins.manage'), async (req, res) => {
+    try {
+        const emailValidation = validateEmail(req.body.email);
+        if (!emailValidation.valid) {
+            return res.status(400).json({ error: emailValidation.error, code: 'INVALID_EMAIL' });
+        }
+        const email = sanitizeEmail(req.body.email);
+
+        const mosque = await Mosque.findById(req.params.mosqueId);
+        if (!mosque) {
+            return res.status(404).json({ error: 'Mosque not found', code: 'MOSQUE_NOT_FOUND' });
+        }
+        if (!(await canAccessMosque(req, mosque._id))) return outOfScope(res);
+
+        if (await Admin.exists({ mosque_id: mosque._id, status: { $in: ['approved', 'pending'] } })) {
+            return res.status(409).json({
+                error: 'This mosque already has an admin or a pending application. Its owner can invite more team members.',
+                code: 'ADMIN_ALREADY_EXISTS'
+            });
+        }
+        if (await Admin.exists({ email })) {
+            return res.status(409).json({
+                error: 'An admin account with this email already exists',
+                code: 'EMAIL_IN_USE'
+            });
+        }
+
+        // A newer invitation replaces older open ones for the same person and mosque
+        await MosqueInvitation.updateMany(
+            {
+                mosque_id: mosque._id,
+                email,
+                purpose: 'application',
+                accepted_at: null,
+                revoked_at: null,
+                expires_at: { $gt: new Date() }
+            },
+            { $set: { revoked_at: new Date() } }
+        );
+
+        const { token, token_hash, expires_at } = createInvitationToken();
+        const invitation = await MosqueInvitation.create({
+            mosque_id: mosque._id,
+            email,
+            purpose: 'application',
+            mosque_role: 'owner',
+            token_hash,
+            invited_by_super_admin: req.user.userId,
+            expires_at
+        });
+
+        const superAdmin = await SuperAdmin.findById(req.user.userId).select('name');
+        // A failed attempt stays in the outbox and is retried until the invitation expires
+        const invitationEmail = await queueTemplatedEmail('mosque_invitation', { email }, {
+            purpose: 'application',
+            inviter_name: superAdmin?.name || 'A super admin',
+            mosque_name: mosque.name,
+            invitation_path: buildInvitationPath(token, invitation),
+            expires_at
+        }, { expiresAt: expires_at, containsSecret: true });
+        const emailDelayed = invitationEmail.status !== 'sent';
+
+        const auditLogger = new AuditLogger(req);
+        await auditLogger.logAdminInvitationSent(mosque, invitation);
+
+        await invitation.populate('mosque_id', 'name location');
+        await invitation.populate('invited_by_super_admin', 'name');
+
+        res.status(201).json({
+            message: emailDelayed
+                ? `Invitation created for ${email}. The email is taking longer than usual and will arrive within a few minutes.`
+                : `Invitation sent to ${email}`,
+            email_delayed: emailDelayed,
+            invitation: toInvitationSummary(invitation)
+        });
+    } catch (err) {
+        console.error('Error creating invitation:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
+// Revoke an Open Invitation
+router.delete('/invitations/:id', auth, requirePermission('admins.manage'), async (req, res) => {
+    try {
+        if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+            return res.status(404).json({ error: 'Invitation not found', code: 'INVITATION_NOT_FOUND' });
+        }
+
+        const invitation = await MosqueInvitation.findById(req.params.id).populate('mosque_id', 'name location');
+        if (!invitation) {
+            return res.status(404).json({ error: 'Invitation not found', code: 'INVITATION_NOT_FOUND' });
+        }
+        if (!(await canAccessMosque(req, invitation.mosque_id?._id))) return outOfScope(res);
+
+        if (!isInvitationOpen(invitation)) {
+            return res.status(409).json({
+                error: `This invitation is already ${getInvitationStatus(invitation)}`,
+                code: 'INVITATION_CLOSED'
+            });
+        }
+
+        invitation.revoked_at = new Date();
+        await invitation.save();
+
+        const auditLogger = new AuditLogger(req);
+        await auditLogger.logAdminInvitationRevoked(invitation.mosque_id, invitation);
+
+        res.json({ message: `Invitation to ${invitation.email} revoked` });
+    } catch (err) {
+        console.error('Error revoking invitation:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
+const DELIVERY_STATUSES = NotificationOutbox.schema.path('status').enumValues;
+const DELIVERY_EVENTS = NotificationOutbox.schema.path('event').enumValues;
+
+const toDeliverySummary = (entry) => ({
+    id: entry._id,
+    event: entry.event,
+    locale: entry.locale,
+    recipient_email: entry.recipient_email,
+    recipient_name: entry.recipient_name,
+    admin_id: entry.admin_id,
+    subject: entry.subject,
+    status: entry.status,
+    attempts: entry.attempts,
+    max_attempts: entry.max_attempts,
+    next_attempt_at: entry.status === 'pending' ? entry.next_attempt_at : null,
+    last_error: entry.last_error,
+    message_id: entry.message_id,
+    sent_at: entry.sent_at,
+    dead_lettered_at: entry.dead_lettered_at,
+    expires_at: entry.expires_at,
+    body_removed: !!entry.body_removed_at,
+    created_at: entry.createdAt,
+    delivery_log: entry.delivery_log.map(log => ({
+        attempt: log.attempt,
+        trigger: log.trigger,
+        outcome: log.outcome,
+        at: log.at,
+        duration_ms: log.duration_ms ?? null,
+        message_id: log.message_id || null,
+        error: log.error || null,
+        requested_by: log.requested_by || null
+    }))
+});
+
+// List Email Deliveries (notification outbox and delivery log)
+router.get('/email-deliveries', auth, requirePermission('emails.manage'), async (req, res) => {
+    try {
+        const { status, event, search, page = 1, limit = 20 } = req.query;
+
+        const baseQuery = {};
+        if (DELIVERY_EVENTS.includes(event)) baseQuery.event = event;
+        if (search) {
+            const pattern = new RegExp(search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+            baseQuery.$or = [{ recipient_email: pattern }, { subject: pattern }];
+        }
+        const query = DELIVERY_STATUSES.includes(status) ? { ...baseQuery, status } : baseQuery;
+
+        const [deliveries, total, statusCounts] = await Promise.all([
+            NotificationOutbox.find(query)
+                .sort({ createdAt: -1 })
+                .limit(limit * 1)
+                .skip((page - 1) * limit)
+                .select('-html -text'),
+            NotificationOutbox.countDocuments(query),
+            NotificationOutbox.aggregate([
+                { $match: baseQuery },
+                { $group: { _id: '$status', count: { $sum: 1 } } }
+            ])
+        ]);
+
+        res.json({
+            deliveries: deliveries.map(toDeliverySummary),
+            counts: Object.fromEntries(DELIVERY_STATUSES.map(name => [
+                name,
+                statusCounts.find(item => item._id === name)?.count || 0
+            ])),
+            events: DELIVERY_EVENTS,
+            pagination: {
+                page: parseInt(page),
+                limit: parseInt(limit),
+                total,
+                pages: Math.ceil(total / limit)
+            }
+        });
+    } catch (err) {
+        console.error('Error fetching email deliveries:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
+// Get One Email Delivery with the message as it was sent
+router.get('/email-deliveries/:id', auth, requirePermission('emails.manage'), async (req, res) => {
+    try {
+        if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+            return res.status(404).json({ error: 'Email not found', code: 'EMAIL_NOT_FOUND' });
+        }
+
+        const entry = await NotificationOutbox.findById(req.params.id);
+        if (!entry) {
+            return res.status(404).json({ error: 'Email not found', code: 'EMAIL_NOT_FOUND' });
+        }
+
+        res.json({
+            delivery: {
+                ...toDeliverySummary(entry),
+                html: entry.html,
+                text: entry.text
+            }
+        });
+    } catch (err) {
+        console.error('Error fetching email delivery:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
+// Resend an Email (dead-lettered, waiting for a retry or already delivered) with a fresh set of attempts
+router.post('/email-deliveries/:id/resend', auth, requirePermission('emails.manage'), async (req, res) => {
+    try {
+        if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+            return res.status(404).json({ error: 'Email not found', code: 'EMAIL_NOT_FOUND' });
+        }
+
+        const entry = await NotificationOutbox.findById(req.params.id);
+        if (!entry) {
+            return res.status(404).json({ error: 'Email not found', code: 'EMAIL_NOT_FOUND' });
+        }
+        if (entry.status === 'sending') {
+            return res.status(409).json({ error: 'This email is being sent right now', code: 'EMAIL_SENDING' });
+        }
+        if (entry.body_removed_at || (entry.expires_at && entry.expires_at <= new Date())) {
+            return res.status(410).json({
+                error: 'The code in this email has expired. Ask the recipient to request a new one.',
+                code: 'EMAIL_EXPIRED'
+            });
+        }
+
+        const delivery = await resendNotification(entry, req.user.userId);
+
+        const auditLogger = new AuditLogger(req);
+        await auditLogger.logEmailResent(delivery);
+
+        res.json({
+            message: delivery.status === 'sent'
+                ? `Email sent to ${delivery.recipient_email}`
+                : `Sending failed again (${delivery.last_error}). It will be retried automatically.`,
+            delivery: toDeliverySummary(delivery)
+        });
+    } catch (err) {
+        console.error('Error resending email:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
 // Create new super admin (Internal route - requires existing super admin authentication)
-router.post('/create-superadmin', auth, requireSuperAdmin, async (req, res) => {
+router.post('/create-superadmin', auth, requirePermission('superadmins.manage'), requireStepUp, async (req, res) => {
     try {
         const { name, email, password } = req.body;
 
@@ -2750,6 +3675,12 @@ router.post('/create-superadmin', auth, requireSuperAdmin, async (req, res) => {
             return res.status(400).json({ error: 'Name must be at least 2 characters long' });
         }
 
+        // New accounts are full super admins unless a narrower role is given
+        const roleInput = readRoleInput(req.body);
+        if (roleInput.error) {
+            return res.status(400).json({ error: roleInput.error, code: 'INVALID_ROLE' });
+        }
+
         const allowedDomainsRegex = /^[a-zA-Z0-9._%+-]+@(gmail\.com|outlook\.com|yahoo\.com|hotmail\.com)$/i;
 
         if (!allowedDomainsRegex.test(email)) {
@@ -2767,7 +3698,13 @@ router.post('/create-superadmin', auth, requireSuperAdmin, async (req, res) => {
         }
 
         const hashedPassword = await bcrypt.hash(password, 10);
-        const superAdmin = new SuperAdmin({ name: name.trim(), email, password: hashedPassword });
+        const superAdmin = new SuperAdmin({
+            name: name.trim(),
+            email,
+            password: hashedPassword,
+            role: roleInput.role,
+            province: roleInput.province
+        });
         await superAdmin.save();
 
         // Log the super admin creation
@@ -2781,7 +3718,13 @@ router.post('/create-superadmin', auth, requireSuperAdmin, async (req, res) => {
 
         res.status(201).json({
             message: 'Super admin created successfully',
-            super_admin: { id: superAdmin._id, name: superAdmin.name, email }
+            super_admin: {
+                id: superAdmin._id,
+                name: superAdmin.name,
+                email,
+                role: superAdmin.role,
+                province: superAdmin.province
+            }
         });
     } catch (err) {
         console.error('Error creating super admin:', err);
@@ -2790,9 +3733,9 @@ router.post('/create-superadmin', auth, requireSuperAdmin, async (req, res) => {
 });
 
 // Get all super admins
-router.get('/super-admins', auth, requireSuperAdmin, async (req, res) => {
+router.get('/super-admins', auth, requirePermission('superadmins.manage'), async (req, res) => {
     try {
-        const superAdmins = await SuperAdmin.find({}, 'name email createdAt').sort({ createdAt: -1 });
+        const superAdmins = await SuperAdmin.find({}, 'name email role province createdAt').sort({ createdAt: -1 });
         res.json({ super_admins: superAdmins });
     } catch (err) {
         console.error('Error fetching super admins:', err);
@@ -2800,8 +3743,79 @@ router.get('/super-admins', auth, requireSuperAdmin, async (req, res) => {
     }
 });
 
+// Current super admin's role and permissions, plus the role catalogue for the management screen
+router.get('/access', auth, requireSuperAdmin, async (req, res) => {
+    try {
+        const superAdmin = await SuperAdmin.findById(req.user.userId).select('role province');
+        if (!superAdmin) {
+            return res.status(404).json({ error: 'Super admin not found', code: 'SUPER_ADMIN_NOT_FOUND' });
+        }
+
+        res.json({
+            ...getAccess(superAdmin),
+            roles: ROLE_NAMES.map(role => ({
+                role,
+                label: ROLES[role].label,
+                permissions: ROLES[role].permissions,
+                province_scoped: !!ROLES[role].province_scoped
+            }))
+        });
+    } catch (err) {
+        console.error('Error fetching super admin access:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
+// Change a super admin's role
+// Permissions are read on every request, so the change applies to their open sessions straight away
+router.put('/super-admin/:id/role', auth, requirePermission('superadmins.manage'), requireStepUp, async (req, res) => {
+    try {
+        const { id } = req.params;
+
+        // Only full super admins get here, so blocking self-changes also keeps at least one of them
+        if (req.user.userId === id) {
+            return res.status(400).json({ error: 'Cannot change your own role', code: 'CANNOT_CHANGE_OWN_ROLE' });
+        }
+
+        const roleInput = readRoleInput(req.body);
+        if (roleInput.error) {
+            return res.status(400).json({ error: roleInput.error, code: 'INVALID_ROLE' });
+        }
+
+        const superAdmin = await SuperAdmin.findById(id);
+        if (!superAdmin) {
+            return res.status(404).json({ error: 'Super admin not found', code: 'SUPER_ADMIN_NOT_FOUND' });
+        }
+
+        const { role: previousRole, role_label: previousLabel, province: previousProvince } = getAccess(superAdmin);
+        superAdmin.role = roleInput.role;
+        superAdmin.province = roleInput.province;
+        await superAdmin.save();
+        const { role, role_label, province } = getAccess(superAdmin);
+
+        try {
+            const auditLogger = new AuditLogger(req);
+            await auditLogger.logSuperAdminRoleChanged(
+                superAdmin,
+                { role: previousRole, role_label: previousLabel, province: previousProvince },
+                { role, role_label, province }
+            );
+        } catch (auditError) {
+            console.error('Failed to log super admin role change:', auditError);
+        }
+
+        res.json({
+            message: `${superAdmin.name} is now a ${role_label}${province ? ` for ${province}` : ''}`,
+            super_admin: { id: superAdmin._id, name: superAdmin.name, email: superAdmin.email, role, province }
+        });
+    } catch (err) {
+        console.error('Error changing super admin role:', err);
+        res.status(500).json({ error: 'Server error', code: 'SERVER_ERROR' });
+    }
+});
+
 // Delete super admin
-router.delete('/super-admin/:id', auth, requireSuperAdmin, async (req, res) => {
+router.delete('/super-admin/:id', auth, requirePermission('superadmins.manage'), requireStepUp, async (req, res) => {
     try {
         const { id } = req.params;
 
@@ -2837,7 +3851,7 @@ router.delete('/super-admin/:id', auth, requireSuperAdmin, async (req, res) => {
 // ================================
 
 // Get mosques list for code regeneration with filtering and search
-router.get('/mosque/code-regeneration', auth, requireSuperAdmin, async (req, res) => {
+router.get('/mosque/code-regeneration', auth, requirePermission('codes.manage'), async (req, res) => {
     try {
         const {
             search,
@@ -2858,7 +3872,7 @@ router.get('/mosque/code-regeneration', auth, requireSuperAdmin, async (req, res
         });
 
         // Build filter query
-        let filter = {};
+        let filter = { ...mosqueScope(req) };
 
         // Search filter
         if (search && search.trim()) {
@@ -2928,7 +3942,7 @@ router.get('/mosque/code-regeneration', auth, requireSuperAdmin, async (req, res
                     id: mosque._id.toString(),
                     name: mosque.name,
                     location: mosque.location,
-                    verification_code: mosque.verification_code,
+                    verification_code_prefix: mosque.verification_code_prefix,
                     verification_code_expires: mosque.verification_code_expires,
                     contact_phone: mosque.contact_phone || 'N/A',
                     contact_email: mosque.contact_email || 'N/A',
@@ -3006,7 +4020,7 @@ router.get('/mosque/code-regeneration', auth, requireSuperAdmin, async (req, res
 });
 
 // Regenerate multiple mosque verification codes
-router.post('/mosque/regenerate-multiple-codes', auth, requireSuperAdmin, async (req, res) => {
+router.post('/mosque/regenerate-multiple-codes', auth, requirePermission('codes.manage'), async (req, res) => {
     try {
         const { mosque_ids, expiry_days = 30 } = req.body;
 
@@ -3050,48 +4064,33 @@ router.post('/mosque/regenerate-multiple-codes', auth, requireSuperAdmin, async
                     failedCount++;
                     continue;
                 }
+                if (!(await canAccessMosque(req, mosque._id))) {
+                    failedMosques.push({
+                        mosque_id: mosqueId,
+                        error: 'This record is outside your region'
+                    });
+                    failedCount++;
+                    continue;
+                }
 
-                // Store old code for audit
-                const oldCode = mosque.verification_code;
+                // Only the old code's prefix is kept for the audit trail
+                const oldCode = mosque.verification_code_prefix;
                 const oldExpiry = mosque.verification_code_expires;
 
-                // Generate new verification code (8 bytes = 16 hex characters)
-                const newCode = crypto.randomBytes(8).toString('hex').toUpperCase();
+                const newCode = generateVerificationCode();
                 const newExpiry = new Date();
-                console.log(`Generated new code for ${mosque.name}: ${newCode} (${newCode.length} characters)`);
-                console.log(`Old code was: ${oldCode} (${oldCode.length} characters)`);
                 newExpiry.setDate(newExpiry.getDate() + parseInt(expiry_days));
 
-                // Find and update associated admin status (if any)
-                let adminStatusChanged = null;
+                // Admins who joined with the old code need the new one at their next login
+                let adminsStatusChanged = [];
                 try {
-                    const admin = await Admin.findOne({ mosque_id: mosqueId, status: 'approved' });
-                    if (admin) {
-                        adminStatusChanged = {
-                            name: admin.name,
-                            email: admin.email,
-                            phone: admin.phone
-                        };
-
-                        // Update admin status to code_regenerated instead of deleting
-                        await Admin.findByIdAndUpdate(admin._id, {
-                            status: 'code_regenerated',
-                            code_regeneration_reason: 'Mosque verification code was regenerated by super admin',
-                            code_regeneration_date: new Date(),
-                            code_regenerated_by: req.user._id,
-                            previous_mosque_code: oldCode,
-                            code_regenerated_mosque_name: mosque.name,
-                            code_regenerated_mosque_location: mosque.location,
-                            can_reapply: true
-                        });
-                        console.log(`Changed admin ${admin.email} status to code_regenerated for mosque ${mosque.name}`);
-                    }
+                    adminsStatusChanged = await suspendCodeMembers(mosque, oldCode, req.user.userId);
                 } catch (adminError) {
                     console.warn(`Failed to update admin status for mosque ${mosqueId}:`, adminError);
                 }
 
                 // Update mosque with new code
-                mosque.verification_code = newCode;
+                mosque.set(toStoredVerificationCode(newCode));
                 mosque.verification_code_expires = newExpiry;
                 await mosque.save();
 
@@ -3101,10 +4100,11 @@ router.post('/mosque/regenerate-multiple-codes', auth, requireSuperAdmin, async
                 updatedMosques.push({
                     mosque_id: mosqueId,
                     mosque_name: mosque.name,
-                    old_code: oldCode,
+                    old_code_prefix: oldCode,
+                    // Shown once to the super admin; only the hash is stored
                     new_code: newCode,
                     new_expiry: newExpiry.toISOString(),
-                    admin_status_changed: adminStatusChanged
+                    admins_status_changed: adminsStatusChanged
                 });
 
                 successCount++;
@@ -3118,10 +4118,10 @@ router.post('/mosque/regenerate-multiple-codes', auth, requireSuperAdmin, async
                         await auditLogger.logCodeRegenerated(mosque, oldCode, newCode, newExpiry);
                         console.log(`✅ Individual audit log created successfully`);
                     }
-                    // Also log the admin status change if there was one
-                    if (adminStatusChanged) {
-                        await auditLogger.logAdminCodeRegenerated(adminStatusChanged, mosque, oldCode, newCode);
-                        console.log(`✅ Admin code regeneration audit log created for ${adminStatusChanged.email}`);
+                    // Also log each admin whose status changed
+                    for (const changedAdmin of adminsStatusChanged) {
+                        await auditLogger.logAdminCodeRegenerated(changedAdmin, mosque, oldCode, newCode);
+                        console.log(`✅ Admin code regeneration audit log created for ${changedAdmin.email}`);
                     }
                     // For multiple mosques, we'll create a bulk audit log below
                 } catch (auditError) {
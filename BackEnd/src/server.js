@@ -9,10 +9,18 @@ import authRoutes from './routes/auth.js';
 import mosqueRoutes from './routes/mosque.js';
 import superadminRoutes from './routes/superadmin.js';
 import adminRoutes from './routes/admin.js';
+import cronRoutes from './routes/cron.js';
+import pushRoutes from './routes/push.js';
+import congregantRoutes from './routes/congregant.js';
+import { getSmtpHealth } from './utils/notifications.js';
+import { LOCAL_UPLOAD_DIR, LOCAL_UPLOAD_ROUTE, CACHE_MAX_AGE } from '../services/photoStorage.js';
 
 const app = express();
 const isProduction = process.env.NODE_ENV === 'production';
 
+// Behind Vercel's proxy - use X-Forwarded-For so rate limits see the real client IP
+app.set('trust proxy', 1);
+
 
 
 // 🧠 Configure CORS
@@ -21,12 +29,16 @@ app.use(cors({
         ? ['https://pakmasjid.vercel.app']
         : ['http://localhost:5173', 'http://localhost:5174'],
     credentials: true,
+    exposedHeaders: ['Content-Disposition', 'Retry-After'],
 }));
 
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 app.use(cookieParser());
 
+// 🖼️ Approved gallery photos stored by the local storage driver (hiding a photo deletes its files here)
+app.use(LOCAL_UPLOAD_ROUTE, express.static(LOCAL_UPLOAD_DIR, { maxAge: CACHE_MAX_AGE, fallthrough: false }));
+
 // For Vercel serverless mode
 app.use(async (req, res, next) => {
     if (!isConnected) await connectToDatabase();
@@ -34,10 +46,17 @@ app.use(async (req, res, next) => {
 });
 
 
-// ✅ Health route
-app.get('/api/health', (req, res) => {
+// ✅ Health route - DEGRADED while the mail server is unreachable (emails wait in the outbox meanwhile).
+// Mail server and outbox details are only shown to the cron secret holder at /api/cron/health.
+app.get('/api/health', async (req, res) => {
+    let smtp = null;
+    try {
+        smtp = await getSmtpHealth();
+    } catch (err) {
+        console.error('Email health check failed:', err.message);
+    }
     res.json({
-        status: 'OK',
+        status: smtp?.ok ? 'OK' : 'DEGRADED',
         environment: isProduction ? 'production' : 'development',
         timestamp: new Date().toISOString(),
     });
@@ -48,6 +67,9 @@ app.use('/api', authRoutes);
 app.use('/api/mosques', mosqueRoutes);
 app.use('/api/superadmin', superadminRoutes);
 app.use('/api/admin', adminRoutes);
+app.use('/api/cron', cronRoutes);
+app.use('/api/push', pushRoutes);
+app.use('/api/congregant', congregantRoutes);
 
 // 🧠 Optimized MongoDB connection for serverless environments
 let isConnected = false;
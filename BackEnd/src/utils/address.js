@@ -0,0 +1,126 @@
+// Structured mosque addresses - input parsing, display formatting and city/province facets
+import { validateAddress } from './validators.js';
+
+// Parts of a structured address, in display order
+const ADDRESS_FIELDS = ['street', 'area', 'city', 'district', 'province', 'postal_code'];
+
+// Most city facets returned with a mosque list
+const MAX_CITY_FACETS = 30;
+
+const escapeRegex = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Read the optional address field of a create or update request.
+ * Sending null, or an address with every part empty, clears it.
+ * @param {Object} body - Request body
+ * @returns {{provided: boolean, address: Object|null, error: string|null}}
+ */
+const readAddressInput = (body) => {
+    const input = body?.address;
+    if (input === undefined) {
+        return { provided: false, address: null, error: null };
+    }
+    if (input === null) {
+        return { provided: true, address: null, error: null };
+    }
+
+    const validation = validateAddress(input);
+    if (!validation.valid) {
+        return { provided: true, address: null, error: validation.error };
+    }
+
+    const address = {};
+    ADDRESS_FIELDS.forEach((field) => {
+        const value = input[field];
+        if (value !== undefined && value !== null && String(value).trim()) {
+            address[field] = String(value).trim();
+        }
+    });
+
+    return {
+        provided: true,
+        address: Object.keys(address).length > 0 ? address : null,
+        error: null
+    };
+};
+
+/**
+ * Single-line form of an address, e.g. "Mall Road, Gulberg, Lahore, Punjab 54000"
+ * @param {Object} address
+ * @returns {string}
+ */
+const formatAddress = (address) => {
+    if (!address) return '';
+    const lines = ['street', 'area', 'city', 'district']
+        .map(field => address[field])
+        .filter(Boolean);
+    const region = [address.province, address.postal_code].filter(Boolean).join(' ');
+    if (region) lines.push(region);
+    return lines.join(', ');
+};
+
+/**
+ * Address parts of a mosque for API responses, with missing parts as empty strings
+ * @param {Object} address - Stored address subdocument
+ * @returns {Object|null}
+ */
+const toAddressResponse = (address) => {
+    if (!address) return null;
+    const response = {};
+    ADDRESS_FIELDS.forEach((field) => {
+        response[field] = address[field] || '';
+    });
+    return ADDRESS_FIELDS.some(field => response[field]) ? response : null;
+};
+
+/**
+ * Case-insensitive match conditions for the ?city= and ?province= list filters
+ * @param {Object} query - { city, province } from the query string
+ * @returns {{city: Object, province: Object}} - Empty objects when a filter is absent
+ */
+const buildAddressFilters = ({ city, province } = {}) => {
+    const exact = (value) => new RegExp(`^${escapeRegex(value.trim())}$`, 'i');
+    return {
+        city: typeof city === 'string' && city.trim() ? { 'address.city': exact(city) } : {},
+        province: typeof province === 'string' && province.trim() ? { 'address.province': exact(province) } : {}
+    };
+};
+
+// Group by one address part, ignoring case, and count mosques per value
+const facetStages = (field, match, limit) => {
+    const stages = [
+        { $match: { ...match, [`address.${field}`]: { $nin: [null, ''] } } },
+        {
+            $group: {
+                _id: { $toLower: `$address.${field}` },
+                value: { $first: `$address.${field}` },
+                count: { $sum: 1 }
+            }
+        },
+        { $sort: { count: -1, value: 1 } },
+        { $project: { _id: 0, value: 1, count: 1 } }
+    ];
+    if (limit) stages.push({ $limit: limit });
+    return stages;
+};
+
+/**
+ * $facet sub-pipelines counting mosques per province and per city.
+ * Each facet ignores its own filter so every chip keeps its count
+ * while a value of the same facet is selected.
+ * @param {{city: Object, province: Object}} filters - From buildAddressFilters
+ * @returns {{provinces: Array, cities: Array}}
+ */
+const addressFacetStages = (filters) => ({
+    provinces: facetStages('province', filters.city),
+    cities: facetStages('city', filters.province, MAX_CITY_FACETS)
+});
+
+export {
+    ADDRESS_FIELDS,
+    readAddressInput,
+    formatAddress,
+    toAddressResponse,
+    buildAddressFilters,
+    addressFacetStages
+};
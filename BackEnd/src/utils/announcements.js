@@ -0,0 +1,190 @@
+// Announcements and events board - input validation, responses and the Atom feed
+import { buildFrontendLink } from './invitations.js';
+
+const ANNOUNCEMENT_CATEGORIES = ['general', 'lecture', 'janaza', 'eid', 'fundraiser', 'class'];
+
+const CATEGORY_LABELS = {
+    general: 'Announcement',
+    lecture: 'Lecture',
+    janaza: 'Janaza',
+    eid: 'Eid',
+    fundraiser: 'Fundraiser',
+    class: 'Class'
+};
+
+const MAX_TITLE_LENGTH = 120;
+const MAX_BODY_LENGTH = 5000;
+
+// Page size of the public board, and how many entries the feed carries
+const DEFAULT_PAGE_SIZE = 10;
+const MAX_PAGE_SIZE = 50;
+const FEED_ENTRY_LIMIT = 30;
+
+/**
+ * Parse an optional date field from the request body
+ * @returns {Date|null|undefined} - null when cleared, undefined when not a valid date
+ */
+const parseOptionalDate = (value) => {
+    if (value === null || value === undefined || value === '') return null;
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+/**
+ * Build the stored shape of an announcement from the request body
+ * @param {Object} body
+ * @returns {Object} - { data, error } where error is set when the input is invalid
+ */
+const buildAnnouncementData = (body) => {
+    const title = typeof body.title === 'string' ? body.title.trim() : '';
+    const text = typeof body.body === 'string' ? body.body.trim() : '';
+    const category = body.category || 'general';
+
+    if (!title) return { error: 'Title is required' };
+    if (title.length > MAX_TITLE_LENGTH) return { error: `Title cannot exceed ${MAX_TITLE_LENGTH} characters` };
+    if (!text) return { error: 'Announcement text is required' };
+    if (text.length > MAX_BODY_LENGTH) return { error: `Announcement text cannot exceed ${MAX_BODY_LENGTH} characters` };
+    if (!ANNOUNCEMENT_CATEGORIES.includes(category)) {
+        return { error: `Category must be one of: ${ANNOUNCEMENT_CATEGORIES.join(', ')}` };
+    }
+
+    const startsAt = parseOptionalDate(body.starts_at);
+    const endsAt = parseOptionalDate(body.ends_at);
+    const expiresAt = parseOptionalDate(body.expires_at);
+    if (startsAt === undefined || endsAt === undefined || expiresAt === undefined) {
+        return { error: 'Dates must be valid ISO 8601 date-times' };
+    }
+    if (endsAt && !startsAt) return { error: 'An end time needs a start time' };
+    if (endsAt && endsAt < startsAt) return { error: 'The end time must be after the start time' };
+
+    return {
+        data: {
+            title,
+            body: text,
+            category,
+            starts_at: startsAt,
+            ends_at: endsAt,
+            pinned: body.pinned === true,
+            expires_at: expiresAt
+        }
+    };
+};
+
+/**
+ * Announcements the public can see: everything that has not expired yet
+ * @param {string} mosqueId
+ * @param {Date} now
+ * @returns {Object} - Mongo filter
+ */
+const visibleAnnouncementFilter = (mosqueId, now = new Date()) => ({
+    mosque_id: mosqueId,
+    $or: [{ expires_at: null }, { expires_at: { $gt: now } }]
+});
+
+// Pinned announcements first, then the newest
+const ANNOUNCEMENT_SORT = { pinned: -1, createdAt: -1 };
+
+const toAnnouncementResponse = (announcement, { includeExpiry = false } = {}) => {
+    const response = {
+        id: announcement._id,
+        title: announcement.title,
+        body: announcement.body,
+        category: announcement.category,
+        category_label: CATEGORY_LABELS[announcement.category],
+        starts_at: announcement.starts_at,
+        ends_at: announcement.ends_at,
+        pinned: announcement.pinned,
+        created_at: announcement.createdAt,
+        updated_at: announcement.updatedAt
+    };
+    if (includeExpiry) {
+        response.expires_at = announcement.expires_at;
+        response.expired = !!announcement.expires_at && announcement.expires_at <= new Date();
+    }
+    return response;
+};
+
+// Fields recorded in the audit log
+const toAnnouncementSnapshot = (announcement) => ({
+    title: announcement.title,
+    category: announcement.category,
+    starts_at: announcement.starts_at,
+    ends_at: announcement.ends_at,
+    pinned: announcement.pinned,
+    expires_at: announcement.expires_at
+});
+
+/**
+ * Escape text for XML element content and attribute values
+ */
+const escapeXml = (value) => {
+    return String(value)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+};
+
+/**
+ * Build an Atom feed (RFC 4287) of a mosque's announcements
+ * @param {Object} mosque - Mosque document
+ * @param {Array} announcements - Visible announcements, in board order
+ * @param {Object} options
+ * @param {string} options.selfUrl - Absolute URL the feed was requested from
+ * @param {string} options.host - Host name used in entry ids
+ * @param {Date} options.now - Generation time, used when there are no entries
+ * @returns {string}
+ */
+const buildAnnouncementFeed = (mosque, announcements, { selfUrl, host = 'mosque-management', now = new Date() }) => {
+    const pageUrl = buildFrontendLink(`/mosques/${mosque._id}`);
+    const updated = announcements.reduce(
+        (latest, announcement) => (announcement.updatedAt > latest ? announcement.updatedAt : latest),
+        announcements.length > 0 ? announcements[0].updatedAt : now
+    );
+
+    const lines = [
+        '<?xml version="1.0" encoding="utf-8"?>',
+        '<feed xmlns="http://www.w3.org/2005/Atom">',
+        `  <id>tag:${escapeXml(host)},2025:mosque/${mosque._id}/announcements</id>`,
+        `  <title>${escapeXml(`${mosque.name} - Announcements`)}</title>`,
+        `  <updated>${updated.toISOString()}</updated>`,
+        `  <link rel="self" type="application/atom+xml" href="${escapeXml(selfUrl)}"/>`,
+        `  <link rel="alternate" type="text/html" href="${escapeXml(pageUrl)}"/>`,
+        `  <author><name>${escapeXml(mosque.name)}</name></author>`
+    ];
+
+    for (const announcement of announcements) {
+        // Event times are shown in the text because Atom has no field for them
+        const when = announcement.starts_at
+            ? `When: ${announcement.starts_at.toISOString()}${announcement.ends_at ? ` to ${announcement.ends_at.toISOString()}` : ''}\n\n`
+            : '';
+        lines.push(
+            '  <entry>',
+            `    <id>tag:${escapeXml(host)},2025:announcement/${announcement._id}</id>`,
+            `    <title>${escapeXml(announcement.title)}</title>`,
+            `    <published>${announcement.createdAt.toISOString()}</published>`,
+            `    <updated>${announcement.updatedAt.toISOString()}</updated>`,
+            `    <link rel="alternate" type="text/html" href="${escapeXml(pageUrl)}"/>`,
+            `    <category term="${announcement.category}" label="${CATEGORY_LABELS[announcement.category]}"/>`,
+            `    <content type="text">${escapeXml(when + announcement.body)}</content>`,
+            '  </entry>'
+        );
+    }
+
+    lines.push('</feed>');
+    return lines.join('\n') + '\n';
+};
+
+export {
+    ANNOUNCEMENT_CATEGORIES,
+    ANNOUNCEMENT_SORT,
+    DEFAULT_PAGE_SIZE,
+    MAX_PAGE_SIZE,
+    FEED_ENTRY_LIMIT,
+    buildAnnouncementData,
+    visibleAnnouncementFilter,
+    toAnnouncementResponse,
+    toAnnouncementSnapshot,
+    buildAnnouncementFeed
+};
@@ -0,0 +1,162 @@
+// Supporting documents applicants attach to show they run the mosque, and reviewers' requests for more information
+import mongoose from 'mongoose';
+import { getPrivateStorage } from '../../services/photoStorage.js';
+
+const DOCUMENT_KINDS = {
+    committee_letter: 'Mosque committee letter',
+    id_card: 'National ID card (CNIC)',
+    utility_bill: 'Mosque utility bill',
+    other: 'Other document'
+};
+
+const DOCUMENT_KIND_NAMES = Object.keys(DOCUMENT_KINDS);
+
+const DOCUMENT_REVIEW_STATUSES = ['unreviewed', 'verified', 'rejected'];
+
+const MAX_DOCUMENT_BYTES = 4 * 1024 * 1024;
+// Registration keeps uploads in the pending record until the email is verified,
+// so one upload has to stay well under MongoDB's 16 MB document limit
+const MAX_DOCUMENTS_PER_UPLOAD = 3;
+const MAX_DOCUMENTS_PER_APPLICATION = 10;
+const MAX_INFO_MESSAGE_LENGTH = 1000;
+
+// Accepted types with the leading bytes every such file starts with
+const DOCUMENT_TYPES = {
+    'application/pdf': { extension: 'pdf', signature: [0x25, 0x50, 0x44, 0x46] }, // %PDF
+    'image/jpeg': { extension: 'jpg', signature: [0xff, 0xd8, 0xff] },
+    'image/png': { extension: 'png', signature: [0x89, 0x50, 0x4e, 0x47] },
+    'image/webp': { extension: 'webp', signature: [0x52, 0x49, 0x46, 0x46] } // RIFF
+};
+
+/**
+ * Whether a file's contents match the type the browser declared
+ * @param {Buffer} buffer
+ * @param {string} mimeType
+ * @returns {boolean}
+ */
+const matchesDeclaredType = (buffer, mimeType) => {
+    const signature = DOCUMENT_TYPES[mimeType]?.signature;
+    return !!signature && buffer.length >= signature.length && signature.every((byte, index) => buffer[index] === byte);
+};
+
+/**
+ * Validate the files of a multipart upload and pair each with its kind
+ * @param {Array} files - req.files from documentUpload
+ * @param {string|string[]} kinds - document_kinds form field, one per file in the same order
+ * @returns {{documents: Array, error: string|null}} - documents hold kind, original_name, mime_type, size and data
+ */
+const readDocumentUploads = (files = [], kinds = []) => {
+    const kindList = Array.isArray(kinds) ? kinds : [kinds];
+    const documents = [];
+
+    for (const [index, file] of files.entries()) {
+        const kind = kindList[index] || 'other';
+        if (!DOCUMENT_KINDS[kind]) {
+            return { documents: [], error: `Document type must be one of: ${DOCUMENT_KIND_NAMES.join(', ')}` };
+        }
+        if (!matchesDeclaredType(file.buffer, file.mimetype)) {
+            return { documents: [], error: `${file.originalname} is not a valid PDF or image file` };
+        }
+        documents.push({
+            kind,
+            original_name: file.originalname.slice(0, 200),
+            mime_type: file.mimetype,
+            size: file.size,
+            data: file.buffer
+        });
+    }
+
+    return { documents, error: null };
+};
+
+/**
+ * Write documents to private storage for an admin
+ * @param {string} adminId
+ * @param {Array} documents - From readDocumentUploads, or a pending registration's documents
+ * @returns {Promise<Array>} - Entries for admin.application_documents
+ */
+const storeApplicationDocuments = async (adminId, documents) => {
+    const storage = getPrivateStorage();
+    const stored = [];
+
+    for (const document of documents) {
+        const _id = new mongoose.Types.ObjectId();
+        const storage_key = `applications/${adminId}/${_id}.${DOCUMENT_TYPES[document.mime_type].extension}`;
+        await storage.save(storage_key, Buffer.from(document.data), document.mime_type);
+        stored.push({
+            _id,
+            kind: document.kind,
+            original_name: document.original_name,
+            mime_type: document.mime_type,
+            size: document.size,
+            storage_key,
+            uploaded_at: new Date()
+        });
+    }
+
+    return stored;
+};
+
+/**
+ * Contents of a stored document
+ * @param {Object} document - Entry of admin.application_documents
+ * @returns {Promise<Buffer>}
+ */
+const readApplicationDocument = (document) => getPrivateStorage().read(document.storage_key);
+
+/**
+ * Document as shown to reviewers and the applicant; the storage key stays internal
+ * @param {Object} document
+ * @returns {Object}
+ */
+const toDocumentResponse = (document) => ({
+    id: document._id,
+    kind: document.kind,
+    kind_label: DOCUMENT_KINDS[document.kind] || DOCUMENT_KINDS.other,
+    original_name: document.original_name,
+    mime_type: document.mime_type,
+    size: document.size,
+    uploaded_at: document.uploaded_at,
+    review_status: document.review_status || 'unreviewed',
+    review_note: document.review_note || null,
+    reviewed_at: document.reviewed_at || null
+});
+
+/**
+ * The reviewer's question the applicant has not answered yet
+ * @param {Object} admin
+ * @returns {Object|null}
+ */
+const getOpenInfoRequest = (admin) => {
+    const latest = admin.info_requests?.[admin.info_requests.length - 1];
+    return latest && !latest.responded_at ? latest : null;
+};
+
+/**
+ * @param {Object} infoRequest - Entry of admin.info_requests
+ * @returns {Object}
+ */
+const toInfoRequestResponse = (infoRequest) => ({
+    id: infoRequest._id,
+    message: infoRequest.message,
+    requested_at: infoRequest.requested_at,
+    response: infoRequest.response || null,
+    responded_at: infoRequest.responded_at || null
+});
+
+export {
+    DOCUMENT_KINDS,
+    DOCUMENT_KIND_NAMES,
+    DOCUMENT_REVIEW_STATUSES,
+    DOCUMENT_TYPES,
+    MAX_DOCUMENT_BYTES,
+    MAX_DOCUMENTS_PER_UPLOAD,
+    MAX_DOCUMENTS_PER_APPLICATION,
+    MAX_INFO_MESSAGE_LENGTH,
+    readDocumentUploads,
+    storeApplicationDocuments,
+    readApplicationDocument,
+    toDocumentResponse,
+    getOpenInfoRequest,
+    toInfoRequestResponse
+};
@@ -1,4 +1,5 @@
 import AuditLog from '../models/AuditLog.js';
+import { getVerificationCodePrefix } from './verificationCode.js';
 
 class AuditLogger {
     constructor(req) {
@@ -45,7 +46,7 @@ class AuditLogger {
                     contact_phone: mosqueData.contact_phone,
                     contact_email: mosqueData.contact_email,
                     admin_instructions: mosqueData.admin_instructions,
-                    verification_code: mosqueData.verification_code,
+                    verification_code_prefix: mosqueData.verification_code_prefix,
                     verification_code_expires: mosqueData.verification_code_expires
                 },
                 ip_address: this.ip_address,
@@ -55,7 +56,11 @@ class AuditLogger {
     }
 
     // Log mosque deletion
-    async logMosqueDeleted(mosqueData, adminData = null) {
+    // admins is the mosque's whole team; the first owner is recorded as the admin, everyone in before_data
+    async logMosqueDeleted(mosqueData, admins = [], reason = '') {
+        const adminData = admins.find(admin => (admin.mosque_role || 'owner') === 'owner' && admin.status === 'approved')
+            || admins[0]
+            || null;
         const auditData = {
             action_type: 'mosque_deleted',
             performed_by: this.getUserInfo(),
@@ -72,7 +77,7 @@ class AuditLogger {
                     contact_phone: mosqueData.contact_phone,
                     contact_email: mosqueData.contact_email,
                     admin_instructions: mosqueData.admin_instructions,
-                    verification_code: mosqueData.verification_code,
+                    verification_code_prefix: mosqueData.verification_code_prefix,
                     verification_code_expires: mosqueData.verification_code_expires
                 },
                 ip_address: this.ip_address,
@@ -80,6 +85,10 @@ class AuditLogger {
             }
         };
 
+        if (reason) {
+            auditData.action_details.reason = reason;
+        }
+
         // Include admin data if mosque had an admin
         if (adminData) {
             auditData.action_details.admin_data = {
@@ -94,6 +103,14 @@ class AuditLogger {
                 application_notes: adminData.application_notes,
                 super_admin_notes: adminData.super_admin_notes
             };
+            auditData.action_details.before_data = {
+                team: admins.map(admin => ({
+                    name: admin.name,
+                    email: admin.email,
+                    status: admin.status,
+                    mosque_role: admin.mosque_role || 'owner'
+                }))
+            };
         }
 
         return await AuditLog.logAction(auditData);
@@ -251,7 +268,7 @@ class AuditLogger {
         });
     }
 
-    // Log verification code regeneration
+    // Log verification code regeneration (codes are reduced to their display prefix)
     async logVerificationCodeRegenerated(mosqueData, oldCode, newCode, adminRemoved = null) {
         const auditData = {
             action_type: 'verification_code_regenerated',
@@ -265,11 +282,11 @@ class AuditLogger {
                 mosque_data: {
                     name: mosqueData.name,
                     location: mosqueData.location,
-                    verification_code: newCode,
+                    verification_code_prefix: getVerificationCodePrefix(newCode),
                     verification_code_expires: mosqueData.verification_code_expires
                 },
-                before_data: { verification_code: oldCode },
-                after_data: { verification_code: newCode },
+                before_data: { verification_code_prefix: getVerificationCodePrefix(oldCode) },
+                after_data: { verification_code_prefix: getVerificationCodePrefix(newCode) },
                 ip_address: this.ip_address,
                 user_agent: this.user_agent
             }
@@ -293,7 +310,7 @@ class AuditLogger {
     }
 
     // Log prayer times update
-    async logPrayerTimesUpdated(mosqueData, oldTimes, newTimes) {
+    async logPrayerTimesUpdated(mosqueData, oldTimes, newTimes, notes = null) {
         return await AuditLog.logAction({
             action_type: 'prayer_times_updated',
             performed_by: this.getUserInfo(),
@@ -310,6 +327,100 @@ class AuditLogger {
                 before_data: { prayer_times: oldTimes },
                 after_data: { prayer_times: newTimes },
                 prayer_times: newTimes,
+                notes,
+                ip_address: this.ip_address,
+                user_agent: this.user_agent
+            }
+        });
+    }
+
+    // Log prayer calculation settings update
+    async logPrayerCalculationUpdated(mosqueData, oldSettings, newSettings) {
+        return await AuditLog.logAction({
+            action_type: 'prayer_calculation_updated',
+            performed_by: this.getUserInfo(),
+            target: {
+                target_type: 'prayer_times',
+                target_id: mosqueData._id,
+                target_name: mosqueData.name
+            },
+            action_details: {
+                mosque_data: {
+                    name: mosqueData.name,
+                    location: mosqueData.location
+                },
+                before_data: { prayer_calculation: oldSettings },
+                after_data: { prayer_calculation: newSettings },
+                ip_address: this.ip_address,
+                user_agent: this.user_agent
+            }
+        });
+    }
+
+    // Log timetable schedule created / updated / deleted
+    async logPrayerScheduleChanged(mosqueData, changeType, schedule, beforeData, afterData) {
+        return await AuditLog.logAction({
+            action_type: `prayer_schedule_${changeType}`,
+            performed_by: this.getUserInfo(),
+            target: {
+                target_type: 'prayer_times',
+                target_id: schedule._id,
+                target_name: schedule.name
+            },
+            action_details: {
+                mosque_data: {
+                    name: mosqueData.name,
+                    location: mosqueData.location
+                },
+                before_data: beforeData,
+                after_data: afterData,
+                ip_address: this.ip_address,
+                user_agent: this.user_agent
+            }
+        });
+    }
+
+    // Log gallery photo upload, moderation decision or deletion
+    async logPhotoChanged(mosqueData, changeType, photo, notes = '', beforeData = null, afterData = null) {
+        return await AuditLog.logAction({
+            action_type: `photo_${changeType}`,
+            performed_by: this.getUserInfo(),
+            target: {
+                target_type: 'photo',
+                target_id: photo._id,
+                target_name: photo.caption || photo.original_name || 'Gallery photo'
+            },
+            action_details: {
+                mosque_data: {
+                    name: mosqueData.name,
+                    location: mosqueData.location
+                },
+                before_data: beforeData,
+                after_data: afterData,
+                notes,
+                ip_address: this.ip_address,
+                user_agent: this.user_agent
+            }
+        });
+    }
+
+    // Log announcement or event created / updated / deleted
+    async logAnnouncementChanged(mosqueData, changeType, announcement, beforeData, afterData) {
+        return await AuditLog.logAction({
+            action_type: `announcement_${changeType}`,
+            performed_by: this.getUserInfo(),
+            target: {
+                target_type: 'announcement',
+                target_id: announcement._id,
+                target_name: announcement.title
+            },
+            action_details: {
+                mosque_data: {
+                    name: mosqueData.name,
+                    location: mosqueData.location
+                },
+                before_data: beforeData,
+                after_data: afterData,
                 ip_address: this.ip_address,
                 user_agent: this.user_agent
             }
@@ -372,6 +483,284 @@ class AuditLogger {
         });
     }
 
+    // Log an owner inviting someone to their mosque's admin team
+    async logMosqueMemberInvited(mosqueData, invitation, roleLabel) {
+        return await AuditLog.logAction({
+            action_type: 'mosque_member_invited',
+            performed_by: this.getUserInfo(),
+            target: {
+                target_type: 'mosque',
+                target_id: mosqueData._id,
+                target_name: mosqueData.name
+            },
+            action_details: {
+                mosque_data: {
+                    name: mosqueData.name,
+                    location: mosqueData.location
+                },
+                after_data: {
+                    email: invitation.email,
+                    mosque_role: invitation.mosque_role,
+                    role_label: roleLabel,
+                    expires_at: invitation.expires_at
+                },
+                ip_address: this.ip_address,
+                user_agent: this.user_agent
+            }
+        });
+    }
+
+    // Log an invitee accepting and joining a mosque's admin team
+    async logMosqueMemberJoined(adminData, mosqueData, roleLabel) {
+        return await AuditLog.logAction({
+            action_type: 'mosque_member_joined',
+            performed_by: {
+                user_id: adminData._id,
+                user_type: 'admin',
+                user_email: adminData.email,
+                user_name: adminData.name
+            },
+            target: {
+                target_type: 'admin',
+                target_id: adminData._id,
+                target_name: adminData.name
+            },
+            action_details: {
+                admin_data: {
+                    name: adminData.name,
+                    email: adminData.email,
+                    phone: adminData.phone,
+                    status: adminData.status,
+                    mosque_id: mosqueData._id,
+                    mosque_name: mosqueData.name,
+                    mosque_location: mosqueData.location
+                },
+                after_data: {
+                    mosque_role: adminData.mosque_role,
+                    role_label: roleLabel
+                },
+                ip_address: this.ip_address,
+                user_agent: this.user_agent
+            }
+        });
+    }
+
+    // Log an owner changing another admin's role on their mosque
+    async logMosqueMemberRoleChanged(adminData, mosqueData, previousRole, newRole) {
+        return await AuditLog.logAction({
+            action_type: 'mosque_member_role_changed',
+            performed_by: this.getUserInfo(),
+            target: {
+                target_type: 'admin',
+                target_id: adminData._id,
+                target_name: adminData.name
+            },
+            action_details: {
+                admin_data: {
+                    name: adminData.name,
+                    email: adminData.email,
+                    mosque_id: mosqueData._id,
+                    mosque_name: mosqueData.name,
+                    mosque_location: mosqueData.location
+                },
+                before_data: previousRole,
+                after_data: newRole,
+                ip_address: this.ip_address,
+                user_agent: this.user_agent
+            }
+        });
+    }
+
+    // Log an owner removing another admin from their mosque
+    async logMosqueMemberRemoved(adminData, mosqueData, reason = '') {
+        return await AuditLog.logAction({
+            action_type: 'mosque_member_removed',
+            performed_by: this.getUserInfo(),
+            target: {
+                target_type: 'admin',
+                target_id: adminData._id,
+                target_name: adminData.name
+            },
+            action_details: {
+                admin_data: {
+                    name: adminData.name,
+                    email: adminData.email,
+                    phone: adminData.phone,
+                    status: adminData.status,
+                    mosque_id: mosqueData._id,
+                    mosque_name: mosqueData.name,
+                    mosque_location: mosqueData.location
+                },
+                before_data: {
+                    mosque_role: adminData.mosque_role
+                },
+                reason,
+                ip_address: this.ip_address,
+                user_agent: this.user_agent
+            }
+        });
+    }
+
+    // Log a super admin inviting someone to apply as a mosque's admin
+    async logAdminInvitationSent(mosqueData, invitation) {
+        return await AuditLog.logAction({
+            action_type: 'admin_invitation_sent',
+            performed_by: this.getUserInfo(),
+            target: {
+                target_type: 'mosque',
+                target_id: mosqueData._id,
+                target_name: mosqueData.name
+            },
+            action_details: {
+                mosque_data: {
+                    name: mosqueData.name,
+                    location: mosqueData.location
+                },
+                after_data: {
+                    email: invitation.email,
+                    purpose: invitation.purpose,
+                    expires_at: invitation.expires_at
+                },
+                ip_address: this.ip_address,
+                user_agent: this.user_agent
+            }
+        });
+    }
+
+    // Log a super admin revoking an open invitation
+    async logAdminInvitationRevoked(mosqueData, invitation) {
+        return await AuditLog.logAction({
+            action_type: 'admin_invitation_revoked',
+            performed_by: this.getUserInfo(),
+            target: {
+                target_type: 'mosque',
+                target_id: mosqueData._id,
+                target_name: mosqueData.name
+            },
+            action_details: {
+                mosque_data: {
+                    name: mosqueData.name,
+                    location: mosqueData.location
+                },
+                before_data: {
+                    email: invitation.email,
+                    purpose: invitation.purpose,
+                    mosque_role: invitation.mosque_role
+                },
+                ip_address: this.ip_address,
+                user_agent: this.user_agent
+            }
+        });
+    }
+
+    // Log a super admin sending questions back to a pending applicant
+    async logAdminInfoRequested(adminData, mosqueData, message) {
+        return await AuditLog.logAction({
+            action_type: 'admin_info_requested',
+            performed_by: this.getUserInfo(),
+            target: {
+                target_type: 'admin',
+                target_id: adminData._id,
+                target_name: adminData.name
+            },
+            action_details: {
+                admin_data: {
+                    name: adminData.name,
+                    email: adminData.email,
+                    mosque_id: mosqueData?._id,
+                    mosque_name: mosqueData?.name
+                },
+                after_data: { message },
+                ip_address: this.ip_address,
+                user_agent: this.user_agent
+            }
+        });
+    }
+
+    // Log an applicant answering an information request
+    async logAdminInfoProvided(adminData, mosqueData, response, documentCount) {
+        return await AuditLog.logAction({
+            action_type: 'admin_info_provided',
+            performed_by: {
+                user_id: adminData._id,
+                user_type: 'admin',
+                user_email: adminData.email,
+                user_name: adminData.name
+            },
+            target: {
+                target_type: 'admin',
+                target_id: adminData._id,
+                target_name: adminData.name
+            },
+            action_details: {
+                admin_data: {
+                    name: adminData.name,
+                    email: adminData.email,
+                    mosque_id: mosqueData?._id,
+                    mosque_name: mosqueData?.name
+                },
+                after_data: {
+                    response,
+                    documents_added: documentCount
+                },
+                ip_address: this.ip_address,
+                user_agent: this.user_agent
+            }
+        });
+    }
+
+    // Log a reviewer's checklist verdict on an application document
+    async logAdminDocumentReviewed(adminData, document, previousStatus) {
+        return await AuditLog.logAction({
+            action_type: 'admin_document_reviewed',
+            performed_by: this.getUserInfo(),
+            target: {
+                target_type: 'admin',
+                target_id: adminData._id,
+                target_name: adminData.name
+            },
+            action_details: {
+                admin_data: {
+                    name: adminData.name,
+                    email: adminData.email
+                },
+                before_data: { review_status: previousStatus },
+                after_data: {
+                    original_name: document.original_name,
+                    kind: document.kind,
+                    review_status: document.review_status,
+                    review_note: document.review_note
+                },
+                ip_address: this.ip_address,
+                user_agent: this.user_agent
+            }
+        });
+    }
+
+    // Log a super admin resending an email from the notification outbox
+    async logEmailResent(entry) {
+        return await AuditLog.logAction({
+            action_type: 'email_resent',
+            performed_by: this.getUserInfo(),
+            target: {
+                target_type: entry.admin_id ? 'admin' : 'system',
+                target_id: entry.admin_id || entry._id,
+                target_name: entry.recipient_name || entry.recipient_email
+            },
+            action_details: {
+                before_data: {
+                    event: entry.event,
+                    subject: entry.subject,
+                    recipient_email: entry.recipient_email,
+                    attempts: entry.attempts
+                },
+                after_data: { status: entry.status },
+                ip_address: this.ip_address,
+                user_agent: this.user_agent
+            }
+        });
+    }
+
     // Log login attempts
     async logLogin(userData, loginType = 'admin') {
         return await AuditLog.logAction({
@@ -394,6 +783,31 @@ class AuditLogger {
         });
     }
 
+    // Log an IP address or account locked out by the rate limiter
+    async logLockout(lockout) {
+        return await AuditLog.logAction({
+            action_type: 'account_locked',
+            performed_by: this.getUserInfo(),
+            target: {
+                target_type: 'system',
+                target_name: lockout.identifier
+            },
+            action_details: {
+                after_data: {
+                    policy: lockout.policy,
+                    scope: lockout.scope,
+                    identifier: lockout.identifier,
+                    lockouts: lockout.lockouts,
+                    locked_until: lockout.locked_until
+                },
+                reason: `${lockout.failures} failed ${lockout.policy.replace(/_/g, ' ')} attempts`,
+                ip_address: this.ip_address,
+                user_agent: this.user_agent
+            },
+            status: 'success'
+        });
+    }
+
     // Log errors
     async logError(errorData) {
         return await AuditLog.logAction({
@@ -440,6 +854,25 @@ class AuditLogger {
         });
     }
 
+    // Log a super admin's role or province being changed
+    async logSuperAdminRoleChanged(superAdminData, previousAccess, newAccess) {
+        return await AuditLog.logAction({
+            action_type: 'super_admin_role_changed',
+            performed_by: this.getUserInfo(),
+            target: {
+                target_type: 'super_admin',
+                target_id: superAdminData._id,
+                target_name: superAdminData.name
+            },
+            action_details: {
+                before_data: previousAccess,
+                after_data: newAccess,
+                ip_address: this.ip_address,
+                user_agent: this.user_agent
+            }
+        });
+    }
+
     // Log super admin deletion
     async logSuperAdminDeleted(superAdminData, deletedBy = 'existing_super_admin') {
         return await AuditLog.logAction({
@@ -476,8 +909,8 @@ class AuditLogger {
             action_details: {
                 mosque_name: mosque.name,
                 mosque_location: mosque.location,
-                old_verification_code: oldCode,
-                new_verification_code: newCode,
+                old_verification_code_prefix: getVerificationCodePrefix(oldCode),
+                new_verification_code_prefix: getVerificationCodePrefix(newCode),
                 new_expiry_date: newExpiry,
                 regeneration_reason: 'Manual regeneration by super admin',
                 ip_address: this.ip_address,
@@ -537,7 +970,7 @@ class AuditLogger {
                     mosque_id: mosqueData._id,
                     mosque_name: mosqueData.name,
                     mosque_location: mosqueData.location,
-                    validated_code: validatedCode
+                    validated_code_prefix: getVerificationCodePrefix(validatedCode)
                 },
                 action_summary: `Admin ${adminData.name} (${adminData.email}) successfully validated mosque code and status changed from 'code_regenerated' to 'approved'`,
                 ip_address: this.ip_address,
@@ -570,8 +1003,8 @@ class AuditLogger {
                     mosque_id: mosqueData._id,
                     mosque_name: mosqueData.name,
                     mosque_location: mosqueData.location,
-                    old_verification_code: oldCode,
-                    new_verification_code: newCode
+                    old_verification_code_prefix: getVerificationCodePrefix(oldCode),
+                    new_verification_code_prefix: getVerificationCodePrefix(newCode)
                 },
                 action_summary: `Admin ${adminData.name} (${adminData.email}) status changed to 'code_regenerated' due to mosque code regeneration for ${mosqueData.name}`,
                 ip_address: this.ip_address,
@@ -0,0 +1,129 @@
+// iCalendar feed - publishes a mosque's jamaat times as calendar events
+import { DEFAULT_TIMEZONE, toUtcInstant } from './prayerCalculator.js';
+import { getDailyPrayers } from './timetable.js';
+import { parsePrayerTime } from './validators.js';
+
+// Days of past events kept in the feed and days published ahead
+const FEED_PAST_DAYS = 7;
+const FEED_FUTURE_DAYS = 60;
+
+// How often subscribed calendars are asked to refresh
+const REFRESH_INTERVAL = 'PT6H';
+
+// Length of each event in minutes
+const EVENT_DURATION = {
+    jummah: 45,
+    default: 20
+};
+
+/**
+ * Escape a TEXT value (RFC 5545 section 3.3.11)
+ */
+const escapeText = (value) => {
+    return String(value)
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r?\n/g, '\\n');
+};
+
+/**
+ * Fold a content line to 75 octets (RFC 5545 section 3.1)
+ */
+const foldLine = (line) => {
+    const bytes = Buffer.from(line, 'utf8');
+    if (bytes.length <= 75) return line;
+
+    const parts = [];
+    let current = '';
+    let currentBytes = 0;
+    for (const char of line) {
+        const size = Buffer.byteLength(char, 'utf8');
+        // Continuation lines start with a space, which counts toward the limit
+        const limit = parts.length === 0 ? 75 : 74;
+        if (currentBytes + size > limit) {
+            parts.push(current);
+            current = '';
+            currentBytes = 0;
+        }
+        current += char;
+        currentBytes += size;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+};
+
+/**
+ * Format an instant as a UTC DATE-TIME, e.g. 20250101T043000Z
+ */
+const formatInstant = (instant) => {
+    return instant.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+/**
+ * Build an iCalendar document for a mosque's resolved timetable
+ * @param {Object} mosque - Mosque document
+ * @param {Array} entries - Entries from resolveTimetable
+ * @param {Object} options
+ * @param {string} options.host - Host name used in event UIDs
+ * @param {Date} options.now - Generation time
+ * @returns {string}
+ */
+const buildCalendarFeed = (mosque, entries, { host = 'mosque-management', now = new Date() } = {}) => {
+    const timezone = mosque.prayer_calculation?.timezone || DEFAULT_TIMEZONE;
+    const stamp = formatInstant(now);
+    const lastModified = mosque.timetable_updated_at ? formatInstant(new Date(mosque.timetable_updated_at)) : null;
+    const sequence = mosque.timetable_version || 0;
+
+    const description = [
+        `Jamaat time at ${mosque.name}`,
+        mosque.contact_phone ? `Contact: ${mosque.contact_phone}` : null
+    ].filter(Boolean).join('\n');
+
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Mosque Management//Prayer Times//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(`${mosque.name} Prayer Times`)}`,
+        `X-WR-TIMEZONE:${timezone}`,
+        `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+        `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`
+    ];
+
+    entries.forEach((entry) => {
+        getDailyPrayers(entry).forEach(({ prayer, name, time }) => {
+            const normalized = parsePrayerTime(time);
+            if (!normalized) return;
+
+            const start = toUtcInstant(entry.date, normalized, timezone);
+            const duration = EVENT_DURATION[prayer] || EVENT_DURATION.default;
+            const end = new Date(start.getTime() + duration * 60000);
+
+            lines.push(
+                'BEGIN:VEVENT',
+                // One stable UID per mosque, date and prayer so edits replace the existing event
+                `UID:${mosque._id}-${entry.date}-${prayer}@${host}`,
+                `DTSTAMP:${stamp}`,
+                `DTSTART:${formatInstant(start)}`,
+                `DTEND:${formatInstant(end)}`,
+                `SEQUENCE:${sequence}`,
+                `SUMMARY:${escapeText(`${name} Jamaat - ${mosque.name}`)}`,
+                `LOCATION:${escapeText(mosque.location)}`,
+                `DESCRIPTION:${escapeText(description)}`
+            );
+            if (lastModified) lines.push(`LAST-MODIFIED:${lastModified}`);
+            lines.push('TRANSP:TRANSPARENT', 'END:VEVENT');
+        });
+    });
+
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+export {
+    FEED_PAST_DAYS,
+    FEED_FUTURE_DAYS,
+    buildCalendarFeed
+};
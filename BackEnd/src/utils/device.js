@@ -0,0 +1,85 @@
+// Human-readable device and location details for sign-in sessions
+
+// Checked in order - Edge and Opera also identify as Chrome, Chrome also identifies as Safari
+const BROWSERS = [
+    { name: 'Edge', pattern: /Edg(?:e|A|iOS)?\/([\d.]+)/ },
+    { name: 'Opera', pattern: /(?:OPR|Opera)\/([\d.]+)/ },
+    { name: 'Samsung Internet', pattern: /SamsungBrowser\/([\d.]+)/ },
+    { name: 'Firefox', pattern: /(?:Firefox|FxiOS)\/([\d.]+)/ },
+    { name: 'Chrome', pattern: /(?:Chrome|CriOS)\/([\d.]+)/ },
+    { name: 'Safari', pattern: /Version\/([\d.]+).*Safari/ }
+];
+
+const OPERATING_SYSTEMS = [
+    { name: 'iOS', pattern: /iPhone|iPad|iPod/ },
+    { name: 'Android', pattern: /Android/ },
+    { name: 'Windows', pattern: /Windows/ },
+    { name: 'macOS', pattern: /Mac OS X|Macintosh/ },
+    { name: 'ChromeOS', pattern: /CrOS/ },
+    { name: 'Linux', pattern: /Linux/ }
+];
+
+/**
+ * Describe the device behind a User-Agent header
+ * @param {string} userAgent
+ * @returns {{browser: string, browser_version: string|null, os: string, type: string, label: string}}
+ */
+const describeDevice = (userAgent) => {
+    const ua = userAgent || '';
+
+    const browserMatch = BROWSERS.find(({ pattern }) => pattern.test(ua));
+    const browser = browserMatch?.name || 'Unknown browser';
+    const browserVersion = browserMatch ? ua.match(browserMatch.pattern)[1].split('.')[0] : null;
+    const os = OPERATING_SYSTEMS.find(({ pattern }) => pattern.test(ua))?.name || 'Unknown OS';
+
+    let type = 'desktop';
+    if (/iPad|Tablet/.test(ua) || (/Android/.test(ua) && !/Mobile/.test(ua))) {
+        type = 'tablet';
+    } else if (/Mobi|iPhone|iPod/.test(ua)) {
+        type = 'mobile';
+    }
+
+    return {
+        browser,
+        browser_version: browserVersion,
+        os,
+        type,
+        label: `${browserVersion ? `${browser} ${browserVersion}` : browser} on ${os}`
+    };
+};
+
+const isPrivateAddress = (ip) => /^(::1|127\.|10\.|192\.168\.|172\.(1[6-9]|2\d|3[01])\.|fc|fd|::ffff:(127|10|192\.168)\.)/i.test(ip || '');
+
+const decodeHeader = (value) => {
+    if (!value) return null;
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        return value;
+    }
+};
+
+/**
+ * Approximate location of a request, from the geolocation headers added by the hosting edge
+ * (Vercel or Cloudflare). There is no IP database lookup, so it is null elsewhere.
+ * @param {Object} req - Express request
+ * @returns {string|null} - e.g. "Lahore, PB, PK"
+ */
+const requestLocation = (req) => {
+    if (isPrivateAddress(req.ip)) {
+        return 'Local network';
+    }
+
+    const parts = [
+        decodeHeader(req.get('x-vercel-ip-city')),
+        req.get('x-vercel-ip-country-region'),
+        req.get('x-vercel-ip-country') || req.get('cf-ipcountry')
+    ].filter(Boolean);
+
+    return parts.length > 0 ? parts.join(', ') : null;
+};
+
+export {
+    describeDevice,
+    requestLocation
+};
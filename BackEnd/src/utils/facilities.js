@@ -0,0 +1,88 @@
+// Mosque facilities catalogue - amenity keys, list filters and API responses
+
+// Yes/no amenities, in display order
+const FACILITY_KEYS = [
+    'womens_prayer_area',
+    'wudu',
+    'wheelchair_access',
+    'parking',
+    'quran_classes',
+    'janaza_services',
+    'library'
+];
+
+// Languages the Jummah khutbah can be delivered in
+const KHUTBAH_LANGUAGES = [
+    'urdu',
+    'arabic',
+    'english',
+    'punjabi',
+    'pashto',
+    'sindhi',
+    'balochi',
+    'saraiki'
+];
+
+/**
+ * Parse the ?facilities= list filter, e.g. "parking,wudu".
+ * A mosque must offer every listed facility to match.
+ * @param {string} value - Comma-separated facility keys
+ * @returns {{filter: Object, error: string|null}}
+ */
+const parseFacilitiesFilter = (value) => {
+    if (value === undefined || value === '') return { filter: {}, error: null };
+    if (typeof value !== 'string') {
+        return { filter: {}, error: 'facilities must be a comma-separated list' };
+    }
+
+    const keys = value.split(',').map(key => key.trim()).filter(Boolean);
+    const unknown = keys.filter(key => !FACILITY_KEYS.includes(key));
+    if (unknown.length > 0) {
+        return {
+            filter: {},
+            error: `Unknown facilities: ${unknown.join(', ')}. Allowed: ${FACILITY_KEYS.join(', ')}`
+        };
+    }
+
+    const filter = {};
+    keys.forEach((key) => {
+        filter[`facilities.${key}`] = true;
+    });
+    return { filter, error: null };
+};
+
+/**
+ * Stored facilities from a validated request body, with missing amenities as false
+ * @param {Object} input - Validated facilities object
+ * @returns {Object}
+ */
+const normalizeFacilities = (input) => {
+    const facilities = {};
+    FACILITY_KEYS.forEach((key) => {
+        facilities[key] = input[key] === true;
+    });
+    facilities.khutbah_languages = [...new Set(input.khutbah_languages || [])];
+    return facilities;
+};
+
+/**
+ * Facilities of a mosque for API responses; mosques saved before the catalogue offer nothing
+ * @param {Object} facilities - Stored facilities subdocument
+ * @returns {Object}
+ */
+const toFacilitiesResponse = (facilities) => {
+    const response = {};
+    FACILITY_KEYS.forEach((key) => {
+        response[key] = Boolean(facilities?.[key]);
+    });
+    response.khutbah_languages = facilities?.khutbah_languages ? [...facilities.khutbah_languages] : [];
+    return response;
+};
+
+export {
+    FACILITY_KEYS,
+    KHUTBAH_LANGUAGES,
+    parseFacilitiesFilter,
+    normalizeFacilities,
+    toFacilitiesResponse
+};
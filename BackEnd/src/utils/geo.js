@@ -0,0 +1,87 @@
+// Geospatial helpers - GeoJSON points and "near me" search parameters
+import { validateCoordinates } from './validators.js';
+
+// Search radius used when ?near= is given without ?radius=, in kilometres
+const DEFAULT_RADIUS_KM = 5;
+const MAX_RADIUS_KM = 50;
+
+/**
+ * GeoJSON point for a latitude/longitude pair. GeoJSON stores longitude first.
+ * @param {number} latitude
+ * @param {number} longitude
+ * @returns {{type: string, coordinates: number[]}}
+ */
+const toGeoPoint = (latitude, longitude) => ({
+    type: 'Point',
+    coordinates: [longitude, latitude]
+});
+
+/**
+ * Latitude/longitude of a stored GeoJSON point
+ * @param {Object} point
+ * @returns {{latitude: number, longitude: number}|null}
+ */
+const fromGeoPoint = (point) => {
+    const coordinates = point?.coordinates;
+    if (!Array.isArray(coordinates) || coordinates.length !== 2) return null;
+    return { latitude: coordinates[1], longitude: coordinates[0] };
+};
+
+/**
+ * Parse a "lat,lng" query value
+ * @param {string} value
+ * @returns {{latitude: number, longitude: number}|null}
+ */
+const parseLatLng = (value) => {
+    if (typeof value !== 'string') return null;
+    const parts = value.split(',').map(part => part.trim());
+    if (parts.length !== 2 || parts.some(part => part === '')) return null;
+
+    const latitude = Number(parts[0]);
+    const longitude = Number(parts[1]);
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+    if (latitude < -90 || latitude > 90 || longitude < -180 || longitude > 180) return null;
+
+    return { latitude, longitude };
+};
+
+const isBlank = (value) => value === null || value === '';
+
+/**
+ * Read the optional latitude/longitude fields of a create or update request.
+ * Sending both as null or empty clears the map position.
+ * @param {Object} body - Request body
+ * @returns {{provided: boolean, point: Object|null, error: string|null}}
+ */
+const readCoordinatesInput = (body) => {
+    const { latitude, longitude } = body || {};
+    if (latitude === undefined && longitude === undefined) {
+        return { provided: false, point: null, error: null };
+    }
+
+    if (isBlank(latitude) && isBlank(longitude)) {
+        return { provided: true, point: null, error: null };
+    }
+
+    if (latitude === undefined || longitude === undefined || isBlank(latitude) || isBlank(longitude)) {
+        return { provided: true, point: null, error: 'Latitude and longitude must be provided together' };
+    }
+
+    const lat = Number(latitude);
+    const lng = Number(longitude);
+    const validation = validateCoordinates(lat, lng);
+    if (!validation.valid) {
+        return { provided: true, point: null, error: validation.error };
+    }
+
+    return { provided: true, point: toGeoPoint(lat, lng), error: null };
+};
+
+export {
+    DEFAULT_RADIUS_KM,
+    MAX_RADIUS_KM,
+    toGeoPoint,
+    fromGeoPoint,
+    parseLatLng,
+    readCoordinatesInput
+};
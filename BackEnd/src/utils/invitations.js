@@ -0,0 +1,105 @@
+// Email invitations to join a mosque's admin team or to apply for a mosque
+import crypto from 'crypto';
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+const INVITATION_PURPOSES = ['team', 'application'];
+
+const INVITATION_STATUSES = ['sent', 'opened', 'accepted', 'expired', 'revoked'];
+
+const DEFAULT_FRONTEND_URL = process.env.NODE_ENV === 'production'
+    ? 'https://pakmasjid.vercel.app'
+    : 'http://localhost:5173';
+
+/**
+ * Hash of an invitation token; only the hash is stored
+ * @param {string} token
+ * @returns {string}
+ */
+const hashInvitationToken = (token) => crypto.createHash('sha256').update(String(token)).digest('hex');
+
+/**
+ * New invitation token with its hash and expiry
+ * @returns {{token: string, token_hash: string, expires_at: Date}}
+ */
+const createInvitationToken = () => {
+    const token = crypto.randomBytes(32).toString('base64url');
+    return {
+        token,
+        token_hash: hashInvitationToken(token),
+        expires_at: new Date(Date.now() + INVITATION_TTL_MS)
+    };
+};
+
+/**
+ * Absolute link to a page of the web app, for emails
+ * @param {string} path - Starting with a slash
+ * @returns {string}
+ */
+const buildFrontendLink = (path) => `${(process.env.FRONTEND_URL || DEFAULT_FRONTEND_URL).replace(/\/$/, '')}${path}`;
+
+/**
+ * App path the invitee opens to accept. Application invitations open the mosque's application form.
+ * @param {string} token
+ * @param {Object} invitation - Needs purpose and mosque_id
+ * @returns {string} - Made absolute by the email template
+ */
+const buildInvitationPath = (token, invitation) => {
+    if (invitation?.purpose === 'application') {
+        return `/mosques/${invitation.mosque_id}/apply?invitation=${token}`;
+    }
+    return `/admin/invite/${token}`;
+};
+
+/**
+ * Whether an invitation can still be accepted
+ * @param {Object} invitation
+ * @returns {boolean}
+ */
+const isInvitationOpen = (invitation) => !!invitation
+    && !invitation.accepted_at
+    && !invitation.revoked_at
+    && invitation.expires_at > new Date();
+
+/**
+ * Where an invitation is in its lifecycle
+ * @param {Object} invitation
+ * @returns {string} - One of INVITATION_STATUSES
+ */
+const getInvitationStatus = (invitation) => {
+    if (invitation.accepted_at) return 'accepted';
+    if (invitation.revoked_at) return 'revoked';
+    if (invitation.expires_at <= new Date()) return 'expired';
+    return invitation.opened_at ? 'opened' : 'sent';
+};
+
+/**
+ * Query conditions matching invitations in a lifecycle status
+ * @param {string} status - One of INVITATION_STATUSES
+ * @returns {Object}
+ */
+const invitationStatusFilter = (status) => {
+    const now = new Date();
+    const open = { accepted_at: null, revoked_at: null, expires_at: { $gt: now } };
+    switch (status) {
+        case 'sent': return { ...open, opened_at: null };
+        case 'opened': return { ...open, opened_at: { $ne: null } };
+        case 'accepted': return { accepted_at: { $ne: null } };
+        case 'revoked': return { accepted_at: null, revoked_at: { $ne: null } };
+        case 'expired': return { accepted_at: null, revoked_at: null, expires_at: { $lte: now } };
+        default: return {};
+    }
+};
+
+export {
+    INVITATION_TTL_MS,
+    INVITATION_PURPOSES,
+    INVITATION_STATUSES,
+    hashInvitationToken,
+    createInvitationToken,
+    buildFrontendLink,
+    buildInvitationPath,
+    isInvitationOpen,
+    getInvitationStatus,
+    invitationStatusFilter
+};
@@ -0,0 +1,53 @@
+// Removing a mosque together with the records and stored files that belong to it
+import Mosque from '../models/Mosque.js';
+import PrayerSchedule from '../models/PrayerSchedule.js';
+import TimetableDay from '../models/TimetableDay.js';
+import MosquePhoto from '../models/MosquePhoto.js';
+import Announcement from '../models/Announcement.js';
+import MosqueInvitation from '../models/MosqueInvitation.js';
+import PushSubscription from '../models/PushSubscription.js';
+import Congregant from '../models/Congregant.js';
+import { removePhotoVariants } from './photos.js';
+
+/**
+ * Delete a mosque and everything stored for it: schedules, imported timetable days, photos and
+ * their image files, announcements, pending invitations, push subscriptions and favorites.
+ * Admins are left to the caller, which keeps their accounts. The mosque goes last, so a failed
+ * run can be repeated.
+ * @param {string|ObjectId} mosqueId
+ * @returns {Promise<Object>} - How many records of each kind were removed
+ */
+const deleteMosqueData = async (mosqueId) => {
+    const photos = await MosquePhoto.find({ mosque_id: mosqueId });
+    for (const photo of photos) {
+        try {
+            await removePhotoVariants(photo);
+        } catch (error) {
+            // A file left in storage is better than a mosque that is only half deleted
+            console.error(`Failed to remove the files of photo ${photo._id}:`, error);
+        }
+    }
+
+    const [schedules, timetableDays, photoRecords, announcements, invitations, pushSubscriptions] = await Promise.all([
+        PrayerSchedule.deleteMany({ mosque_id: mosqueId }),
+        TimetableDay.deleteMany({ mosque_id: mosqueId }),
+        MosquePhoto.deleteMany({ mosque_id: mosqueId }),
+        Announcement.deleteMany({ mosque_id: mosqueId }),
+        // Accepted invitations stay as a record of who joined
+        MosqueInvitation.deleteMany({ mosque_id: mosqueId, accepted_at: null }),
+        PushSubscription.deleteMany({ mosque_id: mosqueId })
+    ]);
+    await Congregant.updateMany({ favorite_mosques: mosqueId }, { $pull: { favorite_mosques: mosqueId } });
+    await Mosque.findByIdAndDelete(mosqueId);
+
+    return {
+        schedules: schedules.deletedCount,
+        timetable_days: timetableDays.deletedCount,
+        photos: photoRecords.deletedCount,
+        announcements: announcements.deletedCount,
+        invitations: invitations.deletedCount,
+        push_subscriptions: pushSubscriptions.deletedCount
+    };
+};
+
+export { deleteMosqueData };
@@ -0,0 +1,59 @@
+// Mosque-scoped admin roles and the permissions each one grants on its mosque
+const MOSQUE_PERMISSIONS = [
+    'mosque.view',
+    'mosque.edit', // Details, address and facilities
+    'prayer_times.edit', // Daily times, calculation settings, schedules and timetable imports
+    'photos.manage',
+    'announcements.manage', // Announcements and events board
+    'members.manage' // Invite, remove and change the role of other admins
+];
+
+const MOSQUE_ROLES = {
+    owner: {
+        label: 'Owner',
+        permissions: MOSQUE_PERMISSIONS
+    },
+    editor: {
+        label: 'Editor',
+        permissions: ['mosque.view', 'mosque.edit', 'prayer_times.edit', 'photos.manage', 'announcements.manage']
+    },
+    prayer_times: {
+        label: 'Prayer Times Only',
+        permissions: ['mosque.view', 'prayer_times.edit']
+    }
+};
+
+const MOSQUE_ROLE_NAMES = Object.keys(MOSQUE_ROLES);
+
+/**
+ * Role and permissions of an admin on their mosque.
+ * Admins who joined before roles existed have no role and are owners.
+ * @param {Object} admin
+ * @returns {{role: string, role_label: string, permissions: string[]}}
+ */
+const getMembership = (admin) => {
+    const role = MOSQUE_ROLES[admin?.mosque_role] ? admin.mosque_role : 'owner';
+    return {
+        role,
+        role_label: MOSQUE_ROLES[role].label,
+        permissions: MOSQUE_ROLES[role].permissions
+    };
+};
+
+/**
+ * Roles catalogue for the dashboard's role pickers
+ * @returns {Array<{role: string, label: string, permissions: string[]}>}
+ */
+const listMosqueRoles = () => MOSQUE_ROLE_NAMES.map(role => ({
+    role,
+    label: MOSQUE_ROLES[role].label,
+    permissions: MOSQUE_ROLES[role].permissions
+}));
+
+export {
+    MOSQUE_PERMISSIONS,
+    MOSQUE_ROLES,
+    MOSQUE_ROLE_NAMES,
+    getMembership,
+    listMosqueRoles
+};
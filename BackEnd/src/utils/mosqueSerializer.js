@@ -0,0 +1,84 @@
+// Mosque serializers - field-level visibility for public, admin and super admin responses
+import { fromGeoPoint } from './geo.js';
+import { toAddressResponse } from './address.js';
+import { toFacilitiesResponse } from './facilities.js';
+import { toCoverPhotoResponse } from './photos.js';
+
+// Views are cumulative: admins see every public field, super admins see every admin field
+const MOSQUE_VIEWS = ['public', 'admin', 'super_admin'];
+
+const EMPTY_PRAYER_TIMES = {
+    fajr: null,
+    dhuhr: null,
+    asr: null,
+    maghrib: null,
+    isha: null,
+    jummah: null
+};
+
+// Every field a mosque response may carry and the least privileged view allowed to see it.
+// The verification code is the only secret guarding admin registration. It is stored hashed, and
+// even its display prefix is kept out of public responses.
+const MOSQUE_FIELDS = [
+    { name: 'id', view: 'public', value: (mosque) => mosque._id },
+    { name: 'name', view: 'public', value: (mosque) => mosque.name },
+    { name: 'location', view: 'public', value: (mosque) => mosque.location },
+    { name: 'address', view: 'public', value: (mosque) => toAddressResponse(mosque.address) },
+    { name: 'description', view: 'public', value: (mosque) => mosque.description || '' },
+    { name: 'contact_email', view: 'public', value: (mosque) => mosque.contact_email || '' },
+    { name: 'contact_phone', view: 'public', value: (mosque) => mosque.contact_phone || '' },
+    { name: 'admin_instructions', view: 'public', value: (mosque) => mosque.admin_instructions || '' },
+    { name: 'createdAt', view: 'public', value: (mosque) => mosque.createdAt },
+    { name: 'updatedAt', view: 'public', value: (mosque) => mosque.updatedAt },
+    { name: 'prayer_times', view: 'public', value: (mosque) => mosque.prayer_times || EMPTY_PRAYER_TIMES },
+    { name: 'prayer_calculation', view: 'public', value: (mosque) => mosque.prayer_calculation || null },
+    { name: 'coordinates', view: 'public', value: (mosque) => fromGeoPoint(mosque.coordinates) },
+    { name: 'facilities', view: 'public', value: (mosque) => toFacilitiesResponse(mosque.facilities) },
+    { name: 'cover_photo', view: 'public', value: (mosque) => toCoverPhotoResponse(mosque.cover_photo) },
+    { name: 'verification_code_prefix', view: 'admin', value: (mosque) => mosque.verification_code_prefix || '' },
+    { name: 'verification_code_expires', view: 'admin', value: (mosque) => mosque.verification_code_expires || null },
+    {
+        name: 'verification_code_expired',
+        view: 'super_admin',
+        value: (mosque) => !!mosque.verification_code_expires && new Date() > mosque.verification_code_expires
+    },
+    { name: 'timetable_version', view: 'super_admin', value: (mosque) => mosque.timetable_version || 0 }
+];
+
+/**
+ * Names of the fields a view may see
+ * @param {string} view - 'public', 'admin' or 'super_admin'
+ * @returns {string[]}
+ */
+const getVisibleFields = (view) => {
+    const level = MOSQUE_VIEWS.indexOf(view);
+    if (level === -1) {
+        throw new Error(`Unknown mosque view "${view}"`);
+    }
+    return MOSQUE_FIELDS
+        .filter(field => MOSQUE_VIEWS.indexOf(field.view) <= level)
+        .map(field => field.name);
+};
+
+/**
+ * Serialize a mosque for one view. Fields above the view's level are never read.
+ * @param {Object} mosque - Mosque document
+ * @param {string} view - 'public', 'admin' or 'super_admin'
+ * @returns {Object}
+ */
+const serializeMosque = (mosque, view = 'public') => {
+    const visible = new Set(getVisibleFields(view));
+    const result = {};
+    for (const field of MOSQUE_FIELDS) {
+        if (visible.has(field.name)) {
+            result[field.name] = field.value(mosque);
+        }
+    }
+    return result;
+};
+
+export {
+    MOSQUE_VIEWS,
+    getVisibleFields,
+    serializeMosque
+};
@@ -0,0 +1,331 @@
+// Emails sent through the notification outbox: admin lifecycle notices (approved, rejected, removed, ...),
+// invitations, new-device alerts and verification/reset codes. An email is stored before it is sent, so
+// an SMTP outage delays it instead of losing it. Failed attempts are retried with exponential backoff by
+// the cron worker (GET /api/cron/notifications); emails that run out of attempts are moved to the dead letter state.
+import mongoose from 'mongoose';
+import NotificationOutbox from '../models/NotificationOutbox.js';
+import { renderNotification, resolveLocale } from '../../services/notificationTemplates.js';
+import { sendNotificationEmail, verifyConnection } from '../../services/mailService.js';
+import { buildFrontendLink } from './invitations.js';
+
+// Retry delays double from 1 minute up to 6 hours: 1, 2, 4, ... 64 minutes over 8 attempts
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+const MAX_ATTEMPTS = 8;
+
+// An attempt still marked as sending after this long was cut off (e.g. the serverless function ended)
+const STALE_SENDING_MS = 10 * 60 * 1000;
+
+// Due emails retried alongside each new notification
+const RETRY_BATCH_SIZE = 3;
+
+const MAX_ERROR_LENGTH = 500;
+
+// SMTP check results are reused for this long so the health checks stay cheap
+const HEALTH_CACHE_MS = 5 * 60 * 1000;
+
+let smtpHealth = null;
+
+/**
+ * Delay before the next attempt after the given number of failed attempts
+ * @param {number} attempts - Attempts made so far (at least 1)
+ * @returns {number} Milliseconds
+ */
+const getRetryDelay = (attempts) => Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+
+/**
+ * Outbox entries that may be attempted now
+ * @param {Date} now
+ * @returns {Object} Mongo filter
+ */
+const dueFilter = (now) => ({
+    $or: [
+        { status: 'pending', next_attempt_at: { $lte: now } },
+        { status: 'sending', last_attempt_at: { $lte: new Date(now.getTime() - STALE_SENDING_MS) } }
+    ]
+});
+
+// Codes in an email are useless once it is sent or abandoned, so they are not kept
+const removeSecretBody = (entry) => {
+    if (!entry.contains_secret) return;
+    entry.html = null;
+    entry.text = null;
+    entry.body_removed_at = new Date();
+};
+
+const moveToDeadLetter = (entry, reason) => {
+    entry.status = 'dead_letter';
+    entry.dead_lettered_at = new Date();
+    entry.last_error = reason;
+    removeSecretBody(entry);
+};
+
+/**
+ * Try to send one outbox entry. The entry is claimed first, so two requests never send the same email.
+ * @param {string|ObjectId} entryId
+ * @param {'inline'|'worker'|'resend'} trigger - Recorded in the delivery log
+ * @returns {Promise<Object|null>} The updated entry, or null if it was not due or already claimed
+ */
+const deliverNotification = async (entryId, trigger = 'inline') => {
+    const now = new Date();
+    const entry = await NotificationOutbox.findOneAndUpdate(
+        { _id: entryId, ...dueFilter(now) },
+        { $set: { status: 'sending', last_attempt_at: now }, $inc: { attempts: 1 } },
+        { new: true }
+    );
+    if (!entry) return null;
+
+    if (entry.expires_at && entry.expires_at <= now) {
+        // Nothing was sent, so this does not count as an attempt
+        entry.attempts -= 1;
+        moveToDeadLetter(entry, 'Expired before it could be delivered');
+        entry.delivery_log.push({ attempt: entry.attempts, trigger, outcome: 'expired', at: now });
+        await entry.save();
+        return entry;
+    }
+
+    const startedAt = Date.now();
+    try {
+        const { messageId } = await sendNotificationEmail({
+            to: entry.recipient_email,
+            subject: entry.subject,
+            html: entry.html,
+            text: entry.text
+        });
+        entry.status = 'sent';
+        entry.sent_at = new Date();
+        entry.message_id = messageId || null;
+        entry.last_error = null;
+        entry.delivery_log.push({
+            attempt: entry.attempts,
+            trigger,
+            outcome: 'sent',
+            at: now,
+            duration_ms: Date.now() - startedAt,
+            message_id: messageId
+        });
+        removeSecretBody(entry);
+    } catch (error) {
+        const message = String(error.message || error).slice(0, MAX_ERROR_LENGTH);
+        console.error(`Notification ${entry._id} (${entry.event}) failed on attempt ${entry.attempts}:`, message);
+        entry.delivery_log.push({
+            attempt: entry.attempts,
+            trigger,
+            outcome: 'failed',
+            at: now,
+            duration_ms: Date.now() - startedAt,
+            error: message
+        });
+        if (entry.attempts >= entry.max_attempts) {
+            moveToDeadLetter(entry, message);
+        } else {
+            entry.status = 'pending';
+            entry.last_error = message;
+            entry.next_attempt_at = new Date(Date.now() + getRetryDelay(entry.attempts));
+        }
+    }
+
+    await entry.save();
+    return entry;
+};
+
+/**
+ * Send emails whose next attempt is due, oldest first, until the batch or the time budget runs out
+ * @param {Object} [options]
+ * @param {number} [options.limit]
+ * @param {number} [options.timeBudgetMs] - Stop starting new attempts after this long (serverless time limits)
+ * @param {'inline'|'worker'} [options.trigger]
+ * @returns {Promise<{processed: number, sent: number, failed: number, dead_lettered: number}>}
+ */
+const processDueNotifications = async ({ limit = RETRY_BATCH_SIZE, timeBudgetMs = Infinity, trigger = 'inline' } = {}) => {
+    const startedAt = Date.now();
+    const due = await NotificationOutbox.find(dueFilter(new Date()))
+        .sort({ next_attempt_at: 1 })
+        .limit(limit)
+        .select('_id');
+
+    const result = { processed: 0, sent: 0, failed: 0, dead_lettered: 0 };
+    for (const { _id } of due) {
+        if (Date.now() - startedAt > timeBudgetMs) break;
+        const entry = await deliverNotification(_id, trigger);
+        if (!entry) continue;
+        result.processed++;
+        if (entry.status === 'sent') result.sent++;
+        else if (entry.status === 'dead_letter') result.dead_lettered++;
+        else result.failed++;
+    }
+    return result;
+};
+
+/**
+ * Store an email in the outbox and try to send it straight away
+ * @param {Object} email
+ * @param {string} email.event - Outbox event name, e.g. 'registration_code'
+ * @param {string} email.to
+ * @param {string} [email.name]
+ * @param {string} email.subject
+ * @param {string} email.html
+ * @param {string} email.text
+ * @param {string} [email.locale]
+ * @param {ObjectId} [email.adminId]
+ * @param {Date} [email.expiresAt] - Give up after this time
+ * @param {boolean} [email.containsSecret] - Remove the body once it has been sent or abandoned
+ * @param {boolean} [email.sendNow] - False to only queue it; call deliverNotification() later
+ * @returns {Promise<Object>} The outbox entry, after the first attempt when sendNow is true
+ */
+const queueEmail = async ({ event, to, name = null, subject, html, text, locale = 'en', adminId = null, expiresAt = null, containsSecret = false, sendNow = true }) => {
+    const entry = await NotificationOutbox.create({
+        event,
+        locale,
+        admin_id: adminId,
+        recipient_email: to,
+        recipient_name: name,
+        subject,
+        html,
+        text,
+        contains_secret: containsSecret,
+        expires_at: expiresAt,
+        max_attempts: MAX_ATTEMPTS
+    });
+    if (!sendNow) return entry;
+
+    const delivered = await deliverNotification(entry._id, 'inline');
+    // Earlier emails that failed get another chance while the mail server is known to be reachable
+    if (delivered?.status === 'sent') {
+        await processDueNotifications();
+    }
+    return delivered || entry;
+};
+
+/**
+ * Render a registry template in the recipient's language and queue it
+ * @param {string} event - One of NOTIFICATION_EVENTS
+ * @param {Object} recipient
+ * @param {string} recipient.email
+ * @param {string} [recipient.name]
+ * @param {string} [recipient.locale]
+ * @param {ObjectId} [recipient.adminId]
+ * @param {Object} data - Template values besides the recipient's name
+ * @param {Object} [options] - expiresAt and containsSecret, as for queueEmail()
+ * @returns {Promise<Object>} The outbox entry
+ */
+const queueTemplatedEmail = async (event, recipient, data = {}, { expiresAt = null, containsSecret = false } = {}) => {
+    const rendered = renderNotification(
+        event,
+        resolveLocale(recipient.locale),
+        { name: recipient.name, ...data },
+        buildFrontendLink
+    );
+
+    return queueEmail({
+        event,
+        to: recipient.email,
+        name: recipient.name || null,
+        subject: rendered.subject,
+        html: rendered.html,
+        text: rendered.text,
+        locale: rendered.locale,
+        adminId: recipient.adminId || null,
+        expiresAt,
+        containsSecret
+    });
+};
+
+/**
+ * Email an admin about a change to their account, in their preferred language.
+ * Never throws - a notification must not fail the action that triggered it.
+ * @param {string} event - One of NOTIFICATION_EVENTS
+ * @param {Object} admin - Admin document (name, email, preferred_language)
+ * @param {Object} data - Template values besides the admin's name (mosque_name, reason, ...)
+ * @returns {Promise<Object|null>} The outbox entry, or null if it could not be queued
+ */
+const notifyAdmin = async (event, admin, data = {}) => {
+    try {
+        return await queueTemplatedEmail(event, {
+            email: admin.email,
+            name: admin.name,
+            locale: admin.preferred_language,
+            adminId: admin._id
+        }, data);
+    } catch (error) {
+        console.error(`Failed to queue ${event} notification for ${admin?.email} (non-critical):`, error);
+        return null;
+    }
+};
+
+/**
+ * Notify several admins about the same event, one after another
+ * @param {string} event
+ * @param {Object[]} admins
+ * @param {Object} data
+ * @returns {Promise<void>}
+ */
+const notifyAdmins = async (event, admins, data = {}) => {
+    for (const admin of admins) {
+        await notifyAdmin(event, admin, data);
+    }
+};
+
+/**
+ * Put an email back in the queue at a super admin's request, with a fresh set of attempts
+ * @param {Object} entry - Outbox entry that is not currently being sent and still has its body
+ * @param {ObjectId} superAdminId
+ * @returns {Promise<Object>} The entry after the new attempt
+ */
+const resendNotification = async (entry, superAdminId) => {
+    entry.status = 'pending';
+    entry.next_attempt_at = new Date();
+    entry.max_attempts = entry.attempts + MAX_ATTEMPTS;
+    entry.dead_lettered_at = null;
+    entry.delivery_log.push({ attempt: entry.attempts, trigger: 'resend', outcome: 'requeued', requested_by: superAdminId });
+    await entry.save();
+
+    return (await deliverNotification(entry._id, 'resend')) || entry;
+};
+
+/**
+ * Mail server reachability, checked at most once per HEALTH_CACHE_MS. Enough for /api/health's status.
+ * @returns {Promise<Object>}
+ */
+const getSmtpHealth = async () => {
+    if (!smtpHealth || Date.now() - smtpHealth.checked_at.getTime() > HEALTH_CACHE_MS) {
+        smtpHealth = await verifyConnection();
+    }
+    return smtpHealth;
+};
+
+/**
+ * Mail server reachability and outbox backlog, for /api/cron/health
+ * @returns {Promise<Object>}
+ */
+const getEmailHealth = async () => {
+    const smtp = await getSmtpHealth();
+
+    let outbox = null;
+    // Counting would wait for the database to come up; report the mail server alone instead
+    if (mongoose.connection.readyState === 1) {
+        const [pending, deadLetter, oldestPending] = await Promise.all([
+            NotificationOutbox.countDocuments({ status: { $in: ['pending', 'sending'] } }),
+            NotificationOutbox.countDocuments({ status: 'dead_letter' }),
+            NotificationOutbox.findOne({ status: 'pending' }).sort({ createdAt: 1 }).select('createdAt')
+        ]);
+        outbox = { pending, dead_letter: deadLetter, oldest_pending_at: oldestPending?.createdAt || null };
+    }
+
+    return { smtp, outbox };
+};
+
+export {
+    MAX_ATTEMPTS,
+    getRetryDelay,
+    deliverNotification,
+    processDueNotifications,
+    queueEmail,
+    queueTemplatedEmail,
+    notifyAdmin,
+    notifyAdmins,
+    resendNotification,
+    getSmtpHealth,
+    getEmailHealth
+};
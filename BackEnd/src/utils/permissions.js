@@ -0,0 +1,155 @@
+// Super admin roles and the permissions each one grants
+import Admin from '../models/Admin.js';
+import Mosque from '../models/Mosque.js';
+import { PROVINCES } from './validators.js';
+
+const PERMISSIONS = [
+    'dashboard.view',
+    'requests.view', // Pending, rejected and history of admin applications
+    'requests.review', // Approve, reject, allow reapplication
+    'mosques.view',
+    'mosques.create',
+    'mosques.edit',
+    'mosques.delete',
+    'admins.manage', // Remove or assign mosque admins
+    'codes.manage', // Verification code regeneration
+    'photos.moderate',
+    'audit.view',
+    'audit.export',
+    'audit.delete',
+    'superadmins.manage',
+    'emails.manage' // Email delivery log and resending
+];
+
+const ROLES = {
+    super_admin: {
+        label: 'Full Super Admin',
+        permissions: PERMISSIONS
+    },
+    reviewer: {
+        label: 'Reviewer',
+        permissions: ['dashboard.view', 'requests.view', 'requests.review', 'mosques.view']
+    },
+    auditor: {
+        label: 'Auditor',
+        permissions: ['dashboard.view', 'audit.view', 'audit.export']
+    },
+    // Runs day-to-day mosque administration for a single province
+    regional_manager: {
+        label: 'Regional Manager',
+        permissions: [
+            'dashboard.view',
+            'requests.view',
+            'requests.review',
+            'mosques.view',
+            'mosques.create',
+            'mosques.edit',
+            'admins.manage',
+            'codes.manage',
+            'photos.moderate'
+        ],
+        province_scoped: true
+    }
+};
+
+const ROLE_NAMES = Object.keys(ROLES);
+
+/**
+ * Role, province and permissions of a super admin document.
+ * Accounts created before roles existed have no role and keep full access.
+ * @param {Object} superAdmin
+ * @returns {{role: string, role_label: string, province: string|null, permissions: string[]}}
+ */
+const getAccess = (superAdmin) => {
+    const role = ROLES[superAdmin?.role] ? superAdmin.role : 'super_admin';
+    return {
+        role,
+        role_label: ROLES[role].label,
+        province: ROLES[role].province_scoped ? superAdmin.province || null : null,
+        permissions: ROLES[role].permissions
+    };
+};
+
+/**
+ * Validate a role assignment from a request body
+ * @param {Object} body - { role, province }; role defaults to a full super admin
+ * @returns {{role: string|null, province: string|null, error: string|null}}
+ */
+const readRoleInput = (body) => {
+    const role = body?.role ?? 'super_admin';
+    if (!ROLES[role]) {
+        return { role: null, province: null, error: `Role must be one of: ${ROLE_NAMES.join(', ')}` };
+    }
+    if (!ROLES[role].province_scoped) {
+        return { role, province: null, error: null };
+    }
+    if (!PROVINCES.includes(body?.province)) {
+        return { role: null, province: null, error: `${ROLES[role].label}s need a province: ${PROVINCES.join(', ')}` };
+    }
+    return { role, province: body.province, error: null };
+};
+
+/**
+ * Mosque query conditions limiting a request to the caller's province
+ * @param {Object} req - Request that went through requirePermission
+ * @returns {Object} - Empty for unscoped roles
+ */
+const mosqueScope = (req) => (req.access?.province ? { 'address.province': req.access.province } : {});
+
+/**
+ * Ids of the mosques the caller may work on, or null when they are not limited to a province
+ * @param {Object} req
+ * @returns {Promise<Array|null>}
+ */
+const scopedMosqueIds = async (req) => {
+    if (!req.access?.province) return null;
+    return Mosque.find(mosqueScope(req)).distinct('_id');
+};
+
+/**
+ * Admin query conditions limiting a request to admins of mosques in the caller's province
+ * @param {Object} req
+ * @param {string} field - Admin field holding the mosque id; rejected admins only have previous_mosque_ids
+ * @returns {Promise<Object>} - Empty for unscoped roles
+ */
+const adminScope = async (req, field = 'mosque_id') => {
+    const ids = await scopedMosqueIds(req);
+    return ids ? { [field]: { $in: ids } } : {};
+};
+
+/**
+ * Whether the caller may work on a mosque
+ * @param {Object} req
+ * @param {string|Object} mosqueId
+ * @returns {Promise<boolean>}
+ */
+const canAccessMosque = async (req, mosqueId) => {
+    if (!req.access?.province) return true;
+    if (!mosqueId) return false;
+    return !!(await Mosque.exists({ _id: mosqueId, ...mosqueScope(req) }));
+};
+
+/**
+ * Whether the caller may work on a mosque admin
+ * @param {Object} req
+ * @param {string} adminId
+ * @param {string} field - As for adminScope
+ * @returns {Promise<boolean>}
+ */
+const canAccessAdmin = async (req, adminId, field = 'mosque_id') => {
+    if (!req.access?.province) return true;
+    return !!(await Admin.exists({ _id: adminId, ...(await adminScope(req, field)) }));
+};
+
+export {
+    PERMISSIONS,
+    ROLES,
+    ROLE_NAMES,
+    getAccess,
+    readRoleInput,
+    mosqueScope,
+    scopedMosqueIds,
+    adminScope,
+    canAccessMosque,
+    canAccessAdmin
+};
@@ -0,0 +1,226 @@
+// Mosque photo gallery - image resizing, storage, publishing and the mosque's cover photo
+import crypto from 'crypto';
+import sharp from 'sharp';
+import Mosque from '../models/Mosque.js';
+import MosquePhoto from '../models/MosquePhoto.js';
+import { getPhotoStorage, getPrivateStorage } from '../../services/photoStorage.js';
+
+const MAX_PHOTO_BYTES = 8 * 1024 * 1024;
+const MAX_PHOTOS_PER_MOSQUE = 30;
+const MAX_CAPTION_LENGTH = 200;
+const ALLOWED_PHOTO_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// How long a signed preview link of an unpublished photo works
+const PREVIEW_TTL_MS = 60 * 60 * 1000;
+
+// Sizes every upload is resized to. Thumbnails are cropped to fill cards,
+// hero images keep their aspect ratio. Smaller uploads are never enlarged.
+const PHOTO_VARIANTS = {
+    thumbnail: { width: 480, height: 360, fit: 'cover', quality: 78 },
+    hero: { width: 1600, height: 900, fit: 'inside', quality: 82 }
+};
+
+/**
+ * Resize an uploaded image into the gallery variants.
+ * Output is WebP, auto-rotated, with EXIF metadata (including GPS) stripped.
+ * @param {Buffer} buffer - Uploaded file
+ * @returns {Promise<Object>} - { thumbnail: {buffer, width, height}, hero: {...} }
+ * @throws When the buffer is not a readable image
+ */
+const processPhoto = async (buffer) => {
+    const metadata = await sharp(buffer).metadata();
+    if (!metadata.width || !metadata.height) {
+        throw new Error('Unreadable image');
+    }
+
+    const variants = {};
+    for (const [name, { width, height, fit, quality }] of Object.entries(PHOTO_VARIANTS)) {
+        const { data, info } = await sharp(buffer)
+            .rotate()
+            .resize({ width, height, fit, withoutEnlargement: true })
+            .webp({ quality })
+            .toBuffer({ resolveWithObject: true });
+        variants[name] = { buffer: data, width: info.width, height: info.height };
+    }
+    return variants;
+};
+
+/**
+ * Resize an upload and write every variant to private storage; approval publishes them
+ * @param {string} mosqueId
+ * @param {string} photoId - Id of the photo document about to be created
+ * @param {Buffer} buffer - Uploaded file
+ * @returns {Promise<Object>} - Variants for the MosquePhoto document
+ */
+const storePhotoVariants = async (mosqueId, photoId, buffer) => {
+    const processed = await processPhoto(buffer);
+    const storage = getPrivateStorage();
+
+    const variants = {};
+    for (const [name, { buffer: data, width, height }] of Object.entries(processed)) {
+        const key = `mosques/${mosqueId}/${photoId}-${name}.webp`;
+        await storage.save(key, data, 'image/webp');
+        variants[name] = { key, url: null, width, height };
+    }
+    return variants;
+};
+
+/**
+ * Copy every variant of an approved photo to public storage and record its URL.
+ * The caller saves the photo.
+ * @param {Object} photo - MosquePhoto document
+ */
+const publishPhotoVariants = async (photo) => {
+    const storage = getPhotoStorage();
+    const privateStorage = getPrivateStorage();
+    for (const name of Object.keys(PHOTO_VARIANTS)) {
+        const variant = photo.variants[name];
+        variant.url = await storage.save(variant.key, await privateStorage.read(variant.key), 'image/webp');
+    }
+};
+
+/**
+ * Delete the public copies of a photo that is no longer approved. The caller saves the photo.
+ * @param {Object} photo - MosquePhoto document
+ */
+const unpublishPhotoVariants = async (photo) => {
+    const storage = getPhotoStorage();
+    for (const name of Object.keys(PHOTO_VARIANTS)) {
+        const variant = photo.variants[name];
+        if (!variant?.url) continue;
+        await storage.remove(variant.key);
+        variant.url = null;
+    }
+};
+
+/**
+ * Delete every stored variant of a photo, public and private. Missing files are ignored.
+ * @param {Object} photo - MosquePhoto document
+ */
+const removePhotoVariants = async (photo) => {
+    await unpublishPhotoVariants(photo);
+    const privateStorage = getPrivateStorage();
+    for (const name of Object.keys(PHOTO_VARIANTS)) {
+        const key = photo.variants?.[name]?.key;
+        if (key) await privateStorage.remove(key);
+    }
+};
+
+/**
+ * Contents of a variant from private storage, whatever the photo's status
+ * @param {Object} photo - MosquePhoto document
+ * @param {string} name - Key of PHOTO_VARIANTS
+ * @returns {Promise<Buffer>}
+ */
+const readPhotoVariant = (photo, name) => getPrivateStorage().read(photo.variants[name].key);
+
+const signPreview = (photoId, name, expires) => crypto
+    .createHmac('sha256', process.env.JWT_SECRET)
+    .update(`${photoId}:${name}:${expires}`)
+    .digest('base64url');
+
+/**
+ * Signed link to a variant of any photo, for admins and moderators. It works in an <img> tag
+ * without the access token, and only until PREVIEW_TTL_MS has passed.
+ * @param {Object} photo - MosquePhoto document, with mosque_id populated or not
+ * @param {string} name - Key of PHOTO_VARIANTS
+ * @returns {string}
+ */
+const buildPhotoPreviewUrl = (photo, name) => {
+    const expires = Date.now() + PREVIEW_TTL_MS;
+    const mosqueId = photo.mosque_id?._id || photo.mosque_id;
+    const signature = signPreview(photo._id, name, expires);
+    return `/api/mosques/${mosqueId}/photos/${photo._id}/preview/${name}?expires=${expires}&signature=${signature}`;
+};
+
+/**
+ * Whether a preview link was signed by buildPhotoPreviewUrl() and has not expired
+ * @param {string} photoId
+ * @param {string} name
+ * @param {string} expires - From the query string
+ * @param {string} signature - From the query string
+ * @returns {boolean}
+ */
+const isPhotoPreviewValid = (photoId, name, expires, signature) => {
+    if (!PHOTO_VARIANTS[name] || !/^\d+$/.test(String(expires)) || Number(expires) < Date.now()) return false;
+    const expected = Buffer.from(signPreview(photoId, name, expires));
+    const received = Buffer.from(String(signature || ''));
+    return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+};
+
+/**
+ * Point the mosque's cover photo at its newest approved photo, or clear it
+ * @param {string} mosqueId
+ */
+const refreshCoverPhoto = async (mosqueId) => {
+    const photo = await MosquePhoto.findOne({ mosque_id: mosqueId, status: 'approved' })
+        .sort({ createdAt: -1 });
+
+    if (photo) {
+        await Mosque.findByIdAndUpdate(mosqueId, {
+            cover_photo: {
+                photo_id: photo._id,
+                thumbnail_url: photo.variants.thumbnail.url,
+                hero_url: photo.variants.hero.url
+            }
+        });
+    } else {
+        await Mosque.findByIdAndUpdate(mosqueId, { $unset: { cover_photo: 1 } });
+    }
+};
+
+/**
+ * Cover photo of a mosque for API responses
+ * @param {Object} coverPhoto - Stored cover_photo subdocument
+ * @returns {{thumbnail_url: string, hero_url: string}|null}
+ */
+const toCoverPhotoResponse = (coverPhoto) => {
+    if (!coverPhoto?.thumbnail_url) return null;
+    return { thumbnail_url: coverPhoto.thumbnail_url, hero_url: coverPhoto.hero_url };
+};
+
+/**
+ * Photo for API responses. Moderation details are only included for admins.
+ * @param {Object} photo - MosquePhoto document
+ * @param {Object} options
+ * @param {boolean} options.includeModeration
+ * @returns {Object}
+ */
+const toPhotoResponse = (photo, { includeModeration = false } = {}) => {
+    // Admins see unpublished photos too, so they get signed previews instead of the public files
+    const urlOf = name => includeModeration ? buildPhotoPreviewUrl(photo, name) : photo.variants[name].url;
+    const response = {
+        id: photo._id,
+        caption: photo.caption || '',
+        thumbnail_url: urlOf('thumbnail'),
+        hero_url: urlOf('hero'),
+        width: photo.variants.hero.width,
+        height: photo.variants.hero.height,
+        createdAt: photo.createdAt
+    };
+
+    if (includeModeration) {
+        response.status = photo.status;
+        response.moderation_note = photo.moderation_note || '';
+        response.moderated_at = photo.moderated_at || null;
+    }
+
+    return response;
+};
+
+export {
+    MAX_PHOTO_BYTES,
+    MAX_PHOTOS_PER_MOSQUE,
+    MAX_CAPTION_LENGTH,
+    ALLOWED_PHOTO_TYPES,
+    processPhoto,
+    storePhotoVariants,
+    publishPhotoVariants,
+    unpublishPhotoVariants,
+    removePhotoVariants,
+    readPhotoVariant,
+    isPhotoPreviewValid,
+    refreshCoverPhoto,
+    toCoverPhotoResponse,
+    toPhotoResponse
+};
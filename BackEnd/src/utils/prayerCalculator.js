@@ -0,0 +1,376 @@
+// Astronomical prayer time calculation
+// Based on the sun-position formulas used by PrayTimes.org (Hamid Zarrabi-Zadeh)
+
+/**
+ * Supported calculation methods
+ * fajr / isha are sun depression angles in degrees, except where isha_minutes
+ * is given (Isha is then a fixed interval after Maghrib)
+ */
+const CALCULATION_METHODS = {
+    karachi: { name: 'University of Islamic Sciences, Karachi', fajr: 18, isha: 18 },
+    mwl: { name: 'Muslim World League', fajr: 18, isha: 17 },
+    isna: { name: 'Islamic Society of North America', fajr: 15, isha: 15 },
+    umm_al_qura: { name: 'Umm al-Qura University, Makkah', fajr: 18.5, isha_minutes: 90 },
+    egyptian: { name: 'Egyptian General Authority of Survey', fajr: 19.5, isha: 17.5 }
+};
+
+/**
+ * Asr juristic methods - shadow length factor
+ */
+const ASR_METHODS = {
+    shafii: 1, // Shafi'i, Maliki, Hanbali
+    hanafi: 2
+};
+
+/**
+ * Adjustment rules for locations where twilight never fully ends
+ */
+const HIGH_LATITUDE_RULES = ['none', 'middle_of_night', 'one_seventh', 'angle_based'];
+
+// Prayers that can carry a jamaat offset
+const JAMAAT_PRAYERS = ['fajr', 'dhuhr', 'asr', 'maghrib', 'isha', 'jummah'];
+
+const DEFAULT_TIMEZONE = 'Asia/Karachi';
+
+// Degree based trigonometry
+const dtr = (d) => (d * Math.PI) / 180;
+const rtd = (r) => (r * 180) / Math.PI;
+const sin = (d) => Math.sin(dtr(d));
+const cos = (d) => Math.cos(dtr(d));
+const tan = (d) => Math.tan(dtr(d));
+const arcsin = (x) => rtd(Math.asin(x));
+const arccos = (x) => rtd(Math.acos(x));
+const arctan2 = (y, x) => rtd(Math.atan2(y, x));
+const arccot = (x) => rtd(Math.atan(1 / x));
+const fix = (a, b) => {
+    const value = a - b * Math.floor(a / b);
+    return value < 0 ? value + b : value;
+};
+const fixAngle = (a) => fix(a, 360);
+const fixHour = (a) => fix(a, 24);
+const timeDiff = (t1, t2) => fixHour(t2 - t1);
+
+/**
+ * Julian date for a calendar day (midnight UTC)
+ */
+const julianDate = (year, month, day) => {
+    if (month <= 2) {
+        year -= 1;
+        month += 12;
+    }
+    const a = Math.floor(year / 100);
+    const b = 2 - a + Math.floor(a / 4);
+    return Math.floor(365.25 * (year + 4716)) + Math.floor(30.6001 * (month + 1)) + day + b - 1524.5;
+};
+
+/**
+ * Declination of the sun and equation of time for a julian date
+ */
+const sunPosition = (jd) => {
+    const d = jd - 2451545.0;
+    const g = fixAngle(357.529 + 0.98560028 * d);
+    const q = fixAngle(280.459 + 0.98564736 * d);
+    const l = fixAngle(q + 1.915 * sin(g) + 0.020 * sin(2 * g));
+    const e = 23.439 - 0.00000036 * d;
+
+    const ra = arctan2(cos(e) * sin(l), cos(l)) / 15;
+    return {
+        declination: arcsin(sin(e) * sin(l)),
+        equation: q / 15 - fixHour(ra)
+    };
+};
+
+/**
+ * Parse a YYYY-MM-DD string into its numeric parts
+ * @param {string} date
+ * @returns {{year: number, month: number, day: number}|null}
+ */
+const parseDateString = (date) => {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date || '');
+    if (!match) return null;
+
+    const year = parseInt(match[1], 10);
+    const month = parseInt(match[2], 10);
+    const day = parseInt(match[3], 10);
+    const check = new Date(Date.UTC(year, month - 1, day));
+    if (check.getUTCFullYear() !== year || check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day) {
+        return null;
+    }
+
+    return { year, month, day };
+};
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in the given IANA timezone
+ * @param {Date} instant
+ * @param {string} timezone
+ * @returns {string}
+ */
+const formatDateInTimezone = (instant = new Date(), timezone = DEFAULT_TIMEZONE) => {
+    const parts = new Intl.DateTimeFormat('en-CA', {
+        timeZone: timezone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit'
+    }).formatToParts(instant);
+    const get = (type) => parts.find(p => p.type === type).value;
+    return `${get('year')}-${get('month')}-${get('day')}`;
+};
+
+/**
+ * UTC offset in hours of an IANA timezone at an instant
+ * @param {string} timezone
+ * @param {Date} instant
+ * @returns {number}
+ */
+const getOffsetAtInstant = (timezone, instant) => {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit'
+    }).formatToParts(instant);
+    const get = (type) => parseInt(parts.find(p => p.type === type).value, 10);
+    const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+    return (asUtc - Math.floor(instant.getTime() / 1000) * 1000) / 3600000;
+};
+
+/**
+ * UTC offset in hours of an IANA timezone around midday of the given date
+ * @param {string} timezone
+ * @param {{year: number, month: number, day: number}} date
+ * @returns {number}
+ */
+const getTimezoneOffset = (timezone, { year, month, day }) => {
+    return getOffsetAtInstant(timezone, new Date(Date.UTC(year, month - 1, day, 12)));
+};
+
+/**
+ * Instant of a local wall-clock time in an IANA timezone
+ * @param {string} date - YYYY-MM-DD
+ * @param {string} time - HH:MM (24 hour)
+ * @param {string} timezone
+ * @returns {Date}
+ */
+const toUtcInstant = (date, time, timezone = DEFAULT_TIMEZONE) => {
+    const { year, month, day } = parseDateString(date);
+    const [hours, minutes] = time.split(':').map(Number);
+    const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+
+    // Re-check the offset at the first guess so times next to a DST change land correctly
+    let instant = wallClock - getOffsetAtInstant(timezone, new Date(wallClock)) * 3600000;
+    instant = wallClock - getOffsetAtInstant(timezone, new Date(instant)) * 3600000;
+    return new Date(instant);
+};
+
+/**
+ * Check whether a string is a valid IANA timezone
+ * @param {string} timezone
+ * @returns {boolean}
+ */
+const isValidTimezone = (timezone) => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Convert fractional hours to a HH:MM (24 hour) string, rounded to the nearest minute
+ */
+const formatTime = (hours) => {
+    if (!Number.isFinite(hours)) return null;
+    const totalMinutes = Math.round(fixHour(hours) * 60) % (24 * 60);
+    const h = Math.floor(totalMinutes / 60);
+    const m = totalMinutes % 60;
+    return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+};
+
+/**
+ * Add minutes to a HH:MM (24 hour) string, wrapping around midnight
+ * @param {string} time
+ * @param {number} minutes
+ * @returns {string|null}
+ */
+const addMinutes = (time, minutes) => {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(time || '');
+    if (!match) return null;
+    const total = parseInt(match[1], 10) * 60 + parseInt(match[2], 10) + (minutes || 0);
+    const wrapped = ((total % 1440) + 1440) % 1440;
+    return `${String(Math.floor(wrapped / 60)).padStart(2, '0')}:${String(wrapped % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Calculate adhan (start) times for a single day
+ * @param {Object} options
+ * @param {string} options.date - YYYY-MM-DD
+ * @param {number} options.latitude
+ * @param {number} options.longitude
+ * @param {string} options.timezone - IANA timezone, e.g. Asia/Karachi
+ * @param {string} options.method - key of CALCULATION_METHODS
+ * @param {string} options.asrMethod - 'hanafi' or 'shafii'
+ * @param {string} options.highLatitudeRule - one of HIGH_LATITUDE_RULES
+ * @returns {{fajr: string, sunrise: string, dhuhr: string, asr: string, maghrib: string, isha: string}}
+ */
+const calculateAdhanTimes = ({
+    date,
+    latitude,
+    longitude,
+    timezone = DEFAULT_TIMEZONE,
+    method = 'karachi',
+    asrMethod = 'hanafi',
+    highLatitudeRule = 'angle_based'
+}) => {
+    const parsed = parseDateString(date);
+    if (!parsed) throw new Error(`Invalid date: ${date}`);
+
+    const params = CALCULATION_METHODS[method];
+    if (!params) throw new Error(`Unknown calculation method: ${method}`);
+
+    const asrFactor = ASR_METHODS[asrMethod];
+    if (!asrFactor) throw new Error(`Unknown Asr method: ${asrMethod}`);
+
+    const jDate = julianDate(parsed.year, parsed.month, parsed.day) - longitude / (15 * 24);
+
+    const midDay = (t) => {
+        const eqt = sunPosition(jDate + t).equation;
+        return fixHour(12 - eqt);
+    };
+
+    const sunAngleTime = (angle, t, counterClockwise) => {
+        const decl = sunPosition(jDate + t).declination;
+        const noon = midDay(t);
+        const value = (-sin(angle) - sin(decl) * sin(latitude)) / (cos(decl) * cos(latitude));
+        const hours = arccos(value) / 15;
+        return noon + (counterClockwise ? -hours : hours);
+    };
+
+    const asrTime = (factor, t) => {
+        const decl = sunPosition(jDate + t).declination;
+        const angle = -arccot(factor + tan(Math.abs(latitude - decl)));
+        return sunAngleTime(angle, t);
+    };
+
+    // Initial guesses (fraction of a day), refined with a single pass
+    const guess = { fajr: 5, sunrise: 6, dhuhr: 12, asr: 13, sunset: 18, isha: 18 };
+    const dayPortion = (h) => h / 24;
+
+    const times = {
+        fajr: sunAngleTime(params.fajr, dayPortion(guess.fajr), true),
+        sunrise: sunAngleTime(0.833, dayPortion(guess.sunrise), true),
+        dhuhr: midDay(dayPortion(guess.dhuhr)),
+        asr: asrTime(asrFactor, dayPortion(guess.asr)),
+        sunset: sunAngleTime(0.833, dayPortion(guess.sunset)),
+        isha: params.isha !== undefined ? sunAngleTime(params.isha, dayPortion(guess.isha)) : NaN
+    };
+
+    // Convert from local solar time to the timezone's clock time
+    const offset = getTimezoneOffset(timezone, parsed);
+    Object.keys(times).forEach((key) => {
+        times[key] += offset - longitude / 15;
+    });
+
+    times.maghrib = times.sunset;
+    if (params.isha_minutes !== undefined) {
+        times.isha = times.maghrib + params.isha_minutes / 60;
+    }
+
+    // High latitude adjustments for Fajr and Isha
+    if (highLatitudeRule !== 'none') {
+        const night = timeDiff(times.sunset, times.sunrise);
+        const nightPortion = (angle) => {
+            if (highLatitudeRule === 'angle_based') return (angle / 60) * night;
+            if (highLatitudeRule === 'one_seventh') return night / 7;
+            return night / 2; // middle_of_night
+        };
+
+        const fajrPortion = nightPortion(params.fajr);
+        if (Number.isNaN(times.fajr) || timeDiff(times.fajr, times.sunrise) > fajrPortion) {
+            times.fajr = times.sunrise - fajrPortion;
+        }
+
+        if (params.isha !== undefined) {
+            const ishaPortion = nightPortion(params.isha);
+            if (Number.isNaN(times.isha) || timeDiff(times.sunset, times.isha) > ishaPortion) {
+                times.isha = times.sunset + ishaPortion;
+            }
+        }
+    }
+
+    return {
+        fajr: formatTime(times.fajr),
+        sunrise: formatTime(times.sunrise),
+        dhuhr: formatTime(times.dhuhr),
+        asr: formatTime(times.asr),
+        maghrib: formatTime(times.maghrib),
+        isha: formatTime(times.isha)
+    };
+};
+
+/**
+ * Calculate adhan and jamaat times for a mosque on a given date
+ * Jummah uses the configured offset from Dhuhr adhan, or the manually entered
+ * Jummah time when no offset is set
+ * @param {Object} mosque - Mosque document with prayer_calculation settings
+ * @param {string} date - YYYY-MM-DD
+ * @returns {{adhan_times: Object, prayer_times: Object}}
+ */
+const calculateMosquePrayerTimes = (mosque, date) => {
+    const settings = mosque.prayer_calculation;
+    const adhanTimes = calculateAdhanTimes({
+        date,
+        latitude: settings.latitude,
+        longitude: settings.longitude,
+        timezone: settings.timezone || DEFAULT_TIMEZONE,
+        method: settings.method,
+        asrMethod: settings.asr_method,
+        highLatitudeRule: settings.high_latitude_rule
+    });
+
+    const offsets = settings.jamaat_offsets || {};
+    const prayerTimes = {
+        fajr: addMinutes(adhanTimes.fajr, offsets.fajr),
+        dhuhr: addMinutes(adhanTimes.dhuhr, offsets.dhuhr),
+        asr: addMinutes(adhanTimes.asr, offsets.asr),
+        maghrib: addMinutes(adhanTimes.maghrib, offsets.maghrib),
+        isha: addMinutes(adhanTimes.isha, offsets.isha),
+        jummah: typeof offsets.jummah === 'number'
+            ? addMinutes(adhanTimes.dhuhr, offsets.jummah)
+            : (mosque.prayer_times?.jummah || null)
+    };
+
+    return { adhan_times: adhanTimes, prayer_times: prayerTimes };
+};
+
+/**
+ * Whether a mosque has automatic calculation switched on with usable coordinates
+ * @param {Object} mosque
+ * @returns {boolean}
+ */
+const isCalculationEnabled = (mosque) => {
+    const settings = mosque?.prayer_calculation;
+    return !!(settings && settings.enabled &&
+        typeof settings.latitude === 'number' && typeof settings.longitude === 'number');
+};
+
+export {
+    CALCULATION_METHODS,
+    ASR_METHODS,
+    HIGH_LATITUDE_RULES,
+    JAMAAT_PRAYERS,
+    DEFAULT_TIMEZONE,
+    parseDateString,
+    formatDateInTimezone,
+    toUtcInstant,
+    isValidTimezone,
+    addMinutes,
+    calculateAdhanTimes,
+    calculateMosquePrayerTimes,
+    isCalculationEnabled
+};
@@ -0,0 +1,360 @@
+// Web Push prayer reminders for favorited mosques: a reminder before each jamaat, and an alert when a
+// mosque's admins change its times. Both are sent by the cron worker (GET /api/cron/push-reminders).
+// Every function takes the current time as `now`, so the schedule can be run against a fake clock.
+import Mosque from '../models/Mosque.js';
+import PushSubscription from '../models/PushSubscription.js';
+import TimeChangeAlert from '../models/TimeChangeAlert.js';
+import { DEFAULT_TIMEZONE, toUtcInstant } from './prayerCalculator.js';
+import { addDays, getMosqueToday, getDailyPrayers, resolveTimetable, resolveDay } from './timetable.js';
+import { parsePrayerTime } from './validators.js';
+import { isPushConfigured, sendPush, isSubscriptionGone } from './webPush.js';
+
+const REMINDER_MINUTE_OPTIONS = [5, 10, 15, 20, 30, 45, 60];
+const DEFAULT_REMINDER_MINUTES = 15;
+
+// Bounds a single sync request, and with it how many favorites a congregant account can keep
+const MAX_SUBSCRIBED_MOSQUES = 50;
+
+// Subscriptions are dropped after this many sends in a row fail
+const MAX_FAILURES = 10;
+
+// Subscribers sent a time change alert at once, and how long a worker run keeps an alert to itself
+const ALERT_BATCH_SIZE = 50;
+const ALERT_LOCK_MS = 60 * 1000;
+
+const PRAYER_NAMES = {
+    fajr: 'Fajr',
+    dhuhr: 'Dhuhr',
+    asr: 'Asr',
+    maghrib: 'Maghrib',
+    isha: 'Isha',
+    jummah: 'Jummah'
+};
+
+/**
+ * Jamaats of the given timetable entries that have not started yet, earliest first
+ * @param {Object} mosque
+ * @param {Array} entries - Entries from resolveTimetable
+ * @param {Date} now
+ * @returns {Array<{date: string, prayer: string, name: string, time: string, at: Date}>}
+ */
+const getUpcomingJamaats = (mosque, entries, now) => {
+    const timezone = mosque.prayer_calculation?.timezone || DEFAULT_TIMEZONE;
+    const jamaats = [];
+    entries.forEach((entry) => {
+        getDailyPrayers(entry).forEach(({ prayer, name, time }) => {
+            const normalized = parsePrayerTime(time);
+            if (!normalized) return;
+            const at = toUtcInstant(entry.date, normalized, timezone);
+            if (at > now) jamaats.push({ date: entry.date, prayer, name, time: String(time).trim(), at });
+        });
+    });
+    return jamaats.sort((a, b) => a.at - b.at);
+};
+
+/**
+ * Reminders due at `now`: a jamaat is due for a subscription from its reminder time until it starts.
+ * When the worker ran late and several are due, only the latest is sent.
+ * @param {Array} subscriptions - PushSubscription documents of one mosque
+ * @param {Array} jamaats - From getUpcomingJamaats
+ * @param {Date} now
+ * @returns {Array<{subscription: Object, jamaat: Object}>}
+ */
+const findDueReminders = (subscriptions, jamaats, now) => {
+    const due = [];
+    subscriptions.forEach((subscription) => {
+        if (!subscription.jamaat_reminders) return;
+        const leadMs = (subscription.reminder_minutes || DEFAULT_REMINDER_MINUTES) * 60000;
+        const lastReminded = subscription.last_reminded_for ? new Date(subscription.last_reminded_for) : null;
+
+        const candidates = jamaats.filter(jamaat =>
+            jamaat.at.getTime() - leadMs <= now.getTime() &&
+            jamaat.at > now &&
+            (!lastReminded || jamaat.at > lastReminded)
+        );
+        if (candidates.length > 0) {
+            due.push({ subscription, jamaat: candidates[candidates.length - 1] });
+        }
+    });
+    return due;
+};
+
+/**
+ * Payload for the service worker's reminder notification
+ * @param {Object} mosque
+ * @param {Object} jamaat - From getUpcomingJamaats
+ * @param {Date} now
+ * @returns {Object}
+ */
+const buildReminderMessage = (mosque, jamaat, now) => {
+    const minutesLeft = Math.max(1, Math.round((jamaat.at - now) / 60000));
+    return {
+        type: 'jamaat_reminder',
+        title: `${jamaat.name} jamaat in ${minutesLeft} min`,
+        body: `${mosque.name} · ${jamaat.time}`,
+        url: `/mosques/${mosque._id}`,
+        // A later reminder for the same prayer replaces this one on the device
+        tag: `jamaat-${mosque._id}-${jamaat.prayer}`,
+        mosque_id: String(mosque._id),
+        prayer: jamaat.prayer,
+        jamaat_at: jamaat.at.toISOString()
+    };
+};
+
+/**
+ * Payload for the alert sent when a mosque's times change
+ * @param {Object} mosque
+ * @param {Array<{prayer: string, from: string|null, to: string|null}>} changes - Today's changed times
+ * @returns {Object}
+ */
+const buildTimeChangeMessage = (mosque, changes) => ({
+    type: 'timetable_changed',
+    title: `Prayer times updated at ${mosque.name}`,
+    body: changes.length > 0
+        ? `Today: ${changes.map(change => `${PRAYER_NAMES[change.prayer]} ${change.from || '-'} → ${change.to || '-'}`).join(', ')}`
+        : 'Upcoming jamaat times have changed. Open the timetable for details.',
+    url: `/mosques/${mosque._id}`,
+    tag: `timetable-${mosque._id}`,
+    mosque_id: String(mosque._id)
+});
+
+/**
+ * Send one message and keep the subscription's delivery state up to date.
+ * Subscriptions the browser has withdrawn are deleted for every mosque they cover.
+ * @returns {Promise<'sent'|'failed'|'removed'>}
+ */
+const deliverPush = async (subscription, data, options, send) => {
+    try {
+        await send({ endpoint: subscription.endpoint, keys: subscription.keys }, data, options);
+        await PushSubscription.updateOne(
+            { _id: subscription._id },
+            { $set: { last_sent_at: new Date(), failure_count: 0 } }
+        );
+        return 'sent';
+    } catch (error) {
+        if (isSubscriptionGone(error)) {
+            await PushSubscription.deleteMany({ endpoint: subscription.endpoint });
+            return 'removed';
+        }
+        console.error(`Push to subscription ${subscription._id} failed:`, error.message);
+        const updated = await PushSubscription.findOneAndUpdate(
+            { _id: subscription._id },
+            { $inc: { failure_count: 1 } },
+            { new: true }
+        );
+        if (updated && updated.failure_count >= MAX_FAILURES) {
+            await PushSubscription.deleteOne({ _id: subscription._id });
+            return 'removed';
+        }
+        return 'failed';
+    }
+};
+
+/**
+ * Send every jamaat reminder that is due
+ * @param {Object} [options]
+ * @param {Date} [options.now] - Current time; pass a fixed date to run the schedule against a fake clock
+ * @param {Function} [options.send] - sendPush, or a stand-in with the same signature
+ * @param {number} [options.timeBudgetMs] - Stop starting new mosques after this long (serverless time limits)
+ * @returns {Promise<{mosques: number, sent: number, failed: number, removed: number}>}
+ */
+const processPrayerReminders = async ({ now = new Date(), send = sendPush, timeBudgetMs = Infinity } = {}) => {
+    const result = { mosques: 0, sent: 0, failed: 0, removed: 0 };
+    if (!isPushConfigured()) return result;
+
+    const startedAt = Date.now();
+    const mosqueIds = await PushSubscription.distinct('mosque_id', { jamaat_reminders: true });
+    const mosques = await Mosque.find({ _id: { $in: mosqueIds } });
+
+    // Subscriptions of deleted mosques have nothing left to remind about
+    const missing = mosqueIds.filter(id => !mosques.some(mosque => mosque._id.equals(id)));
+    if (missing.length > 0) {
+        const { deletedCount } = await PushSubscription.deleteMany({ mosque_id: { $in: missing } });
+        result.removed += deletedCount;
+    }
+
+    const longestLeadMs = Math.max(...REMINDER_MINUTE_OPTIONS) * 60000;
+    for (const mosque of mosques) {
+        if (Date.now() - startedAt > timeBudgetMs) break;
+
+        // Today and tomorrow cover a reminder for tomorrow's Fajr sent before midnight
+        const today = getMosqueToday(mosque, now);
+        const entries = await resolveTimetable(mosque, today, addDays(today, 1));
+        const jamaats = getUpcomingJamaats(mosque, entries, now)
+            .filter(jamaat => jamaat.at.getTime() - longestLeadMs <= now.getTime());
+        if (jamaats.length === 0) continue;
+
+        result.mosques++;
+        const subscriptions = await PushSubscription.find({ mosque_id: mosque._id, jamaat_reminders: true });
+        for (const { subscription, jamaat } of findDueReminders(subscriptions, jamaats, now)) {
+            // Claim the reminder first so overlapping worker runs never send it twice
+            const claim = await PushSubscription.updateOne(
+                {
+                    _id: subscription._id,
+                    $or: [{ last_reminded_for: null }, { last_reminded_for: { $lt: jamaat.at } }]
+                },
+                { $set: { last_reminded_for: jamaat.at } }
+            );
+            if (claim.modifiedCount === 0) continue;
+
+            const outcome = await deliverPush(subscription, buildReminderMessage(mosque, jamaat, now), {
+                // Not worth delivering once the jamaat has started
+                ttl: Math.floor((jamaat.at - now) / 1000),
+                urgency: 'high'
+            }, send);
+            result[outcome]++;
+        }
+    }
+
+    return result;
+};
+
+/**
+ * Today's timetable entry, taken before an edit so the time change alert can report what changed
+ * @param {Object} mosque
+ * @param {Date} [now]
+ * @returns {Promise<Object>}
+ */
+const getTimetableSnapshot = (mosque, now = new Date()) => resolveDay(mosque, getMosqueToday(mosque, now));
+
+/**
+ * Today's prayers whose time differs between two snapshots; none when they are of different days
+ * @param {Object|null} before - getTimetableSnapshot() from before the edit
+ * @param {Object} after - getTimetableSnapshot() now
+ * @returns {Array<{prayer: string, from: string|null, to: string|null}>}
+ */
+const findTodayChanges = (before, after) => {
+    if (!before || before.date !== after.date) return [];
+    // Jummah replaces Dhuhr on Fridays, as in getDailyPrayers()
+    const dailyPrayers = ['fajr', after.is_friday ? 'jummah' : 'dhuhr', 'asr', 'maghrib', 'isha'];
+    return dailyPrayers
+        .filter(prayer => (before.prayer_times[prayer] || null) !== (after.prayer_times[prayer] || null))
+        .map(prayer => ({ prayer, from: before.prayer_times[prayer] || null, to: after.prayer_times[prayer] || null }));
+};
+
+/**
+ * Queue an alert for a mosque's subscribers that its times changed. The cron worker sends it
+ * (processTimeChangeAlerts), so saving an edit never waits for the push services.
+ * @param {Object} mosque - The mosque after the edit
+ * @param {Object|null} before - getTimetableSnapshot() from before the edit
+ * @param {Object} [options]
+ * @param {Date} [options.now]
+ * @returns {Promise<boolean>} - Whether an alert was queued
+ */
+const queueTimeChangeAlert = async (mosque, before, { now = new Date() } = {}) => {
+    if (!isPushConfigured()) return false;
+    if (!(await PushSubscription.exists({ mosque_id: mosque._id, time_change_alerts: true }))) return false;
+
+    await TimeChangeAlert.updateOne(
+        { mosque_id: mosque._id },
+        {
+            // A waiting alert keeps the times from before its first edit, and goes to every subscriber
+            // again; the ones that already had it see it replaced on the device, not repeated
+            $setOnInsert: {
+                before: before ? { date: before.date, prayer_times: before.prayer_times } : null,
+                queued_at: now
+            },
+            $set: { last_subscription_id: null },
+            $inc: { revision: 1 }
+        },
+        { upsert: true }
+    );
+    return true;
+};
+
+/**
+ * Send queued time change alerts, to one batch of subscribers at a time, listing today's changes
+ * when there are any. An alert cut off by the time budget carries on from where it stopped.
+ * @param {Object} [options]
+ * @param {Date} [options.now] - Current time; pass a fixed date to run the worker against a fake clock
+ * @param {Function} [options.send] - sendPush, or a stand-in with the same signature
+ * @param {number} [options.timeBudgetMs] - Stop starting new batches after this long (serverless time limits)
+ * @param {number} [options.batchSize] - Subscribers sent to at once
+ * @returns {Promise<{alerts: number, sent: number, failed: number, removed: number}>}
+ */
+const processTimeChangeAlerts = async ({
+    now = new Date(),
+    send = sendPush,
+    timeBudgetMs = Infinity,
+    batchSize = ALERT_BATCH_SIZE
+} = {}) => {
+    const result = { alerts: 0, sent: 0, failed: 0, removed: 0 };
+    if (!isPushConfigured()) return result;
+
+    const startedAt = Date.now();
+    const unclaimed = { $or: [{ locked_until: null }, { locked_until: { $lt: now } }] };
+    const queued = await TimeChangeAlert.find(unclaimed).sort({ queued_at: 1 });
+
+    for (const { _id } of queued) {
+        if (Date.now() - startedAt > timeBudgetMs) break;
+
+        // Claim the alert first so overlapping worker runs never send it twice
+        const alert = await TimeChangeAlert.findOneAndUpdate(
+            { _id, ...unclaimed },
+            { $set: { locked_until: new Date(now.getTime() + ALERT_LOCK_MS) } },
+            { new: true }
+        );
+        if (!alert) continue;
+
+        // The mosque was deleted after the edit
+        const mosque = await Mosque.findById(alert.mosque_id);
+        if (!mosque) {
+            await TimeChangeAlert.deleteOne({ _id });
+            continue;
+        }
+
+        result.alerts++;
+        const after = await getTimetableSnapshot(mosque, now);
+        const message = buildTimeChangeMessage(mosque, findTodayChanges(alert.before, after));
+        let lastSubscriptionId = alert.last_subscription_id;
+        let finished = false;
+
+        while (Date.now() - startedAt <= timeBudgetMs) {
+            const subscriptions = await PushSubscription.find({
+                mosque_id: mosque._id,
+                time_change_alerts: true,
+                ...(lastSubscriptionId && { _id: { $gt: lastSubscriptionId } })
+            }).sort({ _id: 1 }).limit(batchSize);
+
+            const outcomes = await Promise.all(subscriptions.map(subscription => deliverPush(subscription, message, {
+                // Several edits in a row reach an offline device as one alert
+                topic: `tt-${mosque._id}`, // Topics are limited to 32 characters
+                urgency: 'normal'
+            }, send)));
+            outcomes.forEach((outcome) => {
+                result[outcome]++;
+            });
+
+            if (subscriptions.length < batchSize) {
+                finished = true;
+                break;
+            }
+            lastSubscriptionId = subscriptions[subscriptions.length - 1]._id;
+            // Left alone when an edit queued the alert again meanwhile, so it starts over
+            await TimeChangeAlert.updateOne(
+                { _id, revision: alert.revision },
+                { $set: { last_subscription_id: lastSubscriptionId } }
+            );
+        }
+
+        if (finished) {
+            const { deletedCount } = await TimeChangeAlert.deleteOne({ _id, revision: alert.revision });
+            if (deletedCount > 0) continue;
+        }
+        await TimeChangeAlert.updateOne({ _id }, { $set: { locked_until: null } });
+    }
+
+    return result;
+};
+
+export {
+    REMINDER_MINUTE_OPTIONS,
+    DEFAULT_REMINDER_MINUTES,
+    MAX_SUBSCRIBED_MOSQUES,
+    getUpcomingJamaats,
+    findDueReminders,
+    processPrayerReminders,
+    getTimetableSnapshot,
+    queueTimeChangeAlert,
+    processTimeChangeAlerts
+};
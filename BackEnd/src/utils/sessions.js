@@ -0,0 +1,302 @@
+// Sign-in sessions - short-lived access tokens and rotating refresh tokens
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import Session from '../models/Session.js';
+import { describeDevice, requestLocation } from './device.js';
+import { buildNewDeviceEmail } from '../../services/mailService.js';
+import { queueEmail } from './notifications.js';
+
+const ACCESS_TOKEN_TTL = '15m';
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days since the last refresh
+const REFRESH_COOKIE = 'refresh_token';
+// Superseded refresh tokens remembered per session for reuse detection
+const PREVIOUS_TOKENS_KEPT = 20;
+// How long a re-authentication unlocks destructive actions
+const STEP_UP_TTL_MS = 5 * 60 * 1000;
+
+// Admins in these states only get a limited token, enough for the status and reapplication pages
+const LIMITED_ADMIN_STATUSES = ['pending', 'rejected', 'mosque_deleted', 'admin_removed', 'code_regenerated'];
+
+const cookieOptions = (maxAge) => ({
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    maxAge,
+    sameSite: 'strict'
+});
+
+const hashRefreshToken = (token) => crypto.createHash('sha256').update(String(token)).digest('hex');
+
+const newRefreshToken = () => crypto.randomBytes(48).toString('base64url');
+
+/**
+ * Access token claims for a user, derived from their current state
+ * @param {Object} user - Admin, SuperAdmin or Congregant document
+ * @param {string} userType - 'admin', 'super_admin' or 'congregant'
+ * @returns {Object}
+ */
+const buildAccessClaims = (user, userType) => {
+    if (userType === 'super_admin') {
+        return { userId: user._id, role: 'super_admin', name: user.name, email: user.email };
+    }
+    if (userType === 'congregant') {
+        return { userId: user._id, role: 'congregant', name: user.name, email: user.email };
+    }
+    if (LIMITED_ADMIN_STATUSES.includes(user.status)) {
+        return { userId: user._id.toString(), role: 'admin', status: user.status, limited: true };
+    }
+    return { userId: user._id, role: 'admin', mosque_id: user.mosque_id, name: user.name, email: user.email };
+};
+
+const signAccessToken = (user, userType, session) => jwt.sign(
+    { ...buildAccessClaims(user, userType), sid: session._id.toString() },
+    process.env.JWT_SECRET,
+    { expiresIn: ACCESS_TOKEN_TTL }
+);
+
+const setSessionCookies = (res, accessToken, refreshToken) => {
+    res.cookie('token', accessToken, cookieOptions(15 * 60 * 1000));
+    res.cookie(REFRESH_COOKIE, refreshToken, cookieOptions(REFRESH_TOKEN_TTL_MS));
+};
+
+const clearSessionCookies = (res) => {
+    res.clearCookie('token');
+    res.clearCookie(REFRESH_COOKIE);
+};
+
+/**
+ * Start a session for a user who has just signed in
+ * @returns {Promise<{token: string, refresh_token: string}>} - Also set as cookies
+ */
+const startSession = async (req, res, user, userType) => {
+    const refreshToken = newRefreshToken();
+    const session = await Session.create({
+        user_id: user._id,
+        user_type: userType,
+        refresh_token_hash: hashRefreshToken(refreshToken),
+        user_agent: req.get('User-Agent') || null,
+        ip_address: req.ip || null,
+        location: requestLocation(req),
+        expires_at: new Date(Date.now() + REFRESH_TOKEN_TTL_MS)
+    });
+
+    // Queued in the outbox, so an unreachable mail server delays the email instead of the sign-in
+    try {
+        await notifyIfNewDevice(user, userType, session);
+    } catch (err) {
+        console.error('Failed to queue new device email (non-critical):', err.message);
+    }
+
+    const token = signAccessToken(user, userType, session);
+    setSessionCookies(res, token, refreshToken);
+    return { token, refresh_token: refreshToken };
+};
+
+/**
+ * Email the user when they sign in from a browser/OS they have not used in the last 30 days.
+ * The very first session is skipped - there is nothing to compare it with.
+ */
+const notifyIfNewDevice = async (user, userType, session) => {
+    // Congregants already proved they read the inbox by entering the emailed code
+    if (!user.email || userType === 'congregant') return;
+
+    const earlier = await Session.find({ user_id: user._id, user_type: userType, _id: { $ne: session._id } })
+        .select('user_agent')
+        .lean();
+    if (earlier.length === 0) return;
+
+    // Browser updates don't make a new device, so versions are ignored
+    const deviceKey = ({ browser, os, type }) => `${browser}|${os}|${type}`;
+    const device = describeDevice(session.user_agent);
+    if (earlier.some(s => deviceKey(describeDevice(s.user_agent)) === deviceKey(device))) return;
+
+    await queueEmail({
+        event: 'new_device',
+        to: user.email,
+        name: user.name,
+        ...buildNewDeviceEmail(user.name, userType, {
+            device: device.label,
+            location: session.location,
+            ip_address: session.ip_address,
+            signed_in_at: session.createdAt
+        }),
+        adminId: userType === 'admin' ? user._id : null
+    });
+};
+
+/**
+ * Swap a refresh token for a new one. Presenting a token that was already swapped
+ * revokes the session, since either the client or an attacker holds a stolen copy.
+ * @returns {Promise<{session: Object, refreshToken: string}|{error: string, code: string}>}
+ */
+const rotateSession = async (req, refreshToken) => {
+    if (!refreshToken) {
+        return { error: 'Refresh token is required', code: 'REFRESH_TOKEN_REQUIRED' };
+    }
+
+    const hash = hashRefreshToken(refreshToken);
+    const nextToken = newRefreshToken();
+    const now = new Date();
+
+    const session = await Session.findOneAndUpdate(
+        { refresh_token_hash: hash, revoked_at: null, expires_at: { $gt: now } },
+        {
+            $set: {
+                refresh_token_hash: hashRefreshToken(nextToken),
+                last_used_at: now,
+                expires_at: new Date(now.getTime() + REFRESH_TOKEN_TTL_MS),
+                user_agent: req.get('User-Agent') || null,
+                ip_address: req.ip || null,
+                location: requestLocation(req)
+            },
+            $push: { previous_token_hashes: { $each: [hash], $slice: -PREVIOUS_TOKENS_KEPT } }
+        },
+        { new: true }
+    );
+    if (session) {
+        return { session, refreshToken: nextToken };
+    }
+
+    const reused = await Session.findOneAndUpdate(
+        { previous_token_hashes: hash, revoked_at: null },
+        { $set: { revoked_at: now, revoked_reason: 'reuse_detected' } }
+    );
+    if (reused) {
+        console.warn(`Refresh token reuse detected, revoked session ${reused._id} for ${reused.user_type} ${reused.user_id}`);
+        return { error: 'Session has been revoked. Please log in again.', code: 'REFRESH_TOKEN_REUSED' };
+    }
+
+    return { error: 'Session expired. Please log in again.', code: 'INVALID_REFRESH_TOKEN' };
+};
+
+/**
+ * Revoke one session
+ * @param {string} sessionId
+ * @param {string} reason
+ */
+const revokeSession = async (sessionId, reason) => {
+    await Session.updateOne(
+        { _id: sessionId, revoked_at: null },
+        { $set: { revoked_at: new Date(), revoked_reason: reason } }
+    );
+};
+
+/**
+ * Revoke the session a refresh token belongs to (logout)
+ * @param {string} refreshToken
+ * @param {string} reason
+ */
+const revokeSessionByRefreshToken = async (refreshToken, reason) => {
+    if (!refreshToken) return;
+    await Session.updateOne(
+        { refresh_token_hash: hashRefreshToken(refreshToken), revoked_at: null },
+        { $set: { revoked_at: new Date(), revoked_reason: reason } }
+    );
+};
+
+/**
+ * Revoke every active session of a user
+ * @param {string} userId
+ * @param {string} userType - 'admin', 'super_admin' or 'congregant'
+ * @param {string} reason
+ * @returns {Promise<number>} - Sessions revoked
+ */
+const revokeUserSessions = async (userId, userType, reason) => {
+    const result = await Session.updateMany(
+        { user_id: userId, user_type: userType, revoked_at: null },
+        { $set: { revoked_at: new Date(), revoked_reason: reason } }
+    );
+    return result.modifiedCount;
+};
+
+/**
+ * A user's active sessions, most recently used first
+ * @param {string} userId
+ * @param {string} userType - 'admin', 'super_admin' or 'congregant'
+ * @param {string} currentSessionId - sid of the caller's access token
+ * @returns {Promise<Array>}
+ */
+const listUserSessions = async (userId, userType, currentSessionId) => {
+    const sessions = await Session.find({
+        user_id: userId,
+        user_type: userType,
+        revoked_at: null,
+        expires_at: { $gt: new Date() }
+    }).sort({ last_used_at: -1 }).lean();
+
+    return sessions.map(session => ({
+        id: session._id,
+        device: describeDevice(session.user_agent),
+        ip_address: session.ip_address,
+        location: session.location,
+        created_at: session.createdAt,
+        last_used_at: session.last_used_at,
+        current: session._id.toString() === currentSessionId
+    }));
+};
+
+/**
+ * Revoke one of a user's own sessions
+ * @returns {Promise<boolean>} - false when the session does not exist, is not theirs or is already revoked
+ */
+const revokeUserSession = async (userId, userType, sessionId, reason) => {
+    const result = await Session.updateOne(
+        { _id: sessionId, user_id: userId, user_type: userType, revoked_at: null },
+        { $set: { revoked_at: new Date(), revoked_reason: reason } }
+    );
+    return result.modifiedCount > 0;
+};
+
+/**
+ * Record that the user re-authenticated on this session
+ * @param {string} sessionId
+ * @returns {Promise<Date>} - When the step-up stops counting
+ */
+const markStepUp = async (sessionId) => {
+    const now = new Date();
+    await Session.updateOne({ _id: sessionId, revoked_at: null }, { $set: { step_up_at: now } });
+    return new Date(now.getTime() + STEP_UP_TTL_MS);
+};
+
+/**
+ * Whether the user re-authenticated on this session in the last few minutes
+ * @param {string} sessionId
+ * @returns {Promise<boolean>}
+ */
+const hasRecentStepUp = async (sessionId) => {
+    if (!sessionId) return false;
+    const session = await Session.exists({
+        _id: sessionId,
+        revoked_at: null,
+        step_up_at: { $gt: new Date(Date.now() - STEP_UP_TTL_MS) }
+    });
+    return !!session;
+};
+
+/**
+ * Whether an access token's session is still live
+ * @param {string} sessionId
+ * @returns {Promise<boolean>}
+ */
+const isSessionActive = async (sessionId) => {
+    if (!sessionId) return false;
+    const session = await Session.exists({ _id: sessionId, revoked_at: null, expires_at: { $gt: new Date() } });
+    return !!session;
+};
+
+export {
+    REFRESH_COOKIE,
+    buildAccessClaims,
+    signAccessToken,
+    setSessionCookies,
+    clearSessionCookies,
+    startSession,
+    rotateSession,
+    revokeSession,
+    revokeSessionByRefreshToken,
+    revokeUserSessions,
+    listUserSessions,
+    revokeUserSession,
+    markStepUp,
+    hasRecentStepUp,
+    isSessionActive
+};
@@ -0,0 +1,211 @@
+// Timetable resolution - combines base prayer times with date-ranged schedules
+import PrayerSchedule from '../models/PrayerSchedule.js';
+import TimetableDay from '../models/TimetableDay.js';
+import {
+    DEFAULT_TIMEZONE,
+    parseDateString,
+    formatDateInTimezone,
+    calculateMosquePrayerTimes,
+    isCalculationEnabled
+} from './prayerCalculator.js';
+
+const PRAYERS = ['fajr', 'dhuhr', 'asr', 'maghrib', 'isha', 'jummah'];
+
+// Longest range a single timetable request may cover
+const MAX_TIMETABLE_DAYS = 92;
+
+// Later entries win when schedules overlap. Imported days sit between
+// Ramadan timetables and single-date overrides.
+const SCHEDULE_PRECEDENCE = {
+    seasonal: 1,
+    ramadan: 2,
+    override: 3
+};
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Shift a YYYY-MM-DD date string by a number of days
+ * @param {string} date
+ * @param {number} days
+ * @returns {string}
+ */
+const addDays = (date, days) => {
+    const { year, month, day } = parseDateString(date);
+    const shifted = new Date(Date.UTC(year, month - 1, day + days));
+    return shifted.toISOString().slice(0, 10);
+};
+
+/**
+ * Number of days from one date to another (inclusive of both)
+ */
+const countDays = (from, to) => {
+    const start = parseDateString(from);
+    const end = parseDateString(to);
+    return Math.round(
+        (Date.UTC(end.year, end.month - 1, end.day) - Date.UTC(start.year, start.month - 1, start.day)) / 86400000
+    ) + 1;
+};
+
+/**
+ * Day of week (0 = Sunday) for a YYYY-MM-DD date
+ */
+const getDayOfWeek = (date) => {
+    const { year, month, day } = parseDateString(date);
+    return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
+
+/**
+ * Today's date in the mosque's timezone
+ * @param {Object} mosque
+ * @param {Date} now
+ * @returns {string}
+ */
+const getMosqueToday = (mosque, now = new Date()) => {
+    return formatDateInTimezone(now, mosque?.prayer_calculation?.timezone || DEFAULT_TIMEZONE);
+};
+
+/**
+ * Base times for a date before any schedule is applied
+ */
+const getBaseTimes = (mosque, date) => {
+    if (isCalculationEnabled(mosque)) {
+        const { adhan_times, prayer_times } = calculateMosquePrayerTimes(mosque, date);
+        return { source: 'calculated', prayer_times, adhan_times };
+    }
+
+    const stored = mosque.prayer_times || {};
+    const prayerTimes = {};
+    PRAYERS.forEach((prayer) => {
+        prayerTimes[prayer] = stored[prayer] || null;
+    });
+    return { source: 'manual', prayer_times: prayerTimes, adhan_times: null };
+};
+
+/**
+ * Sort schedules so that more specific ones are applied last
+ */
+const sortByPrecedence = (schedules) => {
+    return [...schedules].sort((a, b) => {
+        const typeDiff = SCHEDULE_PRECEDENCE[a.schedule_type] - SCHEDULE_PRECEDENCE[b.schedule_type];
+        if (typeDiff !== 0) return typeDiff;
+        // Narrower ranges are more specific
+        const spanDiff = countDays(b.start_date, b.end_date) - countDays(a.start_date, a.end_date);
+        if (spanDiff !== 0) return spanDiff;
+        return new Date(a.updatedAt) - new Date(b.updatedAt);
+    });
+};
+
+/**
+ * Resolve the timetable of a mosque for every date in a range
+ * @param {Object} mosque - Mosque document
+ * @param {string} from - YYYY-MM-DD
+ * @param {string} to - YYYY-MM-DD
+ * @returns {Promise<Array>} - One entry per date
+ */
+const resolveTimetable = async (mosque, from, to) => {
+    const schedules = await PrayerSchedule.find({
+        mosque_id: mosque._id,
+        start_date: { $lte: to },
+        end_date: { $gte: from }
+    }).lean();
+
+    const importedDays = await TimetableDay.find({
+        mosque_id: mosque._id,
+        date: { $gte: from, $lte: to }
+    }).lean();
+    const importedByDate = new Map(importedDays.map(day => [day.date, day]));
+
+    const ordered = sortByPrecedence(schedules);
+    const entries = [];
+
+    for (let date = from; date <= to; date = addDays(date, 1)) {
+        const base = getBaseTimes(mosque, date);
+        const prayerTimes = { ...base.prayer_times };
+        const applied = [];
+        let source = base.source;
+
+        const applySchedule = (schedule) => {
+            PRAYERS.forEach((prayer) => {
+                const time = schedule.prayer_times?.[prayer];
+                if (time) prayerTimes[prayer] = time;
+            });
+            applied.push({
+                id: schedule._id,
+                name: schedule.name,
+                schedule_type: schedule.schedule_type
+            });
+            source = schedule.schedule_type === 'override' ? 'override' : 'schedule';
+        };
+
+        const matching = ordered.filter(schedule => schedule.start_date <= date && schedule.end_date >= date);
+        matching.filter(schedule => schedule.schedule_type !== 'override').forEach(applySchedule);
+
+        const imported = importedByDate.get(date);
+        if (imported) {
+            PRAYERS.forEach((prayer) => {
+                const time = imported.prayer_times?.[prayer];
+                if (time) prayerTimes[prayer] = time;
+            });
+            source = 'imported';
+        }
+
+        matching.filter(schedule => schedule.schedule_type === 'override').forEach(applySchedule);
+
+        const dayOfWeek = getDayOfWeek(date);
+        entries.push({
+            date,
+            day: DAY_NAMES[dayOfWeek],
+            is_friday: dayOfWeek === 5,
+            source,
+            prayer_times: prayerTimes,
+            adhan_times: base.adhan_times,
+            schedules: applied
+        });
+    }
+
+    return entries;
+};
+
+/**
+ * The five daily congregations of a timetable entry. On Fridays Jummah takes
+ * the place of Dhuhr, the same substitution the PrayerClock component makes,
+ * and prayers without a time are left out.
+ * @param {Object} entry - Entry from resolveTimetable
+ * @returns {Array<{prayer: string, name: string, time: string}>}
+ */
+const getDailyPrayers = (entry) => {
+    const times = entry.prayer_times;
+    return [
+        { prayer: 'fajr', name: 'Fajr', time: times.fajr },
+        entry.is_friday
+            ? { prayer: 'jummah', name: 'Jummah', time: times.jummah }
+            : { prayer: 'dhuhr', name: 'Dhuhr', time: times.dhuhr },
+        { prayer: 'asr', name: 'Asr', time: times.asr },
+        { prayer: 'maghrib', name: 'Maghrib', time: times.maghrib },
+        { prayer: 'isha', name: 'Isha', time: times.isha }
+    ].filter(prayer => prayer.time && String(prayer.time).trim() !== '');
+};
+
+/**
+ * Resolve the timetable entry for a single date
+ * @param {Object} mosque
+ * @param {string} date - YYYY-MM-DD
+ * @returns {Promise<Object>}
+ */
+const resolveDay = async (mosque, date) => {
+    const [entry] = await resolveTimetable(mosque, date, date);
+    return entry;
+};
+
+export {
+    PRAYERS,
+    MAX_TIMETABLE_DAYS,
+    addDays,
+    countDays,
+    getDayOfWeek,
+    getMosqueToday,
+    getDailyPrayers,
+    resolveTimetable,
+    resolveDay
+};
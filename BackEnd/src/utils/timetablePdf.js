@@ -0,0 +1,162 @@
+// Printable monthly timetable - renders a mosque's resolved timetable as an A4 PDF
+import PDFDocument from 'pdfkit';
+
+const MONTH_NAMES = [
+    'January', 'February', 'March', 'April', 'May', 'June',
+    'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+const COLORS = {
+    primary: '#047857',
+    primaryLight: '#d1fae5',
+    friday: '#ecfdf5',
+    text: '#1f2937',
+    muted: '#6b7280',
+    border: '#a7f3d0'
+};
+
+const PAGE_MARGIN = 40;
+const ROW_HEIGHT = 18;
+
+// Grid columns; Dhuhr shows the Jummah time on Fridays
+const COLUMNS = [
+    { key: 'date', label: 'Date', width: 50 },
+    { key: 'day', label: 'Day', width: 75 },
+    { key: 'fajr', label: 'Fajr', width: 70 },
+    { key: 'dhuhr', label: 'Dhuhr / Jummah', width: 100 },
+    { key: 'asr', label: 'Asr', width: 70 },
+    { key: 'maghrib', label: 'Maghrib', width: 75 },
+    { key: 'isha', label: 'Isha', width: 75 }
+];
+
+/**
+ * Format a 24-hour HH:MM time for print
+ * @param {string} time
+ * @returns {string}
+ */
+const formatTime = (time) => {
+    if (!time) return '--:--';
+    const [hours, minutes] = time.split(':').map(Number);
+    const period = hours >= 12 ? 'PM' : 'AM';
+    const displayHours = hours === 0 ? 12 : hours > 12 ? hours - 12 : hours;
+    return `${displayHours}:${String(minutes).padStart(2, '0')} ${period}`;
+};
+
+/**
+ * Cell values of a timetable entry, using Jummah in place of Dhuhr on Fridays
+ */
+const getRowValues = (entry) => {
+    const times = entry.prayer_times;
+    const isJummah = entry.is_friday && Boolean(times.jummah);
+    return {
+        date: entry.date.slice(8, 10),
+        day: entry.day,
+        fajr: formatTime(times.fajr),
+        dhuhr: isJummah ? `${formatTime(times.jummah)} (J)` : formatTime(times.dhuhr),
+        asr: formatTime(times.asr),
+        maghrib: formatTime(times.maghrib),
+        isha: formatTime(times.isha)
+    };
+};
+
+const drawHeader = (doc, mosque, monthLabel) => {
+    const width = doc.page.width - PAGE_MARGIN * 2;
+
+    doc.rect(PAGE_MARGIN, PAGE_MARGIN, width, 70).fill(COLORS.primary);
+    doc.fillColor('#ffffff')
+        .font('Helvetica-Bold')
+        .fontSize(20)
+        .text(mosque.name, PAGE_MARGIN + 15, PAGE_MARGIN + 12, { width: width - 30, lineBreak: false, ellipsis: true });
+    doc.font('Helvetica')
+        .fontSize(12)
+        .text(`Prayer Timetable - ${monthLabel}`, PAGE_MARGIN + 15, PAGE_MARGIN + 40, { width: width - 30 });
+
+    const contact = [mosque.contact_phone, mosque.contact_email].filter(Boolean).join('  |  ');
+    doc.fillColor(COLORS.text)
+        .fontSize(10)
+        .text(mosque.location, PAGE_MARGIN, PAGE_MARGIN + 80, { width, lineBreak: false, ellipsis: true });
+    if (contact) {
+        doc.fillColor(COLORS.muted).text(contact, PAGE_MARGIN, PAGE_MARGIN + 94, { width, lineBreak: false });
+    }
+
+    return PAGE_MARGIN + 115;
+};
+
+const drawRow = (doc, y, values, { header = false, fill = null } = {}) => {
+    const tableWidth = COLUMNS.reduce((sum, column) => sum + column.width, 0);
+    const left = (doc.page.width - tableWidth) / 2;
+
+    if (fill) doc.rect(left, y, tableWidth, ROW_HEIGHT).fill(fill);
+    doc.moveTo(left, y + ROW_HEIGHT).lineTo(left + tableWidth, y + ROW_HEIGHT)
+        .lineWidth(0.5).strokeColor(COLORS.border).stroke();
+
+    doc.font(header ? 'Helvetica-Bold' : 'Helvetica')
+        .fontSize(header ? 9 : 9.5)
+        .fillColor(header ? COLORS.primary : COLORS.text);
+
+    let x = left;
+    COLUMNS.forEach((column) => {
+        doc.text(values[column.key], x + 4, y + 5, {
+            width: column.width - 8,
+            align: column.key === 'day' ? 'left' : 'center',
+            lineBreak: false
+        });
+        x += column.width;
+    });
+};
+
+/**
+ * Render a month of resolved timetable entries as an A4 PDF
+ * @param {Object} mosque - Mosque document
+ * @param {string} month - YYYY-MM
+ * @param {Array} entries - Entries from resolveTimetable for every day of the month
+ * @returns {Promise<Buffer>}
+ */
+const renderTimetablePdf = (mosque, month, entries) => {
+    return new Promise((resolve, reject) => {
+        const [year, monthNumber] = month.split('-').map(Number);
+        const monthLabel = `${MONTH_NAMES[monthNumber - 1]} ${year}`;
+
+        const doc = new PDFDocument({
+            size: 'A4',
+            margin: PAGE_MARGIN,
+            info: {
+                Title: `${mosque.name} - Prayer Timetable ${monthLabel}`,
+                Author: mosque.name
+            }
+        });
+
+        const chunks = [];
+        doc.on('data', chunk => chunks.push(chunk));
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        doc.on('error', reject);
+
+        let y = drawHeader(doc, mosque, monthLabel);
+
+        const headerValues = {};
+        COLUMNS.forEach((column) => {
+            headerValues[column.key] = column.label;
+        });
+        drawRow(doc, y, headerValues, { header: true, fill: COLORS.primaryLight });
+        y += ROW_HEIGHT;
+
+        entries.forEach((entry) => {
+            drawRow(doc, y, getRowValues(entry), { fill: entry.is_friday ? COLORS.friday : null });
+            y += ROW_HEIGHT;
+        });
+
+        doc.font('Helvetica')
+            .fontSize(8)
+            .fillColor(COLORS.muted)
+            .text(
+                'Times shown are congregation (jamaat) times. (J) marks the Jummah prayer on Fridays. Timetable subject to change.',
+                PAGE_MARGIN,
+                y + 12,
+                { width: doc.page.width - PAGE_MARGIN * 2, align: 'center' }
+            );
+
+        doc.end();
+    });
+};
+
+export { renderTimetablePdf };
@@ -0,0 +1,157 @@
+// Two-factor authentication - TOTP codes (RFC 6238), secret encryption and recovery codes
+import crypto from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Accept the previous and next code too, for clocks that have drifted a little
+const TOTP_WINDOW = 1;
+const ISSUER = 'Mosque Management System';
+const RECOVERY_CODE_COUNT = 10;
+
+// TOTP secrets have to be read back to check codes, so they are encrypted rather than hashed
+const getEncryptionKey = () => {
+    const key = process.env.TWO_FACTOR_SECRET || process.env.JWT_SECRET;
+    if (!key) {
+        throw new Error('TWO_FACTOR_SECRET (or JWT_SECRET) must be set to store two-factor secrets');
+    }
+    return crypto.createHash('sha256').update(key).digest();
+};
+
+const base32Encode = (buffer) => {
+    let bits = '';
+    for (const byte of buffer) {
+        bits += byte.toString(2).padStart(8, '0');
+    }
+    let output = '';
+    for (let i = 0; i < bits.length; i += 5) {
+        output += BASE32_ALPHABET[parseInt(bits.slice(i, i + 5).padEnd(5, '0'), 2)];
+    }
+    return output;
+};
+
+const base32Decode = (input) => {
+    let bits = '';
+    for (const char of input.replace(/=+$/, '').toUpperCase()) {
+        const value = BASE32_ALPHABET.indexOf(char);
+        if (value === -1) {
+            throw new Error('Invalid base32 character');
+        }
+        bits += value.toString(2).padStart(5, '0');
+    }
+    const bytes = [];
+    for (let i = 0; i + 8 <= bits.length; i += 8) {
+        bytes.push(parseInt(bits.slice(i, i + 8), 2));
+    }
+    return Buffer.from(bytes);
+};
+
+const codeForStep = (secret, step) => {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+    const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+    return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+};
+
+/**
+ * New random TOTP secret
+ * @returns {string} - Base32, as authenticator apps expect it
+ */
+const generateTotpSecret = () => base32Encode(crypto.randomBytes(20));
+
+/**
+ * Check a TOTP code
+ * @param {string} secret - Base32 secret
+ * @param {string} code - Code typed by the user
+ * @param {number|null} lastUsedStep - Step of the last accepted code, which cannot be used again
+ * @returns {number|null} - Time step the code matched, or null
+ */
+const verifyTotp = (secret, code, lastUsedStep = null) => {
+    const normalized = String(code ?? '').replace(/\s+/g, '');
+    if (!/^\d{6}$/.test(normalized)) return null;
+
+    const currentStep = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS);
+    for (let step = currentStep - TOTP_WINDOW; step <= currentStep + TOTP_WINDOW; step++) {
+        if (lastUsedStep !== null && step <= lastUsedStep) continue;
+        const expected = codeForStep(secret, step);
+        if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+            return step;
+        }
+    }
+    return null;
+};
+
+/**
+ * otpauth:// URI encoded in the enrollment QR code
+ * @param {string} secret - Base32 secret
+ * @param {string} accountName - Usually the user's email
+ * @returns {string}
+ */
+const buildOtpauthUrl = (secret, accountName) => {
+    const label = encodeURIComponent(`${ISSUER}:${accountName}`);
+    const params = new URLSearchParams({
+        secret,
+        issuer: ISSUER,
+        algorithm: 'SHA1',
+        digits: String(TOTP_DIGITS),
+        period: String(TOTP_STEP_SECONDS)
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+/**
+ * Encrypt a secret for storage
+ * @param {string} secret
+ * @returns {string} - iv:tag:ciphertext, base64 parts
+ */
+const encryptSecret = (secret) => {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join(':');
+};
+
+/**
+ * Decrypt a secret stored by encryptSecret
+ * @param {string} stored
+ * @returns {string}
+ */
+const decryptSecret = (stored) => {
+    const [iv, tag, encrypted] = stored.split(':').map(part => Buffer.from(part, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+};
+
+const normalizeRecoveryCode = (code) => String(code ?? '').replace(/[\s-]+/g, '').toUpperCase();
+
+/**
+ * Keyed hash of a recovery code
+ * @param {string} code
+ * @returns {string}
+ */
+const hashRecoveryCode = (code) => crypto
+    .createHmac('sha256', getEncryptionKey())
+    .update(normalizeRecoveryCode(code))
+    .digest('hex');
+
+/**
+ * New set of single-use recovery codes, e.g. "7F3K-Q9PD"
+ * @returns {string[]}
+ */
+const generateRecoveryCodes = () => Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = base32Encode(crypto.randomBytes(5));
+    return `${raw.slice(0, 4)}-${raw.slice(4, 8)}`;
+});
+
+export {
+    generateTotpSecret,
+    verifyTotp,
+    buildOtpauthUrl,
+    encryptSecret,
+    decryptSecret,
+    hashRecoveryCode,
+    generateRecoveryCodes
+};
@@ -1,8 +1,21 @@
 // Centralized validation utilities for mosque management system
+import { CALCULATION_METHODS, ASR_METHODS, HIGH_LATITUDE_RULES, JAMAAT_PRAYERS, isValidTimezone, parseDateString } from './prayerCalculator.js';
+import { FACILITY_KEYS, KHUTBAH_LANGUAGES } from './facilities.js';
 
 // Allowed email domains
 const ALLOWED_EMAIL_DOMAINS = ['gmail.com', 'outlook.com', 'yahoo.com', 'hotmail.com', 'icloud.com', 'protonmail.com'];
 
+// Provinces and territories of Pakistan used in structured addresses
+const PROVINCES = [
+    'Punjab',
+    'Sindh',
+    'Khyber Pakhtunkhwa',
+    'Balochistan',
+    'Islamabad Capital Territory',
+    'Gilgit-Baltistan',
+    'Azad Jammu and Kashmir'
+];
+
 // Validation regex patterns
 const PATTERNS = {
     // Email with domain restriction
@@ -18,7 +31,13 @@ const PATTERNS = {
     NAME: /^[a-zA-Z\s\-']+$/,
 
     // Mosque name: letters, numbers, spaces, hyphens, apostrophes
-    MOSQUE_NAME: /^[a-zA-Z0-9\s\-']+$/
+    MOSQUE_NAME: /^[a-zA-Z0-9\s\-']+$/,
+
+    // Prayer time in 24-hour format: HH:MM
+    TIME_24H: /^([01]?[0-9]|2[0-3]):[0-5][0-9]$/,
+
+    // Pakistani postal code: 5 digits
+    POSTAL_CODE: /^[0-9]{5}$/
 };
 
 // Field length constraints
@@ -29,7 +48,11 @@ const LENGTHS = {
     DESCRIPTION: { MAX: 1000 },
     ADMIN_INSTRUCTIONS: { MAX: 500 },
     APPLICATION_NOTES: { MAX: 500 },
-    PASSWORD: { MIN: 8, MAX: 50 }
+    PASSWORD: { MIN: 8, MAX: 50 },
+    JAMAAT_OFFSET: { MIN: 0, MAX: 180 },
+    SCHEDULE_NAME: { MIN: 2, MAX: 100 },
+    SCHEDULE_DAYS: { MAX: 366 },
+    ADDRESS_LINE: { MAX: 100 }
 };
 
 /**
@@ -268,6 +291,258 @@ function validateApplicationNotes(notes) {
     return { valid: true, error: null };
 }
 
+/**
+ * Validate prayer calculation settings
+ * @param {Object} settings - Calculation settings to validate
+ * @returns {Object} - { valid: boolean, error: string|null }
+ */
+function validatePrayerCalculation(settings) {
+    if (!settings || typeof settings !== 'object') {
+        return { valid: false, error: 'Calculation settings are required' };
+    }
+
+    const { enabled, latitude, longitude, timezone, method, asr_method, high_latitude_rule, jamaat_offsets } = settings;
+
+    if (enabled && (latitude === undefined || latitude === null || longitude === undefined || longitude === null)) {
+        return { valid: false, error: 'Latitude and longitude are required to enable automatic calculation' };
+    }
+
+    if (latitude !== undefined && latitude !== null && (typeof latitude !== 'number' || latitude < -90 || latitude > 90)) {
+        return { valid: false, error: 'Latitude must be a number between -90 and 90' };
+    }
+
+    if (longitude !== undefined && longitude !== null && (typeof longitude !== 'number' || longitude < -180 || longitude > 180)) {
+        return { valid: false, error: 'Longitude must be a number between -180 and 180' };
+    }
+
+    if (timezone !== undefined && !isValidTimezone(timezone)) {
+        return { valid: false, error: 'Timezone must be a valid IANA timezone, e.g. Asia/Karachi' };
+    }
+
+    if (method !== undefined && !CALCULATION_METHODS[method]) {
+        return { valid: false, error: `Calculation method must be one of: ${Object.keys(CALCULATION_METHODS).join(', ')}` };
+    }
+
+    if (asr_method !== undefined && !ASR_METHODS[asr_method]) {
+        return { valid: false, error: `Asr method must be one of: ${Object.keys(ASR_METHODS).join(', ')}` };
+    }
+
+    if (high_latitude_rule !== undefined && !HIGH_LATITUDE_RULES.includes(high_latitude_rule)) {
+        return { valid: false, error: `High latitude rule must be one of: ${HIGH_LATITUDE_RULES.join(', ')}` };
+    }
+
+    if (jamaat_offsets !== undefined) {
+        for (const [prayer, offset] of Object.entries(jamaat_offsets || {})) {
+            if (!JAMAAT_PRAYERS.includes(prayer)) {
+                return { valid: false, error: `Unknown prayer in jamaat offsets: ${prayer}` };
+            }
+            // A null Jummah offset keeps the fixed Jummah time
+            if (prayer === 'jummah' && offset === null) continue;
+            if (!Number.isInteger(offset) || offset < LENGTHS.JAMAAT_OFFSET.MIN || offset > LENGTHS.JAMAAT_OFFSET.MAX) {
+                return {
+                    valid: false,
+                    error: `Jamaat offset for ${prayer} must be a whole number of minutes between ${LENGTHS.JAMAAT_OFFSET.MIN} and ${LENGTHS.JAMAAT_OFFSET.MAX}`
+                };
+            }
+        }
+    }
+
+    return { valid: true, error: null };
+}
+
+/**
+ * Validate a mosque's map coordinates. Both values must be given together.
+ * @param {number} latitude - Latitude in degrees
+ * @param {number} longitude - Longitude in degrees
+ * @returns {Object} - { valid: boolean, error: string|null }
+ */
+function validateCoordinates(latitude, longitude) {
+    if (typeof latitude !== 'number' || typeof longitude !== 'number' ||
+        !Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+        return { valid: false, error: 'Latitude and longitude must both be numbers' };
+    }
+
+    if (latitude < -90 || latitude > 90) {
+        return { valid: false, error: 'Latitude must be between -90 and 90' };
+    }
+
+    if (longitude < -180 || longitude > 180) {
+        return { valid: false, error: 'Longitude must be between -180 and 180' };
+    }
+
+    return { valid: true, error: null };
+}
+
+/**
+ * Validate a structured address. Every part is optional, but a province
+ * must be one of PROVINCES and a postal code must be 5 digits.
+ * @param {Object} address - { street, area, city, district, province, postal_code }
+ * @returns {Object} - { valid: boolean, error: string|null }
+ */
+function validateAddress(address) {
+    if (!address || typeof address !== 'object' || Array.isArray(address)) {
+        return { valid: false, error: 'Address must be an object' };
+    }
+
+    const lines = { street: 'Street', area: 'Area', city: 'City', district: 'District' };
+    for (const [field, label] of Object.entries(lines)) {
+        const value = address[field];
+        if (value === undefined || value === null) continue;
+        if (typeof value !== 'string') {
+            return { valid: false, error: `${label} must be text` };
+        }
+        if (value.trim().length > LENGTHS.ADDRESS_LINE.MAX) {
+            return {
+                valid: false,
+                error: `${label} must not exceed ${LENGTHS.ADDRESS_LINE.MAX} characters`
+            };
+        }
+    }
+
+    if (address.province && !PROVINCES.includes(address.province)) {
+        return { valid: false, error: `Province must be one of: ${PROVINCES.join(', ')}` };
+    }
+
+    if (address.postal_code && !PATTERNS.POSTAL_CODE.test(String(address.postal_code).trim())) {
+        return { valid: false, error: 'Postal code must be 5 digits' };
+    }
+
+    return { valid: true, error: null };
+}
+
+/**
+ * Validate a mosque's facilities
+ * @param {Object} facilities - Yes/no amenities keyed by FACILITY_KEYS plus khutbah_languages
+ * @returns {Object} - { valid: boolean, error: string|null }
+ */
+function validateFacilities(facilities) {
+    if (!facilities || typeof facilities !== 'object' || Array.isArray(facilities)) {
+        return { valid: false, error: 'Facilities must be an object' };
+    }
+
+    for (const [key, value] of Object.entries(facilities)) {
+        if (key === 'khutbah_languages') continue;
+        if (!FACILITY_KEYS.includes(key)) {
+            return { valid: false, error: `Unknown facility: ${key}` };
+        }
+        if (typeof value !== 'boolean') {
+            return { valid: false, error: `${key} must be true or false` };
+        }
+    }
+
+    const languages = facilities.khutbah_languages;
+    if (languages !== undefined) {
+        if (!Array.isArray(languages)) {
+            return { valid: false, error: 'khutbah_languages must be a list' };
+        }
+        const unknown = languages.filter(language => !KHUTBAH_LANGUAGES.includes(language));
+        if (unknown.length > 0) {
+            return {
+                valid: false,
+                error: `Khutbah language must be one of: ${KHUTBAH_LANGUAGES.join(', ')}`
+            };
+        }
+    }
+
+    return { valid: true, error: null };
+}
+
+/**
+ * Parse a prayer time written as HH:MM (24-hour) or HH:MM AM/PM
+ * Mirrors the parsing used by the PrayerClock component
+ * @param {string} time - Time to parse
+ * @returns {string|null} - Normalized HH:MM (24-hour) or null if invalid
+ */
+function parsePrayerTime(time) {
+    if (time === undefined || time === null) return null;
+    const value = String(time).trim();
+
+    const time12Match = value.match(/^(\d{1,2}):(\d{2})\s*(AM|PM)$/i);
+    const time24Match = value.match(/^(\d{1,2}):(\d{2})$/);
+
+    let hours;
+    let minutes;
+    if (time12Match) {
+        hours = parseInt(time12Match[1], 10);
+        minutes = parseInt(time12Match[2], 10);
+        if (hours < 1 || hours > 12) return null;
+        const ampm = time12Match[3].toUpperCase();
+        if (ampm === 'PM' && hours !== 12) {
+            hours += 12;
+        } else if (ampm === 'AM' && hours === 12) {
+            hours = 0;
+        }
+    } else if (time24Match) {
+        hours = parseInt(time24Match[1], 10);
+        minutes = parseInt(time24Match[2], 10);
+    } else {
+        return null;
+    }
+
+    if (hours < 0 || hours > 23 || minutes < 0 || minutes > 59) return null;
+
+    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+/**
+ * Validate a date-ranged prayer schedule
+ * @param {Object} schedule - Schedule to validate
+ * @returns {Object} - { valid: boolean, error: string|null }
+ */
+function validatePrayerSchedule(schedule) {
+    const { name, schedule_type, start_date, end_date, prayer_times } = schedule || {};
+
+    if (!name || !name.trim()) {
+        return { valid: false, error: 'Schedule name is required' };
+    }
+
+    if (name.trim().length < LENGTHS.SCHEDULE_NAME.MIN || name.trim().length > LENGTHS.SCHEDULE_NAME.MAX) {
+        return {
+            valid: false,
+            error: `Schedule name must be between ${LENGTHS.SCHEDULE_NAME.MIN} and ${LENGTHS.SCHEDULE_NAME.MAX} characters`
+        };
+    }
+
+    if (!['seasonal', 'ramadan', 'override'].includes(schedule_type)) {
+        return { valid: false, error: 'Schedule type must be seasonal, ramadan or override' };
+    }
+
+    const start = parseDateString(start_date);
+    const end = parseDateString(end_date);
+    if (!start || !end) {
+        return { valid: false, error: 'Start and end dates must be in YYYY-MM-DD format' };
+    }
+
+    if (start_date > end_date) {
+        return { valid: false, error: 'Start date must be on or before the end date' };
+    }
+
+    if (schedule_type === 'override' && start_date !== end_date) {
+        return { valid: false, error: 'An override applies to a single date' };
+    }
+
+    const days = (Date.UTC(end.year, end.month - 1, end.day) - Date.UTC(start.year, start.month - 1, start.day)) / 86400000 + 1;
+    if (days > LENGTHS.SCHEDULE_DAYS.MAX) {
+        return { valid: false, error: `A schedule cannot cover more than ${LENGTHS.SCHEDULE_DAYS.MAX} days` };
+    }
+
+    const entries = Object.entries(prayer_times || {}).filter(([, time]) => time);
+    if (entries.length === 0) {
+        return { valid: false, error: 'At least one prayer time is required' };
+    }
+
+    for (const [prayer, time] of entries) {
+        if (!JAMAAT_PRAYERS.includes(prayer)) {
+            return { valid: false, error: `Unknown prayer: ${prayer}` };
+        }
+        if (!PATTERNS.TIME_24H.test(time)) {
+            return { valid: false, error: `${prayer} time must be in HH:MM (24-hour) format` };
+        }
+    }
+
+    return { valid: true, error: null };
+}
+
 /**
  * Sanitize and trim string
  * @param {string} str - String to sanitize
@@ -288,6 +563,7 @@ function sanitizeEmail(email) {
 
 export {
     ALLOWED_EMAIL_DOMAINS,
+    PROVINCES,
     PATTERNS,
     LENGTHS,
     validateEmail,
@@ -299,6 +575,12 @@ export {
     validateDescription,
     validateAdminInstructions,
     validateApplicationNotes,
+    validatePrayerCalculation,
+    validateCoordinates,
+    validateAddress,
+    validateFacilities,
+    validatePrayerSchedule,
+    parsePrayerTime,
     sanitizeString,
     sanitizeEmail
 };
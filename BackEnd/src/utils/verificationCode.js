@@ -0,0 +1,110 @@
+// Mosque verification codes - generation, keyed hashing and constant-time checks
+import crypto from 'crypto';
+
+// Characters of a code kept in plaintext so people can tell codes apart
+const CODE_PREFIX_LENGTH = 4;
+
+// Codes are HMACed rather than bcrypted: they are long random values, and a deterministic
+// hash lets the reapplication flow look a mosque up by the code it was given.
+const getHashKey = () => {
+    const key = process.env.VERIFICATION_CODE_SECRET || process.env.JWT_SECRET;
+    if (!key) {
+        throw new Error('VERIFICATION_CODE_SECRET (or JWT_SECRET) must be set to hash verification codes');
+    }
+    return key;
+};
+
+/**
+ * New random mosque verification code (16 uppercase hex characters)
+ * @returns {string}
+ */
+const generateVerificationCode = () => crypto.randomBytes(8).toString('hex').toUpperCase();
+
+/**
+ * Codes are case-insensitive and often pasted with surrounding spaces
+ * @param {string} code
+ * @returns {string}
+ */
+const normalizeVerificationCode = (code) => String(code ?? '').trim().toUpperCase();
+
+/**
+ * Keyed hash of a verification code
+ * @param {string} code - Plaintext code, normalized before hashing
+ * @returns {string} - Hex HMAC-SHA256
+ */
+const hashVerificationCode = (code) => crypto
+    .createHmac('sha256', getHashKey())
+    .update(normalizeVerificationCode(code))
+    .digest('hex');
+
+/**
+ * Display prefix of a code
+ * @param {string} code
+ * @returns {string}
+ */
+const getVerificationCodePrefix = (code) => normalizeVerificationCode(code).slice(0, CODE_PREFIX_LENGTH);
+
+/**
+ * Prefix formatted for display, e.g. "A1B2••••"
+ * @param {string|null} prefix
+ * @returns {string}
+ */
+const maskVerificationCode = (prefix) => (prefix ? `${prefix}••••` : '');
+
+/**
+ * Fields to store on a mosque for a new code
+ * @param {string} code - Plaintext code
+ * @returns {{verification_code_hash: string, verification_code_prefix: string}}
+ */
+const toStoredVerificationCode = (code) => ({
+    verification_code_hash: hashVerificationCode(code),
+    verification_code_prefix: getVerificationCodePrefix(code)
+});
+
+/**
+ * Compare two stored hashes in constant time
+ * @param {string} hashA
+ * @param {string} hashB
+ * @returns {boolean}
+ */
+const verificationHashesMatch = (hashA, hashB) => {
+    if (typeof hashA !== 'string' || typeof hashB !== 'string') return false;
+    const a = Buffer.from(hashA, 'hex');
+    const b = Buffer.from(hashB, 'hex');
+    return a.length === b.length && a.length > 0 && crypto.timingSafeEqual(a, b);
+};
+
+/**
+ * Check a submitted code against a mosque in constant time
+ * @param {Object} mosque - Mosque document with verification_code_hash
+ * @param {string} code - Code entered by the user
+ * @returns {boolean}
+ */
+const verifyMosqueCode = (mosque, code) => {
+    if (!mosque?.verification_code_hash || !code) return false;
+    return verificationHashesMatch(hashVerificationCode(code), mosque.verification_code_hash);
+};
+
+/**
+ * Whether a mosque's code is past its expiry. Checked after verifyMosqueCode so an
+ * expired but correct code gets its own error message.
+ * @param {Object} mosque - Mosque document with verification_code_expires
+ * @param {Date} now
+ * @returns {boolean}
+ */
+const isVerificationCodeExpired = (mosque, now = new Date()) => {
+    return !!mosque?.verification_code_expires && now > new Date(mosque.verification_code_expires);
+};
+
+export {
+    CODE_PREFIX_LENGTH,
+    generateVerificationCode,
+    normalizeVerificationCode,
+    hashVerificationCode,
+    getVerificationCodePrefix,
+    maskVerificationCode,
+    toStoredVerificationCode,
+    verificationHashesMatch,
+    verifyMosqueCode,
+    isVerificationCodeExpired
+};
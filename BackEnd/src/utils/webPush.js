@@ -0,0 +1,234 @@
+// Web Push - VAPID authentication (RFC 8292) and aes128gcm payload encryption (RFC 8291)
+import crypto from 'crypto';
+
+// Browsers keep undelivered messages at most this long; a reminder is useless after its jamaat anyway
+const MAX_TTL_SECONDS = 24 * 60 * 60;
+
+// The VAPID token is valid for 12 hours; push services reject anything over 24
+const VAPID_TOKEN_SECONDS = 12 * 60 * 60;
+
+// Single record: the whole payload has to fit in one 4096 byte record
+const RECORD_SIZE = 4096;
+const MAX_PAYLOAD_BYTES = 3000;
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+// Subscriptions come from anonymous browsers, so only endpoints on the push services browsers
+// actually use are accepted - the server must never be made to post to internal or arbitrary hosts
+const PUSH_SERVICE_HOSTS = [
+    'fcm.googleapis.com', // Chrome, Opera, Samsung Internet
+    'android.googleapis.com' // Older Chrome subscriptions
+];
+const PUSH_SERVICE_HOST_SUFFIXES = [
+    '.push.services.mozilla.com', // Firefox
+    '.push.apple.com', // Safari
+    '.notify.windows.com' // Edge
+];
+
+const base64UrlDecode = (value) => Buffer.from(String(value).replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+const base64UrlEncode = (buffer) => Buffer.from(buffer).toString('base64url');
+
+const getVapidKeys = () => ({
+    publicKey: process.env.VAPID_PUBLIC_KEY || null,
+    privateKey: process.env.VAPID_PRIVATE_KEY || null,
+    subject: process.env.VAPID_SUBJECT || `mailto:${process.env.MAIL_FROM || process.env.GMAIL_USER || 'admin@localhost'}`
+});
+
+/**
+ * Whether VAPID keys are set, so subscriptions can be accepted
+ * @returns {boolean}
+ */
+const isPushConfigured = () => {
+    const { publicKey, privateKey } = getVapidKeys();
+    return !!(publicKey && privateKey);
+};
+
+/**
+ * Public key browsers subscribe with (applicationServerKey)
+ * @returns {string|null} - Base64url uncompressed P-256 point
+ */
+const getVapidPublicKey = () => getVapidKeys().publicKey;
+
+/**
+ * New VAPID key pair, for scripts/generateVapidKeys.js
+ * @returns {{publicKey: string, privateKey: string}}
+ */
+const generateVapidKeys = () => {
+    const { privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+    const { x, y, d } = privateKey.export({ format: 'jwk' });
+    return {
+        publicKey: base64UrlEncode(Buffer.concat([Buffer.from([4]), base64UrlDecode(x), base64UrlDecode(y)])),
+        privateKey: d
+    };
+};
+
+/**
+ * Whether an endpoint is on a known push service, over https on the default port
+ * @param {string} endpoint
+ * @returns {boolean}
+ */
+const isPushServiceEndpoint = (endpoint) => {
+    let url;
+    try {
+        url = new URL(endpoint);
+    } catch {
+        return false;
+    }
+    if (url.protocol !== 'https:' || url.port || url.username || url.password) return false;
+
+    const host = url.hostname.toLowerCase();
+    return PUSH_SERVICE_HOSTS.includes(host) || PUSH_SERVICE_HOST_SUFFIXES.some(suffix => host.endsWith(suffix));
+};
+
+/**
+ * Check the shape of a PushSubscription sent by a browser
+ * @param {Object} subscription - { endpoint, keys: { p256dh, auth } }
+ * @returns {{valid: boolean, error: string|null}}
+ */
+const validateSubscription = (subscription) => {
+    let endpoint;
+    try {
+        endpoint = new URL(subscription?.endpoint);
+    } catch {
+        return { valid: false, error: 'Subscription endpoint must be a URL' };
+    }
+    if (endpoint.protocol !== 'https:') {
+        return { valid: false, error: 'Subscription endpoint must use https' };
+    }
+    if (!isPushServiceEndpoint(subscription.endpoint)) {
+        return { valid: false, error: 'Subscription endpoint is not a supported push service' };
+    }
+    if (base64UrlDecode(subscription.keys?.p256dh || '').length !== 65) {
+        return { valid: false, error: 'Subscription p256dh key is invalid' };
+    }
+    if (base64UrlDecode(subscription.keys?.auth || '').length !== 16) {
+        return { valid: false, error: 'Subscription auth secret is invalid' };
+    }
+    return { valid: true, error: null };
+};
+
+// Signed JWT identifying this server to the push service of the endpoint
+const buildVapidHeader = (endpoint) => {
+    const { publicKey, privateKey, subject } = getVapidKeys();
+    const point = base64UrlDecode(publicKey);
+    const key = crypto.createPrivateKey({
+        key: {
+            kty: 'EC',
+            crv: 'P-256',
+            d: privateKey,
+            x: base64UrlEncode(point.subarray(1, 33)),
+            y: base64UrlEncode(point.subarray(33, 65))
+        },
+        format: 'jwk'
+    });
+
+    const header = base64UrlEncode(JSON.stringify({ typ: 'JWT', alg: 'ES256' }));
+    const claims = base64UrlEncode(JSON.stringify({
+        aud: new URL(endpoint).origin,
+        exp: Math.floor(Date.now() / 1000) + VAPID_TOKEN_SECONDS,
+        sub: subject
+    }));
+    const signature = crypto.sign('sha256', Buffer.from(`${header}.${claims}`), { key, dsaEncoding: 'ieee-p1363' });
+
+    return `vapid t=${header}.${claims}.${base64UrlEncode(signature)}, k=${publicKey}`;
+};
+
+// Encrypt a payload for one subscription (RFC 8291 section 3.4)
+const encryptPayload = (subscription, payload) => {
+    const clientPublicKey = base64UrlDecode(subscription.keys.p256dh);
+    const authSecret = base64UrlDecode(subscription.keys.auth);
+
+    const ecdh = crypto.createECDH('prime256v1');
+    const serverPublicKey = ecdh.generateKeys();
+    const sharedSecret = ecdh.computeSecret(clientPublicKey);
+
+    const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), clientPublicKey, serverPublicKey]);
+    const ikm = Buffer.from(crypto.hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+
+    const salt = crypto.randomBytes(16);
+    const contentKey = Buffer.from(crypto.hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+    const nonce = Buffer.from(crypto.hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+    // 0x02 marks the last (and only) record
+    const cipher = crypto.createCipheriv('aes-128-gcm', contentKey, nonce);
+    const encrypted = Buffer.concat([cipher.update(Buffer.concat([payload, Buffer.from([2])])), cipher.final(), cipher.getAuthTag()]);
+
+    const header = Buffer.alloc(21);
+    salt.copy(header, 0);
+    header.writeUInt32BE(RECORD_SIZE, 16);
+    header.writeUInt8(serverPublicKey.length, 20);
+
+    return Buffer.concat([header, serverPublicKey, encrypted]);
+};
+
+/**
+ * Send a push message to one subscription
+ * @param {Object} subscription - { endpoint, keys: { p256dh, auth } }
+ * @param {Object} data - JSON payload for the service worker
+ * @param {Object} [options]
+ * @param {number} [options.ttl] - Seconds the push service may hold the message for an offline device
+ * @param {'very-low'|'low'|'normal'|'high'} [options.urgency]
+ * @param {string} [options.topic] - A newer message with the same topic replaces an undelivered one
+ * @returns {Promise<{statusCode: number}>}
+ * @throws {Error} - With statusCode set when the push service refused the message, or unsupportedEndpoint
+ *   when the endpoint is not on a known push service; see isSubscriptionGone()
+ */
+const sendPush = async (subscription, data, { ttl = MAX_TTL_SECONDS, urgency = 'normal', topic = null } = {}) => {
+    if (!isPushConfigured()) {
+        throw new Error('VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY must be set to send push messages');
+    }
+
+    // Also checked here for subscriptions stored before endpoints were restricted
+    if (!isPushServiceEndpoint(subscription.endpoint)) {
+        const error = new Error('Subscription endpoint is not a supported push service');
+        error.unsupportedEndpoint = true;
+        throw error;
+    }
+
+    const payload = Buffer.from(JSON.stringify(data));
+    if (payload.length > MAX_PAYLOAD_BYTES) {
+        throw new Error(`Push payload is ${payload.length} bytes; the limit is ${MAX_PAYLOAD_BYTES}`);
+    }
+
+    const headers = {
+        Authorization: buildVapidHeader(subscription.endpoint),
+        'Content-Type': 'application/octet-stream',
+        'Content-Encoding': 'aes128gcm',
+        TTL: String(Math.max(0, Math.min(Math.floor(ttl), MAX_TTL_SECONDS))),
+        Urgency: urgency
+    };
+    if (topic) headers.Topic = topic;
+
+    const response = await fetch(subscription.endpoint, {
+        method: 'POST',
+        headers,
+        body: encryptPayload(subscription, payload),
+        redirect: 'error',
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+        const detail = (await response.text().catch(() => '')).slice(0, 200);
+        const error = new Error(`Push service responded ${response.status}${detail ? `: ${detail}` : ''}`);
+        error.statusCode = response.status;
+        throw error;
+    }
+    return { statusCode: response.status };
+};
+
+/**
+ * Whether a sendPush() error means the subscription should be deleted: the browser unsubscribed,
+ * or the endpoint can never be sent to
+ * @param {Error} error
+ * @returns {boolean}
+ */
+const isSubscriptionGone = (error) => error?.statusCode === 404 || error?.statusCode === 410 || !!error?.unsupportedEndpoint;
+
+export {
+    isPushConfigured,
+    getVapidPublicKey,
+    generateVapidKeys,
+    validateSubscription,
+    sendPush,
+    isSubscriptionGone
+};
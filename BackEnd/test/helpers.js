@@ -0,0 +1,171 @@
+// Shared test helpers - mocked Mongoose queries, in-memory sessions and outbox, and a throwaway HTTP server for routers
+import express from 'express';
+import cookieParser from 'cookie-parser';
+import Session from '../src/models/Session.js';
+
+/**
+ * Stand-in for a Mongoose query: chain methods return the query itself and awaiting it gives `value`
+ * @param {*} value - Result of the query
+ * @returns {Object}
+ */
+const mockQuery = (value) => {
+    const query = {
+        then: (resolve, reject) => Promise.resolve(value).then(resolve, reject),
+        exec: () => Promise.resolve(value),
+        lean: () => query
+    };
+    for (const method of ['select', 'sort', 'skip', 'limit', 'populate']) {
+        query[method] = () => query;
+    }
+    return query;
+};
+
+/**
+ * Serve a router on a random local port
+ * @param {string} basePath - Mount path, e.g. '/api/mosques'
+ * @param {Function} router
+ * @returns {Promise<{url: string, close: Function}>}
+ */
+const startServer = async (basePath, router) => {
+    const app = express();
+    app.set('trust proxy', 1);
+    app.use(express.json());
+    app.use(cookieParser());
+    app.use(basePath, router);
+
+    const server = await new Promise((resolve) => {
+        const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+    });
+    return {
+        url: `http://127.0.0.1:${server.address().port}${basePath}`,
+        close: () => new Promise(resolve => server.close(resolve))
+    };
+};
+
+/**
+ * In-memory sessions covering the queries and update operators sessions.js uses
+ * @returns {Object} - `sessions` plus stand-ins for the Session model methods
+ */
+const createSessionStore = () => {
+    const sessions = [];
+
+    const matches = (session, filter) => Object.entries(filter).every(([field, condition]) => {
+        const value = session[field];
+        if (condition?.$gt) return value > condition.$gt;
+        if (condition?.$ne) return String(value) !== String(condition.$ne);
+        if (Array.isArray(value)) return value.includes(condition);
+        if (field === '_id' || field === 'user_id') return String(value) === String(condition);
+        return value === condition;
+    });
+
+    const apply = (session, { $set = {}, $push = {} }) => {
+        Object.assign(session, $set);
+        for (const [field, { $each, $slice }] of Object.entries($push)) {
+            session[field] = [...session[field], ...$each].slice($slice);
+        }
+    };
+
+    const find = (filter) => sessions.find(session => matches(session, filter));
+
+    return {
+        sessions,
+        async create(data) {
+            const session = new Session(data).toObject();
+            sessions.push(session);
+            return { ...session };
+        },
+        find(filter) {
+            return mockQuery(sessions.filter(session => matches(session, filter)));
+        },
+        async findOneAndUpdate(filter, update, options = {}) {
+            const session = find(filter);
+            if (!session) return null;
+            const before = { ...session };
+            apply(session, update);
+            return options.new ? { ...session } : before;
+        },
+        async updateOne(filter, update) {
+            const session = find(filter);
+            if (session) apply(session, update);
+            return { modifiedCount: session ? 1 : 0 };
+        },
+        async exists(filter) {
+            const session = find(filter);
+            return session ? { _id: session._id } : null;
+        }
+    };
+};
+
+/**
+ * In-memory notification outbox covering the queries notifications.js uses. Entries are handed out
+ * as documents, and saving one writes it back to the store.
+ * @param {Model} NotificationOutbox - Passed in because importing it loads the mail service, which reads SMTP settings once
+ * @returns {Object} - `entries` plus stand-ins for the NotificationOutbox model methods
+ */
+const createOutboxStore = (NotificationOutbox) => {
+    const entries = new Map();
+
+    const matches = (entry, filter) => Object.entries(filter).every(([field, condition]) => {
+        if (field === '$or') return condition.some(option => matches(entry, option));
+        if (field === '_id') return String(entry._id) === String(condition);
+        if (condition?.$lte) return entry[field] !== null && entry[field] <= condition.$lte;
+        return entry[field] === condition;
+    });
+
+    const toDocument = (entry) => NotificationOutbox.hydrate({
+        ...entry,
+        delivery_log: entry.delivery_log.map(log => ({ ...log }))
+    });
+
+    const find = (filter) => [...entries.values()].filter(entry => matches(entry, filter));
+
+    return {
+        entries,
+        // Bind to NotificationOutbox.prototype.save
+        async save() {
+            entries.set(String(this._id), this.toObject());
+            return this;
+        },
+        async create(data) {
+            const entry = new NotificationOutbox(data);
+            entries.set(String(entry._id), entry.toObject());
+            return toDocument(entries.get(String(entry._id)));
+        },
+        find(filter) {
+            const due = find(filter).sort((a, b) => a.next_attempt_at - b.next_attempt_at);
+            return mockQuery(due.map(entry => ({ _id: entry._id })));
+        },
+        async findById(id) {
+            const entry = entries.get(String(id));
+            return entry ? toDocument(entry) : null;
+        },
+        async findOneAndUpdate(filter, { $set = {}, $inc = {} }) {
+            const [entry] = find(filter);
+            if (!entry) return null;
+            Object.assign(entry, $set);
+            for (const [field, amount] of Object.entries($inc)) entry[field] += amount;
+            return toDocument(entry);
+        }
+    };
+};
+
+/**
+ * Every key in a JSON value, at any depth
+ * @param {*} value
+ * @returns {string[]}
+ */
+const collectKeys = (value) => {
+    if (Array.isArray(value)) return value.flatMap(collectKeys);
+    if (value && typeof value === 'object') {
+        return Object.entries(value).flatMap(([key, child]) => [key, ...collectKeys(child)]);
+    }
+    return [];
+};
+
+export {
+    mockQuery,
+    startServer,
+    createSessionStore,
+    createOutboxStore,
+    collectKeys
+};
@@ -0,0 +1,130 @@
+// Verification codes must never leak into public mosque responses
+import { describe, it, before, after, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import Mosque from '../src/models/Mosque.js';
+import mosqueRoutes from '../src/routes/mosque.js';
+import { MOSQUE_VIEWS, getVisibleFields, serializeMosque } from '../src/utils/mosqueSerializer.js';
+import { toStoredVerificationCode } from '../src/utils/verificationCode.js';
+import { mockQuery, startServer, collectKeys } from './helpers.js';
+
+const CODE = 'A1B2C3D4E5F6A7B8';
+
+const buildMosque = () => new Mosque({
+    name: 'Masjid Al-Noor',
+    location: 'Main Boulevard, Lahore',
+    contact_email: 'info@alnoor.example',
+    contact_phone: '03001234567',
+    ...toStoredVerificationCode(CODE),
+    verification_code_expires: new Date('2030-01-01T00:00:00Z')
+});
+
+// Neither the code, its hash nor its display prefix may appear anywhere in a public body
+const assertNoCodeData = (body, mosque) => {
+    const keys = collectKeys(body);
+    assert.deepEqual(keys.filter(key => key.startsWith('verification_code')), []);
+
+    const text = JSON.stringify(body);
+    assert.ok(!text.includes(CODE), 'plaintext code leaked');
+    assert.ok(!text.includes(mosque.verification_code_hash), 'code hash leaked');
+    assert.ok(!text.includes(`"${mosque.verification_code_prefix}`), 'code prefix leaked');
+};
+
+describe('serializeMosque', () => {
+    it('leaves every verification code field out of the public view', () => {
+        const mosque = buildMosque();
+        const result = serializeMosque(mosque, 'public');
+
+        assert.deepEqual(Object.keys(result).filter(key => key.startsWith('verification_code')), []);
+        assertNoCodeData(result, mosque);
+    });
+
+    it('defaults to the public view', () => {
+        assert.deepEqual(Object.keys(serializeMosque(buildMosque())), getVisibleFields('public'));
+    });
+
+    it('gives admins the code prefix and expiry but never the hash', () => {
+        const mosque = buildMosque();
+        const result = serializeMosque(mosque, 'admin');
+
+        assert.equal(result.verification_code_prefix, 'A1B2');
+        assert.ok(result.verification_code_expires instanceof Date);
+        assert.ok(!JSON.stringify(result).includes(mosque.verification_code_hash));
+    });
+
+    it('rejects unknown views', () => {
+        assert.throws(() => serializeMosque(buildMosque(), 'owner'), /Unknown mosque view/);
+    });
+});
+
+describe('getVisibleFields', () => {
+    it('keeps the views cumulative', () => {
+        const [publicFields, adminFields, superAdminFields] = MOSQUE_VIEWS.map(getVisibleFields);
+
+        for (const field of publicFields) assert.ok(adminFields.includes(field), `admin view is missing ${field}`);
+        for (const field of adminFields) assert.ok(superAdminFields.includes(field), `super admin view is missing ${field}`);
+        assert.ok(adminFields.length > publicFields.length);
+        assert.ok(superAdminFields.length > adminFields.length);
+    });
+
+    it('never exposes the stored hash, even to super admins', () => {
+        for (const view of MOSQUE_VIEWS) {
+            assert.ok(!getVisibleFields(view).includes('verification_code_hash'));
+        }
+    });
+});
+
+describe('public mosque routes', () => {
+    let server;
+
+    before(async () => {
+        server = await startServer('/api/mosques', mosqueRoutes);
+    });
+
+    after(() => server.close());
+
+    afterEach(() => mock.restoreAll());
+
+    it('GET /api/mosques/:id carries no code data', async () => {
+        const mosque = buildMosque();
+        mock.method(Mosque, 'findById', () => mockQuery(mosque));
+
+        const response = await fetch(`${server.url}/${mosque._id}`);
+        const body = await response.json();
+
+        assert.equal(response.status, 200);
+        assert.equal(body.mosque.name, 'Masjid Al-Noor');
+        assertNoCodeData(body, mosque);
+    });
+
+    it('GET /api/mosques carries no code data', async () => {
+        const mosque = buildMosque();
+        mock.method(Mosque, 'find', () => mockQuery([mosque]));
+        mock.method(Mosque, 'countDocuments', async () => 1);
+        mock.method(Mosque, 'aggregate', async () => [{ provinces: [], cities: [] }]);
+
+        const response = await fetch(server.url);
+        const body = await response.json();
+
+        assert.equal(response.status, 200);
+        assert.equal(body.mosques.length, 1);
+        assertNoCodeData(body, mosque);
+    });
+
+    it('GET /api/mosques?near= carries no code data', async () => {
+        const mosque = buildMosque();
+        const stored = { ...mosque.toObject(), distance: 1200 };
+        mock.method(Mosque, 'aggregate', async () => [{
+            mosques: [stored],
+            total: [{ count: 1 }],
+            provinces: [],
+            cities: []
+        }]);
+
+        const response = await fetch(`${server.url}?near=31.5204,74.3587`);
+        const body = await response.json();
+
+        assert.equal(response.status, 200);
+        assert.equal(body.mosques[0].distance_km, 1.2);
+        assertNoCodeData(body, mosque);
+    });
+});
@@ -0,0 +1,237 @@
+// Notification retries - exponential backoff, the dead letter state and the delivery log
+import { describe, it, before, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import nodemailer from 'nodemailer';
+import mongoose from 'mongoose';
+import { createOutboxStore } from './helpers.js';
+
+const MINUTE = 60 * 1000;
+// Ahead of the real clock: schema defaults call the real Date.now, and those must already be due
+const START = new Date('2030-03-01T08:00:00Z').getTime();
+
+// Transport that rejects the first `failures` messages and accepts the rest
+const createStubTransport = () => ({
+    failures: 0,
+    sent: [],
+    async sendMail(message) {
+        if (this.failures > 0) {
+            this.failures--;
+            throw new Error('421 4.7.0 Try again later');
+        }
+        this.sent.push(message);
+        return { messageId: `<${this.sent.length}@stub>` };
+    },
+    async verify() {
+        return true;
+    }
+});
+
+describe('notification retries', () => {
+    const transport = createStubTransport();
+
+    let store;
+    let NotificationOutbox;
+    let notifications;
+
+    before(async () => {
+        // The mail service creates its transport when it is first imported
+        mock.method(nodemailer, 'createTransport', () => transport);
+        ({ default: NotificationOutbox } = await import('../src/models/NotificationOutbox.js'));
+        notifications = await import('../src/utils/notifications.js');
+    });
+
+    beforeEach(() => {
+        mock.timers.enable({ apis: ['Date'], now: START });
+        transport.failures = 0;
+        transport.sent = [];
+
+        store = createOutboxStore(NotificationOutbox);
+        for (const method of ['create', 'find', 'findById', 'findOneAndUpdate']) {
+            mock.method(NotificationOutbox, method, store[method]);
+        }
+        mock.method(NotificationOutbox.prototype, 'save', store.save);
+        mock.method(console, 'log', () => {});
+        mock.method(console, 'error', () => {});
+    });
+
+    afterEach(() => {
+        mock.timers.reset();
+        mock.restoreAll();
+    });
+
+    const queue = (email = {}) => notifications.queueEmail({
+        event: 'admin_approved',
+        to: 'admin@example.com',
+        subject: 'Approved',
+        html: '<p>Approved</p>',
+        text: 'Approved',
+        adminId: new mongoose.Types.ObjectId(),
+        ...email
+    });
+
+    const storedEntry = (id) => store.entries.get(String(id));
+
+    const runWorker = () => notifications.processDueNotifications({ limit: 10, trigger: 'worker' });
+
+    // Move the clock to the entry's next attempt and let the worker run
+    const retryWhenDue = async (id) => {
+        mock.timers.setTime(storedEntry(id).next_attempt_at.getTime());
+        return runWorker();
+    };
+
+    describe('getRetryDelay', () => {
+        it('doubles from 1 minute', () => {
+            assert.deepEqual(
+                [1, 2, 3, 4, 5, 6, 7].map(notifications.getRetryDelay),
+                [1, 2, 4, 8, 16, 32, 64].map(minutes => minutes * MINUTE)
+            );
+        });
+
+        it('is capped at 6 hours', () => {
+            assert.equal(notifications.getRetryDelay(9), 256 * MINUTE);
+            assert.equal(notifications.getRetryDelay(10), 6 * 60 * MINUTE);
+            assert.equal(notifications.getRetryDelay(30), 6 * 60 * MINUTE);
+        });
+    });
+
+    it('schedules a retry when the first attempt fails', async () => {
+        transport.failures = 1;
+        const entry = await queue();
+
+        assert.equal(entry.status, 'pending');
+        const stored = storedEntry(entry._id);
+        assert.equal(stored.attempts, 1);
+        assert.equal(stored.last_error, '421 4.7.0 Try again later');
+        assert.equal(stored.next_attempt_at.getTime(), START + MINUTE);
+
+        // Not due yet
+        mock.timers.tick(MINUTE - 1000);
+        assert.equal((await runWorker()).processed, 0);
+        assert.equal(transport.sent.length, 0);
+    });
+
+    it('backs off exponentially until the email gets through', async () => {
+        transport.failures = 3;
+        const entry = await queue();
+
+        const attemptTimes = [START];
+        const results = [];
+        for (let i = 0; i < 3; i++) {
+            attemptTimes.push(storedEntry(entry._id).next_attempt_at.getTime());
+            results.push(await retryWhenDue(entry._id));
+        }
+
+        assert.deepEqual(
+            attemptTimes.slice(1).map((time, i) => (time - attemptTimes[i]) / MINUTE),
+            [1, 2, 4]
+        );
+        assert.deepEqual(results.map(({ sent, failed }) => ({ sent, failed })), [
+            { sent: 0, failed: 1 },
+            { sent: 0, failed: 1 },
+            { sent: 1, failed: 0 }
+        ]);
+
+        const stored = storedEntry(entry._id);
+        assert.equal(stored.status, 'sent');
+        assert.equal(stored.attempts, 4);
+        assert.equal(stored.last_error, null);
+        assert.equal(stored.message_id, '<1@stub>');
+        assert.equal(transport.sent.length, 1);
+    });
+
+    it('records every attempt in the delivery log', async () => {
+        transport.failures = 2;
+        const entry = await queue();
+        await retryWhenDue(entry._id);
+        await retryWhenDue(entry._id);
+
+        const log = storedEntry(entry._id).delivery_log;
+        assert.deepEqual(
+            log.map(({ attempt, trigger, outcome }) => ({ attempt, trigger, outcome })),
+            [
+                { attempt: 1, trigger: 'inline', outcome: 'failed' },
+                { attempt: 2, trigger: 'worker', outcome: 'failed' },
+                { attempt: 3, trigger: 'worker', outcome: 'sent' }
+            ]
+        );
+        assert.equal(log[0].error, '421 4.7.0 Try again later');
+        assert.equal(log[0].at.getTime(), START);
+        assert.equal(log[1].at.getTime(), START + MINUTE);
+        assert.equal(log[2].message_id, '<1@stub>');
+    });
+
+    it('moves the email to the dead letter state after the last attempt', async () => {
+        transport.failures = Infinity;
+        const entry = await queue({ containsSecret: true });
+
+        for (let attempt = 2; attempt <= notifications.MAX_ATTEMPTS; attempt++) {
+            assert.equal(storedEntry(entry._id).status, 'pending', `gave up before attempt ${attempt}`);
+            await retryWhenDue(entry._id);
+        }
+
+        const stored = storedEntry(entry._id);
+        assert.equal(stored.status, 'dead_letter');
+        assert.equal(stored.attempts, notifications.MAX_ATTEMPTS);
+        assert.equal(stored.dead_lettered_at.getTime(), START + 127 * MINUTE);
+        assert.equal(stored.last_error, '421 4.7.0 Try again later');
+        assert.equal(stored.delivery_log.length, notifications.MAX_ATTEMPTS);
+        assert.ok(stored.delivery_log.every(({ outcome }) => outcome === 'failed'));
+
+        // The code in it is not kept once it is abandoned
+        assert.equal(stored.html, null);
+        assert.ok(stored.body_removed_at instanceof Date);
+
+        // Dead letters are never picked up again
+        mock.timers.tick(24 * 60 * MINUTE);
+        assert.equal((await runWorker()).processed, 0);
+    });
+
+    it('gives up without an attempt once the email has expired', async () => {
+        transport.failures = 1;
+        const entry = await queue({ expiresAt: new Date(START + 30 * 1000), containsSecret: true });
+
+        await retryWhenDue(entry._id);
+
+        const stored = storedEntry(entry._id);
+        assert.equal(stored.status, 'dead_letter');
+        assert.equal(stored.attempts, 1);
+        assert.equal(stored.last_error, 'Expired before it could be delivered');
+        assert.deepEqual(stored.delivery_log.map(({ outcome }) => outcome), ['failed', 'expired']);
+        assert.equal(stored.text, null);
+        assert.equal(transport.sent.length, 0);
+    });
+
+    it('picks up an attempt that was cut off while sending', async () => {
+        const entry = await queue({ sendNow: false });
+        Object.assign(storedEntry(entry._id), { status: 'sending', attempts: 1, last_attempt_at: new Date(START) });
+
+        mock.timers.tick(9 * MINUTE);
+        assert.equal((await runWorker()).processed, 0);
+
+        mock.timers.tick(MINUTE);
+        assert.equal((await runWorker()).sent, 1);
+        assert.equal(storedEntry(entry._id).attempts, 2);
+    });
+
+    it('gives a dead letter a fresh set of attempts when resent', async () => {
+        transport.failures = notifications.MAX_ATTEMPTS;
+        const entry = await queue();
+        for (let attempt = 2; attempt <= notifications.MAX_ATTEMPTS; attempt++) {
+            await retryWhenDue(entry._id);
+        }
+        assert.equal(storedEntry(entry._id).status, 'dead_letter');
+
+        const superAdminId = new mongoose.Types.ObjectId();
+        const resent = await notifications.resendNotification(await NotificationOutbox.findById(entry._id), superAdminId);
+
+        assert.equal(resent.status, 'sent');
+        const stored = storedEntry(entry._id);
+        assert.equal(stored.max_attempts, 2 * notifications.MAX_ATTEMPTS);
+        assert.equal(stored.dead_lettered_at, null);
+        assert.deepEqual(
+            stored.delivery_log.slice(-2).map(({ trigger, outcome }) => ({ trigger, outcome })),
+            [{ trigger: 'resend', outcome: 'requeued' }, { trigger: 'resend', outcome: 'sent' }]
+        );
+        assert.equal(String(stored.delivery_log.at(-2).requested_by), String(superAdminId));
+    });
+});
@@ -0,0 +1,308 @@
+// Notification outbox end to end - queued, delivered to the local SMTP stand-in, rendered per locale
+import { describe, it, before, after, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn } from 'child_process';
+import net from 'net';
+import os from 'os';
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import mongoose from 'mongoose';
+import { createOutboxStore } from './helpers.js';
+
+const SMTP_SCRIPT = fileURLToPath(new URL('../scripts/localSmtpServer.js', import.meta.url));
+
+const CODE = '482913';
+
+const findFreePort = () => new Promise((resolve) => {
+    const probe = net.createServer().listen(0, '127.0.0.1', () => {
+        const { port } = probe.address();
+        probe.close(() => resolve(port));
+    });
+});
+
+// Start scripts/localSmtpServer.js and wait until it accepts connections
+const startSmtpServer = async (port, mailDir) => {
+    const child = spawn(process.execPath, [SMTP_SCRIPT], {
+        env: { ...process.env, SMTP_PORT: String(port), LOCAL_MAIL_DIR: mailDir, LOCAL_SMTP_FAIL: 'false' },
+        stdio: ['ignore', 'pipe', 'inherit']
+    });
+    await new Promise((resolve, reject) => {
+        child.once('exit', code => reject(new Error(`Local SMTP server exited with code ${code}`)));
+        child.stdout.on('data', (chunk) => {
+            if (chunk.toString().includes('listening')) resolve();
+        });
+    });
+    return child;
+};
+
+const decodeQuotedPrintable = (input) => {
+    const text = input.replace(/=\r?\n/g, '');
+    const bytes = [];
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '=' && /^[0-9A-F]{2}$/i.test(text.slice(i + 1, i + 3))) {
+            bytes.push(parseInt(text.slice(i + 1, i + 3), 16));
+            i += 2;
+        } else {
+            bytes.push(...Buffer.from(text[i]));
+        }
+    }
+    return Buffer.from(bytes).toString('utf8');
+};
+
+// RFC 2047 encoded words, as nodemailer writes non-ASCII subjects
+const decodeHeader = (value) => value.replace(/=\?UTF-8\?([BQ])\?([^?]*)\?=\s*/gi, (_, encoding, data) => (
+    encoding.toUpperCase() === 'B'
+        ? Buffer.from(data, 'base64').toString('utf8')
+        : decodeQuotedPrintable(data.replace(/_/g, ' '))
+));
+
+const splitHeaders = (raw) => {
+    const index = raw.indexOf('\r\n\r\n');
+    const headers = {};
+    for (const line of raw.slice(0, index).replace(/\r\n[ \t]+/g, ' ').split('\r\n')) {
+        const colon = line.indexOf(':');
+        headers[line.slice(0, colon).toLowerCase()] = line.slice(colon + 1).trim();
+    }
+    return { headers, body: raw.slice(index + 4) };
+};
+
+const decodeBody = (body, encoding = '') => {
+    if (/base64/i.test(encoding)) return Buffer.from(body.replace(/\s+/g, ''), 'base64').toString('utf8');
+    if (/quoted-printable/i.test(encoding)) return decodeQuotedPrintable(body);
+    return body;
+};
+
+// Subject, recipient and the decoded text and HTML parts of a saved .eml file
+const parseMessage = (raw) => {
+    const { headers, body } = splitHeaders(raw);
+    const message = { to: headers.to, subject: decodeHeader(headers.subject || ''), text: null, html: null };
+
+    const boundary = headers['content-type'].match(/boundary="?([^";]+)"?/)?.[1];
+    const parts = boundary
+        ? body.split(`--${boundary}`).slice(1, -1).map(part => splitHeaders(part.replace(/^\r\n/, '')))
+        : [{ headers, body }];
+    for (const part of parts) {
+        const decoded = decodeBody(part.body, part.headers['content-transfer-encoding']);
+        if (part.headers['content-type'].startsWith('text/plain')) message.text = decoded;
+        if (part.headers['content-type'].startsWith('text/html')) message.html = decoded;
+    }
+    return message;
+};
+
+describe('notification outbox', () => {
+    let mailDir;
+    let smtpServer;
+    let store;
+    let NotificationOutbox;
+    let notifications;
+    let templates;
+    let mailService;
+
+    before(async () => {
+        mailDir = await fs.mkdtemp(path.join(os.tmpdir(), 'outbox-mail-'));
+        const port = await findFreePort();
+        smtpServer = await startSmtpServer(port, mailDir);
+
+        // The mail service picks its transport when it is first imported
+        process.env.SMTP_HOST = '127.0.0.1';
+        process.env.SMTP_PORT = String(port);
+        process.env.MAIL_FROM = 'noreply@mosque.example';
+        ({ default: NotificationOutbox } = await import('../src/models/NotificationOutbox.js'));
+        notifications = await import('../src/utils/notifications.js');
+        templates = await import('../services/notificationTemplates.js');
+        mailService = await import('../services/mailService.js');
+    });
+
+    after(async () => {
+        const exited = new Promise(resolve => smtpServer.once('exit', resolve));
+        smtpServer.kill();
+        await exited;
+        await fs.rm(mailDir, { recursive: true, force: true });
+    });
+
+    beforeEach(async () => {
+        await fs.rm(mailDir, { recursive: true, force: true });
+
+        store = createOutboxStore(NotificationOutbox);
+        for (const method of ['create', 'find', 'findById', 'findOneAndUpdate']) {
+            mock.method(NotificationOutbox, method, store[method]);
+        }
+        mock.method(NotificationOutbox.prototype, 'save', store.save);
+        mock.method(console, 'log', () => {});
+    });
+
+    afterEach(() => mock.restoreAll());
+
+    // Everything the stand-in received, oldest first
+    const receivedMessages = async () => {
+        const files = (await fs.readdir(mailDir).catch(() => [])).sort((a, b) => parseInt(a) - parseInt(b));
+        return Promise.all(files.map(async file => parseMessage(await fs.readFile(path.join(mailDir, file), 'utf8'))));
+    };
+
+    const storedEntry = (id) => store.entries.get(String(id));
+
+    const buildAdmin = (preferredLanguage) => ({
+        _id: new mongoose.Types.ObjectId(),
+        name: 'Yusuf Khan',
+        email: `yusuf.${preferredLanguage}@example.com`,
+        preferred_language: preferredLanguage
+    });
+
+    it('stores an email before anything is sent', async () => {
+        const entry = await notifications.queueEmail({
+            event: 'admin_approved',
+            to: 'queued@example.com',
+            subject: 'Queued',
+            html: '<p>Queued</p>',
+            text: 'Queued',
+            sendNow: false
+        });
+
+        const stored = storedEntry(entry._id);
+        assert.equal(stored.status, 'pending');
+        assert.equal(stored.attempts, 0);
+        assert.equal(stored.max_attempts, notifications.MAX_ATTEMPTS);
+        assert.deepEqual(await receivedMessages(), []);
+    });
+
+    it('delivers a queued email to the mail server', async () => {
+        const entry = await notifications.queueEmail({
+            event: 'admin_approved',
+            to: 'queued@example.com',
+            subject: 'Queued',
+            html: '<p>Queued body</p>',
+            text: 'Queued body',
+            sendNow: false
+        });
+
+        const delivered = await notifications.deliverNotification(entry._id, 'worker');
+        assert.equal(delivered.status, 'sent');
+
+        const stored = storedEntry(entry._id);
+        assert.equal(stored.status, 'sent');
+        assert.equal(stored.attempts, 1);
+        assert.ok(stored.sent_at instanceof Date);
+        assert.ok(stored.message_id);
+        assert.deepEqual(
+            stored.delivery_log.map(({ attempt, trigger, outcome }) => ({ attempt, trigger, outcome })),
+            [{ attempt: 1, trigger: 'worker', outcome: 'sent' }]
+        );
+
+        const [message] = await receivedMessages();
+        assert.equal(message.to, 'queued@example.com');
+        assert.equal(message.subject, 'Queued');
+        assert.equal(message.text.trim(), 'Queued body');
+        assert.equal(message.html.trim(), '<p>Queued body</p>');
+
+        // Already sent, so a second attempt does nothing
+        assert.equal(await notifications.deliverNotification(entry._id, 'worker'), null);
+        assert.equal((await receivedMessages()).length, 1);
+    });
+
+    it('sends in each admin\'s language', async () => {
+        for (const locale of templates.NOTIFICATION_LOCALES) {
+            const admin = buildAdmin(locale);
+            const data = { mosque_name: 'Masjid Al-Noor' };
+            const expected = templates.renderNotification(
+                'admin_approved',
+                locale,
+                { name: admin.name, ...data },
+                (appPath) => `http://frontend.example${appPath}`
+            );
+
+            const entry = await notifications.notifyAdmin('admin_approved', admin, data);
+            assert.equal(entry.status, 'sent', `${locale} email was not sent`);
+            assert.equal(entry.locale, locale);
+
+            const message = (await receivedMessages()).find(received => received.to === admin.email);
+            assert.equal(message.subject, expected.subject);
+            assert.ok(message.text.includes('Masjid Al-Noor'));
+            assert.ok(message.text.includes(admin.name));
+            assert.ok(message.html.includes(locale === 'ur' ? 'dir="rtl"' : 'dir="ltr"'));
+        }
+    });
+
+    it('has a translation of every notification for every language', () => {
+        const data = {
+            name: 'Yusuf Khan',
+            mosque_name: 'Masjid Al-Noor',
+            reason: 'Incomplete documents',
+            message: 'Please upload a utility bill',
+            inviter_name: 'Imam Ahmed',
+            role_label: 'Editor',
+            invitation_path: '/admin/invite/abc',
+            expires_at: new Date()
+        };
+        for (const event of templates.NOTIFICATION_EVENTS) {
+            const subjects = templates.NOTIFICATION_LOCALES.map((locale) => {
+                const rendered = templates.renderNotification(event, locale, data, appPath => appPath);
+                assert.equal(rendered.locale, locale);
+                assert.ok(!rendered.html.includes('undefined'), `${event} (${locale}) has a missing value`);
+                return rendered.subject;
+            });
+            assert.equal(new Set(subjects).size, subjects.length, `${event} is not translated`);
+        }
+    });
+
+    it('falls back to English for unknown languages', async () => {
+        const admin = buildAdmin('fr');
+        const entry = await notifications.notifyAdmin('admin_approved', admin, { mosque_name: 'Masjid Al-Noor' });
+
+        assert.equal(entry.locale, 'en');
+        const [message] = await receivedMessages();
+        assert.equal(message.subject, 'Your application to manage Masjid Al-Noor is approved');
+    });
+
+    it('removes the body of an email with a code once it is sent', async () => {
+        const entry = await notifications.queueEmail({
+            event: 'registration_code',
+            to: 'applicant@example.com',
+            name: 'Applicant',
+            ...mailService.buildRegistrationEmail('Applicant', CODE, 'admin'),
+            expiresAt: new Date(Date.now() + 15 * 60 * 1000),
+            containsSecret: true
+        });
+        assert.equal(entry.status, 'sent');
+
+        const [message] = await receivedMessages();
+        assert.ok(message.text.includes(CODE));
+        assert.ok(message.html.includes(CODE));
+
+        const stored = storedEntry(entry._id);
+        assert.equal(stored.html, null);
+        assert.equal(stored.text, null);
+        assert.ok(stored.body_removed_at instanceof Date);
+        assert.ok(!JSON.stringify(stored).includes(CODE));
+    });
+
+    it('removes the invitation link once the invitation email is sent', async () => {
+        const token = 'invitation-token-123';
+        const entry = await notifications.queueTemplatedEmail('mosque_invitation', { email: 'invitee@example.com' }, {
+            purpose: 'team',
+            inviter_name: 'Yusuf Khan',
+            mosque_name: 'Masjid Al-Noor',
+            role_label: 'Editor',
+            invitation_path: `/admin/invite/${token}`,
+            expires_at: new Date(Date.now() + 60 * 60 * 1000)
+        }, { expiresAt: new Date(Date.now() + 60 * 60 * 1000), containsSecret: true });
+        assert.equal(entry.status, 'sent');
+
+        const [message] = await receivedMessages();
+        assert.equal(message.to, 'invitee@example.com');
+        assert.equal(message.subject, 'Invitation to manage Masjid Al-Noor');
+        assert.ok(message.text.includes(`/admin/invite/${token}`));
+
+        const stored = storedEntry(entry._id);
+        assert.equal(stored.html, null);
+        assert.ok(!JSON.stringify(stored).includes(token));
+    });
+
+    it('keeps the body of an ordinary notification', async () => {
+        const entry = await notifications.notifyAdmin('admin_approved', buildAdmin('en'), { mosque_name: 'Masjid Al-Noor' });
+
+        const stored = storedEntry(entry._id);
+        assert.ok(stored.html.includes('Masjid Al-Noor'));
+        assert.equal(stored.body_removed_at, null);
+    });
+});
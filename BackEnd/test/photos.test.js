@@ -0,0 +1,149 @@
+// Gallery photos - unpublished photos stay out of public storage and are only reachable through signed previews
+import { describe, it, before, after, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import os from 'os';
+import fs from 'fs/promises';
+import path from 'path';
+import mongoose from 'mongoose';
+import sharp from 'sharp';
+
+const exists = (file) => fs.access(file).then(() => true, () => false);
+
+describe('gallery photo storage', () => {
+    let rootDir;
+    let publicDir;
+    let privateDir;
+    let photos;
+    let MosquePhoto;
+    let upload;
+
+    before(async () => {
+        rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'photos-'));
+        publicDir = path.join(rootDir, 'uploads');
+        privateDir = path.join(rootDir, 'private_uploads');
+
+        // The storage adapters read their directories when first imported
+        process.env.UPLOAD_DIR = publicDir;
+        process.env.PRIVATE_UPLOAD_DIR = privateDir;
+        photos = await import('../src/utils/photos.js');
+        ({ default: MosquePhoto } = await import('../src/models/MosquePhoto.js'));
+
+        upload = await sharp({ create: { width: 800, height: 600, channels: 3, background: '#047857' } }).png().toBuffer();
+    });
+
+    after(async () => {
+        await fs.rm(rootDir, { recursive: true, force: true });
+    });
+
+    afterEach(() => mock.restoreAll());
+
+    const createPhoto = async () => {
+        const mosqueId = new mongoose.Types.ObjectId();
+        const photoId = new mongoose.Types.ObjectId();
+        const variants = await photos.storePhotoVariants(mosqueId.toString(), photoId.toString(), upload);
+        return new MosquePhoto({ _id: photoId, mosque_id: mosqueId, variants });
+    };
+
+    const publicFile = (photo, name) => path.join(publicDir, photo.variants[name].key);
+    const privateFile = (photo, name) => path.join(privateDir, photo.variants[name].key);
+
+    // Query string of a signed preview link
+    const previewParams = (url) => Object.fromEntries(new URL(url, 'http://api.example').searchParams);
+
+    it('keeps a new upload out of public storage', async () => {
+        const photo = await createPhoto();
+
+        for (const name of ['thumbnail', 'hero']) {
+            assert.equal(photo.variants[name].url, null);
+            assert.ok(await exists(privateFile(photo, name)), `${name} was not stored privately`);
+            assert.equal(await exists(publicFile(photo, name)), false, `${name} is public before approval`);
+        }
+        assert.equal(photos.toPhotoResponse(photo).thumbnail_url, null);
+    });
+
+    it('publishes an approved photo and takes it down again when hidden', async () => {
+        const photo = await createPhoto();
+
+        await photos.publishPhotoVariants(photo);
+        assert.equal(photo.variants.hero.url, `/api/uploads/${photo.variants.hero.key}`);
+        assert.ok(await exists(publicFile(photo, 'hero')));
+        assert.deepEqual(await fs.readFile(publicFile(photo, 'hero')), await fs.readFile(privateFile(photo, 'hero')));
+
+        await photos.unpublishPhotoVariants(photo);
+        for (const name of ['thumbnail', 'hero']) {
+            assert.equal(photo.variants[name].url, null);
+            assert.equal(await exists(publicFile(photo, name)), false, `${name} is still public after hiding`);
+            // Kept privately so the photo can be approved again
+            assert.ok(await exists(privateFile(photo, name)));
+        }
+    });
+
+    it('deletes the public and private files of a removed photo', async () => {
+        const photo = await createPhoto();
+        await photos.publishPhotoVariants(photo);
+
+        await photos.removePhotoVariants(photo);
+        for (const name of ['thumbnail', 'hero']) {
+            assert.equal(await exists(publicFile(photo, name)), false);
+            assert.equal(await exists(privateFile(photo, name)), false);
+        }
+    });
+
+    it('removes the photo files and records of a deleted mosque', async () => {
+        const { deleteMosqueData } = await import('../src/utils/mosqueData.js');
+        const photo = await createPhoto();
+        await photos.publishPhotoVariants(photo);
+
+        const filters = {};
+        mock.method(MosquePhoto, 'find', async () => [photo]);
+        for (const name of ['PrayerSchedule', 'TimetableDay', 'MosquePhoto', 'Announcement', 'MosqueInvitation', 'PushSubscription']) {
+            mock.method(mongoose.model(name), 'deleteMany', async (filter) => {
+                filters[name] = filter;
+                return { deletedCount: 1 };
+            });
+        }
+        const pulled = mock.method(mongoose.model('Congregant'), 'updateMany', async () => ({ modifiedCount: 1 }));
+        const deleted = mock.method(mongoose.model('Mosque'), 'findByIdAndDelete', async () => null);
+
+        const removed = await deleteMosqueData(photo.mosque_id);
+
+        for (const name of ['thumbnail', 'hero']) {
+            assert.equal(await exists(publicFile(photo, name)), false);
+            assert.equal(await exists(privateFile(photo, name)), false);
+        }
+        assert.deepEqual(Object.keys(filters).sort(), [
+            'Announcement', 'MosqueInvitation', 'MosquePhoto', 'PrayerSchedule', 'PushSubscription', 'TimetableDay'
+        ]);
+        assert.deepEqual(filters.MosqueInvitation, { mosque_id: photo.mosque_id, accepted_at: null });
+        assert.equal(removed.photos, 1);
+        assert.deepEqual(pulled.mock.calls[0].arguments[1], { $pull: { favorite_mosques: photo.mosque_id } });
+        assert.equal(deleted.mock.calls[0].arguments[0], photo.mosque_id);
+    });
+
+    it('gives admins signed previews that only open the photo and variant they were made for', async () => {
+        const photo = await createPhoto();
+        const response = photos.toPhotoResponse(photo, { includeModeration: true });
+
+        assert.ok(response.thumbnail_url.startsWith(`/api/mosques/${photo.mosque_id}/photos/${photo._id}/preview/thumbnail?`));
+        const { expires, signature } = previewParams(response.thumbnail_url);
+        assert.equal(photos.isPhotoPreviewValid(String(photo._id), 'thumbnail', expires, signature), true);
+
+        assert.equal(photos.isPhotoPreviewValid(String(photo._id), 'hero', expires, signature), false);
+        assert.equal(photos.isPhotoPreviewValid(String(new mongoose.Types.ObjectId()), 'thumbnail', expires, signature), false);
+        assert.equal(photos.isPhotoPreviewValid(String(photo._id), 'thumbnail', String(Number(expires) + 1), signature), false);
+        assert.equal(photos.isPhotoPreviewValid(String(photo._id), 'thumbnail', expires, undefined), false);
+        assert.equal(photos.isPhotoPreviewValid(String(photo._id), 'original', expires, signature), false);
+
+        assert.deepEqual(
+            await photos.readPhotoVariant(photo, 'thumbnail'),
+            await fs.readFile(privateFile(photo, 'thumbnail'))
+        );
+    });
+
+    it('rejects an expired preview link', async () => {
+        const photo = await createPhoto();
+        const { signature, expires } = previewParams(photos.toPhotoResponse(photo, { includeModeration: true }).hero_url);
+        mock.method(Date, 'now', () => Number(expires) + 1);
+        assert.equal(photos.isPhotoPreviewValid(String(photo._id), 'hero', expires, signature), false);
+    });
+});
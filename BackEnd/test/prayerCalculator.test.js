@@ -0,0 +1,180 @@
+// Prayer time calculation - known times per city, calculation method, Asr method and high-latitude rule
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    CALCULATION_METHODS,
+    calculateAdhanTimes,
+    calculateMosquePrayerTimes
+} from '../src/utils/prayerCalculator.js';
+
+// Reference times from an independent implementation (the adhan package, twilight angle rule,
+// no method adjustments). Oslo in June never gets dark enough for the Fajr and Isha angles.
+const CITIES = {
+    karachi: {
+        date: '2024-12-21',
+        latitude: 24.8607,
+        longitude: 67.0011,
+        timezone: 'Asia/Karachi',
+        sunrise: '07:12',
+        dhuhr: '12:30',
+        maghrib: '17:48',
+        asr: { shafii: '15:28', hanafi: '16:12' },
+        methods: {
+            karachi: { fajr: '05:51', isha: '19:10' },
+            mwl: { fajr: '05:51', isha: '19:05' },
+            isna: { fajr: '06:05', isha: '18:56' },
+            umm_al_qura: { fajr: '05:49', isha: '19:18' },
+            egyptian: { fajr: '05:44', isha: '19:07' }
+        }
+    },
+    london: {
+        date: '2024-03-15',
+        latitude: 51.5074,
+        longitude: -0.1278,
+        timezone: 'Europe/London',
+        sunrise: '06:14',
+        dhuhr: '12:09',
+        maghrib: '18:06',
+        asr: { shafii: '15:22', hanafi: '16:10' },
+        methods: {
+            karachi: { fajr: '04:21', isha: '19:59' },
+            mwl: { fajr: '04:21', isha: '19:52' },
+            isna: { fajr: '04:42', isha: '19:38' },
+            umm_al_qura: { fajr: '04:18', isha: '19:36' },
+            egyptian: { fajr: '04:11', isha: '19:55' }
+        }
+    },
+    oslo: {
+        date: '2024-06-21',
+        latitude: 59.9139,
+        longitude: 10.7522,
+        timezone: 'Europe/Oslo',
+        sunrise: '03:54',
+        dhuhr: '13:19',
+        maghrib: '22:44',
+        asr: { shafii: '18:01', hanafi: '19:20' },
+        methods: {
+            karachi: { fajr: '02:21', isha: '00:17' },
+            mwl: { fajr: '02:21', isha: '00:12' },
+            isna: { fajr: '02:36', isha: '00:01' },
+            umm_al_qura: { fajr: '02:18', isha: '00:14' },
+            egyptian: { fajr: '02:13', isha: '00:14' }
+        }
+    }
+};
+
+// Implementations round differently, so allow a minute either way (across midnight too)
+const assertTime = (actual, expected, label) => {
+    const toMinutes = (time) => {
+        const [hours, minutes] = time.split(':').map(Number);
+        return hours * 60 + minutes;
+    };
+    assert.match(actual || '', /^\d{2}:\d{2}$/, `${label} is missing`);
+    const difference = Math.abs(toMinutes(actual) - toMinutes(expected)) % 1440;
+    assert.ok(Math.min(difference, 1440 - difference) <= 1, `${label}: expected ${expected}, got ${actual}`);
+};
+
+const calculate = (city, options = {}) => calculateAdhanTimes({
+    date: city.date,
+    latitude: city.latitude,
+    longitude: city.longitude,
+    timezone: city.timezone,
+    ...options
+});
+
+describe('calculateAdhanTimes', () => {
+    for (const [name, city] of Object.entries(CITIES)) {
+        describe(name, () => {
+            for (const method of Object.keys(CALCULATION_METHODS)) {
+                it(`matches the known times with the ${method} method`, () => {
+                    const times = calculate(city, { method, asrMethod: 'shafii' });
+
+                    assertTime(times.fajr, city.methods[method].fajr, `${name} ${method} fajr`);
+                    assertTime(times.sunrise, city.sunrise, `${name} ${method} sunrise`);
+                    assertTime(times.dhuhr, city.dhuhr, `${name} ${method} dhuhr`);
+                    assertTime(times.maghrib, city.maghrib, `${name} ${method} maghrib`);
+                    assertTime(times.isha, city.methods[method].isha, `${name} ${method} isha`);
+                });
+            }
+
+            it('matches the known Asr times for the Shafi\'i and Hanafi methods', () => {
+                for (const asrMethod of ['shafii', 'hanafi']) {
+                    const times = calculate(city, { asrMethod });
+                    assertTime(times.asr, city.asr[asrMethod], `${name} ${asrMethod} asr`);
+                }
+            });
+        });
+    }
+
+    it('only lets the Asr method move Asr', () => {
+        const shafii = calculate(CITIES.london, { asrMethod: 'shafii' });
+        const hanafi = calculate(CITIES.london, { asrMethod: 'hanafi' });
+
+        assert.deepEqual({ ...hanafi, asr: null }, { ...shafii, asr: null });
+        assert.ok(hanafi.asr > shafii.asr);
+    });
+
+    it('sets Umm al-Qura Isha 90 minutes after Maghrib', () => {
+        const times = calculate(CITIES.karachi, { method: 'umm_al_qura' });
+        assert.equal(times.isha, '19:18');
+        assert.equal(times.maghrib, '17:48');
+    });
+
+    it('leaves Fajr and Isha out where twilight never ends and no rule applies', () => {
+        const times = calculate(CITIES.oslo, { method: 'karachi', highLatitudeRule: 'none' });
+
+        assert.equal(times.fajr, null);
+        assert.equal(times.isha, null);
+        assertTime(times.sunrise, CITIES.oslo.sunrise, 'oslo sunrise');
+    });
+
+    it('places Fajr and Isha by each high-latitude rule', () => {
+        const night = calculate(CITIES.oslo, { method: 'karachi', highLatitudeRule: 'middle_of_night' });
+        const seventh = calculate(CITIES.oslo, { method: 'karachi', highLatitudeRule: 'one_seventh' });
+
+        // The night from 22:44 to 03:54 lasts 5h10m: half of it is 2h35m, a seventh 44 minutes
+        assertTime(night.fajr, '01:19', 'middle of the night fajr');
+        assertTime(night.isha, '01:19', 'middle of the night isha');
+        assertTime(seventh.fajr, '03:10', 'one seventh fajr');
+        assertTime(seventh.isha, '23:28', 'one seventh isha');
+    });
+
+    it('rejects invalid settings', () => {
+        assert.throws(() => calculate(CITIES.karachi, { method: 'unknown' }), /Unknown calculation method/);
+        assert.throws(() => calculate(CITIES.karachi, { asrMethod: 'unknown' }), /Unknown Asr method/);
+        assert.throws(() => calculateAdhanTimes({ ...CITIES.karachi, date: '2024-02-30' }), /Invalid date/);
+    });
+});
+
+describe('calculateMosquePrayerTimes', () => {
+    const buildMosque = (jamaatOffsets) => ({
+        prayer_calculation: {
+            enabled: true,
+            latitude: CITIES.karachi.latitude,
+            longitude: CITIES.karachi.longitude,
+            timezone: CITIES.karachi.timezone,
+            method: 'karachi',
+            asr_method: 'hanafi',
+            high_latitude_rule: 'angle_based',
+            jamaat_offsets: jamaatOffsets
+        },
+        prayer_times: { jummah: '13:30' }
+    });
+
+    it('adds the jamaat offsets to the adhan times', () => {
+        const { adhan_times: adhan, prayer_times: jamaat } = calculateMosquePrayerTimes(
+            buildMosque({ fajr: 20, dhuhr: 15, asr: 15, maghrib: 5, isha: 15, jummah: 60 }),
+            CITIES.karachi.date
+        );
+
+        assertTime(adhan.asr, CITIES.karachi.asr.hanafi, 'hanafi asr');
+        assertTime(jamaat.fajr, '06:11', 'fajr jamaat');
+        assertTime(jamaat.maghrib, '17:53', 'maghrib jamaat');
+        assertTime(jamaat.jummah, '13:30', 'jummah jamaat');
+    });
+
+    it('keeps the entered Jummah time when it has no offset', () => {
+        const { prayer_times: jamaat } = calculateMosquePrayerTimes(buildMosque({}), CITIES.karachi.date);
+        assert.equal(jamaat.jummah, '13:30');
+    });
+});
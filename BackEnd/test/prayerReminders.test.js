@@ -0,0 +1,443 @@
+// Prayer reminders - jamaat reminders on a fixed clock, queued time change alerts and pruning gone subscriptions
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import Mosque from '../src/models/Mosque.js';
+import PrayerSchedule from '../src/models/PrayerSchedule.js';
+import TimetableDay from '../src/models/TimetableDay.js';
+import PushSubscription from '../src/models/PushSubscription.js';
+import TimeChangeAlert from '../src/models/TimeChangeAlert.js';
+import { generateVapidKeys } from '../src/utils/webPush.js';
+import {
+    processPrayerReminders,
+    getTimetableSnapshot,
+    queueTimeChangeAlert,
+    processTimeChangeAlerts
+} from '../src/utils/prayerReminders.js';
+import { mockQuery } from './helpers.js';
+
+// Wednesday 13 May 2026 in Lahore (UTC+5): Dhuhr jamaat at 13:30 is 08:30 UTC
+const at = (time) => new Date(`2026-05-13T${time}:00Z`);
+const DHUHR = at('08:30');
+
+// In-memory subscriptions covering the queries the reminder worker makes
+const createSubscriptionStore = () => {
+    const subscriptions = [];
+
+    const same = (a, b) => String(a) === String(b);
+    const matches = (subscription, filter) => Object.entries(filter).every(([field, condition]) => {
+        if (field === '$or') return condition.some(option => matches(subscription, option));
+        const value = subscription[field];
+        if (condition?.$in) return condition.$in.some(option => same(option, value));
+        // ObjectIds created in a row sort in creation order
+        if (condition?.$gt) return String(value) > String(condition.$gt);
+        if (condition?.$lt) return value !== null && value < condition.$lt;
+        if (condition === null) return value === null;
+        return typeof condition === 'boolean' ? value === condition : same(value, condition);
+    });
+
+    const removeWhere = (filter) => {
+        const removed = subscriptions.filter(subscription => matches(subscription, filter));
+        removed.forEach(subscription => subscriptions.splice(subscriptions.indexOf(subscription), 1));
+        return { deletedCount: removed.length };
+    };
+
+    return {
+        subscriptions,
+        add(data) {
+            const subscription = new PushSubscription(data).toObject();
+            subscriptions.push(subscription);
+            return subscription;
+        },
+        async distinct(field, filter) {
+            const values = subscriptions.filter(subscription => matches(subscription, filter)).map(s => s[field]);
+            return values.filter((value, index) => values.findIndex(other => same(other, value)) === index);
+        },
+        find(filter) {
+            let results = subscriptions.filter(subscription => matches(subscription, filter)).map(s => ({ ...s }));
+            const query = mockQuery(null);
+            query.then = (resolve, reject) => Promise.resolve(results).then(resolve, reject);
+            query.limit = (count) => {
+                results = results.slice(0, count);
+                return query;
+            };
+            return query;
+        },
+        async exists(filter) {
+            const subscription = subscriptions.find(candidate => matches(candidate, filter));
+            return subscription ? { _id: subscription._id } : null;
+        },
+        async updateOne(filter, { $set }) {
+            const subscription = subscriptions.find(candidate => matches(candidate, filter));
+            if (subscription) Object.assign(subscription, $set);
+            return { modifiedCount: subscription ? 1 : 0 };
+        },
+        async findOneAndUpdate(filter, { $inc }) {
+            const subscription = subscriptions.find(candidate => matches(candidate, filter));
+            if (!subscription) return null;
+            for (const [key, amount] of Object.entries($inc)) subscription[key] += amount;
+            return { ...subscription };
+        },
+        async deleteMany(filter) {
+            return removeWhere(filter);
+        },
+        async deleteOne(filter) {
+            return removeWhere(filter);
+        }
+    };
+};
+
+// In-memory time change alerts covering the queries of queueTimeChangeAlert() and the worker
+const createAlertStore = () => {
+    const alerts = [];
+
+    const matches = (alert, filter) => Object.entries(filter).every(([field, condition]) => {
+        if (field === '$or') return condition.some(option => matches(alert, option));
+        const value = alert[field];
+        if (condition?.$lt) return value !== null && value < condition.$lt;
+        if (condition === null) return value === null;
+        return String(value) === String(condition);
+    });
+
+    const find = (filter) => alerts.find(alert => matches(alert, filter));
+
+    return {
+        alerts,
+        find(filter) {
+            return mockQuery(alerts.filter(alert => matches(alert, filter)).map(alert => ({ ...alert })));
+        },
+        async findOneAndUpdate(filter, { $set }) {
+            const alert = find(filter);
+            if (!alert) return null;
+            Object.assign(alert, $set);
+            return { ...alert };
+        },
+        async updateOne(filter, { $set = {}, $setOnInsert = {}, $inc = {} }, { upsert = false } = {}) {
+            let alert = find(filter);
+            if (!alert) {
+                if (!upsert) return { modifiedCount: 0 };
+                alert = new TimeChangeAlert({ ...filter, ...$setOnInsert }).toObject();
+                alerts.push(alert);
+            }
+            Object.assign(alert, $set);
+            for (const [key, amount] of Object.entries($inc)) alert[key] += amount;
+            return { modifiedCount: 1 };
+        },
+        async deleteOne(filter) {
+            const alert = find(filter);
+            if (alert) alerts.splice(alerts.indexOf(alert), 1);
+            return { deletedCount: alert ? 1 : 0 };
+        }
+    };
+};
+
+const keys = { p256dh: 'p256dh-key', auth: 'auth-secret' };
+
+const buildMosque = (prayerTimes = {}) => new Mosque({
+    name: 'Masjid Al-Noor',
+    location: 'Main Boulevard, Lahore',
+    prayer_times: {
+        fajr: '04:30',
+        dhuhr: '13:30',
+        asr: '17:00',
+        maghrib: '18:55',
+        isha: '20:30',
+        jummah: '13:45',
+        ...prayerTimes
+    },
+    prayer_calculation: { enabled: false, timezone: 'Asia/Karachi' }
+});
+
+// Stand-in for sendPush that records each message and fails with the queued errors first
+const createSender = () => {
+    const sender = async (subscription, data, options) => {
+        sender.calls.push({ endpoint: subscription.endpoint, data, options });
+        const error = sender.errors.shift();
+        if (error) throw error;
+        return { statusCode: 201 };
+    };
+    sender.calls = [];
+    sender.errors = [];
+    return sender;
+};
+
+const pushServiceError = (statusCode) => Object.assign(new Error(`Push service responded ${statusCode}`), { statusCode });
+
+describe('prayer reminders', () => {
+    let store;
+    let alertStore;
+    let mosque;
+    let send;
+    let savedEnv;
+
+    beforeEach(() => {
+        savedEnv = { ...process.env };
+        const vapid = generateVapidKeys();
+        process.env.VAPID_PUBLIC_KEY = vapid.publicKey;
+        process.env.VAPID_PRIVATE_KEY = vapid.privateKey;
+
+        mosque = buildMosque();
+        store = createSubscriptionStore();
+        send = createSender();
+
+        alertStore = createAlertStore();
+
+        for (const method of ['distinct', 'find', 'exists', 'updateOne', 'findOneAndUpdate', 'deleteMany', 'deleteOne']) {
+            mock.method(PushSubscription, method, store[method]);
+        }
+        for (const method of ['find', 'findOneAndUpdate', 'updateOne', 'deleteOne']) {
+            mock.method(TimeChangeAlert, method, alertStore[method]);
+        }
+        mock.method(Mosque, 'find', async () => [mosque]);
+        mock.method(Mosque, 'findById', async (id) => (mosque._id.equals(id) ? mosque : null));
+        mock.method(PrayerSchedule, 'find', () => mockQuery([]));
+        mock.method(TimetableDay, 'find', () => mockQuery([]));
+        mock.method(console, 'error', () => {});
+    });
+
+    afterEach(() => {
+        process.env = savedEnv;
+        mock.restoreAll();
+    });
+
+    const subscribe = (overrides = {}) => store.add({
+        endpoint: 'https://fcm.googleapis.com/fcm/send/browser-1',
+        keys,
+        mosque_id: mosque._id,
+        reminder_minutes: 15,
+        ...overrides
+    });
+
+    const runAt = (now) => processPrayerReminders({ now, send });
+
+    describe('processPrayerReminders', () => {
+        it('waits until the reminder window opens', async () => {
+            subscribe();
+
+            const result = await runAt(at('08:14'));
+            assert.equal(result.sent, 0);
+            assert.equal(send.calls.length, 0);
+        });
+
+        it('sends a reminder once inside the window', async () => {
+            subscribe();
+
+            const result = await runAt(at('08:16'));
+            assert.deepEqual(result, { mosques: 1, sent: 1, failed: 0, removed: 0 });
+
+            const [{ data, options }] = send.calls;
+            assert.equal(data.type, 'jamaat_reminder');
+            assert.equal(data.title, 'Dhuhr jamaat in 14 min');
+            assert.equal(data.body, 'Masjid Al-Noor · 13:30');
+            assert.equal(data.jamaat_at, DHUHR.toISOString());
+            assert.equal(options.ttl, 14 * 60);
+            assert.equal(options.urgency, 'high');
+            assert.equal(store.subscriptions[0].last_reminded_for.getTime(), DHUHR.getTime());
+        });
+
+        it('does not send the same reminder on the next tick', async () => {
+            subscribe();
+            await runAt(at('08:16'));
+
+            assert.equal((await runAt(at('08:21'))).sent, 0);
+            assert.equal((await runAt(at('08:29'))).sent, 0);
+            assert.equal(send.calls.length, 1);
+        });
+
+        it('reminds about the next jamaat once it comes up', async () => {
+            subscribe();
+            await runAt(at('08:16'));
+
+            // Asr at 17:00 is 12:00 UTC
+            assert.equal((await runAt(at('11:44'))).sent, 0);
+            assert.equal((await runAt(at('11:46'))).sent, 1);
+            assert.equal(send.calls[1].data.title, 'Asr jamaat in 14 min');
+        });
+
+        it('honours each subscription\'s own lead time', async () => {
+            subscribe({ endpoint: 'https://fcm.googleapis.com/fcm/send/early', reminder_minutes: 30 });
+            subscribe({ endpoint: 'https://fcm.googleapis.com/fcm/send/late', reminder_minutes: 5 });
+
+            await runAt(at('08:05'));
+            assert.deepEqual(send.calls.map(call => call.endpoint), ['https://fcm.googleapis.com/fcm/send/early']);
+
+            await runAt(at('08:26'));
+            assert.deepEqual(send.calls.map(call => call.endpoint), [
+                'https://fcm.googleapis.com/fcm/send/early',
+                'https://fcm.googleapis.com/fcm/send/late'
+            ]);
+        });
+
+        it('skips subscriptions with reminders turned off', async () => {
+            subscribe({ jamaat_reminders: false });
+
+            assert.equal((await runAt(at('08:16'))).sent, 0);
+            assert.equal(send.calls.length, 0);
+        });
+
+        for (const statusCode of [404, 410]) {
+            it(`deletes a subscription the push service answers ${statusCode} for`, async () => {
+                const otherMosqueId = new mongoose.Types.ObjectId();
+                subscribe();
+                // The same browser's subscription for another mosque goes too
+                subscribe({ mosque_id: otherMosqueId, jamaat_reminders: false });
+                subscribe({ endpoint: 'https://fcm.googleapis.com/fcm/send/browser-2' });
+                send.errors.push(pushServiceError(statusCode));
+
+                const result = await runAt(at('08:16'));
+                assert.equal(result.removed, 1);
+                assert.equal(result.sent, 1);
+                assert.deepEqual(
+                    store.subscriptions.map(subscription => subscription.endpoint),
+                    ['https://fcm.googleapis.com/fcm/send/browser-2']
+                );
+            });
+        }
+
+        it('keeps a subscription after a temporary failure', async () => {
+            subscribe();
+            send.errors.push(pushServiceError(500));
+
+            const result = await runAt(at('08:16'));
+            assert.equal(result.failed, 1);
+            assert.equal(store.subscriptions.length, 1);
+            assert.equal(store.subscriptions[0].failure_count, 1);
+        });
+
+        it('drops subscriptions of deleted mosques', async () => {
+            subscribe({ mosque_id: new mongoose.Types.ObjectId() });
+            subscribe();
+
+            const result = await runAt(at('08:16'));
+            assert.equal(result.removed, 1);
+            assert.equal(result.sent, 1);
+            assert.equal(store.subscriptions.length, 1);
+        });
+    });
+
+    // An admin's edit: snapshot today's times, change them and queue the alert
+    const editTimes = async (prayerTimes, now = at('06:00')) => {
+        const before = await getTimetableSnapshot(mosque, now);
+        Object.assign(mosque.prayer_times, prayerTimes);
+        return queueTimeChangeAlert(mosque, before, { now });
+    };
+
+    const sendAlerts = (options = {}) => processTimeChangeAlerts({ now: at('06:01'), send, ...options });
+
+    describe('queueTimeChangeAlert', () => {
+        it('queues the alert without sending anything', async () => {
+            subscribe();
+
+            assert.equal(await editTimes({ asr: '17:15' }), true);
+            assert.equal(send.calls.length, 0);
+            assert.equal(alertStore.alerts.length, 1);
+            assert.equal(alertStore.alerts[0].before.prayer_times.asr, '17:00');
+        });
+
+        it('folds further edits into the waiting alert', async () => {
+            subscribe();
+            await editTimes({ asr: '17:15' });
+            alertStore.alerts[0].last_subscription_id = store.subscriptions[0]._id;
+
+            await editTimes({ asr: '17:30' });
+            assert.equal(alertStore.alerts.length, 1);
+            const [alert] = alertStore.alerts;
+            assert.equal(alert.revision, 2);
+            assert.equal(alert.before.prayer_times.asr, '17:00');
+            assert.equal(alert.last_subscription_id, null);
+        });
+
+        it('skips mosques nobody follows for time changes', async () => {
+            subscribe({ time_change_alerts: false });
+
+            assert.equal(await editTimes({ asr: '17:15' }), false);
+            assert.equal(alertStore.alerts.length, 0);
+        });
+    });
+
+    describe('processTimeChangeAlerts', () => {
+        it('alerts subscribers to today\'s changed times', async () => {
+            subscribe();
+            subscribe({ endpoint: 'https://fcm.googleapis.com/fcm/send/quiet', time_change_alerts: false });
+            await editTimes({ asr: '17:15' });
+
+            const result = await sendAlerts();
+
+            assert.deepEqual(result, { alerts: 1, sent: 1, failed: 0, removed: 0 });
+            const [{ endpoint, data, options }] = send.calls;
+            assert.equal(endpoint, 'https://fcm.googleapis.com/fcm/send/browser-1');
+            assert.equal(data.type, 'timetable_changed');
+            assert.equal(data.body, 'Today: Asr 17:00 → 17:15');
+            assert.equal(options.topic, `tt-${mosque._id}`);
+            assert.equal(alertStore.alerts.length, 0);
+        });
+
+        it('reports the net change of several edits', async () => {
+            subscribe();
+            await editTimes({ asr: '17:15' });
+            await editTimes({ asr: '17:30', isha: '20:45' });
+
+            await sendAlerts();
+            assert.equal(send.calls.length, 1);
+            assert.equal(send.calls[0].data.body, 'Today: Asr 17:00 → 17:30, Isha 20:30 → 20:45');
+        });
+
+        it('sends in batches and carries on from the last subscriber an earlier run reached', async () => {
+            for (let browser = 1; browser <= 5; browser++) {
+                subscribe({ endpoint: `https://fcm.googleapis.com/fcm/send/browser-${browser}` });
+            }
+            await editTimes({ asr: '17:15' });
+            alertStore.alerts[0].last_subscription_id = store.subscriptions[0]._id;
+
+            const result = await sendAlerts({ batchSize: 2 });
+
+            assert.equal(result.sent, 4);
+            assert.deepEqual(send.calls.map(call => call.endpoint.split('/').pop()), [
+                'browser-2', 'browser-3', 'browser-4', 'browser-5'
+            ]);
+            assert.equal(alertStore.alerts.length, 0);
+        });
+
+        it('leaves an alert claimed by another run alone', async () => {
+            subscribe();
+            await editTimes({ asr: '17:15' });
+            alertStore.alerts[0].locked_until = at('06:02');
+
+            assert.equal((await sendAlerts()).alerts, 0);
+            assert.equal(send.calls.length, 0);
+            assert.equal(alertStore.alerts.length, 1);
+        });
+
+        it('drops the alert of a deleted mosque', async () => {
+            subscribe();
+            await editTimes({ asr: '17:15' });
+            mosque = buildMosque();
+
+            assert.equal((await sendAlerts()).alerts, 0);
+            assert.equal(send.calls.length, 0);
+            assert.equal(alertStore.alerts.length, 0);
+        });
+
+        it('moves the reminder to the new time', async () => {
+            subscribe();
+            await editTimes({ dhuhr: '14:00' });
+            await sendAlerts();
+
+            // 15 minutes before the old 13:30 jamaat nothing is due any more
+            assert.equal((await runAt(at('08:16'))).sent, 0);
+            assert.equal((await runAt(at('08:46'))).sent, 1);
+            assert.equal(send.calls.at(-1).data.body, 'Masjid Al-Noor · 14:00');
+        });
+
+        it('prunes subscriptions that are gone', async () => {
+            subscribe();
+            await editTimes({ isha: '20:45' });
+            send.errors.push(pushServiceError(410));
+
+            const result = await sendAlerts();
+
+            assert.deepEqual(result, { alerts: 1, sent: 0, failed: 0, removed: 1 });
+            assert.equal(store.subscriptions.length, 0);
+        });
+    });
+});
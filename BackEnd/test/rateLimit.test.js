@@ -0,0 +1,217 @@
+// Login throttling - progressive lockouts, Retry-After and failing open when the store is down
+import { describe, it, before, after, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import RateLimitBucket from '../src/models/RateLimitBucket.js';
+import AuditLog from '../src/models/AuditLog.js';
+import { LOCKOUT_BASE_MS, LOCKOUT_MAX_MS, getLockoutDuration, rateLimit } from '../src/middleware/rateLimit.js';
+import { startServer } from './helpers.js';
+
+const MINUTE = 60 * 1000;
+
+// In-memory buckets covering the update operators the limiter uses
+const createBucketStore = () => {
+    const buckets = new Map();
+    let nextId = 1;
+
+    const matches = (bucket, filter) => Object.entries(filter).every(([field, condition]) => {
+        if (condition?.$lte) return bucket[field] <= condition.$lte;
+        if (condition?.$in) return condition.$in.includes(bucket[field]);
+        return bucket[field] === condition;
+    });
+
+    const apply = (bucket, { $set = {}, $inc = {}, $max = {} }) => {
+        Object.assign(bucket, $set);
+        for (const [field, amount] of Object.entries($inc)) bucket[field] = (bucket[field] || 0) + amount;
+        for (const [field, value] of Object.entries($max)) {
+            if (!bucket[field] || value > bucket[field]) bucket[field] = value;
+        }
+    };
+
+    const find = (filter) => [...buckets.values()].find(bucket => matches(bucket, filter));
+
+    return {
+        buckets,
+        async updateOne(filter, update) {
+            const bucket = find(filter);
+            if (bucket) apply(bucket, update);
+        },
+        async updateMany(filter, update) {
+            for (const bucket of buckets.values()) {
+                if (matches(bucket, filter)) apply(bucket, update);
+            }
+        },
+        async findOneAndUpdate(filter, update, options = {}) {
+            let bucket = find(filter);
+            if (!bucket) {
+                if (!options.upsert) return null;
+                bucket = { _id: nextId++, key: filter.key, requests: 0, failures: 0, lockouts: 0, locked_until: null };
+                Object.assign(bucket, update.$setOnInsert);
+                buckets.set(bucket.key, bucket);
+            }
+            apply(bucket, update);
+            return { ...bucket };
+        }
+    };
+};
+
+describe('getLockoutDuration', () => {
+    it('doubles from 5 minutes with every lockout', () => {
+        assert.equal(LOCKOUT_BASE_MS, 5 * MINUTE);
+        assert.deepEqual(
+            [0, 1, 2, 3, 4].map(getLockoutDuration),
+            [5, 10, 20, 40, 80].map(minutes => minutes * MINUTE)
+        );
+    });
+
+    it('is capped at 24 hours', () => {
+        assert.equal(LOCKOUT_MAX_MS, 24 * 60 * MINUTE);
+        assert.equal(getLockoutDuration(8), 1280 * MINUTE);
+        assert.equal(getLockoutDuration(9), LOCKOUT_MAX_MS);
+        assert.equal(getLockoutDuration(50), LOCKOUT_MAX_MS);
+    });
+});
+
+describe('rateLimit middleware', () => {
+    let server;
+    let store;
+    let now;
+    let requestCount = 0;
+
+    // The handler accepts one password, like the login routes
+    before(async () => {
+        const router = express.Router();
+        router.post('/login', rateLimit('admin_login', { now: () => new Date(now) }), async (req, res) => {
+            if (req.body.password === 'correct') {
+                await req.rateLimit.succeed();
+                return res.json({ ok: true });
+            }
+            const attempt = await req.rateLimit.fail();
+            res.status(401).json({ error: 'Invalid credentials', ...attempt });
+        });
+        server = await startServer('/api', router);
+    });
+
+    after(() => server.close());
+
+    beforeEach(() => {
+        now = new Date('2026-01-01T09:00:00Z').getTime();
+        store = createBucketStore();
+        for (const method of ['updateOne', 'updateMany', 'findOneAndUpdate']) {
+            mock.method(RateLimitBucket, method, store[method]);
+        }
+        mock.method(AuditLog, 'logAction', async () => null);
+    });
+
+    afterEach(() => mock.restoreAll());
+
+    // Each request comes from a new IP so only the account bucket builds up
+    const login = async (password, { ip = `198.51.100.${++requestCount % 250}` } = {}) => {
+        const response = await fetch(`${server.url}/login`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'X-Forwarded-For': ip },
+            body: JSON.stringify({ email: 'Admin@Example.com', password })
+        });
+        return { status: response.status, retryAfter: response.headers.get('retry-after'), body: await response.json() };
+    };
+
+    const failUntilLocked = async () => {
+        let result;
+        for (let i = 0; i < 5; i++) result = await login('wrong');
+        return result;
+    };
+
+    it('counts down the remaining attempts', async () => {
+        assert.equal((await login('wrong')).body.attempts_remaining, 4);
+        assert.equal((await login('wrong')).body.attempts_remaining, 3);
+    });
+
+    it('locks the account for 5 minutes on the fifth failure', async () => {
+        const locking = await failUntilLocked();
+        assert.equal(locking.status, 401);
+        assert.equal(locking.body.attempts_remaining, 0);
+        assert.equal(locking.body.retry_after, 300);
+        assert.equal(locking.retryAfter, '300');
+
+        const blocked = await login('correct');
+        assert.equal(blocked.status, 429);
+        assert.equal(blocked.body.code, 'TOO_MANY_ATTEMPTS');
+        assert.equal(blocked.retryAfter, '300');
+
+        now += 2 * MINUTE;
+        const later = await login('correct');
+        assert.equal(later.status, 429);
+        assert.equal(later.retryAfter, '180');
+        assert.equal(later.body.retry_at, '2026-01-01T09:05:00.000Z');
+    });
+
+    it('doubles each further lockout', async () => {
+        const durations = [];
+        for (let round = 0; round < 4; round++) {
+            const locking = await failUntilLocked();
+            durations.push(locking.body.retry_after);
+            now += locking.body.retry_after * 1000;
+        }
+        assert.deepEqual(durations, [300, 600, 1200, 2400]);
+    });
+
+    it('caps the lockout at 24 hours', async () => {
+        await login('wrong');
+        store.buckets.get('admin_login:account:admin@example.com').lockouts = 12;
+        for (let i = 0; i < 4; i++) await login('wrong');
+
+        const blocked = await login('correct');
+        assert.equal(blocked.status, 429);
+        assert.equal(blocked.retryAfter, String(24 * 60 * 60));
+    });
+
+    it('lets the account in again once the lockout is over', async () => {
+        await failUntilLocked();
+        now += 5 * MINUTE + 1000;
+
+        const result = await login('correct');
+        assert.equal(result.status, 200);
+        assert.equal(store.buckets.get('admin_login:account:admin@example.com').failures, 0);
+    });
+
+    it('sends Retry-After until the window ends when there are too many requests', async () => {
+        for (let i = 0; i < 20; i++) {
+            assert.equal((await login('correct')).status, 200);
+        }
+        now += MINUTE;
+
+        const limited = await login('correct');
+        assert.equal(limited.status, 429);
+        assert.equal(limited.body.code, 'TOO_MANY_REQUESTS');
+        assert.equal(limited.retryAfter, String(14 * 60));
+
+        now += 14 * MINUTE;
+        assert.equal((await login('correct')).status, 200);
+    });
+
+    it('fails open when the store is unreachable', async () => {
+        mock.method(console, 'error', () => {});
+        mock.method(RateLimitBucket, 'updateOne', async () => {
+            throw new Error('connection refused');
+        });
+
+        const rejected = await login('wrong');
+        assert.equal(rejected.status, 401);
+        assert.equal(rejected.retryAfter, null);
+        assert.equal(rejected.body.attempts_remaining, undefined);
+        assert.equal((await login('correct')).status, 200);
+    });
+
+    it('still answers when recording a failure errors', async () => {
+        mock.method(console, 'error', () => {});
+        await login('wrong');
+        mock.method(RateLimitBucket, 'findOneAndUpdate', async (filter, update) => {
+            if (update.$inc?.failures) throw new Error('write conflict');
+            return store.findOneAndUpdate(filter, update, { upsert: true });
+        });
+
+        const result = await login('wrong');
+        assert.equal(result.status, 401);
+        assert.deepEqual(result.body, { error: 'Invalid credentials' });
+    });
+});
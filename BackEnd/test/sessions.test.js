@@ -0,0 +1,131 @@
+// Sessions - refresh token rotation, reuse detection and rejecting access tokens of revoked sessions
+import { describe, it, before, after, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import mongoose from 'mongoose';
+import Session from '../src/models/Session.js';
+import Congregant from '../src/models/Congregant.js';
+import { auth } from '../src/middleware/auth.js';
+import { startSession, rotateSession, revokeSession, isSessionActive } from '../src/utils/sessions.js';
+import { createSessionStore, startServer } from './helpers.js';
+
+const USER = { _id: new mongoose.Types.ObjectId(), name: 'Bilal', email: 'bilal@example.com' };
+
+// Just enough of an Express request for the device and location details
+const fakeRequest = () => ({
+    ip: '127.0.0.1',
+    get: (header) => (header === 'User-Agent' ? 'Mozilla/5.0 (X11; Linux x86_64) Firefox/128.0' : undefined)
+});
+
+const fakeResponse = () => ({ cookie: () => {} });
+
+describe('rotateSession', () => {
+    let store;
+
+    beforeEach(() => {
+        store = createSessionStore();
+        for (const method of ['create', 'find', 'findOneAndUpdate', 'updateOne', 'exists']) {
+            mock.method(Session, method, store[method]);
+        }
+        mock.method(console, 'warn', () => {});
+    });
+
+    afterEach(() => mock.restoreAll());
+
+    it('swaps the refresh token for a new one', async () => {
+        const { refresh_token: first } = await startSession(fakeRequest(), fakeResponse(), USER, 'congregant');
+
+        const rotated = await rotateSession(fakeRequest(), first);
+        assert.ok(rotated.session);
+        assert.notEqual(rotated.refreshToken, first);
+        assert.equal(rotated.session.previous_token_hashes.length, 1);
+
+        const again = await rotateSession(fakeRequest(), rotated.refreshToken);
+        assert.ok(again.session);
+        assert.equal(store.sessions.length, 1);
+    });
+
+    it('revokes the session when a superseded token is replayed', async () => {
+        const { refresh_token: first } = await startSession(fakeRequest(), fakeResponse(), USER, 'congregant');
+        const { refreshToken: second } = await rotateSession(fakeRequest(), first);
+
+        const replayed = await rotateSession(fakeRequest(), first);
+        assert.equal(replayed.code, 'REFRESH_TOKEN_REUSED');
+
+        const [session] = store.sessions;
+        assert.ok(session.revoked_at instanceof Date);
+        assert.equal(session.revoked_reason, 'reuse_detected');
+        assert.equal(await isSessionActive(session._id.toString()), false);
+
+        // The current token dies with the session, whoever holds it
+        assert.equal((await rotateSession(fakeRequest(), second)).code, 'INVALID_REFRESH_TOKEN');
+    });
+
+    it('rejects unknown, expired and missing tokens', async () => {
+        const { refresh_token: token } = await startSession(fakeRequest(), fakeResponse(), USER, 'congregant');
+        store.sessions[0].expires_at = new Date(Date.now() - 1000);
+
+        assert.equal((await rotateSession(fakeRequest(), token)).code, 'INVALID_REFRESH_TOKEN');
+        assert.equal((await rotateSession(fakeRequest(), 'made-up')).code, 'INVALID_REFRESH_TOKEN');
+        assert.equal((await rotateSession(fakeRequest(), undefined)).code, 'REFRESH_TOKEN_REQUIRED');
+        assert.equal(store.sessions[0].revoked_at, null);
+    });
+});
+
+describe('auth middleware sessions', () => {
+    let server;
+    let store;
+
+    before(async () => {
+        const router = express.Router();
+        router.get('/me', auth, (req, res) => res.json({ userId: req.user.userId }));
+        server = await startServer('/api', router);
+    });
+
+    after(() => server.close());
+
+    beforeEach(() => {
+        store = createSessionStore();
+        for (const method of ['create', 'find', 'updateOne', 'exists']) {
+            mock.method(Session, method, store[method]);
+        }
+        mock.method(Congregant, 'exists', async () => ({ _id: USER._id }));
+        mock.method(console, 'log', () => {});
+    });
+
+    afterEach(() => mock.restoreAll());
+
+    const getMe = async (token) => {
+        const response = await fetch(`${server.url}/me`, { headers: { Authorization: `Bearer ${token}` } });
+        return { status: response.status, body: await response.json() };
+    };
+
+    it('accepts an access token of a live session', async () => {
+        const { token } = await startSession(fakeRequest(), fakeResponse(), USER, 'congregant');
+
+        const result = await getMe(token);
+        assert.equal(result.status, 200);
+        assert.equal(result.body.userId, USER._id.toString());
+    });
+
+    it('rejects an access token once its session is revoked', async () => {
+        const { token } = await startSession(fakeRequest(), fakeResponse(), USER, 'congregant');
+        await revokeSession(store.sessions[0]._id, 'logout');
+
+        const result = await getMe(token);
+        assert.equal(result.status, 401);
+        assert.equal(result.body.code, 'SESSION_REVOKED');
+    });
+
+    it('rejects an access token once its session has expired', async () => {
+        const { token } = await startSession(fakeRequest(), fakeResponse(), USER, 'congregant');
+        store.sessions[0].expires_at = new Date(Date.now() - 1000);
+
+        assert.equal((await getMe(token)).body.code, 'SESSION_REVOKED');
+    });
+
+    it('rejects a token without a session', async () => {
+        assert.equal(await isSessionActive(undefined), false);
+        assert.equal(await isSessionActive(new mongoose.Types.ObjectId().toString()), false);
+    });
+});
@@ -0,0 +1,8 @@
+// Loaded before every test file (node --import). Tests never reach a database:
+// queries are mocked per test, and an unmocked one fails straight away instead of waiting for a connection.
+import mongoose from 'mongoose';
+
+process.env.NODE_ENV = 'test';
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-jwt-secret';
+
+mongoose.set('bufferCommands', false);
@@ -0,0 +1,162 @@
+// Timetable import routes - malformed rows and removing imported days by import or date range
+import { describe, it, before, after, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import Mosque from '../src/models/Mosque.js';
+import Admin from '../src/models/Admin.js';
+import Session from '../src/models/Session.js';
+import PrayerSchedule from '../src/models/PrayerSchedule.js';
+import TimetableDay from '../src/models/TimetableDay.js';
+import AuditLog from '../src/models/AuditLog.js';
+import mosqueRoutes from '../src/routes/mosque.js';
+import { signAccessToken } from '../src/utils/sessions.js';
+import { mockQuery, startServer } from './helpers.js';
+
+// In-memory imported days covering the queries the routes and resolveTimetable() make
+const createDayStore = () => {
+    const days = [];
+
+    const matches = (day, filter) => Object.entries(filter).every(([field, condition]) => {
+        const value = day[field];
+        if (condition?.$in) return condition.$in.some(option => String(option) === String(value));
+        if (condition?.$gte) return value >= condition.$gte && value <= condition.$lte;
+        return String(value) === String(condition);
+    });
+
+    return {
+        days,
+        add(data) {
+            days.push(new TimetableDay(data).toObject());
+        },
+        find(filter) {
+            return mockQuery(days.filter(day => matches(day, filter)).sort((a, b) => a.date.localeCompare(b.date)));
+        },
+        async deleteMany(filter) {
+            const removed = days.filter(day => matches(day, filter));
+            removed.forEach(day => days.splice(days.indexOf(day), 1));
+            return { deletedCount: removed.length };
+        }
+    };
+};
+
+describe('timetable import routes', () => {
+    let server;
+    let mosque;
+    let store;
+    let auditLogs;
+    let token;
+
+    before(async () => {
+        server = await startServer('/mosques', mosqueRoutes);
+    });
+    after(() => server.close());
+
+    beforeEach(() => {
+        mosque = new Mosque({
+            name: 'Masjid Al-Noor',
+            location: 'Main Boulevard, Lahore',
+            prayer_times: { fajr: '04:30', dhuhr: '13:30', asr: '17:00', maghrib: '18:55', isha: '20:30', jummah: '13:45' },
+            prayer_calculation: { enabled: false, timezone: 'Asia/Karachi' }
+        });
+        const admin = {
+            _id: new mongoose.Types.ObjectId(),
+            status: 'approved',
+            mosque_id: mosque._id,
+            mosque_role: 'owner'
+        };
+        token = signAccessToken(admin, 'admin', { _id: new mongoose.Types.ObjectId() });
+
+        store = createDayStore();
+        auditLogs = [];
+        mock.method(Session, 'exists', async () => ({ _id: 'session' }));
+        mock.method(Admin, 'findById', () => mockQuery(admin));
+        mock.method(Mosque, 'findById', () => mockQuery(mosque));
+        mock.method(Mosque, 'updateOne', async () => ({ modifiedCount: 1 }));
+        mock.method(PrayerSchedule, 'find', () => mockQuery([]));
+        mock.method(TimetableDay, 'find', store.find);
+        mock.method(TimetableDay, 'deleteMany', store.deleteMany);
+        mock.method(AuditLog, 'logAction', async (entry) => auditLogs.push(entry));
+        mock.method(console, 'log', () => {});
+    });
+
+    afterEach(() => mock.restoreAll());
+
+    const request = async (method, path, body) => {
+        const response = await fetch(`${server.url}/${mosque._id}${path}`, {
+            method,
+            headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+            ...(body && { body: JSON.stringify(body) })
+        });
+        return { status: response.status, body: await response.json() };
+    };
+
+    const addImport = (importId, dates) => dates.forEach(date => store.add({
+        mosque_id: mosque._id,
+        date,
+        prayer_times: { fajr: '04:10', maghrib: '19:05' },
+        import_id: importId
+    }));
+
+    it('rejects rows that are not objects', async () => {
+        for (const rows of [[null], ['2026-05-01'], [[]]]) {
+            const result = await request('POST', '/timetable/import/preview', { rows });
+            assert.equal(result.status, 400);
+            assert.equal(result.body.code, 'INVALID_ROW_FORMAT');
+        }
+    });
+
+    it('removes the days of one import and leaves the others', async () => {
+        addImport('may', ['2026-05-01', '2026-05-02']);
+        addImport('june', ['2026-06-01']);
+
+        const result = await request('DELETE', '/timetable/days?import_id=may');
+
+        assert.equal(result.status, 200);
+        assert.deepEqual(
+            { removed: result.body.removed, from: result.body.from, to: result.body.to },
+            { removed: 2, from: '2026-05-01', to: '2026-05-02' }
+        );
+        assert.deepEqual(store.days.map(day => day.import_id), ['june']);
+        assert.equal(Mosque.updateOne.mock.callCount(), 1);
+
+        const [log] = auditLogs;
+        assert.equal(log.action_details.before_data.prayer_times['2026-05-01'].fajr, '04:10');
+        assert.equal(log.action_details.after_data.prayer_times['2026-05-01'].fajr, '04:30');
+    });
+
+    it('removes every imported day in a date range', async () => {
+        addImport('may', ['2026-05-30', '2026-05-31']);
+        addImport('june', ['2026-06-01', '2026-06-02']);
+
+        const result = await request('DELETE', '/timetable/days?from=2026-05-31&to=2026-06-01');
+
+        assert.equal(result.status, 200);
+        assert.equal(result.body.removed, 2);
+        assert.deepEqual(store.days.map(day => day.date), ['2026-05-30', '2026-06-02']);
+    });
+
+    it('refuses requests without a valid import or range', async () => {
+        const cases = [
+            ['', 'MISSING_IMPORT_OR_RANGE'],
+            ['?from=2026-05-01', 'INVALID_DATE'],
+            ['?from=2026-06-01&to=2026-05-01', 'INVALID_DATE_RANGE'],
+            ['?from=2026-01-01&to=2026-12-31', 'DATE_RANGE_TOO_LARGE']
+        ];
+        for (const [query, code] of cases) {
+            const result = await request('DELETE', `/timetable/days${query}`);
+            assert.equal(result.status, 400, query);
+            assert.equal(result.body.code, code);
+        }
+    });
+
+    it('reports when nothing matches', async () => {
+        addImport('may', ['2026-05-01']);
+
+        const result = await request('DELETE', '/timetable/days?import_id=unknown');
+
+        assert.equal(result.status, 404);
+        assert.equal(result.body.code, 'TIMETABLE_DAYS_NOT_FOUND');
+        assert.equal(store.days.length, 1);
+        assert.equal(Mosque.updateOne.mock.callCount(), 0);
+    });
+});
@@ -0,0 +1,214 @@
+// Super admin two-factor authentication - TOTP codes, replay protection, recovery codes and step-up expiry
+import { describe, it, before, after, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import jwt from 'jsonwebtoken';
+import SuperAdmin from '../src/models/SuperAdmin.js';
+import Session from '../src/models/Session.js';
+import RateLimitBucket from '../src/models/RateLimitBucket.js';
+import AuditLog from '../src/models/AuditLog.js';
+import authRoutes from '../src/routes/auth.js';
+import { startSession } from '../src/utils/sessions.js';
+import {
+    verifyTotp,
+    encryptSecret,
+    decryptSecret,
+    hashRecoveryCode,
+    generateRecoveryCodes
+} from '../src/utils/totp.js';
+import { createSessionStore, mockQuery, startServer } from './helpers.js';
+
+// RFC 6238 test secret ("12345678901234567890") and its SHA-1 codes, cut to 6 digits
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const VECTOR_TIME = 1234567890 * 1000;
+const VECTOR_CODE = '005924';
+const VECTOR_STEP = Math.floor(1234567890 / 30);
+
+const MINUTE = 60 * 1000;
+
+describe('verifyTotp', () => {
+    afterEach(() => mock.timers.reset());
+
+    it('matches the RFC 6238 reference codes', () => {
+        for (const [seconds, code] of [[59, '287082'], [1111111109, '081804'], [2000000000, '279037']]) {
+            mock.timers.enable({ apis: ['Date'], now: seconds * 1000 });
+            assert.equal(verifyTotp(SECRET, code), Math.floor(seconds / 30));
+            mock.timers.reset();
+        }
+    });
+
+    it('accepts the neighbouring time steps for drifting clocks', () => {
+        mock.timers.enable({ apis: ['Date'], now: VECTOR_TIME + 30 * 1000 });
+        assert.equal(verifyTotp(SECRET, VECTOR_CODE), VECTOR_STEP);
+
+        mock.timers.tick(30 * 1000);
+        assert.equal(verifyTotp(SECRET, VECTOR_CODE), null);
+    });
+
+    it('refuses a code from a step that was already used', () => {
+        mock.timers.enable({ apis: ['Date'], now: VECTOR_TIME });
+        assert.equal(verifyTotp(SECRET, VECTOR_CODE, VECTOR_STEP - 1), VECTOR_STEP);
+        assert.equal(verifyTotp(SECRET, VECTOR_CODE, VECTOR_STEP), null);
+        assert.equal(verifyTotp(SECRET, VECTOR_CODE, VECTOR_STEP + 1), null);
+    });
+
+    it('ignores spaces and rejects malformed codes', () => {
+        mock.timers.enable({ apis: ['Date'], now: VECTOR_TIME });
+        assert.equal(verifyTotp(SECRET, '005 924'), VECTOR_STEP);
+        assert.equal(verifyTotp(SECRET, '5924'), null);
+        assert.equal(verifyTotp(SECRET, 'abcdef'), null);
+        assert.equal(verifyTotp(SECRET, undefined), null);
+    });
+});
+
+describe('two-factor secrets and recovery codes', () => {
+    it('encrypts secrets so they can be read back', () => {
+        const stored = encryptSecret(SECRET);
+        assert.ok(!stored.includes(SECRET));
+        assert.notEqual(encryptSecret(SECRET), stored);
+        assert.equal(decryptSecret(stored), SECRET);
+    });
+
+    it('generates distinct recovery codes', () => {
+        const codes = generateRecoveryCodes();
+        assert.equal(codes.length, 10);
+        assert.equal(new Set(codes).size, 10);
+        for (const code of codes) assert.match(code, /^[A-Z2-7]{4}-[A-Z2-7]{4}$/);
+    });
+
+    it('hashes recovery codes regardless of case, dashes and spaces', () => {
+        assert.equal(hashRecoveryCode('7f3k q9pd'), hashRecoveryCode('7F3K-Q9PD'));
+        assert.notEqual(hashRecoveryCode('7F3K-Q9PE'), hashRecoveryCode('7F3K-Q9PD'));
+    });
+});
+
+describe('super admin two-factor routes', () => {
+    const RECOVERY_CODES = ['AAAA-BBBB', 'CCCC-DDDD', 'EEEE-FFFF'];
+
+    let server;
+    let superAdmin;
+    let sessions;
+
+    before(async () => {
+        server = await startServer('/api/auth', authRoutes);
+    });
+
+    after(() => server.close());
+
+    beforeEach(() => {
+        mock.timers.enable({ apis: ['Date'], now: VECTOR_TIME });
+
+        superAdmin = new SuperAdmin({
+            name: 'Super Admin',
+            email: 'super@example.com',
+            password: 'not-used',
+            two_factor: {
+                enabled: true,
+                secret: encryptSecret(SECRET),
+                recovery_codes: RECOVERY_CODES.map(code => ({ hash: hashRecoveryCode(code) })),
+                enabled_at: new Date()
+            }
+        });
+        mock.method(superAdmin, 'save', async () => superAdmin);
+        mock.method(SuperAdmin, 'findById', () => mockQuery(superAdmin));
+
+        sessions = createSessionStore();
+        for (const method of ['create', 'find', 'updateOne', 'exists']) {
+            mock.method(Session, method, sessions[method]);
+        }
+
+        mock.method(RateLimitBucket, 'updateOne', async () => ({}));
+        mock.method(RateLimitBucket, 'updateMany', async () => ({}));
+        mock.method(RateLimitBucket, 'findOneAndUpdate', async () => ({ requests: 1, failures: 0, lockouts: 0, locked_until: null }));
+        mock.method(AuditLog, 'logAction', async () => null);
+        mock.method(console, 'log', () => {});
+    });
+
+    afterEach(() => {
+        mock.timers.reset();
+        mock.restoreAll();
+    });
+
+    const post = async (path, body, token) => {
+        const response = await fetch(`${server.url}${path}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...(token && { Authorization: `Bearer ${token}` }) },
+            body: JSON.stringify(body)
+        });
+        return { status: response.status, body: await response.json() };
+    };
+
+    // What /superadmin/login hands out once the password is right
+    const challenge = () => jwt.sign(
+        { userId: superAdmin._id, purpose: 'two_factor_login' },
+        process.env.JWT_SECRET,
+        { expiresIn: '5m' }
+    );
+
+    const loginWith = (code) => post('/superadmin/login/2fa', { challenge_token: challenge(), code });
+
+    it('signs in with an authenticator code and remembers its step', async () => {
+        const result = await loginWith(VECTOR_CODE);
+
+        assert.equal(result.status, 200);
+        assert.ok(result.body.token);
+        assert.equal(result.body.recovery_codes_remaining, undefined);
+        assert.equal(superAdmin.two_factor.last_used_step, VECTOR_STEP);
+        assert.equal(sessions.sessions.length, 1);
+    });
+
+    it('refuses the same authenticator code twice', async () => {
+        assert.equal((await loginWith(VECTOR_CODE)).status, 200);
+
+        const replayed = await loginWith(VECTOR_CODE);
+        assert.equal(replayed.status, 401);
+        assert.equal(replayed.body.code, 'INVALID_TWO_FACTOR_CODE');
+        assert.equal(sessions.sessions.length, 1);
+    });
+
+    it('accepts each recovery code only once', async () => {
+        const first = await loginWith('cccc dddd');
+        assert.equal(first.status, 200);
+        assert.equal(first.body.recovery_codes_remaining, 2);
+        assert.ok(superAdmin.two_factor.recovery_codes[1].used_at instanceof Date);
+
+        const reused = await loginWith('CCCC-DDDD');
+        assert.equal(reused.status, 401);
+        assert.equal(reused.body.code, 'INVALID_TWO_FACTOR_CODE');
+
+        assert.equal((await loginWith('EEEE-FFFF')).body.recovery_codes_remaining, 1);
+    });
+
+    it('rejects wrong codes', async () => {
+        assert.equal((await loginWith('123456')).status, 401);
+        assert.equal((await loginWith('ZZZZ-ZZZZ')).status, 401);
+        assert.equal(superAdmin.two_factor.last_used_step, null);
+    });
+
+    it('rejects a challenge older than five minutes', async () => {
+        const token = challenge();
+        mock.timers.tick(5 * MINUTE + 1000);
+
+        const result = await post('/superadmin/login/2fa', { challenge_token: token, code: VECTOR_CODE });
+        assert.equal(result.status, 401);
+        assert.equal(result.body.code, 'TWO_FACTOR_CHALLENGE_EXPIRED');
+    });
+
+    it('lets a step-up count for five minutes only', async () => {
+        const { token } = await startSession({ ip: '127.0.0.1', get: () => undefined }, { cookie: () => {} }, superAdmin, 'super_admin');
+
+        const required = await post('/superadmin/2fa/recovery-codes', {}, token);
+        assert.equal(required.status, 403);
+        assert.equal(required.body.code, 'STEP_UP_REQUIRED');
+        assert.equal(required.body.method, 'totp');
+
+        const stepUp = await post('/superadmin/step-up', { code: VECTOR_CODE }, token);
+        assert.equal(stepUp.status, 200);
+        assert.equal(new Date(stepUp.body.step_up_expires_at).getTime(), VECTOR_TIME + 5 * MINUTE);
+
+        mock.timers.tick(5 * MINUTE - 1000);
+        assert.equal((await post('/superadmin/2fa/recovery-codes', {}, token)).status, 200);
+
+        mock.timers.tick(2000);
+        assert.equal((await post('/superadmin/2fa/recovery-codes', {}, token)).body.code, 'STEP_UP_REQUIRED');
+    });
+});
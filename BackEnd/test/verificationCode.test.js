@@ -0,0 +1,175 @@
+// Mosque verification codes - keyed hashing, checks and the plaintext-to-hash migration
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import Mosque from '../src/models/Mosque.js';
+import {
+    hashVerificationCode,
+    toStoredVerificationCode,
+    verifyMosqueCode,
+    isVerificationCodeExpired
+} from '../src/utils/verificationCode.js';
+import { migrateMosques, migratePendingVerifications } from '../scripts/hashVerificationCodes.js';
+
+const CODE = 'A1B2C3D4E5F6A7B8';
+
+const readPath = (doc, path) => path.split('.').reduce((value, key) => value?.[key], doc);
+
+const matches = (doc, filter) => Object.entries(filter).every(([path, condition]) => {
+    if (path === '$or') return condition.some(option => matches(doc, option));
+    const value = readPath(doc, path);
+    if (condition && typeof condition === 'object' && '$exists' in condition) {
+        return (value !== undefined) === condition.$exists;
+    }
+    return value === condition;
+});
+
+// In-memory stand-in for the driver collection the migration works on
+const createCollection = (docs, indexNames = ['_id_']) => ({
+    docs,
+    updates: 0,
+    find(filter) {
+        return docs.filter(doc => matches(doc, filter)).map(doc => structuredClone(doc));
+    },
+    async updateOne({ _id }, { $set = {}, $unset = {} }) {
+        const doc = docs.find(candidate => candidate._id === _id);
+        Object.assign(doc, $set);
+        for (const key of Object.keys($unset)) delete doc[key];
+        this.updates++;
+    },
+    async indexes() {
+        return indexNames.map(name => ({ name }));
+    },
+    async dropIndex(name) {
+        indexNames.splice(indexNames.indexOf(name), 1);
+    }
+});
+
+describe('hashVerificationCode', () => {
+    let savedSecret;
+
+    beforeEach(() => {
+        savedSecret = process.env.VERIFICATION_CODE_SECRET;
+        process.env.VERIFICATION_CODE_SECRET = 'key-one';
+    });
+
+    afterEach(() => {
+        if (savedSecret === undefined) delete process.env.VERIFICATION_CODE_SECRET;
+        else process.env.VERIFICATION_CODE_SECRET = savedSecret;
+    });
+
+    it('is stable for the same key', () => {
+        assert.equal(hashVerificationCode(CODE), hashVerificationCode(CODE));
+        assert.match(hashVerificationCode(CODE), /^[0-9a-f]{64}$/);
+    });
+
+    it('changes with the key', () => {
+        const first = hashVerificationCode(CODE);
+        process.env.VERIFICATION_CODE_SECRET = 'key-two';
+        assert.notEqual(hashVerificationCode(CODE), first);
+    });
+
+    it('never contains the plaintext code', () => {
+        assert.ok(!hashVerificationCode(CODE).toUpperCase().includes(CODE));
+    });
+});
+
+describe('verifyMosqueCode', () => {
+    const mosque = toStoredVerificationCode(CODE);
+
+    it('accepts the code regardless of case and surrounding whitespace', () => {
+        assert.equal(verifyMosqueCode(mosque, CODE), true);
+        assert.equal(verifyMosqueCode(mosque, CODE.toLowerCase()), true);
+        assert.equal(verifyMosqueCode(mosque, `  ${CODE.toLowerCase()}\n`), true);
+    });
+
+    it('rejects wrong and missing codes', () => {
+        assert.equal(verifyMosqueCode(mosque, 'A1B2C3D4E5F6A7B9'), false);
+        assert.equal(verifyMosqueCode(mosque, CODE.slice(0, 4)), false);
+        assert.equal(verifyMosqueCode(mosque, ''), false);
+        assert.equal(verifyMosqueCode(mosque, undefined), false);
+        assert.equal(verifyMosqueCode({}, CODE), false);
+        assert.equal(verifyMosqueCode(null, CODE), false);
+    });
+
+    it('rejects a corrupted stored hash', () => {
+        assert.equal(verifyMosqueCode({ verification_code_hash: 'not-hex' }, CODE), false);
+    });
+});
+
+describe('isVerificationCodeExpired', () => {
+    const now = new Date('2026-06-01T12:00:00Z');
+
+    it('rejects codes past their expiry', () => {
+        const mosque = { ...toStoredVerificationCode(CODE), verification_code_expires: new Date('2026-06-01T11:59:59Z') };
+        assert.equal(verifyMosqueCode(mosque, CODE), true);
+        assert.equal(isVerificationCodeExpired(mosque, now), true);
+    });
+
+    it('accepts codes that have not expired or have no expiry', () => {
+        assert.equal(isVerificationCodeExpired({ verification_code_expires: new Date('2026-06-02T00:00:00Z') }, now), false);
+        assert.equal(isVerificationCodeExpired({ verification_code_expires: null }, now), false);
+    });
+});
+
+describe('verification code migration', () => {
+    beforeEach(() => {
+        mock.method(console, 'log', () => {});
+        mock.method(Mosque, 'createIndexes', async () => {});
+    });
+
+    afterEach(() => mock.restoreAll());
+
+    it('hashes plaintext mosque codes and drops the old index', async () => {
+        const collection = createCollection(
+            [{ _id: 1, name: 'Plaintext', verification_code: CODE }],
+            ['_id_', 'verification_code_1']
+        );
+
+        assert.equal(await migrateMosques(collection), 1);
+
+        const [mosque] = collection.docs;
+        assert.equal(mosque.verification_code, undefined);
+        assert.equal(mosque.verification_code_prefix, 'A1B2');
+        assert.equal(verifyMosqueCode(mosque, CODE), true);
+        assert.deepEqual((await collection.indexes()).map(index => index.name), ['_id_']);
+    });
+
+    it('skips mosques that are already hashed', async () => {
+        const hashed = { _id: 1, name: 'Hashed', ...toStoredVerificationCode(CODE) };
+        const collection = createCollection([structuredClone(hashed)]);
+
+        assert.equal(await migrateMosques(collection), 0);
+        assert.equal(collection.updates, 0);
+        assert.deepEqual(collection.docs[0], hashed);
+    });
+
+    it('keeps an existing hash when a leftover plaintext field is removed', async () => {
+        const stored = toStoredVerificationCode(CODE);
+        const collection = createCollection([{ _id: 1, verification_code: 'FFFFFFFFFFFFFFFF', ...stored }]);
+
+        await migrateMosques(collection);
+
+        assert.equal(collection.docs[0].verification_code, undefined);
+        assert.equal(collection.docs[0].verification_code_hash, stored.verification_code_hash);
+    });
+
+    it('is idempotent', async () => {
+        const collection = createCollection([
+            { _id: 1, verification_code: CODE },
+            { _id: 2, ...toStoredVerificationCode('0011223344556677') }
+        ]);
+
+        assert.equal(await migrateMosques(collection), 1);
+        const afterFirstRun = structuredClone(collection.docs);
+        assert.equal(await migrateMosques(collection), 0);
+        assert.deepEqual(collection.docs, afterFirstRun);
+    });
+
+    it('hashes pending registrations once', async () => {
+        const collection = createCollection([{ _id: 1, mosque_verification_code: CODE }]);
+
+        assert.equal(await migratePendingVerifications(collection), 1);
+        assert.equal(collection.docs[0].mosque_verification_code_hash, hashVerificationCode(CODE));
+        assert.equal(await migratePendingVerifications(collection), 0);
+    });
+});
@@ -0,0 +1,39 @@
+// Web Push handling for prayer reminders. Loaded into the generated service worker
+// through workbox.importScripts in vite.config.ts.
+
+self.addEventListener("push", (event) => {
+  let data = {};
+  try {
+    data = event.data ? event.data.json() : {};
+  } catch {
+    data = { body: event.data ? event.data.text() : "" };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(data.title || "Mosque Finder", {
+      body: data.body || "",
+      icon: "/icons/icon-192x192.png",
+      badge: "/icons/icon-192x192.png",
+      // A newer reminder or alert for the same mosque replaces the one still on screen
+      tag: data.tag,
+      renotify: Boolean(data.tag),
+      data: { url: data.url || "/", type: data.type },
+    })
+  );
+});
+
+// Focus an open tab on the mosque's page, or open one
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || "/", self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((client) => client.url === url);
+      if (existing) return existing.focus();
+      const anyWindow = windows.find((client) => "navigate" in client);
+      if (anyWindow) return anyWindow.navigate(url).then((client) => client && client.focus());
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -10,6 +10,7 @@ import AdminLoginPage from './pages/AdminLoginPage';
 import AdminDashboardPage from './pages/AdminDashboardPage';
 import AdminStatusPage from './pages/AdminStatusPage';
 import AdminReapplicationPage from './pages/AdminReapplicationPage';
+import AdminInvitationPage from './pages/AdminInvitationPage';
 import SuperAdminLoginPage from './pages/SuperAdminLoginPage';
 import SuperAdminRegisterPage from './pages/SuperAdminRegisterPage';
 import SuperAdminDashboard from './pages/SuperAdminDashboard';
@@ -44,6 +45,7 @@ function App() {
             <Route path="/admin/dashboard" element={<AdminDashboardPage />} />
             <Route path="/admin/status" element={<AdminStatusPage />} />
             <Route path="/admin/reapply" element={<AdminReapplicationPage />} />
+            <Route path="/admin/invite/:token" element={<AdminInvitationPage />} />
 
             {/* Super Admin Routes */}
             <Route path="/superadmin/register" element={<SuperAdminRegisterPage />} />
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Monitor, Smartphone, Tablet, MapPin, Clock, LogOut, Shield, RefreshCw } from 'react-feather';
+import { authApi } from '../lib/api';
+import { useSessions, sessionQueryKeys } from '../lib/queries';
+import { getErrorMessage } from '../lib/types';
+import type { ActiveSession } from '../lib/types';
+
+interface ActiveSessionsProps {
+    onSuccess: (message: string) => void;
+    onError: (message: string) => void;
+    // Called after the user revokes the session they are using right now
+    onCurrentSessionRevoked: () => void;
+}
+
+const DEVICE_ICONS = {
+    desktop: Monitor,
+    mobile: Smartphone,
+    tablet: Tablet
+};
+
+const formatDateTime = (value: string) =>
+    new Date(value).toLocaleString('en-US', {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit'
+    });
+
+// Security tab: where the account is signed in, with per-session revoke
+const ActiveSessions: React.FC<ActiveSessionsProps> = ({ onSuccess, onError, onCurrentSessionRevoked }) => {
+    const queryClient = useQueryClient();
+    const { data: sessions, isLoading, error, refetch, isFetching } = useSessions();
+    const [revokingId, setRevokingId] = useState<string | null>(null);
+
+    const handleRevoke = async (session: ActiveSession) => {
+        const prompt = session.current
+            ? 'Sign out of this device? You will need to sign in again.'
+            : `Sign out ${session.device.label}?`;
+        if (!window.confirm(prompt)) {
+            return;
+        }
+
+        setRevokingId(session.id);
+        try {
+            const response = await authApi.revokeSession(session.id);
+            if (response.data.current) {
+                onCurrentSessionRevoked();
+                return;
+            }
+            onSuccess(`${session.device.label} has been signed out`);
+            queryClient.invalidateQueries({ queryKey: sessionQueryKeys.all });
+        } catch (err) {
+            onError(getErrorMessage(err));
+        } finally {
+            setRevokingId(null);
+        }
+    };
+
+    return (
+        <div className="relative bg-white/80 backdrop-blur-xl rounded-3xl p-6 sm:p-8 border border-gray-200/60 shadow-2xl overflow-hidden">
+            <div className="flex items-start justify-between mb-6 gap-4">
+                <div>
+                    <h4 className="text-lg font-bold text-gray-800 flex items-center">
+                        <Shield className="w-5 h-5 text-green-600 mr-2" />
+                        Active Sessions
+                    </h4>
+                    <p className="text-sm text-gray-600 mt-1">
+                        Devices signed in to your account. Sign out any you don't recognise and change your password.
+                    </p>
+                </div>
+                <button
+                    onClick={() => refetch()}
+                    disabled={isFetching}
+                    className="flex-shrink-0 text-gray-500 hover:text-green-600 p-2 rounded-xl hover:bg-green-50 transition-colors duration-200 disabled:opacity-50"
+                    title="Refresh"
+                >
+                    <RefreshCw className={`w-5 h-5 ${isFetching ? 'animate-spin' : ''}`} />
+                </button>
+            </div>
+
+            {isLoading && (
+                <div className="flex justify-center py-10">
+                    <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-green-600"></div>
+                </div>
+            )}
+
+            {error && !isLoading && (
+                <p className="text-sm text-red-600 bg-red-50 border border-red-200 rounded-xl p-4">
+                    {getErrorMessage(error)}
+                </p>
+            )}
+
+            {sessions && sessions.length === 0 && (
+                <p className="text-sm text-gray-500 text-center py-8">No active sessions.</p>
+            )}
+
+            <div className="space-y-3">
+                {sessions?.map((session) => {
+                    const DeviceIcon = DEVICE_ICONS[session.device.type] || Monitor;
+                    return (
+                        <div
+                            key={session.id}
+                            className={`flex flex-col sm:flex-row sm:items-center gap-4 rounded-2xl border p-4 ${session.current
+                                ? 'bg-green-50/80 border-green-300'
+                                : 'bg-white border-gray-200'
+                                }`}
+                        >
+                            <div className="flex items-center flex-1 min-w-0">
+                                <div className="w-11 h-11 rounded-xl bg-gray-100 flex items-center justify-center flex-shrink-0 mr-4">
+                                    <DeviceIcon className="w-5 h-5 text-gray-600" />
+                                </div>
+                                <div className="min-w-0">
+                                    <p className="font-semibold text-gray-800 flex items-center flex-wrap gap-2">
+                                        {session.device.label}
+                                        {session.current && (
+                                            <span className="text-xs font-bold text-green-700 bg-green-100 px-2 py-0.5 rounded-full">
+                                                This device
+                                            </span>
+                                        )}
+                                    </p>
+                                    <p className="text-sm text-gray-500 flex items-center mt-1">
+                                        <MapPin className="w-3.5 h-3.5 mr-1 flex-shrink-0" />
+                                        <span className="truncate">
+                                            {session.location || 'Unknown location'}
+                                            {session.ip_address && ` · ${session.ip_address}`}
+                                        </span>
+                                    </p>
+                                    <p className="text-xs text-gray-400 flex items-center mt-1">
+                                        <Clock className="w-3.5 h-3.5 mr-1 flex-shrink-0" />
+                                        Signed in {formatDateTime(session.created_at)} · Last seen {formatDateTime(session.last_used_at)}
+                                    </p>
+                                </div>
+                            </div>
+                            <button
+                                onClick={() => handleRevoke(session)}
+                                disabled={revokingId === session.id}
+                                className="flex items-center justify-center text-sm font-medium text-red-600 hover:text-white hover:bg-red-500 border border-red-200 hover:border-red-500 px-4 py-2 rounded-xl transition-all duration-200 disabled:opacity-50"
+                            >
+                                <LogOut className="w-4 h-4 mr-2" />
+                                {revokingId === session.id ? 'Signing out...' : 'Sign out'}
+                            </button>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default ActiveSessions;
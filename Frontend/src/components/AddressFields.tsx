@@ -0,0 +1,75 @@
+import React from 'react';
+import type { MosqueAddress } from '../lib/types';
+import { PROVINCES } from '../lib/address';
+
+interface AddressFieldsProps {
+    value: MosqueAddress;
+    onChange: (value: MosqueAddress) => void;
+    // Lets each form keep its own input look
+    inputClassName?: string;
+    labelClassName?: string;
+}
+
+const TEXT_FIELDS: { field: keyof MosqueAddress; label: string; placeholder: string }[] = [
+    { field: 'street', label: 'Street', placeholder: 'e.g. 12 Mall Road' },
+    { field: 'area', label: 'Area / Sector', placeholder: 'e.g. Gulberg III' },
+    { field: 'city', label: 'City', placeholder: 'e.g. Lahore' },
+    { field: 'district', label: 'District', placeholder: 'e.g. Lahore' }
+];
+
+const AddressFields: React.FC<AddressFieldsProps> = ({
+    value,
+    onChange,
+    inputClassName = 'w-full px-3 py-2 text-sm bg-white/80 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 focus:border-transparent transition-all duration-200',
+    labelClassName = 'block text-xs font-semibold text-gray-600 mb-1'
+}) => {
+    const update = (field: keyof MosqueAddress, fieldValue: string) => {
+        onChange({ ...value, [field]: fieldValue });
+    };
+
+    return (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {TEXT_FIELDS.map(({ field, label, placeholder }) => (
+                <div key={field}>
+                    <label className={labelClassName}>{label}</label>
+                    <input
+                        type="text"
+                        value={value[field]}
+                        onChange={(e) => update(field, e.target.value)}
+                        maxLength={100}
+                        className={inputClassName}
+                        placeholder={placeholder}
+                    />
+                </div>
+            ))}
+
+            <div>
+                <label className={labelClassName}>Province</label>
+                <select
+                    value={value.province}
+                    onChange={(e) => update('province', e.target.value)}
+                    className={inputClassName}
+                >
+                    <option value="">Select province</option>
+                    {PROVINCES.map((province) => (
+                        <option key={province} value={province}>{province}</option>
+                    ))}
+                </select>
+            </div>
+
+            <div>
+                <label className={labelClassName}>Postal Code</label>
+                <input
+                    type="text"
+                    inputMode="numeric"
+                    value={value.postal_code}
+                    onChange={(e) => update('postal_code', e.target.value.replace(/\D/g, '').slice(0, 5))}
+                    className={inputClassName}
+                    placeholder="e.g. 54000"
+                />
+            </div>
+        </div>
+    );
+};
+
+export default AddressFields;
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { Bookmark, Calendar, ChevronLeft, ChevronRight, Rss, Volume2 } from 'react-feather';
+import { mosqueApi } from '../lib/api';
+import { useAnnouncements } from '../lib/queries';
+import { formatEventTime } from '../lib/dates';
+import { getCategoryBadge } from '../lib/announcements';
+
+interface AnnouncementsBoardProps {
+    mosqueId: string;
+}
+
+// A mosque's announcements and events, pinned first. Like the gallery it is optional,
+// so nothing is shown while loading, on errors or when the board is empty.
+const AnnouncementsBoard: React.FC<AnnouncementsBoardProps> = ({ mosqueId }) => {
+    const [page, setPage] = useState(1);
+    const { data } = useAnnouncements(mosqueId, page);
+
+    if (!data || data.pagination.total === 0) return null;
+
+    const totalPages = Math.ceil(data.pagination.total / data.pagination.limit);
+
+    return (
+        <div className="relative bg-gradient-to-br from-white via-green-50/50 to-emerald-50/30 backdrop-blur-xl border-2 border-white/40 rounded-xl sm:rounded-2xl shadow-2xl p-3 sm:p-4 lg:p-8 mb-4 sm:mb-6 lg:mb-8">
+            {/* 3D Background Effects */}
+            <div className="absolute inset-0 bg-gradient-to-br from-white/30 to-transparent opacity-60 rounded-xl sm:rounded-2xl"></div>
+
+            <div className="relative z-10">
+                <div className="flex items-center justify-between mb-3 sm:mb-4 lg:mb-6">
+                    <div className="flex items-center">
+                        <div className="relative mr-2 sm:mr-3 lg:mr-4">
+                            <div className="absolute inset-0 bg-gradient-to-r from-green-400 to-emerald-500 rounded-lg sm:rounded-xl blur-sm opacity-30"></div>
+                            <div className="relative bg-gradient-to-r from-green-500 to-emerald-600 rounded-lg sm:rounded-xl p-2 sm:p-2.5 lg:p-3 shadow-lg">
+                                <Volume2 className="w-4 h-4 sm:w-5 sm:h-5 lg:w-6 lg:h-6 text-white" />
+                            </div>
+                        </div>
+                        <h2 className="text-base sm:text-sm lg:text-2xl xl:text-3xl font-bold text-gray-900">
+                            <span className="hidden sm:inline">Announcements & Events</span>
+                            <span className="sm:hidden">Announcements</span>
+                        </h2>
+                    </div>
+                    <a
+                        href={mosqueApi.getAnnouncementsFeedUrl(mosqueId)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center text-xs sm:text-sm font-medium text-orange-600 hover:text-orange-700"
+                        title="Follow in a feed reader"
+                    >
+                        <Rss className="w-4 h-4 mr-1" />
+                        Feed
+                    </a>
+                </div>
+
+                <div className="space-y-3">
+                    {data.announcements.map((announcement) => (
+                        <article key={announcement.id} className="bg-white/80 rounded-lg sm:rounded-xl border border-green-100 shadow-sm p-3 sm:p-4">
+                            <div className="flex items-center gap-2 flex-wrap">
+                                {announcement.pinned && <Bookmark className="w-4 h-4 text-green-600" aria-label="Pinned" />}
+                                <h3 className="font-semibold text-gray-900 text-sm sm:text-base">{announcement.title}</h3>
+                                <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${getCategoryBadge(announcement.category)}`}>
+                                    {announcement.category_label}
+                                </span>
+                            </div>
+                            {announcement.starts_at && (
+                                <p className="text-xs sm:text-sm text-green-700 font-medium mt-1 flex items-center">
+                                    <Calendar className="w-3 h-3 sm:w-4 sm:h-4 mr-1" />
+                                    {formatEventTime(announcement.starts_at, announcement.ends_at)}
+                                </p>
+                            )}
+                            <p className="text-sm text-gray-700 mt-2 whitespace-pre-line">{announcement.body}</p>
+                            <p className="text-xs text-gray-500 mt-2">
+                                Posted {new Date(announcement.created_at).toLocaleDateString()}
+                            </p>
+                        </article>
+                    ))}
+                </div>
+
+                {totalPages > 1 && (
+                    <div className="flex items-center justify-center gap-3 mt-4">
+                        <button
+                            type="button"
+                            onClick={() => setPage(page - 1)}
+                            disabled={page <= 1}
+                            className="p-2 rounded-lg bg-white border border-green-200 text-green-700 hover:bg-green-50 disabled:opacity-40"
+                            aria-label="Newer announcements"
+                        >
+                            <ChevronLeft className="w-4 h-4" />
+                        </button>
+                        <span className="text-sm text-gray-600">Page {page} of {totalPages}</span>
+                        <button
+                            type="button"
+                            onClick={() => setPage(page + 1)}
+                            disabled={page >= totalPages}
+                            className="p-2 rounded-lg bg-white border border-green-200 text-green-700 hover:bg-green-50 disabled:opacity-40"
+                            aria-label="Older announcements"
+                        >
+                            <ChevronRight className="w-4 h-4" />
+                        </button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default AnnouncementsBoard;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { Clock, AlertTriangle } from 'react-feather';
+import { formatCooldown } from '../lib/rateLimit';
+import type { AuthThrottle } from '../lib/rateLimit';
+
+interface AuthThrottleNoticeProps {
+    throttle: AuthThrottle | null;
+    cooldown: number;
+}
+
+// Shown under a login form after a failed attempt: attempts left, or the lockout countdown
+const AuthThrottleNotice: React.FC<AuthThrottleNoticeProps> = ({ throttle, cooldown }) => {
+    if (cooldown > 0) {
+        return (
+            <div className="flex items-center bg-gradient-to-r from-orange-50/80 to-amber-50/60 border-2 border-orange-200/50 rounded-lg sm:rounded-xl p-3 sm:p-4 mb-4 sm:mb-6 text-sm sm:text-base text-orange-800">
+                <Clock className="w-4 h-4 sm:w-5 sm:h-5 mr-2 sm:mr-3 flex-shrink-0" />
+                <span>
+                    Too many failed attempts. You can try again in <strong className="font-mono">{formatCooldown(cooldown)}</strong>.
+                </span>
+            </div>
+        );
+    }
+
+    if (throttle?.attemptsRemaining == null || throttle.retryAt) {
+        return null;
+    }
+
+    return (
+        <div className="flex items-center bg-gradient-to-r from-yellow-50/80 to-amber-50/60 border-2 border-yellow-200/50 rounded-lg sm:rounded-xl p-3 sm:p-4 mb-4 sm:mb-6 text-sm sm:text-base text-yellow-800">
+            <AlertTriangle className="w-4 h-4 sm:w-5 sm:h-5 mr-2 sm:mr-3 flex-shrink-0" />
+            <span>
+                {throttle.attemptsRemaining} {throttle.attemptsRemaining === 1 ? 'attempt' : 'attempts'} remaining before sign-in is temporarily locked.
+            </span>
+        </div>
+    );
+};
+
+export default AuthThrottleNotice;
@@ -0,0 +1,218 @@
+import React, { useState } from 'react';
+import { User, LogOut, Mail, X } from 'react-feather';
+import { congregantApi } from '../lib/api';
+import { getErrorMessage } from '../lib/types';
+import type { Congregant } from '../lib/types';
+import { getAuthThrottle, useCooldown } from '../lib/rateLimit';
+import type { AuthThrottle } from '../lib/rateLimit';
+import AuthThrottleNotice from './AuthThrottleNotice';
+import {
+    getStoredFavorites,
+    getSignedInCongregant,
+    canSignInAsCongregant,
+    completeCongregantSignIn,
+    signOutCongregant
+} from '../lib/favorites';
+
+interface CongregantAccountProps {
+    favorites: string[];
+    onFavoritesChange: (favorites: string[]) => void;
+}
+
+// Optional sign-in with an emailed code so a visitor's favorite mosques follow them to other devices
+const CongregantAccount: React.FC<CongregantAccountProps> = ({ favorites, onFavoritesChange }) => {
+    const [congregant, setCongregant] = useState<Congregant | null>(() => getSignedInCongregant());
+    const [showModal, setShowModal] = useState(false);
+    const [step, setStep] = useState<'email' | 'code'>('email');
+    const [email, setEmail] = useState('');
+    const [name, setName] = useState('');
+    const [code, setCode] = useState('');
+    const [submitting, setSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+    const [throttle, setThrottle] = useState<AuthThrottle | null>(null);
+    const cooldown = useCooldown(throttle?.retryAt ?? null);
+
+    if (!congregant && !canSignInAsCongregant()) return null;
+
+    const openModal = () => {
+        setStep('email');
+        setCode('');
+        setError(null);
+        setNotice(null);
+        setThrottle(null);
+        setShowModal(true);
+    };
+
+    const handleRequestCode = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSubmitting(true);
+        setError(null);
+        try {
+            const response = await congregantApi.requestCode(email.trim(), name.trim() || undefined);
+            setNotice(response.data.message);
+            setStep('code');
+        } catch (err) {
+            setError(getErrorMessage(err));
+            setThrottle(getAuthThrottle(err));
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const handleVerifyCode = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSubmitting(true);
+        setError(null);
+        try {
+            const response = await congregantApi.verifyCode(email.trim(), code.trim(), getStoredFavorites());
+            completeCongregantSignIn(response.data);
+            setCongregant(response.data.congregant);
+            onFavoritesChange(response.data.favorites);
+            setShowModal(false);
+            setNotice(response.data.favorites_merged > 0
+                ? `${response.data.favorites_merged} favorite${response.data.favorites_merged === 1 ? '' : 's'} from this device added to your account`
+                : null);
+        } catch (err) {
+            setError(getErrorMessage(err));
+            setThrottle(getAuthThrottle(err));
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const handleSignOut = async () => {
+        try {
+            await signOutCongregant();
+        } catch (err) {
+            console.error('Sign out error:', err);
+        }
+        setCongregant(null);
+        setNotice(null);
+    };
+
+    return (
+        <div className="relative bg-gradient-to-br from-white via-green-50/50 to-emerald-50/30 backdrop-blur-xl border-2 border-white/40 rounded-xl sm:rounded-2xl p-3 sm:p-4 lg:p-6 mb-3 sm:mb-6 lg:mb-8 shadow-xl">
+            <div className="flex flex-col lg:flex-row lg:items-center gap-3">
+                <div className="flex-1">
+                    <h2 className="text-base lg:text-lg font-bold text-gray-900 flex items-center">
+                        <User className="w-4 h-4 sm:w-5 sm:h-5 mr-2 text-green-600" />
+                        {congregant ? `Signed in as ${congregant.name || congregant.email}` : 'Keep Your Favorites'}
+                    </h2>
+                    <p className="text-sm text-gray-600 mt-1">
+                        {congregant
+                            ? `Your ${favorites.length} favorite mosque${favorites.length === 1 ? ' is' : 's are'} saved to your account and shown on every device you sign in on.`
+                            : 'Sign in with your email to keep your favorite mosques on all your devices. No password needed.'}
+                    </p>
+                </div>
+                {congregant ? (
+                    <button
+                        onClick={handleSignOut}
+                        className="flex items-center justify-center gap-1 px-3 py-1.5 text-sm font-semibold text-gray-700 bg-white border-2 border-gray-200 hover:border-red-300 hover:text-red-600 rounded-lg transition-colors"
+                    >
+                        <LogOut className="w-4 h-4" />
+                        Sign out
+                    </button>
+                ) : (
+                    <button
+                        onClick={openModal}
+                        className="flex items-center justify-center gap-1 px-3 py-1.5 text-sm font-semibold text-white bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 rounded-lg shadow-md transition-all"
+                    >
+                        <Mail className="w-4 h-4" />
+                        Sign in
+                    </button>
+                )}
+            </div>
+            {notice && !showModal && (
+                <p className="mt-2 text-sm text-green-700">{notice}</p>
+            )}
+
+            {showModal && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center px-4">
+                    <div className="fixed inset-0 bg-gray-500 bg-opacity-75" onClick={() => setShowModal(false)}></div>
+                    <div className="relative w-full max-w-md p-6 bg-gradient-to-br from-green-50 via-emerald-50/30 to-teal-50/20 backdrop-blur-xl shadow-2xl rounded-2xl border border-green-200/50">
+                        <div className="flex items-center justify-between mb-4">
+                            <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                                <Mail className="w-5 h-5 text-green-600 mr-2" />
+                                {step === 'email' ? 'Sign in with email' : 'Enter your code'}
+                            </h3>
+                            <button
+                                onClick={() => setShowModal(false)}
+                                className="text-gray-400 hover:text-gray-600 transition-colors p-1"
+                                aria-label="Close"
+                            >
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+
+                        {step === 'email' ? (
+                            <form onSubmit={handleRequestCode} className="space-y-3">
+                                <p className="text-sm text-gray-600">
+                                    We'll email you a 6-digit code. Your {favorites.length > 0 ? `${favorites.length} favorite${favorites.length === 1 ? '' : 's'} on this device will be added to your account.` : 'favorites will be saved to your account.'}
+                                </p>
+                                <input
+                                    type="email"
+                                    value={email}
+                                    onChange={(e) => setEmail(e.target.value)}
+                                    placeholder="you@example.com"
+                                    required
+                                    autoFocus
+                                    className="w-full px-3 py-2 bg-white/80 border-2 border-green-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                                />
+                                <input
+                                    type="text"
+                                    value={name}
+                                    onChange={(e) => setName(e.target.value)}
+                                    placeholder="Your name (optional)"
+                                    className="w-full px-3 py-2 bg-white/80 border-2 border-green-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                                />
+                                <AuthThrottleNotice throttle={throttle} cooldown={cooldown} />
+                                {error && <p className="text-sm text-red-600">{error}</p>}
+                                <button
+                                    type="submit"
+                                    disabled={submitting || !email.trim() || cooldown > 0}
+                                    className="w-full px-4 py-2 font-semibold text-white bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 rounded-lg shadow-md transition-all disabled:opacity-50"
+                                >
+                                    {submitting ? 'Sending...' : 'Send code'}
+                                </button>
+                            </form>
+                        ) : (
+                            <form onSubmit={handleVerifyCode} className="space-y-3">
+                                <p className="text-sm text-gray-600">{notice || `We emailed a code to ${email}.`}</p>
+                                <input
+                                    type="text"
+                                    inputMode="numeric"
+                                    autoComplete="one-time-code"
+                                    value={code}
+                                    onChange={(e) => setCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                                    placeholder="123456"
+                                    required
+                                    autoFocus
+                                    className="w-full px-3 py-2 text-center text-2xl font-mono tracking-widest bg-white/80 border-2 border-green-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                                />
+                                <AuthThrottleNotice throttle={throttle} cooldown={cooldown} />
+                                {error && <p className="text-sm text-red-600">{error}</p>}
+                                <button
+                                    type="submit"
+                                    disabled={submitting || code.length !== 6 || cooldown > 0}
+                                    className="w-full px-4 py-2 font-semibold text-white bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 rounded-lg shadow-md transition-all disabled:opacity-50"
+                                >
+                                    {submitting ? 'Signing in...' : 'Sign in'}
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => { setStep('email'); setError(null); setThrottle(null); }}
+                                    className="w-full text-sm text-green-700 hover:text-green-800"
+                                >
+                                    Use a different email or send a new code
+                                </button>
+                            </form>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default CongregantAccount;
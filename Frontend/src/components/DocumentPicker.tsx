@@ -0,0 +1,126 @@
+import React, { useRef, useState } from 'react';
+import { Paperclip, X, FileText, AlertTriangle } from 'react-feather';
+import {
+    ACCEPTED_DOCUMENT_TYPES,
+    DOCUMENT_KIND_OPTIONS,
+    MAX_DOCUMENT_BYTES,
+    MAX_DOCUMENTS_PER_UPLOAD,
+    formatFileSize,
+    validateDocumentFile,
+} from '../lib/applicationDocuments';
+import type { SelectedDocument } from '../lib/applicationDocuments';
+import type { ApplicationDocumentKind } from '../lib/types';
+
+interface DocumentPickerProps {
+    documents: SelectedDocument[];
+    onChange: (documents: SelectedDocument[]) => void;
+    disabled?: boolean;
+}
+
+// Attach ownership documents (committee letter, ID) to an admin application
+const DocumentPicker: React.FC<DocumentPickerProps> = ({ documents, onChange, disabled = false }) => {
+    const inputRef = useRef<HTMLInputElement>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleFiles = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(event.target.files ?? []);
+        event.target.value = '';
+
+        const room = MAX_DOCUMENTS_PER_UPLOAD - documents.length;
+        if (files.length > room) {
+            setError(`You can attach up to ${MAX_DOCUMENTS_PER_UPLOAD} documents at a time`);
+            return;
+        }
+        const invalid = files.map(validateDocumentFile).find(Boolean);
+        if (invalid) {
+            setError(invalid);
+            return;
+        }
+
+        setError(null);
+        // The first document is most often the committee letter, so suggest it until one is chosen
+        const hasLetter = documents.some((document) => document.kind === 'committee_letter');
+        onChange([
+            ...documents,
+            ...files.map((file, index) => ({
+                file,
+                kind: (!hasLetter && index === 0 ? 'committee_letter' : 'other') as ApplicationDocumentKind,
+            })),
+        ]);
+    };
+
+    const setKind = (index: number, kind: ApplicationDocumentKind) =>
+        onChange(documents.map((document, i) => (i === index ? { ...document, kind } : document)));
+
+    const remove = (index: number) => onChange(documents.filter((_, i) => i !== index));
+
+    return (
+        <div className="space-y-2">
+            {documents.map((document, index) => (
+                <div
+                    key={`${document.file.name}-${index}`}
+                    className="flex flex-col sm:flex-row sm:items-center gap-2 bg-white/70 border border-green-200/60 rounded-lg sm:rounded-xl p-2 sm:p-3"
+                >
+                    <div className="flex items-center flex-1 min-w-0">
+                        <FileText className="w-4 h-4 text-green-600 mr-2 flex-shrink-0" />
+                        <span className="text-sm text-gray-800 truncate">{document.file.name}</span>
+                        <span className="text-xs text-gray-500 ml-2 flex-shrink-0">{formatFileSize(document.file.size)}</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <select
+                            value={document.kind}
+                            onChange={(event) => setKind(index, event.target.value as ApplicationDocumentKind)}
+                            disabled={disabled}
+                            className="flex-1 sm:flex-none px-2 py-1.5 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                        >
+                            {DOCUMENT_KIND_OPTIONS.map((option) => (
+                                <option key={option.kind} value={option.kind}>{option.label}</option>
+                            ))}
+                        </select>
+                        <button
+                            type="button"
+                            onClick={() => remove(index)}
+                            disabled={disabled}
+                            className="p-1.5 text-gray-400 hover:text-red-600 rounded-lg transition-colors"
+                            aria-label={`Remove ${document.file.name}`}
+                        >
+                            <X className="w-4 h-4" />
+                        </button>
+                    </div>
+                </div>
+            ))}
+
+            {documents.length < MAX_DOCUMENTS_PER_UPLOAD && (
+                <button
+                    type="button"
+                    onClick={() => inputRef.current?.click()}
+                    disabled={disabled}
+                    className="w-full flex items-center justify-center px-3 py-2.5 border-2 border-dashed border-green-300 rounded-lg sm:rounded-xl text-sm font-medium text-green-700 hover:bg-green-50 transition-colors disabled:opacity-50"
+                >
+                    <Paperclip className="w-4 h-4 mr-2" />
+                    Attach document
+                </button>
+            )}
+            <input
+                ref={inputRef}
+                type="file"
+                accept={ACCEPTED_DOCUMENT_TYPES.join(',')}
+                multiple
+                onChange={handleFiles}
+                className="hidden"
+            />
+
+            {error && (
+                <p className="text-red-500 text-sm font-medium flex items-center">
+                    <AlertTriangle className="w-3 h-3 mr-1 flex-shrink-0" />
+                    {error}
+                </p>
+            )}
+            <p className="text-xs text-gray-500">
+                PDF or photo, up to {MAX_DOCUMENTS_PER_UPLOAD} files of {MAX_DOCUMENT_BYTES / (1024 * 1024)} MB each. Only the review team can see them.
+            </p>
+        </div>
+    );
+};
+
+export default DocumentPicker;
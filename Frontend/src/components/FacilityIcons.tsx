@@ -0,0 +1,90 @@
+import React from 'react';
+import type { IconType } from 'react-icons';
+import {
+    FaBook,
+    FaFemale,
+    FaHandsHelping,
+    FaLanguage,
+    FaParking,
+    FaQuran,
+    FaTint,
+    FaWheelchair
+} from 'react-icons/fa';
+import type { FacilityKey, MosqueFacilities } from '../lib/types';
+import { FACILITIES, getKhutbahLanguageLabel } from '../lib/facilities';
+
+const ICONS: Record<FacilityKey, IconType> = {
+    womens_prayer_area: FaFemale,
+    wudu: FaTint,
+    wheelchair_access: FaWheelchair,
+    parking: FaParking,
+    quran_classes: FaQuran,
+    janaza_services: FaHandsHelping,
+    library: FaBook
+};
+
+export const FacilityIcon: React.FC<{ facility: FacilityKey; className?: string }> = ({ facility, className }) => {
+    const Icon = ICONS[facility];
+    return <Icon className={className} />;
+};
+
+interface FacilityIconsProps {
+    facilities?: MosqueFacilities;
+    // compact: icon row for cards; full: labelled grid for the profile
+    variant?: 'compact' | 'full';
+}
+
+const FacilityIcons: React.FC<FacilityIconsProps> = ({ facilities, variant = 'compact' }) => {
+    const offered = FACILITIES.filter(({ key }) => facilities?.[key]);
+    const languages = facilities?.khutbah_languages || [];
+
+    if (offered.length === 0 && languages.length === 0) return null;
+
+    if (variant === 'compact') {
+        return (
+            <div className="flex flex-wrap items-center gap-1.5">
+                {offered.map(({ key, label }) => (
+                    <span
+                        key={key}
+                        title={label}
+                        aria-label={label}
+                        className="flex items-center justify-center w-7 h-7 rounded-lg bg-green-50 border border-green-200 text-green-700"
+                    >
+                        <FacilityIcon facility={key} className="w-3.5 h-3.5" />
+                    </span>
+                ))}
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-4">
+            {offered.length > 0 && (
+                <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-2 sm:gap-3">
+                    {offered.map(({ key, label }) => (
+                        <div
+                            key={key}
+                            className="flex items-center bg-white/80 border border-green-200 rounded-xl px-3 py-2 sm:py-3 shadow-sm"
+                        >
+                            <span className="flex items-center justify-center w-8 h-8 sm:w-10 sm:h-10 rounded-lg bg-gradient-to-br from-green-500 to-emerald-600 text-white mr-2 sm:mr-3 flex-shrink-0">
+                                <FacilityIcon facility={key} className="w-4 h-4 sm:w-5 sm:h-5" />
+                            </span>
+                            <span className="text-xs sm:text-sm font-semibold text-gray-800">{label}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+            {languages.length > 0 && (
+                <p className="flex items-center text-sm sm:text-base text-gray-700">
+                    <FaLanguage className="w-5 h-5 mr-2 text-emerald-600 flex-shrink-0" />
+                    <span>
+                        <span className="font-semibold">Jummah khutbah:</span>{' '}
+                        {languages.map(getKhutbahLanguageLabel).join(', ')}
+                    </span>
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default FacilityIcons;
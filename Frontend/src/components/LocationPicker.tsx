@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import L from 'leaflet';
+import { MapContainer, Marker, TileLayer, useMap, useMapEvents } from 'react-leaflet';
+import 'leaflet/dist/leaflet.css';
+import { FaCrosshairs, FaMapPin, FaTimes } from 'react-icons/fa';
+import type { MosqueCoordinates } from '../lib/types';
+import {
+    DEFAULT_MAP_CENTER,
+    DEFAULT_MAP_ZOOM,
+    MAP_MAX_ZOOM,
+    MAP_TILE_ATTRIBUTION,
+    MAP_TILE_URL,
+    PIN_ZOOM
+} from '../lib/map';
+
+interface LocationPickerProps {
+    value: MosqueCoordinates | null;
+    onChange: (value: MosqueCoordinates | null) => void;
+}
+
+const pinIcon = L.divIcon({
+    className: '',
+    html: `<div class="w-8 h-8 rounded-full bg-gradient-to-br from-blue-500 to-purple-600 border-2 border-white shadow-lg flex items-center justify-center text-white text-sm font-bold">&#9790;</div>`,
+    iconSize: [32, 32],
+    iconAnchor: [16, 16]
+});
+
+// Six decimal places is roughly 10 cm, more than enough for a building
+const roundCoordinate = (value: number) => Number(value.toFixed(6));
+
+const ClickToPlace: React.FC<{ onPlace: (value: MosqueCoordinates) => void }> = ({ onPlace }) => {
+    useMapEvents({
+        click: (event) => onPlace({
+            latitude: roundCoordinate(event.latlng.lat),
+            longitude: roundCoordinate(event.latlng.lng)
+        })
+    });
+    return null;
+};
+
+// Move the map to a position chosen outside the map (e.g. "Use my location")
+const FlyTo: React.FC<{ target: MosqueCoordinates | null }> = ({ target }) => {
+    const map = useMap();
+    useEffect(() => {
+        if (target) map.setView([target.latitude, target.longitude], PIN_ZOOM);
+    }, [target, map]);
+    return null;
+};
+
+const LocationPicker: React.FC<LocationPickerProps> = ({ value, onChange }) => {
+    const [flyTarget, setFlyTarget] = useState<MosqueCoordinates | null>(null);
+    const [locating, setLocating] = useState(false);
+    const [locationError, setLocationError] = useState<string | null>(null);
+
+    const handleUseMyLocation = () => {
+        if (!navigator.geolocation) {
+            setLocationError('Location is not supported by this browser');
+            return;
+        }
+
+        setLocating(true);
+        setLocationError(null);
+        navigator.geolocation.getCurrentPosition(
+            (position) => {
+                const coordinates = {
+                    latitude: roundCoordinate(position.coords.latitude),
+                    longitude: roundCoordinate(position.coords.longitude)
+                };
+                onChange(coordinates);
+                setFlyTarget(coordinates);
+                setLocating(false);
+            },
+            () => {
+                setLocationError('Unable to read your location. Click the map to place the pin instead.');
+                setLocating(false);
+            },
+            { enableHighAccuracy: true, timeout: 10000 }
+        );
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                <p className="text-xs sm:text-sm text-gray-600 flex items-center">
+                    <FaMapPin className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2 text-blue-500 flex-shrink-0" />
+                    {value
+                        ? `Pinned at ${value.latitude.toFixed(5)}, ${value.longitude.toFixed(5)} - drag the pin or click to move it`
+                        : 'Click the map to place the mosque pin'}
+                </p>
+                <div className="flex items-center gap-2">
+                    <button
+                        type="button"
+                        onClick={handleUseMyLocation}
+                        disabled={locating}
+                        className="inline-flex items-center px-2 sm:px-3 py-1 sm:py-1.5 text-xs sm:text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-md sm:rounded-lg hover:bg-blue-100 disabled:opacity-60 transition-colors"
+                    >
+                        <FaCrosshairs className={`w-3 h-3 mr-1 ${locating ? 'animate-spin' : ''}`} />
+                        {locating ? 'Locating...' : 'Use my location'}
+                    </button>
+                    {value && (
+                        <button
+                            type="button"
+                            onClick={() => onChange(null)}
+                            className="inline-flex items-center px-2 sm:px-3 py-1 sm:py-1.5 text-xs sm:text-sm font-medium text-red-700 bg-red-50 border border-red-200 rounded-md sm:rounded-lg hover:bg-red-100 transition-colors"
+                        >
+                            <FaTimes className="w-3 h-3 mr-1" />
+                            Clear
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            <MapContainer
+                center={value ? [value.latitude, value.longitude] : DEFAULT_MAP_CENTER}
+                zoom={value ? PIN_ZOOM : DEFAULT_MAP_ZOOM}
+                maxZoom={MAP_MAX_ZOOM}
+                scrollWheelZoom
+                className="h-64 sm:h-80 w-full rounded-md sm:rounded-lg lg:rounded-xl border border-gray-300 z-0"
+            >
+                <TileLayer url={MAP_TILE_URL} attribution={MAP_TILE_ATTRIBUTION} maxZoom={MAP_MAX_ZOOM} />
+                <ClickToPlace onPlace={onChange} />
+                <FlyTo target={flyTarget} />
+                {value && (
+                    <Marker
+                        position={[value.latitude, value.longitude]}
+                        icon={pinIcon}
+                        draggable
+                        eventHandlers={{
+                            dragend: (event) => {
+                                const position = (event.target as L.Marker).getLatLng();
+                                onChange({
+                                    latitude: roundCoordinate(position.lat),
+                                    longitude: roundCoordinate(position.lng)
+                                });
+                            }
+                        }}
+                    />
+                )}
+            </MapContainer>
+
+            {locationError && (
+                <p className="text-xs sm:text-sm text-red-700">{locationError}</p>
+            )}
+        </div>
+    );
+};
+
+export default LocationPicker;
@@ -10,17 +10,23 @@ import {
     Eye,
     Calendar
 } from 'react-feather';
+import type { MosqueFacilities } from '../lib/types';
+import { resolveMediaUrl } from '../lib/api';
+import FacilityIcons from './FacilityIcons';
 
 interface MosqueCardProps {
     id: string;
     name: string;
     location: string;
     description?: string;
+    distanceKm?: number;
+    facilities?: MosqueFacilities;
+    coverPhotoUrl?: string;
     isFavorited: boolean;
     onToggleFavorite: (id: string) => void;
 }
 
-const MosqueCard: React.FC<MosqueCardProps> = ({ id, name, location, isFavorited, onToggleFavorite }) => {
+const MosqueCard: React.FC<MosqueCardProps> = ({ id, name, location, distanceKm, facilities, coverPhotoUrl, isFavorited, onToggleFavorite }) => {
     const handleFavoriteClick = (e: React.MouseEvent) => {
         e.preventDefault(); // Prevent navigation when clicking the star
         e.stopPropagation();
@@ -96,6 +102,18 @@ const MosqueCard: React.FC<MosqueCardProps> = ({ id, name, location, isFavorited
                 </div>
             </div>
 
+            {/* Cover Photo */}
+            {coverPhotoUrl && (
+                <div className="relative h-32 sm:h-40 overflow-hidden">
+                    <img
+                        src={resolveMediaUrl(coverPhotoUrl)}
+                        alt={capitalizedName}
+                        loading="lazy"
+                        className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500"
+                    />
+                </div>
+            )}
+
             {/* Modern Islamic Content */}
             <div className="relative z-10 p-3 sm:p-4 lg:p-6 space-y-2 sm:space-y-3 lg:space-y-4">
                 {/* Mosque Name */}
@@ -129,12 +147,21 @@ const MosqueCard: React.FC<MosqueCardProps> = ({ id, name, location, isFavorited
                         <p className="text-sm sm:text-base text-gray-700 leading-relaxed line-clamp-2 font-medium">
                             {capitalizedLocation}
                         </p>
-                        <p className="text-sm text-gray-500 mt-0.5 hidden sm:block">
-                            Tap for directions & details
-                        </p>
+                        {distanceKm !== undefined ? (
+                            <p className="text-sm text-emerald-700 font-semibold mt-0.5">
+                                {distanceKm < 1 ? `${Math.round(distanceKm * 1000)} m away` : `${distanceKm.toFixed(1)} km away`}
+                            </p>
+                        ) : (
+                            <p className="text-sm text-gray-500 mt-0.5 hidden sm:block">
+                                Tap for directions & details
+                            </p>
+                        )}
                     </div>
                 </div>
 
+                {/* Facilities */}
+                <FacilityIcons facilities={facilities} />
+
                 {/* Modern Action Button */}
                 <div className="pt-2 sm:pt-3 border-t border-green-100/50">
                     <div className="group/btn relative bg-gradient-to-r from-green-50 via-emerald-50 to-teal-50 hover:from-green-100 hover:via-emerald-100 hover:to-teal-100 border border-green-200/50 rounded-lg sm:rounded-xl py-2 sm:py-3 transition-all duration-300 shadow-sm hover:shadow-md">
@@ -0,0 +1,254 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import L from 'leaflet';
+import { Circle, MapContainer, Marker, Popup, TileLayer, useMap, useMapEvents } from 'react-leaflet';
+import Supercluster from 'supercluster';
+import 'leaflet/dist/leaflet.css';
+import { Clock, Eye, MapPin } from 'react-feather';
+import { usePrayerTimes } from '../lib/queries';
+import { getNextPrayer } from '../lib/prayerTime';
+import type { MosqueCoordinates } from '../lib/types';
+import {
+    DEFAULT_MAP_CENTER,
+    DEFAULT_MAP_ZOOM,
+    MAP_MAX_ZOOM,
+    MAP_TILE_ATTRIBUTION,
+    MAP_TILE_URL,
+    PIN_ZOOM
+} from '../lib/map';
+
+export interface MapMosque {
+    id: string;
+    name: string;
+    location: string;
+    coordinates?: MosqueCoordinates | null;
+    distance_km?: number;
+}
+
+interface MosqueMapProps {
+    mosques: MapMosque[];
+    // Position of the visitor in "near me" mode
+    userLocation?: MosqueCoordinates | null;
+    radiusKm?: number;
+}
+
+type MosqueFeature = Supercluster.PointFeature<{ mosque: MapMosque }>;
+
+// Pins are plain HTML so no marker images have to be bundled or fetched
+const mosqueIcon = L.divIcon({
+    className: '',
+    html: `<div class="w-8 h-8 rounded-full bg-gradient-to-br from-green-500 to-emerald-600 border-2 border-white shadow-lg flex items-center justify-center text-white text-sm font-bold">&#9790;</div>`,
+    iconSize: [32, 32],
+    iconAnchor: [16, 16],
+    popupAnchor: [0, -16]
+});
+
+const userIcon = L.divIcon({
+    className: '',
+    html: `<div class="w-4 h-4 rounded-full bg-blue-500 border-2 border-white shadow-lg ring-4 ring-blue-300/50"></div>`,
+    iconSize: [16, 16],
+    iconAnchor: [8, 8]
+});
+
+const clusterIcon = (count: number) => {
+    const size = count < 10 ? 36 : count < 100 ? 44 : 52;
+    return L.divIcon({
+        className: '',
+        html: `<div class="rounded-full bg-emerald-600/90 border-4 border-emerald-200 shadow-xl flex items-center justify-center text-white font-bold text-sm" style="width:${size}px;height:${size}px">${count}</div>`,
+        iconSize: [size, size],
+        iconAnchor: [size / 2, size / 2]
+    });
+};
+
+// Convert 24-hour time string to 12-hour format for display
+const formatTime = (time: string): string => {
+    if (/AM|PM/i.test(time)) return time;
+    const [hours, minutes] = time.split(':').map(Number);
+    const period = hours >= 12 ? 'PM' : 'AM';
+    const displayHours = hours === 0 ? 12 : hours > 12 ? hours - 12 : hours;
+    return `${displayHours}:${minutes.toString().padStart(2, '0')} ${period}`;
+};
+
+const formatWait = (minutes: number): string => {
+    const hours = Math.floor(minutes / 60);
+    const rest = minutes % 60;
+    return hours > 0 ? `${hours}h ${rest}m` : `${rest}m`;
+};
+
+// Popup body; only mounted while the popup is open so each pin fetches its times on demand
+const MosqueMapPopup: React.FC<{ mosque: MapMosque }> = ({ mosque }) => {
+    const { data, isLoading } = usePrayerTimes(mosque.id);
+    const nextPrayer = data?.prayer_times ? getNextPrayer(data.prayer_times) : null;
+
+    return (
+        <div className="min-w-[180px] space-y-2">
+            <div>
+                <p className="font-bold text-gray-900 text-base leading-tight">{mosque.name}</p>
+                <p className="text-xs text-gray-600 flex items-start mt-1">
+                    <MapPin className="w-3 h-3 mr-1 mt-0.5 text-green-600 flex-shrink-0" />
+                    <span>{mosque.location}</span>
+                </p>
+                {mosque.distance_km !== undefined && (
+                    <p className="text-xs text-emerald-700 font-semibold mt-0.5">{mosque.distance_km.toFixed(1)} km away</p>
+                )}
+            </div>
+
+            <div className="flex items-center bg-green-50 border border-green-200 rounded-lg px-2 py-1.5 text-sm">
+                <Clock className="w-4 h-4 mr-1.5 text-green-600 flex-shrink-0" />
+                {isLoading ? (
+                    <span className="text-gray-500">Loading prayer times...</span>
+                ) : nextPrayer ? (
+                    <span className="text-gray-800">
+                        <span className="font-semibold">{nextPrayer.name}</span> at {formatTime(nextPrayer.time)}
+                        <span className="text-gray-500"> (in {formatWait(nextPrayer.minutesUntil)})</span>
+                    </span>
+                ) : (
+                    <span className="text-gray-500">Prayer times not set</span>
+                )}
+            </div>
+
+            <Link
+                to={`/mosques/${mosque.id}`}
+                className="flex items-center justify-center bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 !text-white font-semibold rounded-lg px-3 py-1.5 text-sm transition-colors duration-200"
+            >
+                <Eye className="w-4 h-4 mr-1.5" />
+                View Details
+            </Link>
+        </div>
+    );
+};
+
+// Fit the map to the pins (and the visitor) whenever the result set changes
+const FitToMosques: React.FC<{ points: [number, number][] }> = ({ points }) => {
+    const map = useMap();
+
+    useEffect(() => {
+        if (points.length === 0) return;
+        if (points.length === 1) {
+            map.setView(points[0], PIN_ZOOM);
+        } else {
+            map.fitBounds(L.latLngBounds(points), { padding: [40, 40], maxZoom: PIN_ZOOM });
+        }
+    }, [points, map]);
+
+    return null;
+};
+
+const ClusterLayer: React.FC<{ mosques: MapMosque[] }> = ({ mosques }) => {
+    const map = useMap();
+    const [view, setView] = useState(() => ({ bounds: map.getBounds(), zoom: map.getZoom() }));
+    const [openMosqueId, setOpenMosqueId] = useState<string | null>(null);
+
+    useMapEvents({
+        moveend: () => setView({ bounds: map.getBounds(), zoom: map.getZoom() })
+    });
+
+    const index = useMemo(() => {
+        const features: MosqueFeature[] = mosques
+            .filter((mosque) => mosque.coordinates)
+            .map((mosque) => ({
+                type: 'Feature',
+                properties: { mosque },
+                geometry: {
+                    type: 'Point',
+                    coordinates: [mosque.coordinates!.longitude, mosque.coordinates!.latitude]
+                }
+            }));
+        return new Supercluster<{ mosque: MapMosque }>({ radius: 60, maxZoom: 17 }).load(features);
+    }, [mosques]);
+
+    const clusters = index.getClusters(
+        [view.bounds.getWest(), view.bounds.getSouth(), view.bounds.getEast(), view.bounds.getNorth()],
+        Math.round(view.zoom)
+    );
+
+    return (
+        <>
+            {clusters.map((feature) => {
+                const [longitude, latitude] = feature.geometry.coordinates;
+                const properties = feature.properties as Supercluster.ClusterProperties | { mosque: MapMosque };
+
+                if ('cluster' in properties && properties.cluster) {
+                    return (
+                        <Marker
+                            key={`cluster-${properties.cluster_id}`}
+                            position={[latitude, longitude]}
+                            icon={clusterIcon(properties.point_count)}
+                            eventHandlers={{
+                                click: () => {
+                                    const zoom = Math.min(index.getClusterExpansionZoom(properties.cluster_id), MAP_MAX_ZOOM);
+                                    map.setView([latitude, longitude], zoom);
+                                }
+                            }}
+                        />
+                    );
+                }
+
+                const { mosque } = properties as { mosque: MapMosque };
+                return (
+                    <Marker
+                        key={mosque.id}
+                        position={[latitude, longitude]}
+                        icon={mosqueIcon}
+                        eventHandlers={{
+                            popupopen: () => setOpenMosqueId(mosque.id),
+                            popupclose: () => setOpenMosqueId((current) => (current === mosque.id ? null : current))
+                        }}
+                    >
+                        <Popup>
+                            {openMosqueId === mosque.id && <MosqueMapPopup mosque={mosque} />}
+                        </Popup>
+                    </Marker>
+                );
+            })}
+        </>
+    );
+};
+
+const MosqueMap: React.FC<MosqueMapProps> = ({ mosques, userLocation, radiusKm }) => {
+    const points = useMemo<[number, number][]>(() => {
+        const pins = mosques
+            .filter((mosque) => mosque.coordinates)
+            .map((mosque) => [mosque.coordinates!.latitude, mosque.coordinates!.longitude] as [number, number]);
+        if (userLocation) pins.push([userLocation.latitude, userLocation.longitude]);
+        return pins;
+    }, [mosques, userLocation]);
+
+    const unmappedCount = mosques.filter((mosque) => !mosque.coordinates).length;
+
+    return (
+        <div className="relative">
+            <MapContainer
+                center={DEFAULT_MAP_CENTER}
+                zoom={DEFAULT_MAP_ZOOM}
+                maxZoom={MAP_MAX_ZOOM}
+                scrollWheelZoom
+                className="h-[420px] sm:h-[520px] lg:h-[600px] w-full rounded-xl sm:rounded-2xl z-0"
+            >
+                <TileLayer url={MAP_TILE_URL} attribution={MAP_TILE_ATTRIBUTION} maxZoom={MAP_MAX_ZOOM} />
+                <FitToMosques points={points} />
+                {userLocation && (
+                    <>
+                        <Marker position={[userLocation.latitude, userLocation.longitude]} icon={userIcon} />
+                        {radiusKm && (
+                            <Circle
+                                center={[userLocation.latitude, userLocation.longitude]}
+                                radius={radiusKm * 1000}
+                                pathOptions={{ color: '#059669', weight: 1, fillOpacity: 0.05 }}
+                            />
+                        )}
+                    </>
+                )}
+                <ClusterLayer mosques={mosques} />
+            </MapContainer>
+
+            {unmappedCount > 0 && (
+                <p className="mt-2 text-xs sm:text-sm text-gray-500 text-center">
+                    {unmappedCount} mosque{unmappedCount !== 1 ? 's have' : ' has'} no map location yet and {unmappedCount !== 1 ? 'are' : 'is'} only listed in the grid view.
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default MosqueMap;
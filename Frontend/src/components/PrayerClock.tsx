@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
     Clock,
     Calendar,
@@ -9,6 +9,9 @@ import {
     Home,
 
 } from 'react-feather';
+import { useTimetable } from '../lib/queries';
+import { formatLocalDate } from '../lib/dates';
+import { parsePrayerTime } from '../lib/prayerTime';
 
 interface PrayerTimes {
     fajr: string | null;
@@ -20,13 +23,33 @@ interface PrayerTimes {
 }
 
 interface PrayerClockProps {
-    prayerTimes: PrayerTimes;
+    mosqueId: string;
+    // Shown until today's timetable entry has loaded
+    prayerTimes?: PrayerTimes;
 }
 
-const PrayerClock: React.FC<PrayerClockProps> = ({ prayerTimes }) => {
+const EMPTY_PRAYER_TIMES: PrayerTimes = {
+    fajr: null,
+    dhuhr: null,
+    asr: null,
+    maghrib: null,
+    isha: null,
+    jummah: null
+};
+
+const PrayerClock: React.FC<PrayerClockProps> = ({ mosqueId, prayerTimes: fallbackPrayerTimes }) => {
     const [currentTime, setCurrentTime] = useState(new Date());
     const [nextPrayer, setNextPrayer] = useState<{ name: string; time: string; countdown: string } | null>(null);
 
+    // Read today's entry from the timetable; the query key changes at midnight so tomorrow's times load automatically
+    const today = formatLocalDate(currentTime);
+    const { data: timetable } = useTimetable(mosqueId, today, today);
+    const todaysEntry = timetable?.entries?.[0];
+    const prayerTimes = useMemo<PrayerTimes>(
+        () => todaysEntry?.prayer_times || fallbackPrayerTimes || EMPTY_PRAYER_TIMES,
+        [todaysEntry, fallbackPrayerTimes]
+    );
+
     // Convert 24-hour time to 12-hour format with AM/PM
     const convertTo12Hour = (time24: string): string => {
         if (!time24) return '--:--';
@@ -103,39 +126,13 @@ const PrayerClock: React.FC<PrayerClockProps> = ({ prayerTimes }) => {
             for (const prayer of prayerList) {
                 if (!prayer.time) continue;
 
-                let hours: number;
-                let minutes: number;
-
                 // Handle both 24-hour (HH:MM) and 12-hour (HH:MM AM/PM) formats
-                const time12Match = prayer.time.match(/^(\d{1,2}):(\d{2})\s*(AM|PM)$/i);
-                const time24Match = prayer.time.match(/^(\d{1,2}):(\d{2})$/);
-
-                if (time12Match) {
-                    // 12-hour format
-                    hours = parseInt(time12Match[1], 10);
-                    minutes = parseInt(time12Match[2], 10);
-                    const ampm = time12Match[3].toUpperCase();
-
-                    // Convert to 24-hour format
-                    if (ampm === 'PM' && hours !== 12) {
-                        hours += 12;
-                    } else if (ampm === 'AM' && hours === 12) {
-                        hours = 0;
-                    }
-                } else if (time24Match) {
-                    // 24-hour format
-                    hours = parseInt(time24Match[1], 10);
-                    minutes = parseInt(time24Match[2], 10);
-                } else {
-                    console.log(`Invalid time format for ${prayer.name}: ${prayer.time}`);
-                    continue;
-                }
-
-                // Validate hours and minutes
-                if (hours < 0 || hours > 23 || minutes < 0 || minutes > 59) {
-                    console.log(`Invalid time values for ${prayer.name}: ${hours}:${minutes}`);
+                const parsed = parsePrayerTime(prayer.time);
+                if (!parsed) {
+                    console.log(`Invalid time for ${prayer.name}: ${prayer.time}`);
                     continue;
                 }
+                const { hours, minutes } = parsed;
 
                 let prayerMinutes = hours * 60 + minutes;
                 console.log(`${prayer.name} time in minutes:`, prayerMinutes, `(${hours}:${minutes})`);
@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from 'react';
+import { Bell, BellOff } from 'react-feather';
+import { pushApi } from '../lib/api';
+import { getErrorMessage } from '../lib/types';
+import type { PrayerReminderSettings } from '../lib/types';
+import {
+    isPushSupported,
+    getReminderSettings,
+    enablePrayerReminders,
+    disablePrayerReminders
+} from '../lib/prayerReminders';
+
+interface PrayerRemindersProps {
+    favorites: string[];
+}
+
+// Opt-in push notifications before each jamaat at the visitor's favorite mosques
+const PrayerReminders: React.FC<PrayerRemindersProps> = ({ favorites }) => {
+    const [enabled, setEnabled] = useState(() => isPushSupported() && getReminderSettings() !== null);
+    const [settings, setSettings] = useState<PrayerReminderSettings>(() => getReminderSettings() || {
+        jamaat_reminders: true,
+        reminder_minutes: 15,
+        time_change_alerts: true
+    });
+    const [minuteOptions, setMinuteOptions] = useState<number[]>([]);
+    const [available, setAvailable] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    useEffect(() => {
+        if (!isPushSupported()) return;
+        pushApi.getConfig()
+            .then((response) => {
+                setAvailable(response.data.enabled);
+                setMinuteOptions(response.data.reminder_minute_options);
+            })
+            .catch(() => setAvailable(false));
+    }, []);
+
+    if (!available) return null;
+
+    const save = async (next: PrayerReminderSettings) => {
+        setSaving(true);
+        setMessage(null);
+        try {
+            const result = await enablePrayerReminders(favorites, next);
+            setSettings(next);
+            setEnabled(true);
+            setMessage({ type: 'success', text: result.message });
+        } catch (err) {
+            setMessage({ type: 'error', text: getErrorMessage(err) });
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDisable = async () => {
+        setSaving(true);
+        setMessage(null);
+        try {
+            await disablePrayerReminders();
+            setEnabled(false);
+            setMessage({ type: 'success', text: 'Prayer reminders turned off' });
+        } catch (err) {
+            setMessage({ type: 'error', text: getErrorMessage(err) });
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    // Changes apply straight away once reminders are on
+    const updateSetting = (change: Partial<PrayerReminderSettings>) => {
+        const next = { ...settings, ...change };
+        setSettings(next);
+        if (enabled) save(next);
+    };
+
+    return (
+        <div className="relative bg-gradient-to-br from-white via-green-50/50 to-emerald-50/30 backdrop-blur-xl border-2 border-white/40 rounded-xl sm:rounded-2xl p-3 sm:p-4 lg:p-6 mb-3 sm:mb-6 lg:mb-8 shadow-xl">
+            <div className="flex flex-col lg:flex-row lg:items-center gap-3">
+                <div className="flex-1">
+                    <h2 className="text-base lg:text-lg font-bold text-gray-900 flex items-center">
+                        <Bell className="w-4 h-4 sm:w-5 sm:h-5 mr-2 text-green-600" />
+                        Prayer Reminders
+                    </h2>
+                    <p className="text-sm text-gray-600 mt-1">
+                        {favorites.length === 0
+                            ? 'Tap the heart on a mosque to get a notification before each of its jamaats.'
+                            : `A notification before each jamaat at your ${favorites.length} favorite mosque${favorites.length === 1 ? '' : 's'}, and when their times change.`}
+                    </p>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <select
+                        value={settings.reminder_minutes}
+                        onChange={(e) => updateSetting({ reminder_minutes: Number(e.target.value) })}
+                        disabled={saving}
+                        aria-label="Minutes before jamaat"
+                        className="px-2 py-1.5 bg-white/80 border-2 border-green-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 disabled:opacity-50"
+                    >
+                        {minuteOptions.map((minutes) => (
+                            <option key={minutes} value={minutes}>{minutes} min before</option>
+                        ))}
+                    </select>
+                    <label className="flex items-center gap-1.5 text-gray-700">
+                        <input
+                            type="checkbox"
+                            checked={settings.time_change_alerts}
+                            onChange={(e) => updateSetting({ time_change_alerts: e.target.checked })}
+                            disabled={saving}
+                            className="accent-green-600"
+                        />
+                        Time changes
+                    </label>
+                    {enabled ? (
+                        <button
+                            onClick={handleDisable}
+                            disabled={saving}
+                            className="flex items-center gap-1 px-3 py-1.5 font-semibold text-gray-700 bg-white border-2 border-gray-200 hover:border-red-300 hover:text-red-600 rounded-lg transition-colors disabled:opacity-50"
+                        >
+                            <BellOff className="w-4 h-4" />
+                            Turn off
+                        </button>
+                    ) : (
+                        <button
+                            onClick={() => save(settings)}
+                            disabled={saving || favorites.length === 0}
+                            className="flex items-center gap-1 px-3 py-1.5 font-semibold text-white bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 rounded-lg shadow-md transition-all disabled:opacity-50"
+                        >
+                            <Bell className="w-4 h-4" />
+                            {saving ? 'Turning on...' : 'Turn on'}
+                        </button>
+                    )}
+                </div>
+            </div>
+            {message && (
+                <p className={`mt-2 text-sm ${message.type === 'success' ? 'text-green-700' : 'text-red-600'}`}>{message.text}</p>
+            )}
+        </div>
+    );
+};
+
+export default PrayerReminders;
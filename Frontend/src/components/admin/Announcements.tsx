@@ -0,0 +1,309 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useQueryClient } from '@tanstack/react-query';
+import { AlertTriangle, Bookmark, Calendar, Edit2, Plus, Rss, Trash2, X } from 'react-feather';
+import { mosqueApi } from '../../lib/api';
+import { mosqueQueryKeys, useManagedAnnouncements } from '../../lib/queries';
+import { formatEventTime, fromDateTimeInput, toDateTimeInput } from '../../lib/dates';
+import { ANNOUNCEMENT_CATEGORIES, getCategoryBadge } from '../../lib/announcements';
+import { getErrorMessage } from '../../lib/types';
+import type { Announcement } from '../../lib/types';
+
+const announcementSchema = z.object({
+    title: z.string().trim().min(1, 'Title is required').max(120, 'Title must not exceed 120 characters'),
+    body: z.string().trim().min(1, 'Text is required').max(5000, 'Text must not exceed 5000 characters'),
+    category: z.enum(['general', 'lecture', 'janaza', 'eid', 'fundraiser', 'class']),
+    starts_at: z.string(),
+    ends_at: z.string(),
+    pinned: z.boolean(),
+    expires_at: z.string(),
+}).superRefine((data, ctx) => {
+    if (data.ends_at && !data.starts_at) {
+        ctx.addIssue({ code: 'custom', path: ['ends_at'], message: 'Set a start time first' });
+    } else if (data.ends_at && data.ends_at < data.starts_at) {
+        ctx.addIssue({ code: 'custom', path: ['ends_at'], message: 'End time must be after the start time' });
+    }
+});
+
+type AnnouncementFormData = z.infer<typeof announcementSchema>;
+
+const EMPTY_FORM: AnnouncementFormData = {
+    title: '',
+    body: '',
+    category: 'general',
+    starts_at: '',
+    ends_at: '',
+    pinned: false,
+    expires_at: '',
+};
+
+interface AnnouncementsProps {
+    mosqueId: string;
+    onSuccess: (message: string) => void;
+    onError: (message: string) => void;
+}
+
+const Announcements: React.FC<AnnouncementsProps> = ({ mosqueId, onSuccess, onError }) => {
+    const queryClient = useQueryClient();
+    const [showForm, setShowForm] = useState(false);
+    const [editing, setEditing] = useState<Announcement | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [deletingId, setDeletingId] = useState<string | null>(null);
+
+    const { data: announcements = [], isLoading } = useManagedAnnouncements(mosqueId);
+
+    const form = useForm<AnnouncementFormData>({
+        resolver: zodResolver(announcementSchema),
+        defaultValues: EMPTY_FORM,
+    });
+    const errors = form.formState.errors;
+
+    const refresh = () => {
+        queryClient.invalidateQueries({ queryKey: mosqueQueryKeys.announcements(mosqueId) });
+    };
+
+    const openCreateForm = () => {
+        setEditing(null);
+        form.reset(EMPTY_FORM);
+        setShowForm(true);
+    };
+
+    const openEditForm = (announcement: Announcement) => {
+        setEditing(announcement);
+        form.reset({
+            title: announcement.title,
+            body: announcement.body,
+            category: announcement.category,
+            starts_at: toDateTimeInput(announcement.starts_at),
+            ends_at: toDateTimeInput(announcement.ends_at),
+            pinned: announcement.pinned,
+            expires_at: toDateTimeInput(announcement.expires_at),
+        });
+        setShowForm(true);
+    };
+
+    const closeForm = () => {
+        setShowForm(false);
+        setEditing(null);
+    };
+
+    const handleSave = async (data: AnnouncementFormData) => {
+        setSaving(true);
+        const payload = {
+            title: data.title,
+            body: data.body,
+            category: data.category,
+            starts_at: fromDateTimeInput(data.starts_at),
+            ends_at: fromDateTimeInput(data.ends_at),
+            pinned: data.pinned,
+            expires_at: fromDateTimeInput(data.expires_at),
+        };
+
+        try {
+            if (editing) {
+                await mosqueApi.updateAnnouncement(mosqueId, editing.id, payload);
+                onSuccess('Announcement updated successfully!');
+            } else {
+                await mosqueApi.createAnnouncement(mosqueId, payload);
+                onSuccess('Announcement posted successfully!');
+            }
+            refresh();
+            closeForm();
+        } catch (err) {
+            onError(getErrorMessage(err));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDelete = async (announcement: Announcement) => {
+        if (!window.confirm(`Delete "${announcement.title}"? This cannot be undone.`)) return;
+
+        setDeletingId(announcement.id);
+        try {
+            await mosqueApi.deleteAnnouncement(mosqueId, announcement.id);
+            onSuccess('Announcement deleted');
+            refresh();
+        } catch (err) {
+            onError(getErrorMessage(err));
+        } finally {
+            setDeletingId(null);
+        }
+    };
+
+    const inputClass = 'w-full px-4 py-3 text-sm bg-white/80 backdrop-blur-sm border border-green-200/50 rounded-2xl focus:outline-none focus:ring-2 focus:ring-green-400 focus:border-transparent transition-all duration-200 shadow-lg';
+
+    return (
+        <div className="relative bg-white/70 backdrop-blur-xl rounded-3xl p-6 border border-green-200/50 shadow-2xl">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+                <div>
+                    <h4 className="text-lg font-bold text-gray-800">Announcements &amp; Events</h4>
+                    <p className="text-sm text-gray-600">
+                        Shown on your mosque's public page and in its{' '}
+                        <a
+                            href={mosqueApi.getAnnouncementsFeedUrl(mosqueId)}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-flex items-center text-green-700 hover:text-green-800 font-medium"
+                        >
+                            <Rss className="w-3 h-3 mr-1" />
+                            feed
+                        </a>
+                        . Pinned posts stay at the top; expired ones are hidden from the public.
+                    </p>
+                </div>
+                {!showForm && (
+                    <button
+                        type="button"
+                        onClick={openCreateForm}
+                        className="inline-flex items-center justify-center px-4 py-2 bg-gradient-to-r from-green-500 to-emerald-600 text-white font-semibold rounded-xl shadow-lg hover:from-green-600 hover:to-emerald-700 transition-all"
+                    >
+                        <Plus className="w-4 h-4 mr-2" />
+                        New Announcement
+                    </button>
+                )}
+            </div>
+
+            {showForm && (
+                <form onSubmit={form.handleSubmit(handleSave)} className="bg-green-50/70 rounded-2xl p-4 sm:p-6 mb-6 border border-green-200/50 space-y-4">
+                    <div className="flex items-center justify-between">
+                        <h5 className="font-bold text-gray-800">{editing ? 'Edit Announcement' : 'New Announcement'}</h5>
+                        <button type="button" onClick={closeForm} className="p-1 text-gray-500 hover:text-gray-700">
+                            <X className="w-5 h-5" />
+                        </button>
+                    </div>
+
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                        <div className="sm:col-span-2">
+                            <label className="block text-sm font-bold text-gray-700 mb-2">Title</label>
+                            <input {...form.register('title')} type="text" placeholder="Eid ul-Fitr prayer" className={inputClass} />
+                            {errors.title && (
+                                <p className="text-red-500 text-xs mt-2 ml-2 flex items-center">
+                                    <AlertTriangle className="w-3 h-3 mr-1" />
+                                    {errors.title.message}
+                                </p>
+                            )}
+                        </div>
+                        <div>
+                            <label className="block text-sm font-bold text-gray-700 mb-2">Category</label>
+                            <select {...form.register('category')} className={inputClass}>
+                                {ANNOUNCEMENT_CATEGORIES.map((category) => (
+                                    <option key={category.value} value={category.value}>{category.label}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-bold text-gray-700 mb-2">Text</label>
+                        <textarea {...form.register('body')} rows={5} placeholder="Details for the community" className={inputClass} />
+                        {errors.body && (
+                            <p className="text-red-500 text-xs mt-2 ml-2 flex items-center">
+                                <AlertTriangle className="w-3 h-3 mr-1" />
+                                {errors.body.message}
+                            </p>
+                        )}
+                    </div>
+
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                        <div>
+                            <label className="block text-sm font-bold text-gray-700 mb-2">Starts (events only)</label>
+                            <input {...form.register('starts_at')} type="datetime-local" className={inputClass} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-bold text-gray-700 mb-2">Ends (optional)</label>
+                            <input {...form.register('ends_at')} type="datetime-local" className={inputClass} />
+                            {errors.ends_at && (
+                                <p className="text-red-500 text-xs mt-2 ml-2 flex items-center">
+                                    <AlertTriangle className="w-3 h-3 mr-1" />
+                                    {errors.ends_at.message}
+                                </p>
+                            )}
+                        </div>
+                        <div>
+                            <label className="block text-sm font-bold text-gray-700 mb-2">Hide After (optional)</label>
+                            <input {...form.register('expires_at')} type="datetime-local" className={inputClass} />
+                        </div>
+                    </div>
+
+                    <label className="flex items-center gap-2 text-sm font-semibold text-gray-700">
+                        <input {...form.register('pinned')} type="checkbox" className="accent-green-600" />
+                        Pin to the top of the board
+                    </label>
+
+                    <button
+                        type="submit"
+                        disabled={saving}
+                        className="w-full bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 disabled:from-gray-400 disabled:to-gray-500 text-white font-bold py-3 px-6 rounded-2xl transition-all duration-200 shadow-xl"
+                    >
+                        {saving ? 'Saving...' : editing ? 'Update Announcement' : 'Post Announcement'}
+                    </button>
+                </form>
+            )}
+
+            {isLoading ? (
+                <div className="flex justify-center py-8">
+                    <div className="animate-spin rounded-full h-8 w-8 border-2 border-green-500 border-t-transparent"></div>
+                </div>
+            ) : announcements.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">No announcements yet. Post one to let your community know what's on.</p>
+            ) : (
+                <div className="space-y-3">
+                    {announcements.map((announcement) => (
+                        <div
+                            key={announcement.id}
+                            className={`flex flex-col sm:flex-row sm:items-start justify-between gap-3 p-4 bg-white rounded-2xl border border-green-100 shadow-sm ${announcement.expired ? 'opacity-60' : ''}`}
+                        >
+                            <div className="min-w-0">
+                                <div className="flex items-center gap-2 flex-wrap">
+                                    {announcement.pinned && <Bookmark className="w-4 h-4 text-green-600" />}
+                                    <span className="font-semibold text-gray-800">{announcement.title}</span>
+                                    <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${getCategoryBadge(announcement.category)}`}>
+                                        {announcement.category_label}
+                                    </span>
+                                    {announcement.expired && (
+                                        <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-red-100 text-red-800">Expired</span>
+                                    )}
+                                </div>
+                                {announcement.starts_at && (
+                                    <p className="text-sm text-gray-600 mt-1 flex items-center">
+                                        <Calendar className="w-3 h-3 mr-1" />
+                                        {formatEventTime(announcement.starts_at, announcement.ends_at)}
+                                    </p>
+                                )}
+                                <p className="text-sm text-gray-700 mt-1 line-clamp-2 whitespace-pre-line">{announcement.body}</p>
+                                <p className="text-xs text-gray-500 mt-1">
+                                    Posted {new Date(announcement.created_at).toLocaleDateString()}
+                                    {announcement.expires_at && !announcement.expired && ` · Hidden after ${new Date(announcement.expires_at).toLocaleString()}`}
+                                </p>
+                            </div>
+                            <div className="flex gap-2 flex-shrink-0">
+                                <button
+                                    type="button"
+                                    onClick={() => openEditForm(announcement)}
+                                    className="p-2 text-green-700 bg-green-50 rounded-xl hover:bg-green-100 transition-colors"
+                                    title="Edit announcement"
+                                >
+                                    <Edit2 className="w-4 h-4" />
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => handleDelete(announcement)}
+                                    disabled={deletingId === announcement.id}
+                                    className="p-2 text-red-600 bg-red-50 rounded-xl hover:bg-red-100 transition-colors disabled:opacity-50"
+                                    title="Delete announcement"
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default Announcements;
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { HelpCircle, Send, FileText, CheckCircle, XCircle, Clock } from 'react-feather';
+import { authApi } from '../../lib/api';
+import { getErrorMessage } from '../../lib/types';
+import type { ApplicationInfo, DocumentReviewStatus } from '../../lib/types';
+import type { SelectedDocument } from '../../lib/applicationDocuments';
+import DocumentPicker from '../DocumentPicker';
+
+interface ApplicationInfoPanelProps {
+    info: ApplicationInfo;
+    onUpdated: (info: ApplicationInfo) => void;
+}
+
+const REVIEW_ICONS: Record<DocumentReviewStatus, React.ReactNode> = {
+    unreviewed: <Clock size={14} className="text-gray-400 flex-shrink-0" />,
+    verified: <CheckCircle size={14} className="text-green-500 flex-shrink-0" />,
+    rejected: <XCircle size={14} className="text-red-500 flex-shrink-0" />,
+};
+
+// Pending applicant's documents and the reviewer's questions, answered here instead of reapplying
+const ApplicationInfoPanel: React.FC<ApplicationInfoPanelProps> = ({ info, onUpdated }) => {
+    const [response, setResponse] = useState('');
+    const [documents, setDocuments] = useState<SelectedDocument[]>([]);
+    const [submitting, setSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [sent, setSent] = useState<string | null>(null);
+
+    const openRequest = info.awaiting_response ? info.info_requests[info.info_requests.length - 1] : null;
+
+    const handleSubmit = async (event: React.FormEvent) => {
+        event.preventDefault();
+        setSubmitting(true);
+        setError(null);
+        try {
+            const result = await authApi.respondToInfoRequest(response.trim(), documents);
+            setResponse('');
+            setDocuments([]);
+            setSent(result.data.message);
+            onUpdated(result.data.application_info);
+        } catch (err) {
+            setError(getErrorMessage(err));
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    return (
+        <>
+            {openRequest && (
+                <form onSubmit={handleSubmit} className="bg-amber-50/80 backdrop-blur-sm border-2 border-amber-200/60 rounded-2xl p-4 sm:p-6 mb-6 sm:mb-8 shadow-lg space-y-3">
+                    <h3 className="font-semibold text-gray-800 flex items-center gap-2 text-sm sm:text-base">
+                        <div className="w-6 h-6 bg-gradient-to-br from-amber-500 to-orange-600 rounded-lg flex items-center justify-center">
+                            <HelpCircle size={14} className="text-white" />
+                        </div>
+                        The review team needs more information
+                    </h3>
+                    <p className="text-sm text-gray-800 whitespace-pre-line bg-white/70 rounded-xl p-3 border border-amber-100">
+                        {openRequest.message}
+                    </p>
+                    <textarea
+                        value={response}
+                        onChange={(event) => setResponse(event.target.value)}
+                        placeholder="Write your answer..."
+                        rows={4}
+                        maxLength={1000}
+                        className="w-full px-3 py-2.5 text-sm bg-white/80 border-2 border-amber-200/60 rounded-xl focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-amber-400"
+                    />
+                    <DocumentPicker documents={documents} onChange={setDocuments} disabled={submitting} />
+                    {error && <p className="text-sm text-red-600">{error}</p>}
+                    <button
+                        type="submit"
+                        disabled={submitting || response.trim().length < 2}
+                        className="w-full flex items-center justify-center bg-gradient-to-r from-amber-500 to-orange-600 hover:from-amber-600 hover:to-orange-700 disabled:from-gray-400 disabled:to-gray-500 text-white font-semibold py-3 px-6 rounded-xl transition-all duration-300 shadow-lg text-sm sm:text-base"
+                    >
+                        <Send className="w-4 h-4 mr-2" />
+                        {submitting ? 'Sending...' : 'Send to the review team'}
+                    </button>
+                </form>
+            )}
+
+            {sent && !openRequest && (
+                <div className="bg-green-50/80 border border-green-200/50 rounded-2xl p-4 mb-6 sm:mb-8 text-sm text-green-800 flex items-center gap-2">
+                    <CheckCircle size={16} className="flex-shrink-0" />
+                    {sent}
+                </div>
+            )}
+
+            {info.documents.length > 0 && (
+                <div className="bg-white/60 backdrop-blur-sm border border-green-200/50 rounded-2xl p-4 sm:p-6 mb-6 sm:mb-8 shadow-lg">
+                    <h3 className="font-semibold text-gray-800 mb-3 flex items-center gap-2 text-sm sm:text-base">
+                        <div className="w-6 h-6 bg-gradient-to-br from-green-500 to-emerald-600 rounded-lg flex items-center justify-center">
+                            <FileText size={14} className="text-white" />
+                        </div>
+                        Your Documents
+                    </h3>
+                    <ul className="space-y-2">
+                        {info.documents.map((document) => (
+                            <li key={document.id} className="flex items-start gap-2 text-xs sm:text-sm text-gray-700">
+                                {REVIEW_ICONS[document.review_status]}
+                                <span className="min-w-0">
+                                    <span className="font-medium">{document.kind_label}</span>
+                                    <span className="text-gray-500 break-all"> · {document.original_name}</span>
+                                    {document.review_status === 'rejected' && document.review_note && (
+                                        <span className="block text-red-600">{document.review_note}</span>
+                                    )}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </>
+    );
+};
+
+export default ApplicationInfoPanel;
@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { Globe } from 'react-feather';
+import { authApi } from '../../lib/api';
+import { getErrorMessage, NOTIFICATION_LOCALE_OPTIONS } from '../../lib/types';
+import type { NotificationLocale } from '../../lib/types';
+
+interface EmailLanguageSelectProps {
+    value: NotificationLocale;
+    onSaved: (locale: NotificationLocale) => void;
+}
+
+// Language of the emails sent when the admin's application or access changes
+const EmailLanguageSelect: React.FC<EmailLanguageSelectProps> = ({ value, onSaved }) => {
+    const [saving, setSaving] = useState(false);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    const handleChange = async (event: React.ChangeEvent<HTMLSelectElement>) => {
+        const locale = event.target.value as NotificationLocale;
+        setSaving(true);
+        setMessage(null);
+        try {
+            const response = await authApi.updateAdminPreferences({ preferred_language: locale });
+            onSaved(response.data.preferred_language);
+            setMessage({ type: 'success', text: response.data.message });
+        } catch (err) {
+            setMessage({ type: 'error', text: getErrorMessage(err) });
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="mt-6 pt-4 border-t border-green-200/50 flex flex-col sm:flex-row sm:items-center gap-2 text-sm">
+            <label htmlFor="email-language" className="flex items-center gap-2 text-gray-600">
+                <Globe size={14} className="text-green-600" />
+                Email me in
+            </label>
+            <select
+                id="email-language"
+                value={value}
+                onChange={handleChange}
+                disabled={saving}
+                className="px-2 py-1.5 text-sm bg-white/80 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 disabled:opacity-50"
+            >
+                {NOTIFICATION_LOCALE_OPTIONS.map((option) => (
+                    <option key={option.locale} value={option.locale}>{option.label}</option>
+                ))}
+            </select>
+            {message && (
+                <span className={message.type === 'success' ? 'text-green-700' : 'text-red-600'}>{message.text}</span>
+            )}
+        </div>
+    );
+};
+
+export default EmailLanguageSelect;
@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { useQueryClient } from '@tanstack/react-query';
+import { CheckSquare, Upload } from 'react-feather';
+import { mosqueApi } from '../../lib/api';
+import { mosqueQueryKeys } from '../../lib/queries';
+import { getErrorMessage } from '../../lib/types';
+import type { MosqueFacilities } from '../../lib/types';
+import { EMPTY_FACILITIES, FACILITIES, KHUTBAH_LANGUAGES } from '../../lib/facilities';
+import { FacilityIcon } from '../FacilityIcons';
+
+interface FacilitiesSettingsProps {
+    mosqueId: string;
+    facilities?: MosqueFacilities;
+    onSuccess: (message: string) => void;
+    onError: (message: string) => void;
+}
+
+const FacilitiesSettings: React.FC<FacilitiesSettingsProps> = ({ mosqueId, facilities, onSuccess, onError }) => {
+    const queryClient = useQueryClient();
+    const [saving, setSaving] = useState(false);
+    const form = useForm<MosqueFacilities>({ defaultValues: EMPTY_FACILITIES });
+
+    useEffect(() => {
+        form.reset({ ...EMPTY_FACILITIES, ...facilities });
+    }, [facilities, form]);
+
+    const handleSave = async (data: MosqueFacilities) => {
+        setSaving(true);
+        try {
+            await mosqueApi.updateFacilities(mosqueId, {
+                ...data,
+                // A checkbox group with no boxes ticked comes through as false
+                khutbah_languages: Array.isArray(data.khutbah_languages) ? data.khutbah_languages : [],
+            });
+            onSuccess('Mosque facilities saved successfully!');
+
+            queryClient.invalidateQueries({ queryKey: mosqueQueryKeys.detail(mosqueId) });
+            queryClient.invalidateQueries({ queryKey: mosqueQueryKeys.lists() });
+        } catch (err) {
+            onError(getErrorMessage(err));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="relative bg-gradient-to-br from-green-50 to-emerald-100/80 backdrop-blur-xl rounded-3xl p-6 sm:p-8 border border-green-200/50 shadow-2xl overflow-hidden">
+            {/* Islamic background orbs */}
+            <div className="absolute -top-8 -right-8 w-32 h-32 bg-gradient-to-br from-green-400/20 to-emerald-500/20 rounded-full blur-2xl animate-pulse"></div>
+
+            <form onSubmit={form.handleSubmit(handleSave)} className="relative space-y-6">
+                <div>
+                    <h4 className="text-lg font-bold text-gray-800 flex items-center">
+                        <CheckSquare className="w-5 h-5 text-green-600 mr-2" />
+                        Facilities & Amenities
+                    </h4>
+                    <p className="text-sm text-gray-600 mt-1">
+                        Shown on your mosque profile and used by visitors to filter the mosque finder.
+                    </p>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    {FACILITIES.map(({ key, label }) => (
+                        <label
+                            key={key}
+                            className="flex items-center bg-white/80 border border-green-200/50 rounded-2xl px-4 py-3 cursor-pointer hover:bg-white shadow-sm transition-colors duration-200"
+                        >
+                            <input type="checkbox" {...form.register(key)} className="w-5 h-5 text-green-600 rounded focus:ring-green-500" />
+                            <FacilityIcon facility={key} className="w-4 h-4 text-green-600 ml-3 mr-2 flex-shrink-0" />
+                            <span className="text-sm font-semibold text-gray-700">{label}</span>
+                        </label>
+                    ))}
+                </div>
+
+                <div>
+                    <label className="block text-sm font-bold text-gray-700 mb-2">Jummah Khutbah Language</label>
+                    <div className="flex flex-wrap gap-2">
+                        {KHUTBAH_LANGUAGES.map(({ value, label }) => (
+                            <label
+                                key={value}
+                                className="flex items-center bg-white/80 border border-green-200/50 rounded-xl px-3 py-2 cursor-pointer hover:bg-white text-sm text-gray-700 transition-colors duration-200"
+                            >
+                                <input
+                                    type="checkbox"
+                                    value={value}
+                                    {...form.register('khutbah_languages')}
+                                    className="w-4 h-4 text-green-600 rounded focus:ring-green-500 mr-2"
+                                />
+                                {label}
+                            </label>
+                        ))}
+                    </div>
+                </div>
+
+                <button
+                    type="submit"
+                    disabled={saving}
+                    className="w-full bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 disabled:from-gray-400 disabled:to-gray-500 text-white font-bold py-4 px-6 rounded-2xl transition-all duration-200 shadow-xl hover:shadow-2xl transform hover:-translate-y-1 disabled:transform-none disabled:hover:shadow-xl border border-green-400/20"
+                >
+                    {saving ? (
+                        <div className="flex items-center justify-center">
+                            <div className="animate-spin rounded-full h-5 w-5 border-2 border-white border-t-transparent mr-3"></div>
+                            Saving Facilities...
+                        </div>
+                    ) : (
+                        <div className="flex items-center justify-center">
+                            <Upload className="w-5 h-5 mr-2" />
+                            Save Facilities
+                        </div>
+                    )}
+                </button>
+            </form>
+        </div>
+    );
+};
+
+export default FacilitiesSettings;
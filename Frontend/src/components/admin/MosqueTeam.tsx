@@ -0,0 +1,256 @@
+import React, { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Users, Mail, Send, UserX, X, Clock, Save } from 'react-feather';
+import { mosqueApi } from '../../lib/api';
+import { mosqueQueryKeys, useMosqueTeam } from '../../lib/queries';
+import { getErrorMessage } from '../../lib/types';
+import type { MosqueMember, MosqueRole } from '../../lib/types';
+
+interface MosqueTeamProps {
+    mosqueId: string;
+    onSuccess: (message: string) => void;
+    onError: (message: string) => void;
+}
+
+const ROLE_BADGES: Record<MosqueRole, string> = {
+    owner: 'bg-green-100 text-green-800 border-green-200',
+    editor: 'bg-blue-100 text-blue-800 border-blue-200',
+    prayer_times: 'bg-amber-100 text-amber-800 border-amber-200',
+};
+
+const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+// Team tab: everyone who manages the mosque; owners invite, re-role and remove members
+const MosqueTeam: React.FC<MosqueTeamProps> = ({ mosqueId, onSuccess, onError }) => {
+    const queryClient = useQueryClient();
+    const { data: team, isLoading } = useMosqueTeam(mosqueId);
+    const [email, setEmail] = useState('');
+    const [inviteRole, setInviteRole] = useState<MosqueRole>('editor');
+    const [inviting, setInviting] = useState(false);
+    // Role picked in each member's dropdown before it is saved
+    const [roleDrafts, setRoleDrafts] = useState<Record<string, MosqueRole>>({});
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    const canManage = team?.membership.permissions.includes('members.manage') ?? false;
+
+    const refresh = () => queryClient.invalidateQueries({ queryKey: mosqueQueryKeys.team(mosqueId) });
+
+    const runForRow = async (id: string, action: () => Promise<void>) => {
+        setBusyId(id);
+        try {
+            await action();
+            refresh();
+        } catch (err) {
+            onError(getErrorMessage(err));
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleInvite = async (event: React.FormEvent) => {
+        event.preventDefault();
+        setInviting(true);
+        try {
+            const response = await mosqueApi.inviteMember(mosqueId, { email: email.trim(), mosque_role: inviteRole });
+            onSuccess(response.data.message);
+            setEmail('');
+            refresh();
+        } catch (err) {
+            onError(getErrorMessage(err));
+        } finally {
+            setInviting(false);
+        }
+    };
+
+    const handleSaveRole = (member: MosqueMember) => runForRow(member.id, async () => {
+        const role = roleDrafts[member.id];
+        if (!role || role === member.mosque_role) return;
+        const response = await mosqueApi.updateMemberRole(mosqueId, member.id, role);
+        setRoleDrafts((drafts) => {
+            const next = { ...drafts };
+            delete next[member.id];
+            return next;
+        });
+        onSuccess(response.data.message);
+    });
+
+    const handleRemove = (member: MosqueMember) => {
+        const reason = window.prompt(`Remove ${member.name} from the team? They will be signed out straight away.\n\nReason (optional):`);
+        if (reason === null) return;
+        return runForRow(member.id, async () => {
+            const response = await mosqueApi.removeMember(mosqueId, member.id, reason.trim() || undefined);
+            onSuccess(response.data.message);
+        });
+    };
+
+    const handleRevoke = (invitationId: string, invitee: string) => {
+        if (!window.confirm(`Withdraw the invitation to ${invitee}? The link will stop working.`)) return;
+        return runForRow(invitationId, async () => {
+            const response = await mosqueApi.revokeInvitation(mosqueId, invitationId);
+            onSuccess(response.data.message);
+        });
+    };
+
+    if (isLoading || !team) {
+        return (
+            <div className="flex justify-center py-12">
+                <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-green-600"></div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-8">
+            {canManage && (
+                <form
+                    onSubmit={handleInvite}
+                    className="relative bg-gradient-to-br from-green-50 to-emerald-100/80 backdrop-blur-xl rounded-3xl p-6 sm:p-8 border border-green-200/50 shadow-2xl overflow-hidden"
+                >
+                    {/* Islamic background orbs */}
+                    <div className="absolute -top-8 -right-8 w-32 h-32 bg-gradient-to-br from-green-400/20 to-emerald-500/20 rounded-full blur-2xl animate-pulse"></div>
+
+                    <div className="relative space-y-5">
+                        <div>
+                            <h4 className="text-lg font-bold text-gray-800 flex items-center">
+                                <Mail className="w-5 h-5 text-green-600 mr-2" />
+                                Invite a Team Member
+                            </h4>
+                            <p className="text-sm text-gray-600 mt-1">
+                                We email them a link that works once and expires in 7 days. They don't need the mosque verification code.
+                            </p>
+                        </div>
+
+                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                            <input
+                                type="email"
+                                value={email}
+                                onChange={(event) => setEmail(event.target.value)}
+                                placeholder="name@gmail.com"
+                                required
+                                className="sm:col-span-2 w-full px-4 py-3 bg-white/80 backdrop-blur-sm border border-green-200/50 rounded-2xl focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500 text-gray-900 placeholder-gray-500 shadow-lg"
+                            />
+                            <select
+                                value={inviteRole}
+                                onChange={(event) => setInviteRole(event.target.value as MosqueRole)}
+                                className="w-full px-4 py-3 bg-white/80 backdrop-blur-sm border border-green-200/50 rounded-2xl focus:outline-none focus:ring-2 focus:ring-green-500 text-gray-900 shadow-lg"
+                            >
+                                {team.roles.map((role) => (
+                                    <option key={role.role} value={role.role}>{role.label}</option>
+                                ))}
+                            </select>
+                        </div>
+
+                        <button
+                            type="submit"
+                            disabled={inviting || !email.trim()}
+                            className="w-full sm:w-auto flex items-center justify-center bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 disabled:from-gray-400 disabled:to-gray-500 text-white font-bold py-3 px-6 rounded-2xl transition-all duration-200 shadow-xl"
+                        >
+                            <Send className="w-4 h-4 mr-2" />
+                            {inviting ? 'Sending...' : 'Send invitation'}
+                        </button>
+                    </div>
+                </form>
+            )}
+
+            <div className="bg-white/80 backdrop-blur-xl rounded-3xl p-6 sm:p-8 border border-gray-200/60 shadow-2xl">
+                <h4 className="text-lg font-bold text-gray-800 flex items-center mb-6">
+                    <Users className="w-5 h-5 text-green-600 mr-2" />
+                    Team ({team.members.length})
+                </h4>
+
+                <div className="space-y-3">
+                    {team.members.map((member) => {
+                        const draft = roleDrafts[member.id] ?? member.mosque_role;
+                        return (
+                            <div
+                                key={member.id}
+                                className={`flex flex-col lg:flex-row lg:items-center gap-4 rounded-2xl border p-4 ${member.is_you ? 'bg-green-50/80 border-green-300' : 'bg-white border-gray-200'}`}
+                            >
+                                <div className="flex-1 min-w-0">
+                                    <p className="font-semibold text-gray-800 flex items-center flex-wrap gap-2">
+                                        {member.name}
+                                        <span className={`text-xs font-bold px-2 py-0.5 rounded-full border ${ROLE_BADGES[member.mosque_role]}`}>
+                                            {member.role_label}
+                                        </span>
+                                        {member.is_you && (
+                                            <span className="text-xs font-bold text-green-700 bg-green-100 px-2 py-0.5 rounded-full">You</span>
+                                        )}
+                                    </p>
+                                    <p className="text-sm text-gray-500 truncate mt-1">{member.email} · {member.phone}</p>
+                                    <p className="text-xs text-gray-400 mt-1">
+                                        Joined {formatDate(member.joined_at)}{member.invited ? ' by invitation' : ''}
+                                    </p>
+                                </div>
+
+                                {canManage && !member.is_you && (
+                                    <div className="flex flex-wrap items-center gap-2">
+                                        <select
+                                            value={draft}
+                                            onChange={(event) => setRoleDrafts((drafts) => ({ ...drafts, [member.id]: event.target.value as MosqueRole }))}
+                                            disabled={busyId === member.id}
+                                            className="px-3 py-2 border border-gray-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+                                        >
+                                            {team.roles.map((role) => (
+                                                <option key={role.role} value={role.role}>{role.label}</option>
+                                            ))}
+                                        </select>
+                                        <button
+                                            onClick={() => handleSaveRole(member)}
+                                            disabled={busyId === member.id || draft === member.mosque_role}
+                                            className="flex items-center text-sm font-medium text-green-700 border border-green-200 hover:bg-green-50 px-3 py-2 rounded-xl transition-colors disabled:opacity-50"
+                                        >
+                                            <Save className="w-4 h-4 mr-1" />
+                                            Save
+                                        </button>
+                                        <button
+                                            onClick={() => handleRemove(member)}
+                                            disabled={busyId === member.id}
+                                            className="flex items-center text-sm font-medium text-red-600 border border-red-200 hover:bg-red-50 px-3 py-2 rounded-xl transition-colors disabled:opacity-50"
+                                        >
+                                            <UserX className="w-4 h-4 mr-1" />
+                                            Remove
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+
+            {canManage && team.invitations.length > 0 && (
+                <div className="bg-white/80 backdrop-blur-xl rounded-3xl p-6 sm:p-8 border border-gray-200/60 shadow-2xl">
+                    <h4 className="text-lg font-bold text-gray-800 flex items-center mb-6">
+                        <Clock className="w-5 h-5 text-amber-600 mr-2" />
+                        Waiting to Accept ({team.invitations.length})
+                    </h4>
+                    <div className="space-y-3">
+                        {team.invitations.map((invitation) => (
+                            <div key={invitation.id} className="flex flex-col sm:flex-row sm:items-center gap-3 rounded-2xl border border-amber-200 bg-amber-50/60 p-4">
+                                <div className="flex-1 min-w-0">
+                                    <p className="font-semibold text-gray-800 truncate">{invitation.email}</p>
+                                    <p className="text-xs text-gray-500 mt-1">
+                                        {invitation.role_label} · Sent {formatDate(invitation.created_at)}
+                                        {invitation.opened_at ? ` · Opened ${formatDate(invitation.opened_at)}` : ' · Not opened yet'}
+                                        {' · '}Expires {formatDate(invitation.expires_at)}
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={() => handleRevoke(invitation.id, invitation.email)}
+                                    disabled={busyId === invitation.id}
+                                    className="flex items-center justify-center text-sm font-medium text-red-600 border border-red-200 hover:bg-red-50 px-3 py-2 rounded-xl transition-colors disabled:opacity-50"
+                                >
+                                    <X className="w-4 h-4 mr-1" />
+                                    Withdraw
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default MosqueTeam;
@@ -0,0 +1,206 @@
+import React, { useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Camera, Eye, EyeOff, Clock, Trash2, Upload } from 'react-feather';
+import { mosqueApi, resolveMediaUrl } from '../../lib/api';
+import { mosqueQueryKeys, useManagedPhotos } from '../../lib/queries';
+import { getErrorMessage } from '../../lib/types';
+import type { PhotoStatus } from '../../lib/types';
+
+interface PhotoGalleryProps {
+    mosqueId: string;
+    onSuccess: (message: string) => void;
+    onError: (message: string) => void;
+}
+
+const MAX_UPLOAD_MB = 8;
+const ACCEPTED_TYPES = 'image/jpeg,image/png,image/webp';
+
+const STATUS_BADGES: Record<PhotoStatus, { label: string; className: string; icon: React.ElementType }> = {
+    pending: { label: 'Awaiting approval', className: 'bg-yellow-100 text-yellow-800 border-yellow-200', icon: Clock },
+    approved: { label: 'Published', className: 'bg-green-100 text-green-800 border-green-200', icon: Eye },
+    hidden: { label: 'Hidden', className: 'bg-red-100 text-red-800 border-red-200', icon: EyeOff },
+};
+
+const PhotoGallery: React.FC<PhotoGalleryProps> = ({ mosqueId, onSuccess, onError }) => {
+    const queryClient = useQueryClient();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const { data, isLoading } = useManagedPhotos(mosqueId);
+    const [file, setFile] = useState<File | null>(null);
+    const [caption, setCaption] = useState('');
+    const [uploading, setUploading] = useState(false);
+    const [deletingId, setDeletingId] = useState<string | null>(null);
+
+    const photos = data?.photos || [];
+    const limitReached = data ? photos.length >= data.limit : false;
+
+    const refresh = () => {
+        queryClient.invalidateQueries({ queryKey: mosqueQueryKeys.photos(mosqueId) });
+        queryClient.invalidateQueries({ queryKey: mosqueQueryKeys.detail(mosqueId) });
+        queryClient.invalidateQueries({ queryKey: mosqueQueryKeys.lists() });
+    };
+
+    const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const selected = event.target.files?.[0] || null;
+        if (selected && selected.size > MAX_UPLOAD_MB * 1024 * 1024) {
+            onError(`Photo must be smaller than ${MAX_UPLOAD_MB} MB`);
+            event.target.value = '';
+            return;
+        }
+        setFile(selected);
+    };
+
+    const handleUpload = async (event: React.FormEvent) => {
+        event.preventDefault();
+        if (!file) return;
+
+        setUploading(true);
+        try {
+            await mosqueApi.uploadPhoto(mosqueId, file, caption.trim() || undefined);
+            onSuccess('Photo uploaded! It will appear on your profile once a super admin approves it.');
+            setFile(null);
+            setCaption('');
+            if (fileInputRef.current) fileInputRef.current.value = '';
+            refresh();
+        } catch (err) {
+            onError(getErrorMessage(err));
+        } finally {
+            setUploading(false);
+        }
+    };
+
+    const handleDelete = async (photoId: string) => {
+        if (!window.confirm('Delete this photo? This cannot be undone.')) return;
+
+        setDeletingId(photoId);
+        try {
+            await mosqueApi.deletePhoto(mosqueId, photoId);
+            onSuccess('Photo deleted');
+            refresh();
+        } catch (err) {
+            onError(getErrorMessage(err));
+        } finally {
+            setDeletingId(null);
+        }
+    };
+
+    return (
+        <div className="space-y-8">
+            <form
+                onSubmit={handleUpload}
+                className="relative bg-gradient-to-br from-green-50 to-emerald-100/80 backdrop-blur-xl rounded-3xl p-6 sm:p-8 border border-green-200/50 shadow-2xl overflow-hidden"
+            >
+                {/* Islamic background orbs */}
+                <div className="absolute -top-8 -right-8 w-32 h-32 bg-gradient-to-br from-green-400/20 to-emerald-500/20 rounded-full blur-2xl animate-pulse"></div>
+
+                <div className="relative space-y-5">
+                    <div>
+                        <h4 className="text-lg font-bold text-gray-800 flex items-center">
+                            <Camera className="w-5 h-5 text-green-600 mr-2" />
+                            Upload a Photo
+                        </h4>
+                        <p className="text-sm text-gray-600 mt-1">
+                            JPEG, PNG or WebP up to {MAX_UPLOAD_MB} MB. New photos are reviewed by a super admin before they are published.
+                            {data && ` ${photos.length} of ${data.limit} photos used.`}
+                        </p>
+                    </div>
+
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept={ACCEPTED_TYPES}
+                        onChange={handleFileChange}
+                        disabled={limitReached || uploading}
+                        className="block w-full text-sm text-gray-700 file:mr-4 file:py-2 file:px-4 file:rounded-xl file:border-0 file:font-semibold file:bg-green-600 file:text-white hover:file:bg-green-700 file:cursor-pointer"
+                    />
+
+                    <div>
+                        <label className="block text-sm font-bold text-gray-700 mb-2">Caption (optional)</label>
+                        <input
+                            type="text"
+                            value={caption}
+                            maxLength={200}
+                            onChange={(event) => setCaption(event.target.value)}
+                            placeholder="e.g. Main prayer hall during Taraweeh"
+                            className="w-full px-4 py-3 bg-white/80 backdrop-blur-sm border border-green-200/50 rounded-2xl focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500 text-gray-900 placeholder-gray-500 shadow-lg"
+                        />
+                    </div>
+
+                    {limitReached && (
+                        <p className="text-sm text-red-600 font-medium">
+                            You have reached the photo limit. Delete a photo to upload another.
+                        </p>
+                    )}
+
+                    <button
+                        type="submit"
+                        disabled={!file || uploading || limitReached}
+                        className="w-full bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 disabled:from-gray-400 disabled:to-gray-500 text-white font-bold py-4 px-6 rounded-2xl transition-all duration-200 shadow-xl hover:shadow-2xl transform hover:-translate-y-1 disabled:transform-none disabled:hover:shadow-xl border border-green-400/20"
+                    >
+                        {uploading ? (
+                            <div className="flex items-center justify-center">
+                                <div className="animate-spin rounded-full h-5 w-5 border-2 border-white border-t-transparent mr-3"></div>
+                                Uploading Photo...
+                            </div>
+                        ) : (
+                            <div className="flex items-center justify-center">
+                                <Upload className="w-5 h-5 mr-2" />
+                                Upload Photo
+                            </div>
+                        )}
+                    </button>
+                </div>
+            </form>
+
+            {isLoading ? (
+                <div className="flex justify-center py-8">
+                    <div className="animate-spin rounded-full h-8 w-8 border-2 border-green-600 border-t-transparent"></div>
+                </div>
+            ) : photos.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">No photos yet. Upload your first photo above.</p>
+            ) : (
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                    {photos.map((photo) => {
+                        const badge = STATUS_BADGES[photo.status || 'pending'];
+                        const BadgeIcon = badge.icon;
+                        return (
+                            <div key={photo.id} className="bg-white/90 border border-green-200/50 rounded-2xl shadow-lg overflow-hidden">
+                                <img
+                                    src={resolveMediaUrl(photo.thumbnail_url)}
+                                    alt={photo.caption || 'Mosque photo'}
+                                    loading="lazy"
+                                    className="w-full h-40 object-cover"
+                                />
+                                <div className="p-4 space-y-2">
+                                    <span className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-semibold border ${badge.className}`}>
+                                        <BadgeIcon className="w-3 h-3 mr-1" />
+                                        {badge.label}
+                                    </span>
+                                    {photo.caption && <p className="text-sm text-gray-800">{photo.caption}</p>}
+                                    {photo.status === 'hidden' && photo.moderation_note && (
+                                        <p className="text-xs text-red-700">Reason: {photo.moderation_note}</p>
+                                    )}
+                                    <div className="flex items-center justify-between pt-1">
+                                        <span className="text-xs text-gray-500">
+                                            {new Date(photo.createdAt).toLocaleDateString()}
+                                        </span>
+                                        <button
+                                            type="button"
+                                            onClick={() => handleDelete(photo.id)}
+                                            disabled={deletingId === photo.id}
+                                            className="flex items-center text-sm text-red-600 hover:text-red-800 disabled:opacity-50 font-medium"
+                                        >
+                                            <Trash2 className="w-4 h-4 mr-1" />
+                                            {deletingId === photo.id ? 'Deleting...' : 'Delete'}
+                                        </button>
+                                    </div>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PhotoGallery;
@@ -0,0 +1,349 @@
+import React, { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useQueryClient } from '@tanstack/react-query';
+import { AlertTriangle, Compass, Crosshair, Sun, Upload } from 'react-feather';
+import { mosqueApi } from '../../lib/api';
+import { mosqueQueryKeys, usePrayerTimes } from '../../lib/queries';
+import { getErrorMessage } from '../../lib/types';
+import type { PrayerCalculationSettings as CalculationSettings } from '../../lib/types';
+
+const CALCULATION_METHODS = [
+    { value: 'karachi', label: 'University of Islamic Sciences, Karachi' },
+    { value: 'mwl', label: 'Muslim World League' },
+    { value: 'isna', label: 'Islamic Society of North America' },
+    { value: 'umm_al_qura', label: 'Umm al-Qura, Makkah' },
+    { value: 'egyptian', label: 'Egyptian General Authority of Survey' },
+] as const;
+
+const ASR_METHODS = [
+    { value: 'hanafi', label: 'Hanafi (shadow length x2)' },
+    { value: 'shafii', label: "Shafi'i, Maliki, Hanbali (shadow length x1)" },
+] as const;
+
+const HIGH_LATITUDE_RULES = [
+    { value: 'angle_based', label: 'Angle based (recommended)' },
+    { value: 'middle_of_night', label: 'Middle of the night' },
+    { value: 'one_seventh', label: 'One seventh of the night' },
+    { value: 'none', label: 'No adjustment' },
+] as const;
+
+const OFFSET_PRAYERS = [
+    { name: 'fajr', label: 'Fajr' },
+    { name: 'dhuhr', label: 'Dhuhr' },
+    { name: 'asr', label: 'Asr' },
+    { name: 'maghrib', label: 'Maghrib' },
+    { name: 'isha', label: 'Isha' },
+] as const;
+
+const offsetSchema = z.number({ error: 'Enter minutes' })
+    .int('Whole minutes only')
+    .min(0, 'Cannot be negative')
+    .max(180, 'Maximum 180 minutes');
+
+// Empty number inputs come through as NaN; coordinates are only required when enabled
+const calculationSchema = z.object({
+    enabled: z.boolean(),
+    latitude: z.number().min(-90, 'Latitude must be between -90 and 90').max(90, 'Latitude must be between -90 and 90').or(z.nan()),
+    longitude: z.number().min(-180, 'Longitude must be between -180 and 180').max(180, 'Longitude must be between -180 and 180').or(z.nan()),
+    timezone: z.string().min(1, 'Timezone is required'),
+    method: z.enum(['karachi', 'mwl', 'isna', 'umm_al_qura', 'egyptian']),
+    asr_method: z.enum(['hanafi', 'shafii']),
+    high_latitude_rule: z.enum(['none', 'middle_of_night', 'one_seventh', 'angle_based']),
+    fajr: offsetSchema,
+    dhuhr: offsetSchema,
+    asr: offsetSchema,
+    maghrib: offsetSchema,
+    isha: offsetSchema,
+    use_jummah_offset: z.boolean(),
+    jummah: offsetSchema,
+}).superRefine((data, ctx) => {
+    if (!data.enabled) return;
+    if (Number.isNaN(data.latitude)) {
+        ctx.addIssue({ code: 'custom', path: ['latitude'], message: 'Latitude is required to enable calculation' });
+    }
+    if (Number.isNaN(data.longitude)) {
+        ctx.addIssue({ code: 'custom', path: ['longitude'], message: 'Longitude is required to enable calculation' });
+    }
+});
+
+type CalculationFormData = z.infer<typeof calculationSchema>;
+
+interface PrayerCalculationSettingsProps {
+    mosqueId: string;
+    settings?: CalculationSettings | null;
+    onSuccess: (message: string) => void;
+    onError: (message: string) => void;
+}
+
+// Convert 24-hour time string to 12-hour format for display
+const formatTime = (time?: string | null): string => {
+    if (!time) return '--:--';
+    const [hours, minutes] = time.split(':').map(Number);
+    const period = hours >= 12 ? 'PM' : 'AM';
+    const displayHours = hours === 0 ? 12 : hours > 12 ? hours - 12 : hours;
+    return `${displayHours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')} ${period}`;
+};
+
+const PrayerCalculationSettings: React.FC<PrayerCalculationSettingsProps> = ({ mosqueId, settings, onSuccess, onError }) => {
+    const queryClient = useQueryClient();
+    const [saving, setSaving] = useState(false);
+    const [locating, setLocating] = useState(false);
+    const { data: todayTimes } = usePrayerTimes(mosqueId);
+
+    const form = useForm<CalculationFormData>({
+        resolver: zodResolver(calculationSchema),
+    });
+    const useJummahOffset = form.watch('use_jummah_offset');
+
+    useEffect(() => {
+        form.reset({
+            enabled: settings?.enabled ?? false,
+            latitude: settings?.latitude ?? NaN,
+            longitude: settings?.longitude ?? NaN,
+            timezone: settings?.timezone || 'Asia/Karachi',
+            method: settings?.method || 'karachi',
+            asr_method: settings?.asr_method || 'hanafi',
+            high_latitude_rule: settings?.high_latitude_rule || 'angle_based',
+            fajr: settings?.jamaat_offsets?.fajr ?? 0,
+            dhuhr: settings?.jamaat_offsets?.dhuhr ?? 0,
+            asr: settings?.jamaat_offsets?.asr ?? 0,
+            maghrib: settings?.jamaat_offsets?.maghrib ?? 0,
+            isha: settings?.jamaat_offsets?.isha ?? 0,
+            use_jummah_offset: typeof settings?.jamaat_offsets?.jummah === 'number',
+            jummah: settings?.jamaat_offsets?.jummah ?? 0,
+        });
+    }, [settings, form]);
+
+    const handleUseMyLocation = () => {
+        if (!navigator.geolocation) {
+            onError('Location is not supported by this browser');
+            return;
+        }
+
+        setLocating(true);
+        navigator.geolocation.getCurrentPosition(
+            (position) => {
+                form.setValue('latitude', Number(position.coords.latitude.toFixed(6)), { shouldValidate: true });
+                form.setValue('longitude', Number(position.coords.longitude.toFixed(6)), { shouldValidate: true });
+                setLocating(false);
+            },
+            () => {
+                onError('Unable to read your location. Please enter the coordinates manually.');
+                setLocating(false);
+            },
+            { enableHighAccuracy: true, timeout: 10000 }
+        );
+    };
+
+    const handleSave = async (data: CalculationFormData) => {
+        setSaving(true);
+        try {
+            await mosqueApi.updatePrayerCalculation(mosqueId, {
+                enabled: data.enabled,
+                latitude: Number.isNaN(data.latitude) ? null : data.latitude,
+                longitude: Number.isNaN(data.longitude) ? null : data.longitude,
+                timezone: data.timezone,
+                method: data.method,
+                asr_method: data.asr_method,
+                high_latitude_rule: data.high_latitude_rule,
+                jamaat_offsets: {
+                    fajr: data.fajr,
+                    dhuhr: data.dhuhr,
+                    asr: data.asr,
+                    maghrib: data.maghrib,
+                    isha: data.isha,
+                    jummah: data.use_jummah_offset ? data.jummah : null,
+                },
+            });
+            onSuccess('Prayer calculation settings saved successfully!');
+
+            queryClient.invalidateQueries({ queryKey: mosqueQueryKeys.detail(mosqueId) });
+            queryClient.invalidateQueries({ queryKey: mosqueQueryKeys.prayerTimes(mosqueId) });
+            queryClient.invalidateQueries({ queryKey: mosqueQueryKeys.timetables(mosqueId) });
+        } catch (err) {
+            onError(getErrorMessage(err));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const inputClass = 'w-full px-4 py-3 text-sm sm:text-base bg-white/80 backdrop-blur-sm border border-green-200/50 rounded-2xl focus:outline-none focus:ring-2 focus:ring-green-400 focus:border-transparent transition-all duration-200 shadow-lg';
+    const errors = form.formState.errors;
+
+    return (
+        <div className="relative bg-gradient-to-br from-green-50 to-emerald-100/80 backdrop-blur-xl rounded-3xl p-6 sm:p-8 border border-green-200/50 shadow-2xl overflow-hidden">
+            {/* Islamic background orbs */}
+            <div className="absolute -top-8 -right-8 w-32 h-32 bg-gradient-to-br from-green-400/20 to-emerald-500/20 rounded-full blur-2xl animate-pulse"></div>
+
+            <form onSubmit={form.handleSubmit(handleSave)} className="relative space-y-6">
+                <div className="flex items-start justify-between gap-4">
+                    <div>
+                        <h4 className="text-lg font-bold text-gray-800 flex items-center">
+                            <Compass className="w-5 h-5 text-green-600 mr-2" />
+                            Automatic Calculation
+                        </h4>
+                        <p className="text-sm text-gray-600 mt-1">
+                            Calculate daily times from your mosque's coordinates instead of entering them by hand.
+                        </p>
+                    </div>
+                    <label className="flex items-center cursor-pointer flex-shrink-0">
+                        <input type="checkbox" {...form.register('enabled')} className="w-5 h-5 text-green-600 rounded focus:ring-green-500" />
+                        <span className="ml-2 text-sm font-semibold text-gray-700">Enabled</span>
+                    </label>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                        <label className="block text-sm font-bold text-gray-700 mb-2">Latitude</label>
+                        <input {...form.register('latitude', { valueAsNumber: true })} type="number" step="any" placeholder="24.8607" className={`${inputClass} font-mono`} />
+                        {errors.latitude && (
+                            <p className="text-red-500 text-xs mt-2 ml-2 flex items-center">
+                                <AlertTriangle className="w-3 h-3 mr-1" />
+                                {errors.latitude.message}
+                            </p>
+                        )}
+                    </div>
+                    <div>
+                        <label className="block text-sm font-bold text-gray-700 mb-2">Longitude</label>
+                        <input {...form.register('longitude', { valueAsNumber: true })} type="number" step="any" placeholder="67.0011" className={`${inputClass} font-mono`} />
+                        {errors.longitude && (
+                            <p className="text-red-500 text-xs mt-2 ml-2 flex items-center">
+                                <AlertTriangle className="w-3 h-3 mr-1" />
+                                {errors.longitude.message}
+                            </p>
+                        )}
+                    </div>
+                </div>
+
+                <button
+                    type="button"
+                    onClick={handleUseMyLocation}
+                    disabled={locating}
+                    className="inline-flex items-center px-4 py-2 text-sm font-semibold text-green-700 bg-white/80 border border-green-300 rounded-xl hover:bg-green-50 transition-colors disabled:opacity-50"
+                >
+                    <Crosshair className="w-4 h-4 mr-2" />
+                    {locating ? 'Locating...' : 'Use my current location'}
+                </button>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                        <label className="block text-sm font-bold text-gray-700 mb-2">Calculation Method</label>
+                        <select {...form.register('method')} className={inputClass}>
+                            {CALCULATION_METHODS.map((method) => (
+                                <option key={method.value} value={method.value}>{method.label}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-bold text-gray-700 mb-2">Asr Method</label>
+                        <select {...form.register('asr_method')} className={inputClass}>
+                            {ASR_METHODS.map((method) => (
+                                <option key={method.value} value={method.value}>{method.label}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-bold text-gray-700 mb-2">High Latitude Rule</label>
+                        <select {...form.register('high_latitude_rule')} className={inputClass}>
+                            {HIGH_LATITUDE_RULES.map((rule) => (
+                                <option key={rule.value} value={rule.value}>{rule.label}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-bold text-gray-700 mb-2">Timezone</label>
+                        <input {...form.register('timezone')} type="text" placeholder="Asia/Karachi" className={inputClass} />
+                        {errors.timezone && (
+                            <p className="text-red-500 text-xs mt-2 ml-2 flex items-center">
+                                <AlertTriangle className="w-3 h-3 mr-1" />
+                                {errors.timezone.message}
+                            </p>
+                        )}
+                    </div>
+                </div>
+
+                <div>
+                    <h5 className="text-sm font-bold text-gray-700 mb-1">Jamaat Offsets</h5>
+                    <p className="text-xs text-gray-500 mb-3">Minutes after adhan when the congregation starts, e.g. Isha jamaat = adhan + 15 min</p>
+                    <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                        {OFFSET_PRAYERS.map((prayer) => (
+                            <div key={prayer.name}>
+                                <label className="block text-xs font-semibold text-gray-600 mb-1">{prayer.label}</label>
+                                <input
+                                    {...form.register(prayer.name, { valueAsNumber: true })}
+                                    type="number"
+                                    min={0}
+                                    max={180}
+                                    className={`${inputClass} font-mono`}
+                                />
+                                {errors[prayer.name] && (
+                                    <p className="text-red-500 text-xs mt-1">{errors[prayer.name]?.message}</p>
+                                )}
+                            </div>
+                        ))}
+                        <div>
+                            <label className="flex items-center text-xs font-semibold text-gray-600 mb-1">
+                                <input type="checkbox" {...form.register('use_jummah_offset')} className="w-3 h-3 mr-1 text-green-600 rounded" />
+                                Jummah (from Dhuhr)
+                            </label>
+                            <input
+                                {...form.register('jummah', { valueAsNumber: true })}
+                                type="number"
+                                min={0}
+                                max={180}
+                                disabled={!useJummahOffset}
+                                className={`${inputClass} font-mono disabled:opacity-50`}
+                            />
+                        </div>
+                    </div>
+                    {!useJummahOffset && (
+                        <p className="text-xs text-gray-500 mt-2">Jummah keeps the fixed time entered in the manual prayer times.</p>
+                    )}
+                </div>
+
+                {todayTimes?.source === 'calculated' && todayTimes.adhan_times && (
+                    <div className="bg-white/70 rounded-2xl p-4 border border-green-200/50">
+                        <h5 className="text-sm font-bold text-gray-700 mb-3 flex items-center">
+                            <Sun className="w-4 h-4 text-amber-500 mr-2" />
+                            Today ({todayTimes.date})
+                        </h5>
+                        <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 text-sm">
+                            {OFFSET_PRAYERS.map((prayer) => (
+                                <div key={prayer.name} className="flex justify-between bg-green-50 rounded-lg px-3 py-2">
+                                    <span className="font-semibold text-gray-700">{prayer.label}</span>
+                                    <span className="font-mono text-gray-600">
+                                        {formatTime(todayTimes.adhan_times?.[prayer.name])}
+                                        <span className="hidden sm:inline"> / {formatTime(todayTimes.prayer_times[prayer.name])}</span>
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                        <p className="text-xs text-gray-500 mt-2">Adhan / Jamaat</p>
+                    </div>
+                )}
+
+                <button
+                    type="submit"
+                    disabled={saving}
+                    className="w-full bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 disabled:from-gray-400 disabled:to-gray-500 text-white font-bold py-4 px-6 rounded-2xl transition-all duration-200 shadow-xl hover:shadow-2xl transform hover:-translate-y-1 disabled:transform-none disabled:hover:shadow-xl border border-green-400/20"
+                >
+                    {saving ? (
+                        <div className="flex items-center justify-center">
+                            <div className="animate-spin rounded-full h-5 w-5 border-2 border-white border-t-transparent mr-3"></div>
+                            Saving Settings...
+                        </div>
+                    ) : (
+                        <div className="flex items-center justify-center">
+                            <Upload className="w-5 h-5 mr-2" />
+                            Save Calculation Settings
+                        </div>
+                    )}
+                </button>
+            </form>
+        </div>
+    );
+};
+
+export default PrayerCalculationSettings;
@@ -0,0 +1,290 @@
+import React, { useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { AlertTriangle, CheckCircle, Download, FileText, RotateCcw, Upload, X } from 'react-feather';
+import { mosqueApi } from '../../lib/api';
+import { mosqueQueryKeys } from '../../lib/queries';
+import { getErrorMessage } from '../../lib/types';
+import type { TimetableImportPreview } from '../../lib/types';
+import { readTimetableFile, TIMETABLE_TEMPLATE_CSV } from '../../lib/timetableImport';
+import type { TimetableImportRow } from '../../lib/timetableImport';
+
+interface TimetableImportProps {
+    mosqueId: string;
+    onSuccess: (message: string) => void;
+    onError: (message: string) => void;
+}
+
+const PRAYER_LABELS: Record<string, string> = {
+    fajr: 'Fajr',
+    dhuhr: 'Dhuhr',
+    asr: 'Asr',
+    maghrib: 'Maghrib',
+    isha: 'Isha',
+    jummah: 'Jummah',
+};
+
+// Convert 24-hour time string to 12-hour format for display
+const formatTime = (time?: string | null): string => {
+    if (!time) return '--:--';
+    const [hours, minutes] = time.split(':').map(Number);
+    const period = hours >= 12 ? 'PM' : 'AM';
+    const displayHours = hours === 0 ? 12 : hours > 12 ? hours - 12 : hours;
+    return `${displayHours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')} ${period}`;
+};
+
+// The import just committed, kept so it can be undone
+interface CommittedImport {
+    import_id: string;
+    imported: number;
+    from: string;
+    to: string;
+}
+
+const TimetableImport: React.FC<TimetableImportProps> = ({ mosqueId, onSuccess, onError }) => {
+    const queryClient = useQueryClient();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [fileName, setFileName] = useState<string | null>(null);
+    const [rows, setRows] = useState<TimetableImportRow[]>([]);
+    const [preview, setPreview] = useState<TimetableImportPreview | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [committing, setCommitting] = useState(false);
+    const [lastImport, setLastImport] = useState<CommittedImport | null>(null);
+    const [undoing, setUndoing] = useState(false);
+
+    const reset = () => {
+        setFileName(null);
+        setRows([]);
+        setPreview(null);
+        if (fileInputRef.current) fileInputRef.current.value = '';
+    };
+
+    const handleDownloadTemplate = () => {
+        const blob = new Blob([TIMETABLE_TEMPLATE_CSV], { type: 'text/csv' });
+        const url = window.URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = 'timetable-template.csv';
+        link.click();
+        window.URL.revokeObjectURL(url);
+    };
+
+    const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+
+        setLoading(true);
+        setPreview(null);
+        setFileName(file.name);
+        try {
+            const parsedRows = await readTimetableFile(file);
+            const response = await mosqueApi.previewTimetableImport(mosqueId, parsedRows);
+            setRows(parsedRows);
+            setPreview(response.data);
+        } catch (err) {
+            onError(getErrorMessage(err));
+            reset();
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const invalidateTimetable = () => {
+        queryClient.invalidateQueries({ queryKey: mosqueQueryKeys.timetables(mosqueId) });
+        queryClient.invalidateQueries({ queryKey: mosqueQueryKeys.prayerTimes(mosqueId) });
+    };
+
+    const handleUndo = async () => {
+        if (!lastImport) return;
+        if (!window.confirm(`Remove the ${lastImport.imported} imported day(s) from ${lastImport.from} to ${lastImport.to}?`)) return;
+
+        setUndoing(true);
+        try {
+            const response = await mosqueApi.removeImportedTimetableDays(mosqueId, { import_id: lastImport.import_id });
+            onSuccess(`Removed ${response.data.removed} imported day(s). Those dates use the regular timetable again.`);
+            invalidateTimetable();
+            setLastImport(null);
+        } catch (err) {
+            onError(getErrorMessage(err));
+        } finally {
+            setUndoing(false);
+        }
+    };
+
+    const handleCommit = async () => {
+        if (!preview) return;
+
+        setCommitting(true);
+        try {
+            const response = await mosqueApi.commitTimetableImport(mosqueId, rows);
+            onSuccess(`Imported ${response.data.imported} day(s) from ${response.data.from} to ${response.data.to}`);
+            invalidateTimetable();
+            setLastImport(response.data);
+            reset();
+        } catch (err) {
+            onError(getErrorMessage(err));
+        } finally {
+            setCommitting(false);
+        }
+    };
+
+    const invalidRows = preview?.rows.filter((row) => row.errors.length > 0) || [];
+    const changedDays = preview?.diff.filter((day) => day.changes.length > 0) || [];
+
+    return (
+        <div className="relative bg-white/70 backdrop-blur-xl rounded-3xl p-6 border border-green-200/50 shadow-2xl">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+                <div>
+                    <h4 className="text-lg font-bold text-gray-800 flex items-center">
+                        <FileText className="w-5 h-5 text-green-600 mr-2" />
+                        Import Monthly Timetable
+                    </h4>
+                    <p className="text-sm text-gray-600">
+                        Upload a CSV or XLSX with one row per date and columns for fajr, dhuhr, asr, maghrib, isha and jummah.
+                    </p>
+                </div>
+                <button
+                    type="button"
+                    onClick={handleDownloadTemplate}
+                    className="inline-flex items-center justify-center px-4 py-2 text-sm font-semibold text-green-700 bg-white/80 border border-green-300 rounded-xl hover:bg-green-50 transition-colors flex-shrink-0"
+                >
+                    <Download className="w-4 h-4 mr-2" />
+                    <span className="hidden sm:inline">Download template</span>
+                    <span className="sm:hidden">Template</span>
+                </button>
+            </div>
+
+            {!preview && lastImport && (
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4 bg-green-50 rounded-2xl px-4 py-3 border border-green-200/50">
+                    <p className="text-sm text-gray-700">
+                        Imported {lastImport.imported} day(s) from {lastImport.from} to {lastImport.to}.
+                    </p>
+                    <button
+                        type="button"
+                        onClick={handleUndo}
+                        disabled={undoing}
+                        className="inline-flex items-center justify-center px-4 py-2 text-sm font-semibold text-red-700 bg-white/80 border border-red-200 rounded-xl hover:bg-red-50 disabled:opacity-50 transition-colors flex-shrink-0"
+                    >
+                        <RotateCcw className="w-4 h-4 mr-2" />
+                        {undoing ? 'Undoing...' : 'Undo import'}
+                    </button>
+                </div>
+            )}
+
+            {!preview && (
+                <label className="flex flex-col items-center justify-center w-full py-8 border-2 border-dashed border-green-300 rounded-2xl cursor-pointer bg-green-50/50 hover:bg-green-50 transition-colors">
+                    {loading ? (
+                        <div className="animate-spin rounded-full h-8 w-8 border-2 border-green-500 border-t-transparent"></div>
+                    ) : (
+                        <>
+                            <Upload className="w-8 h-8 text-green-600 mb-2" />
+                            <span className="text-sm font-semibold text-gray-700">Choose a .csv or .xlsx file</span>
+                            <span className="text-xs text-gray-500 mt-1">Times may be HH:MM or HH:MM AM/PM. Empty cells keep the current time.</span>
+                        </>
+                    )}
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept=".csv,.xlsx"
+                        onChange={handleFileChange}
+                        disabled={loading}
+                        className="hidden"
+                    />
+                </label>
+            )}
+
+            {preview && (
+                <div className="space-y-4">
+                    <div className="flex items-center justify-between bg-green-50 rounded-2xl px-4 py-3 border border-green-200/50">
+                        <div className="text-sm text-gray-700 min-w-0">
+                            <span className="font-semibold truncate">{fileName}</span>
+                            <span className="block sm:inline sm:ml-2 text-gray-500">
+                                {preview.summary.valid} valid · {preview.summary.invalid} with errors · {preview.summary.changed} changed
+                                {preview.summary.from && ` · ${preview.summary.from} → ${preview.summary.to}`}
+                            </span>
+                        </div>
+                        <button type="button" onClick={reset} className="p-1 text-gray-500 hover:text-gray-700 flex-shrink-0" title="Choose another file">
+                            <X className="w-5 h-5" />
+                        </button>
+                    </div>
+
+                    {invalidRows.length > 0 && (
+                        <div className="bg-red-50 border border-red-200 rounded-2xl p-4">
+                            <p className="text-sm font-semibold text-red-800 flex items-center mb-2">
+                                <AlertTriangle className="w-4 h-4 mr-2" />
+                                Fix these rows in your file and upload it again
+                            </p>
+                            <ul className="text-sm text-red-700 space-y-1 max-h-48 overflow-y-auto">
+                                {invalidRows.map((row) => (
+                                    <li key={row.row}>
+                                        <span className="font-semibold">Row {row.row}{row.date && ` (${row.date})`}:</span> {row.errors.join('; ')}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    {changedDays.length > 0 ? (
+                        <div className="overflow-x-auto max-h-96 overflow-y-auto rounded-2xl border border-green-200/50">
+                            <table className="min-w-full text-sm">
+                                <thead className="bg-green-50 sticky top-0">
+                                    <tr className="text-left text-gray-600">
+                                        <th className="py-2 px-3 font-semibold">Date</th>
+                                        <th className="py-2 px-3 font-semibold">Changes</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {changedDays.map((day) => (
+                                        <tr key={day.date} className="border-t border-green-100 align-top">
+                                            <td className="py-2 px-3 whitespace-nowrap font-medium text-gray-800">
+                                                <span className="hidden sm:inline">{day.day.slice(0, 3)} </span>{day.date}
+                                                {day.overridden && (
+                                                    <span className="block text-xs text-amber-700">Override in place</span>
+                                                )}
+                                            </td>
+                                            <td className="py-2 px-3">
+                                                <div className="flex flex-wrap gap-2">
+                                                    {day.changes.map((change) => (
+                                                        <span key={change.prayer} className="inline-flex items-center px-2 py-1 rounded-lg bg-white border border-green-100 font-mono text-xs">
+                                                            <span className="font-sans font-semibold text-gray-700 mr-1">{PRAYER_LABELS[change.prayer]}</span>
+                                                            <span className="text-red-600 line-through mr-1">{formatTime(change.from)}</span>
+                                                            <span className="text-green-700">{formatTime(change.to)}</span>
+                                                        </span>
+                                                    ))}
+                                                </div>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    ) : (
+                        invalidRows.length === 0 && (
+                            <p className="text-center text-gray-500 py-4">This file matches the current timetable. Nothing will change.</p>
+                        )
+                    )}
+
+                    <button
+                        type="button"
+                        onClick={handleCommit}
+                        disabled={committing || invalidRows.length > 0 || preview.summary.valid === 0}
+                        className="w-full bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 disabled:from-gray-400 disabled:to-gray-500 text-white font-bold py-3 px-6 rounded-2xl transition-all duration-200 shadow-xl flex items-center justify-center"
+                    >
+                        {committing ? (
+                            <>
+                                <div className="animate-spin rounded-full h-5 w-5 border-2 border-white border-t-transparent mr-3"></div>
+                                Importing...
+                            </>
+                        ) : (
+                            <>
+                                <CheckCircle className="w-5 h-5 mr-2" />
+                                Import {preview.summary.valid} Day(s)
+                            </>
+                        )}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TimetableImport;
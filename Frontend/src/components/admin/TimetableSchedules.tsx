@@ -0,0 +1,394 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useQueryClient } from '@tanstack/react-query';
+import { AlertTriangle, Calendar, Edit2, Plus, Trash2, X } from 'react-feather';
+import { mosqueApi } from '../../lib/api';
+import { mosqueQueryKeys, useSchedules, useTimetable } from '../../lib/queries';
+import { addDays, formatLocalDate } from '../../lib/dates';
+import { getErrorMessage } from '../../lib/types';
+import type { PrayerSchedule, ScheduleType } from '../../lib/types';
+
+const PRAYERS = [
+    { name: 'fajr', label: 'Fajr' },
+    { name: 'dhuhr', label: 'Dhuhr' },
+    { name: 'asr', label: 'Asr' },
+    { name: 'maghrib', label: 'Maghrib' },
+    { name: 'isha', label: 'Isha' },
+    { name: 'jummah', label: 'Jummah' },
+] as const;
+
+const SCHEDULE_TYPES: Array<{ value: ScheduleType; label: string; badge: string }> = [
+    { value: 'seasonal', label: 'Seasonal timetable', badge: 'bg-green-100 text-green-800' },
+    { value: 'ramadan', label: 'Ramadan timetable', badge: 'bg-purple-100 text-purple-800' },
+    { value: 'override', label: 'Single-date override', badge: 'bg-amber-100 text-amber-800' },
+];
+
+const SOURCE_LABELS: Record<string, string> = {
+    calculated: 'Calculated',
+    manual: 'Default',
+    schedule: 'Schedule',
+    imported: 'Imported',
+    override: 'Override',
+};
+
+const scheduleSchema = z.object({
+    name: z.string().trim().min(2, 'Name must be at least 2 characters').max(100, 'Name must not exceed 100 characters'),
+    schedule_type: z.enum(['seasonal', 'ramadan', 'override']),
+    start_date: z.string().min(1, 'Start date is required'),
+    end_date: z.string(),
+    fajr: z.string(),
+    dhuhr: z.string(),
+    asr: z.string(),
+    maghrib: z.string(),
+    isha: z.string(),
+    jummah: z.string(),
+}).superRefine((data, ctx) => {
+    if (data.schedule_type !== 'override') {
+        if (!data.end_date) {
+            ctx.addIssue({ code: 'custom', path: ['end_date'], message: 'End date is required' });
+        } else if (data.end_date < data.start_date) {
+            ctx.addIssue({ code: 'custom', path: ['end_date'], message: 'End date must be on or after the start date' });
+        }
+    }
+    if (!PRAYERS.some((prayer) => data[prayer.name])) {
+        ctx.addIssue({ code: 'custom', path: ['fajr'], message: 'Set at least one prayer time' });
+    }
+});
+
+type ScheduleFormData = z.infer<typeof scheduleSchema>;
+
+const EMPTY_FORM: ScheduleFormData = {
+    name: '',
+    schedule_type: 'seasonal',
+    start_date: '',
+    end_date: '',
+    fajr: '',
+    dhuhr: '',
+    asr: '',
+    maghrib: '',
+    isha: '',
+    jummah: '',
+};
+
+interface TimetableSchedulesProps {
+    mosqueId: string;
+    onSuccess: (message: string) => void;
+    onError: (message: string) => void;
+}
+
+// Convert 24-hour time string to 12-hour format for display
+const formatTime = (time?: string | null): string => {
+    if (!time) return '--:--';
+    const [hours, minutes] = time.split(':').map(Number);
+    const period = hours >= 12 ? 'PM' : 'AM';
+    const displayHours = hours === 0 ? 12 : hours > 12 ? hours - 12 : hours;
+    return `${displayHours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')} ${period}`;
+};
+
+const TimetableSchedules: React.FC<TimetableSchedulesProps> = ({ mosqueId, onSuccess, onError }) => {
+    const queryClient = useQueryClient();
+    const [showForm, setShowForm] = useState(false);
+    const [editing, setEditing] = useState<PrayerSchedule | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [deletingId, setDeletingId] = useState<string | null>(null);
+
+    const today = formatLocalDate(new Date());
+    const { data: schedules = [], isLoading: schedulesLoading } = useSchedules(mosqueId);
+    const { data: upcoming } = useTimetable(mosqueId, today, addDays(today, 6));
+
+    const form = useForm<ScheduleFormData>({
+        resolver: zodResolver(scheduleSchema),
+        defaultValues: EMPTY_FORM,
+    });
+    const scheduleType = form.watch('schedule_type');
+    const errors = form.formState.errors;
+
+    const invalidateTimetable = () => {
+        queryClient.invalidateQueries({ queryKey: mosqueQueryKeys.schedules(mosqueId) });
+        queryClient.invalidateQueries({ queryKey: mosqueQueryKeys.timetables(mosqueId) });
+        queryClient.invalidateQueries({ queryKey: mosqueQueryKeys.prayerTimes(mosqueId) });
+    };
+
+    const openCreateForm = () => {
+        setEditing(null);
+        form.reset(EMPTY_FORM);
+        setShowForm(true);
+    };
+
+    const openEditForm = (schedule: PrayerSchedule) => {
+        setEditing(schedule);
+        form.reset({
+            name: schedule.name,
+            schedule_type: schedule.schedule_type,
+            start_date: schedule.start_date,
+            end_date: schedule.end_date,
+            fajr: schedule.prayer_times.fajr || '',
+            dhuhr: schedule.prayer_times.dhuhr || '',
+            asr: schedule.prayer_times.asr || '',
+            maghrib: schedule.prayer_times.maghrib || '',
+            isha: schedule.prayer_times.isha || '',
+            jummah: schedule.prayer_times.jummah || '',
+        });
+        setShowForm(true);
+    };
+
+    const closeForm = () => {
+        setShowForm(false);
+        setEditing(null);
+    };
+
+    const handleSave = async (data: ScheduleFormData) => {
+        setSaving(true);
+        const payload = {
+            name: data.name,
+            schedule_type: data.schedule_type,
+            start_date: data.start_date,
+            end_date: data.schedule_type === 'override' ? data.start_date : data.end_date,
+            prayer_times: {
+                fajr: data.fajr || undefined,
+                dhuhr: data.dhuhr || undefined,
+                asr: data.asr || undefined,
+                maghrib: data.maghrib || undefined,
+                isha: data.isha || undefined,
+                jummah: data.jummah || undefined,
+            },
+        };
+
+        try {
+            if (editing) {
+                await mosqueApi.updateSchedule(mosqueId, editing._id, payload);
+                onSuccess('Schedule updated successfully!');
+            } else {
+                await mosqueApi.createSchedule(mosqueId, payload);
+                onSuccess('Schedule created successfully!');
+            }
+            invalidateTimetable();
+            closeForm();
+        } catch (err) {
+            onError(getErrorMessage(err));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDelete = async (schedule: PrayerSchedule) => {
+        if (!window.confirm(`Delete "${schedule.name}"? Dates it covers will fall back to the default times.`)) return;
+
+        setDeletingId(schedule._id);
+        try {
+            await mosqueApi.deleteSchedule(mosqueId, schedule._id);
+            onSuccess('Schedule deleted successfully!');
+            invalidateTimetable();
+        } catch (err) {
+            onError(getErrorMessage(err));
+        } finally {
+            setDeletingId(null);
+        }
+    };
+
+    const inputClass = 'w-full px-4 py-3 text-sm bg-white/80 backdrop-blur-sm border border-green-200/50 rounded-2xl focus:outline-none focus:ring-2 focus:ring-green-400 focus:border-transparent transition-all duration-200 shadow-lg';
+
+    return (
+        <div className="space-y-8">
+            {/* Upcoming week */}
+            <div className="relative bg-gradient-to-br from-green-50 to-emerald-100/80 backdrop-blur-xl rounded-3xl p-6 border border-green-200/50 shadow-2xl overflow-hidden">
+                <div className="absolute -top-8 -right-8 w-32 h-32 bg-gradient-to-br from-green-400/20 to-emerald-500/20 rounded-full blur-2xl animate-pulse"></div>
+                <h4 className="relative text-lg font-bold text-gray-800 mb-4 flex items-center">
+                    <Calendar className="w-5 h-5 text-green-600 mr-2" />
+                    Next 7 Days
+                </h4>
+                <div className="relative overflow-x-auto">
+                    <table className="min-w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-gray-600">
+                                <th className="py-2 pr-4 font-semibold">Date</th>
+                                {PRAYERS.map((prayer) => (
+                                    <th key={prayer.name} className="py-2 pr-4 font-semibold">{prayer.label}</th>
+                                ))}
+                                <th className="py-2 font-semibold">Source</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {upcoming?.entries.map((entry) => (
+                                <tr key={entry.date} className={`border-t border-green-200/50 ${entry.is_friday ? 'bg-green-100/50' : ''}`}>
+                                    <td className="py-2 pr-4 whitespace-nowrap font-medium text-gray-800">
+                                        <span className="hidden sm:inline">{entry.day.slice(0, 3)} </span>{entry.date}
+                                    </td>
+                                    {PRAYERS.map((prayer) => (
+                                        <td key={prayer.name} className="py-2 pr-4 whitespace-nowrap font-mono text-gray-700">
+                                            {formatTime(entry.prayer_times[prayer.name])}
+                                        </td>
+                                    ))}
+                                    <td className="py-2 whitespace-nowrap text-xs text-gray-600">
+                                        {entry.schedules.length > 0
+                                            ? entry.schedules[entry.schedules.length - 1].name
+                                            : SOURCE_LABELS[entry.source]}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            {/* Schedules */}
+            <div className="relative bg-white/70 backdrop-blur-xl rounded-3xl p-6 border border-green-200/50 shadow-2xl">
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+                    <div>
+                        <h4 className="text-lg font-bold text-gray-800">Schedules &amp; Overrides</h4>
+                        <p className="text-sm text-gray-600">Overrides win over Ramadan timetables, which win over seasonal ones.</p>
+                    </div>
+                    {!showForm && (
+                        <button
+                            type="button"
+                            onClick={openCreateForm}
+                            className="inline-flex items-center justify-center px-4 py-2 bg-gradient-to-r from-green-500 to-emerald-600 text-white font-semibold rounded-xl shadow-lg hover:from-green-600 hover:to-emerald-700 transition-all"
+                        >
+                            <Plus className="w-4 h-4 mr-2" />
+                            Add Schedule
+                        </button>
+                    )}
+                </div>
+
+                {showForm && (
+                    <form onSubmit={form.handleSubmit(handleSave)} className="bg-green-50/70 rounded-2xl p-4 sm:p-6 mb-6 border border-green-200/50 space-y-4">
+                        <div className="flex items-center justify-between">
+                            <h5 className="font-bold text-gray-800">{editing ? 'Edit Schedule' : 'New Schedule'}</h5>
+                            <button type="button" onClick={closeForm} className="p-1 text-gray-500 hover:text-gray-700">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-sm font-bold text-gray-700 mb-2">Name</label>
+                                <input {...form.register('name')} type="text" placeholder="Winter 2026" className={inputClass} />
+                                {errors.name && (
+                                    <p className="text-red-500 text-xs mt-2 ml-2 flex items-center">
+                                        <AlertTriangle className="w-3 h-3 mr-1" />
+                                        {errors.name.message}
+                                    </p>
+                                )}
+                            </div>
+                            <div>
+                                <label className="block text-sm font-bold text-gray-700 mb-2">Type</label>
+                                <select {...form.register('schedule_type')} className={inputClass}>
+                                    {SCHEDULE_TYPES.map((type) => (
+                                        <option key={type.value} value={type.value}>{type.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-bold text-gray-700 mb-2">
+                                    {scheduleType === 'override' ? 'Date' : 'Start Date'}
+                                </label>
+                                <input {...form.register('start_date')} type="date" className={inputClass} />
+                                {errors.start_date && (
+                                    <p className="text-red-500 text-xs mt-2 ml-2 flex items-center">
+                                        <AlertTriangle className="w-3 h-3 mr-1" />
+                                        {errors.start_date.message}
+                                    </p>
+                                )}
+                            </div>
+                            {scheduleType !== 'override' && (
+                                <div>
+                                    <label className="block text-sm font-bold text-gray-700 mb-2">End Date</label>
+                                    <input {...form.register('end_date')} type="date" className={inputClass} />
+                                    {errors.end_date && (
+                                        <p className="text-red-500 text-xs mt-2 ml-2 flex items-center">
+                                            <AlertTriangle className="w-3 h-3 mr-1" />
+                                            {errors.end_date.message}
+                                        </p>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+
+                        <div>
+                            <p className="text-xs text-gray-500 mb-2">Leave a prayer empty to keep its default time.</p>
+                            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                                {PRAYERS.map((prayer) => (
+                                    <div key={prayer.name}>
+                                        <label className="block text-xs font-semibold text-gray-600 mb-1">{prayer.label}</label>
+                                        <input {...form.register(prayer.name)} type="time" className={`${inputClass} font-mono`} />
+                                    </div>
+                                ))}
+                            </div>
+                            {errors.fajr && (
+                                <p className="text-red-500 text-xs mt-2 ml-2 flex items-center">
+                                    <AlertTriangle className="w-3 h-3 mr-1" />
+                                    {errors.fajr.message}
+                                </p>
+                            )}
+                        </div>
+
+                        <button
+                            type="submit"
+                            disabled={saving}
+                            className="w-full bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 disabled:from-gray-400 disabled:to-gray-500 text-white font-bold py-3 px-6 rounded-2xl transition-all duration-200 shadow-xl"
+                        >
+                            {saving ? 'Saving...' : editing ? 'Update Schedule' : 'Create Schedule'}
+                        </button>
+                    </form>
+                )}
+
+                {schedulesLoading ? (
+                    <div className="flex justify-center py-8">
+                        <div className="animate-spin rounded-full h-8 w-8 border-2 border-green-500 border-t-transparent"></div>
+                    </div>
+                ) : schedules.length === 0 ? (
+                    <p className="text-center text-gray-500 py-8">No schedules yet. The default prayer times apply every day.</p>
+                ) : (
+                    <div className="space-y-3">
+                        {schedules.map((schedule) => {
+                            const type = SCHEDULE_TYPES.find((t) => t.value === schedule.schedule_type);
+                            return (
+                                <div key={schedule._id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 bg-white rounded-2xl border border-green-100 shadow-sm">
+                                    <div className="min-w-0">
+                                        <div className="flex items-center gap-2 flex-wrap">
+                                            <span className="font-semibold text-gray-800">{schedule.name}</span>
+                                            <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${type?.badge}`}>{type?.label}</span>
+                                        </div>
+                                        <p className="text-sm text-gray-600 mt-1">
+                                            {schedule.start_date === schedule.end_date
+                                                ? schedule.start_date
+                                                : `${schedule.start_date} → ${schedule.end_date}`}
+                                        </p>
+                                        <p className="text-xs text-gray-500 mt-1 font-mono">
+                                            {PRAYERS.filter((prayer) => schedule.prayer_times[prayer.name])
+                                                .map((prayer) => `${prayer.label} ${formatTime(schedule.prayer_times[prayer.name])}`)
+                                                .join(' · ')}
+                                        </p>
+                                    </div>
+                                    <div className="flex gap-2 flex-shrink-0">
+                                        <button
+                                            type="button"
+                                            onClick={() => openEditForm(schedule)}
+                                            className="p-2 text-green-700 bg-green-50 rounded-xl hover:bg-green-100 transition-colors"
+                                            title="Edit schedule"
+                                        >
+                                            <Edit2 className="w-4 h-4" />
+                                        </button>
+                                        <button
+                                            type="button"
+                                            onClick={() => handleDelete(schedule)}
+                                            disabled={deletingId === schedule._id}
+                                            className="p-2 text-red-600 bg-red-50 rounded-xl hover:bg-red-100 transition-colors disabled:opacity-50"
+                                            title="Delete schedule"
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default TimetableSchedules;
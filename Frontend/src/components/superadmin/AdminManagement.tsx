@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { superAdminApi, mosqueApi } from '../../lib/api';
-import { getErrorMessage } from '../../lib/types';
+import { getErrorMessage, maskVerificationCode } from '../../lib/types';
 import Toast from '../Toast';
 import {
     FaUserSlash,
@@ -201,7 +201,7 @@ const AdminManagement: React.FC<Props> = ({ onDelete, onSendReminder }) => {
                     _id: mosque.id,
                     mosque_name: mosque.name,
                     location: mosque.location,
-                    registration_code: mosque.verification_code || 'N/A',
+                    registration_code: maskVerificationCode(mosque.verification_code_prefix),
                     verification_code_expires: mosque.verification_code_expires || null,
                     created_at: mosque.createdAt || new Date().toISOString(),
                     updated_at: mosque.updatedAt || null,
@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { FileText, Eye, CheckCircle, XCircle, HelpCircle, Send, MessageCircle } from 'react-feather';
+import { superAdminApi } from '../../lib/api';
+import { formatFileSize } from '../../lib/applicationDocuments';
+import { getErrorMessage } from '../../lib/types';
+import type { ApplicationDocument, DocumentReviewStatus, InfoRequest } from '../../lib/types';
+import DocumentViewer from './DocumentViewer';
+
+interface ApplicationReviewProps {
+    adminId: string;
+    applicantName: string;
+    documents: ApplicationDocument[];
+    infoRequests: InfoRequest[];
+    // Called after a change so the request list can refresh its badges
+    onChanged: () => void;
+}
+
+const REVIEW_BADGES: Record<DocumentReviewStatus, string> = {
+    unreviewed: 'bg-gray-100 text-gray-700',
+    verified: 'bg-green-100 text-green-800',
+    rejected: 'bg-red-100 text-red-800',
+};
+
+const REVIEW_LABELS: Record<DocumentReviewStatus, string> = {
+    unreviewed: 'Not checked',
+    verified: 'Verified',
+    rejected: 'Not acceptable',
+};
+
+const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Ownership proof for one application: document checklist, inline viewer and requests for more information
+const ApplicationReview: React.FC<ApplicationReviewProps> = ({ adminId, applicantName, documents: initialDocuments, infoRequests: initialInfoRequests, onChanged }) => {
+    const [documents, setDocuments] = useState(initialDocuments);
+    const [infoRequests, setInfoRequests] = useState(initialInfoRequests);
+    const [viewing, setViewing] = useState<ApplicationDocument | null>(null);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [message, setMessage] = useState('');
+    const [sending, setSending] = useState(false);
+    const [feedback, setFeedback] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    const openRequest = infoRequests.length > 0 && !infoRequests[infoRequests.length - 1].responded_at;
+
+    const handleReview = async (document: ApplicationDocument, reviewStatus: DocumentReviewStatus) => {
+        let note: string | undefined;
+        if (reviewStatus === 'rejected') {
+            const answer = window.prompt(`Why is ${document.original_name} not acceptable? (optional)`);
+            if (answer === null) return;
+            note = answer.trim() || undefined;
+        }
+
+        setBusyId(document.id);
+        try {
+            const response = await superAdminApi.reviewApplicationDocument(adminId, document.id, { review_status: reviewStatus, note });
+            setDocuments((current) => current.map((item) => (item.id === document.id ? response.data.document : item)));
+            setFeedback(null);
+            onChanged();
+        } catch (err) {
+            setFeedback({ type: 'error', text: getErrorMessage(err) });
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleRequestInfo = async (event: React.FormEvent) => {
+        event.preventDefault();
+        setSending(true);
+        try {
+            const response = await superAdminApi.requestApplicantInfo(adminId, message.trim());
+            setInfoRequests((current) => [...current, response.data.info_request]);
+            setMessage('');
+            setFeedback({ type: 'success', text: response.data.message });
+            onChanged();
+        } catch (err) {
+            setFeedback({ type: 'error', text: getErrorMessage(err) });
+        } finally {
+            setSending(false);
+        }
+    };
+
+    const verifiedCount = documents.filter((document) => document.review_status === 'verified').length;
+
+    return (
+        <div className="space-y-4 sm:space-y-6">
+            {/* Document checklist */}
+            <div>
+                <h4 className="text-sm sm:text-base font-semibold text-gray-800 mb-3 bg-amber-100 px-3 py-1 rounded-lg inline-block">
+                    Ownership Documents ({verifiedCount}/{documents.length} verified)
+                </h4>
+                {documents.length === 0 ? (
+                    <p className="text-sm text-gray-500">The applicant did not attach any documents. You can ask them for some below.</p>
+                ) : (
+                    <div className="space-y-2">
+                        {documents.map((document) => (
+                            <div key={document.id} className="bg-gray-50 border border-gray-200 rounded-lg p-3">
+                                <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                                    <div className="flex items-center flex-1 min-w-0">
+                                        <FileText className="w-4 h-4 text-amber-600 mr-2 flex-shrink-0" />
+                                        <div className="min-w-0">
+                                            <p className="text-sm font-semibold text-gray-800 truncate">{document.kind_label}</p>
+                                            <p className="text-xs text-gray-500 truncate">
+                                                {document.original_name} · {formatFileSize(document.size)} · {formatDate(document.uploaded_at)}
+                                            </p>
+                                        </div>
+                                    </div>
+                                    <span className={`text-xs font-bold px-2 py-0.5 rounded-full self-start sm:self-center ${REVIEW_BADGES[document.review_status]}`}>
+                                        {REVIEW_LABELS[document.review_status]}
+                                    </span>
+                                </div>
+                                {document.review_note && (
+                                    <p className="text-xs text-gray-600 mt-2 italic">{document.review_note}</p>
+                                )}
+                                <div className="flex flex-wrap gap-2 mt-3">
+                                    <button
+                                        onClick={() => setViewing(document)}
+                                        className="flex items-center text-xs font-medium text-blue-700 border border-blue-200 hover:bg-blue-50 px-2.5 py-1.5 rounded-lg transition-colors"
+                                    >
+                                        <Eye className="w-3 h-3 mr-1" />
+                                        View
+                                    </button>
+                                    <button
+                                        onClick={() => handleReview(document, 'verified')}
+                                        disabled={busyId === document.id || document.review_status === 'verified'}
+                                        className="flex items-center text-xs font-medium text-green-700 border border-green-200 hover:bg-green-50 px-2.5 py-1.5 rounded-lg transition-colors disabled:opacity-50"
+                                    >
+                                        <CheckCircle className="w-3 h-3 mr-1" />
+                                        Verified
+                                    </button>
+                                    <button
+                                        onClick={() => handleReview(document, 'rejected')}
+                                        disabled={busyId === document.id || document.review_status === 'rejected'}
+                                        className="flex items-center text-xs font-medium text-red-600 border border-red-200 hover:bg-red-50 px-2.5 py-1.5 rounded-lg transition-colors disabled:opacity-50"
+                                    >
+                                        <XCircle className="w-3 h-3 mr-1" />
+                                        Not acceptable
+                                    </button>
+                                    {document.review_status !== 'unreviewed' && (
+                                        <button
+                                            onClick={() => handleReview(document, 'unreviewed')}
+                                            disabled={busyId === document.id}
+                                            className="text-xs font-medium text-gray-600 hover:text-gray-800 px-2.5 py-1.5 rounded-lg transition-colors disabled:opacity-50"
+                                        >
+                                            Clear
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {/* Requests for more information */}
+            <div>
+                <h4 className="text-sm sm:text-base font-semibold text-gray-800 mb-3 bg-sky-100 px-3 py-1 rounded-lg inline-block">
+                    More Information
+                </h4>
+
+                {infoRequests.length > 0 && (
+                    <div className="space-y-2 mb-3">
+                        {infoRequests.map((request) => (
+                            <div key={request.id} className="border border-sky-200 rounded-lg p-3 bg-sky-50/60">
+                                <p className="text-xs text-gray-500 flex items-center">
+                                    <HelpCircle className="w-3 h-3 mr-1" />
+                                    Asked {formatDate(request.requested_at)}
+                                </p>
+                                <p className="text-sm text-gray-800 mt-1 whitespace-pre-line">{request.message}</p>
+                                {request.responded_at ? (
+                                    <div className="mt-2 pl-3 border-l-2 border-green-400">
+                                        <p className="text-xs text-gray-500 flex items-center">
+                                            <MessageCircle className="w-3 h-3 mr-1" />
+                                            {applicantName} replied {formatDate(request.responded_at)}
+                                        </p>
+                                        <p className="text-sm text-gray-800 mt-1 whitespace-pre-line">{request.response}</p>
+                                    </div>
+                                ) : (
+                                    <p className="text-xs font-semibold text-amber-700 mt-2">Waiting for the applicant</p>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {feedback && (
+                    <p className={`text-sm mb-2 ${feedback.type === 'success' ? 'text-green-700' : 'text-red-600'}`}>{feedback.text}</p>
+                )}
+
+                {!openRequest && (
+                    <form onSubmit={handleRequestInfo} className="space-y-2">
+                        <textarea
+                            value={message}
+                            onChange={(event) => setMessage(event.target.value)}
+                            placeholder="e.g. Please upload a letter from the mosque committee confirming your role."
+                            rows={3}
+                            maxLength={1000}
+                            className="w-full px-3 py-2.5 text-sm bg-gray-50/80 border-2 border-gray-200 rounded-xl focus:ring-2 focus:ring-sky-500 focus:border-sky-400 transition-all duration-300"
+                        />
+                        <button
+                            type="submit"
+                            disabled={sending || message.trim().length < 10}
+                            className="flex items-center justify-center bg-gradient-to-r from-sky-500 to-blue-600 hover:from-sky-600 hover:to-blue-700 disabled:from-gray-400 disabled:to-gray-500 text-white text-sm font-semibold py-2 px-4 rounded-xl transition-all duration-200"
+                        >
+                            <Send className="w-4 h-4 mr-2" />
+                            {sending ? 'Sending...' : 'Ask the applicant'}
+                        </button>
+                        <p className="text-xs text-gray-500">
+                            We email the applicant and show your message on their status page. They answer without applying again.
+                        </p>
+                    </form>
+                )}
+            </div>
+
+            {viewing && (
+                <DocumentViewer adminId={adminId} document={viewing} onClose={() => setViewing(null)} />
+            )}
+        </div>
+    );
+};
+
+export default ApplicationReview;
@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { superAdminApi } from '../../lib/api';
-import { getErrorMessage } from '../../lib/types';
+import { getErrorMessage, maskVerificationCode } from '../../lib/types';
 import {
     FaCheckCircle,
     FaUser,
@@ -84,7 +84,7 @@ const ApprovedMosques: React.FC<Props> = ({ onViewDetails, onEdit, refreshTrigge
                         admin_email: admin.email || '',
                         admin_phone: admin.phone || '',
                         location: admin.mosque_id.location,
-                        registration_code: admin.mosque_id.verification_code || '',
+                        registration_code: maskVerificationCode(admin.mosque_id.verification_code_prefix),
                         created_at: admin.createdAt || new Date().toISOString(),
                         approved_at: approvedDate,
                         status: 'approved' as const,
@@ -4,7 +4,8 @@ import React, { useState, useEffect } from 'react';
 import {
     FaHistory, FaSearch, FaFilter, FaDownload, FaCheck, FaTimes, FaClock,
     FaUser, FaCalendarAlt, FaBuilding, FaUserPlus, FaUserMinus, FaCode,
-    FaEye, FaTrash, FaSync, FaExclamationTriangle, FaUserShield
+    FaEye, FaTrash, FaSync, FaExclamationTriangle, FaUserShield, FaImage, FaLock, FaEnvelope,
+    FaQuestionCircle, FaFileAlt, FaBullhorn
 } from 'react-icons/fa';
 import { superAdminApi } from '../../lib/api';
 import Toast from '../Toast';
@@ -19,7 +20,7 @@ interface AuditLog {
         user_name: string;
     };
     target: {
-        target_type: 'mosque' | 'admin' | 'verification_code' | 'prayer_times' | 'system';
+        target_type: 'mosque' | 'admin' | 'verification_code' | 'prayer_times' | 'photo' | 'system';
         target_id?: string;
         target_name?: string;
     };
@@ -345,6 +346,25 @@ const AuditLogs: React.FC<Props> = ({ onViewDetails, onExportLogs }) => {
                 return <FaUserShield className="w-4 h-4 text-purple-600" />;
             case 'super_admin_deleted':
                 return <FaUserShield className="w-4 h-4 text-red-600" />;
+            case 'super_admin_role_changed':
+                return <FaUserShield className="w-4 h-4 text-indigo-600" />;
+            case 'mosque_member_invited':
+            case 'mosque_member_joined':
+                return <FaUserPlus className="w-4 h-4 text-teal-600" />;
+            case 'mosque_member_role_changed':
+                return <FaUserShield className="w-4 h-4 text-teal-600" />;
+            case 'mosque_member_removed':
+                return <FaUserMinus className="w-4 h-4 text-orange-600" />;
+            case 'admin_invitation_sent':
+                return <FaEnvelope className="w-4 h-4 text-teal-600" />;
+            case 'admin_invitation_revoked':
+                return <FaEnvelope className="w-4 h-4 text-red-600" />;
+            case 'admin_info_requested':
+                return <FaQuestionCircle className="w-4 h-4 text-amber-600" />;
+            case 'admin_info_provided':
+                return <FaQuestionCircle className="w-4 h-4 text-blue-600" />;
+            case 'admin_document_reviewed':
+                return <FaFileAlt className="w-4 h-4 text-indigo-600" />;
             case 'verification_code_regenerated':
             case 'code_regenerated':
                 return <FaCode className="w-4 h-4 text-blue-600" />;
@@ -353,10 +373,30 @@ const AuditLogs: React.FC<Props> = ({ onViewDetails, onExportLogs }) => {
             case 'admin_login':
             case 'superadmin_login':
                 return <FaUser className="w-4 h-4 text-purple-600" />;
+            case 'account_locked':
+                return <FaLock className="w-4 h-4 text-red-600" />;
             case 'prayer_times_updated':
+            case 'prayer_calculation_updated':
+            case 'prayer_schedule_created':
+            case 'prayer_schedule_updated':
+            case 'prayer_schedule_deleted':
                 return <FaClock className="w-4 h-4 text-orange-600" />;
             case 'mosque_details_updated':
                 return <FaBuilding className="w-4 h-4 text-blue-600" />;
+            case 'photo_uploaded':
+                return <FaImage className="w-4 h-4 text-cyan-600" />;
+            case 'photo_approved':
+                return <FaImage className="w-4 h-4 text-green-600" />;
+            case 'photo_hidden':
+            case 'photo_deleted':
+                return <FaImage className="w-4 h-4 text-red-600" />;
+            case 'announcement_created':
+            case 'announcement_updated':
+                return <FaBullhorn className="w-4 h-4 text-indigo-600" />;
+            case 'announcement_deleted':
+                return <FaBullhorn className="w-4 h-4 text-red-600" />;
+            case 'email_resent':
+                return <FaEnvelope className="w-4 h-4 text-sky-600" />;
             case 'error_logged':
                 return <FaTimes className="w-4 h-4 text-red-600" />;
             default:
@@ -384,13 +424,50 @@ const AuditLogs: React.FC<Props> = ({ onViewDetails, onExportLogs }) => {
                 return 'bg-purple-100 text-purple-800';
             case 'super_admin_deleted':
                 return 'bg-red-100 text-red-800';
+            case 'super_admin_role_changed':
+                return 'bg-indigo-100 text-indigo-800';
+            case 'mosque_member_invited':
+            case 'mosque_member_joined':
+            case 'mosque_member_role_changed':
+                return 'bg-teal-100 text-teal-800';
+            case 'mosque_member_removed':
+                return 'bg-orange-100 text-orange-800';
+            case 'admin_invitation_sent':
+                return 'bg-teal-100 text-teal-800';
+            case 'admin_invitation_revoked':
+                return 'bg-red-100 text-red-800';
+            case 'admin_info_requested':
+                return 'bg-amber-100 text-amber-800';
+            case 'admin_info_provided':
+                return 'bg-blue-100 text-blue-800';
+            case 'admin_document_reviewed':
+                return 'bg-indigo-100 text-indigo-800';
             case 'verification_code_regenerated':
             case 'code_regenerated':
             case 'bulk_code_regeneration':
             case 'mosque_details_updated':
                 return 'bg-blue-100 text-blue-800';
             case 'prayer_times_updated':
+            case 'prayer_calculation_updated':
+            case 'prayer_schedule_created':
+            case 'prayer_schedule_updated':
+            case 'prayer_schedule_deleted':
                 return 'bg-orange-100 text-orange-800';
+            case 'photo_uploaded':
+                return 'bg-cyan-100 text-cyan-800';
+            case 'photo_approved':
+                return 'bg-green-100 text-green-800';
+            case 'photo_hidden':
+            case 'photo_deleted':
+                return 'bg-red-100 text-red-800';
+            case 'announcement_created':
+            case 'announcement_updated':
+                return 'bg-indigo-100 text-indigo-800';
+            case 'announcement_deleted':
+                return 'bg-red-100 text-red-800';
+            case 'email_resent':
+                return 'bg-sky-100 text-sky-800';
+            case 'account_locked':
             case 'error_logged':
                 return 'bg-red-100 text-red-800';
             default:
@@ -412,13 +489,36 @@ const AuditLogs: React.FC<Props> = ({ onViewDetails, onExportLogs }) => {
             'admin_allowed_reapply': 'Allow Reapplication',
             'admin_login': 'Admin Login',
             'superadmin_login': 'Super Admin Login',
+            'account_locked': 'Account Locked',
             'super_admin_created': 'Super Admin Created',
             'super_admin_deleted': 'Super Admin Deleted',
+            'super_admin_role_changed': 'Super Admin Role Changed',
+            'mosque_member_invited': 'Team Member Invited',
+            'mosque_member_joined': 'Team Member Joined',
+            'mosque_member_role_changed': 'Team Role Changed',
+            'mosque_member_removed': 'Team Member Removed',
+            'admin_invitation_sent': 'Admin Invitation Sent',
+            'admin_invitation_revoked': 'Admin Invitation Revoked',
+            'admin_info_requested': 'Information Requested',
+            'admin_info_provided': 'Information Provided',
+            'admin_document_reviewed': 'Document Reviewed',
             'verification_code_regenerated': 'Legacy Code Regenerated',
             'code_regenerated': 'Code Regenerated',
             'bulk_code_regeneration': 'Bulk Code Regeneration',
             'prayer_times_updated': 'Prayer Times Updated',
+            'prayer_calculation_updated': 'Prayer Calculation Updated',
+            'prayer_schedule_created': 'Timetable Schedule Created',
+            'prayer_schedule_updated': 'Timetable Schedule Updated',
+            'prayer_schedule_deleted': 'Timetable Schedule Deleted',
             'mosque_details_updated': 'Mosque Updated',
+            'photo_uploaded': 'Photo Uploaded',
+            'photo_approved': 'Photo Approved',
+            'photo_hidden': 'Photo Hidden',
+            'photo_deleted': 'Photo Deleted',
+            'announcement_created': 'Announcement Posted',
+            'announcement_updated': 'Announcement Updated',
+            'announcement_deleted': 'Announcement Deleted',
+            'email_resent': 'Email Resent',
             'audit_logs_cleaned': 'Audit Logs Cleaned',
             'audit_logs_bulk_deleted': 'Audit Logs Deleted',
             'error_logged': 'Error Logged'
@@ -567,12 +667,35 @@ const AuditLogs: React.FC<Props> = ({ onViewDetails, onExportLogs }) => {
                             <option value="admin_allowed_reapply">Allow Reapplication</option>
                             <option value="super_admin_created">Super Admin Created</option>
                             <option value="super_admin_deleted">Super Admin Deleted</option>
+                            <option value="super_admin_role_changed">Super Admin Role Changed</option>
+                            <option value="mosque_member_invited">Team Member Invited</option>
+                            <option value="mosque_member_joined">Team Member Joined</option>
+                            <option value="mosque_member_role_changed">Team Role Changed</option>
+                            <option value="mosque_member_removed">Team Member Removed</option>
+                            <option value="admin_invitation_sent">Admin Invitation Sent</option>
+                            <option value="admin_invitation_revoked">Admin Invitation Revoked</option>
+                            <option value="admin_info_requested">Information Requested</option>
+                            <option value="admin_info_provided">Information Provided</option>
+                            <option value="admin_document_reviewed">Document Reviewed</option>
                             <option value="code_regenerated">Code Regenerated</option>
                             <option value="bulk_code_regeneration">Bulk Code Regeneration</option>
                             <option value="admin_code_regenerated">Admin Code Regenerated</option>
                             <option value="admin_code_validated">Admin Code Validated</option>
                             <option value="prayer_times_updated">Prayer Times Updated</option>
+                            <option value="prayer_calculation_updated">Prayer Calculation Updated</option>
+                            <option value="prayer_schedule_created">Timetable Schedule Created</option>
+                            <option value="prayer_schedule_updated">Timetable Schedule Updated</option>
+                            <option value="prayer_schedule_deleted">Timetable Schedule Deleted</option>
                             <option value="mosque_details_updated">Mosque Updated</option>
+                            <option value="photo_uploaded">Photo Uploaded</option>
+                            <option value="photo_approved">Photo Approved</option>
+                            <option value="photo_hidden">Photo Hidden</option>
+                            <option value="photo_deleted">Photo Deleted</option>
+                            <option value="announcement_created">Announcement Posted</option>
+                            <option value="announcement_updated">Announcement Updated</option>
+                            <option value="announcement_deleted">Announcement Deleted</option>
+                            <option value="email_resent">Email Resent</option>
+                            <option value="account_locked">Account Locked</option>
                             <option value="audit_logs_cleaned">Audit Logs Cleaned</option>
                             <option value="audit_logs_bulk_deleted">Audit Logs Bulk Deleted</option>
                             <option value="error_logged">Error Logged</option>
@@ -15,13 +15,14 @@ import {
     Layers
 } from 'react-feather';
 import { superAdminApi } from '../../lib/api';
+import { maskVerificationCode } from '../../lib/types';
 import Toast from '../../components/Toast';
 
 interface MosqueForRegeneration {
     id: string;
     name: string;
     location: string;
-    verification_code: string;
+    verification_code_prefix: string;
     verification_code_expires: string;
     contact_phone: string;
     contact_email: string;
@@ -37,14 +38,16 @@ interface MosqueForRegeneration {
 interface RegenerationResult {
     mosque_id: string;
     mosque_name: string;
-    old_code: string;
+    old_code_prefix: string;
+    // Full code, returned only in the regeneration response
     new_code: string;
     new_expiry: string;
-    admin_status_changed: {
+    // Admins who joined with the old code; invited team members keep their access
+    admins_status_changed: {
         name: string;
         email: string;
         phone: string;
-    } | null;
+    }[];
 }
 
 interface ToastState {
@@ -573,7 +576,7 @@ const CodeRegeneration: React.FC = () => {
                                                         <div className="flex-1 min-w-0">
                                                             <p className="text-xs font-medium text-gray-500 mb-1 hidden sm:block">Verification Code</p>
                                                             <p className="font-mono text-sm sm:text-lg font-bold text-gray-900 tracking-wider break-all">
-                                                                {mosque.verification_code}
+                                                                {maskVerificationCode(mosque.verification_code_prefix)}
                                                             </p>
                                                         </div>
                                                         <div className="p-1 sm:p-2 bg-white rounded-lg sm:rounded-xl shadow-sm ml-2 flex-shrink-0">
@@ -689,7 +692,7 @@ const CodeRegeneration: React.FC = () => {
                                             <div className="bg-white/80 rounded-lg p-2 sm:p-3">
                                                 <p className="text-xs font-medium text-gray-500 mb-1">Current Code</p>
                                                 <p className="font-mono text-sm sm:text-base font-bold text-gray-900">
-                                                    {selectedMosqueForSingle.verification_code}
+                                                    {maskVerificationCode(selectedMosqueForSingle.verification_code_prefix)}
                                                 </p>
                                             </div>
                                         </div>
@@ -878,6 +881,10 @@ const CodeRegeneration: React.FC = () => {
                                 <div className="relative p-2 sm:p-4 lg:p-6 overflow-y-auto max-h-[70vh] sm:max-h-[65vh]">
                                     {regenerationResults && regenerationResults.length > 0 ? (
                                         <div className="space-y-2 sm:space-y-4 lg:space-y-6">
+                                            <div className="flex items-start bg-yellow-50 border border-yellow-200 rounded-lg p-2 sm:p-3 text-xs sm:text-sm text-yellow-800">
+                                                <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0 mt-0.5" />
+                                                <span>Copy the new codes now. They are stored hashed and cannot be shown again after this window is closed.</span>
+                                            </div>
                                             {regenerationResults.map((result, index) => (
                                                 <div key={index} className="group/result relative">
                                                     <div className="absolute -inset-0.5 bg-gradient-to-r from-green-200 to-blue-200 rounded-lg sm:rounded-xl blur opacity-25 group-hover/result:opacity-40 transition duration-300"></div>
@@ -898,7 +905,7 @@ const CodeRegeneration: React.FC = () => {
                                                                     <AlertTriangle className="w-2.5 h-2.5 sm:w-3 sm:h-3 text-red-500" />
                                                                 </div>
                                                                 <div className="font-mono text-xs sm:text-sm font-bold text-red-700 bg-white/80 px-1.5 sm:px-2 py-1 rounded border border-red-200 break-all">
-                                                                    {result.old_code}
+                                                                    {maskVerificationCode(result.old_code_prefix)}
                                                                 </div>
                                                             </div>
 
@@ -930,14 +937,14 @@ const CodeRegeneration: React.FC = () => {
                                                             </div>
 
                                                             {/* Admin Status Changed - Only show if exists and on larger screens */}
-                                                            {result.admin_status_changed && (
+                                                            {result.admins_status_changed.length > 0 && (
                                                                 <div className="bg-gradient-to-r from-blue-50 to-indigo-50 rounded-md sm:rounded-lg p-1.5 sm:p-2 lg:p-3 border border-blue-200/60 hidden sm:block">
                                                                     <div className="flex items-center space-x-1 sm:space-x-2 mb-1">
                                                                         <User className="w-2.5 h-2.5 sm:w-3 sm:h-3 text-blue-500" />
                                                                         <span className="text-xs font-semibold text-blue-600">Admin Status: Code Regenerated</span>
                                                                     </div>
                                                                     <div className="text-blue-700 font-medium text-xs sm:text-sm">
-                                                                        {result.admin_status_changed.name}
+                                                                        {result.admins_status_changed.map((admin) => admin.name).join(', ')}
                                                                     </div>
                                                                 </div>
                                                             )}
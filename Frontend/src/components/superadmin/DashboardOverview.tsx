@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { superAdminApi } from '../../lib/api';
 import { getErrorMessage } from '../../lib/types';
+import type { MostFollowedMosque } from '../../lib/types';
 import {
     FaBuilding as Building,
     FaClock as Clock,
@@ -17,7 +18,8 @@ import {
     FaUserMinus,
     FaInfoCircle,
     FaExclamationTriangle,
-    FaUserShield
+    FaUserShield,
+    FaHeart
 } from 'react-icons/fa';
 import { X } from 'react-feather';
 import {
@@ -42,6 +44,8 @@ interface DashboardStats {
     admin_removed_admins: number;
     code_regenerated_admins: number;
     total_super_admins: number;
+    total_congregants?: number;
+    most_followed_mosques?: MostFollowedMosque[];
 }
 
 interface ActionTypeData {
@@ -83,11 +87,13 @@ interface WeeklyAuditChartData {
 interface Props {
     stats: DashboardStats | null;
     onRefresh: () => void;
+    // Activity charts come from the audit log, which not every role can read
+    canViewAudit?: boolean;
 }
 
 
 
-const DashboardOverview: React.FC<Props> = ({ stats, onRefresh }) => {
+const DashboardOverview: React.FC<Props> = ({ stats, onRefresh, canViewAudit = true }) => {
     const [loading, setLoading] = useState(false);
     const [actionTypesData, setActionTypesData] = useState<ActionTypeData[]>([]);
     const [weeklyAuditData, setWeeklyAuditData] = useState<WeeklyAuditChartData[]>([]);
@@ -100,9 +106,11 @@ const DashboardOverview: React.FC<Props> = ({ stats, onRefresh }) => {
     });
 
     useEffect(() => {
-        fetchDashboardData();
+        if (canViewAudit) {
+            fetchDashboardData();
+        }
         // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, []);
+    }, [canViewAudit]);
 
     const fetchDashboardData = async () => {
         try {
@@ -171,12 +179,32 @@ const DashboardOverview: React.FC<Props> = ({ stats, onRefresh }) => {
             'admin_allowed_reapply': '#eab308',
             'admin_login': '#8b5cf6',
             'superadmin_login': '#7c3aed',
+            'account_locked': '#b91c1c',
             'super_admin_created': '#9333ea',
             'super_admin_deleted': '#dc2626',
+            'super_admin_role_changed': '#4f46e5',
+            'mosque_member_invited': '#14b8a6',
+            'mosque_member_joined': '#0d9488',
+            'mosque_member_role_changed': '#0f766e',
+            'mosque_member_removed': '#ea580c',
+            'admin_invitation_sent': '#14b8a6',
+            'admin_invitation_revoked': '#dc2626',
+            'admin_info_requested': '#d97706',
+            'admin_info_provided': '#2563eb',
+            'admin_document_reviewed': '#4f46e5',
             'verification_code_regenerated': '#3b82f6',
             'code_regenerated': '#2563eb',
             'bulk_code_regeneration': '#1d4ed8',
             'prayer_times_updated': '#f97316',
+            'prayer_calculation_updated': '#fb923c',
+            'photo_uploaded': '#06b6d4',
+            'photo_approved': '#22c55e',
+            'photo_hidden': '#f97316',
+            'photo_deleted': '#ef4444',
+            'announcement_created': '#6366f1',
+            'announcement_updated': '#818cf8',
+            'announcement_deleted': '#ef4444',
+            'email_resent': '#0284c7',
             'audit_logs_cleaned': '#6b7280',
             'audit_logs_bulk_deleted': '#ef4444',
             'error_logged': '#dc2626'
@@ -195,12 +223,32 @@ const DashboardOverview: React.FC<Props> = ({ stats, onRefresh }) => {
             'admin_allowed_reapply': 'Allow Reapplication',
             'admin_login': 'Admin Login',
             'superadmin_login': 'Super Admin Login',
+            'account_locked': 'Account Locked',
             'super_admin_created': 'Super Admin Created',
             'super_admin_deleted': 'Super Admin Deleted',
+            'super_admin_role_changed': 'Super Admin Role Changed',
+            'mosque_member_invited': 'Team Member Invited',
+            'mosque_member_joined': 'Team Member Joined',
+            'mosque_member_role_changed': 'Team Role Changed',
+            'mosque_member_removed': 'Team Member Removed',
+            'admin_invitation_sent': 'Admin Invitation Sent',
+            'admin_invitation_revoked': 'Admin Invitation Revoked',
+            'admin_info_requested': 'Information Requested',
+            'admin_info_provided': 'Information Provided',
+            'admin_document_reviewed': 'Document Reviewed',
             'verification_code_regenerated': 'Legacy Code Regenerated',
             'code_regenerated': 'Code Regenerated',
             'bulk_code_regeneration': 'Bulk Code Regeneration',
             'prayer_times_updated': 'Prayer Times Updated',
+            'prayer_calculation_updated': 'Prayer Calculation Updated',
+            'photo_uploaded': 'Photo Uploaded',
+            'photo_approved': 'Photo Approved',
+            'photo_hidden': 'Photo Hidden',
+            'photo_deleted': 'Photo Deleted',
+            'announcement_created': 'Announcement Posted',
+            'announcement_updated': 'Announcement Updated',
+            'announcement_deleted': 'Announcement Deleted',
+            'email_resent': 'Email Resent',
             'audit_logs_cleaned': 'Audit Logs Cleaned',
             'audit_logs_bulk_deleted': 'Audit Logs Deleted',
             'error_logged': 'Error Logged'
@@ -253,7 +301,7 @@ const DashboardOverview: React.FC<Props> = ({ stats, onRefresh }) => {
 
     const handleRefresh = async () => {
         setLoading(true);
-        await Promise.all([onRefresh(), fetchDashboardData()]);
+        await Promise.all([onRefresh(), canViewAudit && fetchDashboardData()]);
         setLoading(false);
     };
 
@@ -329,8 +377,18 @@ const DashboardOverview: React.FC<Props> = ({ stats, onRefresh }) => {
             bgColor: 'from-purple-50 to-purple-100',
             change: '+5%',
             changeType: 'increase'
+        },
+        {
+            title: 'Congregants',
+            value: stats?.total_congregants || 0,
+            icon: FaHeart,
+            color: 'from-rose-500 to-rose-600',
+            bgColor: 'from-rose-50 to-rose-100',
+            change: '+4%',
+            changeType: 'increase'
         }
     ];
+    const mostFollowed = stats?.most_followed_mosques || [];
 
     return (
         <div className="space-y-2 sm:space-y-4 lg:space-y-6 px-1 sm:px-3 lg:px-4">
@@ -384,6 +442,43 @@ const DashboardOverview: React.FC<Props> = ({ stats, onRefresh }) => {
                 })}
             </div>
 
+            {/* Most Followed Mosques */}
+            {mostFollowed.length > 0 && (
+                <div className="bg-gradient-to-br from-rose-50 to-pink-50 border border-rose-200 sm:border-2 rounded-md sm:rounded-lg lg:rounded-xl xl:rounded-2xl shadow-md sm:shadow-lg p-2 sm:p-3 lg:p-4 xl:p-6">
+                    <div className="flex items-center mb-2 sm:mb-3 lg:mb-4">
+                        <div className="w-5 h-5 sm:w-6 sm:h-6 lg:w-8 lg:h-8 bg-gradient-to-r from-rose-500 to-pink-600 rounded sm:rounded-md lg:rounded-lg flex items-center justify-center shadow-sm mr-1.5 sm:mr-2">
+                            <FaHeart className="w-2.5 h-2.5 sm:w-3 sm:h-3 lg:w-4 lg:h-4 text-white" />
+                        </div>
+                        <div>
+                            <h2 className="text-sm sm:text-base lg:text-lg xl:text-xl font-bold bg-gradient-to-r from-rose-600 to-pink-600 bg-clip-text text-transparent">
+                                Most Followed Mosques
+                            </h2>
+                            <p className="text-sm sm:text-base text-gray-600 hidden sm:block">Congregants who saved the mosque as a favorite</p>
+                        </div>
+                    </div>
+                    <ol className="space-y-1.5 sm:space-y-2">
+                        {mostFollowed.map((mosque, index) => (
+                            <li
+                                key={mosque.mosque_id}
+                                className="flex items-center justify-between bg-white/80 backdrop-blur-lg rounded-md sm:rounded-lg p-2 sm:p-3 shadow-sm border border-rose-100"
+                            >
+                                <div className="flex items-center min-w-0">
+                                    <span className="w-6 text-sm sm:text-base font-bold text-rose-500 flex-shrink-0">{index + 1}</span>
+                                    <div className="min-w-0">
+                                        <p className="text-sm sm:text-base font-semibold text-gray-800 truncate">{mosque.name}</p>
+                                        <p className="text-sm text-gray-500 truncate">{mosque.location}</p>
+                                    </div>
+                                </div>
+                                <span className="ml-2 flex items-center text-sm sm:text-base font-bold text-rose-600 flex-shrink-0">
+                                    <FaHeart className="w-3 h-3 mr-1" />
+                                    {mosque.followers.toLocaleString()}
+                                </span>
+                            </li>
+                        ))}
+                    </ol>
+                </div>
+            )}
+
             {/* Audit Stats Overview */}
             <div className="bg-gradient-to-br from-purple-50 to-indigo-50 border border-purple-200 sm:border-2 rounded-md sm:rounded-lg lg:rounded-xl xl:rounded-2xl shadow-md sm:shadow-lg p-2 sm:p-3 lg:p-4 xl:p-6">
                 <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between mb-2 sm:mb-3 lg:mb-4">
@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { superAdminApi } from '../../lib/api';
-import { getErrorMessage } from '../../lib/types';
+import { getErrorMessage, maskVerificationCode } from '../../lib/types';
 import Toast from '../Toast';
 import {
     FaTrash,
@@ -25,7 +25,7 @@ interface MosqueForDeletion {
     contact_phone?: string;
     contact_email?: string;
     admin_instructions?: string;
-    verification_code: string;
+    verification_code_prefix: string;
     verification_code_expires?: string;
     created_at: string;
 
@@ -36,6 +36,8 @@ interface MosqueForDeletion {
     admin_phone?: string;
     admin_status: string;
     admin_id?: string;
+    // Approved admins on the mosque's team
+    team_size: number;
 
     // Admin counts
     pending_admins: number;
@@ -48,6 +50,7 @@ interface MosqueForDeletion {
         email: string;
         phone: string;
         status: string;
+        mosque_role: string;
         created_at: string;
         approved_at?: string;
         rejected_at?: string;
@@ -106,7 +109,7 @@ const DeleteMosques: React.FC = () => {
                 mosque.mosque_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
                 mosque.admin_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
                 mosque.location.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                mosque.verification_code.toLowerCase().includes(searchTerm.toLowerCase());
+                (mosque.verification_code_prefix || '').toLowerCase().includes(searchTerm.toLowerCase());
 
             return matchesSearch;
         });
@@ -497,7 +500,7 @@ const DeleteMosques: React.FC = () => {
                                                             </span>
                                                         )}
                                                         <span className="px-1.5 sm:px-2 lg:px-3 py-1 sm:py-1.5 lg:py-2 rounded-lg sm:rounded-xl lg:rounded-2xl text-xs font-bold bg-gradient-to-r from-blue-100 to-cyan-100 text-blue-800 border border-blue-200 shadow-lg">
-                                                            {mosque.verification_code}
+                                                            {maskVerificationCode(mosque.verification_code_prefix)}
                                                         </span>
                                                         {mosque.pending_admins > 0 && (
                                                             <span className="px-1.5 sm:px-2 lg:px-3 py-1 sm:py-1.5 lg:py-2 rounded-lg sm:rounded-xl lg:rounded-2xl text-xs font-bold bg-gradient-to-r from-yellow-100 to-amber-100 text-yellow-800 border border-yellow-200 shadow-lg">
@@ -520,7 +523,12 @@ const DeleteMosques: React.FC = () => {
                                                                 <FaUser className="w-2.5 h-2.5 sm:w-3 sm:h-3 lg:w-4 lg:h-4 text-white" />
                                                             </div>
                                                             <div className="flex-1 min-w-0">
-                                                                <p className="font-semibold text-gray-800 text-xs sm:text-sm lg:text-base truncate">{mosque.admin_name}</p>
+                                                                <p className="font-semibold text-gray-800 text-xs sm:text-sm lg:text-base truncate">
+                                                                    {mosque.admin_name}
+                                                                    {mosque.team_size > 1 && (
+                                                                        <span className="ml-1 text-xs font-medium text-blue-600">+{mosque.team_size - 1} more</span>
+                                                                    )}
+                                                                </p>
                                                                 {mosque.admin_email && (
                                                                     <p className="text-xs text-gray-500 truncate hidden sm:block">{mosque.admin_email}</p>
                                                                 )}
@@ -0,0 +1,75 @@
+import React, { useEffect, useState } from 'react';
+import { X, AlertTriangle } from 'react-feather';
+import { superAdminApi } from '../../lib/api';
+import { getErrorMessage } from '../../lib/types';
+import type { ApplicationDocument } from '../../lib/types';
+
+interface DocumentViewerProps {
+    adminId: string;
+    document: ApplicationDocument;
+    onClose: () => void;
+}
+
+// Shows an application document in place. The file is fetched with the reviewer's token,
+// so it never needs a public URL.
+const DocumentViewer: React.FC<DocumentViewerProps> = ({ adminId, document, onClose }) => {
+    const [objectUrl, setObjectUrl] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let url: string | null = null;
+        let cancelled = false;
+
+        superAdminApi.getApplicationDocument(adminId, document.id)
+            .then((response) => {
+                if (cancelled) return;
+                url = URL.createObjectURL(new Blob([response.data], { type: document.mime_type }));
+                setObjectUrl(url);
+            })
+            .catch((err) => {
+                if (!cancelled) setError(getErrorMessage(err));
+            });
+
+        return () => {
+            cancelled = true;
+            if (url) URL.revokeObjectURL(url);
+        };
+    }, [adminId, document.id, document.mime_type]);
+
+    return (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-[60] p-2 sm:p-4">
+            <div className="relative bg-white rounded-2xl shadow-2xl w-full max-w-4xl h-[90vh] flex flex-col overflow-hidden">
+                <div className="flex items-center justify-between p-3 sm:p-4 border-b border-gray-200">
+                    <div className="min-w-0">
+                        <h3 className="text-base sm:text-lg font-bold text-gray-800 truncate">{document.original_name}</h3>
+                        <p className="text-sm text-gray-500">{document.kind_label}</p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="w-8 h-8 sm:w-10 sm:h-10 bg-gray-100 hover:bg-red-100 text-gray-600 hover:text-red-600 rounded-lg transition-all duration-200 flex items-center justify-center flex-shrink-0"
+                        aria-label="Close document"
+                    >
+                        <X className="w-4 h-4 sm:w-5 sm:h-5" />
+                    </button>
+                </div>
+
+                <div className="flex-1 bg-gray-100 flex items-center justify-center overflow-auto">
+                    {error ? (
+                        <div className="text-center p-6">
+                            <AlertTriangle className="w-8 h-8 text-red-500 mx-auto mb-2" />
+                            <p className="text-red-700">{error}</p>
+                        </div>
+                    ) : !objectUrl ? (
+                        <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+                    ) : document.mime_type === 'application/pdf' ? (
+                        <iframe src={objectUrl} title={document.original_name} className="w-full h-full border-0" />
+                    ) : (
+                        <img src={objectUrl} alt={document.original_name} className="max-w-full max-h-full object-contain" />
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default DocumentViewer;
@@ -0,0 +1,404 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { superAdminApi } from '../../lib/api';
+import { getErrorMessage } from '../../lib/types';
+import type { EmailDelivery, EmailDeliveryDetails, EmailDeliveryStatus } from '../../lib/types';
+import Toast from '../Toast';
+import {
+    Mail,
+    Send,
+    Search,
+    Calendar,
+    Eye,
+    List,
+    X,
+    ChevronLeft,
+    ChevronRight,
+    RefreshCw
+} from 'react-feather';
+
+interface ToastState {
+    show: boolean;
+    type: 'success' | 'error' | 'warning';
+    message: string;
+}
+
+const STATUS_TABS: { id: EmailDeliveryStatus | 'all'; label: string }[] = [
+    { id: 'all', label: 'All' },
+    { id: 'pending', label: 'Retrying' },
+    { id: 'sending', label: 'Sending' },
+    { id: 'sent', label: 'Sent' },
+    { id: 'dead_letter', label: 'Failed' }
+];
+
+const STATUS_BADGES: Record<EmailDeliveryStatus, string> = {
+    pending: 'bg-amber-100 text-amber-800 border-amber-200',
+    sending: 'bg-blue-100 text-blue-800 border-blue-200',
+    sent: 'bg-green-100 text-green-800 border-green-200',
+    dead_letter: 'bg-red-100 text-red-800 border-red-200'
+};
+
+const STATUS_LABELS: Record<EmailDeliveryStatus, string> = {
+    pending: 'Retrying',
+    sending: 'Sending',
+    sent: 'Sent',
+    dead_letter: 'Failed'
+};
+
+const EVENT_LABELS: Record<string, string> = {
+    registration_code: 'Verification code',
+    password_reset: 'Password reset',
+    sign_in_code: 'Sign-in code',
+    admin_approved: 'Application approved',
+    admin_rejected: 'Application rejected',
+    admin_removed: 'Admin removed',
+    mosque_deleted: 'Mosque deleted',
+    code_regenerated: 'Code regenerated',
+    reapply_allowed: 'Reapplication allowed',
+    info_requested: 'Information requested',
+    mosque_invitation: 'Mosque invitation',
+    new_device: 'New device sign-in'
+};
+
+const TRIGGER_LABELS: Record<EmailDelivery['delivery_log'][number]['trigger'], string> = {
+    inline: 'On request',
+    worker: 'Retry worker',
+    resend: 'Manual resend'
+};
+
+const OUTCOME_STYLES: Record<EmailDelivery['delivery_log'][number]['outcome'], string> = {
+    sent: 'text-green-700',
+    failed: 'text-red-600',
+    expired: 'text-gray-600',
+    requeued: 'text-blue-600'
+};
+
+const eventLabel = (event: string) => EVENT_LABELS[event] || event;
+
+const EmailDeliveries: React.FC = () => {
+    const [deliveries, setDeliveries] = useState<EmailDelivery[]>([]);
+    const [counts, setCounts] = useState<Partial<Record<EmailDeliveryStatus, number>>>({});
+    const [events, setEvents] = useState<string[]>([]);
+    const [status, setStatus] = useState<EmailDeliveryStatus | 'all'>('all');
+    const [event, setEvent] = useState('');
+    const [searchInput, setSearchInput] = useState('');
+    const [search, setSearch] = useState('');
+    const [loading, setLoading] = useState(true);
+    const [currentPage, setCurrentPage] = useState(1);
+    const [totalPages, setTotalPages] = useState(1);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [processingId, setProcessingId] = useState<string | null>(null);
+    const [preview, setPreview] = useState<EmailDeliveryDetails | null>(null);
+    const [toast, setToast] = useState<ToastState>({ show: false, type: 'success', message: '' });
+
+    const limit = 20;
+
+    const fetchDeliveries = useCallback(async () => {
+        try {
+            setLoading(true);
+            const response = await superAdminApi.getEmailDeliveries({
+                status: status === 'all' ? undefined : status,
+                event: event || undefined,
+                search: search || undefined,
+                page: currentPage,
+                limit
+            });
+            setDeliveries(response.data.deliveries || []);
+            setCounts(response.data.counts || {});
+            setEvents(response.data.events || []);
+            setTotalPages(response.data.pagination?.pages || 1);
+        } catch (err) {
+            console.error('Failed to fetch email deliveries:', err);
+            setToast({ show: true, type: 'error', message: 'Failed to load email deliveries' });
+        } finally {
+            setLoading(false);
+        }
+    }, [status, event, search, currentPage]);
+
+    useEffect(() => {
+        fetchDeliveries();
+    }, [fetchDeliveries]);
+
+    const handleSearch = (e: React.FormEvent) => {
+        e.preventDefault();
+        setSearch(searchInput.trim());
+        setCurrentPage(1);
+    };
+
+    const handlePreview = async (delivery: EmailDelivery) => {
+        try {
+            setProcessingId(delivery.id);
+            const response = await superAdminApi.getEmailDelivery(delivery.id);
+            setPreview(response.data.delivery);
+        } catch (err) {
+            setToast({ show: true, type: 'error', message: getErrorMessage(err) });
+        } finally {
+            setProcessingId(null);
+        }
+    };
+
+    const handleResend = async (delivery: EmailDelivery) => {
+        if (delivery.status === 'sent' && !window.confirm(`This email was already delivered to ${delivery.recipient_email}. Send it again?`)) return;
+        try {
+            setProcessingId(delivery.id);
+            const response = await superAdminApi.resendEmail(delivery.id);
+            setToast({
+                show: true,
+                type: response.data.delivery.status === 'sent' ? 'success' : 'warning',
+                message: response.data.message
+            });
+            fetchDeliveries();
+        } catch (err) {
+            setToast({ show: true, type: 'error', message: getErrorMessage(err) });
+        } finally {
+            setProcessingId(null);
+        }
+    };
+
+    const totalCount = Object.values(counts).reduce((sum, count) => sum + (count || 0), 0);
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-gray-50 via-blue-50/30 to-indigo-50/20 p-2 sm:p-6">
+            <div className="max-w-7xl mx-auto space-y-3 sm:space-y-6">
+                {/* Modern 3D Header */}
+                <div className="relative bg-gradient-to-r from-white via-gray-50/50 to-blue-50/30 backdrop-blur-xl border-2 border-white/40 rounded-xl sm:rounded-2xl shadow-xl p-3 sm:p-6">
+                    <div className="absolute inset-0 bg-gradient-to-r from-white/30 to-transparent opacity-60 rounded-xl sm:rounded-2xl"></div>
+                    <div className="absolute -top-4 -right-4 w-20 h-20 bg-gradient-to-br from-blue-200/20 to-transparent rounded-full blur-xl"></div>
+
+                    <div className="relative z-10 flex flex-col sm:flex-row items-center justify-between gap-2 sm:gap-3">
+                        <div className="text-center sm:text-left">
+                            <h1 className="text-lg sm:text-3xl font-bold bg-gradient-to-r from-gray-800 via-blue-600 to-indigo-600 bg-clip-text text-transparent mb-1">
+                                Email Deliveries
+                            </h1>
+                            <p className="text-gray-600 text-sm sm:text-base hidden sm:block">
+                                Failed emails are retried automatically with growing delays; resend any that ran out of attempts
+                            </p>
+                        </div>
+
+                        <button
+                            onClick={fetchDeliveries}
+                            className="p-2 bg-white border-2 border-gray-200 rounded-lg sm:rounded-xl text-gray-600 hover:text-blue-600 hover:border-blue-300 transition-all duration-200 shadow-md"
+                            title="Refresh"
+                        >
+                            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+                        </button>
+                    </div>
+                </div>
+
+                {/* Search and Event Filter */}
+                <form onSubmit={handleSearch} className="bg-white border-2 border-gray-200/50 rounded-2xl shadow-xl p-4 grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <div className="relative md:col-span-2">
+                        <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                        <input
+                            type="text"
+                            value={searchInput}
+                            onChange={(e) => setSearchInput(e.target.value)}
+                            placeholder="Search by recipient or subject"
+                            className="w-full pl-9 pr-3 py-2 bg-gray-50 border-2 border-gray-200 rounded-lg focus:border-blue-400 focus:outline-none"
+                        />
+                    </div>
+                    <select
+                        value={event}
+                        onChange={(e) => {
+                            setEvent(e.target.value);
+                            setCurrentPage(1);
+                        }}
+                        className="w-full px-3 py-2 bg-gray-50 border-2 border-gray-200 rounded-lg focus:border-blue-400 focus:outline-none"
+                    >
+                        <option value="">All emails</option>
+                        {events.map((name) => (
+                            <option key={name} value={name}>{eventLabel(name)}</option>
+                        ))}
+                    </select>
+                </form>
+
+                {/* Status Filter */}
+                <div className="flex flex-wrap gap-2 sm:gap-3">
+                    {STATUS_TABS.map((tab) => (
+                        <button
+                            key={tab.id}
+                            onClick={() => {
+                                setStatus(tab.id);
+                                setCurrentPage(1);
+                            }}
+                            className={`px-4 py-2 rounded-xl font-medium transition-all duration-300 shadow-sm hover:shadow-md ${status === tab.id
+                                ? 'bg-gradient-to-r from-blue-500 to-indigo-600 text-white shadow-lg'
+                                : 'bg-white text-gray-700 hover:bg-gray-100 border-2 border-gray-200'
+                                }`}
+                        >
+                            {tab.label} ({tab.id === 'all' ? totalCount : counts[tab.id] || 0})
+                        </button>
+                    ))}
+                </div>
+
+                {loading ? (
+                    <div className="flex justify-center py-16">
+                        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+                    </div>
+                ) : deliveries.length === 0 ? (
+                    <div className="bg-white border-2 border-gray-200/50 rounded-2xl shadow-xl p-12 text-center">
+                        <Mail className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+                        <p className="text-gray-600 font-medium">No emails found</p>
+                    </div>
+                ) : (
+                    <div className="space-y-3">
+                        {deliveries.map((delivery) => (
+                            <div key={delivery.id} className="bg-white border-2 border-gray-200/50 rounded-2xl shadow-md p-4 space-y-3">
+                                <div className="flex flex-col lg:flex-row lg:items-center gap-3">
+                                    <div className="flex-1 min-w-0 space-y-1">
+                                        <p className="font-semibold text-gray-800 flex items-center flex-wrap gap-2">
+                                            {delivery.recipient_email}
+                                            <span className={`text-xs font-bold px-2 py-0.5 rounded-full border ${STATUS_BADGES[delivery.status]}`}>
+                                                {STATUS_LABELS[delivery.status]}
+                                            </span>
+                                            <span className="text-xs font-medium text-gray-600 bg-gray-100 px-2 py-0.5 rounded-full">
+                                                {eventLabel(delivery.event)} · {delivery.locale.toUpperCase()}
+                                            </span>
+                                        </p>
+                                        <p className="text-sm text-gray-600 truncate">{delivery.subject}</p>
+                                        <p className="text-xs text-gray-500 flex items-center flex-wrap gap-x-3">
+                                            <span className="flex items-center">
+                                                <Calendar className="w-3 h-3 mr-1" />
+                                                Queued {new Date(delivery.created_at).toLocaleString()}
+                                            </span>
+                                            <span>Attempts {delivery.attempts}/{delivery.max_attempts}</span>
+                                            {delivery.sent_at && <span>Sent {new Date(delivery.sent_at).toLocaleString()}</span>}
+                                            {delivery.next_attempt_at && <span>Next attempt {new Date(delivery.next_attempt_at).toLocaleString()}</span>}
+                                            {delivery.dead_lettered_at && <span>Gave up {new Date(delivery.dead_lettered_at).toLocaleString()}</span>}
+                                        </p>
+                                        {delivery.last_error && delivery.status !== 'sent' && (
+                                            <p className="text-xs text-red-600 break-words">{delivery.last_error}</p>
+                                        )}
+                                        {delivery.body_removed && (
+                                            <p className="text-xs text-gray-500">The code in this email is no longer stored.</p>
+                                        )}
+                                    </div>
+
+                                    <div className="flex flex-wrap gap-2">
+                                        <button
+                                            onClick={() => setExpandedId(expandedId === delivery.id ? null : delivery.id)}
+                                            className="flex items-center justify-center gap-1 text-sm font-medium text-gray-700 border-2 border-gray-200 hover:bg-gray-50 px-3 py-2 rounded-lg transition-colors"
+                                        >
+                                            <List className="w-4 h-4" />
+                                            Log ({delivery.delivery_log.length})
+                                        </button>
+                                        {!delivery.body_removed && (
+                                            <button
+                                                onClick={() => handlePreview(delivery)}
+                                                disabled={processingId === delivery.id}
+                                                className="flex items-center justify-center gap-1 text-sm font-medium text-blue-600 border-2 border-blue-200 hover:bg-blue-50 px-3 py-2 rounded-lg transition-colors disabled:opacity-50"
+                                            >
+                                                <Eye className="w-4 h-4" />
+                                                View
+                                            </button>
+                                        )}
+                                        {!delivery.body_removed && delivery.status !== 'sending' && (
+                                            <button
+                                                onClick={() => handleResend(delivery)}
+                                                disabled={processingId === delivery.id}
+                                                className="flex items-center justify-center gap-1 text-sm font-medium text-white bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700 px-3 py-2 rounded-lg transition-all duration-200 shadow-md disabled:opacity-50"
+                                            >
+                                                <Send className="w-4 h-4" />
+                                                {processingId === delivery.id ? 'Sending...' : 'Resend'}
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+
+                                {/* Delivery Log */}
+                                {expandedId === delivery.id && (
+                                    <div className="border-t border-gray-100 pt-3">
+                                        {delivery.delivery_log.length === 0 ? (
+                                            <p className="text-sm text-gray-500">No attempts yet</p>
+                                        ) : (
+                                            <ol className="space-y-1 text-sm">
+                                                {delivery.delivery_log.map((log, index) => (
+                                                    <li key={index} className="flex flex-wrap gap-x-3 text-gray-600">
+                                                        <span className="text-gray-500">{new Date(log.at).toLocaleString()}</span>
+                                                        <span className={`font-semibold capitalize ${OUTCOME_STYLES[log.outcome]}`}>{log.outcome}</span>
+                                                        <span>{log.outcome === 'requeued' ? 'Resend requested' : `Attempt ${log.attempt} · ${TRIGGER_LABELS[log.trigger]}`}</span>
+                                                        {log.duration_ms !== null && <span>{log.duration_ms} ms</span>}
+                                                        {log.error && <span className="text-red-600 break-words">{log.error}</span>}
+                                                    </li>
+                                                ))}
+                                            </ol>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {/* Pagination */}
+                {totalPages > 1 && (
+                    <div className="flex justify-center items-center gap-2 sm:gap-4 pt-4 sm:pt-6">
+                        <button
+                            onClick={() => setCurrentPage((p) => Math.max(1, p - 1))}
+                            disabled={currentPage === 1}
+                            className="flex items-center gap-1 sm:gap-2 px-3 py-1.5 sm:px-4 sm:py-2 bg-gradient-to-r from-gray-500 to-gray-600 hover:from-gray-600 hover:to-gray-700 text-white font-semibold rounded-lg sm:rounded-xl transition-all duration-300 shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <ChevronLeft size={18} />
+                            <span className="hidden sm:inline">Previous</span>
+                        </button>
+                        <span className="bg-white border-2 border-gray-200 rounded-lg sm:rounded-xl px-2 py-1 sm:px-4 sm:py-2 text-gray-700 font-medium text-sm sm:text-base shadow-md">
+                            Page {currentPage} of {totalPages}
+                        </span>
+                        <button
+                            onClick={() => setCurrentPage((p) => Math.min(totalPages, p + 1))}
+                            disabled={currentPage === totalPages}
+                            className="flex items-center gap-1 sm:gap-2 px-3 py-1.5 sm:px-4 sm:py-2 bg-gradient-to-r from-gray-500 to-gray-600 hover:from-gray-600 hover:to-gray-700 text-white font-semibold rounded-lg sm:rounded-xl transition-all duration-300 shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <span className="hidden sm:inline">Next</span>
+                            <ChevronRight size={18} />
+                        </button>
+                    </div>
+                )}
+
+                {/* Email Preview */}
+                {preview && (
+                    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+                        <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+                            <div className="flex items-start justify-between gap-3 p-4 border-b border-gray-200">
+                                <div className="min-w-0">
+                                    <h2 className="font-bold text-gray-800 truncate">{preview.subject}</h2>
+                                    <p className="text-sm text-gray-600">To {preview.recipient_name ? `${preview.recipient_name} <${preview.recipient_email}>` : preview.recipient_email}</p>
+                                </div>
+                                <button
+                                    onClick={() => setPreview(null)}
+                                    className="p-1 text-gray-500 hover:text-gray-800"
+                                    title="Close"
+                                >
+                                    <X className="w-5 h-5" />
+                                </button>
+                            </div>
+                            {preview.html ? (
+                                // Sandboxed so the stored email cannot run scripts in the dashboard
+                                <iframe
+                                    title="Email preview"
+                                    sandbox=""
+                                    srcDoc={preview.html}
+                                    className="flex-1 min-h-[60vh] w-full rounded-b-2xl"
+                                />
+                            ) : (
+                                <pre className="flex-1 overflow-auto p-4 text-sm text-gray-700 whitespace-pre-wrap">
+                                    {preview.text || 'The body of this email is no longer stored.'}
+                                </pre>
+                            )}
+                        </div>
+                    </div>
+                )}
+
+                {/* Toast Notifications */}
+                {toast.show && (
+                    <Toast
+                        type={toast.type}
+                        message={toast.message}
+                        onClose={() => setToast({ ...toast, show: false })}
+                    />
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default EmailDeliveries;
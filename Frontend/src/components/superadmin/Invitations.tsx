@@ -0,0 +1,316 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { superAdminApi } from '../../lib/api';
+import { getErrorMessage } from '../../lib/types';
+import type { AdminInvitation, InvitationStatus } from '../../lib/types';
+import Toast from '../Toast';
+import {
+    Mail,
+    Send,
+    MapPin,
+    Calendar,
+    X,
+    ChevronLeft,
+    ChevronRight,
+    RefreshCw
+} from 'react-feather';
+
+interface ToastState {
+    show: boolean;
+    type: 'success' | 'error' | 'warning';
+    message: string;
+}
+
+interface MosqueOption {
+    _id: string;
+    mosque_name: string;
+    location: string;
+}
+
+const STATUS_TABS: { id: InvitationStatus | 'all'; label: string }[] = [
+    { id: 'all', label: 'All' },
+    { id: 'sent', label: 'Sent' },
+    { id: 'opened', label: 'Opened' },
+    { id: 'accepted', label: 'Accepted' },
+    { id: 'expired', label: 'Expired' },
+    { id: 'revoked', label: 'Revoked' }
+];
+
+const STATUS_BADGES: Record<InvitationStatus, string> = {
+    sent: 'bg-blue-100 text-blue-800 border-blue-200',
+    opened: 'bg-amber-100 text-amber-800 border-amber-200',
+    accepted: 'bg-green-100 text-green-800 border-green-200',
+    expired: 'bg-gray-100 text-gray-700 border-gray-200',
+    revoked: 'bg-red-100 text-red-800 border-red-200'
+};
+
+const Invitations: React.FC = () => {
+    const [invitations, setInvitations] = useState<AdminInvitation[]>([]);
+    const [counts, setCounts] = useState<Partial<Record<InvitationStatus, number>>>({});
+    const [status, setStatus] = useState<InvitationStatus | 'all'>('all');
+    const [loading, setLoading] = useState(true);
+    const [currentPage, setCurrentPage] = useState(1);
+    const [totalPages, setTotalPages] = useState(1);
+    const [processingId, setProcessingId] = useState<string | null>(null);
+    const [mosques, setMosques] = useState<MosqueOption[]>([]);
+    const [mosqueId, setMosqueId] = useState('');
+    const [email, setEmail] = useState('');
+    const [sending, setSending] = useState(false);
+    const [toast, setToast] = useState<ToastState>({ show: false, type: 'success', message: '' });
+
+    const limit = 20;
+
+    const fetchInvitations = useCallback(async () => {
+        try {
+            setLoading(true);
+            const response = await superAdminApi.getInvitations({
+                status: status === 'all' ? undefined : status,
+                page: currentPage,
+                limit
+            });
+            setInvitations(response.data.invitations || []);
+            setCounts(response.data.counts || {});
+            setTotalPages(response.data.pagination?.pages || 1);
+        } catch (err) {
+            console.error('Failed to fetch invitations:', err);
+            setToast({ show: true, type: 'error', message: 'Failed to load invitations' });
+        } finally {
+            setLoading(false);
+        }
+    }, [status, currentPage]);
+
+    useEffect(() => {
+        fetchInvitations();
+    }, [fetchInvitations]);
+
+    // Only mosques without an admin can be offered by invitation; others grow their team from the dashboard
+    useEffect(() => {
+        const fetchMosques = async () => {
+            const response = await superAdminApi.getAllMosques({ status: 'no_admin', sort: 'name', order: 'asc' });
+            setMosques(response.data.mosques || []);
+        };
+        fetchMosques();
+    }, []);
+
+    const handleInvite = async (event: React.FormEvent) => {
+        event.preventDefault();
+        try {
+            setSending(true);
+            const response = await superAdminApi.inviteAdminToApply(mosqueId, email.trim());
+            setToast({ show: true, type: 'success', message: response.data.message });
+            setEmail('');
+            fetchInvitations();
+        } catch (err) {
+            setToast({ show: true, type: 'error', message: getErrorMessage(err) });
+        } finally {
+            setSending(false);
+        }
+    };
+
+    const handleRevoke = async (invitation: AdminInvitation) => {
+        if (!window.confirm(`Revoke the invitation for ${invitation.email}? The link will stop working.`)) return;
+        try {
+            setProcessingId(invitation.id);
+            const response = await superAdminApi.revokeInvitation(invitation.id);
+            setToast({ show: true, type: 'success', message: response.data.message });
+            fetchInvitations();
+        } catch (err) {
+            setToast({ show: true, type: 'error', message: getErrorMessage(err) });
+        } finally {
+            setProcessingId(null);
+        }
+    };
+
+    const totalCount = Object.values(counts).reduce((sum, count) => sum + (count || 0), 0);
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-gray-50 via-blue-50/30 to-indigo-50/20 p-2 sm:p-6">
+            <div className="max-w-7xl mx-auto space-y-3 sm:space-y-6">
+                {/* Modern 3D Header */}
+                <div className="relative bg-gradient-to-r from-white via-gray-50/50 to-blue-50/30 backdrop-blur-xl border-2 border-white/40 rounded-xl sm:rounded-2xl shadow-xl p-3 sm:p-6">
+                    <div className="absolute inset-0 bg-gradient-to-r from-white/30 to-transparent opacity-60 rounded-xl sm:rounded-2xl"></div>
+                    <div className="absolute -top-4 -right-4 w-20 h-20 bg-gradient-to-br from-blue-200/20 to-transparent rounded-full blur-xl"></div>
+
+                    <div className="relative z-10 flex flex-col sm:flex-row items-center justify-between gap-2 sm:gap-3">
+                        <div className="text-center sm:text-left">
+                            <h1 className="text-lg sm:text-3xl font-bold bg-gradient-to-r from-gray-800 via-blue-600 to-indigo-600 bg-clip-text text-transparent mb-1">
+                                Invitations
+                            </h1>
+                            <p className="text-gray-600 text-sm sm:text-base hidden sm:block">
+                                Single-use links that replace the mosque verification code
+                            </p>
+                        </div>
+
+                        <button
+                            onClick={fetchInvitations}
+                            className="p-2 bg-white border-2 border-gray-200 rounded-lg sm:rounded-xl text-gray-600 hover:text-blue-600 hover:border-blue-300 transition-all duration-200 shadow-md"
+                            title="Refresh"
+                        >
+                            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+                        </button>
+                    </div>
+                </div>
+
+                {/* Invite Form */}
+                <form onSubmit={handleInvite} className="bg-white border-2 border-gray-200/50 rounded-2xl shadow-xl p-4 sm:p-6 space-y-4">
+                    <div>
+                        <h2 className="text-lg font-bold text-gray-800 flex items-center">
+                            <Mail className="w-5 h-5 text-blue-600 mr-2" />
+                            Invite an Admin to Apply
+                        </h2>
+                        <p className="text-sm text-gray-600 mt-1">
+                            The link is bound to this email, works once and expires in 7 days. Their application still comes to Pending Requests for review.
+                        </p>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                        <select
+                            value={mosqueId}
+                            onChange={(e) => setMosqueId(e.target.value)}
+                            required
+                            className="w-full px-3 py-2 bg-gray-50 border-2 border-gray-200 rounded-lg focus:border-blue-400 focus:outline-none"
+                        >
+                            <option value="">Select a mosque without an admin</option>
+                            {mosques.map((mosque) => (
+                                <option key={mosque._id} value={mosque._id}>
+                                    {mosque.mosque_name} — {mosque.location}
+                                </option>
+                            ))}
+                        </select>
+                        <input
+                            type="email"
+                            value={email}
+                            onChange={(e) => setEmail(e.target.value)}
+                            placeholder="name@gmail.com"
+                            required
+                            className="w-full px-3 py-2 bg-gray-50 border-2 border-gray-200 rounded-lg focus:border-blue-400 focus:outline-none"
+                        />
+                        <button
+                            type="submit"
+                            disabled={sending || !mosqueId || !email.trim()}
+                            className="flex items-center justify-center gap-2 bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700 text-white font-semibold px-4 py-2 rounded-lg transition-all duration-200 shadow-md disabled:opacity-50"
+                        >
+                            <Send className="w-4 h-4" />
+                            {sending ? 'Sending...' : 'Send invitation'}
+                        </button>
+                    </div>
+                </form>
+
+                {/* Status Filter */}
+                <div className="flex flex-wrap gap-2 sm:gap-3">
+                    {STATUS_TABS.map((tab) => (
+                        <button
+                            key={tab.id}
+                            onClick={() => {
+                                setStatus(tab.id);
+                                setCurrentPage(1);
+                            }}
+                            className={`px-4 py-2 rounded-xl font-medium transition-all duration-300 shadow-sm hover:shadow-md ${status === tab.id
+                                ? 'bg-gradient-to-r from-blue-500 to-indigo-600 text-white shadow-lg'
+                                : 'bg-white text-gray-700 hover:bg-gray-100 border-2 border-gray-200'
+                                }`}
+                        >
+                            {tab.label} ({tab.id === 'all' ? totalCount : counts[tab.id] || 0})
+                        </button>
+                    ))}
+                </div>
+
+                {loading ? (
+                    <div className="flex justify-center py-16">
+                        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+                    </div>
+                ) : invitations.length === 0 ? (
+                    <div className="bg-white border-2 border-gray-200/50 rounded-2xl shadow-xl p-12 text-center">
+                        <Mail className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+                        <p className="text-gray-600 font-medium">No {status === 'all' ? '' : `${status} `}invitations</p>
+                    </div>
+                ) : (
+                    <div className="space-y-3">
+                        {invitations.map((invitation) => (
+                            <div key={invitation.id} className="bg-white border-2 border-gray-200/50 rounded-2xl shadow-md p-4 flex flex-col lg:flex-row lg:items-center gap-3">
+                                <div className="flex-1 min-w-0 space-y-1">
+                                    <p className="font-semibold text-gray-800 flex items-center flex-wrap gap-2">
+                                        {invitation.email}
+                                        <span className={`text-xs font-bold px-2 py-0.5 rounded-full border capitalize ${STATUS_BADGES[invitation.status]}`}>
+                                            {invitation.status}
+                                        </span>
+                                        <span className="text-xs font-medium text-gray-600 bg-gray-100 px-2 py-0.5 rounded-full">
+                                            {invitation.purpose === 'application' ? 'Invited to apply' : `Team · ${invitation.role_label}`}
+                                        </span>
+                                    </p>
+                                    <p className="text-sm text-gray-600 flex items-center">
+                                        <MapPin className="w-3 h-3 mr-1 flex-shrink-0" />
+                                        {invitation.mosque ? `${invitation.mosque.name}, ${invitation.mosque.location}` : 'Deleted mosque'}
+                                    </p>
+                                    <p className="text-xs text-gray-500 flex items-center flex-wrap gap-x-3">
+                                        <span className="flex items-center">
+                                            <Calendar className="w-3 h-3 mr-1" />
+                                            Sent {new Date(invitation.created_at).toLocaleString()} by {invitation.invited_by.name}
+                                            {invitation.invited_by.type === 'owner' ? ' (mosque owner)' : ''}
+                                        </span>
+                                        {invitation.opened_at && <span>Opened {new Date(invitation.opened_at).toLocaleString()}</span>}
+                                        {invitation.accepted_at && <span>Accepted {new Date(invitation.accepted_at).toLocaleString()}</span>}
+                                        {invitation.revoked_at && <span>Revoked {new Date(invitation.revoked_at).toLocaleString()}</span>}
+                                        {(invitation.status === 'sent' || invitation.status === 'opened' || invitation.status === 'expired') && (
+                                            <span>{invitation.status === 'expired' ? 'Expired' : 'Expires'} {new Date(invitation.expires_at).toLocaleString()}</span>
+                                        )}
+                                    </p>
+                                    {invitation.accepted_admin && (
+                                        <p className="text-xs text-gray-600">
+                                            Account: {invitation.accepted_admin.name} ({invitation.accepted_admin.status})
+                                        </p>
+                                    )}
+                                </div>
+
+                                {(invitation.status === 'sent' || invitation.status === 'opened') && (
+                                    <button
+                                        onClick={() => handleRevoke(invitation)}
+                                        disabled={processingId === invitation.id}
+                                        className="flex items-center justify-center gap-1 text-sm font-medium text-red-600 border-2 border-red-200 hover:bg-red-50 px-3 py-2 rounded-lg transition-colors disabled:opacity-50"
+                                    >
+                                        <X className="w-4 h-4" />
+                                        Revoke
+                                    </button>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {/* Pagination */}
+                {totalPages > 1 && (
+                    <div className="flex justify-center items-center gap-2 sm:gap-4 pt-4 sm:pt-6">
+                        <button
+                            onClick={() => setCurrentPage((p) => Math.max(1, p - 1))}
+                            disabled={currentPage === 1}
+                            className="flex items-center gap-1 sm:gap-2 px-3 py-1.5 sm:px-4 sm:py-2 bg-gradient-to-r from-gray-500 to-gray-600 hover:from-gray-600 hover:to-gray-700 text-white font-semibold rounded-lg sm:rounded-xl transition-all duration-300 shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <ChevronLeft size={18} />
+                            <span className="hidden sm:inline">Previous</span>
+                        </button>
+                        <span className="bg-white border-2 border-gray-200 rounded-lg sm:rounded-xl px-2 py-1 sm:px-4 sm:py-2 text-gray-700 font-medium text-sm sm:text-base shadow-md">
+                            Page {currentPage} of {totalPages}
+                        </span>
+                        <button
+                            onClick={() => setCurrentPage((p) => Math.min(totalPages, p + 1))}
+                            disabled={currentPage === totalPages}
+                            className="flex items-center gap-1 sm:gap-2 px-3 py-1.5 sm:px-4 sm:py-2 bg-gradient-to-r from-gray-500 to-gray-600 hover:from-gray-600 hover:to-gray-700 text-white font-semibold rounded-lg sm:rounded-xl transition-all duration-300 shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <span className="hidden sm:inline">Next</span>
+                            <ChevronRight size={18} />
+                        </button>
+                    </div>
+                )}
+
+                {/* Toast Notifications */}
+                {toast.show && (
+                    <Toast
+                        type={toast.type}
+                        message={toast.message}
+                        onClose={() => setToast({ ...toast, show: false })}
+                    />
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default Invitations;
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
+import LocationPicker from '../LocationPicker';
 import {
     FaBuilding,
     FaUser,
@@ -66,7 +67,10 @@ const completeRegistrationSchema = z.object({
     admin_instructions: z.string()
         .max(500, 'Admin instructions must not exceed 500 characters')
         .optional(),
-    registration_code: z.string().optional()
+    registration_code: z.string().optional(),
+    // Set from the map pin picker
+    latitude: z.number().min(-90).max(90).optional(),
+    longitude: z.number().min(-180).max(180).optional()
 }).refine((data) => data.admin_password === data.confirm_password, {
     message: "Passwords don't match",
     path: ["confirm_password"],
@@ -137,6 +141,8 @@ const MosqueRegistration: React.FC<Props> = ({ onRegister }) => {
 
     // Watch password for strength indicator
     const password = watch('admin_password');
+    const pinnedLatitude = watch('latitude');
+    const pinnedLongitude = watch('longitude');
 
     const getPasswordStrength = (pwd: string) => {
         if (!pwd) return { strength: 0, label: '', color: '' };
@@ -350,6 +356,21 @@ const MosqueRegistration: React.FC<Props> = ({ onRegister }) => {
                                 )}
                             </div>
 
+                            <div className="lg:col-span-2">
+                                <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1 sm:mb-2">
+                                    Map Pin (Optional)
+                                </label>
+                                <LocationPicker
+                                    value={pinnedLatitude !== undefined && pinnedLongitude !== undefined
+                                        ? { latitude: pinnedLatitude, longitude: pinnedLongitude }
+                                        : null}
+                                    onChange={(coordinates) => {
+                                        setValue('latitude', coordinates?.latitude);
+                                        setValue('longitude', coordinates?.longitude);
+                                    }}
+                                />
+                            </div>
+
                             <div className="lg:col-span-2 hidden sm:block">
                                 <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1 sm:mb-2">
                                     Description (Optional)
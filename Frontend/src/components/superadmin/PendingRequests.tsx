@@ -1,8 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { superAdminApi } from '../../lib/api';
-import { getErrorMessage } from '../../lib/types';
-import { FaClock, FaUser, FaMapMarkerAlt, FaPhone, FaEnvelope, FaCheck, FaTimes, FaEye, FaSearch, FaFilter } from 'react-icons/fa';
+import { getErrorMessage, maskVerificationCode } from '../../lib/types';
+import type { ApplicationDocument, InfoRequest } from '../../lib/types';
+import { FaClock, FaUser, FaMapMarkerAlt, FaPhone, FaEnvelope, FaCheck, FaTimes, FaEye, FaSearch, FaFilter, FaPaperclip, FaQuestionCircle } from 'react-icons/fa';
 import { BarChart, CheckCircle } from 'react-feather';
+import ApplicationReview from './ApplicationReview';
 
 interface PendingRequest {
     _id: string;
@@ -17,6 +19,10 @@ interface PendingRequest {
     mosque_id?: string;
     application_notes?: string;
     verification_status?: string;
+    documents: ApplicationDocument[];
+    info_requests: InfoRequest[];
+    // A reviewer asked for more information and the applicant has not answered yet
+    awaiting_applicant: boolean;
 }
 
 interface Props {
@@ -47,9 +53,10 @@ const PendingRequests: React.FC<Props> = ({ onApprove, onReject }) => {
         fetchPendingRequests();
     }, []);
 
-    const fetchPendingRequests = async () => {
+    // Refreshes after a document review or information request run quietly so the open details modal stays put
+    const fetchPendingRequests = async (showLoading = true) => {
         try {
-            setLoading(true);
+            if (showLoading) setLoading(true);
             setError(null);
             console.log('Fetching pending requests...');
             const response = await superAdminApi.getPendingRequests();
@@ -68,18 +75,26 @@ const PendingRequests: React.FC<Props> = ({ onApprove, onReject }) => {
                     admin_email: admin.email || '',
                     admin_phone: admin.phone || '',
                     location: admin.mosque_id?.location || 'Unknown Location',
-                    registration_code: admin.verification_code_used || 'No Code',
+                    registration_code: admin.application_invitation_id
+                        ? 'Invitation link'
+                        : admin.verification_code_used ? maskVerificationCode(admin.verification_code_used) : 'No Code',
                     created_at: admin.createdAt || new Date().toISOString(),
                     status: 'pending' as const,
                     // Additional fields we might need
                     mosque_id: admin.mosque_id?._id || null,
                     application_notes: admin.application_notes || '',
-                    verification_status: admin.verification_status || 'unknown'
+                    verification_status: admin.verification_status || 'unknown',
+                    documents: admin.application_documents || [],
+                    info_requests: admin.info_requests || [],
+                    awaiting_applicant: !!admin.awaiting_applicant
                 };
             });
 
             console.log('Transformed requests:', transformedRequests);
             setRequests(transformedRequests);
+            setSelectedRequestForView((current: PendingRequest | null) =>
+                current ? transformedRequests.find((request: PendingRequest) => request._id === current._id) ?? current : current
+            );
         } catch (err) {
             console.error('Failed to fetch pending requests:', err);
             const errorMessage = getErrorMessage(err);
@@ -258,7 +273,7 @@ const PendingRequests: React.FC<Props> = ({ onApprove, onReject }) => {
                     <h3 className="text-2xl font-bold text-gray-800 mb-3">Error Loading Requests</h3>
                     <p className="text-gray-600 mb-6 text-lg">{error}</p>
                     <button
-                        onClick={fetchPendingRequests}
+                        onClick={() => fetchPendingRequests()}
                         className="group relative bg-gradient-to-r from-red-500 to-rose-600 hover:from-red-600 hover:to-rose-700 text-white font-bold py-4 px-8 rounded-2xl transition-all duration-300 transform hover:scale-105 shadow-lg hover:shadow-xl"
                     >
                         <div className="flex items-center justify-center">
@@ -529,9 +544,16 @@ const PendingRequests: React.FC<Props> = ({ onApprove, onReject }) => {
                                                     <span className="bg-gradient-to-r from-yellow-400 to-orange-400 text-white px-3 py-1 rounded-xl text-sm sm:text-base font-semibold shadow-md">
                                                         {request.registration_code}
                                                     </span>
-                                                    <span className="bg-gradient-to-r from-blue-100 to-blue-200 text-blue-800 px-2 py-1 rounded-lg text-sm sm:text-base font-medium">
-                                                        PENDING
-                                                    </span>
+                                                    {request.awaiting_applicant ? (
+                                                        <span className="bg-gradient-to-r from-sky-100 to-sky-200 text-sky-800 px-2 py-1 rounded-lg text-sm sm:text-base font-medium flex items-center">
+                                                            <FaQuestionCircle className="w-3 h-3 mr-1" />
+                                                            INFO REQUESTED
+                                                        </span>
+                                                    ) : (
+                                                        <span className="bg-gradient-to-r from-blue-100 to-blue-200 text-blue-800 px-2 py-1 rounded-lg text-sm sm:text-base font-medium">
+                                                            PENDING
+                                                        </span>
+                                                    )}
                                                 </div>
                                             </div>
 
@@ -544,6 +566,14 @@ const PendingRequests: React.FC<Props> = ({ onApprove, onReject }) => {
                                                     <FaClock className="w-3 h-3 mr-1" />
                                                     <span>Registered {formatDate(request.created_at)}</span>
                                                 </div>
+                                                <div className="flex items-center text-gray-500 text-sm sm:text-base mt-1">
+                                                    <FaPaperclip className="w-3 h-3 mr-1" />
+                                                    <span>
+                                                        {request.documents.length === 0
+                                                            ? 'No documents'
+                                                            : `${request.documents.filter(document => document.review_status === 'verified').length}/${request.documents.length} documents verified`}
+                                                    </span>
+                                                </div>
                                             </div>
 
                                             {/* Compact Contact Information Grid */}
@@ -1050,6 +1080,15 @@ const PendingRequests: React.FC<Props> = ({ onApprove, onReject }) => {
                                         </div>
                                     </div>
 
+                                    <ApplicationReview
+                                        key={selectedRequestForView._id}
+                                        adminId={selectedRequestForView._id}
+                                        applicantName={selectedRequestForView.admin_name}
+                                        documents={selectedRequestForView.documents}
+                                        infoRequests={selectedRequestForView.info_requests}
+                                        onChanged={() => fetchPendingRequests(false)}
+                                    />
+
                                     {/* Mosque Management Contact */}
                                     <div>
                                         <h4 className="text-sm sm:text-base font-semibold text-gray-800 mb-3 bg-indigo-100 px-3 py-1 rounded-lg inline-block">
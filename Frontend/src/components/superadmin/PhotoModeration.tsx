@@ -0,0 +1,247 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { superAdminApi, resolveMediaUrl } from '../../lib/api';
+import { getErrorMessage } from '../../lib/types';
+import type { PhotoModerationItem, PhotoStatus } from '../../lib/types';
+import Toast from '../Toast';
+import {
+    Camera,
+    CheckCircle,
+    EyeOff,
+    MapPin,
+    Calendar,
+    ChevronLeft,
+    ChevronRight,
+    RefreshCw
+} from 'react-feather';
+
+interface ToastState {
+    show: boolean;
+    type: 'success' | 'error' | 'warning';
+    message: string;
+}
+
+const STATUS_TABS: { id: PhotoStatus; label: string }[] = [
+    { id: 'pending', label: 'Pending' },
+    { id: 'approved', label: 'Approved' },
+    { id: 'hidden', label: 'Hidden' }
+];
+
+const PhotoModeration: React.FC = () => {
+    const [photos, setPhotos] = useState<PhotoModerationItem[]>([]);
+    const [status, setStatus] = useState<PhotoStatus>('pending');
+    const [loading, setLoading] = useState(true);
+    const [currentPage, setCurrentPage] = useState(1);
+    const [totalPages, setTotalPages] = useState(1);
+    const [pendingCount, setPendingCount] = useState(0);
+    const [processingId, setProcessingId] = useState<string | null>(null);
+    const [notes, setNotes] = useState<Record<string, string>>({});
+    const [toast, setToast] = useState<ToastState>({ show: false, type: 'success', message: '' });
+
+    const limit = 12;
+
+    const fetchPhotos = useCallback(async () => {
+        try {
+            setLoading(true);
+            const response = await superAdminApi.getPhotoModerationQueue({ status, page: currentPage, limit });
+            setPhotos(response.data.photos || []);
+            setTotalPages(response.data.pagination?.pages || 1);
+            setPendingCount(response.data.pending_count || 0);
+        } catch (err) {
+            console.error('Failed to fetch photos for moderation:', err);
+            setToast({ show: true, type: 'error', message: 'Failed to load photos' });
+        } finally {
+            setLoading(false);
+        }
+    }, [status, currentPage]);
+
+    useEffect(() => {
+        fetchPhotos();
+    }, [fetchPhotos]);
+
+    const handleModerate = async (photo: PhotoModerationItem, action: 'approve' | 'hide') => {
+        try {
+            setProcessingId(photo.id);
+            await superAdminApi.moderatePhoto(photo.id, { action, note: notes[photo.id]?.trim() || undefined });
+            setToast({
+                show: true,
+                type: 'success',
+                message: action === 'approve' ? 'Photo approved and published' : 'Photo hidden from the public gallery'
+            });
+            setNotes((current) => ({ ...current, [photo.id]: '' }));
+            fetchPhotos();
+        } catch (err) {
+            setToast({ show: true, type: 'error', message: getErrorMessage(err) });
+        } finally {
+            setProcessingId(null);
+        }
+    };
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-gray-50 via-blue-50/30 to-indigo-50/20 p-2 sm:p-6">
+            <div className="max-w-7xl mx-auto space-y-3 sm:space-y-6">
+                {/* Modern 3D Header */}
+                <div className="relative bg-gradient-to-r from-white via-gray-50/50 to-blue-50/30 backdrop-blur-xl border-2 border-white/40 rounded-xl sm:rounded-2xl shadow-xl p-3 sm:p-6">
+                    <div className="absolute inset-0 bg-gradient-to-r from-white/30 to-transparent opacity-60 rounded-xl sm:rounded-2xl"></div>
+                    <div className="absolute -top-4 -right-4 w-20 h-20 bg-gradient-to-br from-blue-200/20 to-transparent rounded-full blur-xl"></div>
+
+                    <div className="relative z-10 flex flex-col sm:flex-row items-center justify-between gap-2 sm:gap-3">
+                        <div className="text-center sm:text-left">
+                            <h1 className="text-lg sm:text-3xl font-bold bg-gradient-to-r from-gray-800 via-blue-600 to-indigo-600 bg-clip-text text-transparent mb-1">
+                                Photo Moderation
+                            </h1>
+                            <p className="text-gray-600 text-sm sm:text-base hidden sm:block">Review gallery photos uploaded by mosque admins</p>
+                        </div>
+
+                        <div className="flex items-center gap-2">
+                            <div className="relative bg-gradient-to-r from-yellow-400 to-orange-500 text-white px-2 py-1 sm:px-4 sm:py-2 rounded-lg sm:rounded-xl font-semibold text-sm sm:text-base shadow-lg">
+                                <div className="flex items-center space-x-1 sm:space-x-2">
+                                    <Camera className="w-3 h-3 sm:w-4 sm:h-4" />
+                                    <span>{pendingCount} Pending</span>
+                                </div>
+                            </div>
+                            <button
+                                onClick={fetchPhotos}
+                                className="p-2 bg-white border-2 border-gray-200 rounded-lg sm:rounded-xl text-gray-600 hover:text-blue-600 hover:border-blue-300 transition-all duration-200 shadow-md"
+                                title="Refresh"
+                            >
+                                <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+                            </button>
+                        </div>
+                    </div>
+                </div>
+
+                {/* Status Filter */}
+                <div className="flex flex-wrap gap-2 sm:gap-3">
+                    {STATUS_TABS.map((tab) => (
+                        <button
+                            key={tab.id}
+                            onClick={() => {
+                                setStatus(tab.id);
+                                setCurrentPage(1);
+                            }}
+                            className={`px-4 py-2 rounded-xl font-medium transition-all duration-300 shadow-sm hover:shadow-md ${status === tab.id
+                                ? 'bg-gradient-to-r from-blue-500 to-indigo-600 text-white shadow-lg'
+                                : 'bg-white text-gray-700 hover:bg-gray-100 border-2 border-gray-200'
+                                }`}
+                        >
+                            {tab.label}
+                        </button>
+                    ))}
+                </div>
+
+                {loading ? (
+                    <div className="flex justify-center py-16">
+                        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+                    </div>
+                ) : photos.length === 0 ? (
+                    <div className="bg-white border-2 border-gray-200/50 rounded-2xl shadow-xl p-12 text-center">
+                        <Camera className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+                        <p className="text-gray-600 font-medium">No {status} photos</p>
+                    </div>
+                ) : (
+                    <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4 sm:gap-6">
+                        {photos.map((photo) => (
+                            <div key={photo.id} className="bg-white border-2 border-gray-200/50 rounded-2xl shadow-xl overflow-hidden">
+                                <a href={resolveMediaUrl(photo.hero_url)} target="_blank" rel="noopener noreferrer">
+                                    <img
+                                        src={resolveMediaUrl(photo.thumbnail_url)}
+                                        alt={photo.caption || photo.original_name}
+                                        loading="lazy"
+                                        className="w-full h-48 object-cover hover:opacity-90 transition-opacity duration-200"
+                                    />
+                                </a>
+                                <div className="p-4 space-y-3">
+                                    <div>
+                                        <h3 className="font-bold text-gray-800">{photo.mosque?.name || 'Deleted mosque'}</h3>
+                                        {photo.mosque?.location && (
+                                            <p className="text-sm text-gray-500 flex items-center">
+                                                <MapPin className="w-3 h-3 mr-1 flex-shrink-0" />
+                                                {photo.mosque.location}
+                                            </p>
+                                        )}
+                                    </div>
+                                    {photo.caption && <p className="text-sm text-gray-700">{photo.caption}</p>}
+                                    <p className="text-xs text-gray-500 flex items-center">
+                                        <Calendar className="w-3 h-3 mr-1" />
+                                        Uploaded {new Date(photo.createdAt).toLocaleString()}
+                                    </p>
+                                    {photo.moderation_note && status !== 'pending' && (
+                                        <p className="text-xs text-gray-600 bg-gray-50 rounded-lg p-2">Note: {photo.moderation_note}</p>
+                                    )}
+
+                                    <input
+                                        type="text"
+                                        value={notes[photo.id] || ''}
+                                        maxLength={500}
+                                        onChange={(e) => setNotes((current) => ({ ...current, [photo.id]: e.target.value }))}
+                                        placeholder="Note for the mosque admin (optional)"
+                                        className="w-full px-3 py-2 text-sm bg-gray-50 border-2 border-gray-200 rounded-lg focus:border-blue-400 focus:outline-none"
+                                    />
+
+                                    <div className="flex gap-2">
+                                        {status !== 'approved' && (
+                                            <button
+                                                onClick={() => handleModerate(photo, 'approve')}
+                                                disabled={processingId === photo.id}
+                                                className="flex-1 flex items-center justify-center gap-1 bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 text-white font-semibold px-3 py-2 rounded-lg transition-all duration-200 shadow-md disabled:opacity-50"
+                                            >
+                                                <CheckCircle className="w-4 h-4" />
+                                                Approve
+                                            </button>
+                                        )}
+                                        {status !== 'hidden' && (
+                                            <button
+                                                onClick={() => handleModerate(photo, 'hide')}
+                                                disabled={processingId === photo.id}
+                                                className="flex-1 flex items-center justify-center gap-1 bg-gradient-to-r from-red-500 to-pink-600 hover:from-red-600 hover:to-pink-700 text-white font-semibold px-3 py-2 rounded-lg transition-all duration-200 shadow-md disabled:opacity-50"
+                                            >
+                                                <EyeOff className="w-4 h-4" />
+                                                Hide
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {/* Pagination */}
+                {totalPages > 1 && (
+                    <div className="flex justify-center items-center gap-2 sm:gap-4 pt-4 sm:pt-6">
+                        <button
+                            onClick={() => setCurrentPage((p) => Math.max(1, p - 1))}
+                            disabled={currentPage === 1}
+                            className="flex items-center gap-1 sm:gap-2 px-3 py-1.5 sm:px-4 sm:py-2 bg-gradient-to-r from-gray-500 to-gray-600 hover:from-gray-600 hover:to-gray-700 text-white font-semibold rounded-lg sm:rounded-xl transition-all duration-300 shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <ChevronLeft size={18} />
+                            <span className="hidden sm:inline">Previous</span>
+                        </button>
+                        <span className="bg-white border-2 border-gray-200 rounded-lg sm:rounded-xl px-2 py-1 sm:px-4 sm:py-2 text-gray-700 font-medium text-sm sm:text-base shadow-md">
+                            Page {currentPage} of {totalPages}
+                        </span>
+                        <button
+                            onClick={() => setCurrentPage((p) => Math.min(totalPages, p + 1))}
+                            disabled={currentPage === totalPages}
+                            className="flex items-center gap-1 sm:gap-2 px-3 py-1.5 sm:px-4 sm:py-2 bg-gradient-to-r from-gray-500 to-gray-600 hover:from-gray-600 hover:to-gray-700 text-white font-semibold rounded-lg sm:rounded-xl transition-all duration-300 shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <span className="hidden sm:inline">Next</span>
+                            <ChevronRight size={18} />
+                        </button>
+                    </div>
+                )}
+
+                {/* Toast Notifications */}
+                {toast.show && (
+                    <Toast
+                        type={toast.type}
+                        message={toast.message}
+                        onClose={() => setToast({ ...toast, show: false })}
+                    />
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default PhotoModeration;
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
+import LocationPicker from '../LocationPicker';
 import {
     FaBuilding,
     FaMapMarkerAlt,
@@ -45,7 +46,10 @@ const simpleMosqueSchema = z.object({
         }, `Contact email must be from one of these providers: ${allowedEmailDomains.join(', ')} or leave empty`),
     admin_instructions: z.string()
         .max(500, 'Admin instructions must not exceed 500 characters')
-        .optional()
+        .optional(),
+    // Set from the map pin picker
+    latitude: z.number().min(-90).max(90).optional(),
+    longitude: z.number().min(-180).max(180).optional()
 });
 
 type SimpleMosqueForm = z.infer<typeof simpleMosqueSchema>;
@@ -61,6 +65,8 @@ const SimpleMosqueRegistration: React.FC<Props> = ({ onRegister }) => {
     const {
         register,
         handleSubmit,
+        setValue,
+        watch,
         formState: { errors }
     } = useForm<SimpleMosqueForm>({
         resolver: zodResolver(simpleMosqueSchema),
@@ -72,6 +78,9 @@ const SimpleMosqueRegistration: React.FC<Props> = ({ onRegister }) => {
         }
     });
 
+    const pinnedLatitude = watch('latitude');
+    const pinnedLongitude = watch('longitude');
+
     const onSubmit = async (data: SimpleMosqueForm) => {
         try {
             setIsSubmitting(true);
@@ -249,6 +258,22 @@ const SimpleMosqueRegistration: React.FC<Props> = ({ onRegister }) => {
                             </div>
                         </div>
 
+                        {/* Map Pin */}
+                        <div>
+                            <label className="block text-sm sm:text-base font-medium text-gray-700 mb-1 sm:mb-2">
+                                Map Pin (Optional)
+                            </label>
+                            <LocationPicker
+                                value={pinnedLatitude !== undefined && pinnedLongitude !== undefined
+                                    ? { latitude: pinnedLatitude, longitude: pinnedLongitude }
+                                    : null}
+                                onChange={(coordinates) => {
+                                    setValue('latitude', coordinates?.latitude);
+                                    setValue('longitude', coordinates?.longitude);
+                                }}
+                            />
+                        </div>
+
                         {/* Description */}
                         <div className="hidden sm:block">
                             <label className="block text-sm sm:text-base font-medium text-gray-700 mb-1 sm:mb-2">
@@ -0,0 +1,126 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Shield, X } from 'react-feather';
+import { authApi, setStepUpHandler } from '../../lib/api';
+import type { StepUpMethod } from '../../lib/api';
+import { getErrorMessage } from '../../lib/types';
+
+interface PendingStepUp {
+    method: StepUpMethod;
+    resolve: () => void;
+    reject: (reason: Error) => void;
+}
+
+// Asks for an authenticator code (or the password, without 2FA) when a destructive
+// request comes back with STEP_UP_REQUIRED; the request is replayed once confirmed
+const StepUpPrompt: React.FC = () => {
+    const [pending, setPending] = useState<PendingStepUp | null>(null);
+    const [value, setValue] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [loading, setLoading] = useState(false);
+    const pendingRef = useRef<PendingStepUp | null>(null);
+
+    useEffect(() => {
+        setStepUpHandler((method) => new Promise<void>((resolve, reject) => {
+            // Only one prompt at a time - a second request waits on the same confirmation
+            if (pendingRef.current) {
+                const current = pendingRef.current;
+                pendingRef.current = {
+                    ...current,
+                    resolve: () => { current.resolve(); resolve(); },
+                    reject: (reason) => { current.reject(reason); reject(reason); },
+                };
+            } else {
+                pendingRef.current = { method, resolve, reject };
+            }
+            setPending(pendingRef.current);
+        }));
+        return () => setStepUpHandler(null);
+    }, []);
+
+    const close = () => {
+        pendingRef.current = null;
+        setPending(null);
+        setValue('');
+        setError(null);
+    };
+
+    const handleCancel = () => {
+        pending?.reject(new Error('Confirmation cancelled'));
+        close();
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!pending) return;
+
+        setLoading(true);
+        setError(null);
+        try {
+            await authApi.stepUp(pending.method === 'totp' ? { code: value } : { password: value });
+            pending.resolve();
+            close();
+        } catch (err) {
+            setError(getErrorMessage(err));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    if (!pending) return null;
+
+    const isTotp = pending.method === 'totp';
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+            <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden">
+                <div className="bg-gradient-to-r from-blue-600 to-indigo-600 px-6 py-4 flex items-center justify-between">
+                    <h3 className="text-lg font-bold text-white flex items-center">
+                        <Shield className="w-5 h-5 mr-2" />
+                        Confirm It's You
+                    </h3>
+                    <button onClick={handleCancel} className="text-white/80 hover:text-white" aria-label="Cancel">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+                <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                    <p className="text-sm text-gray-600">
+                        {isTotp
+                            ? 'This action can\'t be undone. Enter a code from your authenticator app, or a recovery code, to continue.'
+                            : 'This action can\'t be undone. Enter your password to continue.'}
+                    </p>
+                    <input
+                        type={isTotp ? 'text' : 'password'}
+                        value={value}
+                        onChange={(e) => setValue(e.target.value)}
+                        autoFocus
+                        autoComplete={isTotp ? 'one-time-code' : 'current-password'}
+                        inputMode={isTotp ? 'numeric' : undefined}
+                        placeholder={isTotp ? '123456' : 'Password'}
+                        className={`w-full px-4 py-3 border-2 border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-400 ${isTotp ? 'text-center text-xl tracking-[0.3em] font-mono' : ''}`}
+                    />
+                    {error && (
+                        <p className="text-sm text-red-600 bg-red-50 border border-red-200 rounded-lg p-3">{error}</p>
+                    )}
+                    <div className="flex justify-end gap-3 pt-2">
+                        <button
+                            type="button"
+                            onClick={handleCancel}
+                            className="px-4 py-2 rounded-xl text-gray-700 bg-gray-100 hover:bg-gray-200 font-medium transition-colors"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={loading || !value.trim()}
+                            className="px-4 py-2 rounded-xl text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 disabled:opacity-50 font-medium transition-all"
+                        >
+                            {loading ? 'Confirming...' : 'Confirm'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+export default StepUpPrompt;
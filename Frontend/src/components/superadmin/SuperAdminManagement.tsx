@@ -4,8 +4,10 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { authApi, superAdminApi } from '../../lib/api';
 import { getErrorMessage } from '../../lib/types';
+import type { RoleDefinition, SuperAdminRole } from '../../lib/types';
+import { PROVINCES } from '../../lib/address';
 import Toast from '../Toast';
-import { Eye, EyeOff, Shield, UserPlus, Users } from 'react-feather';
+import { Eye, EyeOff, Shield, UserPlus, Users, Save } from 'react-feather';
 import { FaUser, FaEnvelope, FaCalendarAlt, FaExclamationTriangle, FaTrash, FaPlus } from 'react-icons/fa';
 
 const superAdminSchema = z.object({
@@ -27,16 +29,28 @@ interface SuperAdmin {
     _id: string;
     name: string;
     email: string;
+    role: SuperAdminRole;
+    province: string | null;
     createdAt: string;
 }
 
+interface RoleDraft {
+    role: SuperAdminRole;
+    province: string;
+}
+
+interface SuperAdminManagementProps {
+    // Role catalogue from /superadmin/access
+    roles: RoleDefinition[];
+}
+
 interface ToastState {
     show: boolean;
     type: 'success' | 'error' | 'warning';
     message: string;
 }
 
-const SuperAdminManagement: React.FC = () => {
+const SuperAdminManagement: React.FC<SuperAdminManagementProps> = ({ roles }) => {
     const [loading, setLoading] = useState(false);
     const [toast, setToast] = useState<ToastState>({ show: false, type: 'success', message: '' });
     const [showPassword, setShowPassword] = useState(false);
@@ -46,6 +60,9 @@ const SuperAdminManagement: React.FC = () => {
     const [deletingId, setDeletingId] = useState<string | null>(null);
     const [showDeleteModal, setShowDeleteModal] = useState(false);
     const [adminToDelete, setAdminToDelete] = useState<SuperAdmin | null>(null);
+    // Unsaved role changes, keyed by super admin id
+    const [roleDrafts, setRoleDrafts] = useState<Record<string, RoleDraft>>({});
+    const [savingRoleId, setSavingRoleId] = useState<string | null>(null);
 
     const form = useForm<SuperAdminFormData>({
         resolver: zodResolver(superAdminSchema),
@@ -97,6 +114,93 @@ const SuperAdminManagement: React.FC = () => {
         }
     };
 
+    const getRoleDraft = (admin: SuperAdmin): RoleDraft =>
+        roleDrafts[admin._id] || { role: admin.role || 'super_admin', province: admin.province || '' };
+
+    const updateRoleDraft = (admin: SuperAdmin, changes: Partial<RoleDraft>) => {
+        setRoleDrafts((drafts) => ({ ...drafts, [admin._id]: { ...getRoleDraft(admin), ...changes } }));
+    };
+
+    const isProvinceScoped = (role: SuperAdminRole) =>
+        roles.find((definition) => definition.role === role)?.province_scoped ?? false;
+
+    const handleSaveRole = async (admin: SuperAdmin) => {
+        const draft = getRoleDraft(admin);
+        const scoped = isProvinceScoped(draft.role);
+        if (scoped && !draft.province) {
+            showToast('warning', 'Choose the province this regional manager covers');
+            return;
+        }
+
+        setSavingRoleId(admin._id);
+        try {
+            const response = await superAdminApi.updateSuperAdminRole(admin._id, {
+                role: draft.role,
+                province: scoped ? draft.province : null
+            });
+            showToast('success', response.data.message || 'Role updated');
+            setRoleDrafts((drafts) => {
+                const remaining = { ...drafts };
+                delete remaining[admin._id];
+                return remaining;
+            });
+            fetchSuperAdmins();
+        } catch (err) {
+            console.error('Error updating super admin role:', err);
+            showToast('error', getErrorMessage(err));
+        } finally {
+            setSavingRoleId(null);
+        }
+    };
+
+    // Role picker on each super admin card; province only for province-scoped roles
+    const renderRoleEditor = (admin: SuperAdmin) => {
+        const draft = getRoleDraft(admin);
+        const scoped = isProvinceScoped(draft.role);
+        const changed = draft.role !== (admin.role || 'super_admin') ||
+            (scoped && draft.province !== (admin.province || ''));
+        return (
+            <div className="p-1.5 sm:p-2 lg:p-3 bg-purple-50/80 backdrop-blur-sm border border-purple-200/50 rounded-lg sm:rounded-xl">
+                <p className="text-sm text-gray-500 font-medium mb-1">Role</p>
+                <div className="flex flex-col sm:flex-row gap-2">
+                    <select
+                        value={draft.role}
+                        onChange={(e) => updateRoleDraft(admin, { role: e.target.value as SuperAdminRole })}
+                        className="flex-1 px-2 py-1.5 border border-purple-200 rounded-lg bg-white text-sm sm:text-base font-semibold text-gray-700 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    >
+                        {roles.map((definition) => (
+                            <option key={definition.role} value={definition.role}>
+                                {definition.label}
+                            </option>
+                        ))}
+                    </select>
+                    {scoped && (
+                        <select
+                            value={draft.province}
+                            onChange={(e) => updateRoleDraft(admin, { province: e.target.value })}
+                            className="flex-1 px-2 py-1.5 border border-purple-200 rounded-lg bg-white text-sm sm:text-base text-gray-700 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                        >
+                            <option value="">Select province</option>
+                            {PROVINCES.map((province) => (
+                                <option key={province} value={province}>{province}</option>
+                            ))}
+                        </select>
+                    )}
+                    {changed && (
+                        <button
+                            onClick={() => handleSaveRole(admin)}
+                            disabled={savingRoleId === admin._id}
+                            className="flex items-center justify-center px-3 py-1.5 bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 text-white text-sm font-bold rounded-lg disabled:opacity-50 transition-all duration-300"
+                        >
+                            <Save className="w-4 h-4 mr-1" />
+                            {savingRoleId === admin._id ? 'Saving...' : 'Save'}
+                        </button>
+                    )}
+                </div>
+            </div>
+        );
+    };
+
     const getPasswordStrength = (pwd: string) => {
         if (!pwd) return { strength: 0, label: '', color: '' };
 
@@ -505,7 +609,7 @@ const SuperAdminManagement: React.FC = () => {
                                                         </div>
 
                                                         {/* Created Date */}
-                                                        <div className="flex items-center gap-1.5 sm:gap-2 lg:gap-3 p-1.5 sm:p-2 lg:p-3 bg-blue-50/80 backdrop-blur-sm border border-blue-200/50 rounded-lg sm:rounded-xl">
+                                                        <div className="flex items-center gap-1.5 sm:gap-2 lg:gap-3 p-1.5 sm:p-2 lg:p-3 bg-blue-50/80 backdrop-blur-sm border border-blue-200/50 rounded-lg sm:rounded-xl mb-2 sm:mb-3 lg:mb-4">
                                                             <div className="w-5 h-5 sm:w-6 sm:h-6 lg:w-7 lg:h-7 xl:w-8 xl:h-8 bg-gradient-to-br from-blue-500 to-cyan-500 rounded-lg sm:rounded-xl lg:rounded-2xl flex items-center justify-center shadow-lg">
                                                                 <FaCalendarAlt className="w-2 h-2 sm:w-3 sm:h-3 lg:w-4 lg:h-4 text-white" />
                                                             </div>
@@ -520,6 +624,9 @@ const SuperAdminManagement: React.FC = () => {
                                                                 </p>
                                                             </div>
                                                         </div>
+
+                                                        {/* Role */}
+                                                        {roles.length > 0 && renderRoleEditor(admin)}
                                                     </div>
 
                                                     {/* Delete Button */}
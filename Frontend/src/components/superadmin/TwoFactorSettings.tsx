@@ -0,0 +1,236 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Smartphone, Key, Copy, ShieldOff, CheckCircle, AlertTriangle } from 'react-feather';
+import { authApi } from '../../lib/api';
+import { getErrorMessage } from '../../lib/types';
+
+interface TwoFactorStatus {
+    enabled: boolean;
+    enabled_at: string | null;
+    recovery_codes_remaining: number;
+}
+
+interface TwoFactorSetup {
+    secret: string;
+    qr_code: string;
+}
+
+interface TwoFactorSettingsProps {
+    onSuccess: (message: string) => void;
+    onError: (message: string) => void;
+}
+
+// Enrol in TOTP two-factor authentication and manage recovery codes
+const TwoFactorSettings: React.FC<TwoFactorSettingsProps> = ({ onSuccess, onError }) => {
+    const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+    const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+    const [code, setCode] = useState('');
+    // Plaintext recovery codes, only available straight after they are generated
+    const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+    const [loading, setLoading] = useState(false);
+
+    const fetchStatus = useCallback(async () => {
+        try {
+            const response = await authApi.getTwoFactorStatus();
+            setStatus(response.data);
+        } catch (err) {
+            onError(getErrorMessage(err));
+        }
+    }, [onError]);
+
+    useEffect(() => {
+        fetchStatus();
+    }, [fetchStatus]);
+
+    const run = async (action: () => Promise<void>) => {
+        setLoading(true);
+        try {
+            await action();
+        } catch (err) {
+            onError(getErrorMessage(err));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleStartSetup = () => run(async () => {
+        const response = await authApi.setupTwoFactor();
+        setSetup(response.data);
+        setCode('');
+    });
+
+    const handleEnable = (e: React.FormEvent) => {
+        e.preventDefault();
+        return run(async () => {
+            const response = await authApi.enableTwoFactor(code);
+            setStatus(response.data);
+            setRecoveryCodes(response.data.recovery_codes);
+            setSetup(null);
+            setCode('');
+            onSuccess('Two-factor authentication enabled');
+        });
+    };
+
+    const handleRegenerate = () => {
+        if (!window.confirm('Generate new recovery codes? Your current codes will stop working.')) return;
+        return run(async () => {
+            const response = await authApi.regenerateRecoveryCodes();
+            setStatus(response.data);
+            setRecoveryCodes(response.data.recovery_codes);
+            onSuccess('New recovery codes generated');
+        });
+    };
+
+    const handleDisable = () => {
+        if (!window.confirm('Turn off two-factor authentication? Signing in will only need your password.')) return;
+        return run(async () => {
+            const response = await authApi.disableTwoFactor();
+            setStatus(response.data);
+            setRecoveryCodes(null);
+            onSuccess('Two-factor authentication disabled');
+        });
+    };
+
+    const copyRecoveryCodes = async () => {
+        if (!recoveryCodes) return;
+        try {
+            await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+            onSuccess('Recovery codes copied to clipboard');
+        } catch {
+            onError('Could not copy to clipboard');
+        }
+    };
+
+    return (
+        <div className="bg-white/80 backdrop-blur-xl rounded-3xl p-6 sm:p-8 border border-gray-200/60 shadow-2xl">
+            <div className="flex items-start justify-between gap-4 mb-6">
+                <div>
+                    <h4 className="text-lg font-bold text-gray-800 flex items-center">
+                        <Smartphone className="w-5 h-5 text-blue-600 mr-2" />
+                        Two-Factor Authentication
+                    </h4>
+                    <p className="text-sm text-gray-600 mt-1">
+                        Require a code from an authenticator app when you sign in and before destructive actions.
+                    </p>
+                </div>
+                {status && (
+                    <span className={`flex-shrink-0 text-xs font-bold px-3 py-1 rounded-full ${status.enabled ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'}`}>
+                        {status.enabled ? 'Enabled' : 'Off'}
+                    </span>
+                )}
+            </div>
+
+            {recoveryCodes && (
+                <div className="mb-6 bg-amber-50 border-2 border-amber-200 rounded-2xl p-4 sm:p-5">
+                    <p className="text-sm font-semibold text-amber-800 flex items-center mb-3">
+                        <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0" />
+                        Save these recovery codes now. Each works once, and they won't be shown again.
+                    </p>
+                    <div className="grid grid-cols-2 gap-2 font-mono text-sm sm:text-base text-gray-800 bg-white rounded-xl p-4 border border-amber-200">
+                        {recoveryCodes.map((recoveryCode) => (
+                            <span key={recoveryCode}>{recoveryCode}</span>
+                        ))}
+                    </div>
+                    <div className="flex flex-wrap gap-3 mt-3">
+                        <button
+                            onClick={copyRecoveryCodes}
+                            className="flex items-center text-sm font-medium text-amber-800 bg-amber-100 hover:bg-amber-200 px-3 py-2 rounded-lg transition-colors"
+                        >
+                            <Copy className="w-4 h-4 mr-2" />
+                            Copy codes
+                        </button>
+                        <button
+                            onClick={() => setRecoveryCodes(null)}
+                            className="flex items-center text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 px-3 py-2 rounded-lg transition-colors"
+                        >
+                            <CheckCircle className="w-4 h-4 mr-2" />
+                            I've saved them
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {status && !status.enabled && !setup && (
+                <button
+                    onClick={handleStartSetup}
+                    disabled={loading}
+                    className="flex items-center bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white font-medium px-5 py-2.5 rounded-xl shadow-lg transition-all disabled:opacity-50"
+                >
+                    <Smartphone className="w-4 h-4 mr-2" />
+                    {loading ? 'Preparing...' : 'Set up authenticator app'}
+                </button>
+            )}
+
+            {setup && (
+                <form onSubmit={handleEnable} className="space-y-4">
+                    <ol className="text-sm text-gray-700 space-y-1 list-decimal list-inside">
+                        <li>Scan this QR code with Google Authenticator, Authy or a similar app.</li>
+                        <li>Enter the 6-digit code the app shows to finish.</li>
+                    </ol>
+                    <div className="flex flex-col sm:flex-row items-center gap-6">
+                        <img src={setup.qr_code} alt="Two-factor QR code" className="w-44 h-44 rounded-xl border border-gray-200 bg-white p-2" />
+                        <div className="flex-1 w-full">
+                            <p className="text-xs text-gray-500 mb-1">Can't scan it? Enter this key instead:</p>
+                            <p className="font-mono text-sm break-all bg-gray-50 border border-gray-200 rounded-lg p-3 mb-4">{setup.secret}</p>
+                            <input
+                                value={code}
+                                onChange={(e) => setCode(e.target.value)}
+                                inputMode="numeric"
+                                autoComplete="one-time-code"
+                                maxLength={6}
+                                placeholder="123456"
+                                className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500/50 focus:border-blue-400 text-center text-xl tracking-[0.3em] font-mono"
+                            />
+                        </div>
+                    </div>
+                    <div className="flex justify-end gap-3">
+                        <button
+                            type="button"
+                            onClick={() => setSetup(null)}
+                            className="px-4 py-2 rounded-xl text-gray-700 bg-gray-100 hover:bg-gray-200 font-medium transition-colors"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={loading || code.trim().length !== 6}
+                            className="px-4 py-2 rounded-xl text-white bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 disabled:opacity-50 font-medium transition-all"
+                        >
+                            {loading ? 'Verifying...' : 'Verify and enable'}
+                        </button>
+                    </div>
+                </form>
+            )}
+
+            {status?.enabled && (
+                <div className="space-y-4">
+                    <p className="text-sm text-gray-600">
+                        Enabled{status.enabled_at && ` on ${new Date(status.enabled_at).toLocaleDateString()}`} ·{' '}
+                        <span className={status.recovery_codes_remaining <= 2 ? 'text-red-600 font-semibold' : ''}>
+                            {status.recovery_codes_remaining} recovery {status.recovery_codes_remaining === 1 ? 'code' : 'codes'} left
+                        </span>
+                    </p>
+                    <div className="flex flex-wrap gap-3">
+                        <button
+                            onClick={handleRegenerate}
+                            disabled={loading}
+                            className="flex items-center text-sm font-medium text-blue-700 border border-blue-200 hover:bg-blue-50 px-4 py-2 rounded-xl transition-colors disabled:opacity-50"
+                        >
+                            <Key className="w-4 h-4 mr-2" />
+                            New recovery codes
+                        </button>
+                        <button
+                            onClick={handleDisable}
+                            disabled={loading}
+                            className="flex items-center text-sm font-medium text-red-600 border border-red-200 hover:bg-red-50 px-4 py-2 rounded-xl transition-colors disabled:opacity-50"
+                        >
+                            <ShieldOff className="w-4 h-4 mr-2" />
+                            Turn off
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TwoFactorSettings;
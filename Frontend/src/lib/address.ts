@@ -0,0 +1,38 @@
+// Structured address helpers shared by the mosque edit forms
+import type { MosqueAddress } from "./types";
+
+// Provinces and territories accepted by the API
+export const PROVINCES = [
+  "Punjab",
+  "Sindh",
+  "Khyber Pakhtunkhwa",
+  "Balochistan",
+  "Islamabad Capital Territory",
+  "Gilgit-Baltistan",
+  "Azad Jammu and Kashmir",
+];
+
+export const EMPTY_ADDRESS: MosqueAddress = {
+  street: "",
+  area: "",
+  city: "",
+  district: "",
+  province: "",
+  postal_code: "",
+};
+
+// Form state for an address from the API, which may be missing
+export const toAddressForm = (address?: MosqueAddress | null): MosqueAddress => ({
+  ...EMPTY_ADDRESS,
+  ...address,
+});
+
+// Trimmed address for the API; null clears a stored address
+export const toAddressPayload = (address: MosqueAddress): MosqueAddress | null => {
+  const trimmed = toAddressForm(
+    Object.fromEntries(
+      Object.entries(address).map(([field, value]) => [field, value.trim()])
+    ) as MosqueAddress
+  );
+  return Object.values(trimmed).some(Boolean) ? trimmed : null;
+};
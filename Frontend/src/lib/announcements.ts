@@ -0,0 +1,19 @@
+// Categories of the mosque announcements board, shared by the admin tab and the public page
+import type { AnnouncementCategory } from "./types";
+
+export const ANNOUNCEMENT_CATEGORIES: Array<{
+  value: AnnouncementCategory;
+  label: string;
+  badge: string;
+}> = [
+  { value: "general", label: "Announcement", badge: "bg-gray-100 text-gray-800" },
+  { value: "lecture", label: "Lecture", badge: "bg-blue-100 text-blue-800" },
+  { value: "class", label: "Class", badge: "bg-teal-100 text-teal-800" },
+  { value: "janaza", label: "Janaza", badge: "bg-slate-200 text-slate-800" },
+  { value: "eid", label: "Eid", badge: "bg-green-100 text-green-800" },
+  { value: "fundraiser", label: "Fundraiser", badge: "bg-amber-100 text-amber-800" },
+];
+
+export const getCategoryBadge = (category: AnnouncementCategory): string =>
+  ANNOUNCEMENT_CATEGORIES.find((c) => c.value === category)?.badge ||
+  "bg-gray-100 text-gray-800";
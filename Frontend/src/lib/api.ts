@@ -1,5 +1,39 @@
 import axios from "axios";
-import type { PrayerTimes, MosqueData } from "./types";
+import type {
+  PrayerTimes,
+  MosqueData,
+  PrayerCalculationSettings,
+  PrayerScheduleInput,
+  MosqueAddress,
+  MosqueFacilities,
+  SuperAdminRole,
+  SuperAdminAccess,
+  MosqueRole,
+  MosqueTeam,
+  InvitationDetails,
+  InvitationPurpose,
+  InvitationStatus,
+  AdminInvitation,
+  ApplicationDocument,
+  ApplicationInfo,
+  DocumentReviewStatus,
+  InfoRequest,
+  NotificationLocale,
+  EmailDelivery,
+  EmailDeliveryDetails,
+  EmailDeliveryStatus,
+  PushConfig,
+  PrayerReminderSettings,
+  Congregant,
+  CongregantSignIn,
+  MosqueFollowers,
+  Announcement,
+  AnnouncementInput,
+  AnnouncementsPage,
+} from "./types";
+import type { TimetableImportRow } from "./timetableImport";
+import { buildDocumentFormData } from "./applicationDocuments";
+import type { SelectedDocument } from "./applicationDocuments";
 
 // Create axios instance with base configuration
 const baseURL =
@@ -7,6 +41,10 @@ const baseURL =
 
 console.log("🔗 Using API Base URL:", baseURL); // helpful for debugging
 
+// Photos stored on the API server come back as "/api/uploads/..." paths
+export const resolveMediaUrl = (url: string) =>
+  url.startsWith("/") ? new URL(baseURL).origin + url : url;
+
 // ✅ Create Axios instance
 const api = axios.create({
   baseURL,
@@ -31,16 +69,91 @@ api.interceptors.request.use(
   }
 );
 
+// Clear everything the app keeps for a signed-in user
+export const clearStoredSession = () => {
+  localStorage.removeItem("token");
+  localStorage.removeItem("refresh_token");
+  localStorage.removeItem("user");
+};
+
+// Requests whose 401 means bad input rather than an expired access token
+const SESSION_EXEMPT_URLS = [
+  "/admin/login",
+  "/admin/register",
+  "/superadmin/login",
+  "/superadmin/register",
+  "/refresh",
+  "/logout",
+  "/congregant/request-code",
+  "/congregant/verify-code",
+];
+
+// Codes that can't be fixed by refreshing the access token
+const NON_REFRESHABLE_CODES = ["USER_DELETED", "SESSION_REVOKED"];
+
+// Every tab shares one refresh token, and the server revokes the session when a rotated token
+// comes back. A lock held across tabs lets only one of them rotate it at a time.
+const withRefreshLock = <T>(task: () => Promise<T>): Promise<T> =>
+  "locks" in navigator
+    ? navigator.locks.request("refresh-token", task)
+    : task();
+
+// Single-flight refresh: requests that fail together wait for the same new token
+let refreshPromise: Promise<string> | null = null;
+
+const refreshAccessToken = () => {
+  if (!refreshPromise) {
+    const seenRefreshToken = localStorage.getItem("refresh_token");
+    refreshPromise = withRefreshLock(async () => {
+      // Another tab rotated the token while this one waited: use what it stored
+      const storedRefreshToken = localStorage.getItem("refresh_token");
+      const storedToken = localStorage.getItem("token");
+      if (storedRefreshToken !== seenRefreshToken && storedToken) {
+        return storedToken;
+      }
+
+      const response = await axios.post(
+        `${baseURL}/refresh`,
+        { refresh_token: storedRefreshToken },
+        { withCredentials: true, timeout: 30000 }
+      );
+      localStorage.setItem("token", response.data.token);
+      if (response.data.refresh_token) {
+        localStorage.setItem("refresh_token", response.data.refresh_token);
+      }
+      return response.data.token as string;
+    }).finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+export type StepUpMethod = "totp" | "password";
+
+// Registered by the super admin dashboard: asks the user to re-authenticate and
+// resolves once they have, rejects if they cancel
+let stepUpHandler: ((method: StepUpMethod) => Promise<void>) | null = null;
+
+export const setStepUpHandler = (
+  handler: ((method: StepUpMethod) => Promise<void>) | null
+) => {
+  stepUpHandler = handler;
+};
+
 // Response interceptor - handle common errors
 api.interceptors.response.use(
   (response) => {
-    // Save token if provided in response
+    // Save tokens if provided in response
     if (response.data.token) {
       localStorage.setItem("token", response.data.token);
     }
+    if (response.data.refresh_token) {
+      localStorage.setItem("refresh_token", response.data.refresh_token);
+    }
     return response;
   },
-  (error) => {
+  async (error) => {
     // Handle timeout errors specifically
     if (error.code === "ECONNABORTED" || error.message?.includes("timeout")) {
       console.warn(
@@ -66,7 +179,8 @@ api.interceptors.response.use(
       const errorMessage =
         error.response?.data?.error || error.response?.data?.message || "";
       const errorCode = error.response?.data?.code;
-      const requestUrl = error.config?.url || "";
+      const originalRequest = error.config;
+      const requestUrl = originalRequest?.url || "";
 
       // Don't redirect for login/register form errors - let the component handle it
       if (
@@ -75,15 +189,32 @@ api.interceptors.response.use(
         errorMessage.includes("Invalid credentials") ||
         errorMessage.includes("Invalid email or password") ||
         errorMessage.includes("Admin not found") ||
-        requestUrl.includes("/admin/login") ||
-        requestUrl.includes("/admin/register") ||
-        requestUrl.includes("/superadmin/login") ||
-        requestUrl.includes("/superadmin/register") ||
-        requestUrl.includes("/admin/me")
+        SESSION_EXEMPT_URLS.some((url) => requestUrl.includes(url))
       ) {
         // Just clean up tokens but stay on current page
-        localStorage.removeItem("token");
-        localStorage.removeItem("user");
+        clearStoredSession();
+        return Promise.reject(error);
+      }
+
+      // Access token expired - get a new one and replay the request once
+      if (
+        originalRequest &&
+        !originalRequest._retry &&
+        !NON_REFRESHABLE_CODES.includes(errorCode)
+      ) {
+        originalRequest._retry = true;
+        try {
+          const token = await refreshAccessToken();
+          originalRequest.headers.Authorization = `Bearer ${token}`;
+          return api(originalRequest);
+        } catch {
+          // Refresh token is gone too - fall through and sign out
+        }
+      }
+
+      // The admin dashboard checks its own session and shows the login page
+      if (requestUrl.includes("/admin/me")) {
+        clearStoredSession();
         return Promise.reject(error);
       }
 
@@ -92,8 +223,7 @@ api.interceptors.response.use(
         errorCode === "USER_DELETED" ||
         errorMessage.includes("no longer exists")
       ) {
-        localStorage.removeItem("token");
-        localStorage.removeItem("user");
+        clearStoredSession();
         // Show alert and redirect
         alert("Your account has been deleted. You have been logged out.");
         window.location.href = "/";
@@ -101,10 +231,26 @@ api.interceptors.response.use(
       }
 
       // For other 401 errors, redirect to home
-      localStorage.removeItem("token");
-      localStorage.removeItem("user");
+      clearStoredSession();
       window.location.href = "/";
     }
+
+    // Destructive action needs a fresh re-authentication - prompt, then replay once
+    if (
+      error.response?.status === 403 &&
+      error.response?.data?.code === "STEP_UP_REQUIRED" &&
+      stepUpHandler &&
+      error.config &&
+      !error.config._stepUp
+    ) {
+      error.config._stepUp = true;
+      try {
+        await stepUpHandler(error.response.data.method);
+      } catch {
+        return Promise.reject(error);
+      }
+      return api(error.config);
+    }
     return Promise.reject(error);
   }
 );
@@ -112,39 +258,233 @@ api.interceptors.response.use(
 // API functions
 export const mosqueApi = {
   // Get all mosques with search and pagination
-  getMosques: (params?: { search?: string; page?: number; limit?: number }) =>
-    api.get("/mosques", { params }),
-
-  // Get specific mosque details
+  // near is "lat,lng" and radius is in kilometres
+  // city and province filter by address; the response carries facet counts for both
+  // facilities is a comma-separated list of amenities every result must offer
+  getMosques: (params?: {
+    search?: string;
+    page?: number;
+    limit?: number;
+    near?: string;
+    radius?: number;
+    city?: string;
+    province?: string;
+    facilities?: string;
+  }) => api.get("/mosques", { params }),
+
+  // Get specific mosque details (public fields only)
   getMosque: (id: string) => api.get(`/mosques/${id}`),
 
-  // Get mosque prayer times
-  getPrayerTimes: (id: string) => api.get(`/mosques/${id}/prayer-times`),
+  // Get mosque details including the verification code (admin only)
+  getManagedMosque: (id: string) => api.get(`/mosques/${id}/manage`),
+
+  // Get mosque prayer times (optionally for a specific YYYY-MM-DD date)
+  getPrayerTimes: (id: string, date?: string) =>
+    api.get(`/mosques/${id}/prayer-times`, {
+      params: date ? { date } : undefined,
+    }),
 
   // Update prayer times (admin only)
   updatePrayerTimes: (id: string, prayerTimes: PrayerTimes) =>
     api.put(`/mosques/${id}/prayer-times`, prayerTimes),
 
+  // Get resolved timetable for a date range (YYYY-MM-DD)
+  getTimetable: (id: string, params?: { from?: string; to?: string }) =>
+    api.get(`/mosques/${id}/timetable`, { params }),
+
+  // Subscription URL of the iCalendar feed (webcal:// opens the calendar app)
+  getCalendarFeedUrl: (id: string) =>
+    `${baseURL}/mosques/${id}/calendar.ics`.replace(/^https?:\/\//, "webcal://"),
+
+  // Printable A4 timetable for a month (YYYY-MM), defaults to the current month
+  downloadTimetablePdf: (id: string, month?: string) =>
+    api.get(`/mosques/${id}/timetable/pdf`, {
+      params: month ? { month } : undefined,
+      responseType: "blob",
+    }),
+
+  // Timetable schedules and single-date overrides (admin only)
+  getSchedules: (id: string) => api.get(`/mosques/${id}/schedules`),
+
+  createSchedule: (id: string, schedule: PrayerScheduleInput) =>
+    api.post(`/mosques/${id}/schedules`, schedule),
+
+  updateSchedule: (
+    id: string,
+    scheduleId: string,
+    schedule: Partial<PrayerScheduleInput>
+  ) => api.put(`/mosques/${id}/schedules/${scheduleId}`, schedule),
+
+  deleteSchedule: (id: string, scheduleId: string) =>
+    api.delete(`/mosques/${id}/schedules/${scheduleId}`),
+
+  // Monthly timetable import (admin only)
+  previewTimetableImport: (id: string, rows: TimetableImportRow[]) =>
+    api.post(`/mosques/${id}/timetable/import/preview`, { rows }),
+
+  commitTimetableImport: (id: string, rows: TimetableImportRow[]) =>
+    api.post(`/mosques/${id}/timetable/import/commit`, { rows }),
+
+  // Remove imported days: one import by its id, or every imported day in a date range
+  removeImportedTimetableDays: (
+    id: string,
+    params: { import_id: string } | { from: string; to: string }
+  ) => api.delete(`/mosques/${id}/timetable/days`, { params }),
+
+  // Update prayer time calculation settings (admin only)
+  updatePrayerCalculation: (
+    id: string,
+    settings: Partial<PrayerCalculationSettings>
+  ) => api.put(`/mosques/${id}/prayer-calculation`, settings),
+
+  // Update mosque facilities; amenities left out keep their value (admin only)
+  updateFacilities: (id: string, facilities: Partial<MosqueFacilities>) =>
+    api.put(`/mosques/${id}/facilities`, facilities),
+
+  // Approved gallery photos
+  getPhotos: (id: string) => api.get(`/mosques/${id}/photos`),
+
+  // Every gallery photo with its moderation status (admin only)
+  getManagedPhotos: (id: string) => api.get(`/mosques/${id}/photos/manage`),
+
+  // Upload a gallery photo; it stays hidden until a super admin approves it (admin only)
+  uploadPhoto: (id: string, file: File, caption?: string) => {
+    const formData = new FormData();
+    formData.append("photo", file);
+    if (caption) formData.append("caption", caption);
+    return api.post(`/mosques/${id}/photos`, formData, {
+      headers: { "Content-Type": "multipart/form-data" },
+      timeout: 120000,
+    });
+  },
+
+  deletePhoto: (id: string, photoId: string) =>
+    api.delete(`/mosques/${id}/photos/${photoId}`),
+
+  // Announcements and events board, pinned first; expired ones are left out
+  getAnnouncements: (id: string, params?: { page?: number; limit?: number }) =>
+    api.get<AnnouncementsPage>(`/mosques/${id}/announcements`, { params }),
+
+  // Atom feed of the board for feed readers
+  getAnnouncementsFeedUrl: (id: string) =>
+    `${baseURL}/mosques/${id}/announcements.atom`,
+
+  // Every announcement including expired ones (admin only)
+  getManagedAnnouncements: (id: string) =>
+    api.get<{ announcements: Announcement[] }>(`/mosques/${id}/announcements/manage`),
+
+  createAnnouncement: (id: string, announcement: AnnouncementInput) =>
+    api.post(`/mosques/${id}/announcements`, announcement),
+
+  updateAnnouncement: (
+    id: string,
+    announcementId: string,
+    announcement: Partial<AnnouncementInput>
+  ) => api.put(`/mosques/${id}/announcements/${announcementId}`, announcement),
+
+  deleteAnnouncement: (id: string, announcementId: string) =>
+    api.delete(`/mosques/${id}/announcements/${announcementId}`),
+
   // Update mosque details (admin only)
   updateMosque: (id: string, mosqueData: MosqueData) =>
     api.put(`/mosques/${id}`, mosqueData),
 
+  // Admin team, with the signed-in admin's own role (admin only)
+  getTeam: (id: string) => api.get<MosqueTeam>(`/mosques/${id}/members`),
+
+  // Congregants following the mosque (admin only)
+  getFollowers: (id: string) =>
+    api.get<MosqueFollowers>(`/mosques/${id}/followers`),
+
+  // Email someone a link to join the team (owner only)
+  inviteMember: (id: string, data: { email: string; mosque_role: MosqueRole }) =>
+    api.post(`/mosques/${id}/invitations`, data),
+
+  revokeInvitation: (id: string, invitationId: string) =>
+    api.delete(`/mosques/${id}/invitations/${invitationId}`),
+
+  updateMemberRole: (id: string, adminId: string, mosque_role: MosqueRole) =>
+    api.put(`/mosques/${id}/members/${adminId}`, { mosque_role }),
+
+  removeMember: (id: string, adminId: string, reason?: string) =>
+    api.delete(`/mosques/${id}/members/${adminId}`, { data: { reason } }),
+
   // Get mosque verification info
   getMosqueVerificationInfo: (id: string) =>
     api.get(`/mosque/${id}/verification-info`),
 };
 
+// Send documents as multipart with the other fields, plain JSON otherwise
+const withDocuments = (
+  data: Record<string, string | undefined>,
+  documents: SelectedDocument[] = []
+) =>
+  documents.length > 0
+    ? [
+        buildDocumentFormData(data, documents),
+        {
+          headers: { "Content-Type": "multipart/form-data" },
+          timeout: 120000,
+        },
+      ] as const
+    : [data] as const;
+
+// Web Push prayer reminders; a browser is identified by its push subscription endpoint
+export const pushApi = {
+  getConfig: () => api.get<PushConfig>("/push/config"),
+
+  // Replaces the mosques this browser gets reminders for
+  saveSubscription: (
+    subscription: PushSubscriptionJSON,
+    mosqueIds: string[],
+    settings: PrayerReminderSettings
+  ) =>
+    api.put<PrayerReminderSettings & { message: string; mosque_ids: string[] }>(
+      "/push/subscription",
+      { subscription, mosque_ids: mosqueIds, ...settings }
+    ),
+
+  deleteSubscription: (endpoint: string) =>
+    api.delete<{ message: string }>("/push/subscription", { data: { endpoint } }),
+};
+
+// Congregant accounts: email-code sign-in and favorites kept across devices
+export const congregantApi = {
+  requestCode: (email: string, name?: string) =>
+    api.post<{ message: string; email_delayed: boolean; email: string; expiresIn: number }>(
+      "/congregant/request-code",
+      { email, name }
+    ),
+
+  // favorites: the browser's list from before signing in, merged into the account
+  verifyCode: (email: string, code: string, favorites: string[]) =>
+    api.post<CongregantSignIn>("/congregant/verify-code", { email, code, favorites }),
+
+  getMe: () =>
+    api.get<{ congregant: Congregant; favorites: string[] }>("/congregant/me"),
+
+  addFavorite: (mosqueId: string) =>
+    api.put<{ message: string; favorites: string[] }>(`/congregant/favorites/${mosqueId}`),
+
+  removeFavorite: (mosqueId: string) =>
+    api.delete<{ message: string; favorites: string[] }>(`/congregant/favorites/${mosqueId}`),
+};
+
 export const authApi = {
-  // Admin registration
-  registerAdmin: (data: {
-    name: string;
-    email: string;
-    password: string;
-    phone: string;
-    mosque_id: string;
-    verification_code: string;
-    application_notes?: string;
-  }) => api.post("/admin/register", data),
+  // Admin registration, optionally with ownership documents
+  registerAdmin: (
+    data: {
+      name: string;
+      email: string;
+      password: string;
+      phone: string;
+      mosque_id: string;
+      verification_code: string;
+      application_notes?: string;
+      preferred_language?: NotificationLocale;
+    },
+    documents?: SelectedDocument[]
+  ) => api.post("/admin/register", ...withDocuments(data, documents)),
 
   // Admin login
   loginAdmin: (data: { email: string; password: string }) =>
@@ -153,6 +493,40 @@ export const authApi = {
   // Get admin profile and status
   getAdminProfile: () => api.get("/admin/me"),
 
+  // Mosque team invitation behind an accept link
+  getInvitation: (token: string) =>
+    api.get<{ invitation: InvitationDetails }>(`/admin/invitations/${token}`),
+
+  // New accounts send name, phone and password; existing accounts only their password
+  acceptInvitation: (
+    token: string,
+    data: { name?: string; phone?: string; password: string }
+  ) => api.post(`/admin/invitations/${token}/accept`, data),
+
+  // Application through a super admin's invitation; replaces the verification code and email check
+  applyWithInvitation: (
+    token: string,
+    data: {
+      name: string;
+      phone: string;
+      password: string;
+      application_notes?: string;
+      preferred_language?: NotificationLocale;
+    },
+    documents?: SelectedDocument[]
+  ) => api.post(`/admin/invitations/${token}/apply`, ...withDocuments(data, documents)),
+
+  // Answer a reviewer's request for more information on a pending application
+  respondToInfoRequest: (response: string, documents?: SelectedDocument[]) =>
+    api.post<{ message: string; application_info: ApplicationInfo }>(
+      "/admin/application/respond",
+      ...withDocuments({ response }, documents)
+    ),
+
+  // Language of the emails sent about the admin's application and account
+  updateAdminPreferences: (data: { preferred_language: NotificationLocale }) =>
+    api.put<{ message: string; preferred_language: NotificationLocale }>("/admin/preferences", data),
+
   // Request reapplication (for rejected admins)
   requestReapplication: (data: {
     mosque_verification_code: string;
@@ -167,13 +541,35 @@ export const authApi = {
   }) => api.post("/superadmin/register", data),
 
   // Create super admin (internal - requires existing super admin auth)
-  createSuperAdmin: (data: { name: string; email: string; password: string }) =>
-    api.post("/superadmin/create-superadmin", data),
+  createSuperAdmin: (data: {
+    name: string;
+    email: string;
+    password: string;
+    role?: SuperAdminRole;
+    province?: string | null;
+  }) => api.post("/superadmin/create-superadmin", data),
 
   // Super admin login
   loginSuperAdmin: (data: { email: string; password: string }) =>
     api.post("/superadmin/login", data),
 
+  // Second login step for super admins with two-factor authentication
+  // code is an authenticator code or a recovery code
+  verifySuperAdminTwoFactor: (data: { challenge_token: string; code: string }) =>
+    api.post("/superadmin/login/2fa", data),
+
+  // Re-authenticate before destructive actions: code with 2FA, password without
+  stepUp: (data: { code?: string; password?: string }) =>
+    api.post("/superadmin/step-up", data),
+
+  // Two-factor authentication settings
+  getTwoFactorStatus: () => api.get("/superadmin/2fa"),
+  setupTwoFactor: () => api.post("/superadmin/2fa/setup"),
+  enableTwoFactor: (code: string) =>
+    api.post("/superadmin/2fa/enable", { code }),
+  regenerateRecoveryCodes: () => api.post("/superadmin/2fa/recovery-codes"),
+  disableTwoFactor: () => api.post("/superadmin/2fa/disable"),
+
   // Password Reset APIs
   forgotPassword: (data: { email: string; userType: "admin" | "superadmin" }) =>
     api.post("/forgot-password", data),
@@ -198,7 +594,19 @@ export const authApi = {
   }) => api.post("/verify-registration-code", data),
 
   // Logout
-  logout: () => api.post("/logout"),
+  logout: () =>
+    api.post("/logout", {
+      refresh_token: localStorage.getItem("refresh_token"),
+    }),
+
+  // Sign out of every device; the current session is revoked too
+  logoutAll: () => api.post("/logout-all"),
+
+  // Active sessions of the signed-in user
+  getSessions: () => api.get("/sessions"),
+
+  // Revoke one session; the response says whether it was the caller's own
+  revokeSession: (id: string) => api.delete(`/sessions/${id}`),
 };
 
 export const superAdminApi = {
@@ -223,6 +631,29 @@ export const superAdminApi = {
       data: { pending_admins: [] },
     })),
 
+  // Application document contents, fetched with the reviewer's token for the inline viewer
+  getApplicationDocument: (adminId: string, documentId: string) =>
+    api.get<Blob>(`/superadmin/${adminId}/documents/${documentId}`, {
+      responseType: "blob",
+    }),
+
+  reviewApplicationDocument: (
+    adminId: string,
+    documentId: string,
+    data: { review_status: DocumentReviewStatus; note?: string }
+  ) =>
+    api.put<{ message: string; document: ApplicationDocument }>(
+      `/superadmin/${adminId}/documents/${documentId}/review`,
+      data
+    ),
+
+  // Put a pending application on hold until the applicant answers
+  requestApplicantInfo: (adminId: string, message: string) =>
+    api.post<{ message: string; info_request: InfoRequest }>(
+      `/superadmin/${adminId}/request-info`,
+      { message }
+    ),
+
   // Approved requests
   getApprovedRequests: () =>
     api.get("/superadmin/approved").catch(() => ({
@@ -309,6 +740,7 @@ export const superAdminApi = {
       contact_phone?: string;
       contact_email?: string;
       admin_instructions?: string;
+      address?: Partial<MosqueAddress> | null;
       prayer_times?: {
         fajr?: string;
         dhuhr?: string;
@@ -345,6 +777,8 @@ export const superAdminApi = {
     admin_phone?: string;
     admin_password: string;
     registration_code?: string;
+    latitude?: number;
+    longitude?: number;
   }) => api.post("/superadmin/mosque-registration", data),
 
   // Simple mosque registration (mosque only)
@@ -355,6 +789,8 @@ export const superAdminApi = {
     contact_phone?: string;
     contact_email?: string;
     admin_instructions?: string;
+    latitude?: number;
+    longitude?: number;
   }) => api.post("/mosques", data),
 
   // Assign admin to existing mosque
@@ -369,6 +805,51 @@ export const superAdminApi = {
     }
   ) => api.post(`/superadmin/mosques/${mosqueId}/assign-admin`, data),
 
+  // Invitations
+  getInvitations: (params?: {
+    status?: InvitationStatus;
+    purpose?: InvitationPurpose;
+    search?: string;
+    page?: number;
+    limit?: number;
+  }) =>
+    api.get<{
+      invitations: AdminInvitation[];
+      counts: Record<InvitationStatus, number>;
+      pagination: { page: number; limit: number; total: number; pages: number };
+    }>("/superadmin/invitations", { params }),
+
+  inviteAdminToApply: (mosqueId: string, email: string) =>
+    api.post<{ message: string; email_delayed: boolean; invitation: AdminInvitation }>(
+      `/superadmin/mosques/${mosqueId}/invitations`,
+      { email }
+    ),
+
+  revokeInvitation: (id: string) => api.delete(`/superadmin/invitations/${id}`),
+
+  // Email Deliveries
+  getEmailDeliveries: (params?: {
+    status?: EmailDeliveryStatus;
+    event?: string;
+    search?: string;
+    page?: number;
+    limit?: number;
+  }) =>
+    api.get<{
+      deliveries: EmailDelivery[];
+      counts: Record<EmailDeliveryStatus, number>;
+      events: string[];
+      pagination: { page: number; limit: number; total: number; pages: number };
+    }>("/superadmin/email-deliveries", { params }),
+
+  getEmailDelivery: (id: string) =>
+    api.get<{ delivery: EmailDeliveryDetails }>(`/superadmin/email-deliveries/${id}`),
+
+  resendEmail: (id: string) =>
+    api.post<{ message: string; delivery: EmailDelivery }>(
+      `/superadmin/email-deliveries/${id}/resend`
+    ),
+
   // Audit Logs
   getAuditLogs: (params?: {
     page?: number;
@@ -427,6 +908,15 @@ export const superAdminApi = {
   // Delete super admin
   deleteSuperAdmin: (id: string) => api.delete(`/superadmin/super-admin/${id}`),
 
+  // Signed-in super admin's role and permissions
+  getMyAccess: () => api.get<SuperAdminAccess>("/superadmin/access"),
+
+  // Change another super admin's role; province only applies to regional managers
+  updateSuperAdminRole: (
+    id: string,
+    data: { role: SuperAdminRole; province?: string | null }
+  ) => api.put(`/superadmin/super-admin/${id}/role`, data),
+
   // Health check
   healthCheck: () => api.get("/health"),
 
@@ -446,6 +936,18 @@ export const superAdminApi = {
     expiry_days?: number;
   }) => api.post("/superadmin/mosque/regenerate-multiple-codes", data),
 
+  // Gallery photo moderation queue (status defaults to pending)
+  getPhotoModerationQueue: (params?: {
+    status?: string;
+    page?: number;
+    limit?: number;
+  }) => api.get("/superadmin/photos/moderation", { params }),
+
+  moderatePhoto: (
+    photoId: string,
+    data: { action: "approve" | "hide"; note?: string }
+  ) => api.put(`/superadmin/photos/${photoId}/moderate`, data),
+
   // Log frontend errors
   logFrontendError: (errorData: {
     action: string;
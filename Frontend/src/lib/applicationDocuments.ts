@@ -0,0 +1,58 @@
+// Limits and labels for the documents applicants attach to prove they run a mosque
+import type { ApplicationDocumentKind } from "./types";
+
+export const DOCUMENT_KIND_OPTIONS: { kind: ApplicationDocumentKind; label: string }[] = [
+  { kind: "committee_letter", label: "Mosque committee letter" },
+  { kind: "id_card", label: "National ID card (CNIC)" },
+  { kind: "utility_bill", label: "Mosque utility bill" },
+  { kind: "other", label: "Other document" },
+];
+
+// Must match the API limits
+export const MAX_DOCUMENT_BYTES = 4 * 1024 * 1024;
+export const MAX_DOCUMENTS_PER_UPLOAD = 3;
+
+export const ACCEPTED_DOCUMENT_TYPES = [
+  "application/pdf",
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+];
+
+// A file chosen in the picker, waiting to be sent with the form
+export interface SelectedDocument {
+  file: File;
+  kind: ApplicationDocumentKind;
+}
+
+// Reason a file can't be attached, null when it's fine
+export const validateDocumentFile = (file: File): string | null => {
+  if (!ACCEPTED_DOCUMENT_TYPES.includes(file.type)) {
+    return `${file.name} is not a PDF, JPEG, PNG or WebP file`;
+  }
+  if (file.size > MAX_DOCUMENT_BYTES) {
+    return `${file.name} is larger than ${MAX_DOCUMENT_BYTES / (1024 * 1024)} MB`;
+  }
+  return null;
+};
+
+export const formatFileSize = (bytes: number) =>
+  bytes < 1024 * 1024
+    ? `${Math.max(1, Math.round(bytes / 1024))} KB`
+    : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Multipart body with the form fields and each document next to its kind
+export const buildDocumentFormData = (
+  fields: Record<string, string | undefined>,
+  documents: SelectedDocument[]
+) => {
+  const formData = new FormData();
+  Object.entries(fields).forEach(([key, value]) => {
+    if (value !== undefined) formData.append(key, value);
+  });
+  documents.forEach((document) => {
+    formData.append("documents", document.file);
+    formData.append("document_kinds", document.kind);
+  });
+  return formData;
+};
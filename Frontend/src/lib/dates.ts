@@ -0,0 +1,56 @@
+// Date helpers for YYYY-MM-DD strings used by the timetable APIs, and the
+// date-time inputs of the announcements board
+
+// Format a Date as YYYY-MM-DD in the browser's local calendar
+export const formatLocalDate = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+};
+
+// Shift a YYYY-MM-DD string by a number of days
+export const addDays = (date: string, days: number): string => {
+  const [year, month, day] = date.split("-").map(Number);
+  return formatLocalDate(new Date(year, month - 1, day + days));
+};
+
+// Format an ISO instant for a datetime-local input (YYYY-MM-DDTHH:mm, browser time)
+export const toDateTimeInput = (iso: string | null | undefined): string => {
+  if (!iso) return "";
+  const date = new Date(iso);
+  const hours = String(date.getHours()).padStart(2, "0");
+  const minutes = String(date.getMinutes()).padStart(2, "0");
+  return `${formatLocalDate(date)}T${hours}:${minutes}`;
+};
+
+// ISO instant of a datetime-local input value, null when it is empty
+export const fromDateTimeInput = (value: string): string | null =>
+  value ? new Date(value).toISOString() : null;
+
+// When an event takes place, e.g. "Fri, 20 Mar 2026, 8:00 am – 9:30 am"
+export const formatEventTime = (startsAt: string, endsAt?: string | null): string => {
+  const start = new Date(startsAt);
+  const startText = start.toLocaleString(undefined, {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+  if (!endsAt) return startText;
+
+  const end = new Date(endsAt);
+  const sameDay = formatLocalDate(start) === formatLocalDate(end);
+  const endText = sameDay
+    ? end.toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" })
+    : end.toLocaleString(undefined, {
+        weekday: "short",
+        day: "numeric",
+        month: "short",
+        hour: "numeric",
+        minute: "2-digit",
+      });
+  return `${startText} – ${endText}`;
+};
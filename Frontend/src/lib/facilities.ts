@@ -0,0 +1,38 @@
+// Mosque facilities catalogue shared by the profile, finder and admin editor
+import type { FacilityKey, MosqueFacilities } from "./types";
+
+export const FACILITIES: { key: FacilityKey; label: string }[] = [
+  { key: "womens_prayer_area", label: "Women's prayer area" },
+  { key: "wudu", label: "Wudu facilities" },
+  { key: "wheelchair_access", label: "Wheelchair access" },
+  { key: "parking", label: "Parking" },
+  { key: "quran_classes", label: "Madrasa / Quran classes" },
+  { key: "janaza_services", label: "Janaza services" },
+  { key: "library", label: "Library" },
+];
+
+export const KHUTBAH_LANGUAGES = [
+  { value: "urdu", label: "Urdu" },
+  { value: "arabic", label: "Arabic" },
+  { value: "english", label: "English" },
+  { value: "punjabi", label: "Punjabi" },
+  { value: "pashto", label: "Pashto" },
+  { value: "sindhi", label: "Sindhi" },
+  { value: "balochi", label: "Balochi" },
+  { value: "saraiki", label: "Saraiki" },
+];
+
+export const EMPTY_FACILITIES: MosqueFacilities = {
+  womens_prayer_area: false,
+  wudu: false,
+  wheelchair_access: false,
+  parking: false,
+  quran_classes: false,
+  janaza_services: false,
+  library: false,
+  khutbah_languages: [],
+};
+
+export const getKhutbahLanguageLabel = (value: string): string =>
+  KHUTBAH_LANGUAGES.find((language) => language.value === value)?.label ||
+  value;
@@ -0,0 +1,90 @@
+// Favorite mosques. They always live in localStorage; a signed-in congregant's account keeps the
+// same list on the API so it follows them to other devices, and it wins whenever the two are loaded.
+import { authApi, clearStoredSession, congregantApi } from "./api";
+import { syncPrayerReminders } from "./prayerReminders";
+import type { Congregant, CongregantSignIn } from "./types";
+
+const FAVORITES_KEY = "favoriteMosques";
+
+export const getStoredFavorites = (): string[] =>
+  JSON.parse(localStorage.getItem(FAVORITES_KEY) || "[]");
+
+// Every change to the list also updates this browser's prayer reminders
+const storeFavorites = (favorites: string[]) => {
+  localStorage.setItem(FAVORITES_KEY, JSON.stringify(favorites));
+  syncPrayerReminders(favorites).catch((err) =>
+    console.error("Failed to sync prayer reminders:", err)
+  );
+};
+
+export const getSignedInCongregant = (): Congregant | null => {
+  if (localStorage.getItem("user_type") !== "congregant" || !localStorage.getItem("token")) {
+    return null;
+  }
+  const stored = localStorage.getItem("user");
+  return stored ? (JSON.parse(stored) as Congregant) : null;
+};
+
+// Admins share the stored session, so a congregant can only sign in while no one else is
+export const canSignInAsCongregant = () =>
+  !localStorage.getItem("token") || localStorage.getItem("user_type") === "congregant";
+
+/**
+ * Store the session from a successful sign-in. The response's favorites already
+ * include the ones this browser had, so they replace the local list.
+ */
+export const completeCongregantSignIn = (data: CongregantSignIn) => {
+  localStorage.setItem("user", JSON.stringify(data.congregant));
+  localStorage.setItem("user_type", "congregant");
+  storeFavorites(data.favorites);
+};
+
+// The favorites are kept on this device after signing out
+export const signOutCongregant = async () => {
+  try {
+    await authApi.logout();
+  } finally {
+    clearStoredSession();
+    localStorage.removeItem("user_type");
+  }
+};
+
+/**
+ * The current favorites: the account's when signed in, otherwise this browser's.
+ * Falls back to the local list when the API can't be reached.
+ */
+export const loadFavorites = async (): Promise<string[]> => {
+  if (!getSignedInCongregant()) {
+    const favorites = getStoredFavorites();
+    storeFavorites(favorites);
+    return favorites;
+  }
+
+  try {
+    const { data } = await congregantApi.getMe();
+    localStorage.setItem("user", JSON.stringify(data.congregant));
+    storeFavorites(data.favorites);
+    return data.favorites;
+  } catch (err) {
+    console.error("Failed to load favorites:", err);
+    return getStoredFavorites();
+  }
+};
+
+/**
+ * Add or remove a favorite. The local list changes straight away; for a signed-in
+ * congregant the account's list comes back from the API and replaces it.
+ * @returns The favorites after the change
+ */
+export const saveFavorite = async (mosqueId: string, favorited: boolean): Promise<string[]> => {
+  const current = getStoredFavorites().filter((id) => id !== mosqueId);
+  const updated = favorited ? [...current, mosqueId] : current;
+  storeFavorites(updated);
+  if (!getSignedInCongregant()) return updated;
+
+  const { data } = favorited
+    ? await congregantApi.addFavorite(mosqueId)
+    : await congregantApi.removeFavorite(mosqueId);
+  storeFavorites(data.favorites);
+  return data.favorites;
+};
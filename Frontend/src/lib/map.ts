@@ -0,0 +1,19 @@
+// Map configuration. Point VITE_MAP_TILE_URL at a self-hosted tile server
+// (e.g. tileserver-gl serving an .mbtiles extract) to run maps without internet access.
+
+export const MAP_TILE_URL =
+  import.meta.env.VITE_MAP_TILE_URL ||
+  "https://tile.openstreetmap.org/{z}/{x}/{y}.png";
+
+export const MAP_TILE_ATTRIBUTION =
+  import.meta.env.VITE_MAP_TILE_ATTRIBUTION ||
+  '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+export const MAP_MAX_ZOOM = 19;
+
+// Centre of Pakistan, used until there are pins to fit
+export const DEFAULT_MAP_CENTER: [number, number] = [30.3753, 69.3451];
+export const DEFAULT_MAP_ZOOM = 5;
+
+// Zoom used when focusing a single pin
+export const PIN_ZOOM = 15;
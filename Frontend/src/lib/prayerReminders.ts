@@ -0,0 +1,106 @@
+// Web Push prayer reminders for favorited mosques. Favorites stay in localStorage; the API keeps
+// a copy of them with this browser's push subscription so it can send reminders while the app is closed.
+import { pushApi } from "./api";
+import type { PrayerReminderSettings } from "./types";
+
+// Present while reminders are on
+const SETTINGS_KEY = "prayerReminderSettings";
+
+export const isPushSupported = () =>
+  "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+
+export const getReminderSettings = (): PrayerReminderSettings | null => {
+  const stored = localStorage.getItem(SETTINGS_KEY);
+  return stored ? (JSON.parse(stored) as PrayerReminderSettings) : null;
+};
+
+// VAPID keys are base64url; PushManager wants the raw bytes
+const urlBase64ToUint8Array = (value: string) => {
+  const base64 = (value + "=".repeat((4 - (value.length % 4)) % 4))
+    .replace(/-/g, "+")
+    .replace(/_/g, "/");
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+};
+
+const sameKey = (key: ArrayBuffer | null, expected: Uint8Array) => {
+  if (!key || key.byteLength !== expected.length) return false;
+  const bytes = new Uint8Array(key);
+  return bytes.every((byte, index) => byte === expected[index]);
+};
+
+// The service worker is only registered by production builds (vite-plugin-pwa)
+const getRegistration = async () => {
+  const registration = await navigator.serviceWorker.getRegistration();
+  if (!registration) {
+    throw new Error("Reminders need the app's offline support. Reload the page and try again.");
+  }
+  return registration;
+};
+
+/**
+ * Ask for notification permission, subscribe this browser and save the
+ * reminder settings for the given favorites. Also used to change the settings.
+ */
+export const enablePrayerReminders = async (
+  favorites: string[],
+  settings: PrayerReminderSettings
+) => {
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") {
+    throw new Error("Notifications are blocked for this site. Allow them in your browser settings to get reminders.");
+  }
+
+  const { data: config } = await pushApi.getConfig();
+  if (!config.enabled || !config.public_key) {
+    throw new Error("Prayer reminders are not available right now");
+  }
+
+  const registration = await getRegistration();
+  const serverKey = urlBase64ToUint8Array(config.public_key);
+  let subscription = await registration.pushManager.getSubscription();
+  // A subscription made with an older server key can no longer receive messages
+  if (subscription && !sameKey(subscription.options.applicationServerKey, serverKey)) {
+    await subscription.unsubscribe();
+    subscription = null;
+  }
+  if (!subscription) {
+    subscription = await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: serverKey,
+    });
+  }
+
+  const response = await pushApi.saveSubscription(subscription.toJSON(), favorites, settings);
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  return response.data;
+};
+
+/**
+ * Send the current favorites to the API when reminders are on. Called when a
+ * favorite is toggled and on every visit, which also picks up a subscription
+ * the browser has renewed.
+ */
+export const syncPrayerReminders = async (favorites: string[]) => {
+  const settings = getReminderSettings();
+  if (!settings || !isPushSupported()) return;
+
+  const registration = await navigator.serviceWorker.getRegistration();
+  const subscription = await registration?.pushManager.getSubscription();
+  if (!subscription || Notification.permission !== "granted") {
+    // Permission was withdrawn in the browser settings
+    localStorage.removeItem(SETTINGS_KEY);
+    return;
+  }
+
+  await pushApi.saveSubscription(subscription.toJSON(), favorites, settings);
+};
+
+export const disablePrayerReminders = async () => {
+  localStorage.removeItem(SETTINGS_KEY);
+  const registration = await navigator.serviceWorker.getRegistration();
+  const subscription = await registration?.pushManager.getSubscription();
+  if (!subscription) return;
+
+  await pushApi.deleteSubscription(subscription.endpoint);
+  await subscription.unsubscribe();
+};
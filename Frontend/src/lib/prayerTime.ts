@@ -0,0 +1,91 @@
+// Prayer time helpers shared by the prayer clock, timetable import and map
+
+// Parse "HH:MM" (24-hour) or "HH:MM AM/PM" into hours and minutes
+export const parsePrayerTime = (
+  time: string | null | undefined
+): { hours: number; minutes: number } | null => {
+  if (!time) return null;
+  const value = time.trim();
+
+  const time12Match = value.match(/^(\d{1,2}):(\d{2})\s*(AM|PM)$/i);
+  const time24Match = value.match(/^(\d{1,2}):(\d{2})$/);
+
+  let hours: number;
+  let minutes: number;
+
+  if (time12Match) {
+    hours = parseInt(time12Match[1], 10);
+    minutes = parseInt(time12Match[2], 10);
+    if (hours < 1 || hours > 12) return null;
+    const ampm = time12Match[3].toUpperCase();
+
+    // Convert to 24-hour format
+    if (ampm === "PM" && hours !== 12) {
+      hours += 12;
+    } else if (ampm === "AM" && hours === 12) {
+      hours = 0;
+    }
+  } else if (time24Match) {
+    hours = parseInt(time24Match[1], 10);
+    minutes = parseInt(time24Match[2], 10);
+  } else {
+    return null;
+  }
+
+  if (hours < 0 || hours > 23 || minutes < 0 || minutes > 59) return null;
+
+  return { hours, minutes };
+};
+
+// Normalize a prayer time to "HH:MM" (24-hour), or null if it cannot be parsed
+export const toTime24 = (time: string | null | undefined): string | null => {
+  const parsed = parsePrayerTime(time);
+  if (!parsed) return null;
+  return `${String(parsed.hours).padStart(2, "0")}:${String(
+    parsed.minutes
+  ).padStart(2, "0")}`;
+};
+
+export interface DailyPrayerTimes {
+  fajr: string | null;
+  dhuhr: string | null;
+  asr: string | null;
+  maghrib: string | null;
+  isha: string | null;
+  jummah: string | null;
+}
+
+// Next congregation after `now`. On Fridays Jummah replaces Dhuhr, the same
+// rule the prayer clock uses; once Isha has passed, tomorrow's Fajr is next.
+export const getNextPrayer = (
+  prayers: DailyPrayerTimes,
+  now: Date = new Date()
+): { name: string; time: string; minutesUntil: number } | null => {
+  const currentMinutes = now.getHours() * 60 + now.getMinutes();
+  const isFriday = now.getDay() === 5;
+
+  const prayerList = [
+    { name: "Fajr", time: prayers.fajr },
+    isFriday
+      ? { name: "Jummah", time: prayers.jummah }
+      : { name: "Dhuhr", time: prayers.dhuhr },
+    { name: "Asr", time: prayers.asr },
+    { name: "Maghrib", time: prayers.maghrib },
+    { name: "Isha", time: prayers.isha },
+  ];
+
+  let next: { name: string; time: string; minutesUntil: number } | null = null;
+  for (const prayer of prayerList) {
+    const parsed = parsePrayerTime(prayer.time);
+    if (!parsed || !prayer.time) continue;
+
+    let diff = parsed.hours * 60 + parsed.minutes - currentMinutes;
+    if (diff <= 0) diff += 24 * 60;
+
+    if (!next || diff < next.minutesUntil) {
+      next = { name: prayer.name, time: prayer.time, minutesUntil: diff };
+    }
+  }
+
+  return next;
+};
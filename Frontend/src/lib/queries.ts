@@ -1,5 +1,18 @@
 import { useQuery } from "@tanstack/react-query";
-import { mosqueApi } from "./api";
+import { mosqueApi, authApi } from "./api";
+import type {
+  PrayerTimesResponse,
+  TimetableResponse,
+  PrayerSchedule,
+  MosquePhoto,
+  PublicMosqueDetail,
+  AdminMosqueDetail,
+  ActiveSession,
+  MosqueTeam,
+  MosqueFollowers,
+  Announcement,
+  AnnouncementsPage,
+} from "./types";
 
 // Query keys
 export const mosqueQueryKeys = {
@@ -9,8 +22,30 @@ export const mosqueQueryKeys = {
     [...mosqueQueryKeys.lists(), params] as const,
   details: () => [...mosqueQueryKeys.all, "detail"] as const,
   detail: (id: string) => [...mosqueQueryKeys.details(), id] as const,
+  // Nested under detail so invalidating a mosque also refreshes the admin view
+  adminDetail: (id: string) => [...mosqueQueryKeys.detail(id), "manage"] as const,
   prayerTimes: (id: string) =>
     [...mosqueQueryKeys.all, "prayer-times", id] as const,
+  prayerTimesForDate: (id: string, date: string) =>
+    [...mosqueQueryKeys.prayerTimes(id), date] as const,
+  timetables: (id: string) =>
+    [...mosqueQueryKeys.all, "timetable", id] as const,
+  timetable: (id: string, from: string, to: string) =>
+    [...mosqueQueryKeys.timetables(id), from, to] as const,
+  schedules: (id: string) =>
+    [...mosqueQueryKeys.all, "schedules", id] as const,
+  photos: (id: string) => [...mosqueQueryKeys.all, "photos", id] as const,
+  managedPhotos: (id: string) =>
+    [...mosqueQueryKeys.photos(id), "manage"] as const,
+  announcements: (id: string) =>
+    [...mosqueQueryKeys.all, "announcements", id] as const,
+  announcementsPage: (id: string, page: number) =>
+    [...mosqueQueryKeys.announcements(id), page] as const,
+  managedAnnouncements: (id: string) =>
+    [...mosqueQueryKeys.announcements(id), "manage"] as const,
+  team: (id: string) => [...mosqueQueryKeys.all, "team", id] as const,
+  followers: (id: string) =>
+    [...mosqueQueryKeys.all, "followers", id] as const,
 };
 
 // Mosque queries
@@ -18,6 +53,11 @@ export const useMosques = (params?: {
   search?: string;
   page?: number;
   limit?: number;
+  near?: string;
+  radius?: number;
+  city?: string;
+  province?: string;
+  facilities?: string;
 }) => {
   return useQuery({
     queryKey: mosqueQueryKeys.list(params || {}),
@@ -35,7 +75,7 @@ export const useMosques = (params?: {
 export const useMosque = (id: string) => {
   return useQuery({
     queryKey: mosqueQueryKeys.detail(id),
-    queryFn: async () => {
+    queryFn: async (): Promise<PublicMosqueDetail> => {
       const response = await mosqueApi.getMosque(id);
       // Ensure consistent structure - return the mosque object directly
       return response.data.mosque || response.data;
@@ -48,11 +88,13 @@ export const useMosque = (id: string) => {
   });
 };
 
-export const usePrayerTimes = (id: string) => {
+export const usePrayerTimes = (id: string, date?: string) => {
   return useQuery({
-    queryKey: mosqueQueryKeys.prayerTimes(id),
-    queryFn: async () => {
-      const response = await mosqueApi.getPrayerTimes(id);
+    queryKey: date
+      ? mosqueQueryKeys.prayerTimesForDate(id, date)
+      : mosqueQueryKeys.prayerTimes(id),
+    queryFn: async (): Promise<PrayerTimesResponse> => {
+      const response = await mosqueApi.getPrayerTimes(id, date);
       return response.data;
     },
     enabled: !!id,
@@ -63,12 +105,26 @@ export const usePrayerTimes = (id: string) => {
   });
 };
 
+export const useTimetable = (id: string, from: string, to: string) => {
+  return useQuery({
+    queryKey: mosqueQueryKeys.timetable(id, from, to),
+    queryFn: async (): Promise<TimetableResponse> => {
+      const response = await mosqueApi.getTimetable(id, { from, to });
+      return response.data;
+    },
+    enabled: !!id && !!from && !!to,
+    staleTime: 2 * 60 * 1000, // 2 minutes, same as prayer times
+    gcTime: 5 * 60 * 1000, // 5 minutes
+    refetchOnWindowFocus: false,
+  });
+};
+
 // Admin-specific queries
 export const useAdminMosque = (mosqueId: string) => {
   return useQuery({
-    queryKey: mosqueQueryKeys.detail(mosqueId), // Use the same key as useMosque
-    queryFn: async () => {
-      const response = await mosqueApi.getMosque(mosqueId);
+    queryKey: mosqueQueryKeys.adminDetail(mosqueId),
+    queryFn: async (): Promise<AdminMosqueDetail> => {
+      const response = await mosqueApi.getManagedMosque(mosqueId);
       // Ensure we return the mosque data in the expected format
       return response.data.mosque || response.data; // Handle both possible response structures
     },
@@ -79,3 +135,113 @@ export const useAdminMosque = (mosqueId: string) => {
     refetchOnMount: false,
   });
 };
+
+export const useSchedules = (mosqueId: string) => {
+  return useQuery({
+    queryKey: mosqueQueryKeys.schedules(mosqueId),
+    queryFn: async (): Promise<PrayerSchedule[]> => {
+      const response = await mosqueApi.getSchedules(mosqueId);
+      return response.data.schedules;
+    },
+    enabled: !!mosqueId,
+    staleTime: 60 * 1000, // 1 minute
+    refetchOnWindowFocus: false,
+  });
+};
+
+export const usePhotos = (mosqueId: string) => {
+  return useQuery({
+    queryKey: mosqueQueryKeys.photos(mosqueId),
+    queryFn: async (): Promise<MosquePhoto[]> => {
+      const response = await mosqueApi.getPhotos(mosqueId);
+      return response.data.photos;
+    },
+    enabled: !!mosqueId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    refetchOnWindowFocus: false,
+  });
+};
+
+export const useManagedPhotos = (mosqueId: string) => {
+  return useQuery({
+    queryKey: mosqueQueryKeys.managedPhotos(mosqueId),
+    queryFn: async (): Promise<{ photos: MosquePhoto[]; limit: number }> => {
+      const response = await mosqueApi.getManagedPhotos(mosqueId);
+      return response.data;
+    },
+    enabled: !!mosqueId,
+    staleTime: 60 * 1000, // 1 minute
+    refetchOnWindowFocus: false,
+  });
+};
+
+export const useAnnouncements = (mosqueId: string, page: number) => {
+  return useQuery({
+    queryKey: mosqueQueryKeys.announcementsPage(mosqueId, page),
+    queryFn: async (): Promise<AnnouncementsPage> => {
+      const response = await mosqueApi.getAnnouncements(mosqueId, { page });
+      return response.data;
+    },
+    enabled: !!mosqueId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    refetchOnWindowFocus: false,
+    placeholderData: (previous) => previous,
+  });
+};
+
+export const useManagedAnnouncements = (mosqueId: string) => {
+  return useQuery({
+    queryKey: mosqueQueryKeys.managedAnnouncements(mosqueId),
+    queryFn: async (): Promise<Announcement[]> => {
+      const response = await mosqueApi.getManagedAnnouncements(mosqueId);
+      return response.data.announcements;
+    },
+    enabled: !!mosqueId,
+    staleTime: 60 * 1000, // 1 minute
+    refetchOnWindowFocus: false,
+  });
+};
+
+// Admin team of a mosque; also tells the dashboard what the signed-in admin may do
+export const useMosqueTeam = (mosqueId: string) => {
+  return useQuery({
+    queryKey: mosqueQueryKeys.team(mosqueId),
+    queryFn: async (): Promise<MosqueTeam> => {
+      const response = await mosqueApi.getTeam(mosqueId);
+      return response.data;
+    },
+    enabled: !!mosqueId,
+    staleTime: 60 * 1000, // 1 minute
+    refetchOnWindowFocus: false,
+  });
+};
+
+// Congregants following a mosque, for its admin dashboard
+export const useMosqueFollowers = (mosqueId: string) => {
+  return useQuery({
+    queryKey: mosqueQueryKeys.followers(mosqueId),
+    queryFn: async (): Promise<MosqueFollowers> => {
+      const response = await mosqueApi.getFollowers(mosqueId);
+      return response.data;
+    },
+    enabled: !!mosqueId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    refetchOnWindowFocus: false,
+  });
+};
+
+export const sessionQueryKeys = {
+  all: ["sessions"] as const,
+};
+
+export const useSessions = () => {
+  return useQuery({
+    queryKey: sessionQueryKeys.all,
+    queryFn: async (): Promise<ActiveSession[]> => {
+      const response = await authApi.getSessions();
+      return response.data.sessions;
+    },
+    staleTime: 30 * 1000, // 30 seconds
+    refetchOnWindowFocus: false,
+  });
+};
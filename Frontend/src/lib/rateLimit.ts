@@ -0,0 +1,57 @@
+// Remaining attempts and cooldowns reported by the throttled auth endpoints
+import { useEffect, useState } from "react";
+
+export interface AuthThrottle {
+  attemptsRemaining: number | null;
+  // Epoch milliseconds when another attempt is allowed, null when not locked out
+  retryAt: number | null;
+}
+
+interface ThrottleResponse {
+  response?: {
+    data?: {
+      attempts_remaining?: number | null;
+      retry_after?: number;
+    };
+    headers?: Record<string, string | undefined>;
+  };
+}
+
+// Read throttling details from a failed auth request, null when there are none
+export const getAuthThrottle = (error: unknown): AuthThrottle | null => {
+  const response = (error as ThrottleResponse)?.response;
+  if (!response) return null;
+
+  const retryAfter =
+    response.data?.retry_after ?? Number(response.headers?.["retry-after"] || 0);
+  const attemptsRemaining =
+    typeof response.data?.attempts_remaining === "number"
+      ? response.data.attempts_remaining
+      : null;
+
+  if (!retryAfter && attemptsRemaining === null) return null;
+  return {
+    attemptsRemaining,
+    retryAt: retryAfter ? Date.now() + retryAfter * 1000 : null,
+  };
+};
+
+// Seconds left until retryAt, updated every second; 0 once the cooldown is over
+export const useCooldown = (retryAt: number | null): number => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!retryAt) return;
+    setNow(Date.now());
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [retryAt]);
+
+  return retryAt ? Math.max(0, Math.ceil((retryAt - now) / 1000)) : 0;
+};
+
+// e.g. 95 -> "1:35"
+export const formatCooldown = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+};
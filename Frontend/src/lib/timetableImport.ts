@@ -0,0 +1,195 @@
+// Reading monthly timetable spreadsheets (CSV / XLSX) into import rows
+import { toTime24 } from "./prayerTime";
+import { formatLocalDate } from "./dates";
+
+export const IMPORT_PRAYERS = [
+  "fajr",
+  "dhuhr",
+  "asr",
+  "maghrib",
+  "isha",
+  "jummah",
+] as const;
+
+export type ImportPrayer = (typeof IMPORT_PRAYERS)[number];
+
+export type TimetableImportRow = {
+  row: number;
+  date: string;
+} & Partial<Record<ImportPrayer, string>>;
+
+// Accepted spellings of each column header (compared without spaces/punctuation)
+const HEADER_ALIASES: Record<string, "date" | ImportPrayer> = {
+  date: "date",
+  day: "date",
+  fajr: "fajr",
+  fajar: "fajr",
+  dhuhr: "dhuhr",
+  zuhr: "dhuhr",
+  zohr: "dhuhr",
+  duhr: "dhuhr",
+  asr: "asr",
+  maghrib: "maghrib",
+  magrib: "maghrib",
+  isha: "isha",
+  esha: "isha",
+  jummah: "jummah",
+  juma: "jummah",
+  jumma: "jummah",
+  jumuah: "jummah",
+  friday: "jummah",
+};
+
+type Cell = string | number | boolean | Date | null | undefined;
+
+// Minimal CSV parser supporting quoted fields and CRLF line endings
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((value) => value.trim() !== ""));
+};
+
+// Excel stores dates as days since 1899-12-30
+const excelSerialToDate = (serial: number): Date =>
+  new Date(Date.UTC(1899, 11, 30) + Math.round(serial * 86400000));
+
+const normalizeDate = (value: Cell): string => {
+  if (value instanceof Date) {
+    return value.toISOString().slice(0, 10);
+  }
+  if (typeof value === "number") {
+    return excelSerialToDate(value).toISOString().slice(0, 10);
+  }
+
+  const text = String(value ?? "").trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return text;
+
+  // DD/MM/YYYY or DD-MM-YYYY, as printed on Pakistani timetables
+  const dmy = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (dmy) {
+    return formatLocalDate(
+      new Date(Number(dmy[3]), Number(dmy[2]) - 1, Number(dmy[1]))
+    );
+  }
+
+  return text;
+};
+
+const normalizeTime = (value: Cell): string => {
+  if (value === null || value === undefined) return "";
+
+  // Time-only cells come through as a date on 1899-12-30 or as a day fraction
+  if (value instanceof Date) {
+    return `${String(value.getUTCHours()).padStart(2, "0")}:${String(
+      value.getUTCMinutes()
+    ).padStart(2, "0")}`;
+  }
+  if (typeof value === "number" && value >= 0 && value < 1) {
+    const totalMinutes = Math.round(value * 24 * 60);
+    return `${String(Math.floor(totalMinutes / 60)).padStart(2, "0")}:${String(
+      totalMinutes % 60
+    ).padStart(2, "0")}`;
+  }
+
+  const text = String(value).trim();
+  // Keep unparseable values as typed so the preview can point at them
+  return toTime24(text) ?? text;
+};
+
+const toRows = (table: Cell[][]): TimetableImportRow[] => {
+  if (table.length < 2) {
+    throw new Error("The file needs a header row and at least one date");
+  }
+
+  const columns = table[0].map((header) => {
+    const key = String(header ?? "")
+      .toLowerCase()
+      .replace(/[^a-z]/g, "");
+    return HEADER_ALIASES[key] ?? null;
+  });
+
+  if (!columns.includes("date")) {
+    throw new Error('Missing a "date" column');
+  }
+  if (!columns.some((column) => column && column !== "date")) {
+    throw new Error(
+      "No prayer columns found. Use fajr, dhuhr, asr, maghrib, isha and jummah"
+    );
+  }
+
+  return table.slice(1).map((cells, index) => {
+    const row: TimetableImportRow = { row: index + 2, date: "" };
+    columns.forEach((column, columnIndex) => {
+      if (!column) return;
+      const cell = cells[columnIndex];
+      if (column === "date") {
+        row.date = normalizeDate(cell);
+      } else {
+        const time = normalizeTime(cell);
+        if (time) row[column] = time;
+      }
+    });
+    return row;
+  });
+};
+
+// Read a CSV or XLSX file into timetable rows
+export const readTimetableFile = async (
+  file: File
+): Promise<TimetableImportRow[]> => {
+  const name = file.name.toLowerCase();
+
+  if (name.endsWith(".csv")) {
+    return toRows(parseCsv(await file.text()));
+  }
+
+  if (name.endsWith(".xlsx")) {
+    const { readSheet } = await import("read-excel-file/browser");
+    const sheet = await readSheet(file);
+    return toRows(sheet as Cell[][]);
+  }
+
+  throw new Error("Please upload a .csv or .xlsx file");
+};
+
+// Sample file admins can fill in
+export const TIMETABLE_TEMPLATE_CSV = [
+  "date,fajr,dhuhr,asr,maghrib,isha,jummah",
+  "2026-11-01,05:20 AM,12:15 PM,03:45 PM,05:35 PM,07:00 PM,",
+  "2026-11-06,05:23 AM,12:15 PM,03:42 PM,05:32 PM,06:58 PM,01:30 PM",
+].join("\n");
@@ -8,13 +8,124 @@ export interface ApiError {
   message?: string;
 }
 
+// Map position of a mosque
+export interface MosqueCoordinates {
+  latitude: number;
+  longitude: number;
+}
+
+// Structured address of a mosque; parts that were not entered are empty strings
+export interface MosqueAddress {
+  street: string;
+  area: string;
+  city: string;
+  district: string;
+  province: string;
+  postal_code: string;
+}
+
+// Yes/no amenities of a mosque
+export type FacilityKey =
+  | "womens_prayer_area"
+  | "wudu"
+  | "wheelchair_access"
+  | "parking"
+  | "quran_classes"
+  | "janaza_services"
+  | "library";
+
+export type MosqueFacilities = Record<FacilityKey, boolean> & {
+  khutbah_languages: string[];
+};
+
+// Resized images of the mosque's newest approved gallery photo
+export interface MosqueCoverPhoto {
+  thumbnail_url: string;
+  hero_url: string;
+}
+
+export type PhotoStatus = "pending" | "approved" | "hidden";
+
+export interface MosquePhoto {
+  id: string;
+  caption: string;
+  thumbnail_url: string;
+  hero_url: string;
+  width: number;
+  height: number;
+  createdAt: string;
+  // Only present in admin and moderation responses
+  status?: PhotoStatus;
+  moderation_note?: string;
+  moderated_at?: string | null;
+}
+
+// Gallery photo in the super admin moderation queue
+export interface PhotoModerationItem extends MosquePhoto {
+  original_name: string;
+  mosque: { id: string; name: string; location: string } | null;
+}
+
+export type AnnouncementCategory =
+  | "general"
+  | "lecture"
+  | "janaza"
+  | "eid"
+  | "fundraiser"
+  | "class";
+
+// A notice or event on a mosque's announcements board. Dates are ISO strings;
+// starts_at and ends_at are only set for events.
+export interface Announcement {
+  id: string;
+  title: string;
+  body: string;
+  category: AnnouncementCategory;
+  category_label: string;
+  starts_at: string | null;
+  ends_at: string | null;
+  pinned: boolean;
+  created_at: string;
+  updated_at: string;
+  // Only present in admin responses
+  expires_at?: string | null;
+  expired?: boolean;
+}
+
+export interface AnnouncementInput {
+  title: string;
+  body: string;
+  category: AnnouncementCategory;
+  starts_at: string | null;
+  ends_at: string | null;
+  pinned: boolean;
+  expires_at: string | null;
+}
+
+export interface AnnouncementsPage {
+  announcements: Announcement[];
+  pagination: { page: number; limit: number; total: number };
+}
+
+// Number of mosques with one city or province value
+export interface AddressFacet {
+  value: string;
+  count: number;
+}
+
 export interface MosqueApiResponse {
   data: {
     mosques: Array<{
       id: string;
       name: string;
       location: string;
+      address?: MosqueAddress | null;
       description?: string;
+      coordinates?: MosqueCoordinates | null;
+      facilities?: MosqueFacilities;
+      cover_photo?: MosqueCoverPhoto | null;
+      // Only present in "near me" results
+      distance_km?: number;
       prayer_times?: {
         fajr: string | null;
         dhuhr: string | null;
@@ -29,6 +140,11 @@ export interface MosqueApiResponse {
       limit: number;
       total: number;
     };
+    facets?: {
+      provinces: AddressFacet[];
+      cities: AddressFacet[];
+    };
+    near?: MosqueCoordinates & { radius_km: number };
   };
 }
 
@@ -42,30 +158,220 @@ export interface PrayerTimes {
   jummah: string;
 }
 
+// Prayer time calculation settings
+export type CalculationMethod =
+  | "karachi"
+  | "mwl"
+  | "isna"
+  | "umm_al_qura"
+  | "egyptian";
+
+export type AsrMethod = "hanafi" | "shafii";
+
+export type HighLatitudeRule =
+  | "none"
+  | "middle_of_night"
+  | "one_seventh"
+  | "angle_based";
+
+export interface JamaatOffsets {
+  fajr: number;
+  dhuhr: number;
+  asr: number;
+  maghrib: number;
+  isha: number;
+  jummah: number | null;
+}
+
+export interface PrayerCalculationSettings {
+  enabled: boolean;
+  latitude?: number | null;
+  longitude?: number | null;
+  timezone: string;
+  method: CalculationMethod;
+  asr_method: AsrMethod;
+  high_latitude_rule: HighLatitudeRule;
+  jamaat_offsets: JamaatOffsets;
+}
+
+// Response of GET /mosques/:id/prayer-times
+export interface PrayerTimesResponse {
+  mosque: {
+    id: string;
+    name: string;
+    location: string;
+  };
+  date: string;
+  source: "calculated" | "manual" | "schedule" | "imported" | "override";
+  prayer_times: {
+    fajr: string | null;
+    dhuhr: string | null;
+    asr: string | null;
+    maghrib: string | null;
+    isha: string | null;
+    jummah: string | null;
+  };
+  adhan_times?: {
+    fajr: string | null;
+    sunrise: string | null;
+    dhuhr: string | null;
+    asr: string | null;
+    maghrib: string | null;
+    isha: string | null;
+  };
+  schedules?: TimetableEntry["schedules"];
+  calculation?: {
+    method: CalculationMethod;
+    asr_method: AsrMethod;
+    high_latitude_rule: HighLatitudeRule;
+    timezone: string;
+  } | null;
+}
+
+// Timetable schedules
+export type ScheduleType = "seasonal" | "ramadan" | "override";
+
+export interface ScheduleTimes {
+  fajr?: string;
+  dhuhr?: string;
+  asr?: string;
+  maghrib?: string;
+  isha?: string;
+  jummah?: string;
+}
+
+export interface PrayerSchedule {
+  _id: string;
+  mosque_id: string;
+  name: string;
+  schedule_type: ScheduleType;
+  start_date: string;
+  end_date: string;
+  prayer_times: ScheduleTimes;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PrayerScheduleInput {
+  name: string;
+  schedule_type: ScheduleType;
+  start_date: string;
+  end_date?: string;
+  prayer_times: ScheduleTimes;
+  notes?: string;
+}
+
+export interface TimetableEntry {
+  date: string;
+  day: string;
+  is_friday: boolean;
+  source: "calculated" | "manual" | "schedule" | "imported" | "override";
+  prayer_times: PrayerTimesResponse["prayer_times"];
+  adhan_times: PrayerTimesResponse["adhan_times"] | null;
+  schedules: Array<{
+    id: string;
+    name: string;
+    schedule_type: ScheduleType;
+  }>;
+}
+
+// Response of GET /mosques/:id/timetable
+export interface TimetableResponse {
+  mosque: {
+    id: string;
+    name: string;
+    location: string;
+  };
+  from: string;
+  to: string;
+  entries: TimetableEntry[];
+}
+
+// Response of POST /mosques/:id/timetable/import/preview
+export interface TimetableImportPreview {
+  rows: Array<{
+    row: number;
+    date: string;
+    prayer_times: ScheduleTimes;
+    errors: string[];
+  }>;
+  diff: Array<{
+    date: string;
+    day: string;
+    changes: Array<{
+      prayer: keyof ScheduleTimes;
+      from: string | null;
+      to: string;
+    }>;
+    overridden: boolean;
+  }>;
+  summary: {
+    total: number;
+    valid: number;
+    invalid: number;
+    changed: number;
+    unchanged: number;
+    from: string | null;
+    to: string | null;
+  };
+}
+
 // Mosque data interface
 export interface MosqueData {
   name?: string;
   location?: string;
+  address?: Partial<MosqueAddress> | null;
   description?: string;
 }
 
+// Mosque details as each audience sees them. The verification code guards
+// admin registration, so it is only ever sent to the mosque's own admins and super admins.
+export interface PublicMosqueDetail {
+  id: string;
+  name: string;
+  location: string;
+  address?: MosqueAddress | null;
+  description: string;
+  contact_email: string;
+  contact_phone: string;
+  admin_instructions: string;
+  createdAt: string;
+  updatedAt: string;
+  prayer_times: {
+    fajr: string | null;
+    dhuhr: string | null;
+    asr: string | null;
+    maghrib: string | null;
+    isha: string | null;
+    jummah: string | null;
+  };
+  prayer_calculation?: PrayerCalculationSettings | null;
+  coordinates?: MosqueCoordinates | null;
+  facilities?: MosqueFacilities;
+  cover_photo?: MosqueCoverPhoto | null;
+}
+
+export interface AdminMosqueDetail extends PublicMosqueDetail {
+  // Codes are stored hashed; only the first few characters come back after creation
+  verification_code_prefix: string;
+  verification_code_expires: string | null;
+}
+
+export interface SuperAdminMosqueDetail extends AdminMosqueDetail {
+  verification_code_expired: boolean;
+  timetable_version: number;
+}
+
 export interface MosqueDetailResponse {
   data: {
-    mosque: {
-      id: string;
-      name: string;
-      location: string;
-      description: string;
-      prayer_times: {
-        fajr: string | null;
-        dhuhr: string | null;
-        asr: string | null;
-        maghrib: string | null;
-        isha: string | null;
-        jummah: string | null;
-      };
-      verification_code?: string;
-    };
+    mosque: PublicMosqueDetail;
+  };
+}
+
+export interface AdminMosqueDetailResponse {
+  data: {
+    mosque: AdminMosqueDetail;
   };
 }
 
@@ -82,6 +388,10 @@ export const getErrorMessage = (error: unknown): string => {
   return "An unexpected error occurred";
 };
 
+// Display a stored verification code prefix, e.g. "A1B2••••"
+export const maskVerificationCode = (prefix?: string | null): string =>
+  prefix ? `${prefix}••••` : "N/A";
+
 // Admin status types
 export type AdminStatus =
   | "pending"
@@ -91,6 +401,52 @@ export type AdminStatus =
   | "admin_removed"
   | "code_regenerated";
 
+export type ApplicationDocumentKind =
+  | "committee_letter"
+  | "id_card"
+  | "utility_bill"
+  | "other";
+
+export type DocumentReviewStatus = "unreviewed" | "verified" | "rejected";
+
+// Supporting document on an admin application; the file itself is only served to reviewers
+export interface ApplicationDocument {
+  id: string;
+  kind: ApplicationDocumentKind;
+  kind_label: string;
+  original_name: string;
+  mime_type: string;
+  size: number;
+  uploaded_at: string;
+  review_status: DocumentReviewStatus;
+  review_note: string | null;
+  reviewed_at: string | null;
+}
+
+// A reviewer's question to a pending applicant and their answer
+export interface InfoRequest {
+  id: string;
+  message: string;
+  requested_at: string;
+  response: string | null;
+  responded_at: string | null;
+}
+
+export interface ApplicationInfo {
+  documents: ApplicationDocument[];
+  info_requests: InfoRequest[];
+  // The newest request has not been answered yet
+  awaiting_response: boolean;
+}
+
+// Languages the lifecycle emails (approved, rejected, removed, ...) are written in
+export type NotificationLocale = "en" | "ur";
+
+export const NOTIFICATION_LOCALE_OPTIONS: { locale: NotificationLocale; label: string }[] = [
+  { locale: "en", label: "English" },
+  { locale: "ur", label: "اردو (Urdu)" },
+];
+
 // Admin profile interface
 export interface AdminProfile {
   id: string;
@@ -130,6 +486,8 @@ export interface AdminProfile {
     code_regenerated_mosque_location: string;
     can_reapply: boolean;
   };
+  application_info?: ApplicationInfo | null;
+  preferred_language?: NotificationLocale;
   created_at: string;
 }
 
@@ -160,3 +518,257 @@ export interface RejectedAdmin {
   }>;
   created_at: string;
 }
+
+// Signed-in session listed on the Security tab
+export interface ActiveSession {
+  id: string;
+  device: {
+    browser: string;
+    browser_version: string | null;
+    os: string;
+    type: "desktop" | "mobile" | "tablet";
+    label: string;
+  };
+  ip_address: string | null;
+  // Approximate, null when the hosting edge didn't supply it
+  location: string | null;
+  created_at: string;
+  last_used_at: string;
+  current: boolean;
+}
+
+// Super admin roles; what each one allows is decided by the API
+export type SuperAdminRole = "super_admin" | "reviewer" | "auditor" | "regional_manager";
+
+export type Permission =
+  | "dashboard.view"
+  | "requests.view"
+  | "requests.review"
+  | "mosques.view"
+  | "mosques.create"
+  | "mosques.edit"
+  | "mosques.delete"
+  | "admins.manage"
+  | "codes.manage"
+  | "photos.moderate"
+  | "audit.view"
+  | "audit.export"
+  | "audit.delete"
+  | "superadmins.manage"
+  | "emails.manage";
+
+export interface RoleDefinition {
+  role: SuperAdminRole;
+  label: string;
+  permissions: Permission[];
+  // Limited to the mosques of one province
+  province_scoped: boolean;
+}
+
+// Signed-in super admin's role, from /superadmin/access
+export interface SuperAdminAccess {
+  role: SuperAdminRole;
+  role_label: string;
+  province: string | null;
+  permissions: Permission[];
+  roles: RoleDefinition[];
+}
+
+// Admin roles on a single mosque; what each one allows is decided by the API
+export type MosqueRole = "owner" | "editor" | "prayer_times";
+
+export type MosquePermission =
+  | "mosque.view"
+  | "mosque.edit"
+  | "prayer_times.edit"
+  | "photos.manage"
+  | "announcements.manage"
+  | "members.manage";
+
+export interface MosqueRoleDefinition {
+  role: MosqueRole;
+  label: string;
+  permissions: MosquePermission[];
+}
+
+// Signed-in admin's role on their mosque
+export interface MosqueMembership {
+  role: MosqueRole;
+  role_label: string;
+  permissions: MosquePermission[];
+}
+
+export interface MosqueMember {
+  id: string;
+  name: string;
+  email: string;
+  phone: string;
+  mosque_role: MosqueRole;
+  role_label: string;
+  joined_at: string;
+  // Joined through an owner's invitation rather than the verification code
+  invited: boolean;
+  is_you: boolean;
+}
+
+// team: an owner's invitation onto their team; application: a super admin's invitation to apply without the code
+export type InvitationPurpose = "team" | "application";
+
+export type InvitationStatus = "sent" | "opened" | "accepted" | "expired" | "revoked";
+
+export interface MosqueTeamInvitation {
+  id: string;
+  email: string;
+  mosque_role: MosqueRole;
+  role_label: string;
+  status: InvitationStatus;
+  expires_at: string;
+  opened_at: string | null;
+  created_at: string;
+}
+
+// From /mosques/:id/members; invitations are only listed for owners
+export interface MosqueTeam {
+  membership: MosqueMembership;
+  roles: MosqueRoleDefinition[];
+  members: MosqueMember[];
+  invitations: MosqueTeamInvitation[];
+}
+
+// Invitation behind an accept link, from /admin/invitations/:token
+export interface InvitationDetails {
+  email: string;
+  purpose: InvitationPurpose;
+  mosque: {
+    id: string;
+    name: string;
+    location: string;
+  };
+  mosque_role: MosqueRole;
+  role_label: string;
+  invited_by: string | null;
+  expires_at: string;
+  // The invitee confirms their password instead of creating an account
+  has_account: boolean;
+}
+
+// From /superadmin/invitations
+export interface AdminInvitation {
+  id: string;
+  email: string;
+  purpose: InvitationPurpose;
+  status: InvitationStatus;
+  mosque: {
+    id: string;
+    name: string;
+    location: string;
+  } | null;
+  mosque_role: MosqueRole;
+  role_label: string;
+  invited_by: {
+    name: string;
+    type: "super_admin" | "owner";
+  };
+  // The account that used the link; invited applicants stay pending until reviewed
+  accepted_admin: {
+    id: string;
+    name: string;
+    status: string;
+  } | null;
+  created_at: string;
+  opened_at: string | null;
+  accepted_at: string | null;
+  revoked_at: string | null;
+  expires_at: string;
+}
+
+// pending: waiting for its first attempt or a retry; dead_letter: retries ran out or the email expired
+export type EmailDeliveryStatus = "pending" | "sending" | "sent" | "dead_letter";
+
+export interface EmailDeliveryAttempt {
+  attempt: number;
+  trigger: "inline" | "worker" | "resend";
+  outcome: "sent" | "failed" | "expired" | "requeued";
+  at: string;
+  duration_ms: number | null;
+  message_id: string | null;
+  error: string | null;
+  requested_by: string | null;
+}
+
+// From /superadmin/email-deliveries
+export interface EmailDelivery {
+  id: string;
+  event: string;
+  locale: NotificationLocale;
+  recipient_email: string;
+  recipient_name: string | null;
+  admin_id: string | null;
+  subject: string;
+  status: EmailDeliveryStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string | null;
+  last_error: string | null;
+  message_id: string | null;
+  sent_at: string | null;
+  dead_lettered_at: string | null;
+  expires_at: string | null;
+  // Verification and reset codes are not kept once the email is sent or abandoned
+  body_removed: boolean;
+  created_at: string;
+  delivery_log: EmailDeliveryAttempt[];
+}
+
+export interface EmailDeliveryDetails extends EmailDelivery {
+  html: string | null;
+  text: string | null;
+}
+
+// From /push/config; enabled is false until the API has VAPID keys
+export interface PushConfig {
+  enabled: boolean;
+  public_key: string | null;
+  reminder_minute_options: number[];
+  default_reminder_minutes: number;
+}
+
+// Web Push prayer reminders for the mosques favorited in this browser
+export interface PrayerReminderSettings {
+  jamaat_reminders: boolean;
+  reminder_minutes: number;
+  time_change_alerts: boolean;
+}
+
+// A member of the public signed in with an emailed code
+export interface Congregant {
+  id: string;
+  email: string;
+  name: string | null;
+  created_at: string;
+}
+
+// Signing in adds the browser's favorites to the account's; favorites is the merged list
+export interface CongregantSignIn {
+  message: string;
+  token: string;
+  refresh_token: string;
+  user_type: "congregant";
+  congregant: Congregant;
+  favorites: string[];
+  favorites_merged: number;
+}
+
+// Super admin dashboard stats: mosques with the most congregant followers
+export interface MostFollowedMosque {
+  mosque_id: string;
+  name: string;
+  location: string;
+  followers: number;
+}
+
+// From /mosques/:id/followers; followers are congregants with the mosque in their favorites
+export interface MosqueFollowers {
+  followers: number;
+  active_this_week: number;
+}
@@ -1,10 +1,13 @@
 import React, { useState, useEffect } from 'react';
-import { useParams, Link, useNavigate } from 'react-router-dom';
+import { useParams, Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
 import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { authApi, mosqueApi } from '../lib/api';
-import { getErrorMessage } from '../lib/types';
+import { getErrorMessage, NOTIFICATION_LOCALE_OPTIONS } from '../lib/types';
+import type { SelectedDocument } from '../lib/applicationDocuments';
+import DocumentPicker from '../components/DocumentPicker';
 import {
     ArrowLeft,
     Phone,
@@ -17,7 +20,10 @@ import {
     EyeOff,
     AlertTriangle,
     LogIn,
-    UserPlus
+    UserPlus,
+    CheckCircle,
+    Paperclip,
+    Globe
 } from 'react-feather';
 
 // Validation schemas
@@ -27,11 +33,17 @@ const registerSchema = z.object({
     password: z.string().min(7, 'Password must be at least 7 characters'),
     confirm_password: z.string(),
     phone: z.string().regex(/^\+923[0-9]{9}$/, 'Phone number must be in format +923xxxxxxxxx'),
-    mosque_verification_code: z.string().min(1, 'Verification code is required'),
+    mosque_verification_code: z.string().optional(),
+    // Set when the page was opened from an invitation link, which stands in for the code
+    invited: z.boolean().optional(),
     application_notes: z.string().optional(),
+    preferred_language: z.enum(['en', 'ur']),
 }).refine((data) => data.password === data.confirm_password, {
     message: "Passwords don't match",
     path: ["confirm_password"],
+}).refine((data) => data.invited || !!data.mosque_verification_code, {
+    message: 'Verification code is required',
+    path: ['mosque_verification_code'],
 });
 
 const loginSchema = z.object({
@@ -52,23 +64,43 @@ interface MosqueContactInfo {
 
 const AdminApplicationPage: React.FC = () => {
     const { id } = useParams<{ id: string }>();
+    const [searchParams] = useSearchParams();
+    const invitationToken = searchParams.get('invitation');
     const navigate = useNavigate();
     const [mode, setMode] = useState<'register' | 'login'>('register');
     const [mosqueInfo, setMosqueInfo] = useState<MosqueContactInfo | null>(null);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
     const [showPassword, setShowPassword] = useState(false);
     const [showConfirmPassword, setShowConfirmPassword] = useState(false);
     const [showLoginPassword, setShowLoginPassword] = useState(false);
+    const [documents, setDocuments] = useState<SelectedDocument[]>([]);
 
     const registerForm = useForm<RegisterFormData>({
         resolver: zodResolver(registerSchema),
+        defaultValues: { preferred_language: 'en' },
     });
 
     const loginForm = useForm<LoginFormData>({
         resolver: zodResolver(loginSchema),
     });
 
+    // A super admin's invitation pre-verifies the application: the email is fixed and no code is needed
+    const { data: invitation, error: invitationError } = useQuery({
+        queryKey: ['invitation', invitationToken],
+        queryFn: async () => (await authApi.getInvitation(invitationToken!)).data.invitation,
+        enabled: !!invitationToken,
+        retry: false,
+    });
+    const invited = invitation?.purpose === 'application';
+
+    useEffect(() => {
+        if (!invited || !invitation) return;
+        registerForm.setValue('email', invitation.email);
+        registerForm.setValue('invited', true);
+    }, [invited, invitation, registerForm]);
+
     // Watch password for strength indicator
     const password = registerForm.watch('password');
 
@@ -137,21 +169,39 @@ const AdminApplicationPage: React.FC = () => {
         setError(null);
 
         try {
-            await authApi.registerAdmin({
+            if (invited && invitationToken) {
+                await authApi.applyWithInvitation(invitationToken, {
+                    name: data.name,
+                    phone: data.phone,
+                    password: data.password,
+                    application_notes: data.application_notes,
+                    preferred_language: data.preferred_language,
+                }, documents);
+
+                // The link already proved the email, so there is no verification step
+                setNotice('Application submitted. Sign in any time to check whether it has been approved.');
+                loginForm.setValue('email', data.email);
+                setMode('login');
+                return;
+            }
+
+            const response = await authApi.registerAdmin({
                 name: data.name,
                 email: data.email,
                 password: data.password,
                 phone: data.phone,
                 mosque_id: id,
-                verification_code: data.mosque_verification_code,
+                verification_code: data.mosque_verification_code ?? '',
                 application_notes: data.application_notes,
-            });
+                preferred_language: data.preferred_language,
+            }, documents);
 
             // Redirect to email verification page with user data
             navigate('/email-verification', {
                 state: {
                     email: data.email,
-                    userType: 'admin'
+                    userType: 'admin',
+                    emailDelayed: !!response.data.email_delayed
                 }
             });
         } catch (err) {
@@ -195,6 +245,7 @@ const AdminApplicationPage: React.FC = () => {
                         status?: string;
                         error?: string;
                         token?: string;
+                        refresh_token?: string;
                         admin?: {
                             _id: string;
                             name: string;
@@ -224,6 +275,9 @@ const AdminApplicationPage: React.FC = () => {
                     localStorage.setItem('token', data.token);
                     console.log('Saved rejected admin token:', data.token);
                 }
+                if (data.refresh_token) {
+                    localStorage.setItem('refresh_token', data.refresh_token);
+                }
                 if (data.admin) {
                     localStorage.setItem('user', JSON.stringify(data.admin));
                     console.log('Saved rejected admin user:', data.admin);
@@ -247,6 +301,9 @@ const AdminApplicationPage: React.FC = () => {
                     localStorage.setItem('token', data.token);
                     console.log('Saved mosque_deleted admin token:', data.token);
                 }
+                if (data.refresh_token) {
+                    localStorage.setItem('refresh_token', data.refresh_token);
+                }
                 if (data.admin) {
                     localStorage.setItem('user', JSON.stringify(data.admin));
                     console.log('Saved mosque_deleted admin user:', data.admin);
@@ -270,6 +327,9 @@ const AdminApplicationPage: React.FC = () => {
                     localStorage.setItem('token', data.token);
                     console.log('Saved admin_removed admin token:', data.token);
                 }
+                if (data.refresh_token) {
+                    localStorage.setItem('refresh_token', data.refresh_token);
+                }
                 if (data.admin) {
                     localStorage.setItem('user', JSON.stringify(data.admin));
                     console.log('Saved admin_removed admin user:', data.admin);
@@ -293,6 +353,9 @@ const AdminApplicationPage: React.FC = () => {
                     localStorage.setItem('token', data.token);
                     console.log('Saved pending admin token:', data.token);
                 }
+                if (data.refresh_token) {
+                    localStorage.setItem('refresh_token', data.refresh_token);
+                }
                 if (data.admin) {
                     localStorage.setItem('user', JSON.stringify(data.admin));
                     console.log('Saved pending admin user:', data.admin);
@@ -432,6 +495,32 @@ const AdminApplicationPage: React.FC = () => {
                                     </button>
                                 </div>
 
+                                {notice && (
+                                    <div className="bg-gradient-to-r from-green-50/80 to-emerald-50/60 border-2 border-green-200/50 rounded-lg sm:rounded-xl p-3 sm:p-4 mb-4 sm:mb-6 backdrop-blur-sm">
+                                        <div className="flex items-center">
+                                            <CheckCircle className="w-4 h-4 sm:w-5 sm:h-5 text-green-600 mr-2 sm:mr-3 flex-shrink-0" />
+                                            <p className="text-green-800 font-medium text-base leading-relaxed">{notice}</p>
+                                        </div>
+                                    </div>
+                                )}
+
+                                {invitationError && (
+                                    <div className="bg-gradient-to-r from-amber-50/80 to-orange-50/60 border-2 border-amber-200/50 rounded-lg sm:rounded-xl p-3 sm:p-4 mb-4 sm:mb-6 backdrop-blur-sm">
+                                        <p className="text-amber-800 text-sm sm:text-base leading-relaxed">
+                                            {getErrorMessage(invitationError)} You can still apply with the mosque verification code.
+                                        </p>
+                                    </div>
+                                )}
+
+                                {invited && invitation && mode === 'register' && (
+                                    <div className="bg-gradient-to-r from-green-50/80 to-emerald-50/60 border-2 border-green-200/50 rounded-lg sm:rounded-xl p-3 sm:p-4 mb-4 sm:mb-6 backdrop-blur-sm">
+                                        <p className="text-green-800 text-sm sm:text-base leading-relaxed">
+                                            {invitation.invited_by || 'A super admin'} invited you to apply for <span className="font-semibold">{invitation.mosque.name}</span>.
+                                            Your email is already verified and you don't need a verification code.
+                                        </p>
+                                    </div>
+                                )}
+
                                 {/* Modern Islamic Error Message */}
                                 {error && (
                                     <div className="bg-gradient-to-r from-red-50/80 via-rose-50/60 to-pink-50/40 border-2 border-red-200/50 rounded-lg sm:rounded-xl p-3 sm:p-4 mb-4 sm:mb-6 backdrop-blur-sm">
@@ -480,6 +569,7 @@ const AdminApplicationPage: React.FC = () => {
                                             <input
                                                 {...registerForm.register('email')}
                                                 type="email"
+                                                readOnly={invited}
                                                 className="w-full px-3 sm:px-4 py-2.5 sm:py-3 bg-gradient-to-r from-gray-50/80 to-green-50/40 border-2 border-gray-200/50 rounded-lg sm:rounded-xl focus:outline-none focus:ring-2 focus:ring-green-500/50 focus:border-green-400/50 transition-all duration-300 hover:bg-gray-100/80 backdrop-blur-sm text-base"
                                                 placeholder="Enter your email"
                                             />
@@ -599,28 +689,30 @@ const AdminApplicationPage: React.FC = () => {
                                             )}
                                         </div>
 
-                                        <div>
-                                            <label className="flex items-center text-sm sm:text-base font-semibold text-gray-700 mb-2 sm:mb-3">
-                                                <div className="relative mr-2">
-                                                    <div className="absolute inset-0 bg-gradient-to-r from-green-400 to-emerald-500 rounded-full blur-sm opacity-30"></div>
-                                                    <Shield className="relative w-3 h-3 sm:w-4 sm:h-4 text-green-600" />
-                                                </div>
-                                                <span className="hidden sm:inline">Mosque Verification Code</span>
-                                                <span className="sm:hidden">Verification Code</span>
-                                            </label>
-                                            <input
-                                                {...registerForm.register('mosque_verification_code')}
-                                                type="text"
-                                                className="w-full px-3 sm:px-4 py-2.5 sm:py-3 bg-gradient-to-r from-gray-50/80 to-green-50/40 border-2 border-gray-200/50 rounded-lg sm:rounded-xl focus:outline-none focus:ring-2 focus:ring-green-500/50 focus:border-green-400/50 transition-all duration-300 hover:bg-gray-100/80 backdrop-blur-sm text-base"
-                                                placeholder="Enter verification code"
-                                            />
-                                            {registerForm.formState.errors.mosque_verification_code && (
-                                                <p className="text-red-500 text-sm mt-1 sm:mt-2 font-medium flex items-center">
-                                                    <AlertTriangle className="w-3 h-3 mr-1 flex-shrink-0" />
-                                                    {registerForm.formState.errors.mosque_verification_code.message}
-                                                </p>
-                                            )}
-                                        </div>
+                                        {!invited && (
+                                            <div>
+                                                <label className="flex items-center text-sm sm:text-base font-semibold text-gray-700 mb-2 sm:mb-3">
+                                                    <div className="relative mr-2">
+                                                        <div className="absolute inset-0 bg-gradient-to-r from-green-400 to-emerald-500 rounded-full blur-sm opacity-30"></div>
+                                                        <Shield className="relative w-3 h-3 sm:w-4 sm:h-4 text-green-600" />
+                                                    </div>
+                                                    <span className="hidden sm:inline">Mosque Verification Code</span>
+                                                    <span className="sm:hidden">Verification Code</span>
+                                                </label>
+                                                <input
+                                                    {...registerForm.register('mosque_verification_code')}
+                                                    type="text"
+                                                    className="w-full px-3 sm:px-4 py-2.5 sm:py-3 bg-gradient-to-r from-gray-50/80 to-green-50/40 border-2 border-gray-200/50 rounded-lg sm:rounded-xl focus:outline-none focus:ring-2 focus:ring-green-500/50 focus:border-green-400/50 transition-all duration-300 hover:bg-gray-100/80 backdrop-blur-sm text-base"
+                                                    placeholder="Enter verification code"
+                                                />
+                                                {registerForm.formState.errors.mosque_verification_code && (
+                                                    <p className="text-red-500 text-sm mt-1 sm:mt-2 font-medium flex items-center">
+                                                        <AlertTriangle className="w-3 h-3 mr-1 flex-shrink-0" />
+                                                        {registerForm.formState.errors.mosque_verification_code.message}
+                                                    </p>
+                                                )}
+                                            </div>
+                                        )}
 
                                         <div>
                                             <label className="flex items-center text-sm sm:text-base font-semibold text-gray-700 mb-2 sm:mb-3">
@@ -639,6 +731,42 @@ const AdminApplicationPage: React.FC = () => {
                                             />
                                         </div>
 
+                                        <div>
+                                            <label className="flex items-center text-sm sm:text-base font-semibold text-gray-700 mb-2 sm:mb-3">
+                                                <div className="relative mr-2">
+                                                    <div className="absolute inset-0 bg-gradient-to-r from-green-400 to-emerald-500 rounded-full blur-sm opacity-30"></div>
+                                                    <Globe className="relative w-3 h-3 sm:w-4 sm:h-4 text-green-600" />
+                                                </div>
+                                                Email Language
+                                            </label>
+                                            <select
+                                                {...registerForm.register('preferred_language')}
+                                                className="w-full px-3 sm:px-4 py-2.5 sm:py-3 bg-gradient-to-r from-gray-50/80 to-green-50/40 border-2 border-gray-200/50 rounded-lg sm:rounded-xl focus:outline-none focus:ring-2 focus:ring-green-500/50 focus:border-green-400/50 transition-all duration-300 hover:bg-gray-100/80 backdrop-blur-sm text-base"
+                                            >
+                                                {NOTIFICATION_LOCALE_OPTIONS.map((option) => (
+                                                    <option key={option.locale} value={option.locale}>{option.label}</option>
+                                                ))}
+                                            </select>
+                                            <p className="text-xs text-gray-500 mt-1">
+                                                We email you when your application is approved or rejected, and about later changes to your access.
+                                            </p>
+                                        </div>
+
+                                        <div>
+                                            <label className="flex items-center text-sm sm:text-base font-semibold text-gray-700 mb-2 sm:mb-3">
+                                                <div className="relative mr-2">
+                                                    <div className="absolute inset-0 bg-gradient-to-r from-green-400 to-emerald-500 rounded-full blur-sm opacity-30"></div>
+                                                    <Paperclip className="relative w-3 h-3 sm:w-4 sm:h-4 text-green-600" />
+                                                </div>
+                                                <span className="hidden sm:inline">Proof of Responsibility (Recommended)</span>
+                                                <span className="sm:hidden">Documents</span>
+                                            </label>
+                                            <p className="text-sm text-gray-500 mb-2 leading-relaxed">
+                                                A letter from the mosque committee and your CNIC help us approve you faster.
+                                            </p>
+                                            <DocumentPicker documents={documents} onChange={setDocuments} disabled={loading} />
+                                        </div>
+
                                         <button
                                             type="submit"
                                             disabled={loading}
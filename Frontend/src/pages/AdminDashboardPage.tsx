@@ -3,14 +3,25 @@ import { Link, useNavigate } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { mosqueApi, authApi } from '../lib/api';
-import { useAdminMosque, mosqueQueryKeys } from '../lib/queries';
-import { getErrorMessage } from '../lib/types';
+import { mosqueApi, authApi, clearStoredSession } from '../lib/api';
+import { useAdminMosque, useMosqueTeam, useMosqueFollowers, mosqueQueryKeys } from '../lib/queries';
+import { getErrorMessage, maskVerificationCode } from '../lib/types';
+import type { MosquePermission } from '../lib/types';
+import PrayerCalculationSettings from '../components/admin/PrayerCalculationSettings';
+import TimetableSchedules from '../components/admin/TimetableSchedules';
+import TimetableImport from '../components/admin/TimetableImport';
+import FacilitiesSettings from '../components/admin/FacilitiesSettings';
+import PhotoGallery from '../components/admin/PhotoGallery';
+import Announcements from '../components/admin/Announcements';
+import MosqueTeam from '../components/admin/MosqueTeam';
+import ActiveSessions from '../components/ActiveSessions';
+import AddressFields from '../components/AddressFields';
+import { EMPTY_ADDRESS, toAddressForm, toAddressPayload } from '../lib/address';
 import { useQueryClient } from '@tanstack/react-query';
 import {
     Search, AlertTriangle, BarChart, Home, Bell, TrendingUp, Settings,
     Zap, Users, Clock, MapPin, FileText, Shield, LogOut, Upload,
-    Star, Activity, Award, X
+    Star, Activity, Award, X, Calendar, Camera, Monitor, UserPlus, Volume2
 } from 'react-feather';
 
 // Validation schemas
@@ -26,6 +37,14 @@ const prayerTimesSchema = z.object({
 const mosqueInfoSchema = z.object({
     name: z.string().min(2, 'Name must be at least 2 characters'),
     location: z.string().min(5, 'Location must be at least 5 characters'),
+    address: z.object({
+        street: z.string(),
+        area: z.string(),
+        city: z.string(),
+        district: z.string(),
+        province: z.string(),
+        postal_code: z.string().regex(/^(\d{5})?$/, 'Postal code must be 5 digits'),
+    }),
     description: z.string().optional(),
 });
 
@@ -114,6 +133,22 @@ const ConfirmationModal: React.FC<ConfirmationModalProps> = ({
     );
 };
 
+// Tabs hidden from admins whose role on the mosque lacks the permission
+const DASHBOARD_TABS: { id: string; name: string; icon: React.ElementType; description: string; permission?: MosquePermission }[] = [
+    { id: 'overview', name: 'Overview', icon: BarChart, description: 'Dashboard overview' },
+    { id: 'prayer-times', name: 'Prayer Times', icon: Clock, description: 'Manage prayer schedules', permission: 'prayer_times.edit' },
+    { id: 'timetable', name: 'Timetable', icon: Calendar, description: 'Seasons & overrides', permission: 'prayer_times.edit' },
+    { id: 'mosque-info', name: 'Mosque Info', icon: Home, description: 'Update mosque details', permission: 'mosque.edit' },
+    { id: 'gallery', name: 'Gallery', icon: Camera, description: 'Mosque photos', permission: 'photos.manage' },
+    { id: 'announcements', name: 'Announcements', icon: Volume2, description: 'Notices & events', permission: 'announcements.manage' },
+    { id: 'team', name: 'Team', icon: UserPlus, description: 'Admins of this mosque' },
+    { id: 'security', name: 'Security', icon: Shield, description: 'Active sessions' },
+    { id: 'notifications', name: 'Notifications', icon: Bell, description: 'Manage alerts' },
+    { id: 'users', name: 'Users', icon: Users, description: 'User management' },
+    { id: 'analytics', name: 'Analytics', icon: TrendingUp, description: 'View statistics' },
+    { id: 'settings', name: 'Settings', icon: Settings, description: 'System settings' },
+];
+
 interface AdminUser {
     id: string;
     name: string;
@@ -163,6 +198,7 @@ const AdminDashboardPage: React.FC = () => {
     const [activeTab, setActiveTab] = useState<string>('overview');
     const [showLogoutModal, setShowLogoutModal] = useState(false);
     const [logoutLoading, setLogoutLoading] = useState(false);
+    const [showLogoutAllModal, setShowLogoutAllModal] = useState(false);
 
     const prayerTimesForm = useForm<PrayerTimesFormData>({
         resolver: zodResolver(prayerTimesSchema),
@@ -179,6 +215,15 @@ const AdminDashboardPage: React.FC = () => {
         error: queryError
     } = useAdminMosque(user?.mosque_id || '');
 
+    // Role on the mosque; every tab is shown until it has loaded
+    const { data: team } = useMosqueTeam(user?.mosque_id || '');
+    const membership = team?.membership;
+    const visibleTabs = DASHBOARD_TABS.filter((tab) =>
+        !tab.permission || !membership || membership.permissions.includes(tab.permission)
+    );
+    const currentTab = visibleTabs.some((tab) => tab.id === activeTab) ? activeTab : 'overview';
+    const { data: followers } = useMosqueFollowers(user?.mosque_id || '');
+
     // Handle query errors
     useEffect(() => {
         if (queryError) {
@@ -229,6 +274,7 @@ const AdminDashboardPage: React.FC = () => {
             mosqueInfoForm.reset({
                 name: mosque.name || '',
                 location: mosque.location || '',
+                address: toAddressForm(mosque.address),
                 description: mosque.description || '',
             });
         }
@@ -242,6 +288,7 @@ const AdminDashboardPage: React.FC = () => {
             console.error('Logout error:', err);
         } finally {
             localStorage.removeItem('token');
+            localStorage.removeItem('refresh_token');
             localStorage.removeItem('user');
             setLogoutLoading(false);
             setShowLogoutModal(false);
@@ -249,6 +296,23 @@ const AdminDashboardPage: React.FC = () => {
         }
     };
 
+    // Revoke every session of this admin, including ones on other devices
+    const handleLogoutAll = async () => {
+        setLogoutLoading(true);
+        try {
+            await authApi.logoutAll();
+        } catch (err) {
+            console.error('Logout all error:', err);
+        } finally {
+            localStorage.removeItem('token');
+            localStorage.removeItem('refresh_token');
+            localStorage.removeItem('user');
+            setLogoutLoading(false);
+            setShowLogoutAllModal(false);
+            navigate('/');
+        }
+    };
+
     const handleUpdatePrayerTimes = async (data: PrayerTimesFormData) => {
         if (!user?.mosque_id) return;
 
@@ -276,6 +340,7 @@ const AdminDashboardPage: React.FC = () => {
             // Invalidate all related caches to ensure data freshness across the app
             queryClient.invalidateQueries({ queryKey: mosqueQueryKeys.detail(user.mosque_id) });
             queryClient.invalidateQueries({ queryKey: mosqueQueryKeys.prayerTimes(user.mosque_id) });
+            queryClient.invalidateQueries({ queryKey: mosqueQueryKeys.timetables(user.mosque_id) });
             queryClient.invalidateQueries({ queryKey: mosqueQueryKeys.lists() }); // Invalidate list cache
         } catch (err) {
             const errorMessage = err instanceof Error && 'response' in err &&
@@ -298,7 +363,10 @@ const AdminDashboardPage: React.FC = () => {
         setSuccessMessage(null);
 
         try {
-            await mosqueApi.updateMosque(user.mosque_id, data);
+            await mosqueApi.updateMosque(user.mosque_id, {
+                ...data,
+                address: toAddressPayload(data.address),
+            });
             setSuccessMessage('Mosque information updated successfully!');
 
             // Auto-hide success message after 5 seconds
@@ -411,6 +479,14 @@ const AdminDashboardPage: React.FC = () => {
                             >
                                 <Search className="w-5 h-5 group-hover:scale-110 transition-transform" />
                             </Link>
+                            <button
+                                onClick={() => setShowLogoutAllModal(true)}
+                                className="text-gray-600 hover:text-red-600 p-2 sm:px-4 sm:py-2 rounded-xl hover:bg-red-50/70 backdrop-blur-sm transition-all duration-200 text-base font-medium flex items-center group"
+                                title="Log out everywhere"
+                            >
+                                <Monitor className="w-5 h-5 sm:w-4 sm:h-4 sm:mr-1 group-hover:scale-110 transition-transform" />
+                                <span className="ml-1 hidden md:inline">Log out everywhere</span>
+                            </button>
                             <button
                                 onClick={() => setShowLogoutModal(true)}
                                 className="bg-gradient-to-r from-red-500 to-rose-600 hover:from-red-600 hover:to-rose-700 text-white px-3 sm:px-6 py-2 rounded-xl text-sm sm:text-base font-medium transition-all duration-200 shadow-lg hover:shadow-xl transform hover:-translate-y-0.5 flex items-center"
@@ -477,9 +553,9 @@ const AdminDashboardPage: React.FC = () => {
                             <div className="bg-gradient-to-br from-green-50 to-emerald-100 rounded-2xl p-4 shadow-lg border border-green-200/50 backdrop-blur-sm">
                                 <div className="text-base text-green-600 mb-1 font-medium flex items-center">
                                     <Shield className="w-4 h-4 mr-1" />
-                                    Admin since
+                                    Your role
                                 </div>
-                                <div className="text-lg font-bold bg-gradient-to-r from-green-700 to-emerald-600 bg-clip-text text-transparent">Today</div>
+                                <div className="text-lg font-bold bg-gradient-to-r from-green-700 to-emerald-600 bg-clip-text text-transparent">{membership?.role_label || 'Admin'}</div>
                             </div>
                         </div>
                     </div>
@@ -534,10 +610,10 @@ const AdminDashboardPage: React.FC = () => {
                                 </h3>
                                 <div className="bg-white/20 backdrop-blur-sm rounded-2xl p-4 mb-4 border border-white/20">
                                     <div className="text-2xl lg:text-3xl font-mono font-bold mb-2 tracking-wider break-all">
-                                        {mosque.verification_code}
+                                        {maskVerificationCode(mosque.verification_code_prefix)}
                                     </div>
                                     <div className="text-green-100 text-base">
-                                        Share this code with trusted individuals who want to become admins
+                                        Only the start of the code is shown. Ask your super admin for the full code or a new one.
                                     </div>
                                 </div>
                                 <div className="flex items-start text-green-100 text-base">
@@ -570,29 +646,21 @@ const AdminDashboardPage: React.FC = () => {
                                     }
                                 `
                             }} />
-                            {[
-                                { id: 'overview', name: 'Overview', icon: BarChart, description: 'Dashboard overview' },
-                                { id: 'prayer-times', name: 'Prayer Times', icon: Clock, description: 'Manage prayer schedules' },
-                                { id: 'mosque-info', name: 'Mosque Info', icon: Home, description: 'Update mosque details' },
-                                { id: 'notifications', name: 'Notifications', icon: Bell, description: 'Manage alerts' },
-                                { id: 'users', name: 'Users', icon: Users, description: 'User management' },
-                                { id: 'analytics', name: 'Analytics', icon: TrendingUp, description: 'View statistics' },
-                                { id: 'settings', name: 'Settings', icon: Settings, description: 'System settings' },
-                            ].map((tab) => (
+                            {visibleTabs.map((tab) => (
                                 <button
                                     key={tab.id}
                                     onClick={() => setActiveTab(tab.id)}
-                                    className={`group relative flex-shrink-0 whitespace-nowrap px-3 sm:px-6 py-4 sm:py-6 text-sm sm:text-base font-medium text-center hover:bg-green-50/70 backdrop-blur-sm focus:z-10 focus:outline-none focus:ring-2 focus:ring-green-500 transition-all duration-200 min-w-max ${activeTab === tab.id
+                                    className={`group relative flex-shrink-0 whitespace-nowrap px-3 sm:px-6 py-4 sm:py-6 text-sm sm:text-base font-medium text-center hover:bg-green-50/70 backdrop-blur-sm focus:z-10 focus:outline-none focus:ring-2 focus:ring-green-500 transition-all duration-200 min-w-max ${currentTab === tab.id
                                         ? 'text-green-700 border-b-2 border-green-500 bg-green-50/70'
                                         : 'text-gray-500 hover:text-green-600'
                                         }`}
                                 >
                                     <div className="flex flex-col items-center">
-                                        <tab.icon className={`w-6 h-6 mb-1 transition-all duration-200 ${activeTab === tab.id ? 'scale-110 text-green-600' : 'group-hover:scale-105'}`} />
-                                        <span className={`font-semibold ${activeTab === tab.id ? 'text-green-700' : ''}`}>{tab.name}</span>
-                                        <span className={`text-sm hidden lg:block mt-1 ${activeTab === tab.id ? 'text-green-600' : 'text-gray-400'}`}>{tab.description}</span>
+                                        <tab.icon className={`w-6 h-6 mb-1 transition-all duration-200 ${currentTab === tab.id ? 'scale-110 text-green-600' : 'group-hover:scale-105'}`} />
+                                        <span className={`font-semibold ${currentTab === tab.id ? 'text-green-700' : ''}`}>{tab.name}</span>
+                                        <span className={`text-sm hidden lg:block mt-1 ${currentTab === tab.id ? 'text-green-600' : 'text-gray-400'}`}>{tab.description}</span>
                                     </div>
-                                    {activeTab === tab.id && (
+                                    {currentTab === tab.id && (
                                         <div className="absolute inset-x-0 bottom-0 h-1 bg-gradient-to-r from-green-500 to-emerald-500 rounded-t-full"></div>
                                     )}
                                 </button>
@@ -602,7 +670,7 @@ const AdminDashboardPage: React.FC = () => {
 
                     {/* Tab Content */}
                     <div className="p-4 sm:p-6 lg:p-8">
-                        {activeTab === 'overview' && (
+                        {currentTab === 'overview' && (
                             <div className="relative space-y-4 sm:space-y-6">
                                 {/* Local Islamic orbs */}
                                 <div className="absolute -top-4 -right-4 w-20 h-20 bg-gradient-to-br from-green-400/10 to-emerald-500/10 rounded-full blur-xl animate-pulse"></div>
@@ -616,8 +684,11 @@ const AdminDashboardPage: React.FC = () => {
                                         <div className="absolute -top-2 -right-2 w-12 h-12 bg-gradient-to-br from-green-400/20 to-emerald-500/20 rounded-full blur-lg animate-pulse"></div>
                                         <div className="relative flex items-center justify-between">
                                             <div>
-                                                <p className="text-green-700 text-sm sm:text-base font-semibold mb-1">Total Visitors</p>
-                                                <p className="text-xl sm:text-2xl font-bold text-green-900">1,234</p>
+                                                <p className="text-green-700 text-sm sm:text-base font-semibold mb-1">Followers</p>
+                                                <p className="text-xl sm:text-2xl font-bold text-green-900">{followers ? followers.followers.toLocaleString() : '-'}</p>
+                                                {followers && followers.followers > 0 && (
+                                                    <p className="text-green-600 text-sm">{followers.active_this_week.toLocaleString()} active this week</p>
+                                                )}
                                             </div>
                                             <div className="bg-gradient-to-br from-green-500 to-emerald-600 p-2 sm:p-3 rounded-xl flex-shrink-0 shadow-lg group-hover:scale-110 transition-transform">
                                                 <Users className="w-5 h-5 sm:w-6 sm:h-6 text-white" />
@@ -672,7 +743,7 @@ const AdminDashboardPage: React.FC = () => {
                             </div>
                         )}
 
-                        {activeTab === 'prayer-times' && (
+                        {currentTab === 'prayer-times' && (
                             <div className="max-w-2xl mx-auto">
                                 <div className="text-center mb-8">
                                     <h3 className="text-2xl font-bold bg-gradient-to-r from-green-700 to-emerald-600 bg-clip-text text-transparent mb-2 flex items-center justify-center">
@@ -680,6 +751,11 @@ const AdminDashboardPage: React.FC = () => {
                                         Update Prayer Times
                                     </h3>
                                     <p className="text-gray-600">Keep your community informed with accurate prayer schedules</p>
+                                    {mosque?.prayer_calculation?.enabled && (
+                                        <p className="text-sm text-emerald-700 mt-2">
+                                            Automatic calculation is enabled, so these manual times are only used for Jummah unless a Jummah offset is set.
+                                        </p>
+                                    )}
                                 </div>
                                 <div className="relative bg-gradient-to-br from-green-50 to-emerald-100/80 backdrop-blur-xl rounded-3xl p-8 border border-green-200/50 shadow-2xl overflow-hidden">
                                     {/* Islamic background orbs */}
@@ -735,10 +811,64 @@ const AdminDashboardPage: React.FC = () => {
                                         </button>
                                     </form>
                                 </div>
+
+                                <div className="mt-8">
+                                    <PrayerCalculationSettings
+                                        mosqueId={user?.mosque_id || ''}
+                                        settings={mosque?.prayer_calculation}
+                                        onSuccess={(message) => {
+                                            setError(null);
+                                            setSuccessMessage(message);
+                                            setTimeout(() => setSuccessMessage(null), 5000);
+                                        }}
+                                        onError={(message) => {
+                                            setSuccessMessage(null);
+                                            setError(message);
+                                        }}
+                                    />
+                                </div>
+                            </div>
+                        )}
+
+                        {currentTab === 'timetable' && (
+                            <div className="max-w-4xl mx-auto">
+                                <div className="text-center mb-8">
+                                    <h3 className="text-2xl font-bold bg-gradient-to-r from-green-700 to-emerald-600 bg-clip-text text-transparent mb-2 flex items-center justify-center">
+                                        <Calendar className="w-8 h-8 text-green-600 mr-3" />
+                                        Prayer Timetable
+                                    </h3>
+                                    <p className="text-gray-600">Plan winter, summer and Ramadan timetables, or change a single day</p>
+                                </div>
+                                <div className="mb-8">
+                                    <TimetableImport
+                                        mosqueId={user?.mosque_id || ''}
+                                        onSuccess={(message) => {
+                                            setError(null);
+                                            setSuccessMessage(message);
+                                            setTimeout(() => setSuccessMessage(null), 5000);
+                                        }}
+                                        onError={(message) => {
+                                            setSuccessMessage(null);
+                                            setError(message);
+                                        }}
+                                    />
+                                </div>
+                                <TimetableSchedules
+                                    mosqueId={user?.mosque_id || ''}
+                                    onSuccess={(message) => {
+                                        setError(null);
+                                        setSuccessMessage(message);
+                                        setTimeout(() => setSuccessMessage(null), 5000);
+                                    }}
+                                    onError={(message) => {
+                                        setSuccessMessage(null);
+                                        setError(message);
+                                    }}
+                                />
                             </div>
                         )}
 
-                        {activeTab === 'mosque-info' && (
+                        {currentTab === 'mosque-info' && (
                             <div className="max-w-2xl mx-auto">
                                 <div className="text-center mb-8">
                                     <h3 className="text-2xl font-bold bg-gradient-to-r from-green-700 to-emerald-600 bg-clip-text text-transparent mb-2 flex items-center justify-center">
@@ -795,6 +925,30 @@ const AdminDashboardPage: React.FC = () => {
                                             )}
                                         </div>
 
+                                        <div className="group">
+                                            <label className="flex items-center text-sm font-bold text-gray-700 mb-3">
+                                                <div className="flex items-center justify-center w-8 h-8 bg-gradient-to-br from-green-100 to-emerald-200 rounded-xl mr-3 group-hover:scale-110 transition-transform shadow-sm">
+                                                    <MapPin className="w-4 h-4 text-green-600" />
+                                                </div>
+                                                Address
+                                            </label>
+                                            <AddressFields
+                                                value={mosqueInfoForm.watch('address') ?? EMPTY_ADDRESS}
+                                                onChange={(address) => mosqueInfoForm.setValue('address', address, { shouldDirty: true, shouldValidate: true })}
+                                                inputClassName="w-full px-4 py-3 bg-white/80 backdrop-blur-sm border border-green-200/50 rounded-2xl focus:outline-none focus:ring-2 focus:ring-green-400 focus:border-transparent transition-all duration-200 shadow-lg hover:shadow-xl"
+                                                labelClassName="block text-xs font-semibold text-gray-600 mb-1 ml-2"
+                                            />
+                                            <p className="text-gray-500 text-xs mt-2 ml-2">
+                                                City and province let visitors filter the mosque finder.
+                                            </p>
+                                            {mosqueInfoForm.formState.errors.address?.postal_code && (
+                                                <p className="text-red-500 text-xs mt-2 ml-2 flex items-center">
+                                                    <AlertTriangle className="w-3 h-3 mr-1" />
+                                                    {mosqueInfoForm.formState.errors.address.postal_code.message}
+                                                </p>
+                                            )}
+                                        </div>
+
                                         <div className="group">
                                             <label className="flex items-center text-sm font-bold text-gray-700 mb-3">
                                                 <div className="flex items-center justify-center w-8 h-8 bg-gradient-to-br from-teal-100 to-green-200 rounded-xl mr-3 group-hover:scale-110 transition-transform shadow-sm">
@@ -835,12 +989,127 @@ const AdminDashboardPage: React.FC = () => {
                                         </button>
                                     </form>
                                 </div>
+
+                                <div className="mt-8">
+                                    <FacilitiesSettings
+                                        mosqueId={user?.mosque_id || ''}
+                                        facilities={mosque?.facilities}
+                                        onSuccess={(message) => {
+                                            setError(null);
+                                            setSuccessMessage(message);
+                                            setTimeout(() => setSuccessMessage(null), 5000);
+                                        }}
+                                        onError={(message) => {
+                                            setSuccessMessage(null);
+                                            setError(message);
+                                        }}
+                                    />
+                                </div>
+                            </div>
+                        )}
+
+                        {currentTab === 'gallery' && (
+                            <div className="max-w-4xl mx-auto">
+                                <div className="text-center mb-8">
+                                    <h3 className="text-2xl font-bold bg-gradient-to-r from-green-700 to-emerald-600 bg-clip-text text-transparent mb-2 flex items-center justify-center">
+                                        <Camera className="w-8 h-8 text-green-600 mr-3" />
+                                        Photo Gallery
+                                    </h3>
+                                    <p className="text-gray-600">Show visitors your prayer hall, wudu area and surroundings</p>
+                                </div>
+                                <PhotoGallery
+                                    mosqueId={user?.mosque_id || ''}
+                                    onSuccess={(message) => {
+                                        setError(null);
+                                        setSuccessMessage(message);
+                                        setTimeout(() => setSuccessMessage(null), 5000);
+                                    }}
+                                    onError={(message) => {
+                                        setSuccessMessage(null);
+                                        setError(message);
+                                    }}
+                                />
+                            </div>
+                        )}
+
+                        {currentTab === 'announcements' && (
+                            <div className="max-w-4xl mx-auto">
+                                <div className="text-center mb-8">
+                                    <h3 className="text-2xl font-bold bg-gradient-to-r from-green-700 to-emerald-600 bg-clip-text text-transparent mb-2 flex items-center justify-center">
+                                        <Volume2 className="w-8 h-8 text-green-600 mr-3" />
+                                        Announcements &amp; Events
+                                    </h3>
+                                    <p className="text-gray-600">Lectures, classes, janaza notices, Eid prayers and fundraisers for your community</p>
+                                </div>
+                                <Announcements
+                                    mosqueId={user?.mosque_id || ''}
+                                    onSuccess={(message) => {
+                                        setError(null);
+                                        setSuccessMessage(message);
+                                        setTimeout(() => setSuccessMessage(null), 5000);
+                                    }}
+                                    onError={(message) => {
+                                        setSuccessMessage(null);
+                                        setError(message);
+                                    }}
+                                />
+                            </div>
+                        )}
+
+                        {currentTab === 'team' && (
+                            <div className="max-w-4xl mx-auto">
+                                <div className="text-center mb-8">
+                                    <h3 className="text-2xl font-bold bg-gradient-to-r from-green-700 to-emerald-600 bg-clip-text text-transparent mb-2 flex items-center justify-center">
+                                        <UserPlus className="w-8 h-8 text-green-600 mr-3" />
+                                        Mosque Team
+                                    </h3>
+                                    <p className="text-gray-600">Share the work of running your mosque without sharing the verification code</p>
+                                </div>
+                                <MosqueTeam
+                                    mosqueId={user?.mosque_id || ''}
+                                    onSuccess={(message) => {
+                                        setError(null);
+                                        setSuccessMessage(message);
+                                        setTimeout(() => setSuccessMessage(null), 5000);
+                                    }}
+                                    onError={(message) => {
+                                        setSuccessMessage(null);
+                                        setError(message);
+                                    }}
+                                />
+                            </div>
+                        )}
+
+                        {currentTab === 'security' && (
+                            <div className="max-w-4xl mx-auto">
+                                <div className="text-center mb-8">
+                                    <h3 className="text-2xl font-bold bg-gradient-to-r from-green-700 to-emerald-600 bg-clip-text text-transparent mb-2 flex items-center justify-center">
+                                        <Shield className="w-8 h-8 text-green-600 mr-3" />
+                                        Security
+                                    </h3>
+                                    <p className="text-gray-600">See where your account is signed in and sign out devices you don't use</p>
+                                </div>
+                                <ActiveSessions
+                                    onSuccess={(message) => {
+                                        setError(null);
+                                        setSuccessMessage(message);
+                                        setTimeout(() => setSuccessMessage(null), 5000);
+                                    }}
+                                    onError={(message) => {
+                                        setSuccessMessage(null);
+                                        setError(message);
+                                    }}
+                                    onCurrentSessionRevoked={() => {
+                                        clearStoredSession();
+                                        navigate('/');
+                                    }}
+                                />
                             </div>
                         )}
 
                         {/* Placeholder tabs for future features */}
                         {['notifications', 'users', 'analytics', 'settings'].map((tabId) => (
-                            activeTab === tabId && (
+                            currentTab === tabId && (
                                 <div key={tabId} className="text-center py-12">
                                     <div className="relative bg-gradient-to-br from-green-50/50 to-emerald-100/50 backdrop-blur-sm rounded-3xl p-12 border border-green-200/30 shadow-xl overflow-hidden">
                                         {/* Islamic background orbs */}
@@ -883,6 +1152,17 @@ const AdminDashboardPage: React.FC = () => {
                 onCancel={() => setShowLogoutModal(false)}
                 isLoading={logoutLoading}
             />
+
+            <ConfirmationModal
+                isOpen={showLogoutAllModal}
+                title="Log Out Everywhere"
+                message="This signs you out on every device and browser, including this one. Anyone using an old session will need to sign in again."
+                confirmText="Yes, Log Out Everywhere"
+                cancelText="Cancel"
+                onConfirm={handleLogoutAll}
+                onCancel={() => setShowLogoutAllModal(false)}
+                isLoading={logoutLoading}
+            />
         </div>
     );
 };
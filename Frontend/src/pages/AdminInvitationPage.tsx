@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+import { Link, Navigate, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowLeft, UserPlus, User, Phone, Lock, AlertTriangle, MapPin } from 'react-feather';
+import { authApi } from '../lib/api';
+import { getErrorMessage } from '../lib/types';
+import { getAuthThrottle, useCooldown } from '../lib/rateLimit';
+import type { AuthThrottle } from '../lib/rateLimit';
+import AuthThrottleNotice from '../components/AuthThrottleNotice';
+
+const PHONE_PATTERN = /^\+923[0-9]{9}$/;
+
+// Landing page for a mosque team invitation link
+const AdminInvitationPage: React.FC = () => {
+    const { token = '' } = useParams<{ token: string }>();
+    const [name, setName] = useState('');
+    const [phone, setPhone] = useState('');
+    const [password, setPassword] = useState('');
+    const [submitting, setSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [throttle, setThrottle] = useState<AuthThrottle | null>(null);
+    const cooldown = useCooldown(throttle?.retryAt ?? null);
+
+    const { data: invitation, isLoading, error: loadError } = useQuery({
+        queryKey: ['invitation', token],
+        queryFn: async () => (await authApi.getInvitation(token)).data.invitation,
+        enabled: !!token,
+        retry: false,
+    });
+
+    const handleAccept = async (event: React.FormEvent) => {
+        event.preventDefault();
+        if (!invitation) return;
+
+        if (!invitation.has_account) {
+            if (name.trim().length < 2) {
+                setError('Please enter your full name');
+                return;
+            }
+            if (!PHONE_PATTERN.test(phone.trim())) {
+                setError('Phone number must be in format +923xxxxxxxxx');
+                return;
+            }
+            if (password.length < 8) {
+                setError('Password must be at least 8 characters');
+                return;
+            }
+        }
+
+        setSubmitting(true);
+        setError(null);
+        try {
+            const response = await authApi.acceptInvitation(token, invitation.has_account
+                ? { password }
+                : { name: name.trim(), phone: phone.trim(), password });
+
+            localStorage.setItem('token', response.data.token);
+            localStorage.setItem('refresh_token', response.data.refresh_token);
+            localStorage.setItem('user', JSON.stringify(response.data.admin));
+            localStorage.setItem('user_type', 'admin');
+            window.location.href = '/admin/dashboard';
+        } catch (err) {
+            setThrottle(getAuthThrottle(err));
+            setError(getErrorMessage(err));
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    // Invitations to apply belong on the mosque's application form
+    if (invitation?.purpose === 'application') {
+        return <Navigate to={`/mosques/${invitation.mosque.id}/apply?invitation=${token}`} replace />;
+    }
+
+    const inputClass = 'w-full pl-10 pr-4 py-3 bg-white/80 backdrop-blur-sm border border-green-200/50 rounded-xl focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-green-500 text-gray-900 placeholder-gray-500 shadow-sm';
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-green-50 via-emerald-50/30 to-teal-50/20 relative overflow-hidden">
+            {/* Background orbs */}
+            <div className="absolute inset-0 opacity-30">
+                <div className="absolute top-0 left-0 w-64 h-64 sm:w-96 sm:h-96 bg-gradient-to-br from-green-300/40 via-emerald-400/30 to-teal-300/20 rounded-full filter blur-3xl transform -translate-x-1/2 -translate-y-1/2 animate-pulse"></div>
+                <div className="absolute bottom-0 right-0 w-48 h-48 sm:w-80 sm:h-80 bg-gradient-to-br from-emerald-300/30 via-teal-400/25 to-green-300/20 rounded-full filter blur-2xl transform translate-x-1/2 translate-y-1/2 animate-pulse" style={{ animationDelay: '1s' }}></div>
+            </div>
+
+            <nav className="bg-gradient-to-r from-white via-green-50/50 to-emerald-50/30 backdrop-blur-xl border-b border-white/40 shadow-xl sticky top-0 z-50">
+                <div className="relative z-10 max-w-7xl mx-auto px-2 sm:px-4 lg:px-6">
+                    <div className="flex justify-between items-center py-2 sm:py-3 lg:py-4">
+                        <div className="flex items-center">
+                            <img src="/images/logo.png" alt="Mosque Finder" className="w-12 h-12 sm:w-16 sm:h-16 lg:w-20 lg:h-20 object-contain mr-2 sm:mr-3" />
+                            <span className="text-lg sm:text-xl lg:text-2xl font-bold bg-gradient-to-r from-green-600 via-emerald-600 to-teal-600 bg-clip-text text-transparent">
+                                Mosque Finder
+                            </span>
+                        </div>
+                        <Link
+                            to="/mosques"
+                            className="group flex items-center px-2 sm:px-3 lg:px-4 py-1.5 sm:py-2 text-green-600 hover:text-green-700 rounded-lg hover:bg-green-50 transition-all duration-300 text-sm sm:text-base font-medium"
+                        >
+                            <ArrowLeft className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                            <span className="hidden sm:inline">Back to Home</span>
+                            <span className="sm:hidden">Back</span>
+                        </Link>
+                    </div>
+                </div>
+            </nav>
+
+            <div className="relative z-10 flex items-center justify-center min-h-[calc(100vh-80px)] px-2 sm:px-4 py-6 sm:py-12">
+                <div className="w-full max-w-xs sm:max-w-md">
+                    <div className="relative bg-gradient-to-br from-white via-green-50/50 to-emerald-50/30 backdrop-blur-xl border-2 border-white/40 rounded-xl sm:rounded-3xl shadow-2xl p-4 sm:p-6 lg:p-8 overflow-hidden">
+                        <div className="relative z-10">
+                            <div className="text-center mb-6">
+                                <div className="relative w-12 h-12 sm:w-16 sm:h-16 bg-gradient-to-r from-green-500 to-emerald-600 rounded-xl sm:rounded-2xl flex items-center justify-center mx-auto shadow-2xl mb-4">
+                                    <UserPlus className="w-6 h-6 sm:w-8 sm:h-8 text-white" />
+                                </div>
+                                <h1 className="text-xl sm:text-2xl lg:text-3xl font-bold bg-gradient-to-r from-green-600 via-emerald-600 to-teal-600 bg-clip-text text-transparent mb-1">
+                                    Join a Mosque Team
+                                </h1>
+                            </div>
+
+                            {isLoading && (
+                                <div className="flex justify-center py-8">
+                                    <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-green-600"></div>
+                                </div>
+                            )}
+
+                            {loadError && (
+                                <div className="bg-red-50/80 border-2 border-red-200/50 rounded-xl p-4 text-center">
+                                    <AlertTriangle className="w-8 h-8 text-red-500 mx-auto mb-2" />
+                                    <p className="text-sm sm:text-base text-red-800">{getErrorMessage(loadError)}</p>
+                                    <p className="text-xs text-gray-600 mt-2">Ask the mosque owner to send you a new invitation.</p>
+                                </div>
+                            )}
+
+                            {invitation && (
+                                <form onSubmit={handleAccept} className="space-y-4">
+                                    <div className="bg-white/70 border border-green-200/60 rounded-xl p-4">
+                                        <p className="font-bold text-gray-800">{invitation.mosque.name}</p>
+                                        <p className="text-sm text-gray-600 flex items-center mt-1">
+                                            <MapPin className="w-3 h-3 mr-1 flex-shrink-0" />
+                                            {invitation.mosque.location}
+                                        </p>
+                                        <p className="text-sm text-gray-700 mt-3">
+                                            {invitation.invited_by || 'The mosque owner'} invited <span className="font-semibold">{invitation.email}</span> to join as <span className="font-semibold text-green-700">{invitation.role_label}</span>.
+                                        </p>
+                                        <p className="text-xs text-gray-500 mt-2">
+                                            Expires {new Date(invitation.expires_at).toLocaleString()}
+                                        </p>
+                                    </div>
+
+                                    <AuthThrottleNotice throttle={throttle} cooldown={cooldown} />
+
+                                    {error && (
+                                        <div className="bg-red-50/80 border-2 border-red-200/50 rounded-xl p-3">
+                                            <p className="text-sm text-red-800">{error}</p>
+                                        </div>
+                                    )}
+
+                                    {!invitation.has_account && (
+                                        <>
+                                            <div className="relative">
+                                                <User className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-green-600" />
+                                                <input
+                                                    type="text"
+                                                    value={name}
+                                                    onChange={(event) => setName(event.target.value)}
+                                                    placeholder="Your full name"
+                                                    className={inputClass}
+                                                />
+                                            </div>
+                                            <div className="relative">
+                                                <Phone className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-green-600" />
+                                                <input
+                                                    type="tel"
+                                                    value={phone}
+                                                    onChange={(event) => setPhone(event.target.value)}
+                                                    placeholder="+923001234567"
+                                                    className={inputClass}
+                                                />
+                                            </div>
+                                        </>
+                                    )}
+
+                                    <div className="relative">
+                                        <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-green-600" />
+                                        <input
+                                            type="password"
+                                            value={password}
+                                            onChange={(event) => setPassword(event.target.value)}
+                                            placeholder={invitation.has_account ? 'Your current password' : 'Create a password'}
+                                            required
+                                            className={inputClass}
+                                        />
+                                    </div>
+                                    {invitation.has_account && (
+                                        <p className="text-xs text-gray-600">
+                                            You already have an account with this email. Confirm your password to move it to this mosque.
+                                        </p>
+                                    )}
+
+                                    <button
+                                        type="submit"
+                                        disabled={submitting || !password || cooldown > 0}
+                                        className="w-full flex items-center justify-center bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 disabled:from-gray-400 disabled:to-gray-500 text-white font-bold py-3 px-6 rounded-xl transition-all duration-200 shadow-xl"
+                                    >
+                                        <UserPlus className="w-4 h-4 mr-2" />
+                                        {submitting ? 'Joining...' : 'Accept invitation'}
+                                    </button>
+                                </form>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AdminInvitationPage;
@@ -6,6 +6,9 @@ import { z } from 'zod';
 import { Eye, EyeOff, LogIn, ArrowLeft, Mail, Lock, AlertTriangle } from 'react-feather';
 import { authApi } from '../lib/api';
 import { getErrorMessage } from '../lib/types';
+import { getAuthThrottle, useCooldown } from '../lib/rateLimit';
+import type { AuthThrottle } from '../lib/rateLimit';
+import AuthThrottleNotice from '../components/AuthThrottleNotice';
 
 const loginSchema = z.object({
     email: z.string().email('Invalid email address'),
@@ -19,6 +22,8 @@ const AdminLoginPage: React.FC = () => {
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [hadTimeout, setHadTimeout] = useState(false);
+    const [throttle, setThrottle] = useState<AuthThrottle | null>(null);
+    const cooldown = useCooldown(throttle?.retryAt ?? null);
 
     const {
         register,
@@ -52,6 +57,7 @@ const AdminLoginPage: React.FC = () => {
             }
         } catch (err) {
             console.log('Login error:', err);
+            setThrottle(getAuthThrottle(err));
 
             // Check if it's a status-related error (rejected/pending)
             const errorResponse = err as {
@@ -61,6 +67,7 @@ const AdminLoginPage: React.FC = () => {
                         status?: string;
                         error?: string;
                         token?: string;
+                        refresh_token?: string;
                         admin?: {
                             _id: string;
                             name: string;
@@ -96,6 +103,9 @@ const AdminLoginPage: React.FC = () => {
                     localStorage.setItem('token', data.token);
                     console.log('Saved rejected admin token:', data.token);
                 }
+                if (data.refresh_token) {
+                    localStorage.setItem('refresh_token', data.refresh_token);
+                }
                 if (data.admin) {
                     localStorage.setItem('user', JSON.stringify(data.admin));
                     console.log('Saved rejected admin user:', data.admin);
@@ -119,6 +129,9 @@ const AdminLoginPage: React.FC = () => {
                     localStorage.setItem('token', data.token);
                     console.log('Saved mosque_deleted admin token:', data.token);
                 }
+                if (data.refresh_token) {
+                    localStorage.setItem('refresh_token', data.refresh_token);
+                }
                 if (data.admin) {
                     localStorage.setItem('user', JSON.stringify(data.admin));
                     console.log('Saved mosque_deleted admin user:', data.admin);
@@ -142,6 +155,9 @@ const AdminLoginPage: React.FC = () => {
                     localStorage.setItem('token', data.token);
                     console.log('Saved admin_removed admin token:', data.token);
                 }
+                if (data.refresh_token) {
+                    localStorage.setItem('refresh_token', data.refresh_token);
+                }
                 if (data.admin) {
                     localStorage.setItem('user', JSON.stringify(data.admin));
                     console.log('Saved admin_removed admin user:', data.admin);
@@ -167,6 +183,9 @@ const AdminLoginPage: React.FC = () => {
                     localStorage.setItem('token', data.token);
                     console.log('Saved code_regenerated admin token:', data.token);
                 }
+                if (data.refresh_token) {
+                    localStorage.setItem('refresh_token', data.refresh_token);
+                }
                 if (data.admin) {
                     localStorage.setItem('user', JSON.stringify(data.admin));
                     console.log('Saved code_regenerated admin user:', data.admin);
@@ -190,6 +209,9 @@ const AdminLoginPage: React.FC = () => {
                     localStorage.setItem('token', data.token);
                     console.log('Saved pending admin token:', data.token);
                 }
+                if (data.refresh_token) {
+                    localStorage.setItem('refresh_token', data.refresh_token);
+                }
                 if (data.admin) {
                     localStorage.setItem('user', JSON.stringify(data.admin));
                     console.log('Saved pending admin user:', data.admin);
@@ -284,6 +306,8 @@ const AdminLoginPage: React.FC = () => {
                                 </p>
                             </div>
 
+                            <AuthThrottleNotice throttle={throttle} cooldown={cooldown} />
+
                             {/* Modern Islamic Error Message */}
                             {error && (
                                 <div className="bg-gradient-to-r from-red-50/80 via-rose-50/60 to-pink-50/40 border-2 border-red-200/50 rounded-lg sm:rounded-xl p-3 sm:p-4 mb-4 sm:mb-6 backdrop-blur-sm">
@@ -390,7 +414,7 @@ const AdminLoginPage: React.FC = () => {
                                 {/* Islamic Submit Button */}
                                 <button
                                     type="submit"
-                                    disabled={loading}
+                                    disabled={loading || cooldown > 0}
                                     className="group relative w-full flex items-center justify-center px-4 sm:px-6 py-3 sm:py-3.5 bg-gradient-to-r from-green-500 via-emerald-600 to-teal-600 hover:from-green-600 hover:via-emerald-700 hover:to-teal-700 text-white font-semibold rounded-lg sm:rounded-xl shadow-lg hover:shadow-2xl transform hover:scale-105 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none overflow-hidden text-sm sm:text-base"
                                 >
                                     <div className="absolute inset-0 bg-white/20 rounded-lg sm:rounded-xl scale-0 group-hover:scale-100 transition-transform duration-300"></div>
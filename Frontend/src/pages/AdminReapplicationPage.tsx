@@ -71,6 +71,7 @@ const AdminReapplicationPage: React.FC = () => {
             setTimeout(() => {
                 // Clear all auth data
                 localStorage.removeItem('token');
+                localStorage.removeItem('refresh_token');
                 localStorage.removeItem('user');
                 localStorage.removeItem('userRole');
 
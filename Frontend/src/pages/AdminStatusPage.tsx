@@ -2,6 +2,8 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { authApi } from '../lib/api';
 import type { AdminProfile } from '../lib/types';
+import ApplicationInfoPanel from '../components/admin/ApplicationInfoPanel';
+import EmailLanguageSelect from '../components/admin/EmailLanguageSelect';
 import {
     CheckCircle,
     XCircle,
@@ -64,8 +66,14 @@ const AdminStatusPage: React.FC = () => {
         fetchAdminStatus();
     }, [fetchAdminStatus]);
 
-    const handleLogout = () => {
+    const handleLogout = async () => {
+        try {
+            await authApi.logout();
+        } catch (err) {
+            console.error('Logout error:', err);
+        }
         localStorage.removeItem('token');
+        localStorage.removeItem('refresh_token');
         localStorage.removeItem('user');
         navigate('/');
     };
@@ -167,6 +175,11 @@ const AdminStatusPage: React.FC = () => {
                             </p>
 
                             {children}
+
+                            <EmailLanguageSelect
+                                value={profile.preferred_language ?? 'en'}
+                                onSaved={(locale) => setProfile((current) => current && { ...current, preferred_language: locale })}
+                            />
                         </div>
                     </div>
                 </div>
@@ -230,6 +243,13 @@ const AdminStatusPage: React.FC = () => {
                     </div>
                 </div>
 
+                {profile.application_info && (
+                    <ApplicationInfoPanel
+                        info={profile.application_info}
+                        onUpdated={(info) => setProfile({ ...profile, application_info: info })}
+                    />
+                )}
+
                 {/* Next Steps */}
                 <div className="bg-emerald-50/80 backdrop-blur-sm border border-emerald-200/50 rounded-2xl p-4 sm:p-6 mb-6 sm:mb-8 shadow-lg">
                     <h3 className="font-semibold text-gray-800 mb-3 sm:mb-4 flex items-center gap-2 text-sm sm:text-base">
@@ -26,6 +26,8 @@ const EmailVerificationPage: React.FC = () => {
     // Get data from navigation state
     const email = location.state?.email || '';
     const userType = location.state?.userType || '';
+    // The first send attempt failed; the server keeps retrying until the code expires
+    const emailDelayed = !!location.state?.emailDelayed;
 
     const form = useForm<VerifyCodeFormData>({
         resolver: zodResolver(verifyCodeSchema),
@@ -167,6 +169,11 @@ const EmailVerificationPage: React.FC = () => {
                         <p className="text-gray-600 text-xs sm:text-lg leading-relaxed max-w-md mx-auto px-2">
                             We've sent a 6-digit code to <strong>{email}</strong>
                         </p>
+                        {emailDelayed && (
+                            <p className="text-amber-700 text-xs sm:text-sm mt-2 max-w-md mx-auto px-2">
+                                The email is taking longer than usual. It should arrive within a few minutes.
+                            </p>
+                        )}
                     </div>
 
                     {/* Form */}
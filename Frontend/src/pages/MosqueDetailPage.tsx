@@ -1,8 +1,14 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, Link } from 'react-router-dom';
-import { useMosque, usePrayerTimes } from '../lib/queries';
+import { useMosque, usePrayerTimes, usePhotos } from '../lib/queries';
 import { getErrorMessage } from '../lib/types';
+import type { MosquePhoto } from '../lib/types';
+import { mosqueApi, resolveMediaUrl } from '../lib/api';
+import { getStoredFavorites, saveFavorite } from '../lib/favorites';
 import PrayerClock from '../components/PrayerClock';
+import FacilityIcons from '../components/FacilityIcons';
+import AnnouncementsBoard from '../components/AnnouncementsBoard';
+import { FACILITIES } from '../lib/facilities';
 import {
     ArrowLeft,
     MapPin,
@@ -14,12 +20,20 @@ import {
     Home,
     Info,
     AlertTriangle,
-    RefreshCw
+    RefreshCw,
+    Download,
+    Calendar,
+    CheckSquare,
+    Camera,
+    X
 } from 'react-feather';
 
 const MosqueDetailPage: React.FC = () => {
     const { id } = useParams<{ id: string }>();
     const [isFavorited, setIsFavorited] = useState(false);
+    const [downloadingTimetable, setDownloadingTimetable] = useState(false);
+    const [downloadError, setDownloadError] = useState<string | null>(null);
+    const [selectedPhoto, setSelectedPhoto] = useState<MosquePhoto | null>(null);
 
     // Use React Query for fetching mosque details and prayer times
     const {
@@ -36,6 +50,9 @@ const MosqueDetailPage: React.FC = () => {
         refetch: refetchPrayerTimes
     } = usePrayerTimes(id!);
 
+    // The gallery is optional, so it never blocks or errors the page
+    const { data: photos = [] } = usePhotos(id!);
+
     // Combine loading and error states
     const loading = mosqueLoading || prayerTimesLoading;
     const error = mosqueError ? getErrorMessage(mosqueError) :
@@ -61,24 +78,42 @@ const MosqueDetailPage: React.FC = () => {
 
     useEffect(() => {
         // Check if this mosque is in favorites
-        const favorites = JSON.parse(localStorage.getItem('favoriteMosques') || '[]');
-        setIsFavorited(favorites.includes(id));
+        setIsFavorited(!!id && getStoredFavorites().includes(id));
     }, [id]);
 
     const toggleFavorite = () => {
-        const favorites = JSON.parse(localStorage.getItem('favoriteMosques') || '[]');
-        let updatedFavorites;
-
-        if (isFavorited) {
-            // Remove from favorites
-            updatedFavorites = favorites.filter((favId: string) => favId !== id);
-        } else {
-            // Add to favorites
-            updatedFavorites = [...favorites, id];
-        }
+        if (!id) return;
+        const favorited = !isFavorited;
+        setIsFavorited(favorited);
+        // A signed-in congregant's account is updated too
+        saveFavorite(id, favorited)
+            .then((favorites) => setIsFavorited(favorites.includes(id)))
+            .catch((err) => console.error('Failed to save favorite:', getErrorMessage(err)));
+    };
 
-        localStorage.setItem('favoriteMosques', JSON.stringify(updatedFavorites));
-        setIsFavorited(!isFavorited);
+    const downloadTimetable = async () => {
+        setDownloadingTimetable(true);
+        setDownloadError(null);
+        try {
+            const response = await mosqueApi.downloadTimetablePdf(id!);
+
+            // Prefer the server's file name, which carries the mosque name and month
+            const disposition = response.headers['content-disposition'] as string | undefined;
+            const fileName = disposition?.match(/filename="([^"]+)"/)?.[1] || 'prayer-timetable.pdf';
+
+            const url = window.URL.createObjectURL(new Blob([response.data], { type: 'application/pdf' }));
+            const link = document.createElement('a');
+            link.href = url;
+            link.setAttribute('download', fileName);
+            document.body.appendChild(link);
+            link.click();
+            link.remove();
+            window.URL.revokeObjectURL(url);
+        } catch (err) {
+            setDownloadError(getErrorMessage(err));
+        } finally {
+            setDownloadingTimetable(false);
+        }
     };
 
     if (loading) {
@@ -234,6 +269,9 @@ const MosqueDetailPage: React.FC = () => {
         );
     }
 
+    const hasFacilities = FACILITIES.some(({ key }) => mosque.facilities?.[key]) ||
+        (mosque.facilities?.khutbah_languages?.length ?? 0) > 0;
+
     return (
         <div className="min-h-screen bg-gradient-to-br from-green-50 via-emerald-50/30 to-teal-50/20">
             {/* Modern Islamic Navigation Header */}
@@ -280,6 +318,18 @@ const MosqueDetailPage: React.FC = () => {
 
             <div className="container mx-auto px-1 sm:px-3 lg:px-6 py-2 sm:py-4 lg:py-8">
                 <div className="max-w-6xl mx-auto">
+                    {/* Cover Photo */}
+                    {mosque.cover_photo && (
+                        <div className="relative h-48 sm:h-64 lg:h-96 rounded-xl sm:rounded-2xl overflow-hidden shadow-2xl mb-4 sm:mb-6 lg:mb-8">
+                            <img
+                                src={resolveMediaUrl(mosque.cover_photo.hero_url)}
+                                alt={mosque.name}
+                                className="w-full h-full object-cover"
+                            />
+                            <div className="absolute inset-0 bg-gradient-to-t from-black/30 to-transparent"></div>
+                        </div>
+                    )}
+
                     {/* Modern Islamic Hero Section */}
                     <div className="relative text-center mb-4 sm:mb-6 lg:mb-12">
                         {/* 3D Background Effects */}
@@ -352,7 +402,7 @@ const MosqueDetailPage: React.FC = () => {
 
                                     {/* Prayer Clock Content */}
                                     <div className="p-3 sm:p-4 lg:p-6">
-                                        <PrayerClock prayerTimes={mosque.prayer_times} />
+                                        <PrayerClock mosqueId={id!} prayerTimes={mosque.prayer_times} />
                                     </div>
                                 </div>
                             </div>
@@ -388,6 +438,36 @@ const MosqueDetailPage: React.FC = () => {
                                             <div className="absolute inset-0 bg-white/20 rounded-lg sm:rounded-xl scale-0 group-hover:scale-100 transition-transform duration-300"></div>
                                         </button>
 
+                                        {/* Download Monthly Timetable */}
+                                        <button
+                                            onClick={downloadTimetable}
+                                            disabled={downloadingTimetable}
+                                            className="group relative w-full bg-gradient-to-r from-teal-500 to-cyan-600 hover:from-teal-600 hover:to-cyan-700 disabled:opacity-70 text-white px-2 sm:px-3 lg:px-4 py-2 sm:py-2.5 lg:py-3 rounded-lg sm:rounded-xl font-medium text-sm sm:text-base lg:text-base transition-all duration-300 transform hover:scale-105 shadow-lg hover:shadow-xl flex items-center justify-center"
+                                        >
+                                            {downloadingTimetable ? (
+                                                <div className="animate-spin rounded-full h-3 w-3 sm:h-4 sm:w-4 border-2 border-white border-t-transparent mr-1 sm:mr-2"></div>
+                                            ) : (
+                                                <Download className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2 group-hover:scale-110 transition-transform duration-200" />
+                                            )}
+                                            <span className="hidden sm:inline">Download Monthly Timetable</span>
+                                            <span className="sm:hidden">Timetable</span>
+                                            <div className="absolute inset-0 bg-white/20 rounded-lg sm:rounded-xl scale-0 group-hover:scale-100 transition-transform duration-300"></div>
+                                        </button>
+                                        {downloadError && (
+                                            <p className="text-xs sm:text-sm text-red-600 text-center">{downloadError}</p>
+                                        )}
+
+                                        {/* Subscribe to Calendar Feed */}
+                                        <a
+                                            href={mosqueApi.getCalendarFeedUrl(id!)}
+                                            className="group relative w-full bg-gradient-to-r from-amber-500 to-orange-600 hover:from-amber-600 hover:to-orange-700 text-white px-2 sm:px-3 lg:px-4 py-2 sm:py-2.5 lg:py-3 rounded-lg sm:rounded-xl font-medium text-sm sm:text-base lg:text-base transition-all duration-300 transform hover:scale-105 shadow-lg hover:shadow-xl flex items-center justify-center text-center"
+                                        >
+                                            <Calendar className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2 group-hover:scale-110 transition-transform duration-200" />
+                                            <span className="hidden sm:inline">Subscribe in Calendar</span>
+                                            <span className="sm:hidden">Subscribe</span>
+                                            <div className="absolute inset-0 bg-white/20 rounded-lg sm:rounded-xl scale-0 group-hover:scale-100 transition-transform duration-300"></div>
+                                        </a>
+
                                         {/* Favorite Toggle */}
                                         <button
                                             onClick={toggleFavorite}
@@ -444,8 +524,103 @@ const MosqueDetailPage: React.FC = () => {
                         </div>
                     )}
 
+                    {/* Facilities Section */}
+                    {hasFacilities && (
+                        <div className="relative bg-gradient-to-br from-white via-green-50/50 to-emerald-50/30 backdrop-blur-xl border-2 border-white/40 rounded-xl sm:rounded-2xl shadow-2xl p-3 sm:p-4 lg:p-8 mb-4 sm:mb-6 lg:mb-8">
+                            {/* 3D Background Effects */}
+                            <div className="absolute inset-0 bg-gradient-to-br from-white/30 to-transparent opacity-60 rounded-xl sm:rounded-2xl"></div>
+                            <div className="absolute -top-2 -right-2 sm:-top-4 sm:-right-4 w-12 h-12 sm:w-20 sm:h-20 bg-gradient-to-br from-green-200/20 to-transparent rounded-full blur-lg sm:blur-xl"></div>
+
+                            <div className="relative z-10">
+                                <div className="flex items-center mb-3 sm:mb-4 lg:mb-6">
+                                    <div className="relative mr-2 sm:mr-3 lg:mr-4">
+                                        <div className="absolute inset-0 bg-gradient-to-r from-green-400 to-emerald-500 rounded-lg sm:rounded-xl blur-sm opacity-30"></div>
+                                        <div className="relative bg-gradient-to-r from-green-500 to-emerald-600 rounded-lg sm:rounded-xl p-2 sm:p-2.5 lg:p-3 shadow-lg">
+                                            <CheckSquare className="w-4 h-4 sm:w-5 sm:h-5 lg:w-6 lg:h-6 text-white" />
+                                        </div>
+                                    </div>
+                                    <h2 className="text-base sm:text-sm lg:text-2xl xl:text-3xl font-bold text-gray-900">
+                                        <span className="hidden sm:inline">Facilities & Amenities</span>
+                                        <span className="sm:hidden">Facilities</span>
+                                    </h2>
+                                </div>
+                                <FacilityIcons facilities={mosque.facilities} variant="full" />
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Announcements & Events Section */}
+                    <AnnouncementsBoard mosqueId={id!} />
+
+                    {/* Photo Gallery Section */}
+                    {photos.length > 0 && (
+                        <div className="relative bg-gradient-to-br from-white via-green-50/50 to-emerald-50/30 backdrop-blur-xl border-2 border-white/40 rounded-xl sm:rounded-2xl shadow-2xl p-3 sm:p-4 lg:p-8 mb-4 sm:mb-6 lg:mb-8">
+                            {/* 3D Background Effects */}
+                            <div className="absolute inset-0 bg-gradient-to-br from-white/30 to-transparent opacity-60 rounded-xl sm:rounded-2xl"></div>
+
+                            <div className="relative z-10">
+                                <div className="flex items-center mb-3 sm:mb-4 lg:mb-6">
+                                    <div className="relative mr-2 sm:mr-3 lg:mr-4">
+                                        <div className="absolute inset-0 bg-gradient-to-r from-green-400 to-emerald-500 rounded-lg sm:rounded-xl blur-sm opacity-30"></div>
+                                        <div className="relative bg-gradient-to-r from-green-500 to-emerald-600 rounded-lg sm:rounded-xl p-2 sm:p-2.5 lg:p-3 shadow-lg">
+                                            <Camera className="w-4 h-4 sm:w-5 sm:h-5 lg:w-6 lg:h-6 text-white" />
+                                        </div>
+                                    </div>
+                                    <h2 className="text-base sm:text-sm lg:text-2xl xl:text-3xl font-bold text-gray-900">
+                                        <span className="hidden sm:inline">Photo Gallery</span>
+                                        <span className="sm:hidden">Photos</span>
+                                    </h2>
+                                </div>
+                                <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-2 sm:gap-3">
+                                    {photos.map((photo) => (
+                                        <button
+                                            key={photo.id}
+                                            type="button"
+                                            onClick={() => setSelectedPhoto(photo)}
+                                            className="group relative aspect-[4/3] rounded-lg sm:rounded-xl overflow-hidden shadow-md hover:shadow-xl transition-all duration-300"
+                                        >
+                                            <img
+                                                src={resolveMediaUrl(photo.thumbnail_url)}
+                                                alt={photo.caption || mosque.name}
+                                                loading="lazy"
+                                                className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500"
+                                            />
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        </div>
+                    )}
+
                 </div>
             </div>
+
+            {/* Photo Lightbox */}
+            {selectedPhoto && (
+                <div
+                    className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+                    onClick={() => setSelectedPhoto(null)}
+                >
+                    <button
+                        type="button"
+                        onClick={() => setSelectedPhoto(null)}
+                        className="absolute top-4 right-4 bg-white/10 hover:bg-white/20 rounded-full p-2 text-white transition-colors duration-200"
+                        aria-label="Close photo"
+                    >
+                        <X className="w-6 h-6" />
+                    </button>
+                    <figure className="max-w-5xl w-full" onClick={(e) => e.stopPropagation()}>
+                        <img
+                            src={resolveMediaUrl(selectedPhoto.hero_url)}
+                            alt={selectedPhoto.caption || mosque.name}
+                            className="w-full max-h-[80vh] object-contain rounded-xl shadow-2xl"
+                        />
+                        {selectedPhoto.caption && (
+                            <figcaption className="text-center text-white mt-3 text-sm sm:text-base">{selectedPhoto.caption}</figcaption>
+                        )}
+                    </figure>
+                </div>
+            )}
         </div>
     );
 };
@@ -2,8 +2,15 @@ import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { useMosques } from '../lib/queries';
 import { getErrorMessage } from '../lib/types';
+import type { AddressFacet, FacilityKey, MosqueApiResponse, MosqueCoordinates } from '../lib/types';
+import { FACILITIES } from '../lib/facilities';
 import MosqueCard from '../components/MosqueCard';
+import MosqueMap from '../components/MosqueMap';
+import { FacilityIcon } from '../components/FacilityIcons';
 import InstallButton from '../components/InstallButton';
+import PrayerReminders from '../components/PrayerReminders';
+import CongregantAccount from '../components/CongregantAccount';
+import { getStoredFavorites, loadFavorites, saveFavorite } from '../lib/favorites';
 import { SiWhatsapp } from 'react-icons/si';
 import {
     Search,
@@ -21,14 +28,34 @@ import {
     RefreshCw,
     X,
     MessageCircle,
-    Flag
+    Flag,
+    Navigation,
+    Grid,
+    Map as MapIcon
 } from 'react-feather';
 
+// Radius choices for "near me" search, in kilometres
+const RADIUS_OPTIONS = [1, 3, 5, 10, 25];
+
+// The map shows every match on one screen instead of paging through cards
+const MAP_RESULT_LIMIT = 500;
+const GRID_PAGE_SIZE = 6;
+
 const MosqueFinderPage: React.FC = () => {
     const [searchTerm, setSearchTerm] = useState('');
     const [debouncedSearchTerm, setDebouncedSearchTerm] = useState('');
     const [favorites, setFavorites] = useState<string[]>([]);
     const [currentPage, setCurrentPage] = useState(1);
+    const [nearLocation, setNearLocation] = useState<MosqueCoordinates | null>(null);
+    const [radiusKm, setRadiusKm] = useState(3);
+    const [locating, setLocating] = useState(false);
+    const [locationError, setLocationError] = useState<string | null>(null);
+    const [viewMode, setViewMode] = useState<'grid' | 'map'>('grid');
+    const [provinceFilter, setProvinceFilter] = useState<string | null>(null);
+    const [cityFilter, setCityFilter] = useState<string | null>(null);
+    const [facilityFilters, setFacilityFilters] = useState<FacilityKey[]>([]);
+    // Last facet counts received, so the chips stay put while a new page loads
+    const [facets, setFacets] = useState<{ provinces: AddressFacet[]; cities: AddressFacet[] }>({ provinces: [], cities: [] });
 
     // Debounce search term
     useEffect(() => {
@@ -48,36 +75,108 @@ const MosqueFinderPage: React.FC = () => {
         refetch
     } = useMosques({
         search: debouncedSearchTerm || undefined,
-        page: currentPage,
-        limit: 6
+        page: viewMode === 'map' ? 1 : currentPage,
+        limit: viewMode === 'map' ? MAP_RESULT_LIMIT : GRID_PAGE_SIZE,
+        near: nearLocation ? `${nearLocation.latitude},${nearLocation.longitude}` : undefined,
+        radius: nearLocation ? radiusKm : undefined,
+        province: provinceFilter || undefined,
+        city: cityFilter || undefined,
+        facilities: facilityFilters.length > 0 ? facilityFilters.join(',') : undefined
     });
 
     // Extract data from query response
-    const mosques = mosquesData?.mosques || [];
-    const pagination = mosquesData?.pagination || { page: 1, limit: 6, total: 0 };
+    const mosques: MosqueApiResponse['data']['mosques'] = mosquesData?.mosques || [];
+    const pagination = mosquesData?.pagination || { page: 1, limit: GRID_PAGE_SIZE, total: 0 };
     const error = queryError ? getErrorMessage(queryError) : null;
 
     useEffect(() => {
-        // Load favorites from localStorage
-        const storedFavorites = JSON.parse(localStorage.getItem('favoriteMosques') || '[]');
-        setFavorites(storedFavorites);
+        if (mosquesData?.facets) setFacets(mosquesData.facets);
+    }, [mosquesData]);
+
+    useEffect(() => {
+        // Show this device's favorites straight away, then the account's when signed in
+        setFavorites(getStoredFavorites());
+        loadFavorites().then(setFavorites);
     }, []);
 
     const toggleFavorite = (mosqueId: string) => {
-        const updatedFavorites = favorites.includes(mosqueId)
-            ? favorites.filter(id => id !== mosqueId)
-            : [...favorites, mosqueId];
+        const favorited = !favorites.includes(mosqueId);
+        setFavorites(favorited ? [...favorites, mosqueId] : favorites.filter(id => id !== mosqueId));
+        saveFavorite(mosqueId, favorited)
+            .then(setFavorites)
+            .catch((err) => console.error('Failed to save favorite:', getErrorMessage(err)));
+    };
+
+    const handleUseMyLocation = () => {
+        if (!navigator.geolocation) {
+            setLocationError('Location is not supported by this browser');
+            return;
+        }
+
+        setLocating(true);
+        setLocationError(null);
+        navigator.geolocation.getCurrentPosition(
+            (position) => {
+                setNearLocation({
+                    latitude: Number(position.coords.latitude.toFixed(6)),
+                    longitude: Number(position.coords.longitude.toFixed(6))
+                });
+                setCurrentPage(1);
+                setLocating(false);
+            },
+            () => {
+                setLocationError('Unable to read your location. Please allow location access and try again.');
+                setLocating(false);
+            },
+            { enableHighAccuracy: true, timeout: 10000 }
+        );
+    };
+
+    const clearNearLocation = () => {
+        setNearLocation(null);
+        setCurrentPage(1);
+    };
+
+    const handleRadiusChange = (radius: number) => {
+        setRadiusKm(radius);
+        setCurrentPage(1);
+    };
+
+    // Picking the selected chip again clears it; a new province drops the city filter
+    const handleProvinceFilter = (province: string) => {
+        setProvinceFilter(provinceFilter === province ? null : province);
+        setCityFilter(null);
+        setCurrentPage(1);
+    };
+
+    const handleCityFilter = (city: string) => {
+        setCityFilter(cityFilter === city ? null : city);
+        setCurrentPage(1);
+    };
+
+    const toggleFacilityFilter = (facility: FacilityKey) => {
+        setFacilityFilters(facilityFilters.includes(facility)
+            ? facilityFilters.filter(key => key !== facility)
+            : [...facilityFilters, facility]);
+        setCurrentPage(1);
+    };
 
-        setFavorites(updatedFavorites);
-        localStorage.setItem('favoriteMosques', JSON.stringify(updatedFavorites));
+    const clearFilters = () => {
+        setProvinceFilter(null);
+        setCityFilter(null);
+        setFacilityFilters([]);
+        setCurrentPage(1);
     };
 
+    const hasAddressFilter = Boolean(provinceFilter || cityFilter);
+    const hasFilters = hasAddressFilter || facilityFilters.length > 0;
+
     const handlePageChange = (newPage: number) => {
         setCurrentPage(newPage);
     };
 
-    // Sort mosques to put favorites at the top
-    const sortedMosques = [...mosques].sort((a, b) => {
+    // Sort mosques to put favorites at the top; "near me" results keep their distance order
+    const sortedMosques = nearLocation ? mosques : [...mosques].sort((a, b) => {
         const aIsFav = favorites.includes(a.id);
         const bIsFav = favorites.includes(b.id);
         if (aIsFav && !bIsFav) return -1;
@@ -201,6 +300,12 @@ const MosqueFinderPage: React.FC = () => {
                     </div>
                 </div>
 
+                {/* Favorites Account and Prayer Reminders */}
+                <div className="max-w-4xl mx-auto">
+                    <CongregantAccount favorites={favorites} onFavoritesChange={setFavorites} />
+                    <PrayerReminders favorites={favorites} />
+                </div>
+
                 {/* Modern Islamic Search Bar */}
                 <div className="max-w-4xl mx-auto mb-3 sm:mb-6 lg:mb-12">
                     <div className="relative bg-gradient-to-br from-white via-green-50/50 to-emerald-50/30 backdrop-blur-xl border-2 border-white/40 rounded-xl sm:rounded-2xl p-2 sm:p-4 lg:p-6 shadow-2xl">
@@ -239,6 +344,110 @@ const MosqueFinderPage: React.FC = () => {
                                 </div>
                             </div>
 
+                            {/* Near Me Search */}
+                            <div className="mt-2 sm:mt-3 flex flex-col sm:flex-row items-center justify-center gap-2">
+                                {nearLocation ? (
+                                    <div className="flex items-center bg-emerald-50 border border-emerald-200 rounded-full pl-3 pr-1 py-1 text-sm text-emerald-800">
+                                        <Navigation className="w-3 h-3 sm:w-4 sm:h-4 mr-1.5 text-emerald-600" />
+                                        <span className="mr-1">Within</span>
+                                        <select
+                                            value={radiusKm}
+                                            onChange={(e) => handleRadiusChange(Number(e.target.value))}
+                                            className="bg-white border border-emerald-200 rounded-md px-1 py-0.5 text-sm font-semibold focus:outline-none focus:ring-2 focus:ring-emerald-400"
+                                        >
+                                            {RADIUS_OPTIONS.map((radius) => (
+                                                <option key={radius} value={radius}>{radius} km</option>
+                                            ))}
+                                        </select>
+                                        <span className="ml-1 mr-2">of you</span>
+                                        <button
+                                            onClick={clearNearLocation}
+                                            title="Show all mosques"
+                                            className="bg-white hover:bg-red-50 text-gray-500 hover:text-red-600 rounded-full p-1 transition-colors duration-200"
+                                        >
+                                            <X className="w-3 h-3 sm:w-4 sm:h-4" />
+                                        </button>
+                                    </div>
+                                ) : (
+                                    <button
+                                        onClick={handleUseMyLocation}
+                                        disabled={locating}
+                                        className="group relative bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 disabled:opacity-70 text-white font-semibold px-3 sm:px-4 py-1.5 sm:py-2 rounded-lg sm:rounded-xl text-sm sm:text-base transition-all duration-300 transform hover:scale-105 shadow-lg hover:shadow-xl flex items-center"
+                                    >
+                                        {locating ? (
+                                            <div className="animate-spin rounded-full h-3 w-3 sm:h-4 sm:w-4 border-2 border-white border-t-transparent mr-1.5"></div>
+                                        ) : (
+                                            <Navigation className="w-3 h-3 sm:w-4 sm:h-4 mr-1.5 group-hover:scale-110 transition-transform duration-200" />
+                                        )}
+                                        <span>{locating ? 'Locating...' : 'Use my location'}</span>
+                                    </button>
+                                )}
+                                {locationError && (
+                                    <p className="text-sm text-red-600">{locationError}</p>
+                                )}
+                            </div>
+
+                            {/* Facility Filters */}
+                            <div className="mt-3 sm:mt-4 flex flex-wrap items-center justify-center gap-1 sm:gap-2">
+                                <span className="text-xs sm:text-sm font-semibold text-gray-600 mr-1">Facilities:</span>
+                                {FACILITIES.map(({ key, label }) => {
+                                    const isSelected = facilityFilters.includes(key);
+                                    return (
+                                        <button
+                                            key={key}
+                                            onClick={() => toggleFacilityFilter(key)}
+                                            className={`flex items-center px-2 sm:px-3 py-1 rounded-full text-xs sm:text-sm font-medium border transition-all duration-200 ${isSelected
+                                                ? 'bg-gradient-to-r from-green-500 to-emerald-600 text-white border-transparent shadow-md'
+                                                : 'bg-white/80 text-gray-700 border-green-200 hover:border-green-400 hover:bg-green-50'}`}
+                                        >
+                                            <FacilityIcon facility={key} className={`w-3 h-3 mr-1 ${isSelected ? 'text-white' : 'text-green-600'}`} />
+                                            {label}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+
+                            {/* Province & City Filters */}
+                            {(facets.provinces.length > 0 || facets.cities.length > 0) && (
+                                <div className="mt-3 sm:mt-4 space-y-2">
+                                    {[
+                                        { label: 'Province', items: facets.provinces, selected: provinceFilter, onSelect: handleProvinceFilter },
+                                        { label: 'City', items: facets.cities, selected: cityFilter, onSelect: handleCityFilter }
+                                    ].filter(({ items }) => items.length > 0).map(({ label, items, selected, onSelect }) => (
+                                        <div key={label} className="flex flex-wrap items-center justify-center gap-1 sm:gap-2">
+                                            <span className="text-xs sm:text-sm font-semibold text-gray-600 mr-1">{label}:</span>
+                                            {items.map((facet) => {
+                                                const isSelected = selected?.toLowerCase() === facet.value.toLowerCase();
+                                                return (
+                                                    <button
+                                                        key={facet.value}
+                                                        onClick={() => onSelect(facet.value)}
+                                                        className={`flex items-center px-2 sm:px-3 py-1 rounded-full text-xs sm:text-sm font-medium border transition-all duration-200 ${isSelected
+                                                            ? 'bg-gradient-to-r from-green-500 to-emerald-600 text-white border-transparent shadow-md'
+                                                            : 'bg-white/80 text-gray-700 border-green-200 hover:border-green-400 hover:bg-green-50'}`}
+                                                    >
+                                                        {facet.value}
+                                                        <span className={`ml-1 sm:ml-1.5 text-xs ${isSelected ? 'text-green-100' : 'text-gray-400'}`}>{facet.count}</span>
+                                                        {isSelected && <X className="w-3 h-3 ml-1" />}
+                                                    </button>
+                                                );
+                                            })}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+
+                            {hasFilters && (
+                                <div className="mt-2 flex justify-center">
+                                    <button
+                                        onClick={clearFilters}
+                                        className="text-xs sm:text-sm text-gray-500 hover:text-red-600 underline transition-colors duration-200"
+                                    >
+                                        Clear filters
+                                    </button>
+                                </div>
+                            )}
+
                             {/* Search Tips */}
                             <div className="mt-2 sm:mt-3 flex flex-wrap justify-center gap-1 sm:gap-2 text-sm text-gray-600">
                                 <span className="hidden sm:inline-flex items-center bg-gray-100 px-2 py-1 rounded-full">
@@ -354,7 +563,12 @@ const MosqueFinderPage: React.FC = () => {
                                                     <MapPin className="relative w-4 h-4 sm:w-5 sm:h-5 lg:w-6 lg:h-6 text-green-600" />
                                                 </div>
                                                 <span className="bg-gradient-to-r from-gray-800 via-green-700 to-emerald-700 bg-clip-text text-transparent">
-                                                    {searchTerm ? (
+                                                    {nearLocation ? (
+                                                        <>
+                                                            <span className="hidden sm:inline">Mosques Near You</span>
+                                                            <span className="sm:hidden">Near You</span>
+                                                        </>
+                                                    ) : searchTerm ? (
                                                         <>
                                                             <span className="hidden sm:inline">Search Results for </span>
                                                             <span className="sm:hidden">Results: </span>
@@ -373,6 +587,9 @@ const MosqueFinderPage: React.FC = () => {
                                                 <span className="hidden sm:inline">
                                                     Found {pagination.total} mosque{pagination.total !== 1 ? 's' : ''}
                                                     {searchTerm && ' matching your search'}
+                                                    {nearLocation && ` within ${radiusKm} km`}
+                                                    {hasAddressFilter && ` in ${[cityFilter, provinceFilter].filter(Boolean).join(', ')}`}
+                                                    {facilityFilters.length > 0 && ' with the selected facilities'}
                                                 </span>
                                                 <span className="sm:hidden">
                                                     {pagination.total} found
@@ -380,8 +597,25 @@ const MosqueFinderPage: React.FC = () => {
                                             </p>
                                         </div>
 
-                                        {/* Page Info Badge */}
-                                        <div className="mt-2 sm:mt-0 flex items-center">
+                                        {/* View Toggle & Page Info Badge */}
+                                        <div className="mt-2 sm:mt-0 flex items-center gap-2">
+                                            <div className="flex bg-white/80 border-2 border-green-200 rounded-lg p-0.5 shadow-md">
+                                                <button
+                                                    onClick={() => setViewMode('grid')}
+                                                    className={`flex items-center px-2 sm:px-3 py-1 rounded-md text-sm font-semibold transition-colors duration-200 ${viewMode === 'grid' ? 'bg-gradient-to-r from-green-500 to-emerald-600 text-white shadow' : 'text-gray-600 hover:text-green-700'}`}
+                                                >
+                                                    <Grid className="w-3 h-3 sm:w-4 sm:h-4 sm:mr-1" />
+                                                    <span className="hidden sm:inline">Grid</span>
+                                                </button>
+                                                <button
+                                                    onClick={() => setViewMode('map')}
+                                                    className={`flex items-center px-2 sm:px-3 py-1 rounded-md text-sm font-semibold transition-colors duration-200 ${viewMode === 'map' ? 'bg-gradient-to-r from-green-500 to-emerald-600 text-white shadow' : 'text-gray-600 hover:text-green-700'}`}
+                                                >
+                                                    <MapIcon className="w-3 h-3 sm:w-4 sm:h-4 sm:mr-1" />
+                                                    <span className="hidden sm:inline">Map</span>
+                                                </button>
+                                            </div>
+                                            {viewMode === 'grid' && (
                                             <div className="relative">
                                                 <div className="absolute inset-0 bg-gradient-to-r from-blue-400 to-purple-500 rounded-lg blur-sm opacity-30"></div>
                                                 <div className="relative bg-gradient-to-r from-blue-500 to-purple-600 text-white px-2 sm:px-3 py-1 sm:py-1.5 rounded-lg font-semibold text-sm sm:text-base shadow-lg">
@@ -392,11 +626,24 @@ const MosqueFinderPage: React.FC = () => {
                                                     </div>
                                                 </div>
                                             </div>
+                                            )}
                                         </div>
                                     </div>
                                 </div>
 
+                                {/* Mosques Map */}
+                                {viewMode === 'map' && (
+                                    <div className="relative bg-gradient-to-br from-white via-green-50/50 to-emerald-50/30 backdrop-blur-xl border-2 border-white/40 rounded-xl sm:rounded-2xl p-2 sm:p-3 shadow-2xl mb-12">
+                                        <MosqueMap
+                                            mosques={mosques}
+                                            userLocation={nearLocation}
+                                            radiusKm={nearLocation ? radiusKm : undefined}
+                                        />
+                                    </div>
+                                )}
+
                                 {/* Mosques Grid */}
+                                {viewMode === 'grid' && (
                                 <div className="grid gap-6 sm:gap-8 md:grid-cols-2 lg:grid-cols-3 mb-12">
                                     {sortedMosques.map((mosque, index) => (
                                         <div
@@ -411,15 +658,19 @@ const MosqueFinderPage: React.FC = () => {
                                                 name={mosque.name}
                                                 location={mosque.location}
                                                 description={mosque.description}
+                                                distanceKm={mosque.distance_km}
+                                                facilities={mosque.facilities}
+                                                coverPhotoUrl={mosque.cover_photo?.thumbnail_url}
                                                 isFavorited={favorites.includes(mosque.id)}
                                                 onToggleFavorite={toggleFavorite}
                                             />
                                         </div>
                                     ))}
                                 </div>
+                                )}
 
                                 {/* Modern Islamic Pagination */}
-                                {totalPages > 1 && (
+                                {viewMode === 'grid' && totalPages > 1 && (
                                     <div className="relative bg-gradient-to-br from-white via-green-50/50 to-emerald-50/30 backdrop-blur-xl border-2 border-white/40 rounded-xl sm:rounded-2xl p-3 sm:p-4 lg:p-6 shadow-2xl">
                                         {/* 3D Background Effects */}
                                         <div className="absolute inset-0 bg-gradient-to-br from-white/30 to-transparent opacity-60 rounded-xl sm:rounded-2xl"></div>
@@ -510,7 +761,7 @@ const MosqueFinderPage: React.FC = () => {
                                         </div>
 
                                         <h3 className="text-base sm:text-sm lg:text-2xl font-bold text-gray-900 mb-1 sm:mb-2 lg:mb-3">
-                                            {searchTerm ? (
+                                            {searchTerm || nearLocation || hasFilters ? (
                                                 <>
                                                     <span className="hidden sm:inline">No Mosques Found</span>
                                                     <span className="sm:hidden">No Results</span>
@@ -524,7 +775,17 @@ const MosqueFinderPage: React.FC = () => {
                                         </h3>
 
                                         <p className="text-sm sm:text-base lg:text-lg text-gray-600 mb-3 sm:mb-4 lg:mb-6 px-2">
-                                            {searchTerm ? (
+                                            {nearLocation ? (
+                                                <>
+                                                    <span className="hidden sm:inline">No mosques within {radiusKm} km of your location. Try a larger radius.</span>
+                                                    <span className="sm:hidden">Try a larger radius</span>
+                                                </>
+                                            ) : hasFilters ? (
+                                                <>
+                                                    <span className="hidden sm:inline">No mosques match the selected filters.</span>
+                                                    <span className="sm:hidden">Try other filters</span>
+                                                </>
+                                            ) : searchTerm ? (
                                                 <>
                                                     <span className="hidden sm:inline">Try adjusting your search terms or browse all available mosques.</span>
                                                     <span className="sm:hidden">Try different search terms</span>
@@ -537,6 +798,18 @@ const MosqueFinderPage: React.FC = () => {
                                             )}
                                         </p>
 
+                                        {hasFilters && !searchTerm && (
+                                            <button
+                                                onClick={clearFilters}
+                                                className="group relative bg-gradient-to-r from-green-600 via-emerald-600 to-teal-600 hover:from-green-700 hover:via-emerald-700 hover:to-teal-700 text-white font-semibold px-3 sm:px-4 lg:px-6 py-2 sm:py-2.5 lg:py-3 rounded-lg sm:rounded-xl text-sm sm:text-base lg:text-base transition-all duration-300 transform hover:scale-105 shadow-lg hover:shadow-xl"
+                                            >
+                                                <div className="flex items-center">
+                                                    <X className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2 group-hover:rotate-90 transition-transform duration-300" />
+                                                    <span>Clear Filters</span>
+                                                </div>
+                                            </button>
+                                        )}
+
                                         {searchTerm && (
                                             <button
                                                 onClick={() => setSearchTerm('')}
@@ -1,7 +1,9 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { superAdminApi } from '../lib/api';
-import { getErrorMessage } from '../lib/types';
+import { superAdminApi, authApi } from '../lib/api';
+import { getErrorMessage, maskVerificationCode } from '../lib/types';
+import type { MosqueAddress, MostFollowedMosque, Permission, SuperAdminAccess } from '../lib/types';
+import { EMPTY_ADDRESS, toAddressForm, toAddressPayload } from '../lib/address';
 import {
     BarChart,
     Clock,
@@ -13,7 +15,12 @@ import {
     Menu,
     X,
     LogOut,
-    Key
+    Key,
+    Camera,
+    Monitor,
+    Shield,
+    Mail,
+    Send
 } from 'react-feather';
 import {
     FaBuilding,
@@ -23,6 +30,7 @@ import {
     FaCheckCircle
 } from 'react-icons/fa';
 import Toast from '../components/Toast';
+import AddressFields from '../components/AddressFields';
 
 // Import tab components
 import DashboardOverview from '../components/superadmin/DashboardOverview.tsx';
@@ -35,8 +43,32 @@ import AdminManagement from '../components/superadmin/AdminManagement.tsx';
 import AuditLogs from '../components/superadmin/AuditLogs.tsx';
 import SuperAdminManagement from '../components/superadmin/SuperAdminManagement.tsx';
 import CodeRegeneration from '../components/superadmin/CodeRegeneration.tsx';
-
-type TabType = 'dashboard' | 'pending' | 'approved' | 'rejected' | 'registration' | 'delete' | 'no-admin' | 'audit' | 'superadmin' | 'code-regeneration';
+import PhotoModeration from '../components/superadmin/PhotoModeration.tsx';
+import Invitations from '../components/superadmin/Invitations.tsx';
+import EmailDeliveries from '../components/superadmin/EmailDeliveries.tsx';
+import ActiveSessions from '../components/ActiveSessions.tsx';
+import TwoFactorSettings from '../components/superadmin/TwoFactorSettings.tsx';
+import StepUpPrompt from '../components/superadmin/StepUpPrompt.tsx';
+
+type TabType = 'dashboard' | 'pending' | 'approved' | 'rejected' | 'registration' | 'delete' | 'no-admin' | 'audit' | 'superadmin' | 'code-regeneration' | 'photos' | 'invitations' | 'emails' | 'security';
+
+// Permission a role needs to see each tab; null is open to every super admin
+const TAB_PERMISSIONS: Record<TabType, Permission | null> = {
+    'dashboard': 'dashboard.view',
+    'pending': 'requests.view',
+    'approved': 'mosques.view',
+    'rejected': 'requests.view',
+    'registration': 'mosques.create',
+    'delete': 'mosques.delete',
+    'no-admin': 'admins.manage',
+    'invitations': 'admins.manage',
+    'emails': 'emails.manage',
+    'audit': 'audit.view',
+    'superadmin': 'superadmins.manage',
+    'code-regeneration': 'codes.manage',
+    'photos': 'photos.moderate',
+    'security': null
+};
 
 interface ToastState {
     show: boolean;
@@ -54,6 +86,8 @@ interface DashboardStats {
     code_regenerated_admins: number;
     total_super_admins: number;
     total_audit_logs: number;
+    total_congregants?: number;
+    most_followed_mosques?: MostFollowedMosque[];
 }
 
 interface AdminApplication {
@@ -74,7 +108,7 @@ interface MosqueDetails {
     contact_phone?: string;
     contact_email?: string;
     admin_instructions?: string;
-    verification_code: string;
+    verification_code_prefix: string;
     code_expires: string;
     code_expired: boolean;
     prayer_times?: {
@@ -121,6 +155,7 @@ interface ApprovedMosqueForEdit {
 interface UpdateMosqueData {
     name?: string;
     location?: string;
+    address?: MosqueAddress | null;
     description?: string;
     contact_phone?: string;
     contact_email?: string;
@@ -149,6 +184,8 @@ interface PrayerTimesData {
 const SuperAdminDashboard: React.FC = () => {
     const navigate = useNavigate();
     const [activeTab, setActiveTab] = useState<TabType>('dashboard');
+    // Role and permissions of the signed-in super admin; null until loaded
+    const [access, setAccess] = useState<SuperAdminAccess | null>(null);
     const [stats, setStats] = useState<DashboardStats | null>(null);
     const [loading, setLoading] = useState(true);
     const [isRefreshing, setIsRefreshing] = useState(false); // New state for background refresh indicator
@@ -167,6 +204,7 @@ const SuperAdminDashboard: React.FC = () => {
     const [editFormData, setEditFormData] = useState({
         name: '',
         location: '',
+        address: EMPTY_ADDRESS,
         description: '',
         contact_phone: '',
         contact_email: '',
@@ -211,6 +249,15 @@ const SuperAdminDashboard: React.FC = () => {
         }
     }, []);
 
+    const fetchAccess = useCallback(async () => {
+        try {
+            const response = await superAdminApi.getMyAccess();
+            setAccess(response.data);
+        } catch (err) {
+            console.error('Failed to fetch access:', err);
+        }
+    }, []);
+
     // Toggle auto-refresh functionality
     const toggleAutoRefresh = useCallback(() => {
         if (isAutoRefreshEnabled) {
@@ -243,6 +290,7 @@ const SuperAdminDashboard: React.FC = () => {
 
         // Initial fetch
         fetchStats(true);
+        fetchAccess();
 
         // Cleanup interval on component unmount
         return () => {
@@ -251,7 +299,7 @@ const SuperAdminDashboard: React.FC = () => {
             }
         };
 
-    }, [navigate, fetchStats]);
+    }, [navigate, fetchStats, fetchAccess]);
 
     // Separate effect to handle auto-refresh setup
     useEffect(() => {
@@ -385,6 +433,7 @@ const SuperAdminDashboard: React.FC = () => {
                 const formData = {
                     name: mosqueData.name || '',
                     location: mosqueData.location || '',
+                    address: toAddressForm(mosqueData.address),
                     description: mosqueData.description || '',
                     contact_phone: mosqueData.contact_phone || '',
                     contact_email: mosqueData.contact_email || '',
@@ -441,6 +490,7 @@ const SuperAdminDashboard: React.FC = () => {
             const updateData: UpdateMosqueData = {};
             if (editFormData.name.trim()) updateData.name = editFormData.name.trim();
             if (editFormData.location.trim()) updateData.location = editFormData.location.trim();
+            updateData.address = toAddressPayload(editFormData.address);
             if (editFormData.description.trim()) updateData.description = editFormData.description.trim();
             if (editFormData.contact_phone.trim()) updateData.contact_phone = editFormData.contact_phone.trim();
             if (editFormData.contact_email.trim()) updateData.contact_email = editFormData.contact_email.trim();
@@ -502,13 +552,45 @@ const SuperAdminDashboard: React.FC = () => {
         setSelectedMosqueForEdit(null);
     };
 
-    const handleLogout = () => {
+    // Stable so child components can list them as effect dependencies
+    const showSuccessToast = useCallback((message: string) => setToast({ show: true, type: 'success', message }), []);
+    const showErrorToast = useCallback((message: string) => setToast({ show: true, type: 'error', message }), []);
+
+    const handleLogout = async () => {
+        try {
+            await authApi.logout();
+        } catch (err) {
+            console.error('Logout error:', err);
+        }
         localStorage.removeItem('superadmin');
         localStorage.removeItem('user_type');
         localStorage.removeItem('token');
+        localStorage.removeItem('refresh_token');
         navigate('/');
     };
 
+    // Revoke every session of this super admin, including ones on other devices
+    const handleLogoutAll = async () => {
+        if (!window.confirm('Sign out on every device and browser, including this one?')) {
+            return;
+        }
+        try {
+            await authApi.logoutAll();
+        } catch (err) {
+            console.error('Logout all error:', err);
+            setToast({ show: true, type: 'error', message: 'Failed to sign out other sessions' });
+            return;
+        }
+        localStorage.removeItem('superadmin');
+        localStorage.removeItem('user_type');
+        localStorage.removeItem('token');
+        localStorage.removeItem('refresh_token');
+        navigate('/');
+    };
+
+    // Everything is shown until the role has loaded; the API checks each request anyway
+    const can = (permission: Permission) => !access || access.permissions.includes(permission);
+
     const tabs = [
         {
             id: 'dashboard' as TabType,
@@ -540,6 +622,12 @@ const SuperAdminDashboard: React.FC = () => {
             icon: Key,
             count: null
         },
+        {
+            id: 'photos' as TabType,
+            label: 'Photo Moderation',
+            icon: Camera,
+            count: null
+        },
         {
             id: 'delete' as TabType,
             label: 'Delete Mosques',
@@ -552,6 +640,18 @@ const SuperAdminDashboard: React.FC = () => {
             icon: AlertTriangle,
             count: null
         },
+        {
+            id: 'invitations' as TabType,
+            label: 'Invitations',
+            icon: Mail,
+            count: null
+        },
+        {
+            id: 'emails' as TabType,
+            label: 'Email Deliveries',
+            icon: Send,
+            count: null
+        },
         {
             id: 'rejected' as TabType,
             label: 'Rejected Admins',
@@ -569,13 +669,26 @@ const SuperAdminDashboard: React.FC = () => {
             label: 'Super Admin Management',
             icon: AlertTriangle,
             count: stats?.total_super_admins || 0
+        },
+        {
+            id: 'security' as TabType,
+            label: 'Security',
+            icon: Shield,
+            count: null
         }
     ];
 
+    const visibleTabs = tabs.filter((tab) => {
+        const permission = TAB_PERMISSIONS[tab.id];
+        return !permission || can(permission);
+    });
+    // Fall back to the first allowed tab when the role doesn't cover the selected one
+    const currentTab = visibleTabs.some((tab) => tab.id === activeTab) ? activeTab : visibleTabs[0].id;
+
     const renderActiveTab = () => {
-        switch (activeTab) {
+        switch (currentTab) {
             case 'dashboard':
-                return <DashboardOverview stats={stats} onRefresh={() => fetchStats(false)} />;
+                return <DashboardOverview stats={stats} onRefresh={() => fetchStats(false)} canViewAudit={can('audit.view')} />;
             case 'pending':
                 return (
                     <PendingRequests
@@ -610,7 +723,9 @@ const SuperAdminDashboard: React.FC = () => {
                                     admin_email: data.admin_email as string,
                                     admin_phone: data.admin_phone as string,
                                     admin_password: data.admin_password as string,
-                                    registration_code: data.registration_code as string
+                                    registration_code: data.registration_code as string,
+                                    latitude: data.latitude as number | undefined,
+                                    longitude: data.longitude as number | undefined
                                 };
 
                                 const response = await superAdminApi.registerMosqueWithAdmin(registrationData);
@@ -646,13 +761,15 @@ const SuperAdminDashboard: React.FC = () => {
                                     description: (data.description as string) || '',
                                     contact_phone: (data.contact_phone as string) || '',
                                     contact_email: (data.contact_email as string) || '',
-                                    admin_instructions: (data.admin_instructions as string) || ''
+                                    admin_instructions: (data.admin_instructions as string) || '',
+                                    latitude: data.latitude as number | undefined,
+                                    longitude: data.longitude as number | undefined
                                 };
 
                                 const response = await superAdminApi.registerSimpleMosque(registrationData);
                                 console.log('Simple mosque registration successful:', response.data);
 
-                                // Show success toast with verification code immediately
+                                // The full code is only returned here - it is stored hashed from now on
                                 const verificationCode = response.data?.mosque?.verification_code || 'N/A';
                                 setToast({
                                     show: true,
@@ -682,6 +799,12 @@ const SuperAdminDashboard: React.FC = () => {
                 );
             case 'code-regeneration':
                 return <CodeRegeneration />;
+            case 'photos':
+                return <PhotoModeration />;
+            case 'invitations':
+                return <Invitations />;
+            case 'emails':
+                return <EmailDeliveries />;
             case 'delete':
                 return <DeleteMosques />;
             case 'no-admin':
@@ -694,9 +817,26 @@ const SuperAdminDashboard: React.FC = () => {
             case 'audit':
                 return <AuditLogs />;
             case 'superadmin':
-                return <SuperAdminManagement />;
+                return <SuperAdminManagement roles={access?.roles || []} />;
+            case 'security':
+                return (
+                    <div className="space-y-6">
+                        <TwoFactorSettings onSuccess={showSuccessToast} onError={showErrorToast} />
+                        <ActiveSessions
+                            onSuccess={showSuccessToast}
+                            onError={showErrorToast}
+                            onCurrentSessionRevoked={() => {
+                                localStorage.removeItem('superadmin');
+                                localStorage.removeItem('user_type');
+                                localStorage.removeItem('token');
+                                localStorage.removeItem('refresh_token');
+                                navigate('/');
+                            }}
+                        />
+                    </div>
+                );
             default:
-                return <DashboardOverview stats={stats} onRefresh={() => fetchStats(false)} />;
+                return <DashboardOverview stats={stats} onRefresh={() => fetchStats(false)} canViewAudit={can('audit.view')} />;
         }
     };
 
@@ -768,14 +908,21 @@ const SuperAdminDashboard: React.FC = () => {
                                     {isRefreshing ? 'Updating Dashboard...' : isAutoRefreshEnabled ? 'Auto Refresh ON' : 'Auto Refresh OFF'}
                                 </span>
                             </div>
+
+                            {/* Role badge */}
+                            {access && (
+                                <span className="px-3 py-1 rounded-full bg-purple-100 text-purple-700 text-sm font-semibold text-center">
+                                    {access.role_label}{access.province && ` · ${access.province}`}
+                                </span>
+                            )}
                         </div>
                     </div>
 
                     {/* Navigation Section - Scrollable */}
                     <nav className="flex-1 overflow-y-auto p-2 sm:p-3 lg:p-4 space-y-1 sm:space-y-2 custom-scrollbar">
-                        {tabs.map((tab) => {
+                        {visibleTabs.map((tab) => {
                             const Icon = tab.icon;
-                            const isActive = activeTab === tab.id;
+                            const isActive = currentTab === tab.id;
 
                             return (
                                 <button
@@ -828,6 +975,13 @@ const SuperAdminDashboard: React.FC = () => {
                             <LogOut className="w-4 h-4 sm:w-5 sm:h-5 mr-2" />
                             <span className="text-xs sm:text-sm lg:text-base">Logout</span>
                         </button>
+                        <button
+                            onClick={handleLogoutAll}
+                            className="w-full mt-2 text-gray-600 hover:text-red-600 hover:bg-red-50 font-medium py-1.5 sm:py-2 px-3 sm:px-4 rounded-lg sm:rounded-xl transition-all duration-200 flex items-center justify-center"
+                        >
+                            <Monitor className="w-4 h-4 mr-2" />
+                            <span className="text-xs sm:text-sm">Log out everywhere</span>
+                        </button>
                     </div>
                 </div>
 
@@ -1036,7 +1190,7 @@ const SuperAdminDashboard: React.FC = () => {
                                                         <div>
                                                             <label className="text-sm font-medium text-gray-600">Current Verification Code</label>
                                                             <p className="text-gray-800 font-mono bg-blue-100 px-3 py-2 rounded-lg text-lg font-semibold">
-                                                                {selectedMosqueDetails.mosqueData.mosque?.verification_code || 'N/A'}
+                                                                {maskVerificationCode(selectedMosqueDetails.mosqueData.mosque?.verification_code_prefix)}
                                                             </p>
                                                         </div>
                                                         <div>
@@ -1209,6 +1363,14 @@ const SuperAdminDashboard: React.FC = () => {
                                         />
                                     </div>
 
+                                    <div className="bg-white/60 backdrop-blur-sm rounded-xl p-3 border border-gray-200">
+                                        <label className="block text-xs sm:text-sm font-semibold text-gray-700 mb-2">Address</label>
+                                        <AddressFields
+                                            value={editFormData.address}
+                                            onChange={(address) => setEditFormData({ ...editFormData, address })}
+                                        />
+                                    </div>
+
                                     <div className="bg-white/60 backdrop-blur-sm rounded-xl p-3 border border-gray-200">
                                         <label className="block text-xs sm:text-sm font-semibold text-gray-700 mb-2">Description</label>
                                         <textarea
@@ -1481,6 +1643,9 @@ const SuperAdminDashboard: React.FC = () => {
                 />
             )}
 
+            {/* Re-authentication for destructive actions */}
+            <StepUpPrompt />
+
             {/* Custom Styles for Enhanced Sidebar */}
             <style>{`
                 /* Custom scrollbar for navigation */
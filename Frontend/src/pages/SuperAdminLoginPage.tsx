@@ -1,11 +1,15 @@
 import React, { useState } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
+import axios from 'axios';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { authApi } from '../lib/api';
 import { getErrorMessage } from '../lib/types';
-import { Mail, Lock, Shield, ArrowLeft, Eye, EyeOff } from 'react-feather';
+import { getAuthThrottle, useCooldown } from '../lib/rateLimit';
+import type { AuthThrottle } from '../lib/rateLimit';
+import AuthThrottleNotice from '../components/AuthThrottleNotice';
+import { Mail, Lock, Shield, ArrowLeft, Eye, EyeOff, Smartphone, Key } from 'react-feather';
 
 const loginSchema = z.object({
     email: z.string().email('Invalid email address'),
@@ -19,37 +23,82 @@ const SuperAdminLoginPage: React.FC = () => {
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [showPassword, setShowPassword] = useState(false);
+    const [throttle, setThrottle] = useState<AuthThrottle | null>(null);
+    const cooldown = useCooldown(throttle?.retryAt ?? null);
+    // Set once the password is accepted for an account with two-factor authentication
+    const [challengeToken, setChallengeToken] = useState<string | null>(null);
+    const [twoFactorCode, setTwoFactorCode] = useState('');
+    const [useRecoveryCode, setUseRecoveryCode] = useState(false);
 
     const form = useForm<LoginFormData>({
         resolver: zodResolver(loginSchema),
     });
 
+    const completeLogin = (data: { token?: string; super_admin: unknown }) => {
+        // Store token and user info
+        if (data.token) {
+            localStorage.setItem('token', data.token);
+        }
+        localStorage.setItem('superadmin', JSON.stringify(data.super_admin));
+        localStorage.setItem('user_type', 'superadmin');
+
+        // Redirect to super admin dashboard
+        navigate('/superadmin/dashboard');
+    };
+
+    const handleTwoFactor = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!challengeToken) return;
+
+        setLoading(true);
+        setError(null);
+
+        try {
+            const response = await authApi.verifySuperAdminTwoFactor({
+                challenge_token: challengeToken,
+                code: twoFactorCode,
+            });
+            completeLogin(response.data);
+        } catch (err) {
+            if (
+                axios.isAxiosError<{ code?: string }>(err) &&
+                err.response?.data?.code === 'TWO_FACTOR_CHALLENGE_EXPIRED'
+            ) {
+                resetTwoFactor();
+            }
+            setError(getErrorMessage(err));
+            setThrottle(getAuthThrottle(err));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const resetTwoFactor = () => {
+        setChallengeToken(null);
+        setTwoFactorCode('');
+        setUseRecoveryCode(false);
+        setThrottle(null);
+    };
+
     const handleLogin = async (data: LoginFormData) => {
         setLoading(true);
         setError(null);
 
         try {
             const response = await authApi.loginSuperAdmin(data);
-            console.log('Login response:', response.data);
 
-            // Store token and user info
-            if (response.data.token) {
-                localStorage.setItem('token', response.data.token);
+            if (response.data.two_factor_required) {
+                setChallengeToken(response.data.challenge_token);
+                setThrottle(null);
+                return;
             }
-            localStorage.setItem('superadmin', JSON.stringify(response.data.super_admin));
-            localStorage.setItem('user_type', 'superadmin');
 
-            console.log('Stored token:', localStorage.getItem('token'));
-            console.log('Stored user:', localStorage.getItem('superadmin'));
-
-            // Redirect to super admin dashboard
-            navigate('/superadmin/dashboard');
+            completeLogin(response.data);
         } catch (err) {
-            console.log('Super admin login error:', err);
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            console.log('Error response:', (err as any)?.response?.data);
+            console.log('Super admin login error:', getErrorMessage(err));
             const errorMessage = getErrorMessage(err);
             setError(errorMessage);
+            setThrottle(getAuthThrottle(err));
         } finally {
             setLoading(false);
         }
@@ -113,6 +162,8 @@ const SuperAdminLoginPage: React.FC = () => {
                         <div className="absolute -bottom-2 -left-2 sm:-bottom-4 sm:-left-4 w-8 h-8 sm:w-16 sm:h-16 bg-gradient-to-tr from-emerald-200/20 to-transparent rounded-full blur-md sm:blur-lg"></div>
 
                         <div className="relative z-10">
+                            <AuthThrottleNotice throttle={throttle} cooldown={cooldown} />
+
                             {/* Modern Islamic Error Message */}
                             {error && (
                                 <div className="bg-gradient-to-r from-red-50/80 via-rose-50/60 to-pink-50/40 border-2 border-red-200/50 rounded-lg sm:rounded-xl p-3 sm:p-4 mb-4 sm:mb-6 backdrop-blur-sm">
@@ -123,85 +174,147 @@ const SuperAdminLoginPage: React.FC = () => {
                                 </div>
                             )}
 
-                            <form onSubmit={form.handleSubmit(handleLogin)} className="space-y-4 sm:space-y-6">
-                                <div>
-                                    <label className="flex items-center text-sm sm:text-base font-semibold text-gray-700 mb-2 sm:mb-3">
-                                        <div className="relative mr-2">
-                                            <div className="absolute inset-0 bg-gradient-to-r from-green-400 to-emerald-500 rounded-full blur-sm opacity-30"></div>
-                                            <Mail className="relative w-3 h-3 sm:w-4 sm:h-4 text-green-600" />
-                                        </div>
-                                        <span className="hidden sm:inline">Email Address</span>
-                                        <span className="sm:hidden">Email</span>
-                                    </label>
-                                    <input
-                                        {...form.register('email')}
-                                        type="email"
-                                        className="w-full px-3 sm:px-4 py-2.5 sm:py-3 bg-gradient-to-r from-gray-50/80 to-green-50/40 border-2 border-gray-200/50 rounded-lg sm:rounded-xl focus:outline-none focus:ring-2 focus:ring-green-500/50 focus:border-green-400/50 transition-all duration-300 hover:bg-gray-100/80 backdrop-blur-sm text-sm sm:text-base"
-                                        placeholder="Enter your email"
-                                    />
-                                    {form.formState.errors.email && (
-                                        <p className="text-red-500 text-sm sm:text-base mt-1 sm:mt-2 font-medium flex items-center">
-                                            <div className="w-3 h-3 mr-1 flex-shrink-0"></div>
-                                            {form.formState.errors.email.message}
+                            {challengeToken ? (
+                                <form onSubmit={handleTwoFactor} className="space-y-4 sm:space-y-6">
+                                    <div>
+                                        <label className="flex items-center text-sm sm:text-base font-semibold text-gray-700 mb-2 sm:mb-3">
+                                            <div className="relative mr-2">
+                                                <div className="absolute inset-0 bg-gradient-to-r from-green-400 to-emerald-500 rounded-full blur-sm opacity-30"></div>
+                                                {useRecoveryCode
+                                                    ? <Key className="relative w-3 h-3 sm:w-4 sm:h-4 text-green-600" />
+                                                    : <Smartphone className="relative w-3 h-3 sm:w-4 sm:h-4 text-green-600" />}
+                                            </div>
+                                            <span>{useRecoveryCode ? 'Recovery Code' : 'Authentication Code'}</span>
+                                        </label>
+                                        <p className="text-sm text-gray-600 mb-3">
+                                            {useRecoveryCode
+                                                ? 'Enter one of the recovery codes you saved when you set up two-factor authentication.'
+                                                : 'Enter the 6-digit code from your authenticator app.'}
                                         </p>
-                                    )}
-                                </div>
+                                        <input
+                                            value={twoFactorCode}
+                                            onChange={(e) => setTwoFactorCode(e.target.value)}
+                                            inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                                            autoComplete="one-time-code"
+                                            autoFocus
+                                            maxLength={useRecoveryCode ? 9 : 6}
+                                            className="w-full px-3 sm:px-4 py-2.5 sm:py-3 bg-gradient-to-r from-gray-50/80 to-green-50/40 border-2 border-gray-200/50 rounded-lg sm:rounded-xl focus:outline-none focus:ring-2 focus:ring-green-500/50 focus:border-green-400/50 transition-all duration-300 hover:bg-gray-100/80 backdrop-blur-sm text-center text-lg sm:text-xl tracking-[0.3em] font-mono"
+                                            placeholder={useRecoveryCode ? 'XXXX-XXXX' : '123456'}
+                                        />
+                                        <div className="flex justify-between mt-2">
+                                            <button
+                                                type="button"
+                                                onClick={resetTwoFactor}
+                                                className="text-sm sm:text-base text-gray-500 hover:text-green-700 font-medium transition-colors hover:underline"
+                                            >
+                                                Back
+                                            </button>
+                                            <button
+                                                type="button"
+                                                onClick={() => {
+                                                    setUseRecoveryCode(!useRecoveryCode);
+                                                    setTwoFactorCode('');
+                                                }}
+                                                className="text-sm sm:text-base text-green-600 hover:text-emerald-700 font-medium transition-colors hover:underline"
+                                            >
+                                                {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+                                            </button>
+                                        </div>
+                                    </div>
 
-                                <div>
-                                    <label className="flex items-center text-sm sm:text-base font-semibold text-gray-700 mb-2 sm:mb-3">
-                                        <div className="relative mr-2">
-                                            <div className="absolute inset-0 bg-gradient-to-r from-green-400 to-emerald-500 rounded-full blur-sm opacity-30"></div>
-                                            <Lock className="relative w-3 h-3 sm:w-4 sm:h-4 text-green-600" />
+                                    <button
+                                        type="submit"
+                                        disabled={loading || cooldown > 0 || !twoFactorCode.trim()}
+                                        className="group relative w-full bg-gradient-to-r from-green-500 via-emerald-600 to-teal-600 hover:from-green-600 hover:via-emerald-700 hover:to-teal-700 disabled:from-green-300 disabled:via-emerald-300 disabled:to-teal-300 text-white font-bold py-3 sm:py-4 px-4 sm:px-6 rounded-lg sm:rounded-xl transition-all duration-300 transform hover:scale-105 shadow-lg hover:shadow-2xl disabled:transform-none overflow-hidden text-sm sm:text-base"
+                                    >
+                                        <div className="absolute inset-0 bg-white/20 rounded-lg sm:rounded-xl scale-0 group-hover:scale-100 transition-transform duration-300"></div>
+                                        <div className="relative flex items-center justify-center">
+                                            <Shield className="w-4 h-4 mr-2" />
+                                            <span>{loading ? 'Verifying...' : 'Verify'}</span>
                                         </div>
-                                        <span>Password</span>
-                                    </label>
-                                    <div className="relative">
+                                    </button>
+                                </form>
+                            ) : (
+                                <form onSubmit={form.handleSubmit(handleLogin)} className="space-y-4 sm:space-y-6">
+                                    <div>
+                                        <label className="flex items-center text-sm sm:text-base font-semibold text-gray-700 mb-2 sm:mb-3">
+                                            <div className="relative mr-2">
+                                                <div className="absolute inset-0 bg-gradient-to-r from-green-400 to-emerald-500 rounded-full blur-sm opacity-30"></div>
+                                                <Mail className="relative w-3 h-3 sm:w-4 sm:h-4 text-green-600" />
+                                            </div>
+                                            <span className="hidden sm:inline">Email Address</span>
+                                            <span className="sm:hidden">Email</span>
+                                        </label>
                                         <input
-                                            {...form.register('password')}
-                                            type={showPassword ? 'text' : 'password'}
-                                            autoComplete={showPassword ? 'off' : 'current-password'}
-                                            className="w-full pl-3 sm:pl-4 pr-10 sm:pr-12 py-2.5 sm:py-3 bg-gradient-to-r from-gray-50/80 to-green-50/40 border-2 border-gray-200/50 rounded-lg sm:rounded-xl focus:outline-none focus:ring-2 focus:ring-green-500/50 focus:border-green-400/50 transition-all duration-300 hover:bg-gray-100/80 backdrop-blur-sm text-sm sm:text-base"
-                                            placeholder="Enter your password"
+                                            {...form.register('email')}
+                                            type="email"
+                                            className="w-full px-3 sm:px-4 py-2.5 sm:py-3 bg-gradient-to-r from-gray-50/80 to-green-50/40 border-2 border-gray-200/50 rounded-lg sm:rounded-xl focus:outline-none focus:ring-2 focus:ring-green-500/50 focus:border-green-400/50 transition-all duration-300 hover:bg-gray-100/80 backdrop-blur-sm text-sm sm:text-base"
+                                            placeholder="Enter your email"
                                         />
-                                        <button
-                                            type="button"
-                                            onClick={() => setShowPassword(!showPassword)}
-                                            className="absolute right-2 sm:right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-green-600 transition-colors p-1"
-                                            key={showPassword ? 'login-eye-off' : 'login-eye-on'}
-                                        >
-                                            {showPassword ? <EyeOff className="w-3 h-3 sm:w-4 sm:h-4" /> : <Eye className="w-3 h-3 sm:w-4 sm:h-4" />}
-                                        </button>
+                                        {form.formState.errors.email && (
+                                            <p className="text-red-500 text-sm sm:text-base mt-1 sm:mt-2 font-medium flex items-center">
+                                                <div className="w-3 h-3 mr-1 flex-shrink-0"></div>
+                                                {form.formState.errors.email.message}
+                                            </p>
+                                        )}
                                     </div>
-                                    {form.formState.errors.password && (
-                                        <p className="text-red-500 text-sm sm:text-base mt-1 sm:mt-2 font-medium flex items-center">
-                                            <div className="w-3 h-3 mr-1 flex-shrink-0"></div>
-                                            {form.formState.errors.password.message}
-                                        </p>
-                                    )}
-
-                                    {/* Forgot Password Link */}
-                                    <div className="text-right mt-2">
-                                        <Link
-                                            to="/forgot-password/superadmin"
-                                            className="text-sm sm:text-base text-green-600 hover:text-emerald-700 font-medium transition-colors hover:underline"
-                                        >
-                                            Forgot Password?
-                                        </Link>
-                                    </div>
-                                </div>
 
-                                <button
-                                    type="submit"
-                                    disabled={loading}
-                                    className="group relative w-full bg-gradient-to-r from-green-500 via-emerald-600 to-teal-600 hover:from-green-600 hover:via-emerald-700 hover:to-teal-700 disabled:from-green-300 disabled:via-emerald-300 disabled:to-teal-300 text-white font-bold py-3 sm:py-4 px-4 sm:px-6 rounded-lg sm:rounded-xl transition-all duration-300 transform hover:scale-105 shadow-lg hover:shadow-2xl disabled:transform-none overflow-hidden text-sm sm:text-base"
-                                >
-                                    <div className="absolute inset-0 bg-white/20 rounded-lg sm:rounded-xl scale-0 group-hover:scale-100 transition-transform duration-300"></div>
-                                    <div className="relative flex items-center justify-center">
-                                        <Shield className="w-4 h-4 mr-2" />
-                                        <span>{loading ? 'Logging in...' : 'Login'}</span>
+                                    <div>
+                                        <label className="flex items-center text-sm sm:text-base font-semibold text-gray-700 mb-2 sm:mb-3">
+                                            <div className="relative mr-2">
+                                                <div className="absolute inset-0 bg-gradient-to-r from-green-400 to-emerald-500 rounded-full blur-sm opacity-30"></div>
+                                                <Lock className="relative w-3 h-3 sm:w-4 sm:h-4 text-green-600" />
+                                            </div>
+                                            <span>Password</span>
+                                        </label>
+                                        <div className="relative">
+                                            <input
+                                                {...form.register('password')}
+                                                type={showPassword ? 'text' : 'password'}
+                                                autoComplete={showPassword ? 'off' : 'current-password'}
+                                                className="w-full pl-3 sm:pl-4 pr-10 sm:pr-12 py-2.5 sm:py-3 bg-gradient-to-r from-gray-50/80 to-green-50/40 border-2 border-gray-200/50 rounded-lg sm:rounded-xl focus:outline-none focus:ring-2 focus:ring-green-500/50 focus:border-green-400/50 transition-all duration-300 hover:bg-gray-100/80 backdrop-blur-sm text-sm sm:text-base"
+                                                placeholder="Enter your password"
+                                            />
+                                            <button
+                                                type="button"
+                                                onClick={() => setShowPassword(!showPassword)}
+                                                className="absolute right-2 sm:right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-green-600 transition-colors p-1"
+                                                key={showPassword ? 'login-eye-off' : 'login-eye-on'}
+                                            >
+                                                {showPassword ? <EyeOff className="w-3 h-3 sm:w-4 sm:h-4" /> : <Eye className="w-3 h-3 sm:w-4 sm:h-4" />}
+                                            </button>
+                                        </div>
+                                        {form.formState.errors.password && (
+                                            <p className="text-red-500 text-sm sm:text-base mt-1 sm:mt-2 font-medium flex items-center">
+                                                <div className="w-3 h-3 mr-1 flex-shrink-0"></div>
+                                                {form.formState.errors.password.message}
+                                            </p>
+                                        )}
+
+                                        {/* Forgot Password Link */}
+                                        <div className="text-right mt-2">
+                                            <Link
+                                                to="/forgot-password/superadmin"
+                                                className="text-sm sm:text-base text-green-600 hover:text-emerald-700 font-medium transition-colors hover:underline"
+                                            >
+                                                Forgot Password?
+                                            </Link>
+                                        </div>
                                     </div>
-                                </button>
-                            </form>
+
+                                    <button
+                                        type="submit"
+                                        disabled={loading || cooldown > 0}
+                                        className="group relative w-full bg-gradient-to-r from-green-500 via-emerald-600 to-teal-600 hover:from-green-600 hover:via-emerald-700 hover:to-teal-700 disabled:from-green-300 disabled:via-emerald-300 disabled:to-teal-300 text-white font-bold py-3 sm:py-4 px-4 sm:px-6 rounded-lg sm:rounded-xl transition-all duration-300 transform hover:scale-105 shadow-lg hover:shadow-2xl disabled:transform-none overflow-hidden text-sm sm:text-base"
+                                    >
+                                        <div className="absolute inset-0 bg-white/20 rounded-lg sm:rounded-xl scale-0 group-hover:scale-100 transition-transform duration-300"></div>
+                                        <div className="relative flex items-center justify-center">
+                                            <Shield className="w-4 h-4 mr-2" />
+                                            <span>{loading ? 'Logging in...' : 'Login'}</span>
+                                        </div>
+                                    </button>
+                                </form>
+                            )}
                         </div>
                     </div>
                 </div>
@@ -102,13 +102,14 @@ const SuperAdminRegisterPage: React.FC = () => {
         setError(null);
 
         try {
-            await authApi.registerSuperAdmin(data);
+            const response = await authApi.registerSuperAdmin(data);
 
             // Redirect to email verification page with user data
             navigate('/email-verification', {
                 state: {
                     email: data.email,
-                    userType: 'superadmin'
+                    userType: 'superadmin',
+                    emailDelayed: !!response.data.email_delayed
                 }
             });
         } catch (err: unknown) {
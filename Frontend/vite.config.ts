@@ -8,6 +8,10 @@ export default defineConfig({
     VitePWA({
       registerType: "autoUpdate",
       injectRegister: "auto",
+      // Push and notification click handlers for prayer reminders
+      workbox: {
+        importScripts: ["push-sw.js"],
+      },
       manifest: {
         name: "Mosque Finder",
         short_name: "Mosque Finder",